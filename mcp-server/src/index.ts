@@ -30,6 +30,10 @@ dotenv.config({ path: path.join(__dirname, '../.env') })
 // Import API clients (adjust paths based on your structure)
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
+// Session token of the user the API checks permissions of (from POST /api/auth/login)
+const getAuthHeaders = (): Record<string, string> =>
+  process.env.API_AUTH_TOKEN ? { Authorization: `Bearer ${process.env.API_AUTH_TOKEN}` } : {}
+
 // Gemini configuration (optional - can be set via environment or tool)
 let geminiConfig: {
   apiKey?: string
@@ -407,7 +411,7 @@ class AnotherRAMCPServer {
         {
           uri: 'another-ra://api-endpoints',
           name: 'API Endpoints',
-          description: 'List of all available API endpoints',
+          description: 'Every API endpoint by tag, from the OpenAPI document the API serves at /api/openapi.json',
           mimeType: 'application/json',
         },
       ],
@@ -444,7 +448,7 @@ class AnotherRAMCPServer {
 
   // Tool handlers
   private async handleListTables(args: { space?: string }) {
-    const response = await fetch(`${API_BASE_URL}/table-configuration`)
+    const response = await fetch(`${API_BASE_URL}/table-configuration`, { headers: getAuthHeaders() })
     const tables = await response.json() as any[]
     
     const filtered = args.space
@@ -476,7 +480,7 @@ class AnotherRAMCPServer {
     const url = `${API_BASE_URL}/${args.table}?${params.toString()}`
     const response = await fetch(url, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify({ filters: args.filters || {} }),
     })
 
@@ -495,7 +499,7 @@ class AnotherRAMCPServer {
   private async handleCreateTableRecord(args: { table: string; data: Record<string, any> }) {
     const response = await fetch(`${API_BASE_URL}/${args.table}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(args.data),
     })
 
@@ -518,7 +522,7 @@ class AnotherRAMCPServer {
   }) {
     const response = await fetch(`${API_BASE_URL}/${args.table}/${args.id}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(args.data),
     })
 
@@ -537,6 +541,7 @@ class AnotherRAMCPServer {
   private async handleDeleteTableRecord(args: { table: string; id: string }) {
     const response = await fetch(`${API_BASE_URL}/${args.table}/${args.id}`, {
       method: 'DELETE',
+      headers: getAuthHeaders(),
     })
 
     const result = await response.json()
@@ -553,7 +558,7 @@ class AnotherRAMCPServer {
 
   private async handleListApplications(args: { status?: string }) {
     const params = args.status ? `?status=${args.status}` : ''
-    const response = await fetch(`${API_BASE_URL}/application-list${params}`)
+    const response = await fetch(`${API_BASE_URL}/application-list${params}`, { headers: getAuthHeaders() })
     const data = await response.json()
 
     return {
@@ -570,7 +575,7 @@ class AnotherRAMCPServer {
     const url = args.userId
       ? `${API_BASE_URL}/user-preferences/${args.userId}`
       : `${API_BASE_URL}/user-preferences`
-    const response = await fetch(url)
+    const response = await fetch(url, { headers: getAuthHeaders() })
     const data = await response.json()
 
     return {
@@ -592,7 +597,7 @@ class AnotherRAMCPServer {
       : `${API_BASE_URL}/user-preferences`
     const response = await fetch(url, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(args.preferences),
     })
 
@@ -609,7 +614,7 @@ class AnotherRAMCPServer {
   }
 
   private async handleListAIIntegrations(args: {}) {
-    const response = await fetch(`${API_BASE_URL}/ai/integrations`)
+    const response = await fetch(`${API_BASE_URL}/ai/integrations`, { headers: getAuthHeaders() })
     const data = await response.json()
 
     return {
@@ -630,7 +635,7 @@ class AnotherRAMCPServer {
   }) {
     const response = await fetch(`${API_BASE_URL}/developer/tables/create`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify({
         source: 'airtable',
         ...args,
@@ -686,7 +691,7 @@ class AnotherRAMCPServer {
     // Use the API endpoint to chat with Gemini (which handles AI Agent Profile injection)
     const response = await fetch(`${API_BASE_URL}/ai/chat`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify({
         providerId: 'google',
         apiKey: geminiConfig.apiKey,
@@ -723,7 +728,7 @@ class AnotherRAMCPServer {
     }
 
     const url = `${API_BASE_URL}/ai-agent-profile/${userId}`
-    const response = await fetch(url)
+    const response = await fetch(url, { headers: getAuthHeaders() })
     
     if (!response.ok) {
       if (response.status === 404) {
@@ -763,7 +768,7 @@ class AnotherRAMCPServer {
     const url = `${API_BASE_URL}/ai-agent-profile/${userId}`
     const response = await fetch(url, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(args.profile),
     })
 
@@ -786,7 +791,7 @@ class AnotherRAMCPServer {
 
   // Resource handlers
   private async getTablesResource() {
-    const response = await fetch(`${API_BASE_URL}/table-configuration`)
+    const response = await fetch(`${API_BASE_URL}/table-configuration`, { headers: getAuthHeaders() })
     const tables = await response.json()
 
     return {
@@ -834,28 +839,25 @@ class AnotherRAMCPServer {
   }
 
   private async getAPIEndpointsResource() {
-    const endpoints = {
-      tables: {
-        list: 'GET /api/table-configuration',
-        get: 'GET /api/{table}',
-        create: 'POST /api/{table}',
-        update: 'PUT /api/{table}/{id}',
-        delete: 'DELETE /api/{table}/{id}',
-      },
-      applications: {
-        list: 'GET /api/application-list',
-      },
-      preferences: {
-        get: 'GET /api/user-preferences',
-        update: 'PUT /api/user-preferences',
-      },
-      ai: {
-        integrations: 'GET /api/ai/integrations',
-        chat: 'POST /api/ai/chat',
-      },
-      developer: {
-        createTable: 'POST /api/developer/tables/create',
-      },
+    // Generated by the API from its route registry (GET /api/openapi.json), condensed to
+    // one line per operation; the full document has the parameters and schemas
+    const response = await fetch(`${API_BASE_URL}/openapi.json`, { headers: getAuthHeaders() })
+    if (!response.ok) {
+      throw new Error(`Failed to load the OpenAPI document: ${response.status} ${response.statusText}`)
+    }
+    const spec = await response.json() as any
+
+    const endpoints: Record<string, Array<{ operationId: string; endpoint: string; summary: string }>> = {}
+    for (const [path, methods] of Object.entries<Record<string, any>>(spec.paths || {})) {
+      for (const [method, operation] of Object.entries<any>(methods)) {
+        const tag = operation.tags?.[0] || 'Other'
+        endpoints[tag] = endpoints[tag] || []
+        endpoints[tag].push({
+          operationId: operation.operationId,
+          endpoint: `${method.toUpperCase()} ${path}`,
+          summary: operation.summary,
+        })
+      }
     }
 
     return {
@@ -863,7 +865,11 @@ class AnotherRAMCPServer {
         {
           uri: 'another-ra://api-endpoints',
           mimeType: 'application/json',
-          text: JSON.stringify(endpoints, null, 2),
+          text: JSON.stringify({
+            openapi: `${API_BASE_URL}/openapi.json`,
+            version: spec.info?.version,
+            endpoints,
+          }, null, 2),
         },
       ],
     }
@@ -0,0 +1,18 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  setupFiles: ['<rootDir>/jest.setup.js'],
+  // Type errors of the sources are the type-check's to report (npx tsc --noEmit): only
+  // fail a suite on those of its tests
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', { diagnostics: { exclude: ['!**/*.test.ts'] } }],
+  },
+  collectCoverageFrom: [
+    'src/**/*.ts',
+    '!src/**/*.d.ts',
+    '!src/**/*.test.ts',
+    '!src/scripts/**'
+  ]
+};
@@ -0,0 +1,5 @@
+// Tests run on the in-memory mock database. Services that connect to Airtable when
+// imported need a token, which no test uses - never a real one.
+process.env.DATABASE_TYPE = 'mock'
+process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN = 'test-token'
+delete process.env.AIRTABLE_API_KEY
@@ -1,11 +1,13 @@
 /**
  * Airtable Source Adapter
  * 
- * Reads schema from Airtable and converts to logical schema
+ * Reads schema from Airtable and converts to logical schema.
+ * Also reads records, one page at a time, for data migration, and reads changed
+ * records and writes records back for continuous sync.
  */
 
-import { SourceSchemaProvider } from '../core/adapters';
-import { LogicalSchema, LogicalField, LogicalType } from '../core/types';
+import { SourceSchemaProvider, SyncSource, CursorExpiredError } from '../core/adapters';
+import { LogicalSchema, LogicalField, LogicalType, RecordPage, SourceRecord } from '../core/types';
 import Airtable from 'airtable';
 
 export interface AirtableSourceConfig {
@@ -14,7 +16,26 @@ export interface AirtableSourceConfig {
   table?: string;
 }
 
-export class AirtableSource implements SourceSchemaProvider {
+const PAGE_SIZE = 100; // Airtable maximum
+const MAX_RATE_LIMIT_RETRIES = 5;
+const WRITE_BATCH_SIZE = 10; // Airtable maximum
+
+/**
+ * Error body of a failed Airtable API request
+ */
+interface AirtableErrorBody {
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Body of an Airtable API request that lists or writes records
+ */
+interface AirtableRecordsBody {
+  records: SourceRecord[];
+  offset?: string;
+}
+
+export class AirtableSource implements SourceSchemaProvider, SyncSource {
   private base: Airtable.Base;
   private config: AirtableSourceConfig;
 
@@ -47,7 +68,7 @@ export class AirtableSource implements SourceSchemaProvider {
       throw new Error(`Failed to fetch Airtable schema: ${response.statusText}`);
     }
 
-    const data = await response.json() as { tables: Array<{ name: string; fields: any[] }> };
+    const data = await response.json() as { tables: Array<{ id: string; name: string; fields: any[] }> };
     const table = data.tables.find((t: any) => t.name === targetTable);
     
     if (!table) {
@@ -60,10 +81,123 @@ export class AirtableSource implements SourceSchemaProvider {
 
     return {
       tableName: targetTable,
-      fields
+      fields,
+      metadata: {
+        airtableTableId: table.id
+      }
+    };
+  }
+
+  /**
+   * Get one page of records (link fields as arrays of record IDs)
+   */
+  async listRecords(tableName: string, offset?: string): Promise<RecordPage> {
+    return this.listPage(tableName, new URLSearchParams(), offset);
+  }
+
+  /**
+   * Get one page of the records modified after a time (LAST_MODIFIED_TIME of any field)
+   */
+  async listChangedRecords(tableName: string, since: string | undefined, offset?: string): Promise<RecordPage> {
+    const params = new URLSearchParams();
+    if (since) {
+      params.set('filterByFormula', `IS_AFTER(LAST_MODIFIED_TIME(), DATETIME_PARSE('${since}'))`);
+    }
+    return this.listPage(tableName, params, offset);
+  }
+
+  async getRecord(tableName: string, recordId: string): Promise<SourceRecord | null> {
+    const { status, data } = await this.request<SourceRecord>(`${this.tableUrl(tableName)}/${recordId}`);
+    if (status === 404) {
+      return null;
+    }
+    if (status >= 400) {
+      throw new Error(`Failed to get record ${recordId} of '${tableName}': ${data.error?.message || status}`);
+    }
+    return { id: data.id, fields: data.fields };
+  }
+
+  async createRecords(tableName: string, records: Array<Record<string, unknown>>): Promise<string[]> {
+    const ids: string[] = [];
+    for (let i = 0; i < records.length; i += WRITE_BATCH_SIZE) {
+      const batch = records.slice(i, i + WRITE_BATCH_SIZE).map(fields => ({ fields }));
+      const data = await this.write(tableName, 'POST', batch);
+      ids.push(...data.records.map(record => record.id));
+    }
+    return ids;
+  }
+
+  async updateRecords(tableName: string, records: SourceRecord[]): Promise<void> {
+    for (let i = 0; i < records.length; i += WRITE_BATCH_SIZE) {
+      await this.write(tableName, 'PATCH', records.slice(i, i + WRITE_BATCH_SIZE));
+    }
+  }
+
+  private async listPage(tableName: string, params: URLSearchParams, offset?: string): Promise<RecordPage> {
+    params.set('pageSize', String(PAGE_SIZE));
+    if (offset) {
+      params.set('offset', offset);
+    }
+
+    const { status, data } = await this.request<AirtableRecordsBody>(`${this.tableUrl(tableName)}?${params}`);
+    if (status >= 400) {
+      if (data.error?.type === 'LIST_RECORDS_ITERATOR_NOT_AVAILABLE') {
+        throw new CursorExpiredError(tableName);
+      }
+      throw new Error(`Failed to list records of '${tableName}': ${data.error?.message || status}`);
+    }
+
+    return {
+      records: data.records.map(record => ({ id: record.id, fields: record.fields })),
+      offset: data.offset
     };
   }
 
+  private async write(
+    tableName: string,
+    method: 'POST' | 'PATCH',
+    records: Array<{ id?: string; fields: Record<string, unknown> }>
+  ): Promise<AirtableRecordsBody> {
+    // typecast: select options are created and values converted like in the Airtable UI
+    const { status, data } = await this.request<AirtableRecordsBody>(this.tableUrl(tableName), {
+      method,
+      body: JSON.stringify({ records, typecast: true })
+    });
+    if (status >= 400) {
+      throw new Error(`Failed to write records of '${tableName}': ${data.error?.message || status}`);
+    }
+    return data;
+  }
+
+  private tableUrl(tableName: string): string {
+    return `https://api.airtable.com/v0/${this.config.baseId}/${encodeURIComponent(tableName)}`;
+  }
+
+  private async request<T>(
+    url: string,
+    init: { method?: string; body?: string } = {}
+  ): Promise<{ status: number; data: T & AirtableErrorBody }> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json'
+        }
+      });
+
+      // 5 requests per second per base - wait and retry
+      if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+        continue;
+      }
+
+      // Read as T only when the status is a success
+      const data = await response.json().catch(() => ({})) as T & AirtableErrorBody;
+      return { status: response.status, data };
+    }
+  }
+
   /**
    * Map Airtable field type to logical type
    */
@@ -77,7 +211,10 @@ export class AirtableSource implements SourceSchemaProvider {
       description: field.description || undefined,
       metadata: {
         airtableId: field.id,
-        airtableType: field.type
+        airtableType: field.type,
+        ...(field.type === 'multipleRecordLinks' && {
+          prefersSingleRecordLink: !!field.options?.prefersSingleRecordLink
+        })
       }
     };
   }
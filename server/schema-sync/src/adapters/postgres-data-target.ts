@@ -0,0 +1,486 @@
+/**
+ * PostgreSQL Data Target Adapter
+ *
+ * Stores migrated records in PostgreSQL. Every table gets an integer "id" primary key,
+ * the source record ID in "airtable_id" (upsert key) and the source record IDs of its
+ * link fields in "_airtable_links" until they are resolved into foreign keys or join tables.
+ *
+ * For continuous sync, triggers stamp "_modified_at" on every write except the sync's own
+ * (sessions with schema_sync.writer = 'sync'); a record is edited when it changed after
+ * "_synced_at". Join table writes stamp their source record. Sync state is kept in
+ * "_schema_sync_state" and conflicts in "_schema_sync_conflicts".
+ */
+
+import { Client } from 'pg';
+import { PostgresTarget } from './postgres-target';
+import { SyncTarget } from '../core/adapters';
+import { MigrationTable, MigrationLink, SourceRecord, SyncRecordState, SyncConflict } from '../core/types';
+import { toTargetValue } from '../core/migrate';
+
+export const SOURCE_ID_COLUMN = 'airtable_id';
+export const SOURCE_LINKS_COLUMN = '_airtable_links';
+export const SYNC_STATE_TABLE = '_schema_sync_state';
+export const SYNC_CONFLICTS_TABLE = '_schema_sync_conflicts';
+
+// Conflict resolutions as stored: the system to keep
+const RESOLUTIONS: Record<string, SyncConflict['resolution']> = { airtable: 'source', postgres: 'target' };
+
+const quote = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+const quoteLiteral = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * A row read by selectRecords: the stored row as JSON, its links as source record IDs
+ * and, when read for sync, whether it was edited since it was last synced
+ */
+type SelectedRow = {
+  id: string | null;
+  row: Record<string, unknown> & { id: number; _synced_hash: string | null; _modified_at: string | null };
+  edited?: boolean;
+  [linkColumn: `link_${number}`]: string[] | null;
+};
+
+export class PostgresDataTarget extends PostgresTarget implements SyncTarget {
+  /**
+   * Connect with the session in UTC, so that timestamps read back like they were written
+   */
+  protected async getClient(): Promise<Client> {
+    const connected = this.client !== null;
+    const client = await super.getClient();
+    if (!connected) {
+      await client.query(`SET TIME ZONE 'UTC'`);
+    }
+    return client;
+  }
+
+  async prepareTables(tables: MigrationTable[]): Promise<void> {
+    const statements: string[] = [];
+
+    tables.forEach(table => {
+      const name = quote(table.target);
+      statements.push(
+        `CREATE TABLE IF NOT EXISTS ${name} ("id" SERIAL PRIMARY KEY, ${quote(SOURCE_ID_COLUMN)} TEXT NOT NULL UNIQUE, ${quote(SOURCE_LINKS_COLUMN)} JSONB)`,
+        // Tables created before (e.g. by apply) get the migration columns
+        `ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS ${quote(SOURCE_ID_COLUMN)} TEXT`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS ${quote(`${table.target}_${SOURCE_ID_COLUMN}_key`)} ON ${name} (${quote(SOURCE_ID_COLUMN)})`,
+        `ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS ${quote(SOURCE_LINKS_COLUMN)} JSONB`
+      );
+      table.fields.forEach(field => {
+        statements.push(
+          `ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS ${quote(field.name)} ${this.mapLogicalTypeToPostgres(field.logicalType)}`
+        );
+      });
+      table.links
+        .filter(link => link.strategy === 'record_ids')
+        .forEach(link => statements.push(`ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS ${quote(link.field)} TEXT[]`));
+    });
+
+    // Links last: the linked tables must exist
+    tables.forEach(table => {
+      table.links.forEach(link => {
+        if (link.strategy === 'foreign_key') {
+          statements.push(
+            `ALTER TABLE ${quote(table.target)} ADD COLUMN IF NOT EXISTS ${quote(link.field)} INTEGER REFERENCES ${quote(link.refTable!)}("id") ON DELETE SET NULL`
+          );
+        } else if (link.strategy === 'join_table') {
+          statements.push(
+            `CREATE TABLE IF NOT EXISTS ${quote(link.joinTable!)} (` +
+            `"source_id" INTEGER NOT NULL REFERENCES ${quote(table.target)}("id") ON DELETE CASCADE, ` +
+            `"target_id" INTEGER NOT NULL REFERENCES ${quote(link.refTable!)}("id") ON DELETE CASCADE, ` +
+            `"position" INTEGER NOT NULL, ` +
+            `PRIMARY KEY ("source_id", "target_id"))`
+          );
+        }
+      });
+    });
+
+    await this.transaction(async client => {
+      for (const statement of statements) {
+        await client.query(statement);
+      }
+    });
+  }
+
+  async upsertRecords(table: MigrationTable, records: SourceRecord[]): Promise<void> {
+    await this.transaction(client => this.upsert(client, table, records));
+  }
+
+  async resolveLinks(
+    table: MigrationTable,
+    link: MigrationLink,
+    recordIds?: string[]
+  ): Promise<{ linked: number; unresolved: number }> {
+    const source = quote(table.target);
+    const links = `s.${quote(SOURCE_LINKS_COLUMN)} -> $1::text`;
+    const refTable = quote(link.refTable!);
+    // Records with the given source IDs, all without
+    const selected = (param: number): string =>
+      `($${param}::text[] IS NULL OR s.${quote(SOURCE_ID_COLUMN)} = ANY($${param}))`;
+    const params = [link.field, recordIds ?? null];
+
+    return this.transaction(async client => {
+      const total = await client.query(
+        `SELECT COALESCE(SUM(jsonb_array_length(${links})), 0)::int AS "total" FROM ${source} AS s ` +
+        `WHERE jsonb_typeof(${links}) = 'array' AND ${selected(2)}`,
+        params
+      );
+
+      let linked: number;
+      if (link.strategy === 'foreign_key') {
+        await client.query(
+          `UPDATE ${source} AS s SET ${quote(link.field)} = ` +
+          `(SELECT r."id" FROM ${refTable} AS r WHERE r.${quote(SOURCE_ID_COLUMN)} = ${links} ->> 0) ` +
+          `WHERE ${selected(2)}`,
+          params
+        );
+        const count = await client.query(
+          `SELECT COUNT(*)::int AS "count" FROM ${source} AS s ` +
+          `WHERE s.${quote(link.field)} IS NOT NULL AND ${selected(1)}`,
+          [recordIds ?? null]
+        );
+        linked = count.rows[0].count;
+      } else {
+        // Rebuilt on every run, so that a resumed migration ends with the current links
+        await client.query(
+          `DELETE FROM ${quote(link.joinTable!)} AS j USING ${source} AS s ` +
+          `WHERE s."id" = j."source_id" AND ${selected(1)}`,
+          [recordIds ?? null]
+        );
+        const result = await client.query(
+          `INSERT INTO ${quote(link.joinTable!)} ("source_id", "target_id", "position") ` +
+          `SELECT s."id", r."id", MIN(l.position) FROM ${source} AS s ` +
+          `CROSS JOIN LATERAL jsonb_array_elements_text(${links}) WITH ORDINALITY AS l(airtable_id, position) ` +
+          `JOIN ${refTable} AS r ON r.${quote(SOURCE_ID_COLUMN)} = l.airtable_id ` +
+          `WHERE ${selected(2)} GROUP BY s."id", r."id"`,
+          params
+        );
+        linked = result.rowCount || 0;
+      }
+
+      return { linked, unresolved: total.rows[0].total - linked };
+    });
+  }
+
+  async readRecords(table: MigrationTable, after: string | undefined, limit: number): Promise<SourceRecord[]> {
+    const sourceId = `s.${quote(SOURCE_ID_COLUMN)} COLLATE "C"`;
+    const rows = await this.selectRecords(
+      table,
+      `WHERE ($1::text IS NULL OR ${sourceId} > $1) ORDER BY ${sourceId} LIMIT $2`,
+      [after ?? null, limit]
+    );
+    return rows.map(row => row.record);
+  }
+
+  async countRecords(table: MigrationTable): Promise<number> {
+    const client = await this.getClient();
+    const result = await client.query(`SELECT COUNT(*)::int AS "count" FROM ${quote(table.target)}`);
+    return result.rows[0].count;
+  }
+
+  async prepareSync(tables: MigrationTable[]): Promise<void> {
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS ${quote(SYNC_STATE_TABLE)} (` +
+      `"table_name" TEXT PRIMARY KEY, "synced_until" TIMESTAMPTZ NOT NULL)`,
+      `CREATE TABLE IF NOT EXISTS ${quote(SYNC_CONFLICTS_TABLE)} (` +
+      `"id" SERIAL PRIMARY KEY, "table_name" TEXT NOT NULL, "airtable_id" TEXT NOT NULL, ` +
+      `"airtable_fields" JSONB NOT NULL, "postgres_fields" JSONB NOT NULL, ` +
+      `"detected_at" TIMESTAMPTZ NOT NULL DEFAULT now(), ` +
+      `"resolution" TEXT CHECK ("resolution" IN ('airtable', 'postgres')), "resolved_at" TIMESTAMPTZ)`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS ${quote(`${SYNC_CONFLICTS_TABLE}_open`)} ON ${quote(SYNC_CONFLICTS_TABLE)} ` +
+      `("table_name", "airtable_id") WHERE "resolved_at" IS NULL`,
+      `CREATE OR REPLACE FUNCTION "_schema_sync_touch"() RETURNS trigger AS $$
+      BEGIN
+        IF current_setting('schema_sync.writer', true) IS DISTINCT FROM 'sync' THEN
+          NEW."_modified_at" := clock_timestamp();
+        END IF;
+        RETURN NEW;
+      END $$ LANGUAGE plpgsql`,
+      `CREATE OR REPLACE FUNCTION "_schema_sync_touch_source"() RETURNS trigger AS $$
+      BEGIN
+        IF current_setting('schema_sync.writer', true) IS DISTINCT FROM 'sync' THEN
+          IF TG_OP <> 'INSERT' THEN
+            EXECUTE format('UPDATE %I SET "_modified_at" = clock_timestamp() WHERE "id" = $1', TG_ARGV[0]) USING OLD."source_id";
+          END IF;
+          IF TG_OP <> 'DELETE' THEN
+            EXECUTE format('UPDATE %I SET "_modified_at" = clock_timestamp() WHERE "id" = $1', TG_ARGV[0]) USING NEW."source_id";
+          END IF;
+        END IF;
+        RETURN NULL;
+      END $$ LANGUAGE plpgsql`
+    ];
+
+    tables.forEach(table => {
+      const name = quote(table.target);
+      const trigger = quote(`${table.target}_schema_sync`);
+      statements.push(
+        // Records created in PostgreSQL get their source ID once created in the source
+        `ALTER TABLE ${name} ALTER COLUMN ${quote(SOURCE_ID_COLUMN)} DROP NOT NULL`,
+        `ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS "_synced_hash" TEXT`,
+        // Records stored before the first sync count as synced: the default fills them once
+        `ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS "_synced_at" TIMESTAMPTZ DEFAULT now()`,
+        `ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS "_modified_at" TIMESTAMPTZ DEFAULT now()`,
+        `ALTER TABLE ${name} ALTER COLUMN "_synced_at" DROP DEFAULT`,
+        `ALTER TABLE ${name} ALTER COLUMN "_modified_at" DROP DEFAULT`,
+        `DROP TRIGGER IF EXISTS ${trigger} ON ${name}`,
+        `CREATE TRIGGER ${trigger} BEFORE INSERT OR UPDATE ON ${name} ` +
+        `FOR EACH ROW EXECUTE PROCEDURE "_schema_sync_touch"()`
+      );
+      table.links.filter(link => link.strategy === 'join_table').forEach(link => {
+        const joinTrigger = quote(`${link.joinTable}_schema_sync`);
+        statements.push(
+          `DROP TRIGGER IF EXISTS ${joinTrigger} ON ${quote(link.joinTable!)}`,
+          `CREATE TRIGGER ${joinTrigger} AFTER INSERT OR UPDATE OR DELETE ON ${quote(link.joinTable!)} ` +
+          `FOR EACH ROW EXECUTE PROCEDURE "_schema_sync_touch_source"(${quoteLiteral(table.target)})`
+        );
+      });
+    });
+
+    await this.transaction(async client => {
+      for (const statement of statements) {
+        await client.query(statement);
+      }
+    });
+  }
+
+  async getWatermark(table: MigrationTable): Promise<string | undefined> {
+    const client = await this.getClient();
+    const result = await client.query(
+      `SELECT "synced_until" FROM ${quote(SYNC_STATE_TABLE)} WHERE "table_name" = $1`,
+      [table.target]
+    );
+    return result.rows[0]?.synced_until.toISOString();
+  }
+
+  async setWatermark(table: MigrationTable, time: string): Promise<void> {
+    const client = await this.getClient();
+    await client.query(
+      `INSERT INTO ${quote(SYNC_STATE_TABLE)} ("table_name", "synced_until") VALUES ($1, $2) ` +
+      `ON CONFLICT ("table_name") DO UPDATE SET "synced_until" = EXCLUDED."synced_until"`,
+      [table.target, time]
+    );
+  }
+
+  async getSyncStates(table: MigrationTable, recordIds: string[]): Promise<Map<string, SyncRecordState>> {
+    const rows = await this.selectRecords(table, `WHERE s.${quote(SOURCE_ID_COLUMN)} = ANY($1)`, [recordIds], true);
+    return new Map(rows.map(row => [row.record.id, this.toSyncState(row)]));
+  }
+
+  async listEditedRecords(table: MigrationTable): Promise<SyncRecordState[]> {
+    const rows = await this.selectRecords(
+      table,
+      `WHERE s."_synced_at" IS NULL OR s."_modified_at" > s."_synced_at" ORDER BY s."id"`,
+      [],
+      true
+    );
+    return rows.map(row => this.toSyncState(row));
+  }
+
+  async applySourceRecords(table: MigrationTable, records: Array<{ record: SourceRecord; hash: string }>): Promise<void> {
+    await this.transaction(client => this.upsert(
+      client,
+      table,
+      records.map(({ record }) => record),
+      records.map(({ hash }) => hash)
+    ));
+  }
+
+  async assignRecordIds(table: MigrationTable, records: Array<{ key: number; recordId: string }>): Promise<void> {
+    await this.transaction(client => client.query(
+      `UPDATE ${quote(table.target)} AS s SET ${quote(SOURCE_ID_COLUMN)} = v."record_id" ` +
+      `FROM unnest($1::int[], $2::text[]) AS v("key", "record_id") WHERE s."id" = v."key"`,
+      [records.map(record => record.key), records.map(record => record.recordId)]
+    ));
+  }
+
+  async markSynced(
+    table: MigrationTable,
+    records: Array<{ key: number; hash: string; modifiedAt: string | null }>
+  ): Promise<number> {
+    const result = await this.transaction(client => client.query(
+      `UPDATE ${quote(table.target)} AS s SET "_synced_hash" = v."hash", "_synced_at" = now(), "_modified_at" = now() ` +
+      `FROM unnest($1::int[], $2::text[], $3::timestamptz[]) AS v("key", "hash", "modified_at") ` +
+      `WHERE s."id" = v."key" AND s."_modified_at" IS NOT DISTINCT FROM v."modified_at"`,
+      [records.map(record => record.key), records.map(record => record.hash), records.map(record => record.modifiedAt)]
+    ));
+    return result.rowCount || 0;
+  }
+
+  async addConflict(
+    table: MigrationTable,
+    conflict: { recordId: string; sourceFields: Record<string, unknown>; targetFields: Record<string, unknown> }
+  ): Promise<void> {
+    const client = await this.getClient();
+    await client.query(
+      `INSERT INTO ${quote(SYNC_CONFLICTS_TABLE)} ("table_name", "airtable_id", "airtable_fields", "postgres_fields") ` +
+      `VALUES ($1, $2, $3, $4) ON CONFLICT ("table_name", "airtable_id") WHERE "resolved_at" IS NULL DO UPDATE SET ` +
+      `"airtable_fields" = EXCLUDED."airtable_fields", "postgres_fields" = EXCLUDED."postgres_fields", ` +
+      `"detected_at" = now(), "resolution" = NULL`,
+      [table.target, conflict.recordId, JSON.stringify(conflict.sourceFields), JSON.stringify(conflict.targetFields)]
+    );
+  }
+
+  async listConflicts(table: MigrationTable): Promise<SyncConflict[]> {
+    const client = await this.getClient();
+    const result = await client.query(
+      `SELECT * FROM ${quote(SYNC_CONFLICTS_TABLE)} WHERE "table_name" = $1 AND "resolved_at" IS NULL ORDER BY "id"`,
+      [table.target]
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      table: table.source,
+      recordId: row.airtable_id,
+      sourceFields: row.airtable_fields,
+      targetFields: row.postgres_fields,
+      resolution: row.resolution ? RESOLUTIONS[row.resolution] : null
+    }));
+  }
+
+  async closeConflict(table: MigrationTable, conflict: SyncConflict, syncedHash?: string): Promise<void> {
+    await this.transaction(async client => {
+      await client.query(
+        `UPDATE ${quote(SYNC_CONFLICTS_TABLE)} SET "resolved_at" = now() WHERE "id" = $1`,
+        [conflict.id]
+      );
+      if (syncedHash) {
+        await client.query(
+          `UPDATE ${quote(table.target)} SET "_synced_hash" = $1 WHERE ${quote(SOURCE_ID_COLUMN)} = $2`,
+          [syncedHash, conflict.recordId]
+        );
+      }
+    });
+  }
+
+  /**
+   * Insert or update records by source record ID; with digests, they are marked synced
+   */
+  private async upsert(client: Client, table: MigrationTable, records: SourceRecord[], hashes?: string[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const idLinks = table.links.filter(link => link.strategy === 'record_ids');
+    const resolvedLinks = table.links.filter(link => link.strategy !== 'record_ids');
+    const columns = [
+      SOURCE_ID_COLUMN,
+      ...table.fields.map(field => field.name),
+      ...idLinks.map(link => link.field),
+      SOURCE_LINKS_COLUMN,
+      ...(hashes ? ['_synced_hash', '_synced_at', '_modified_at'] : [])
+    ];
+
+    const params: unknown[] = [];
+    const rows = records.map((record, index) => {
+      const values: unknown[] = [record.id];
+      table.fields.forEach(field => {
+        const value = toTargetValue(record.fields[field.name], field.logicalType);
+        const isJson = field.logicalType.kind === 'json' || field.logicalType.kind === 'attachment';
+        values.push(isJson && value !== null ? JSON.stringify(value) : value);
+      });
+      idLinks.forEach(link => values.push(this.linkIds(record, link)));
+
+      const links: Record<string, string[]> = {};
+      resolvedLinks.forEach(link => {
+        const ids = this.linkIds(record, link);
+        if (ids) {
+          links[link.field] = ids;
+        }
+      });
+      values.push(Object.keys(links).length > 0 ? JSON.stringify(links) : null);
+
+      const placeholders = values.map(value => {
+        params.push(value);
+        return `$${params.length}`;
+      });
+      if (hashes) {
+        params.push(hashes[index]);
+        placeholders.push(`$${params.length}`, 'now()', 'now()');
+      }
+      return `(${placeholders.join(', ')})`;
+    });
+
+    const updates = columns
+      .filter(column => column !== SOURCE_ID_COLUMN)
+      .map(column => `${quote(column)} = EXCLUDED.${quote(column)}`);
+
+    await client.query(
+      `INSERT INTO ${quote(table.target)} (${columns.map(quote).join(', ')}) VALUES ${rows.join(', ')} ` +
+      `ON CONFLICT (${quote(SOURCE_ID_COLUMN)}) DO UPDATE SET ${updates.join(', ')}`,
+      params
+    );
+  }
+
+  /**
+   * Read records with their link fields as source record IDs; with sync, their sync state too
+   */
+  private async selectRecords(
+    table: MigrationTable,
+    clauses: string,
+    params: unknown[],
+    withSync = false
+  ): Promise<Array<{ row: SelectedRow; record: SourceRecord }>> {
+    const linkColumns = table.links.map((link, index) => {
+      if (link.strategy === 'foreign_key') {
+        return `(SELECT ARRAY[r.${quote(SOURCE_ID_COLUMN)}] FROM ${quote(link.refTable!)} AS r ` +
+          `WHERE r."id" = s.${quote(link.field)}) AS "link_${index}"`;
+      }
+      if (link.strategy === 'join_table') {
+        return `(SELECT array_agg(r.${quote(SOURCE_ID_COLUMN)} ORDER BY j."position") FROM ${quote(link.joinTable!)} AS j ` +
+          `JOIN ${quote(link.refTable!)} AS r ON r."id" = j."target_id" WHERE j."source_id" = s."id") AS "link_${index}"`;
+      }
+      return `s.${quote(link.field)} AS "link_${index}"`;
+    });
+    if (withSync) {
+      linkColumns.push(`(s."_synced_at" IS NULL OR s."_modified_at" > s."_synced_at") AS "edited"`);
+    }
+
+    const client = await this.getClient();
+    const result = await client.query<SelectedRow>(
+      `SELECT s.${quote(SOURCE_ID_COLUMN)} AS "id", to_jsonb(s) AS "row"${linkColumns.map(column => `, ${column}`).join('')} ` +
+      `FROM ${quote(table.target)} AS s ${clauses}`,
+      params
+    );
+
+    return result.rows.map(row => {
+      const fields: Record<string, unknown> = {};
+      table.fields.forEach(field => {
+        fields[field.name] = row.row[field.name];
+      });
+      table.links.forEach((link, index) => {
+        fields[link.field] = row[`link_${index}`] || [];
+      });
+      return { row, record: { id: row.id || '', fields } };
+    });
+  }
+
+  private toSyncState({ row, record }: { row: SelectedRow; record: SourceRecord }): SyncRecordState {
+    return {
+      key: row.row.id,
+      record,
+      syncedHash: row.row._synced_hash,
+      modifiedAt: row.row._modified_at,
+      edited: row.edited ?? false
+    };
+  }
+
+  private linkIds(record: SourceRecord, link: MigrationLink): string[] | null {
+    const value = record.fields[link.field];
+    const ids = Array.isArray(value) ? value.map(String) : [];
+    return ids.length > 0 ? ids : null;
+  }
+
+  /**
+   * Run work in a transaction marked as a sync write: the sync triggers do not stamp it
+   */
+  private async transaction<T>(work: (client: Client) => Promise<T>): Promise<T> {
+    const client = await this.getClient();
+    try {
+      await client.query('BEGIN');
+      await client.query(`SELECT set_config('schema_sync.writer', 'sync', true)`);
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+}
@@ -19,8 +19,8 @@ export interface PostgresTargetConfig {
 }
 
 export class PostgresTarget implements TargetSchemaApplier {
-  private config: PostgresTargetConfig;
-  private client: Client | null = null;
+  protected config: PostgresTargetConfig;
+  protected client: Client | null = null;
 
   constructor(config: PostgresTargetConfig) {
     this.config = config;
@@ -30,7 +30,7 @@ export class PostgresTarget implements TargetSchemaApplier {
     return 'postgres';
   }
 
-  private async getClient(): Promise<Client> {
+  protected async getClient(): Promise<Client> {
     if (!this.client) {
       this.client = new Client({ connectionString: this.config.connection });
       await this.client.connect();
@@ -212,7 +212,7 @@ export class PostgresTarget implements TargetSchemaApplier {
   /**
    * Map logical type to PostgreSQL type definition
    */
-  private mapLogicalTypeToPostgres(type: LogicalType): string {
+  protected mapLogicalTypeToPostgres(type: LogicalType): string {
     const strategy = this.config.options?.enumStrategy || 'text-check';
     const timezoneStrategy = this.config.options?.timezoneStrategy || 'preserve';
     const defaultNumberType = this.config.options?.defaultNumberType || 'DOUBLE PRECISION';
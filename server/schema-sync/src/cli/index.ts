@@ -17,8 +17,12 @@ import { loadConfig, SyncConfig } from '../config/config';
 import { AirtableSource } from '../adapters/airtable-source';
 import { AirtableTarget } from '../adapters/airtable-target';
 import { PostgresTarget } from '../adapters/postgres-target';
+import { PostgresDataTarget } from '../adapters/postgres-data-target';
 import { SourceSchemaProvider, TargetSchemaApplier } from '../core/adapters';
 import { compareSchemas } from '../core/diff';
+import { migrateData, planMigrationTables, DataMigrationResult } from '../core/migrate';
+import { FileCheckpointStore } from '../core/checkpoint';
+import { runSync, TableSyncResult } from '../core/sync';
 import { LogicalSchema } from '../core/types';
 
 const program = new Command();
@@ -191,6 +195,152 @@ program
     }
   });
 
+/**
+ * Migrate-data command: copy records from an Airtable source to a PostgreSQL target
+ */
+program
+  .command('migrate-data')
+  .description('Copy all records table by table, preserving links (resumable)')
+  .requiredOption('--config <path>', 'Path to configuration file')
+  .option('--table <names...>', 'Limit to these source tables (default: migration.tables)')
+  .option('--checkpoint <path>', 'Checkpoint file (default: migration.checkpointFile or .schema-sync/migrate-data.json)')
+  .option('--link-strategy <strategy>', 'auto (foreign keys for single links) or join-table')
+  .option('--restart', 'Ignore the checkpoint and copy every table again', false)
+  .action(async (options) => {
+    let target: PostgresDataTarget | null = null;
+    let started = false;
+    try {
+      const config = loadConfig(options.config);
+
+      if (config.source.kind !== 'airtable' || config.target.kind !== 'postgres') {
+        throw new Error('migrate-data copies from an airtable source to a postgres target');
+      }
+
+      const tableConfigs = options.table
+        ? options.table.map((name: string) =>
+            config.migration?.tables.find(table => table.source === name) || { source: name })
+        : config.migration?.tables || (config.source.table ? [{ source: config.source.table }] : []);
+      if (tableConfigs.length === 0) {
+        throw new Error('No tables to migrate: set migration.tables in the configuration or use --table');
+      }
+
+      const source = new AirtableSource({
+        apiKey: config.source.apiKey!,
+        baseId: config.source.baseId!
+      });
+      target = new PostgresDataTarget({
+        connection: config.target.connection!,
+        options: config.target.options
+      });
+      const checkpoints = new FileCheckpointStore(
+        options.checkpoint || config.migration?.checkpointFile || '.schema-sync/migrate-data.json'
+      );
+
+      console.log(chalk.blue('📖 Reading source schemas...'));
+      const schemas = [];
+      for (const table of tableConfigs) {
+        schemas.push(await source.getSchema(table.source));
+      }
+      const tables = planMigrationTables(
+        schemas,
+        tableConfigs,
+        options.linkStrategy || config.migration?.linkStrategy || 'auto'
+      );
+
+      console.log(chalk.blue(`🔄 Migrating ${tables.length} table(s), checkpoint: ${checkpoints.getPath()}`));
+      started = true;
+      const result = await migrateData(source, target, tables, checkpoints, {
+        restart: options.restart,
+        onProgress: message => console.log(`  ${message}`)
+      });
+
+      displayMigrationResult(result);
+      if (!result.verified) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ Error: ${(error as Error).message}`));
+      if (started) {
+        console.error(chalk.yellow('   Run the command again to resume from the checkpoint'));
+      }
+      process.exit(1);
+    } finally {
+      await target?.disconnect();
+    }
+  });
+
+program
+  .command('sync')
+  .description('Keep the migrated tables in sync both ways (Airtable and PostgreSQL), recording conflicts')
+  .requiredOption('--config <path>', 'Path to configuration file')
+  .option('--table <names...>', 'Limit to these source tables (default: migration.tables)')
+  .option('--interval <seconds>', 'Seconds between sync cycles (default: sync.intervalSeconds or 60)')
+  .option('--once', 'Run a single sync cycle and exit', false)
+  .action(async (options) => {
+    let target: PostgresDataTarget | null = null;
+    try {
+      const config = loadConfig(options.config);
+
+      if (config.source.kind !== 'airtable' || config.target.kind !== 'postgres') {
+        throw new Error('sync runs between an airtable source and a postgres target');
+      }
+
+      const tableConfigs = options.table
+        ? options.table.map((name: string) =>
+            config.migration?.tables.find(table => table.source === name) || { source: name })
+        : config.migration?.tables || [];
+      if (tableConfigs.length === 0) {
+        throw new Error('No tables to sync: set migration.tables in the configuration or use --table');
+      }
+
+      const intervalSeconds = Number(options.interval ?? config.sync?.intervalSeconds ?? 60);
+      if (!Number.isFinite(intervalSeconds) || intervalSeconds < 1) {
+        throw new Error(`Invalid interval: ${options.interval}`);
+      }
+
+      const source = new AirtableSource({
+        apiKey: config.source.apiKey!,
+        baseId: config.source.baseId!
+      });
+      target = new PostgresDataTarget({
+        connection: config.target.connection!,
+        options: config.target.options
+      });
+
+      console.log(chalk.blue('📖 Reading source schemas...'));
+      const schemas = [];
+      for (const table of tableConfigs) {
+        schemas.push(await source.getSchema(table.source));
+      }
+      // The link strategy must be the one the tables were migrated with
+      const tables = planMigrationTables(schemas, tableConfigs, config.migration?.linkStrategy || 'auto');
+
+      let stopping = false;
+      process.on('SIGINT', () => {
+        console.log(chalk.yellow('\n⏹  Stopping after the current cycle...'));
+        stopping = true;
+      });
+
+      console.log(chalk.blue(options.once
+        ? `🔄 Syncing ${tables.length} table(s) once`
+        : `🔄 Syncing ${tables.length} table(s) every ${intervalSeconds}s (Ctrl+C to stop)`));
+      await runSync(source, target, tables, {
+        intervalSeconds,
+        overlapSeconds: config.sync?.overlapSeconds,
+        once: options.once,
+        shouldStop: () => stopping,
+        onProgress: message => console.log(`  ${message}`),
+        onCycle: displaySyncCycle,
+        onError: error => console.error(chalk.red(`❌ Sync cycle failed: ${error.message}`))
+      });
+    } catch (error) {
+      console.error(chalk.red(`❌ Error: ${(error as Error).message}`));
+      process.exit(1);
+    } finally {
+      await target?.disconnect();
+    }
+  });
+
 /**
  * Create source provider from config
  */
@@ -286,6 +436,48 @@ function displayPlan(plan: any): void {
   }
 }
 
+/**
+ * Display link resolution and verification of a data migration
+ */
+function displayMigrationResult(result: DataMigrationResult): void {
+  if (result.links.length > 0) {
+    console.log(chalk.blue('\n🔗 Links'));
+    result.links.forEach(link => {
+      const color = link.unresolved > 0 ? chalk.yellow : chalk.green;
+      console.log(color(`  ${link.table}.${link.field} (${link.strategy}): ${link.linked} linked, ${link.unresolved} unresolved`));
+    });
+  }
+
+  console.log(chalk.blue('\n✅ Verification'));
+  result.tables.forEach(table => {
+    const status = table.ok ? chalk.green('✓') : chalk.red('✗');
+    console.log(`  ${status} ${table.table}: ${table.sourceRecords} source / ${table.targetRecords} target records`);
+    if (table.sourceChecksum !== table.targetChecksum) {
+      console.log(chalk.red(`    checksum mismatch: ${table.sourceChecksum.slice(0, 12)} / ${table.targetChecksum.slice(0, 12)}`));
+    }
+  });
+
+  if (result.verified) {
+    console.log(chalk.green('\n✓ Data migrated and verified'));
+  } else {
+    console.log(chalk.red('\n✗ Verification failed'));
+  }
+}
+
+/**
+ * Display the totals of one sync cycle
+ */
+function displaySyncCycle(results: TableSyncResult[]): void {
+  const total = (key: keyof Omit<TableSyncResult, 'table'>) =>
+    results.reduce((sum, result) => sum + result[key], 0);
+
+  const time = new Date().toISOString();
+  console.log(chalk.green(`✓ ${time} ${total('pulled')} pulled, ${total('created')} created, ${total('pushed')} pushed`));
+  if (total('conflicts') > 0) {
+    console.log(chalk.yellow(`  ⚠️  ${total('conflicts')} new conflict(s) recorded in _schema_sync_conflicts`));
+  }
+}
+
 // Run CLI
 program.parse();
 
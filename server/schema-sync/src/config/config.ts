@@ -39,10 +39,23 @@ export interface SyncOptions {
   overrides?: Record<string, any>;
 }
 
+export interface MigrationConfig {
+  tables: Array<{ source: string; target?: string }>;
+  linkStrategy?: 'auto' | 'join-table';
+  checkpointFile?: string;
+}
+
+export interface DataSyncConfig {
+  intervalSeconds: number;
+  overlapSeconds: number;
+}
+
 export interface SyncConfig {
   source: SourceConfig;
   target: TargetConfig;
   options?: SyncOptions;
+  migration?: MigrationConfig;
+  sync?: DataSyncConfig;
 }
 
 /**
@@ -164,7 +177,59 @@ function validateConfig(raw: any): SyncConfig {
   return {
     source,
     target,
-    options
+    options,
+    migration: raw.migration ? validateMigrationConfig(raw.migration) : undefined,
+    sync: raw.sync ? validateDataSyncConfig(raw.sync) : undefined
   };
 }
 
+/**
+ * Validate the migration section (tables as names or { source, target })
+ */
+function validateMigrationConfig(raw: Record<string, unknown>): MigrationConfig {
+  if (!Array.isArray(raw.tables) || raw.tables.length === 0) {
+    throw new Error('Migration requires a non-empty "tables" list');
+  }
+
+  const tables = raw.tables.map((table: unknown) => {
+    const entry = (typeof table === 'string' ? { source: table } : table) as { source?: unknown; target?: unknown } | null;
+    if (!entry?.source || typeof entry.source !== 'string') {
+      throw new Error('Every migration table requires a "source" name');
+    }
+    if (entry.target !== undefined && typeof entry.target !== 'string') {
+      throw new Error(`Migration table '${entry.source}' has a "target" that is not a name`);
+    }
+    return { source: entry.source, target: entry.target };
+  });
+
+  const linkStrategy = raw.linkStrategy || 'auto';
+  if (linkStrategy !== 'auto' && linkStrategy !== 'join-table') {
+    throw new Error(`Unknown migration linkStrategy: ${linkStrategy}`);
+  }
+  if (raw.checkpointFile !== undefined && typeof raw.checkpointFile !== 'string') {
+    throw new Error('Migration "checkpointFile" must be a path');
+  }
+
+  return {
+    tables,
+    linkStrategy,
+    checkpointFile: raw.checkpointFile
+  };
+}
+
+/**
+ * Validate the sync section (continuous sync of the migration tables)
+ */
+function validateDataSyncConfig(raw: Record<string, unknown>): DataSyncConfig {
+  const intervalSeconds = raw.intervalSeconds ?? 60;
+  const overlapSeconds = raw.overlapSeconds ?? 60;
+
+  if (typeof intervalSeconds !== 'number' || !Number.isFinite(intervalSeconds) || intervalSeconds < 1) {
+    throw new Error(`Invalid sync intervalSeconds: ${raw.intervalSeconds}`);
+  }
+  if (typeof overlapSeconds !== 'number' || !Number.isFinite(overlapSeconds) || overlapSeconds < 0) {
+    throw new Error(`Invalid sync overlapSeconds: ${raw.overlapSeconds}`);
+  }
+
+  return { intervalSeconds, overlapSeconds };
+}
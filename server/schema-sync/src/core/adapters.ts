@@ -4,7 +4,16 @@
  * Defines interfaces for source providers and target appliers
  */
 
-import { LogicalSchema, ChangePlan } from './types';
+import {
+  LogicalSchema,
+  ChangePlan,
+  RecordPage,
+  SourceRecord,
+  MigrationTable,
+  MigrationLink,
+  SyncRecordState,
+  SyncConflict
+} from './types';
 
 /**
  * SourceSchemaProvider reads schema from a data source
@@ -48,3 +57,144 @@ export interface TargetSchemaApplier {
   getKind(): string;
 }
 
+/**
+ * SourceDataReader reads the records of a data source, one page at a time
+ */
+export interface SourceDataReader {
+  /**
+   * Get one page of records, starting at the cursor of the previous page
+   * @throws CursorExpiredError when the source no longer accepts the cursor
+   */
+  listRecords(tableName: string, offset?: string): Promise<RecordPage>;
+
+  getKind(): string;
+}
+
+/**
+ * TargetDataWriter stores migrated records. Every method must be safe to run again
+ * (records are upserted by source record ID) so that a migration can resume.
+ */
+export interface TargetDataWriter {
+  /**
+   * Create the tables, columns and link storage of the migration
+   */
+  prepareTables(tables: MigrationTable[]): Promise<void>;
+
+  /**
+   * Insert or update records by source record ID, link fields as source record IDs
+   */
+  upsertRecords(table: MigrationTable, records: SourceRecord[]): Promise<void>;
+
+  /**
+   * Translate the source record IDs of a link field into target references
+   * (of the records with these source IDs only, when given)
+   */
+  resolveLinks(
+    table: MigrationTable,
+    link: MigrationLink,
+    recordIds?: string[]
+  ): Promise<{ linked: number; unresolved: number }>;
+
+  /**
+   * Read stored records ordered by source record ID, link fields as source record IDs
+   */
+  readRecords(table: MigrationTable, after: string | undefined, limit: number): Promise<SourceRecord[]>;
+
+  countRecords(table: MigrationTable): Promise<number>;
+
+  getKind(): string;
+}
+
+/**
+ * SyncSource is the side of a continuous sync that reports its changes by modification time
+ */
+export interface SyncSource extends SourceDataReader {
+  /**
+   * Get one page of the records modified after a time (of all records without one)
+   */
+  listChangedRecords(tableName: string, since: string | undefined, offset?: string): Promise<RecordPage>;
+
+  /**
+   * Get one record, null when it no longer exists
+   */
+  getRecord(tableName: string, recordId: string): Promise<SourceRecord | null>;
+
+  /**
+   * Create records and return their IDs, in order
+   */
+  createRecords(tableName: string, records: Array<Record<string, unknown>>): Promise<string[]>;
+
+  updateRecords(tableName: string, records: SourceRecord[]): Promise<void>;
+}
+
+/**
+ * SyncTarget is the side of a continuous sync that tracks its own edits per record.
+ * Writes made through it are not reported as edits.
+ */
+export interface SyncTarget extends TargetDataWriter {
+  /**
+   * Add edit tracking, the sync state and the conflict table (after prepareTables)
+   */
+  prepareSync(tables: MigrationTable[]): Promise<void>;
+
+  /**
+   * Time up to which the source changes of a table were synced
+   */
+  getWatermark(table: MigrationTable): Promise<string | undefined>;
+
+  setWatermark(table: MigrationTable, time: string): Promise<void>;
+
+  /**
+   * State of the stored records with these source record IDs, by ID
+   */
+  getSyncStates(table: MigrationTable, recordIds: string[]): Promise<Map<string, SyncRecordState>>;
+
+  /**
+   * Records edited since they were last synced, including records created in the target
+   */
+  listEditedRecords(table: MigrationTable): Promise<SyncRecordState[]>;
+
+  /**
+   * Upsert source records and mark them synced with their digests
+   */
+  applySourceRecords(table: MigrationTable, records: Array<{ record: SourceRecord; hash: string }>): Promise<void>;
+
+  /**
+   * Store the source record IDs of records created in the target
+   */
+  assignRecordIds(table: MigrationTable, records: Array<{ key: number; recordId: string }>): Promise<void>;
+
+  /**
+   * Mark records pushed to the source as synced, except the ones edited again since
+   * they were read (compared by modifiedAt). Returns the number of records marked.
+   */
+  markSynced(table: MigrationTable, records: Array<{ key: number; hash: string; modifiedAt: string | null }>): Promise<number>;
+
+  /**
+   * Record a conflict; replaces the open conflict of the same record
+   */
+  addConflict(
+    table: MigrationTable,
+    conflict: { recordId: string; sourceFields: Record<string, unknown>; targetFields: Record<string, unknown> }
+  ): Promise<void>;
+
+  /**
+   * Open conflicts of a table, decided or not
+   */
+  listConflicts(table: MigrationTable): Promise<SyncConflict[]>;
+
+  /**
+   * Close a decided conflict; the digest becomes the record's last synced digest when given
+   */
+  closeConflict(table: MigrationTable, conflict: SyncConflict, syncedHash?: string): Promise<void>;
+}
+
+/**
+ * Thrown by a SourceDataReader when a page cursor expired
+ */
+export class CursorExpiredError extends Error {
+  constructor(tableName: string) {
+    super(`Page cursor of table '${tableName}' expired`);
+    this.name = 'CursorExpiredError';
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Migration Checkpoints
+ *
+ * Progress of a data migration, saved after every page so that a failed run
+ * resumes where it stopped
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface TableCheckpoint {
+  status: 'copying' | 'copied';
+  offset?: string; // cursor of the next source page
+  records: number; // records copied so far
+  checksum: string; // combined digest of the copied records
+}
+
+export interface MigrationCheckpoint {
+  version: 1;
+  tables: Record<string, TableCheckpoint>; // by source table name
+  completedAt?: string;
+}
+
+export interface CheckpointStore {
+  load(): MigrationCheckpoint | null;
+  save(checkpoint: MigrationCheckpoint): void;
+  clear(): void;
+}
+
+/**
+ * Checkpoint kept in a JSON file
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  load(): MigrationCheckpoint | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+
+    const checkpoint = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    if (checkpoint.version !== 1) {
+      throw new Error(`Unsupported checkpoint version in ${this.filePath}`);
+    }
+    return checkpoint;
+  }
+
+  save(checkpoint: MigrationCheckpoint): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename, so that a crash never leaves a truncated checkpoint
+    const temporaryPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(temporaryPath, JSON.stringify(checkpoint, null, 2));
+    fs.renameSync(temporaryPath, this.filePath);
+  }
+
+  clear(): void {
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+    }
+  }
+}
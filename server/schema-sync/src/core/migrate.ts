@@ -0,0 +1,351 @@
+/**
+ * Data Migration Engine
+ *
+ * Copies the records of source tables into a target, table by table, then
+ * translates link fields (source record IDs) into target references and verifies
+ * row counts and checksums. Progress is checkpointed after every page.
+ */
+
+import { createHash } from 'crypto';
+import { SourceDataReader, TargetDataWriter, CursorExpiredError } from './adapters';
+import { CheckpointStore, MigrationCheckpoint, TableCheckpoint } from './checkpoint';
+import { LogicalSchema, LogicalType, MigrationTable, LinkStrategy, SourceRecord } from './types';
+
+export interface MigrationTableConfig {
+  source: string;
+  target?: string; // default: the source table name
+}
+
+export interface DataMigrationOptions {
+  restart?: boolean; // ignore the checkpoint and copy every table again
+  onProgress?: (message: string) => void;
+}
+
+export interface LinkResolution {
+  table: string;
+  field: string;
+  strategy: LinkStrategy;
+  linked: number;
+  unresolved: number;
+}
+
+export interface TableVerification {
+  table: string;
+  sourceRecords: number;
+  targetRecords: number;
+  sourceChecksum: string;
+  targetChecksum: string;
+  ok: boolean;
+}
+
+export interface DataMigrationResult {
+  links: LinkResolution[];
+  tables: TableVerification[];
+  verified: boolean;
+}
+
+const EMPTY_CHECKSUM = '0'.repeat(64);
+const VERIFY_PAGE_SIZE = 1000;
+
+/**
+ * Build the migration tables from the source schemas
+ *
+ * Computed fields are not copied. Link fields point to source tables by ID
+ * (schema metadata airtableTableId) or name; links to a table outside the
+ * migration keep their record IDs. With the 'auto' link strategy, single-record
+ * links become foreign keys and the others join tables.
+ */
+export function planMigrationTables(
+  schemas: LogicalSchema[],
+  configs: MigrationTableConfig[],
+  linkStrategy: 'auto' | 'join-table' = 'auto'
+): MigrationTable[] {
+  const targetNames = schemas.map((schema, index) => configs[index].target || schema.tableName);
+  const targets = new Map<string, string>();
+  schemas.forEach((schema, index) => {
+    targets.set(schema.tableName, targetNames[index]);
+    const airtableTableId = schema.metadata?.airtableTableId;
+    if (typeof airtableTableId === 'string') {
+      targets.set(airtableTableId, targetNames[index]);
+    }
+  });
+
+  return schemas.map((schema, index) => {
+    const target = targetNames[index];
+    const copied = schema.fields.filter(field => field.logicalType.kind !== 'computed');
+
+    return {
+      source: schema.tableName,
+      target,
+      fields: copied.filter(field => field.logicalType.kind !== 'foreign_key'),
+      links: copied
+        .filter(field => field.logicalType.kind === 'foreign_key')
+        .map(field => {
+          const refTable = field.logicalType.kind === 'foreign_key'
+            ? targets.get(field.logicalType.refTable)
+            : undefined;
+
+          if (!refTable) {
+            return { field: field.name, strategy: 'record_ids' as const };
+          }
+          if (linkStrategy === 'auto' && field.metadata?.prefersSingleRecordLink) {
+            return { field: field.name, strategy: 'foreign_key' as const, refTable };
+          }
+          return {
+            field: field.name,
+            strategy: 'join_table' as const,
+            refTable,
+            joinTable: `${target}__${field.name}`
+          };
+        })
+    };
+  });
+}
+
+/**
+ * Convert a source value to the value stored for a logical type
+ * Applied again to stored values it returns them unchanged.
+ */
+export function toTargetValue(value: unknown, type: LogicalType): unknown {
+  if (type.kind === 'boolean') {
+    return value === true;
+  }
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  switch (type.kind) {
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      return Number.isFinite(number) ? number : null;
+    }
+
+    case 'enum':
+      if (type.multi) {
+        return toValueList(value).map(String);
+      }
+      return Array.isArray(value) ? String(value[0]) : String(value);
+
+    case 'array':
+      return toValueList(value);
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Stored value in a form that compares equal between the source and the target:
+ * no empty values, UTC datetimes, numbers as numbers, object keys sorted
+ */
+function canonicalValue(value: unknown, type: LogicalType): unknown {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
+    return null;
+  }
+
+  switch (type.kind) {
+    case 'number':
+      return Number(value);
+
+    case 'date':
+      if (type.format === 'datetime') {
+        const text = String(value);
+        // Values of columns without time zone have no designator - they are UTC
+        return new Date(/(Z|[+-]\d\d:?\d\d)$/.test(text) ? text : `${text}Z`).toISOString();
+      }
+      return String(value).slice(0, 10);
+
+    case 'array':
+      return toValueList(value).map(item => canonicalValue(item, type.items));
+
+    case 'json':
+    case 'attachment':
+      return sortKeys(typeof value === 'string' ? JSON.parse(value) : value);
+
+    default:
+      return value;
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    return Object.keys(object).sort().reduce((sorted: Record<string, unknown>, key) => {
+      sorted[key] = sortKeys(object[key]);
+      return sorted;
+    }, {});
+  }
+  return value;
+}
+
+function toValueList(value: unknown): unknown[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Digest of one record: its ID, the stored form of every copied field and its links
+ */
+export function recordDigest(table: MigrationTable, record: SourceRecord): Buffer {
+  const values = [
+    record.id,
+    ...table.fields.map(field => canonicalValue(toTargetValue(record.fields[field.name], field.logicalType), field.logicalType)),
+    ...table.links.map(link => {
+      const ids = toValueList(record.fields[link.field]).map(String);
+      return ids.length > 0 ? ids : null;
+    })
+  ];
+  return createHash('sha256').update(JSON.stringify(values)).digest();
+}
+
+/**
+ * Combine record digests independently of their order (XOR)
+ */
+export function addToChecksum(checksum: string, digest: Buffer): string {
+  const combined = Buffer.from(checksum, 'hex');
+  for (let i = 0; i < combined.length; i++) {
+    combined[i] ^= digest[i];
+  }
+  return combined.toString('hex');
+}
+
+/**
+ * Run (or resume) a data migration
+ */
+export async function migrateData(
+  source: SourceDataReader,
+  target: TargetDataWriter,
+  tables: MigrationTable[],
+  checkpoints: CheckpointStore,
+  options: DataMigrationOptions = {}
+): Promise<DataMigrationResult> {
+  const log = options.onProgress || (() => undefined);
+
+  if (options.restart) {
+    checkpoints.clear();
+  }
+  const checkpoint: MigrationCheckpoint = checkpoints.load() || { version: 1, tables: {} };
+  delete checkpoint.completedAt;
+
+  await target.prepareTables(tables);
+
+  for (const table of tables) {
+    await copyTable(source, target, table, checkpoint, checkpoints, log);
+  }
+
+  // Links are resolved once every table is copied, so that all linked records exist
+  const links: LinkResolution[] = [];
+  for (const table of tables) {
+    for (const link of table.links) {
+      if (link.strategy === 'record_ids') {
+        log(`${table.source}.${link.field}: linked table not migrated, record IDs kept`);
+        continue;
+      }
+      const result = await target.resolveLinks(table, link);
+      links.push({ table: table.source, field: link.field, strategy: link.strategy, ...result });
+      log(`${table.source}.${link.field}: ${result.linked} links (${link.strategy}), ${result.unresolved} unresolved`);
+    }
+  }
+
+  const verifications: TableVerification[] = [];
+  for (const table of tables) {
+    verifications.push(await verifyTable(target, table, checkpoint.tables[table.source]));
+  }
+
+  const verified = verifications.every(verification => verification.ok);
+  if (verified) {
+    checkpoint.completedAt = new Date().toISOString();
+  }
+  checkpoints.save(checkpoint);
+
+  return { links, tables: verifications, verified };
+}
+
+async function copyTable(
+  source: SourceDataReader,
+  target: TargetDataWriter,
+  table: MigrationTable,
+  checkpoint: MigrationCheckpoint,
+  checkpoints: CheckpointStore,
+  log: (message: string) => void
+): Promise<void> {
+  const restartTable = (): TableCheckpoint => ({ status: 'copying', records: 0, checksum: EMPTY_CHECKSUM });
+
+  let state = checkpoint.tables[table.source];
+  if (state?.status === 'copied') {
+    log(`${table.source}: already copied (${state.records} records)`);
+    return;
+  }
+  if (!state) {
+    state = checkpoint.tables[table.source] = restartTable();
+  } else if (state.offset) {
+    log(`${table.source}: resuming after ${state.records} records`);
+  }
+
+  while (state.status === 'copying') {
+    let page;
+    try {
+      page = await source.listRecords(table.source, state.offset);
+    } catch (error) {
+      if (!(error instanceof CursorExpiredError) || !state.offset) {
+        throw error;
+      }
+      // Records are upserted, so copying the table again is safe
+      log(`${table.source}: page cursor expired, copying the table again`);
+      state = checkpoint.tables[table.source] = restartTable();
+      checkpoints.save(checkpoint);
+      continue;
+    }
+
+    await target.upsertRecords(table, page.records);
+
+    for (const record of page.records) {
+      state.checksum = addToChecksum(state.checksum, recordDigest(table, record));
+    }
+    state.records += page.records.length;
+    state.offset = page.offset;
+    if (!page.offset) {
+      state.status = 'copied';
+    }
+    checkpoints.save(checkpoint);
+    log(`${table.source}: ${state.records} records copied`);
+  }
+}
+
+async function verifyTable(
+  target: TargetDataWriter,
+  table: MigrationTable,
+  state: TableCheckpoint
+): Promise<TableVerification> {
+  const targetRecords = await target.countRecords(table);
+
+  let targetChecksum = EMPTY_CHECKSUM;
+  let after: string | undefined;
+  for (;;) {
+    const records = await target.readRecords(table, after, VERIFY_PAGE_SIZE);
+    for (const record of records) {
+      targetChecksum = addToChecksum(targetChecksum, recordDigest(table, record));
+    }
+    if (records.length < VERIFY_PAGE_SIZE) {
+      break;
+    }
+    after = records[records.length - 1].id;
+  }
+
+  return {
+    table: table.source,
+    sourceRecords: state.records,
+    targetRecords,
+    sourceChecksum: state.checksum,
+    targetChecksum,
+    ok: state.records === targetRecords && state.checksum === targetChecksum
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Continuous Sync Engine
+ *
+ * Keeps a source and a target in step while both are edited, e.g. Airtable and
+ * PostgreSQL during a migration period. Every cycle pulls the source records modified
+ * since the previous cycle, then pushes the records edited in the target.
+ *
+ * Changes are detected by record digest (see recordDigest): a source record with the
+ * digest of its last sync is unchanged - or the echo of a push. A record changed on both
+ * sides since its last sync becomes a conflict and is left alone until someone decides
+ * which side to keep (SyncConflict.resolution).
+ */
+
+import { SyncSource, SyncTarget } from './adapters';
+import { recordDigest } from './migrate';
+import { LogicalField, LogicalType, MigrationTable, SourceRecord, SyncConflict } from './types';
+
+export interface SyncCycleOptions {
+  overlapSeconds?: number; // source changes read again before the watermark, for clock skew
+  onProgress?: (message: string) => void;
+}
+
+export interface SyncDaemonOptions extends SyncCycleOptions {
+  intervalSeconds: number;
+  once?: boolean; // run a single cycle, errors are thrown
+  shouldStop?: () => boolean;
+  onCycle?: (results: TableSyncResult[]) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface TableSyncResult {
+  table: string;
+  pulled: number; // source records stored in the target
+  created: number; // target records created in the source
+  pushed: number; // target edits written to the source
+  conflicts: number; // new conflicts
+  resolved: number; // decided conflicts applied
+}
+
+const DEFAULT_OVERLAP_SECONDS = 60;
+
+// Airtable field types the API does not write (computed fields are not synced at all)
+const READ_ONLY_SOURCE_TYPES = new Set([
+  'aiText',
+  'autoNumber',
+  'barcode',
+  'button',
+  'count',
+  'duration',
+  'externalSyncSource',
+  'multipleCollaborators',
+  'singleCollaborator'
+]);
+
+interface CycleState {
+  result: TableSyncResult;
+  openConflicts: Set<string>; // record IDs
+  pulledIds: string[];
+}
+
+const digest = (table: MigrationTable, record: SourceRecord): string =>
+  recordDigest(table, record).toString('hex');
+
+/**
+ * Prepare the target, then run sync cycles every intervalSeconds until stopped
+ */
+export async function runSync(
+  source: SyncSource,
+  target: SyncTarget,
+  tables: MigrationTable[],
+  options: SyncDaemonOptions
+): Promise<void> {
+  const shouldStop = options.shouldStop || (() => false);
+
+  await target.prepareTables(tables);
+  await target.prepareSync(tables);
+
+  for (;;) {
+    try {
+      const results = await syncOnce(source, target, tables, options);
+      options.onCycle?.(results);
+    } catch (error) {
+      if (options.once) {
+        throw error;
+      }
+      // A failed cycle is retried by the next one: nothing is marked synced before it is written
+      options.onError?.(error as Error);
+    }
+
+    if (options.once) {
+      return;
+    }
+    for (let waited = 0; waited < options.intervalSeconds && !shouldStop(); waited++) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    if (shouldStop()) {
+      return;
+    }
+  }
+}
+
+/**
+ * Run one sync cycle: decided conflicts, source changes, then target edits
+ */
+export async function syncOnce(
+  source: SyncSource,
+  target: SyncTarget,
+  tables: MigrationTable[],
+  options: SyncCycleOptions = {}
+): Promise<TableSyncResult[]> {
+  const log = options.onProgress || (() => undefined);
+  const overlapSeconds = options.overlapSeconds ?? DEFAULT_OVERLAP_SECONDS;
+  const states = new Map<string, CycleState>();
+
+  for (const table of tables) {
+    const state: CycleState = {
+      result: { table: table.source, pulled: 0, created: 0, pushed: 0, conflicts: 0, resolved: 0 },
+      openConflicts: new Set(),
+      pulledIds: []
+    };
+    states.set(table.source, state);
+
+    for (const conflict of await target.listConflicts(table)) {
+      if (conflict.resolution) {
+        await applyResolution(source, target, table, conflict, state);
+        log(`${table.source}: conflict on ${conflict.recordId} resolved, ${conflict.resolution} kept`);
+      } else {
+        state.openConflicts.add(conflict.recordId);
+      }
+    }
+  }
+
+  for (const table of tables) {
+    await pullTable(source, target, table, states.get(table.source)!, overlapSeconds);
+  }
+
+  // Links are resolved once every table is pulled, so that the linked records exist
+  for (const table of tables) {
+    const { pulledIds } = states.get(table.source)!;
+    if (pulledIds.length === 0) {
+      continue;
+    }
+    for (const link of table.links.filter(link => link.strategy !== 'record_ids')) {
+      await target.resolveLinks(table, link, pulledIds);
+    }
+  }
+
+  // Records created in the target get their source IDs first, so that links to them can be pushed
+  for (const table of tables) {
+    await createTargetRecords(source, target, table, states.get(table.source)!);
+  }
+  for (const table of tables) {
+    await pushTargetEdits(source, target, table, states.get(table.source)!);
+  }
+
+  const results = tables.map(table => states.get(table.source)!.result);
+  results.forEach(result => {
+    if (result.pulled + result.created + result.pushed + result.conflicts + result.resolved > 0) {
+      log(`${result.table}: ${result.pulled} pulled, ${result.created} created, ${result.pushed} pushed, ` +
+        `${result.conflicts} new conflicts`);
+    }
+  });
+  return results;
+}
+
+async function applyResolution(
+  source: SyncSource,
+  target: SyncTarget,
+  table: MigrationTable,
+  conflict: SyncConflict,
+  state: CycleState
+): Promise<void> {
+  if (conflict.resolution === 'source') {
+    const record = await source.getRecord(table.source, conflict.recordId);
+    if (record) {
+      await target.applySourceRecords(table, [{ record, hash: digest(table, record) }]);
+      state.pulledIds.push(record.id);
+    }
+    await target.closeConflict(table, conflict);
+  } else {
+    // The target edit is pushed by this cycle; the source record seen in the conflict counts as synced
+    const seen = { id: conflict.recordId, fields: conflict.sourceFields };
+    await target.closeConflict(table, conflict, digest(table, seen));
+  }
+  state.result.resolved++;
+}
+
+async function pullTable(
+  source: SyncSource,
+  target: SyncTarget,
+  table: MigrationTable,
+  state: CycleState,
+  overlapSeconds: number
+): Promise<void> {
+  // Taken before reading, so that records modified while the cycle runs are read again next time
+  const startedAt = new Date().toISOString();
+  const watermark = await target.getWatermark(table);
+  const since = watermark && new Date(Date.parse(watermark) - overlapSeconds * 1000).toISOString();
+
+  let offset: string | undefined;
+  do {
+    const page = await source.listChangedRecords(table.source, since, offset);
+    const stored = await target.getSyncStates(table, page.records.map(record => record.id));
+    const changed: Array<{ record: SourceRecord; hash: string }> = [];
+
+    for (const record of page.records) {
+      if (state.openConflicts.has(record.id)) {
+        continue;
+      }
+      const hash = digest(table, record);
+      const current = stored.get(record.id);
+      if (current?.syncedHash === hash) {
+        continue;
+      }
+      if (current?.edited && digest(table, current.record) !== hash) {
+        await target.addConflict(table, {
+          recordId: record.id,
+          sourceFields: record.fields,
+          targetFields: current.record.fields
+        });
+        state.openConflicts.add(record.id);
+        state.result.conflicts++;
+        continue;
+      }
+      changed.push({ record, hash });
+    }
+
+    await target.applySourceRecords(table, changed);
+    state.pulledIds.push(...changed.map(({ record }) => record.id));
+    state.result.pulled += changed.length;
+    offset = page.offset;
+  } while (offset);
+
+  await target.setWatermark(table, startedAt);
+}
+
+async function createTargetRecords(
+  source: SyncSource,
+  target: SyncTarget,
+  table: MigrationTable,
+  state: CycleState
+): Promise<void> {
+  const created = (await target.listEditedRecords(table)).filter(edited => !edited.record.id);
+  if (created.length === 0) {
+    return;
+  }
+
+  // Links follow with the edits: the records stay edited until pushed
+  const ids = await source.createRecords(table.source, created.map(edited => toSourceFields(table, edited.record, false)));
+  await target.assignRecordIds(table, created.map((edited, index) => ({ key: edited.key, recordId: ids[index] })));
+  state.result.created += ids.length;
+}
+
+async function pushTargetEdits(
+  source: SyncSource,
+  target: SyncTarget,
+  table: MigrationTable,
+  state: CycleState
+): Promise<void> {
+  const edited = (await target.listEditedRecords(table))
+    .filter(edit => edit.record.id && !state.openConflicts.has(edit.record.id));
+  if (edited.length === 0) {
+    return;
+  }
+
+  await source.updateRecords(table.source, edited.map(edit => ({
+    id: edit.record.id,
+    fields: toSourceFields(table, edit.record, true)
+  })));
+  state.result.pushed += await target.markSynced(table, edited.map(edit => ({
+    key: edit.key,
+    hash: digest(table, edit.record),
+    modifiedAt: edit.modifiedAt
+  })));
+}
+
+/**
+ * Source fields of a target record: the writable value fields and optionally its links
+ */
+export function toSourceFields(table: MigrationTable, record: SourceRecord, withLinks: boolean): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  table.fields.filter(isWritable).forEach(field => {
+    fields[field.name] = toSourceValue(record.fields[field.name], field.logicalType);
+  });
+  if (withLinks) {
+    table.links.forEach(link => {
+      const ids = record.fields[link.field];
+      // Linked records not in the source yet have no ID
+      fields[link.field] = (Array.isArray(ids) ? ids : []).filter(Boolean);
+    });
+  }
+  return fields;
+}
+
+function isWritable(field: LogicalField): boolean {
+  const kind = field.logicalType.kind;
+  return kind !== 'attachment' && kind !== 'json' && !READ_ONLY_SOURCE_TYPES.has(field.metadata?.airtableType);
+}
+
+function toSourceValue(value: unknown, type: LogicalType): unknown {
+  if (value === undefined || value === null) {
+    return type.kind === 'boolean' ? false : null;
+  }
+  if (type.kind === 'date') {
+    const text = String(value);
+    if (type.format !== 'datetime') {
+      return text.slice(0, 10);
+    }
+    // Values of columns without time zone have no designator - they are UTC
+    return new Date(/(Z|[+-]\d\d:?\d\d)$/.test(text) ? text : `${text}Z`).toISOString();
+  }
+  return value;
+}
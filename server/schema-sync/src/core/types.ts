@@ -98,6 +98,7 @@ export interface LogicalField {
 export interface LogicalSchema {
   tableName: string;
   fields: LogicalField[];
+  metadata?: Record<string, unknown>; // escape hatch for adapter-specific notes
 }
 
 /**
@@ -124,3 +125,67 @@ export interface ChangePlan {
  */
 export type SafetyLevel = 'safe' | 'breaking' | 'warning';
 
+/**
+ * A record read from a data source: field values by field name
+ */
+export interface SourceRecord {
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * One page of records; offset is the cursor of the next page (absent on the last page)
+ */
+export interface RecordPage {
+  records: SourceRecord[];
+  offset?: string;
+}
+
+/**
+ * How a link field is stored in the target
+ * - foreign_key: one column referencing the linked table (single-record links)
+ * - join_table: a join table with one row per link, in link order
+ * - record_ids: the linked record IDs as text, when the linked table is not migrated
+ */
+export type LinkStrategy = 'foreign_key' | 'join_table' | 'record_ids';
+
+export interface MigrationLink {
+  field: string;
+  strategy: LinkStrategy;
+  refTable?: string; // target table of the linked records
+  joinTable?: string;
+}
+
+/**
+ * A table to copy: source and target names, copied value fields and link fields
+ */
+export interface MigrationTable {
+  source: string;
+  target: string;
+  fields: LogicalField[];
+  links: MigrationLink[];
+}
+
+/**
+ * A target record as seen by the sync: its stored values (links as source record IDs,
+ * no ID until it exists in the source) and the digest of the values last synced
+ */
+export interface SyncRecordState {
+  key: number; // target primary key
+  record: SourceRecord;
+  syncedHash: string | null;
+  modifiedAt: string | null;
+  edited: boolean; // changed in the target since it was last synced
+}
+
+/**
+ * A record changed on both sides since the last sync, waiting for a manual decision
+ */
+export interface SyncConflict {
+  id: number;
+  table: string; // source table name
+  recordId: string;
+  sourceFields: Record<string, unknown>;
+  targetFields: Record<string, unknown>;
+  resolution: 'source' | 'target' | null; // the side to keep, once decided
+}
@@ -0,0 +1,216 @@
+/**
+ * Unit tests for the data migration engine
+ */
+
+import { migrateData, planMigrationTables } from '../../src/core/migrate';
+import { CheckpointStore, MigrationCheckpoint } from '../../src/core/checkpoint';
+import { SourceDataReader, TargetDataWriter, CursorExpiredError } from '../../src/core/adapters';
+import { LogicalSchema, MigrationTable, MigrationLink, RecordPage, SourceRecord } from '../../src/core/types';
+
+const schemas: LogicalSchema[] = [
+  {
+    tableName: 'Units',
+    metadata: { airtableTableId: 'tblUnits' },
+    fields: [
+      { name: 'Name', logicalType: { kind: 'string' } },
+      { name: 'Factor', logicalType: { kind: 'number' } }
+    ]
+  },
+  {
+    tableName: 'Factors',
+    metadata: { airtableTableId: 'tblFactors' },
+    fields: [
+      { name: 'Name', logicalType: { kind: 'string' } },
+      { name: 'Active', logicalType: { kind: 'boolean' } },
+      {
+        name: 'Unit',
+        logicalType: { kind: 'foreign_key', refTable: 'tblUnits', cardinality: 'many' },
+        metadata: { prefersSingleRecordLink: true }
+      },
+      { name: 'Units', logicalType: { kind: 'foreign_key', refTable: 'tblUnits', cardinality: 'many' } },
+      { name: 'Owner', logicalType: { kind: 'foreign_key', refTable: 'tblUsers', cardinality: 'many' } },
+      { name: 'Label', logicalType: { kind: 'computed', readOnly: true } }
+    ]
+  }
+];
+
+const sourceRecords: Record<string, SourceRecord[]> = {
+  Units: [
+    { id: 'recKg', fields: { Name: 'kg', Factor: 1 } },
+    { id: 'recT', fields: { Name: 't', Factor: 1000 } },
+    { id: 'recL', fields: { Name: 'L' } }
+  ],
+  Factors: [
+    { id: 'recF1', fields: { Name: 'Diesel', Active: true, Unit: ['recL'], Units: ['recL', 'recKg'], Owner: ['usr1'], Label: 'x' } },
+    { id: 'recF2', fields: { Name: 'Steel', Unit: ['recT'] } }
+  ]
+};
+
+/**
+ * Source serving pages of two records; fails once at the given call
+ */
+class FakeSource implements SourceDataReader {
+  calls = 0;
+  constructor(private failAt?: { call: number; error: Error }) {}
+
+  getKind(): string {
+    return 'fake';
+  }
+
+  async listRecords(tableName: string, offset?: string): Promise<RecordPage> {
+    this.calls++;
+    if (this.failAt && this.calls === this.failAt.call) {
+      const error = this.failAt.error;
+      this.failAt = undefined;
+      throw error;
+    }
+    const start = offset ? Number(offset) : 0;
+    const records = sourceRecords[tableName].slice(start, start + 2);
+    const next = start + 2 < sourceRecords[tableName].length ? String(start + 2) : undefined;
+    return { records, offset: next };
+  }
+}
+
+/**
+ * Target keeping rows in memory; links resolve to IDs of migrated records only
+ */
+class FakeTarget implements TargetDataWriter {
+  rows = new Map<string, Map<string, SourceRecord>>();
+  upserts = 0;
+
+  getKind(): string {
+    return 'fake';
+  }
+
+  async prepareTables(tables: MigrationTable[]): Promise<void> {
+    tables.forEach(table => {
+      if (!this.rows.has(table.target)) {
+        this.rows.set(table.target, new Map());
+      }
+    });
+  }
+
+  async upsertRecords(table: MigrationTable, records: SourceRecord[]): Promise<void> {
+    this.upserts += records.length;
+    records.forEach(record => this.rows.get(table.target)!.set(record.id, {
+      id: record.id,
+      fields: Object.fromEntries([...table.fields.map(f => f.name), ...table.links.map(l => l.field)]
+        .map(name => [name, record.fields[name]]))
+    }));
+  }
+
+  async resolveLinks(table: MigrationTable, link: MigrationLink): Promise<{ linked: number; unresolved: number }> {
+    const refs = this.rows.get(link.refTable!)!;
+    let linked = 0;
+    let unresolved = 0;
+    this.rows.get(table.target)!.forEach(row => {
+      const ids = (row.fields[link.field] || []) as string[];
+      const kept = ids.filter(id => refs.has(id)).slice(0, link.strategy === 'foreign_key' ? 1 : undefined);
+      linked += kept.length;
+      unresolved += ids.length - kept.length;
+      row.fields[link.field] = kept;
+    });
+    return { linked, unresolved };
+  }
+
+  async readRecords(table: MigrationTable, after: string | undefined, limit: number): Promise<SourceRecord[]> {
+    return Array.from(this.rows.get(table.target)!.values())
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .filter(row => after === undefined || row.id > after)
+      .slice(0, limit);
+  }
+
+  async countRecords(table: MigrationTable): Promise<number> {
+    return this.rows.get(table.target)!.size;
+  }
+}
+
+class MemoryCheckpoints implements CheckpointStore {
+  checkpoint: MigrationCheckpoint | null = null;
+
+  load(): MigrationCheckpoint | null {
+    return this.checkpoint && JSON.parse(JSON.stringify(this.checkpoint));
+  }
+
+  save(checkpoint: MigrationCheckpoint): void {
+    this.checkpoint = JSON.parse(JSON.stringify(checkpoint));
+  }
+
+  clear(): void {
+    this.checkpoint = null;
+  }
+}
+
+const tables = () => planMigrationTables(schemas, [{ source: 'Units', target: 'units' }, { source: 'Factors' }]);
+
+describe('planMigrationTables', () => {
+  it('should choose a link strategy per link field', () => {
+    const [units, factors] = tables();
+    expect(units.target).toBe('units');
+    expect(factors.fields.map(field => field.name)).toEqual(['Name', 'Active']);
+    expect(factors.links).toEqual([
+      { field: 'Unit', strategy: 'foreign_key', refTable: 'units' },
+      { field: 'Units', strategy: 'join_table', refTable: 'units', joinTable: 'Factors__Units' },
+      { field: 'Owner', strategy: 'record_ids' }
+    ]);
+  });
+
+  it('should use join tables only with the join-table strategy', () => {
+    const factors = planMigrationTables(schemas, [{ source: 'Units' }, { source: 'Factors' }], 'join-table')[1];
+    expect(factors.links[0].strategy).toBe('join_table');
+  });
+});
+
+describe('migrateData', () => {
+  it('should copy every record, resolve links and verify', async () => {
+    const target = new FakeTarget();
+    const checkpoints = new MemoryCheckpoints();
+    const result = await migrateData(new FakeSource(), target, tables(), checkpoints);
+
+    expect(result.verified).toBe(true);
+    expect(result.tables.map(table => [table.table, table.sourceRecords, table.targetRecords])).toEqual([
+      ['Units', 3, 3],
+      ['Factors', 2, 2]
+    ]);
+    expect(result.links).toEqual([
+      { table: 'Factors', field: 'Unit', strategy: 'foreign_key', linked: 2, unresolved: 0 },
+      { table: 'Factors', field: 'Units', strategy: 'join_table', linked: 2, unresolved: 0 }
+    ]);
+    expect(checkpoints.checkpoint?.completedAt).toBeDefined();
+  });
+
+  it('should resume from the checkpoint after a failure', async () => {
+    const target = new FakeTarget();
+    const checkpoints = new MemoryCheckpoints();
+    const source = new FakeSource({ call: 2, error: new Error('Network error') });
+
+    await expect(migrateData(source, target, tables(), checkpoints)).rejects.toThrow('Network error');
+    expect(checkpoints.checkpoint?.tables.Units).toMatchObject({ status: 'copying', offset: '2', records: 2 });
+
+    const result = await migrateData(source, target, tables(), checkpoints);
+    expect(result.verified).toBe(true);
+    expect(target.upserts).toBe(5); // no page copied twice
+  });
+
+  it('should copy a table again when the page cursor expired', async () => {
+    const target = new FakeTarget();
+    const checkpoints = new MemoryCheckpoints();
+    const source = new FakeSource({ call: 2, error: new CursorExpiredError('Units') });
+
+    const result = await migrateData(source, target, tables(), checkpoints);
+    expect(result.verified).toBe(true);
+    expect(result.tables[0].sourceRecords).toBe(3);
+  });
+
+  it('should fail verification when a link is not preserved', async () => {
+    const target = new FakeTarget();
+    target.resolveLinks = async (table, link) => {
+      target.rows.get(table.target)!.forEach(row => { row.fields[link.field] = []; });
+      return { linked: 0, unresolved: 3 };
+    };
+
+    const result = await migrateData(new FakeSource(), target, tables(), new MemoryCheckpoints());
+    expect(result.verified).toBe(false);
+    expect(result.tables[1]).toMatchObject({ table: 'Factors', sourceRecords: 2, targetRecords: 2, ok: false });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Unit tests for the continuous sync engine
+ */
+
+import { syncOnce } from '../../src/core/sync';
+import { planMigrationTables } from '../../src/core/migrate';
+import { SyncSource, SyncTarget } from '../../src/core/adapters';
+import {
+  LogicalSchema,
+  MigrationTable,
+  MigrationLink,
+  RecordPage,
+  SourceRecord,
+  SyncConflict,
+  SyncRecordState
+} from '../../src/core/types';
+
+const schemas: LogicalSchema[] = [
+  {
+    tableName: 'Units',
+    metadata: { airtableTableId: 'tblUnits' },
+    fields: [
+      { name: 'Name', logicalType: { kind: 'string' } },
+      { name: 'Factor', logicalType: { kind: 'number' } }
+    ]
+  },
+  {
+    tableName: 'Factors',
+    metadata: { airtableTableId: 'tblFactors' },
+    fields: [
+      { name: 'Name', logicalType: { kind: 'string' } },
+      {
+        name: 'Unit',
+        logicalType: { kind: 'foreign_key', refTable: 'tblUnits', cardinality: 'many' },
+        metadata: { prefersSingleRecordLink: true }
+      },
+      { name: 'Updated', logicalType: { kind: 'date', format: 'datetime' } },
+      { name: 'Counter', logicalType: { kind: 'number' }, metadata: { airtableType: 'autoNumber' } }
+    ]
+  }
+];
+
+const tables = () => planMigrationTables(schemas, [{ source: 'Units', target: 'units' }, { source: 'Factors' }]);
+
+/**
+ * Source keeping records in memory; every record is reported as changed
+ */
+class FakeSource implements SyncSource {
+  records = new Map<string, Map<string, SourceRecord>>([
+    ['Units', new Map([
+      ['recKg', { id: 'recKg', fields: { Name: 'kg', Factor: 1 } }],
+      ['recT', { id: 'recT', fields: { Name: 't', Factor: 1000 } }]
+    ])],
+    ['Factors', new Map([
+      ['recF1', { id: 'recF1', fields: { Name: 'Steel', Unit: ['recT'], Counter: 1 } }]
+    ])]
+  ]);
+  sinces: Array<string | undefined> = [];
+  created: Array<Record<string, any>> = [];
+  updated: SourceRecord[] = [];
+
+  getKind(): string {
+    return 'fake';
+  }
+
+  async listRecords(tableName: string): Promise<RecordPage> {
+    return this.listChangedRecords(tableName, undefined);
+  }
+
+  async listChangedRecords(tableName: string, since: string | undefined): Promise<RecordPage> {
+    this.sinces.push(since);
+    return { records: Array.from(this.records.get(tableName)!.values()).map(record => clone(record)) };
+  }
+
+  async getRecord(tableName: string, recordId: string): Promise<SourceRecord | null> {
+    const record = this.records.get(tableName)!.get(recordId);
+    return record ? clone(record) : null;
+  }
+
+  async createRecords(tableName: string, records: Array<Record<string, any>>): Promise<string[]> {
+    return records.map(fields => {
+      const id = `recNew${this.created.push(fields)}`;
+      this.records.get(tableName)!.set(id, { id, fields: clone(fields) });
+      return id;
+    });
+  }
+
+  async updateRecords(tableName: string, records: SourceRecord[]): Promise<void> {
+    records.forEach(record => {
+      this.updated.push(clone(record));
+      const current = this.records.get(tableName)!.get(record.id)!;
+      current.fields = { ...current.fields, ...clone(record.fields) };
+    });
+  }
+
+  edit(tableName: string, recordId: string, fields: Record<string, any>): void {
+    const current = this.records.get(tableName)!.get(recordId)!;
+    current.fields = { ...current.fields, ...fields };
+  }
+}
+
+interface FakeRow {
+  key: number;
+  id: string;
+  fields: Record<string, any>; // links as target keys
+  syncedHash: string | null;
+  syncedAt: number | null;
+  modifiedAt: number;
+}
+
+/**
+ * Target keeping rows in memory with a logical clock; links are stored as row keys
+ */
+class FakeTarget implements SyncTarget {
+  rows = new Map<string, FakeRow[]>();
+  conflicts: Array<SyncConflict & { closed?: boolean }> = [];
+  watermarks = new Map<string, string>();
+  private clock = 0;
+  private nextKey = 1;
+
+  getKind(): string {
+    return 'fake';
+  }
+
+  async prepareTables(tables: MigrationTable[]): Promise<void> {
+    tables.forEach(table => this.rows.set(table.target, this.rows.get(table.target) || []));
+  }
+
+  async prepareSync(): Promise<void> {
+    return undefined;
+  }
+
+  async upsertRecords(table: MigrationTable, records: SourceRecord[]): Promise<void> {
+    await this.applySourceRecords(table, records.map(record => ({ record, hash: '' })));
+  }
+
+  async resolveLinks(): Promise<{ linked: number; unresolved: number }> {
+    return { linked: 0, unresolved: 0 };
+  }
+
+  async readRecords(table: MigrationTable): Promise<SourceRecord[]> {
+    return this.rows.get(table.target)!.map(row => this.toRecord(table, row));
+  }
+
+  async countRecords(table: MigrationTable): Promise<number> {
+    return this.rows.get(table.target)!.length;
+  }
+
+  async getWatermark(table: MigrationTable): Promise<string | undefined> {
+    return this.watermarks.get(table.target);
+  }
+
+  async setWatermark(table: MigrationTable, time: string): Promise<void> {
+    this.watermarks.set(table.target, time);
+  }
+
+  async getSyncStates(table: MigrationTable, recordIds: string[]): Promise<Map<string, SyncRecordState>> {
+    return new Map(this.rows.get(table.target)!
+      .filter(row => recordIds.includes(row.id))
+      .map(row => [row.id, this.toState(table, row)]));
+  }
+
+  async listEditedRecords(table: MigrationTable): Promise<SyncRecordState[]> {
+    return this.rows.get(table.target)!
+      .filter(row => row.syncedAt === null || row.modifiedAt > row.syncedAt)
+      .map(row => this.toState(table, row));
+  }
+
+  async applySourceRecords(table: MigrationTable, records: Array<{ record: SourceRecord; hash: string }>): Promise<void> {
+    const time = ++this.clock;
+    records.forEach(({ record, hash }) => {
+      let row = this.rows.get(table.target)!.find(candidate => candidate.id === record.id);
+      if (!row) {
+        row = { key: this.nextKey++, id: record.id, fields: {}, syncedHash: null, syncedAt: null, modifiedAt: 0 };
+        this.rows.get(table.target)!.push(row);
+      }
+      table.fields.forEach(field => { row!.fields[field.name] = record.fields[field.name] ?? null; });
+      table.links.forEach(link => {
+        const ids = (record.fields[link.field] || []) as string[];
+        row!.fields[link.field] = ids.map(id => this.findRow(link, id)?.key).filter(Boolean);
+      });
+      Object.assign(row, { syncedHash: hash, syncedAt: time, modifiedAt: time });
+    });
+  }
+
+  async assignRecordIds(table: MigrationTable, records: Array<{ key: number; recordId: string }>): Promise<void> {
+    records.forEach(({ key, recordId }) => {
+      this.rows.get(table.target)!.find(row => row.key === key)!.id = recordId;
+    });
+  }
+
+  async markSynced(
+    table: MigrationTable,
+    records: Array<{ key: number; hash: string; modifiedAt: string | null }>
+  ): Promise<number> {
+    const time = ++this.clock;
+    let marked = 0;
+    records.forEach(({ key, hash, modifiedAt }) => {
+      const row = this.rows.get(table.target)!.find(candidate => candidate.key === key)!;
+      if (String(row.modifiedAt) === modifiedAt) {
+        Object.assign(row, { syncedHash: hash, syncedAt: time, modifiedAt: time });
+        marked++;
+      }
+    });
+    return marked;
+  }
+
+  async addConflict(
+    table: MigrationTable,
+    conflict: { recordId: string; sourceFields: Record<string, any>; targetFields: Record<string, any> }
+  ): Promise<void> {
+    this.conflicts.push({ id: this.conflicts.length + 1, table: table.source, resolution: null, ...conflict });
+  }
+
+  async listConflicts(table: MigrationTable): Promise<SyncConflict[]> {
+    return this.conflicts.filter(conflict => conflict.table === table.source && !conflict.closed);
+  }
+
+  async closeConflict(table: MigrationTable, conflict: SyncConflict, syncedHash?: string): Promise<void> {
+    this.conflicts.find(candidate => candidate.id === conflict.id)!.closed = true;
+    if (syncedHash) {
+      this.rows.get(table.target)!.find(row => row.id === conflict.recordId)!.syncedHash = syncedHash;
+    }
+  }
+
+  /**
+   * Write made by a user of the target
+   */
+  edit(tableName: string, match: (row: FakeRow) => boolean, fields: Record<string, any>): void {
+    const row = this.rows.get(tableName)!.find(match)!;
+    Object.assign(row.fields, fields);
+    row.modifiedAt = ++this.clock;
+  }
+
+  insert(tableName: string, fields: Record<string, any>): FakeRow {
+    const row = { key: this.nextKey++, id: '', fields, syncedHash: null, syncedAt: null, modifiedAt: ++this.clock };
+    this.rows.get(tableName)!.push(row);
+    return row;
+  }
+
+  private findRow(link: MigrationLink, id: string): FakeRow | undefined {
+    return this.rows.get(link.refTable!)?.find(row => row.id === id);
+  }
+
+  private toRecord(table: MigrationTable, row: FakeRow): SourceRecord {
+    const fields: Record<string, any> = {};
+    table.fields.forEach(field => { fields[field.name] = row.fields[field.name] ?? null; });
+    table.links.forEach(link => {
+      fields[link.field] = (row.fields[link.field] || [])
+        .map((key: number) => this.rows.get(link.refTable!)!.find(ref => ref.key === key)!.id);
+    });
+    return { id: row.id, fields };
+  }
+
+  private toState(table: MigrationTable, row: FakeRow): SyncRecordState {
+    return {
+      key: row.key,
+      record: this.toRecord(table, row),
+      syncedHash: row.syncedHash,
+      modifiedAt: String(row.modifiedAt),
+      edited: row.syncedAt === null || row.modifiedAt > row.syncedAt
+    };
+  }
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+async function setup() {
+  const source = new FakeSource();
+  const target = new FakeTarget();
+  await target.prepareTables(tables());
+  await syncOnce(source, target, tables());
+  return { source, target };
+}
+
+describe('syncOnce', () => {
+  it('should pull every source record, then only changes', async () => {
+    const { source, target } = await setup();
+    expect(source.sinces.slice(0, 2)).toEqual([undefined, undefined]);
+    expect((await target.readRecords(tables()[1]))[0].fields).toMatchObject({ Name: 'Steel', Unit: ['recT'] });
+
+    const watermark = target.watermarks.get('units')!;
+    source.edit('Units', 'recKg', { Name: 'kilogram' });
+    const results = await syncOnce(source, target, tables(), { overlapSeconds: 30 });
+
+    expect(results.map(result => [result.table, result.pulled, result.pushed])).toEqual([['Units', 1, 0], ['Factors', 0, 0]]);
+    expect(source.sinces[2]).toBe(new Date(Date.parse(watermark) - 30000).toISOString());
+  });
+
+  it('should push target edits without pulling them back', async () => {
+    const { source, target } = await setup();
+    target.edit('Factors', row => row.id === 'recF1', { Name: 'Steel (EU)', Updated: '2024-03-01T10:00:00', Unit: [1] });
+
+    const first = await syncOnce(source, target, tables());
+    expect(first[1]).toMatchObject({ pulled: 0, pushed: 1, conflicts: 0 });
+    // Read-only fields are not written, datetimes are sent in UTC
+    expect(source.updated).toEqual([{
+      id: 'recF1',
+      fields: { Name: 'Steel (EU)', Updated: '2024-03-01T10:00:00.000Z', Unit: ['recKg'] }
+    }]);
+
+    const second = await syncOnce(source, target, tables());
+    expect(second[1]).toMatchObject({ pulled: 0, pushed: 0 });
+  });
+
+  it('should create records added in the target, with their links', async () => {
+    const { source, target } = await setup();
+    const unit = target.insert('units', { Name: 'L', Factor: null });
+    target.edit('Factors', row => row.id === 'recF1', { Unit: [unit.key] });
+
+    const results = await syncOnce(source, target, tables());
+    expect(results[0]).toMatchObject({ created: 1, pushed: 1 });
+    expect(source.created).toEqual([{ Name: 'L', Factor: null }]);
+    expect(source.records.get('Factors')!.get('recF1')!.fields.Unit).toEqual(['recNew1']);
+    expect(target.rows.get('units')!.find(row => row.key === unit.key)!.id).toBe('recNew1');
+  });
+
+  it('should record a conflict when both sides changed and leave both alone', async () => {
+    const { source, target } = await setup();
+    source.edit('Units', 'recT', { Factor: 1001 });
+    target.edit('units', row => row.id === 'recT', { Factor: 999 });
+
+    const results = await syncOnce(source, target, tables());
+    expect(results[0]).toMatchObject({ pulled: 0, pushed: 0, conflicts: 1 });
+    expect(target.conflicts).toMatchObject([{
+      recordId: 'recT',
+      sourceFields: { Factor: 1001 },
+      targetFields: { Factor: 999 },
+      resolution: null
+    }]);
+
+    // Undecided conflicts are not recorded again
+    const again = await syncOnce(source, target, tables());
+    expect(again[0]).toMatchObject({ pulled: 0, pushed: 0, conflicts: 0 });
+    expect(source.records.get('Units')!.get('recT')!.fields.Factor).toBe(1001);
+  });
+
+  it('should not report a conflict when both sides made the same edit', async () => {
+    const { source, target } = await setup();
+    source.edit('Units', 'recT', { Factor: 999 });
+    target.edit('units', row => row.id === 'recT', { Factor: 999 });
+
+    const results = await syncOnce(source, target, tables());
+    expect(results[0]).toMatchObject({ pulled: 1, pushed: 0, conflicts: 0 });
+  });
+
+  it('should apply the side chosen to resolve a conflict', async () => {
+    const { source, target } = await setup();
+    source.edit('Units', 'recT', { Factor: 1001 });
+    target.edit('units', row => row.id === 'recT', { Factor: 999 });
+    source.edit('Units', 'recKg', { Factor: 2 });
+    target.edit('units', row => row.id === 'recKg', { Factor: 3 });
+    await syncOnce(source, target, tables());
+
+    target.conflicts.find(conflict => conflict.recordId === 'recT')!.resolution = 'source';
+    target.conflicts.find(conflict => conflict.recordId === 'recKg')!.resolution = 'target';
+    const results = await syncOnce(source, target, tables());
+
+    expect(results[0]).toMatchObject({ resolved: 2, pushed: 1, conflicts: 0 });
+    const units = await target.readRecords(tables()[0]);
+    expect(units.find(unit => unit.id === 'recT')!.fields.Factor).toBe(1001);
+    expect(source.records.get('Units')!.get('recKg')!.fields.Factor).toBe(3);
+    expect(target.conflicts.every(conflict => conflict.closed)).toBe(true);
+  });
+});
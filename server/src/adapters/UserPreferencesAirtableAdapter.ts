@@ -6,6 +6,7 @@
  */
 
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
 import { UserPreferences } from '../types/UserPreferences'
 import { getDefaultPreferences } from '../types/UserPreferences'
 
@@ -24,8 +25,7 @@ export class UserPreferencesAirtableAdapter {
       throw new Error('AIRTABLE_SYSTEM_CONFIG_BASE_ID is required')
     }
 
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
   }
 
   /**
@@ -5,6 +5,8 @@
  */
 
 import Airtable from 'airtable'
+import { getAirtableBase } from '../../database/airtable/AirtableClient'
+import { formulaEquals } from '../../database/filters/AirtableFormula'
 import {
   IPreferencesAdapter,
   PreferenceRecord,
@@ -30,8 +32,7 @@ export class AirtablePreferencesAdapter implements IPreferencesAdapter {
       throw new Error('AIRTABLE_SYSTEM_CONFIG_BASE_ID is required')
     }
 
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
   }
 
   getName(): string {
@@ -102,6 +103,7 @@ export class AirtablePreferencesAdapter implements IPreferencesAdapter {
       type: type as any,
       value,
       visibility: (fields['Visibility'] as any) || 'private',
+      organizationId: fields['Organization Id'] || undefined,
       expiresAt: fields['Expires At'] ? new Date(fields['Expires At']) : undefined,
       createdAt: fields['Created At'] ? new Date(fields['Created At']) : undefined,
       updatedAt: fields['Last Modified'] ? new Date(fields['Last Modified']) : undefined,
@@ -127,6 +129,9 @@ export class AirtablePreferencesAdapter implements IPreferencesAdapter {
     if (record.scopeId) {
       fields['Scope Id'] = record.scopeId
     }
+    if (record.organizationId) {
+      fields['Organization Id'] = record.organizationId
+    }
 
     // Set value based on type
     switch (record.type) {
@@ -171,7 +176,7 @@ export class AirtablePreferencesAdapter implements IPreferencesAdapter {
       try {
         records = await this.base(this.tableName)
           .select({
-            filterByFormula: `{Unique Key} = '${uniqueKey.replace(/'/g, "''")}'`,
+            filterByFormula: formulaEquals('Unique Key', uniqueKey),
             maxRecords: 1,
           })
           .firstPage()
@@ -182,17 +187,17 @@ export class AirtablePreferencesAdapter implements IPreferencesAdapter {
         // Try to get all records and filter in memory as fallback
         try {
           const conditions = [
-            `{User Id} = '${key.userId.replace(/'/g, "''")}'`,
-            `{Namespace} = '${key.namespace.replace(/'/g, "''")}'`,
-            `{Key} = '${key.key.replace(/'/g, "''")}'`,
+            formulaEquals('User Id', key.userId),
+            formulaEquals('Namespace', key.namespace),
+            formulaEquals('Key', key.key),
           ]
           if (key.tableId) {
-            conditions.push(`{Table Id} = '${key.tableId.replace(/'/g, "''")}'`)
+            conditions.push(formulaEquals('Table Id', key.tableId))
           } else {
             conditions.push(`OR({Table Id} = '', {Table Id} = BLANK())`)
           }
           if (key.scopeId) {
-            conditions.push(`{Scope Id} = '${key.scopeId.replace(/'/g, "''")}'`)
+            conditions.push(formulaEquals('Scope Id', key.scopeId))
           } else {
             conditions.push(`OR({Scope Id} = '', {Scope Id} = BLANK())`)
           }
@@ -245,66 +250,91 @@ export class AirtablePreferencesAdapter implements IPreferencesAdapter {
 
   async getAll(userId: string, filter?: PreferenceFilter): Promise<PreferenceQueryResult> {
     try {
-      const formulas: string[] = [`{User Id} = '${userId.replace(/'/g, "''")}'`]
+      return await this.query([formulaEquals('User Id', userId), ...this.filterFormulas(filter)], filter)
+    } catch (error) {
+      console.error('Error getting preferences from Airtable:', error)
+      throw error
+    }
+  }
 
-      if (filter) {
-        if (filter.namespace) {
-          const namespaces = Array.isArray(filter.namespace) ? filter.namespace : [filter.namespace]
-          const namespaceFormulas = namespaces.map(ns => `{Namespace} = '${ns}'`)
-          formulas.push(`OR(${namespaceFormulas.join(', ')})`)
-        }
+  async getShared(organizationId: string | null, filter?: PreferenceFilter): Promise<PreferenceQueryResult> {
+    try {
+      const shared = organizationId
+        ? `OR(${formulaEquals('Visibility', 'global')}, AND(${formulaEquals('Visibility', 'org')}, ${formulaEquals('Organization Id', organizationId)}))`
+        : formulaEquals('Visibility', 'global')
+      return await this.query([shared, ...this.filterFormulas(filter)], filter)
+    } catch (error) {
+      console.error('Error getting shared preferences from Airtable:', error)
+      throw error
+    }
+  }
 
-        if (filter.tableId) {
-          formulas.push(`{Table Id} = '${filter.tableId.replace(/'/g, "''")}'`)
-        }
+  /**
+   * Formulas of the filter's conditions
+   */
+  private filterFormulas(filter?: PreferenceFilter): string[] {
+    const formulas: string[] = []
+    if (!filter) return formulas
+
+    if (filter.namespace) {
+      const namespaces = Array.isArray(filter.namespace) ? filter.namespace : [filter.namespace]
+      const namespaceFormulas = namespaces.map(ns => formulaEquals('Namespace', ns))
+      formulas.push(`OR(${namespaceFormulas.join(', ')})`)
+    }
 
-        if (filter.scopeId) {
-          formulas.push(`{Scope Id} = '${filter.scopeId.replace(/'/g, "''")}'`)
-        }
+    if (filter.tableId) {
+      formulas.push(formulaEquals('Table Id', filter.tableId))
+    }
 
-        if (filter.key) {
-          const keys = Array.isArray(filter.key) ? filter.key : [filter.key]
-          const keyFormulas = keys.map(k => `{Key} = '${k.replace(/'/g, "''")}'`)
-          formulas.push(`OR(${keyFormulas.join(', ')})`)
-        }
+    if (filter.scopeId) {
+      formulas.push(formulaEquals('Scope Id', filter.scopeId))
+    }
 
-        if (filter.visibility) {
-          const visibilities = Array.isArray(filter.visibility) ? filter.visibility : [filter.visibility]
-          const visibilityFormulas = visibilities.map(v => `{Visibility} = '${v}'`)
-          formulas.push(`OR(${visibilityFormulas.join(', ')})`)
-        }
-      }
+    if (filter.key) {
+      const keys = Array.isArray(filter.key) ? filter.key : [filter.key]
+      const keyFormulas = keys.map(k => formulaEquals('Key', k))
+      formulas.push(`OR(${keyFormulas.join(', ')})`)
+    }
 
-      const filterFormula = formulas.length > 1 ? `AND(${formulas.join(', ')})` : formulas[0]
-
-      const allRecords: Airtable.Record<any>[] = []
-      await this.base(this.tableName)
-        .select({
-          filterByFormula: filterFormula,
-        })
-        .eachPage((records, fetchNextPage) => {
-          allRecords.push(...records)
-          fetchNextPage()
-        })
-
-      // Filter expired if not explicitly requested
-      const now = new Date()
-      const preferences = allRecords
-        .map(record => this.mapAirtableToPreference(record))
-        .filter(pref => {
-          if (pref.expiresAt && new Date(pref.expiresAt) < now) {
-            return filter?.expired === true
-          }
-          return true
-        })
+    if (filter.visibility) {
+      const visibilities = Array.isArray(filter.visibility) ? filter.visibility : [filter.visibility]
+      const visibilityFormulas = visibilities.map(v => formulaEquals('Visibility', v))
+      formulas.push(`OR(${visibilityFormulas.join(', ')})`)
+    }
 
-      return {
-        records: preferences,
-        total: preferences.length,
-      }
-    } catch (error) {
-      console.error('Error getting preferences from Airtable:', error)
-      throw error
+    return formulas
+  }
+
+  /**
+   * Preferences matching every formula - expired ones only when the filter asks for them
+   */
+  private async query(formulas: string[], filter?: PreferenceFilter): Promise<PreferenceQueryResult> {
+    const filterFormula = formulas.length > 1 ? `AND(${formulas.join(', ')})` : formulas[0]
+
+    const allRecords: Airtable.Record<any>[] = []
+    await this.base(this.tableName)
+      .select({
+        filterByFormula: filterFormula,
+      })
+      .eachPage((records, fetchNextPage) => {
+        allRecords.push(...records)
+        fetchNextPage()
+      })
+
+    // Filter expired if not explicitly requested
+    const now = new Date()
+    const preferences = allRecords
+      .map(record => this.mapAirtableToPreference(record))
+      .filter(pref => {
+        if (pref.expiresAt && new Date(pref.expiresAt) < now) {
+          return filter?.expired === true
+        }
+        return true
+      })
+
+    return {
+      records: preferences,
+      total: preferences.length,
     }
   }
 
@@ -105,6 +105,30 @@ export class MemoryPreferencesAdapter implements IPreferencesAdapter {
     }
   }
 
+  async getShared(organizationId: string | null, filter?: PreferenceFilter): Promise<PreferenceQueryResult> {
+    const now = new Date()
+    const records: PreferenceRecord[] = []
+
+    for (const record of this.storage.values()) {
+      const shared = record.visibility === 'global' ||
+        (record.visibility === 'org' && !!organizationId && record.organizationId === organizationId)
+      if (!shared) continue
+
+      if (record.expiresAt && new Date(record.expiresAt) < now) {
+        if (filter?.expired !== true) continue
+      }
+
+      if (this.matchesFilter(record, filter)) {
+        records.push({ ...record })
+      }
+    }
+
+    return {
+      records,
+      total: records.length,
+    }
+  }
+
   async set(record: PreferenceRecord, options?: SetPreferenceOptions): Promise<PreferenceRecord> {
     // Calculate expiry if TTL is provided
     let expiresAt = record.expiresAt
@@ -32,6 +32,10 @@ export class PostgresPreferencesAdapter implements IPreferencesAdapter {
     throw new Error('PostgreSQL adapter is not yet implemented. Use Airtable or Memory adapter.')
   }
 
+  async getShared(organizationId: string | null, filter?: PreferenceFilter): Promise<PreferenceQueryResult> {
+    throw new Error('PostgreSQL adapter is not yet implemented. Use Airtable or Memory adapter.')
+  }
+
   async set(record: PreferenceRecord, options?: SetPreferenceOptions): Promise<PreferenceRecord> {
     throw new Error('PostgreSQL adapter is not yet implemented. Use Airtable or Memory adapter.')
   }
@@ -61,6 +65,7 @@ export class PostgresPreferencesAdapter implements IPreferencesAdapter {
  *      value_number NUMERIC,
  *      value_boolean BOOLEAN,
  *      visibility VARCHAR(20) DEFAULT 'private',
+ *      organization_id VARCHAR(255),
  *      expires_at TIMESTAMP WITH TIME ZONE,
  *      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
  *      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -0,0 +1,127 @@
+import { AuthService, AuthenticationError } from './AuthService'
+import { IUserDirectory, UserAccount } from './IUserDirectory'
+import { MockIdentityProvider } from './MockIdentityProvider'
+import { SessionTokens } from './SessionTokens'
+import { hashPassword } from './passwords'
+import { AuthUser } from '../types/Auth'
+
+const SECRET = 'a-test-secret-of-at-least-32-characters'
+
+const ANN: AuthUser = { id: 'ann', name: 'Ann', email: null, username: 'ann', roles: [], organizations: [], provider: 'local' }
+
+/**
+ * User directory of fixed accounts
+ */
+class MemoryUserDirectory implements IUserDirectory {
+  readonly name = 'memory'
+
+  constructor(private readonly accounts: UserAccount[]) {}
+
+  async findByLogin(login: string): Promise<UserAccount | null> {
+    const lower = login.toLowerCase()
+    return this.accounts.find(account =>
+      account.user.email?.toLowerCase() === lower || account.user.username?.toLowerCase() === lower
+    ) || null
+  }
+
+  async findById(id: string): Promise<UserAccount | null> {
+    return this.accounts.find(account => account.user.id === id) || null
+  }
+
+  async setPasswordHash(id: string, passwordHash: string): Promise<void> {
+    const account = this.accounts.find(candidate => candidate.user.id === id)
+    if (account) account.passwordHash = passwordHash
+  }
+}
+
+const account = (id: string, email: string, active: boolean = true): UserAccount => ({
+  user: { id, name: email, email, username: id, roles: ['recRole'], organizations: ['recOrg'] },
+  active,
+  passwordHash: null,
+})
+
+describe('AuthService', () => {
+  let directory: MemoryUserDirectory
+  let idp: MockIdentityProvider
+  let service: AuthService
+
+  beforeEach(async () => {
+    directory = new MemoryUserDirectory([account('ann', 'ann@example.com'), account('bob', 'bob@example.com', false)])
+    idp = new MockIdentityProvider('http://api.test/api/auth/mock-idp/authorize')
+    service = new AuthService(directory, new SessionTokens(SECRET), [idp], 'http://api.test/api')
+    await service.setPassword('ann', 'correct horse')
+  })
+
+  /**
+   * Sign in through the mock identity provider as the browser would: follow the
+   * authorization URL, then come back to the callback with the code
+   */
+  const signInWithIdp = async (email: string) => {
+    const url = new URL(await service.startProviderLogin('mock', '/reports', email))
+    const code = idp.authorize(url.searchParams.get('login_hint')!, url.searchParams.get('redirect_uri')!, url.searchParams.get('nonce')!)
+    return service.completeProviderLogin(url.searchParams.get('state')!, code)
+  }
+
+  it('signs in with the user name or email and the password', async () => {
+    const session = await service.login('ANN@example.com', 'correct horse')
+    expect(service.authenticate(session.token)).toEqual(expect.objectContaining({
+      id: 'ann', roles: ['recRole'], organizations: ['recOrg'], provider: 'local',
+    }))
+    await expect(service.login('ann', 'wrong horse')).rejects.toThrow('Invalid username or password')
+    await expect(service.login('nobody', 'correct horse')).rejects.toThrow(AuthenticationError)
+  })
+
+  it('refuses short passwords and inactive accounts', async () => {
+    await expect(service.setPassword('ann', 'short')).rejects.toThrow('at least 8 characters')
+    await service.setPassword('bob', 'correct horse')
+    await expect(service.login('bob', 'correct horse')).rejects.toThrow('This account is not active')
+  })
+
+  it('signs in through the identity provider and returns to the frontend path', async () => {
+    const { session, returnTo } = await signInWithIdp('Ann@Example.com')
+    expect(returnTo).toBe('/reports')
+    expect(service.authenticate(session.token)).toEqual(expect.objectContaining({ id: 'ann', provider: 'mock' }))
+    await expect(signInWithIdp('eve@example.com')).rejects.toThrow('No user with the email eve@example.com')
+  })
+
+  it('uses each sign-in request and code once', async () => {
+    const url = new URL(await service.startProviderLogin('mock', 'https://evil.example.com', 'ann@example.com'))
+    const state = url.searchParams.get('state')!
+    const code = idp.authorize('ann@example.com', url.searchParams.get('redirect_uri')!, 'another nonce')
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    try {
+      await expect(service.completeProviderLogin(state, code)).rejects.toThrow('Sign-in with Mock IdP failed')
+    } finally {
+      consoleError.mockRestore()
+    }
+    await expect(service.completeProviderLogin(state, code)).rejects.toThrow('Sign-in request has expired')
+  })
+
+  it('refuses the token of a session that was logged out', async () => {
+    const session = await service.login('ann', 'correct horse')
+    service.logout(session.token)
+    expect(() => service.authenticate(session.token)).toThrow('Token has been revoked')
+  })
+})
+
+describe('SessionTokens', () => {
+  it('refuses tokens with another signature or past their expiry', () => {
+    const tokens = new SessionTokens(SECRET, 60)
+    const { token } = tokens.issue(ANN)
+    expect(tokens.verify(token).sub).toBe('ann')
+    expect(() => new SessionTokens(`${SECRET}!`).verify(token)).toThrow('Invalid token signature')
+
+    const [header, , signature] = token.split('.')
+    const forged = Buffer.from(JSON.stringify({ sub: 'admin', exp: 9999999999 })).toString('base64url')
+    expect(() => tokens.verify(`${header}.${forged}.${signature}`)).toThrow('Invalid token signature')
+
+    const expired = new SessionTokens(SECRET, -1).issue(ANN)
+    expect(() => tokens.verify(expired.token)).toThrow('Token has expired')
+  })
+
+  it('stores passwords as salted scrypt hashes', async () => {
+    const [first, second] = await Promise.all([hashPassword('correct horse'), hashPassword('correct horse')])
+    expect(first).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/)
+    expect(first).not.toBe(second)
+  })
+})
@@ -0,0 +1,252 @@
+import { randomBytes } from 'crypto'
+import { AuthProviderInfo, AuthSession, AuthUser } from '../types/Auth'
+import { IIdentityProvider } from './IIdentityProvider'
+import { IUserDirectory, UserAccount } from './IUserDirectory'
+import { UserTableDirectory } from './UserTableDirectory'
+import { OidcIdentityProvider } from './OidcIdentityProvider'
+import { MockIdentityProvider } from './MockIdentityProvider'
+import { SessionTokens, getSessionTokens } from './SessionTokens'
+import { hashPassword, verifyPassword } from './passwords'
+
+/**
+ * Authentication Service
+ *
+ * Signs users in - with the username (or email) and password of their User Table record,
+ * or through the configured identity provider - and issues the session tokens the
+ * authenticate middleware reads. A token carries the user's name, roles and organizations
+ * as they were when they signed in.
+ *
+ * Environment Variables:
+ * - AUTH_OIDC_PROVIDER: 'oidc' (see OidcIdentityProvider) | 'mock' (see
+ *   MockIdentityProvider) - unset for password sign-in only
+ * - AUTH_PUBLIC_API_URL: public URL of this API, for the identity provider's redirects
+ *   (default: http://localhost:<PORT>/api)
+ * - AUTH_FRONTEND_URL: where users return after signing in with the identity provider
+ *   (default: http://localhost:3000)
+ * - AUTH_JWT_SECRET, AUTH_TOKEN_TTL: see SessionTokens
+ * - AUTH_PASSWORD_FIELD: see UserTableDirectory
+ */
+
+export const LOCAL_PROVIDER = 'local'
+export const MIN_PASSWORD_LENGTH = 8
+
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000
+
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuthenticationError'
+  }
+}
+
+interface PendingLogin {
+  provider: IIdentityProvider
+  nonce: string
+  returnTo: string
+  expiresAt: number
+}
+
+const randomToken = (): string => randomBytes(24).toString('base64url')
+
+export class AuthService {
+  private pendingLogins = new Map<string, PendingLogin>() // state -> login
+
+  constructor(
+    private readonly directory: IUserDirectory,
+    private readonly tokens: SessionTokens,
+    private readonly providers: IIdentityProvider[] = [],
+    private readonly apiUrl: string = 'http://localhost:3001/api'
+  ) {}
+
+  /**
+   * Ways to sign in
+   */
+  getProviders(): AuthProviderInfo[] {
+    return [
+      { name: LOCAL_PROVIDER, displayName: 'Username and password', type: 'password' },
+      ...this.providers.map(provider => ({ name: provider.name, displayName: provider.displayName, type: 'oidc' as const })),
+    ]
+  }
+
+  getProvider(name: string): IIdentityProvider | undefined {
+    return this.providers.find(provider => provider.name === name)
+  }
+
+  /**
+   * Sign in with the email or user name and the password of a User Table record
+   */
+  async login(login: string, password: string): Promise<AuthSession> {
+    const account = await this.directory.findByLogin(login)
+    const valid = !!account?.passwordHash && (await verifyPassword(password, account.passwordHash))
+    if (!account || !valid) {
+      throw new AuthenticationError('Invalid username or password')
+    }
+    return this.startSession(account, LOCAL_PROVIDER)
+  }
+
+  /**
+   * URL of the identity provider's sign-in page
+   * @param returnTo - frontend path to return to once signed in
+   */
+  async startProviderLogin(providerName: string, returnTo: string = '/', loginHint?: string): Promise<string> {
+    const provider = this.getProvider(providerName)
+    if (!provider) {
+      throw new AuthenticationError(`Unknown identity provider "${providerName}"`)
+    }
+    this.prunePendingLogins()
+
+    const state = randomToken()
+    const nonce = randomToken()
+    this.pendingLogins.set(state, {
+      provider,
+      nonce,
+      // Only paths of the frontend - never another site
+      returnTo: returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/',
+      expiresAt: Date.now() + PENDING_LOGIN_TTL_MS,
+    })
+    return provider.getAuthorizationUrl({ state, nonce, redirectUri: this.getCallbackUrl(), loginHint })
+  }
+
+  /**
+   * Sign in the user the identity provider redirected back with - their verified email
+   * must be the Email of an active User Table record
+   */
+  async completeProviderLogin(state: string, code: string): Promise<{ session: AuthSession; returnTo: string }> {
+    const pending = this.pendingLogins.get(state)
+    this.pendingLogins.delete(state)
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new AuthenticationError('Sign-in request has expired, please try again')
+    }
+
+    let claims
+    try {
+      claims = await pending.provider.exchangeCode(code, this.getCallbackUrl(), pending.nonce)
+    } catch (error: any) {
+      console.error(`❌ Sign-in with ${pending.provider.name} failed:`, error?.message || error)
+      throw new AuthenticationError(`Sign-in with ${pending.provider.displayName} failed`)
+    }
+
+    const email = claims.email?.trim().toLowerCase()
+    if (!email || claims.email_verified === false) {
+      throw new AuthenticationError(`${pending.provider.displayName} did not return a verified email`)
+    }
+    const account = await this.directory.findByLogin(email)
+    if (!account || account.user.email?.toLowerCase() !== email) {
+      throw new AuthenticationError(`No user with the email ${email}`)
+    }
+    return { session: this.startSession(account, pending.provider.name), returnTo: pending.returnTo }
+  }
+
+  /**
+   * User of a session token - throws a SessionTokenError when it is not valid
+   */
+  authenticate(token: string): AuthUser {
+    const claims = this.tokens.verify(token)
+    return {
+      id: claims.sub,
+      name: claims.name,
+      email: claims.email,
+      username: claims.username,
+      roles: claims.roles || [],
+      organizations: claims.organizations || [],
+      provider: claims.provider,
+    }
+  }
+
+  /**
+   * End a session - its token is refused from now on
+   */
+  logout(token: string): void {
+    this.tokens.revoke(this.tokens.verify(token))
+  }
+
+  /**
+   * Set the password of the user with this email or user name
+   */
+  async setPassword(login: string, password: string): Promise<AuthUser> {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new AuthenticationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+    }
+    const account = await this.directory.findByLogin(login)
+    if (!account) {
+      throw new AuthenticationError(`No user with the email or user name "${login}"`)
+    }
+    await this.directory.setPasswordHash(account.user.id, await hashPassword(password))
+    return { ...account.user, provider: LOCAL_PROVIDER }
+  }
+
+  getCallbackUrl(): string {
+    return `${this.apiUrl}/auth/oidc/callback`
+  }
+
+  private startSession(account: UserAccount, provider: string): AuthSession {
+    if (!account.active) {
+      throw new AuthenticationError('This account is not active')
+    }
+    return this.tokens.issue({ ...account.user, provider })
+  }
+
+  private prunePendingLogins(): void {
+    const now = Date.now()
+    for (const [state, pending] of this.pendingLogins) {
+      if (pending.expiresAt < now) this.pendingLogins.delete(state)
+    }
+  }
+}
+
+export const getPublicApiUrl = (): string =>
+  (process.env.AUTH_PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3001}/api`).replace(/\/$/, '')
+
+export const getFrontendUrl = (): string =>
+  (process.env.AUTH_FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '')
+
+function createIdentityProviders(apiUrl: string): IIdentityProvider[] {
+  const provider = (process.env.AUTH_OIDC_PROVIDER || '').toLowerCase()
+
+  switch (provider) {
+    case '':
+      return []
+    case 'oidc': {
+      const { AUTH_OIDC_ISSUER, AUTH_OIDC_CLIENT_ID, AUTH_OIDC_CLIENT_SECRET } = process.env
+      if (!AUTH_OIDC_ISSUER || !AUTH_OIDC_CLIENT_ID || !AUTH_OIDC_CLIENT_SECRET) {
+        throw new Error('AUTH_OIDC_ISSUER, AUTH_OIDC_CLIENT_ID and AUTH_OIDC_CLIENT_SECRET are required with AUTH_OIDC_PROVIDER=oidc')
+      }
+      return [new OidcIdentityProvider({
+        issuer: AUTH_OIDC_ISSUER,
+        clientId: AUTH_OIDC_CLIENT_ID,
+        clientSecret: AUTH_OIDC_CLIENT_SECRET,
+        scopes: process.env.AUTH_OIDC_SCOPES,
+        displayName: process.env.AUTH_OIDC_DISPLAY_NAME,
+      })]
+    }
+    case 'mock':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('AUTH_OIDC_PROVIDER=mock cannot be used in production')
+      }
+      console.warn('⚠️  Mock identity provider enabled - anyone can sign in as any user with an email')
+      return [new MockIdentityProvider(`${apiUrl}/auth/mock-idp/authorize`)]
+    default:
+      console.warn(`⚠️  Unknown identity provider "${provider}", using password sign-in only`)
+      return []
+  }
+}
+
+// Singleton instance
+let authService: AuthService | null = null
+
+export const getAuthService = (): AuthService => {
+  if (!authService) {
+    const apiUrl = getPublicApiUrl()
+    authService = new AuthService(new UserTableDirectory(), getSessionTokens(), createIdentityProviders(apiUrl), apiUrl)
+    console.log(`🔐 Auth providers: ${authService.getProviders().map(provider => provider.name).join(', ')}`)
+  }
+  return authService
+}
+
+/**
+ * Use another user directory or identity providers (tests) - call at startup, before the
+ * first request
+ */
+export const setAuthService = (service: AuthService): void => {
+  authService = service
+}
@@ -0,0 +1,33 @@
+import { IdentityClaims } from '../types/Auth'
+
+/**
+ * Identity Provider Interface
+ *
+ * An OpenID Connect provider, used with the authorization code flow: the browser is sent
+ * to the provider's authorization URL, which redirects back to /api/auth/oidc/callback with
+ * a code that is exchanged for the claims of the user who signed in.
+ */
+
+export interface AuthorizationRequest {
+  state: string
+  nonce: string
+  redirectUri: string
+  loginHint?: string
+}
+
+export interface IIdentityProvider {
+  readonly name: string
+  /** Label of the provider's sign-in button */
+  readonly displayName: string
+
+  /**
+   * URL to send the browser to
+   */
+  getAuthorizationUrl(request: AuthorizationRequest): Promise<string>
+
+  /**
+   * Claims of the user an authorization code was issued to - throws when the code is
+   * invalid, expired, or was issued for another redirect URI or nonce
+   */
+  exchangeCode(code: string, redirectUri: string, nonce: string): Promise<IdentityClaims>
+}
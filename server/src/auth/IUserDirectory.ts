@@ -0,0 +1,27 @@
+import { AuthUser } from '../types/Auth'
+
+/**
+ * User Directory Interface
+ *
+ * Where the accounts users sign in to are kept - the User Table (UserTableDirectory).
+ */
+
+export interface UserAccount {
+  user: Omit<AuthUser, 'provider'>
+  /** Whether the account may sign in */
+  active: boolean
+  passwordHash: string | null
+}
+
+export interface IUserDirectory {
+  readonly name: string
+
+  /**
+   * Account with this email or user name (case-insensitive) - null when none matches
+   */
+  findByLogin(login: string): Promise<UserAccount | null>
+
+  findById(id: string): Promise<UserAccount | null>
+
+  setPasswordHash(id: string, passwordHash: string): Promise<void>
+}
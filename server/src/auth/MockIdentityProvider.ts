@@ -0,0 +1,72 @@
+import { randomBytes } from 'crypto'
+import { IdentityClaims } from '../types/Auth'
+import { AuthorizationRequest, IIdentityProvider } from './IIdentityProvider'
+
+/**
+ * Mock Identity Provider
+ *
+ * In-process stand-in for an OpenID Connect provider, for development and tests. Its
+ * authorization endpoint (GET /api/auth/mock-idp/authorize) signs in the email given as
+ * login_hint, without asking for a password, and redirects back with a code. The email
+ * still has to match an active User Table record.
+ *
+ * Enabled with AUTH_OIDC_PROVIDER=mock, which is refused when NODE_ENV=production.
+ */
+
+const CODE_TTL_MS = 60 * 1000
+
+interface IssuedCode {
+  claims: IdentityClaims
+  redirectUri: string
+  nonce: string
+  expiresAt: number
+}
+
+export class MockIdentityProvider implements IIdentityProvider {
+  readonly name = 'mock'
+  readonly displayName = 'Mock IdP'
+  private codes = new Map<string, IssuedCode>()
+
+  /**
+   * @param authorizeUrl - URL of the mock authorization endpoint
+   */
+  constructor(private readonly authorizeUrl: string) {}
+
+  async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const url = new URL(this.authorizeUrl)
+    url.searchParams.set('redirect_uri', request.redirectUri)
+    url.searchParams.set('state', request.state)
+    url.searchParams.set('nonce', request.nonce)
+    if (request.loginHint) {
+      url.searchParams.set('login_hint', request.loginHint)
+    }
+    return url.toString()
+  }
+
+  /**
+   * Authorization endpoint: a code signing in the email
+   */
+  authorize(email: string, redirectUri: string, nonce: string): string {
+    const code = randomBytes(16).toString('hex')
+    const normalized = email.trim().toLowerCase()
+    this.codes.set(code, {
+      claims: { sub: `mock|${normalized}`, email: normalized, email_verified: true },
+      redirectUri,
+      nonce,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    })
+    return code
+  }
+
+  async exchangeCode(code: string, redirectUri: string, nonce: string): Promise<IdentityClaims> {
+    const issued = this.codes.get(code)
+    this.codes.delete(code) // single use
+    if (!issued || issued.expiresAt < Date.now()) {
+      throw new Error('Invalid or expired authorization code')
+    }
+    if (issued.redirectUri !== redirectUri || issued.nonce !== nonce) {
+      throw new Error('Authorization code was issued for another request')
+    }
+    return issued.claims
+  }
+}
@@ -0,0 +1,124 @@
+import { IdentityClaims } from '../types/Auth'
+import { AuthorizationRequest, IIdentityProvider } from './IIdentityProvider'
+
+/**
+ * OpenID Connect Identity Provider
+ *
+ * Any provider publishing a discovery document (Azure AD / Entra ID, Okta, Auth0,
+ * Keycloak, Google...). The ID token comes straight from the token endpoint over TLS, so
+ * its issuer, audience, expiry and nonce are checked but not its signature (OpenID Connect
+ * Core, section 3.1.3.7).
+ *
+ * Environment Variables:
+ * - AUTH_OIDC_ISSUER: issuer URL (its /.well-known/openid-configuration is read)
+ * - AUTH_OIDC_CLIENT_ID, AUTH_OIDC_CLIENT_SECRET: client registered with the provider
+ * - AUTH_OIDC_SCOPES: requested scopes (default: "openid email profile")
+ * - AUTH_OIDC_DISPLAY_NAME: label of the sign-in button (default: "Single sign-on")
+ */
+
+export interface OidcProviderConfig {
+  issuer: string
+  clientId: string
+  clientSecret: string
+  scopes?: string
+  displayName?: string
+}
+
+interface DiscoveryDocument {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+}
+
+const CLOCK_SKEW_SECONDS = 60
+
+export class OidcIdentityProvider implements IIdentityProvider {
+  readonly name = 'oidc'
+  readonly displayName: string
+  private discovery: Promise<DiscoveryDocument> | null = null
+
+  constructor(private readonly config: OidcProviderConfig) {
+    this.displayName = config.displayName || 'Single sign-on'
+  }
+
+  async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const discovery = await this.getDiscovery()
+    const url = new URL(discovery.authorization_endpoint)
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', this.config.clientId)
+    url.searchParams.set('redirect_uri', request.redirectUri)
+    url.searchParams.set('scope', this.config.scopes || 'openid email profile')
+    url.searchParams.set('state', request.state)
+    url.searchParams.set('nonce', request.nonce)
+    if (request.loginHint) {
+      url.searchParams.set('login_hint', request.loginHint)
+    }
+    return url.toString()
+  }
+
+  async exchangeCode(code: string, redirectUri: string, nonce: string): Promise<IdentityClaims> {
+    const discovery = await this.getDiscovery()
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      }).toString(),
+    })
+    const result: any = await response.json().catch(() => ({}))
+    if (!response.ok || typeof result.id_token !== 'string') {
+      throw new Error(`Token request failed: ${result.error_description || result.error || response.statusText}`)
+    }
+
+    const claims = this.decodeIdToken(result.id_token)
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (claims.iss !== discovery.issuer) {
+      throw new Error('ID token was issued by another issuer')
+    }
+    if (!audiences.includes(this.config.clientId)) {
+      throw new Error('ID token was issued for another client')
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) {
+      throw new Error('ID token has expired')
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match')
+    }
+    if (typeof claims.sub !== 'string') {
+      throw new Error('ID token has no subject')
+    }
+    return claims
+  }
+
+  private decodeIdToken(idToken: string): any {
+    const payload = idToken.split('.')[1]
+    try {
+      return JSON.parse(Buffer.from(payload || '', 'base64url').toString('utf8'))
+    } catch {
+      throw new Error('Malformed ID token')
+    }
+  }
+
+  /** Discovery document, read once - a failed read is retried on the next sign-in */
+  private getDiscovery(): Promise<DiscoveryDocument> {
+    if (!this.discovery) {
+      const url = `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+      this.discovery = fetch(url)
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`Could not read ${url}: ${response.status} ${response.statusText}`)
+          }
+          return (await response.json()) as DiscoveryDocument
+        })
+        .catch(error => {
+          this.discovery = null
+          throw error
+        })
+    }
+    return this.discovery
+  }
+}
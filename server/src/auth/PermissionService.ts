@@ -0,0 +1,102 @@
+import { AuthUser } from '../types/Auth'
+import { EffectivePermissions, PermissionMatrix } from '../types/Permission'
+import { UserRole } from '../types/UserRole'
+import { UserRolesRepository } from '../data/UserRolesRepository'
+import { mergePermissionMatrices, parsePermissionMatrix } from './permissions'
+
+/**
+ * Permission Service
+ *
+ * What a signed-in user may do: the actions the Permissions of their User Roles grant.
+ * Roles come from the user's session token (as they were when they signed in); each
+ * role's record is cached for a minute, and dropped as soon as a role is written through
+ * the API, so edits of the permission matrix apply to the next request.
+ *
+ * Environment Variables:
+ * - AUTH_SUPERUSER_ROLES: comma-separated names of roles that may do everything
+ *   (default: Admin) - how the first administrator gets to edit the other roles
+ */
+
+export const PERMISSIONS_FIELD = 'Permissions'
+
+const ROLE_CACHE_TTL_MS = 60 * 1000
+
+/** Where the User Roles records are read from */
+export interface IRoleSource {
+  findById(id: string): Promise<UserRole | null>
+}
+
+interface CachedRole {
+  name: string
+  permissions: PermissionMatrix
+}
+
+export class PermissionService {
+  private roleCache = new Map<string, { role: CachedRole | null; expiresAt: number }>()
+  private readonly superuserRoles: Set<string>
+
+  constructor(
+    private readonly roles: IRoleSource,
+    superuserRoles: string[] = ['Admin']
+  ) {
+    this.superuserRoles = new Set(superuserRoles.map(name => name.trim().toLowerCase()).filter(Boolean))
+  }
+
+  async getPermissions(user: AuthUser): Promise<EffectivePermissions> {
+    const roles = (await Promise.all(user.roles.map(id => this.getRole(id))))
+      .filter((role): role is CachedRole => role !== null)
+
+    return {
+      superuser: roles.some(role => this.superuserRoles.has(role.name.toLowerCase())),
+      roles: roles.map(role => role.name),
+      permissions: mergePermissionMatrices(roles.map(role => role.permissions)),
+    }
+  }
+
+  /**
+   * Forget the cached roles - after a role is created, updated or deleted
+   */
+  invalidate(): void {
+    this.roleCache.clear()
+  }
+
+  private async getRole(id: string): Promise<CachedRole | null> {
+    const cached = this.roleCache.get(id)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.role
+    }
+
+    const record = await this.roles.findById(id)
+    const role = record ? { name: String(record.Name || ''), permissions: this.parsePermissions(record) } : null
+    this.roleCache.set(id, { role, expiresAt: Date.now() + ROLE_CACHE_TTL_MS })
+    return role
+  }
+
+  private parsePermissions(record: UserRole): PermissionMatrix {
+    try {
+      return parsePermissionMatrix(record[PERMISSIONS_FIELD])
+    } catch (error: any) {
+      // Grant nothing rather than guess what was meant
+      console.warn(`⚠️  Ignoring the permissions of role "${record.Name || record.id}": ${error.message}`)
+      return {}
+    }
+  }
+}
+
+// Singleton instance
+let permissionService: PermissionService | null = null
+
+export const getPermissionService = (): PermissionService => {
+  if (!permissionService) {
+    const superuserRoles = (process.env.AUTH_SUPERUSER_ROLES ?? 'Admin').split(',')
+    permissionService = new PermissionService(new UserRolesRepository(), superuserRoles)
+  }
+  return permissionService
+}
+
+/**
+ * Use another role source (tests) - call at startup, before the first request
+ */
+export const setPermissionService = (service: PermissionService): void => {
+  permissionService = service
+}
@@ -0,0 +1,146 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { AuthSession, AuthUser, SessionTokenClaims } from '../types/Auth'
+
+/**
+ * Session Tokens
+ *
+ * JSON Web Tokens signed with HS256 (HMAC-SHA256) and AUTH_JWT_SECRET. They are not
+ * stored: any token with a valid signature that has not expired is accepted, except
+ * those revoked by a logout (kept in memory until they expire).
+ *
+ * Environment Variables:
+ * - AUTH_JWT_SECRET: signing secret, at least 32 characters. Required in production;
+ *   otherwise a random secret is generated at startup, which signs everyone out on restart
+ * - AUTH_TOKEN_TTL: lifetime of a token in seconds (default: 28800, 8 hours)
+ */
+
+const DEFAULT_TTL_SECONDS = 8 * 60 * 60
+const MIN_SECRET_LENGTH = 32
+
+export class SessionTokenError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SessionTokenError'
+  }
+}
+
+const encodeSegment = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+const decodeSegment = (segment: string): any => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+  } catch {
+    throw new SessionTokenError('Malformed token')
+  }
+}
+
+export class SessionTokens {
+  private revoked = new Map<string, number>() // jti -> exp
+
+  constructor(
+    private readonly secret: string,
+    readonly ttlSeconds: number = DEFAULT_TTL_SECONDS
+  ) {}
+
+  /**
+   * A new token for the user
+   */
+  issue(user: AuthUser): AuthSession {
+    const now = Math.floor(Date.now() / 1000)
+    const claims: SessionTokenClaims = {
+      sub: user.id,
+      name: user.name,
+      email: user.email,
+      username: user.username,
+      roles: user.roles,
+      organizations: user.organizations,
+      provider: user.provider,
+      jti: randomUUID(),
+      iat: now,
+      exp: now + this.ttlSeconds,
+    }
+    const unsigned = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}`
+    return {
+      token: `${unsigned}.${this.sign(unsigned)}`,
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+      user,
+    }
+  }
+
+  /**
+   * Claims of a valid token - throws a SessionTokenError otherwise
+   */
+  verify(token: string): SessionTokenClaims {
+    const segments = token.split('.')
+    if (segments.length !== 3) {
+      throw new SessionTokenError('Malformed token')
+    }
+    const [header, payload, signature] = segments
+    if (decodeSegment(header).alg !== 'HS256') {
+      throw new SessionTokenError('Unsupported token algorithm')
+    }
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new SessionTokenError('Invalid token signature')
+    }
+
+    const claims: SessionTokenClaims = decodeSegment(payload)
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+      throw new SessionTokenError('Malformed token')
+    }
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+      throw new SessionTokenError('Token has expired')
+    }
+    if (this.revoked.has(claims.jti)) {
+      throw new SessionTokenError('Token has been revoked')
+    }
+    return claims
+  }
+
+  /**
+   * Refuse the token until it expires
+   */
+  revoke(claims: SessionTokenClaims): void {
+    this.pruneRevoked()
+    this.revoked.set(claims.jti, claims.exp)
+  }
+
+  private sign(unsigned: string): string {
+    return createHmac('sha256', this.secret).update(unsigned).digest('base64url')
+  }
+
+  private pruneRevoked(): void {
+    const now = Math.floor(Date.now() / 1000)
+    for (const [jti, exp] of this.revoked) {
+      if (exp <= now) this.revoked.delete(jti)
+    }
+  }
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.AUTH_JWT_SECRET
+  if (secret) {
+    if (secret.length < MIN_SECRET_LENGTH) {
+      throw new Error(`AUTH_JWT_SECRET must be at least ${MIN_SECRET_LENGTH} characters`)
+    }
+    return secret
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_JWT_SECRET is required in production')
+  }
+  console.warn('⚠️  AUTH_JWT_SECRET not set - using a random secret, sessions end when the server restarts')
+  return randomBytes(MIN_SECRET_LENGTH).toString('hex')
+}
+
+// Singleton instance
+let sessionTokens: SessionTokens | null = null
+
+export const getSessionTokens = (): SessionTokens => {
+  if (!sessionTokens) {
+    const ttl = parseInt(process.env.AUTH_TOKEN_TTL || '', 10)
+    sessionTokens = new SessionTokens(getSigningSecret(), ttl > 0 ? ttl : DEFAULT_TTL_SECONDS)
+  }
+  return sessionTokens
+}
@@ -0,0 +1,76 @@
+import {
+  TenantAccessError,
+  getTenantAirtableField,
+  getTenantScope,
+  isInTenantScope,
+  resolveTenantScope,
+  runInTenantScope,
+  stampTenant,
+  tenantFilter,
+  withAllOrganizations,
+} from './TenantContext'
+import { AuthUser } from '../types/Auth'
+import { TenantScope } from '../types/Organization'
+
+const user = (organizations: string[]): AuthUser => ({
+  id: 'ann', name: 'Ann', email: null, username: 'ann', roles: [], organizations, provider: 'local',
+})
+
+const ORG_A: TenantScope = { organizationId: 'recOrgA', allOrganizations: false }
+const NO_ORG: TenantScope = { organizationId: null, allOrganizations: false }
+
+describe('resolveTenantScope', () => {
+  it('takes the requested organization among the user\'s, else their first', () => {
+    expect(resolveTenantScope(user(['recOrgA', 'recOrgB']), ' recOrgB ', false)).toEqual({ organizationId: 'recOrgB', allOrganizations: false })
+    expect(resolveTenantScope(user(['recOrgA', 'recOrgB']), undefined, false)).toEqual(ORG_A)
+    expect(() => resolveTenantScope(user(['recOrgA']), 'recOrgB', false)).toThrow(TenantAccessError)
+  })
+
+  it('lets superusers pick any organization, and see all of them when they have none', () => {
+    expect(resolveTenantScope(user([]), 'recOrgB', true)).toEqual({ organizationId: 'recOrgB', allOrganizations: false })
+    expect(resolveTenantScope(user([]), undefined, true)).toEqual({ organizationId: null, allOrganizations: true })
+    expect(resolveTenantScope(user([]), undefined, false)).toEqual(NO_ORG)
+  })
+})
+
+describe('tenant scope', () => {
+  it('sees the records of no organization outside a request, and every record within withAllOrganizations', () => {
+    expect(getTenantScope()).toEqual(NO_ORG)
+    expect(tenantFilter('Organization ID')).toEqual({ op: 'isEmpty', field: 'Organization ID' })
+    expect(isInTenantScope({ 'Organization ID': 'recOrgA' }, 'Organization ID')).toBe(false)
+    withAllOrganizations(() => expect(tenantFilter('Organization ID')).toBeUndefined())
+    runInTenantScope(ORG_A, () => {
+      withAllOrganizations(() => expect(tenantFilter('Organization ID')).toBeUndefined())
+    })
+  })
+
+  it('filters queries and single records on the organization in scope', async () => {
+    await runInTenantScope(ORG_A, async () => {
+      await Promise.resolve() // the scope follows awaits
+      expect(tenantFilter('Organization ID')).toEqual({ op: 'eq', field: 'Organization ID', value: 'recOrgA' })
+      expect(isInTenantScope({ 'Organization ID': ['recOrgA'] }, 'Organization ID')).toBe(true)
+      expect(isInTenantScope({ 'Organization ID': 'recOrgB' }, 'Organization ID')).toBe(false)
+    })
+    runInTenantScope(NO_ORG, () => {
+      expect(tenantFilter('Organization ID')).toEqual({ op: 'isEmpty', field: 'Organization ID' })
+      expect(isInTenantScope({}, 'Organization ID')).toBe(true)
+    })
+  })
+
+  it('stamps new records with the organization, and keeps updates from moving them', () => {
+    runInTenantScope(ORG_A, () => {
+      expect(stampTenant({ Name: 'x', 'Organization ID': 'recOrgB' }, 'Organization ID')).toEqual({ Name: 'x', 'Organization ID': 'recOrgA' })
+      expect(stampTenant({ Name: 'x', 'Organization ID': 'recOrgB' }, 'Organization ID', false)).toEqual({ Name: 'x' })
+    })
+    withAllOrganizations(() => {
+      expect(stampTenant({ Name: 'x', 'Organization ID': 'recOrgB' }, 'Organization ID')).toEqual({ Name: 'x', 'Organization ID': 'recOrgB' })
+    })
+    expect(stampTenant({ Name: 'x', 'Organization ID': 'recOrgB' }, 'Organization ID')).toEqual({ Name: 'x' })
+  })
+
+  it('names the Airtable tenant field of tenant tables only', () => {
+    expect(getTenantAirtableField('companies')).toBe('Organization ID')
+    expect(getTenantAirtableField('activity-data')).toBe('Organization ID')
+    expect(getTenantAirtableField('unit')).toBeNull()
+  })
+})
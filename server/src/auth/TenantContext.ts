@@ -0,0 +1,129 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { FilterNode, eqFilter, isEmptyFilter } from '../database/filters/FilterAst'
+import { findEntityDescriptor } from '../database/entities/descriptors'
+import { AuthUser } from '../types/Auth'
+import { TenantScope } from '../types/Organization'
+
+/**
+ * Tenant Context
+ *
+ * Organization whose records a request works on. The scopeToTenant middleware runs the
+ * rest of the request inside its scope, so the database layer (TenantScopedDatabase)
+ * reads it here for tenant tables (descriptors with a tenantField) instead of every
+ * caller passing it along:
+ * - queries get tenantFilter() added, single records are checked with isInTenantScope()
+ * - new records get the organization stamped with stampTenant()
+ *
+ * Code outside a request has no organization and only sees the records of none, so a
+ * missing scope never exposes another organization's records. Work on behalf of every
+ * organization (such as recalculating the rows of a changed emission factor) runs in
+ * withAllOrganizations().
+ */
+
+/** Organization a request asks for, among those of the signed-in user */
+export const ORGANIZATION_HEADER = 'x-organization-id'
+
+const UNRESTRICTED: TenantScope = { organizationId: null, allOrganizations: true }
+
+const NO_ORGANIZATION: TenantScope = { organizationId: null, allOrganizations: false }
+
+const storage = new AsyncLocalStorage<TenantScope>()
+
+/**
+ * Organization a user may not work on
+ */
+export class TenantAccessError extends Error {
+  constructor(organizationId: string) {
+    super(`Not a member of organization ${organizationId}`)
+    this.name = 'TenantAccessError'
+  }
+}
+
+/**
+ * Scope of a request: the organization it asks for (which must be one of the user's,
+ * unless they are a superuser), else the user's first organization. Superusers of no
+ * organization see every organization; other users of none only the records of none.
+ */
+export function resolveTenantScope(user: AuthUser, requested: string | undefined, superuser: boolean): TenantScope {
+  const organizationId = requested?.trim()
+  if (organizationId) {
+    if (!superuser && !user.organizations.includes(organizationId)) {
+      throw new TenantAccessError(organizationId)
+    }
+    return { organizationId, allOrganizations: false }
+  }
+  if (user.organizations.length > 0) {
+    return { organizationId: user.organizations[0], allOrganizations: false }
+  }
+  return superuser ? UNRESTRICTED : NO_ORGANIZATION
+}
+
+/**
+ * Run fn (and everything it awaits) in a tenant scope
+ */
+export const runInTenantScope = <T>(scope: TenantScope, fn: () => T): T => storage.run(scope, fn)
+
+/**
+ * Run fn on the records of every organization
+ */
+export const withAllOrganizations = <T>(fn: () => T): T => storage.run(UNRESTRICTED, fn)
+
+/**
+ * Scope of the current request - no organization outside a request
+ */
+export const getTenantScope = (): TenantScope => storage.getStore() || NO_ORGANIZATION
+
+/**
+ * Filter of the records in scope on a tenant field - undefined when every record is
+ */
+export function tenantFilter(field: string): FilterNode | undefined {
+  const scope = getTenantScope()
+  if (scope.allOrganizations) {
+    return undefined
+  }
+  return scope.organizationId ? eqFilter(field, scope.organizationId) : isEmptyFilter(field)
+}
+
+/**
+ * Whether a record is in scope
+ */
+export function isInTenantScope(record: Record<string, any>, field: string): boolean {
+  const scope = getTenantScope()
+  if (scope.allOrganizations) {
+    return true
+  }
+  const value = record[field]
+  const organizationId = (Array.isArray(value) ? value[0] : value) || null
+  return organizationId === scope.organizationId
+}
+
+/**
+ * Record fields of a write with the tenant field set to the organization in scope
+ * (left as given when every organization is - superusers may assign any)
+ *
+ * @param creating - false for an update, which drops the field instead so a record
+ *   cannot move to another organization
+ */
+export function stampTenant<T extends Record<string, any>>(dto: T, field: string, creating: boolean = true): T {
+  const scope = getTenantScope()
+  if (scope.allOrganizations) {
+    return dto
+  }
+  const fields: Record<string, any> = { ...dto }
+  delete fields[field]
+  if (creating && scope.organizationId) {
+    fields[field] = scope.organizationId
+  }
+  return fields as T
+}
+
+/**
+ * Airtable name of the tenant field of an entity (API path segment) - null for shared tables
+ */
+export function getTenantAirtableField(entity: string): string | null {
+  const descriptor = findEntityDescriptor(entity)
+  const column = descriptor?.tenantField
+    ? descriptor.columns.find(field => field.field === descriptor.tenantField)
+    : undefined
+  return column ? column.airtableField || column.field : null
+}
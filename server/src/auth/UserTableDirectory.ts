@@ -0,0 +1,62 @@
+import Airtable from 'airtable'
+import { getUserTableAirtableService } from '../services/UserTableAirtableService'
+import { getUserPasswordHashField } from './passwords'
+import { IUserDirectory, UserAccount } from './IUserDirectory'
+
+/**
+ * User Table Directory
+ *
+ * Accounts of the User Table (Airtable). A user signs in with the Email or User Name of
+ * their record; their password hash is kept in the AUTH_PASSWORD_FIELD field (default:
+ * "Password Hash"), which the user table API never returns or writes. Records whose
+ * Status is set to anything but "Active" cannot sign in. The user's organizations are the
+ * records linked in the Organizations field.
+ */
+
+const text = (value: any): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null
+
+/** IDs of a linked record field (IDs, or objects with an id) */
+const toRecordIds = (value: any): string[] =>
+  Array.isArray(value) ? value.map(item => (typeof item === 'string' ? item : item?.id)).filter(Boolean) : []
+
+export class UserTableDirectory implements IUserDirectory {
+  readonly name = 'user-table'
+
+  async findByLogin(login: string): Promise<UserAccount | null> {
+    const record = await getUserTableAirtableService().findAccountByLogin(login)
+    return record ? this.toAccount(record) : null
+  }
+
+  async findById(id: string): Promise<UserAccount | null> {
+    const record = await getUserTableAirtableService().findAccountById(id)
+    return record ? this.toAccount(record) : null
+  }
+
+  async setPasswordHash(id: string, passwordHash: string): Promise<void> {
+    await getUserTableAirtableService().setPasswordHash(id, passwordHash)
+  }
+
+  private toAccount(record: Airtable.Record<any>): UserAccount {
+    const fields = record.fields
+    const email = text(fields['Email'])
+    const username = text(fields['User Name'])
+    const fullName = [text(fields['First Name']), text(fields['Last Name'])].filter(Boolean).join(' ')
+    const status = text(fields['Status'])
+    const roles = fields['User Roles']
+    const organizations = fields['Organizations']
+
+    return {
+      user: {
+        id: record.id,
+        name: fullName || username || email || record.id,
+        email,
+        username,
+        roles: toRecordIds(roles),
+        organizations: toRecordIds(organizations),
+      },
+      active: !status || status.toLowerCase() === 'active',
+      passwordHash: text(fields[getUserPasswordHashField()]),
+    }
+  }
+}
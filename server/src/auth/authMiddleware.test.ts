@@ -0,0 +1,146 @@
+import { NextFunction, Request, Response } from 'express'
+import { authenticate, requireAuth, requireOwnUser, requirePermission, scopeToTenant } from './authMiddleware'
+import { AuthService, setAuthService } from './AuthService'
+import { IUserDirectory } from './IUserDirectory'
+import { PermissionService, setPermissionService } from './PermissionService'
+import { SessionTokens } from './SessionTokens'
+import { ORGANIZATION_HEADER, getTenantScope } from './TenantContext'
+import { AuthUser } from '../types/Auth'
+
+// The User Roles table (Airtable) is replaced by the roles below
+jest.mock('../data/UserRolesRepository', () => ({ UserRolesRepository: jest.fn() }))
+
+const tokens = new SessionTokens('a-test-secret-of-at-least-32-characters')
+
+const ANN: AuthUser = { id: 'ann', name: 'Ann', email: 'ann@example.com', username: 'ann', roles: ['recEditor'], organizations: ['recOrgA'], provider: 'local' }
+
+const noUsers: IUserDirectory = {
+  name: 'none',
+  findByLogin: async () => null,
+  findById: async () => null,
+  setPasswordHash: async () => undefined,
+}
+
+setAuthService(new AuthService(noUsers, tokens))
+
+const ROLES: Record<string, { id: string; Name: string; Permissions: string }> = {
+  recEditor: { id: 'recEditor', Name: 'Editor', Permissions: '{"unit":["read","update"],"*":["read"]}' },
+  recAdmin: { id: 'recAdmin', Name: 'Admin', Permissions: '{}' },
+}
+setPermissionService(new PermissionService({ findById: async id => ROLES[id] || null }))
+
+type Middleware = (req: Request, res: Response, next: NextFunction) => void | Promise<void>
+
+/**
+ * Run a middleware on a request - the response it sent, or whether it passed it on (and
+ * the tenant scope the rest of the request runs in)
+ */
+async function run(middleware: Middleware, request: Partial<Request> & { authorization?: string; organization?: string }) {
+  const { authorization, organization, ...rest } = request
+  const headers: Record<string, string> = {
+    ...(authorization ? { authorization } : {}),
+    ...(organization ? { [ORGANIZATION_HEADER]: organization } : {}),
+  }
+  const req = {
+    method: 'GET',
+    path: '/',
+    params: {},
+    ...rest,
+    headers,
+    header: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request
+  let status = 200
+  let json: any
+  const res = {
+    status(code: number) {
+      status = code
+      return this
+    },
+    json(payload: any) {
+      json = payload
+      return this
+    },
+  } as unknown as Response
+  let passed = false
+  let scope
+  await middleware(req, res, () => {
+    passed = true
+    scope = getTenantScope()
+  })
+  return { status, json, passed, scope, req }
+}
+
+describe('authenticate', () => {
+  it('leaves requests without a token anonymous', async () => {
+    const result = await run(authenticate, {})
+    expect(result.passed).toBe(true)
+    expect(result.req.user).toBeUndefined()
+  })
+
+  it('sets the user of a valid session token', async () => {
+    const result = await run(authenticate, { authorization: `Bearer ${tokens.issue(ANN).token}` })
+    expect(result.passed).toBe(true)
+    expect(result.req.user).toEqual(ANN)
+  })
+
+  it('refuses invalid tokens rather than serving them anonymously', async () => {
+    expect(await run(authenticate, { authorization: 'Basic YW5uOnB3' })).toEqual(expect.objectContaining({
+      status: 401, passed: false, json: { success: false, error: 'Authorization header must be "Bearer <token>"' },
+    }))
+    const forged = await run(authenticate, { authorization: `Bearer ${new SessionTokens('x'.repeat(32)).issue(ANN).token}` })
+    expect(forged.status).toBe(401)
+    expect(forged.json.error).toBe('Invalid token signature')
+  })
+})
+
+describe('requireAuth / requireOwnUser', () => {
+  it('refuses anonymous requests and the data of other users', async () => {
+    expect((await run(requireAuth, {})).status).toBe(401)
+    expect((await run(requireAuth, { user: ANN })).passed).toBe(true)
+    expect((await run(requireOwnUser, { user: ANN, params: { userId: 'bob' } })).status).toBe(403)
+    expect((await run(requireOwnUser, { user: ANN, params: { userId: 'ann' } })).passed).toBe(true)
+  })
+})
+
+describe('requirePermission', () => {
+  it('needs the action of the method, or of the endpoint', async () => {
+    const unit = requirePermission('unit')
+    expect((await run(unit, { user: ANN, method: 'PUT', path: '/rec1' })).passed).toBe(true)
+    expect(await run(unit, { user: ANN, method: 'DELETE', path: '/rec1' })).toEqual(expect.objectContaining({
+      status: 403, json: { success: false, error: 'Permission denied: delete on unit' },
+    }))
+    expect((await run(unit, { user: ANN, method: 'GET', path: '/export' })).status).toBe(403)
+  })
+
+  it('grants the actions of "*" on every entity, and everything to superusers', async () => {
+    expect((await run(requirePermission('geography'), { user: ANN, method: 'GET', path: '/' })).passed).toBe(true)
+    expect((await run(requirePermission('geography'), { user: ANN, method: 'POST', path: '/' })).status).toBe(403)
+    const admin = { ...ANN, roles: ['recAdmin'] }
+    expect((await run(requirePermission('geography'), { user: admin, method: 'DELETE', path: '/rec1' })).passed).toBe(true)
+  })
+
+  it('checks the :entity param and refuses anonymous requests', async () => {
+    expect((await run(requirePermission(), { user: ANN, method: 'POST', path: '/import', params: { entity: 'unit' } })).status).toBe(403)
+    expect((await run(requirePermission('unit'), { method: 'GET', path: '/' })).status).toBe(401)
+  })
+})
+
+describe('scopeToTenant', () => {
+  it('runs the request in the organization of the header, else the user\'s first', async () => {
+    const bob = { ...ANN, organizations: ['recOrgA', 'recOrgB'] }
+    expect((await run(scopeToTenant, { user: bob })).scope).toEqual({ organizationId: 'recOrgA', allOrganizations: false })
+    const header = await run(scopeToTenant, { user: bob, organization: 'recOrgB' })
+    expect(header.scope).toEqual({ organizationId: 'recOrgB', allOrganizations: false })
+  })
+
+  it('refuses organizations the user is not a member of', async () => {
+    const result = await run(scopeToTenant, { user: ANN, organization: 'recOrgB' })
+    expect(result).toEqual(expect.objectContaining({
+      status: 403, passed: false, json: { success: false, error: 'Not a member of organization recOrgB' },
+    }))
+  })
+
+  it('scopes anonymous requests to no organization\'s records', async () => {
+    expect((await run(scopeToTenant, {})).scope).toEqual({ organizationId: null, allOrganizations: false })
+  })
+})
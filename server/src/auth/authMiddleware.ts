@@ -0,0 +1,182 @@
+import { NextFunction, Request, Response } from 'express'
+import { getAuthService } from './AuthService'
+import { getPermissionService } from './PermissionService'
+import { hasPermission, registerPermissionEntity, resolvePermissionAction } from './permissions'
+import { ORGANIZATION_HEADER, resolveTenantScope, runInTenantScope } from './TenantContext'
+import { PermissionAction } from '../types/Permission'
+import { TenantScope } from '../types/Organization'
+
+/**
+ * Authentication Middleware
+ *
+ * authenticate reads the session token of a request ("Authorization: Bearer <token>")
+ * and sets req.user; requests without one stay anonymous. scopeToTenant then runs the
+ * request in the scope of the user's organization. Routes that act on behalf of a user
+ * put requireAuth in front of them, and routers of entities requirePermission.
+ */
+
+/** Scope of anonymous requests: no organization's records */
+const ANONYMOUS_SCOPE: TenantScope = { organizationId: null, allOrganizations: false }
+
+const BEARER = /^Bearer\s+(\S+)$/i
+
+/**
+ * Session token of a request, if any
+ */
+export const getBearerToken = (req: Request): string | null => {
+  const match = BEARER.exec(req.headers.authorization || '')
+  return match ? match[1] : null
+}
+
+/**
+ * Set req.user from the session token - a request with an invalid or expired token is
+ * refused (401) rather than served anonymously, so the client knows to sign in again
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  req.user = undefined
+  if (!req.headers.authorization) {
+    next()
+    return
+  }
+
+  const token = getBearerToken(req)
+  if (!token) {
+    res.status(401).json({
+      success: false,
+      error: 'Authorization header must be "Bearer <token>"',
+    })
+    return
+  }
+
+  try {
+    req.user = getAuthService().authenticate(token)
+    next()
+  } catch (error: any) {
+    res.status(401).json({
+      success: false,
+      error: error.name === 'SessionTokenError' ? error.message : 'Invalid session token',
+    })
+  }
+}
+
+/**
+ * Run the rest of the request in the tenant scope of the signed-in user (req.tenant): the
+ * organization of the X-Organization-Id header, else their first one - 403 when the
+ * header names an organization they are not a member of
+ */
+export async function scopeToTenant(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!req.user) {
+    req.tenant = ANONYMOUS_SCOPE
+    runInTenantScope(ANONYMOUS_SCOPE, next)
+    return
+  }
+
+  let scope: TenantScope
+  try {
+    const superuser = (await getPermissionService().getPermissions(req.user)).superuser
+    scope = resolveTenantScope(req.user, req.header(ORGANIZATION_HEADER), superuser)
+  } catch (error: any) {
+    if (error.name === 'TenantAccessError') {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+      })
+      return
+    }
+    console.error('Error resolving the organization of a request:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resolve the organization',
+    })
+    return
+  }
+
+  req.tenant = scope
+  runInTenantScope(scope, next)
+}
+
+/**
+ * Re-enter the tenant scope of the request - after middleware that resumes it outside of
+ * the scope (multer runs the rest of a request from the events of the upload)
+ */
+export function restoreTenantScope(req: Request, res: Response, next: NextFunction): void {
+  runInTenantScope(req.tenant || ANONYMOUS_SCOPE, next)
+}
+
+/**
+ * Refuse anonymous requests (401)
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    })
+    return
+  }
+  next()
+}
+
+/**
+ * Refuse requests for another user's data (403) - the :userId param, when given, must be
+ * the signed-in user
+ */
+export function requireOwnUser(req: Request, res: Response, next: NextFunction): void {
+  const { userId } = req.params
+  if (userId && userId !== req.user?.id) {
+    res.status(403).json({
+      success: false,
+      error: 'Cannot access the data of another user',
+    })
+    return
+  }
+  next()
+}
+
+/**
+ * Refuse requests that none of the user's roles grants (401 when anonymous, 403 otherwise)
+ *
+ * @param entity - entity of the router; defaults to the :entity param of the route
+ * @param action - action every request needs (e.g. 'read' for routers whose POSTs only
+ *   compute); defaults to the action of the request's method and path
+ */
+export function requirePermission(entity?: string, action?: PermissionAction) {
+  if (entity) {
+    registerPermissionEntity(entity)
+  }
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      })
+      return
+    }
+
+    const target = entity || req.params.entity
+    const needed = action || resolvePermissionAction(req.method, req.path)
+    if (!needed) {
+      next()
+      return
+    }
+
+    try {
+      const permissions = await getPermissionService().getPermissions(req.user)
+      if (!hasPermission(permissions, target, needed)) {
+        res.status(403).json({
+          success: false,
+          error: `Permission denied: ${needed} on ${target}`,
+        })
+        return
+      }
+      next()
+    } catch (error: any) {
+      console.error('Error checking permissions:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check permissions',
+      })
+    }
+  }
+}
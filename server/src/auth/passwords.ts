@@ -0,0 +1,42 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+
+/**
+ * Password Hashing
+ *
+ * scrypt hashes stored in the password field of the User Table, as
+ * "scrypt$<salt>$<hash>" (hex).
+ */
+
+/**
+ * Field of the User Table holding the password hash of a user - never read or written
+ * through the user table API
+ */
+export const getUserPasswordHashField = (): string => process.env.AUTH_PASSWORD_FIELD || 'Password Hash'
+
+const KEY_LENGTH = 64
+const SALT_LENGTH = 16
+const PREFIX = 'scrypt'
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH)
+  const key = await deriveKey(password, salt)
+  return `${PREFIX}$${salt.toString('hex')}$${key.toString('hex')}`
+}
+
+/**
+ * Whether the password matches a stored hash - false for a hash in another format
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [prefix, salt, hash] = storedHash.split('$')
+  if (prefix !== PREFIX || !salt || !hash) {
+    return false
+  }
+  const expected = Buffer.from(hash, 'hex')
+  const key = await deriveKey(password, Buffer.from(salt, 'hex'))
+  return key.length === expected.length && timingSafeEqual(key, expected)
+}
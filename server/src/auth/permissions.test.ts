@@ -0,0 +1,39 @@
+import {
+  PermissionMatrixError,
+  hasPermission,
+  mergePermissionMatrices,
+  parsePermissionMatrix,
+  resolvePermissionAction,
+  serializePermissionMatrix,
+} from './permissions'
+
+describe('permission matrices', () => {
+  it('parses the Permissions field, in the order of PERMISSION_ACTIONS', () => {
+    expect(parsePermissionMatrix('{"unit":["update","read"],"scope":[]}')).toEqual({ unit: ['read', 'update'] })
+    expect(parsePermissionMatrix(undefined)).toEqual({})
+    expect(serializePermissionMatrix({ unit: ['read'], geography: ['read'] })).toBe('{"geography":["read"],"unit":["read"]}')
+  })
+
+  it('refuses matrices it cannot read rather than guessing', () => {
+    expect(() => parsePermissionMatrix('{unit')).toThrow('Permissions must be a JSON object')
+    expect(() => parsePermissionMatrix('["unit"]')).toThrow(PermissionMatrixError)
+    expect(() => parsePermissionMatrix({ unit: ['read', 'admin'] })).toThrow('Unknown action "admin" for "unit"')
+  })
+
+  it('grants what any role grants', () => {
+    const merged = mergePermissionMatrices([{ unit: ['read'] }, { unit: ['delete'], '*': ['export'] }])
+    expect(merged).toEqual({ unit: ['read', 'delete'], '*': ['export'] })
+    const permissions = { superuser: false, roles: [], permissions: merged }
+    expect(hasPermission(permissions, 'unit', 'delete')).toBe(true)
+    expect(hasPermission(permissions, 'geography', 'export')).toBe(true)
+    expect(hasPermission(permissions, 'geography', 'read')).toBe(false)
+  })
+
+  it('needs the action of the endpoint before the action of the method', () => {
+    expect(resolvePermissionAction('GET', '/rec1')).toBe('read')
+    expect(resolvePermissionAction('PATCH', '/rec1')).toBe('update')
+    expect(resolvePermissionAction('POST', '/rec1/promote')).toBe('approve')
+    expect(resolvePermissionAction('GET', '/import/fields')).toBe('import')
+    expect(resolvePermissionAction('OPTIONS', '/')).toBeNull()
+  })
+})
@@ -0,0 +1,173 @@
+import { EffectivePermissions, PermissionAction, PermissionEntity, PermissionMatrix } from '../types/Permission'
+
+/**
+ * Permission Matrix
+ *
+ * Parsing and checking of the permission matrices of User Roles, and the action a request
+ * needs: GET reads, POST creates, PUT/PATCH update and DELETE deletes - except requests
+ * for the import, export and approval endpoints of an entity (see PATH_ACTIONS).
+ */
+
+export const PERMISSION_ACTIONS: PermissionAction[] = ['read', 'create', 'update', 'delete', 'import', 'export', 'approve']
+
+/** Entity of a matrix granting its actions on every entity */
+export const ALL_ENTITIES = '*'
+
+export class PermissionMatrixError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermissionMatrixError'
+  }
+}
+
+const METHOD_ACTIONS: Record<string, PermissionAction> = {
+  GET: 'read',
+  HEAD: 'read',
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+}
+
+// Path segments of endpoints that need another action than their method's
+const PATH_ACTIONS: Record<string, PermissionAction> = {
+  import: 'import', // POST /api/:entity/import, GET /api/:entity/import/fields
+  upload: 'import', // POST /api/industry-classification/upload
+  export: 'export', // GET /api/:entity/export
+  promote: 'approve', // POST /api/emission-factor-version/:id/promote
+  recalculate: 'update', // POST /api/activity-data/:id/recalculate
+}
+
+// Labels of the entities in the permission-matrix editor (others show their key)
+const ENTITY_LABELS: Record<string, string> = {
+  'activity-data': 'Activity Data',
+  'ai': 'AI Assistant',
+  'ai-model-registry': 'AI Model Registry',
+  'application-list': 'Application List',
+  'audit': 'Audit Log',
+  'calculations': 'Calculations',
+  'companies': 'Companies',
+  'configurations': 'Table Configurations',
+  'developer': 'Developer Tools',
+  'divisions': 'Divisions',
+  'ef-detailed-g': 'EF Detailed G',
+  'emission-factor-version': 'Emission Factor Versions',
+  'emission-factors': 'EF GWP',
+  'geo-code': 'Geo Codes',
+  'geography': 'Geography',
+  'ghg-types': 'GHG Types',
+  'gwp-restatement': 'GWP Restatement',
+  'industry-classification': 'Industry Classification',
+  'integration-marketplace': 'Integration Marketplace',
+  'mcp': 'MCP Tools',
+  'normalized-activities': 'Normalized Activities',
+  'organizations': 'Organizations',
+  'reports': 'Reports',
+  'scope': 'Scope',
+  'scope-categorisation': 'Scope Categorisation',
+  'standard-ecm-catalog': 'Standard ECM Catalog',
+  'standard-ecm-classification': 'Standard ECM Classification',
+  'standard-emission-factors': 'Standard Emission Factors',
+  'tables': 'Table Schemas',
+  'thermal-criteria': 'Thermal Criteria',
+  'unit': 'Units',
+  'unit-conversion': 'Unit Conversions',
+  'user-roles': 'User Roles',
+  'users': 'Users',
+}
+
+// Entities permissions are checked on - registered by requirePermission
+const entities = new Map<string, string>()
+
+export const registerPermissionEntity = (key: string): void => {
+  if (!entities.has(key)) {
+    entities.set(key, ENTITY_LABELS[key] || key)
+  }
+}
+
+/**
+ * Entities permissions are checked on, by label
+ */
+export const getPermissionEntities = (): PermissionEntity[] =>
+  Array.from(entities, ([key, label]) => ({ key, label })).sort((a, b) => a.label.localeCompare(b.label))
+
+/**
+ * Action a request needs - null for methods that need none (OPTIONS)
+ *
+ * @param path - path below the entity, e.g. '/rec123/promote'
+ */
+export const resolvePermissionAction = (method: string, path: string): PermissionAction | null => {
+  for (const segment of path.split('/')) {
+    if (PATH_ACTIONS[segment]) {
+      return PATH_ACTIONS[segment]
+    }
+  }
+  return METHOD_ACTIONS[method.toUpperCase()] || null
+}
+
+/**
+ * Permission matrix of a role's Permissions field (JSON text or an object)
+ *
+ * @throws PermissionMatrixError when it is not an object of entity -> known actions
+ */
+export const parsePermissionMatrix = (value: unknown): PermissionMatrix => {
+  if (value === undefined || value === null || value === '') {
+    return {}
+  }
+
+  let parsed = value
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      throw new PermissionMatrixError('Permissions must be a JSON object')
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new PermissionMatrixError('Permissions must be an object of entity -> actions')
+  }
+
+  const matrix: PermissionMatrix = {}
+  for (const [entity, actions] of Object.entries(parsed)) {
+    if (!entity.trim() || !Array.isArray(actions)) {
+      throw new PermissionMatrixError(`Permissions of "${entity}" must be an array of actions`)
+    }
+    const unknown = actions.find(action => !PERMISSION_ACTIONS.includes(action))
+    if (unknown !== undefined) {
+      throw new PermissionMatrixError(`Unknown action "${unknown}" for "${entity}" - expected one of ${PERMISSION_ACTIONS.join(', ')}`)
+    }
+    if (actions.length > 0) {
+      matrix[entity] = PERMISSION_ACTIONS.filter(action => actions.includes(action))
+    }
+  }
+  return matrix
+}
+
+/**
+ * JSON text of a permission matrix, as kept in the Permissions field
+ */
+export const serializePermissionMatrix = (matrix: PermissionMatrix): string =>
+  JSON.stringify(Object.fromEntries(Object.keys(matrix).sort().map(entity => [entity, matrix[entity]])))
+
+/**
+ * Actions any of the matrices grants
+ */
+export const mergePermissionMatrices = (matrices: PermissionMatrix[]): PermissionMatrix => {
+  const merged: PermissionMatrix = {}
+  for (const matrix of matrices) {
+    for (const [entity, actions] of Object.entries(matrix)) {
+      const granted = new Set([...(merged[entity] || []), ...actions])
+      merged[entity] = PERMISSION_ACTIONS.filter(action => granted.has(action))
+    }
+  }
+  return merged
+}
+
+export const hasPermission = (
+  permissions: EffectivePermissions,
+  entity: string,
+  action: PermissionAction
+): boolean =>
+  permissions.superuser ||
+  !!permissions.permissions[entity]?.includes(action) ||
+  !!permissions.permissions[ALL_ENTITIES]?.includes(action)
@@ -0,0 +1,287 @@
+import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
+import { ActivityDataRepository } from '../data/ActivityDataRepository'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
+import { CreateActivityDataDto, UpdateActivityDataDto } from '../types/ActivityData'
+
+const repository = new ActivityDataRepository()
+
+/**
+ * Activity Data Controller
+ * Handles all HTTP requests for the Activity Data ledger
+ */
+export class ActivityDataController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('activity-data', getAuditActor(req), id => repository.findById(id))
+  }
+
+  /**
+   * GET /api/activity-data
+   * Get all or paginated Activity Data records
+   */
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, search, sortBy, sortOrder, paginated } = req.query
+
+      // Parse filters from query parameters
+      const filters: Record<string, any> = {}
+      Object.keys(req.query).forEach(key => {
+        if (!['page', 'limit', 'search', 'filter', 'sortBy', 'sortOrder', 'paginated'].includes(key)) {
+          const value = req.query[key]
+          if (value !== undefined && value !== null && value !== '') {
+            // Handle array values (multiple query params with same name)
+            if (Array.isArray(value)) {
+              filters[key] = value
+            } else if (typeof value === 'string' && value.includes(',')) {
+              filters[key] = value.split(',')
+            } else {
+              filters[key] = value
+            }
+          }
+        }
+      })
+
+      if (paginated === 'true' || page || limit) {
+        const pageNum = page ? parseInt(page as string) : 1
+        const limitNum = limit ? parseInt(limit as string) : 50
+        const offset = (pageNum - 1) * limitNum
+
+        const result = await repository.findPaginated({
+          offset,
+          limit: limitNum,
+          search: search as string,
+          filter: parseFilterParam(req.query.filter),
+          sortBy: sortBy as string,
+          sortOrder: (sortOrder as 'asc' | 'desc') || 'asc',
+          filters: Object.keys(filters).length > 0 ? filters : undefined,
+        })
+
+        res.json({
+          success: true,
+          data: result.data,
+          pagination: {
+            total: result.total,
+            page: pageNum,
+            limit: limitNum,
+            offset: result.offset,
+            hasMore: result.hasMore,
+          },
+        })
+      } else {
+        const records = await repository.findAll({
+          filters: Object.keys(filters).length > 0 ? filters : undefined,
+        })
+
+        res.json({
+          success: true,
+          data: records,
+          count: records.length,
+        })
+      }
+    } catch (error: any) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
+      console.error('Error in ActivityDataController.getAll:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  /**
+   * GET /api/activity-data/:id
+   * Get a single Activity Data record by ID
+   */
+  async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const record = await repository.findById(id)
+
+      if (!record) {
+        res.status(404).json({
+          success: false,
+          error: 'Not found',
+          message: `Activity Data with ID ${id} not found`,
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: record,
+      })
+    } catch (error: any) {
+      console.error('Error in ActivityDataController.getById:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  /**
+   * POST /api/activity-data
+   * Create a new Activity Data record (CO2e is computed on save)
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const dto: CreateActivityDataDto = req.body
+      const record = await this.audited(req).create(() => repository.create(dto))
+
+      res.status(201).json({
+        success: true,
+        data: record,
+      })
+    } catch (error: any) {
+      console.error('Error in ActivityDataController.create:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  /**
+   * PUT /api/activity-data/:id
+   * Update an existing Activity Data record (CO2e is recomputed when inputs change)
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const dto: UpdateActivityDataDto = req.body
+      const record = await this.audited(req).update(id, () => repository.update(id, dto))
+
+      if (!record) {
+        res.status(404).json({
+          success: false,
+          error: 'Not found',
+          message: `Activity Data with ID ${id} not found`,
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: record,
+      })
+    } catch (error: any) {
+      console.error('Error in ActivityDataController.update:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  /**
+   * POST /api/activity-data/:id/recalculate
+   * Recompute the stored CO2e of a single record
+   */
+  async recalculate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const record = await this.audited(req).update(id, () => repository.recalculate(id))
+
+      if (!record) {
+        res.status(404).json({
+          success: false,
+          error: 'Not found',
+          message: `Activity Data with ID ${id} not found`,
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: record,
+      })
+    } catch (error: any) {
+      console.error('Error in ActivityDataController.recalculate:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  /**
+   * DELETE /api/activity-data/:id
+   * Delete an Activity Data record
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const deleted = await this.audited(req).delete(id, () => repository.delete(id))
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Not found',
+          message: `Activity Data with ID ${id} not found`,
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        message: 'Activity Data deleted successfully',
+      })
+    } catch (error: any) {
+      console.error('Error in ActivityDataController.delete:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  /**
+   * GET /api/activity-data/filters/values
+   * Get distinct values for filter fields
+   */
+  async getFilterValues(req: Request, res: Response): Promise<void> {
+    try {
+      const { field, limit } = req.query
+
+      if (!field || typeof field !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Bad request',
+          message: 'Field parameter is required',
+        })
+        return
+      }
+
+      const limitNum = limit ? parseInt(limit as string) : 100
+      const values = await repository.getDistinctValues(field, limitNum)
+
+      res.json({
+        success: true,
+        data: values,
+      })
+    } catch (error: any) {
+      console.error('Error in ActivityDataController.getFilterValues:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+}
+
+export const activityDataController = new ActivityDataController()
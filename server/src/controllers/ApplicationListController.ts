@@ -1,9 +1,17 @@
 import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
 import { applicationListRepository } from '../data/ApplicationListRepository'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 import { CreateApplicationListDto, UpdateApplicationListDto } from '../types/ApplicationList'
 import { QueryOptions } from '../database/interfaces/IDatabase'
 
 export class ApplicationListController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('application-list', getAuditActor(req), id => applicationListRepository.findById(id))
+  }
+
   /**
    * GET //api/application-list
    * Retrieve all Application List records with optional query parameters
@@ -27,6 +35,7 @@ export class ApplicationListController {
         sortBy: sortBy as string,
         sortOrder: sortOrder as 'asc' | 'desc' | undefined,
         search: search as string,
+        filter: parseFilterParam(req.query.filter),
         filters: {
           ...(status && { status: status as string }),
         },
@@ -56,6 +65,13 @@ export class ApplicationListController {
         })
       }
     } catch (error) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in ApplicationListController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -104,7 +120,7 @@ export class ApplicationListController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateApplicationListDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
       // Validate required fields
       if (!dto.Name) {
@@ -116,7 +132,7 @@ export class ApplicationListController {
         return
       }
 
-      const applicationList = await applicationListRepository.create(dto, userId)
+      const applicationList = await this.audited(req).create(() => applicationListRepository.create(dto, userId))
 
       res.status(201).json({
         success: true,
@@ -140,9 +156,9 @@ export class ApplicationListController {
     try {
       const { id } = req.params
       const dto: UpdateApplicationListDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
-      const applicationList = await applicationListRepository.update(id, dto, userId)
+      const applicationList = await this.audited(req).update(id, () => applicationListRepository.update(id, dto, userId))
 
       if (!applicationList) {
         res.status(404).json({
@@ -174,7 +190,7 @@ export class ApplicationListController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      const deleted = await applicationListRepository.delete(id)
+      const deleted = await this.audited(req).delete(id, () => applicationListRepository.delete(id))
 
       if (!deleted) {
         res.status(404).json({
@@ -0,0 +1,70 @@
+import { Request, Response } from 'express'
+import { getAuditLog } from '../database/audit/AuditLog'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 500
+
+export class AuditController {
+  /**
+   * GET /api/audit
+   * Audit entries, newest first
+   *
+   * Query: entity? (API path segment, e.g. standard-emission-factors), recordId?, actor?, limit?, offset?
+   */
+  async getEntries(req: Request, res: Response): Promise<void> {
+    try {
+      const { entity, recordId, actor } = req.query
+      const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string, 10) : DEFAULT_LIMIT
+      const offset = req.query.offset !== undefined ? parseInt(req.query.offset as string, 10) : 0
+
+      if (Number.isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be between 1 and ${MAX_LIMIT}`,
+        })
+        return
+      }
+      if (Number.isNaN(offset) || offset < 0) {
+        res.status(400).json({
+          success: false,
+          error: 'offset must be 0 or more',
+        })
+        return
+      }
+      if (recordId && !entity) {
+        res.status(400).json({
+          success: false,
+          error: 'entity is required with recordId',
+        })
+        return
+      }
+
+      const page = await getAuditLog().query({
+        entity: typeof entity === 'string' && entity ? entity : undefined,
+        recordId: typeof recordId === 'string' && recordId ? recordId : undefined,
+        actor: typeof actor === 'string' && actor ? actor : undefined,
+        limit,
+        offset,
+      })
+
+      res.json({
+        success: true,
+        data: page.entries,
+        pagination: {
+          total: page.total,
+          limit,
+          offset,
+          hasMore: offset + page.entries.length < page.total,
+        },
+      })
+    } catch (error: any) {
+      console.error('Error in AuditController.getEntries:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch audit entries',
+      })
+    }
+  }
+}
+
+export const auditController = new AuditController()
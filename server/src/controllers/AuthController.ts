@@ -0,0 +1,241 @@
+import { Request, Response } from 'express'
+import { getAuthService, getFrontendUrl, AuthenticationError } from '../auth/AuthService'
+import { MockIdentityProvider } from '../auth/MockIdentityProvider'
+import { getBearerToken } from '../auth/authMiddleware'
+import { getPermissionService } from '../auth/PermissionService'
+import { PERMISSION_ACTIONS, getPermissionEntities } from '../auth/permissions'
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+
+const queryString = (value: unknown): string => (typeof value === 'string' ? value : '')
+
+export class AuthController {
+  /**
+   * GET /api/auth/providers
+   * Ways to sign in
+   */
+  async getProviders(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: getAuthService().getProviders(),
+      })
+    } catch (error: any) {
+      console.error('Error in AuthController.getProviders:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch sign-in providers',
+      })
+    }
+  }
+
+  /**
+   * POST /api/auth/login
+   * Sign in with a username (or email) and password
+   *
+   * Body: { username, password }
+   */
+  async login(req: Request, res: Response): Promise<void> {
+    try {
+      const { username, password } = req.body || {}
+
+      if (typeof username !== 'string' || !username.trim() || typeof password !== 'string' || !password) {
+        res.status(400).json({
+          success: false,
+          error: 'username and password are required',
+        })
+        return
+      }
+
+      const session = await getAuthService().login(username, password)
+      console.log(`🔐 ${session.user.name} signed in`)
+
+      res.json({
+        success: true,
+        data: session,
+      })
+    } catch (error: any) {
+      if (error instanceof AuthenticationError) {
+        res.status(401).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
+      console.error('Error in AuthController.login:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to sign in',
+      })
+    }
+  }
+
+  /**
+   * POST /api/auth/logout
+   * End the session of the request's token
+   */
+  async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const token = getBearerToken(req)
+      if (token) {
+        getAuthService().logout(token)
+      }
+
+      res.json({
+        success: true,
+        message: 'Signed out',
+      })
+    } catch (error: any) {
+      console.error('Error in AuthController.logout:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to sign out',
+      })
+    }
+  }
+
+  /**
+   * GET /api/auth/me
+   * The signed-in user
+   */
+  async me(req: Request, res: Response): Promise<void> {
+    res.json({
+      success: true,
+      data: req.user,
+    })
+  }
+
+  /**
+   * GET /api/auth/permissions
+   * What the signed-in user may do, with the actions and entities of permission matrices
+   */
+  async permissions(req: Request, res: Response): Promise<void> {
+    try {
+      const permissions = await getPermissionService().getPermissions(req.user!)
+
+      res.json({
+        success: true,
+        data: {
+          ...permissions,
+          actions: PERMISSION_ACTIONS,
+          entities: getPermissionEntities(),
+        },
+      })
+    } catch (error: any) {
+      console.error('Error in AuthController.permissions:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch permissions',
+      })
+    }
+  }
+
+  /**
+   * GET /api/auth/oidc/login?provider=&returnTo=&loginHint=
+   * Redirect to the identity provider's sign-in page
+   */
+  async startProviderLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const url = await getAuthService().startProviderLogin(
+        queryString(req.query.provider),
+        queryString(req.query.returnTo) || '/',
+        queryString(req.query.loginHint) || undefined
+      )
+      res.redirect(url)
+    } catch (error: any) {
+      if (error instanceof AuthenticationError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
+      console.error('Error in AuthController.startProviderLogin:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to start sign-in',
+      })
+    }
+  }
+
+  /**
+   * GET /api/auth/oidc/callback?code=&state=
+   * Where the identity provider redirects back to. Redirects to the frontend with the
+   * session token (or the error) in the URL fragment, which is not sent to servers.
+   */
+  async completeProviderLogin(req: Request, res: Response): Promise<void> {
+    const fragment = (params: Record<string, string>) => new URLSearchParams(params).toString()
+
+    try {
+      const providerError = queryString(req.query.error_description) || queryString(req.query.error)
+      if (providerError) {
+        throw new AuthenticationError(providerError)
+      }
+
+      const { session, returnTo } = await getAuthService().completeProviderLogin(
+        queryString(req.query.state),
+        queryString(req.query.code)
+      )
+      console.log(`🔐 ${session.user.name} signed in with ${session.user.provider}`)
+
+      res.redirect(`${getFrontendUrl()}${returnTo}#${fragment({ auth_token: session.token, expires_at: session.expiresAt })}`)
+    } catch (error: any) {
+      if (!(error instanceof AuthenticationError)) {
+        console.error('Error in AuthController.completeProviderLogin:', error)
+      }
+      res.redirect(`${getFrontendUrl()}/#${fragment({ auth_error: error.message || 'Failed to sign in' })}`)
+    }
+  }
+
+  /**
+   * GET /api/auth/mock-idp/authorize?redirect_uri=&state=&nonce=&login_hint=
+   * Authorization endpoint of the mock identity provider (AUTH_OIDC_PROVIDER=mock): asks
+   * for an email, then redirects back with a code for it
+   */
+  async mockAuthorize(req: Request, res: Response): Promise<void> {
+    const provider = getAuthService().getProvider('mock')
+    if (!(provider instanceof MockIdentityProvider)) {
+      res.status(404).json({
+        success: false,
+        error: 'Mock identity provider is not enabled',
+      })
+      return
+    }
+
+    const redirectUri = queryString(req.query.redirect_uri)
+    const state = queryString(req.query.state)
+    const nonce = queryString(req.query.nonce)
+    const email = queryString(req.query.login_hint)
+
+    if (redirectUri !== getAuthService().getCallbackUrl() || !state || !nonce) {
+      res.status(400).json({
+        success: false,
+        error: 'redirect_uri, state and nonce are required, and redirect_uri must be the callback of this API',
+      })
+      return
+    }
+
+    if (!email) {
+      const hidden = { redirect_uri: redirectUri, state, nonce }
+      res.type('html').send(`<!doctype html>
+<title>Mock IdP</title>
+<form method="get" style="font-family: sans-serif; max-width: 320px; margin: 80px auto">
+  <h1>Mock IdP</h1>
+  <p>Sign in as the user with this email - no password is checked.</p>
+  ${Object.entries(hidden).map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`).join('\n  ')}
+  <input type="email" name="login_hint" placeholder="Email" required autofocus style="width: 100%">
+  <button type="submit">Sign in</button>
+</form>`)
+      return
+    }
+
+    const code = provider.authorize(email, redirectUri, nonce)
+    const callback = new URL(redirectUri)
+    callback.searchParams.set('code', code)
+    callback.searchParams.set('state', state)
+    res.redirect(callback.toString())
+  }
+}
+
+export const authController = new AuthController()
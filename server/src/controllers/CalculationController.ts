@@ -0,0 +1,90 @@
+import { Request, Response } from 'express'
+import { getEmissionCalculationService } from '../services/EmissionCalculationService'
+import { getEmissionFactorResolutionService } from '../services/EmissionFactorResolutionService'
+import { EmissionCalculationInput } from '../types/Calculation'
+import { FactorResolutionRule } from '../types/FactorResolution'
+
+/**
+ * Quantity of a JSON body - numbers sent as strings are converted, blank strings are not 0
+ */
+const parseQuantity = (value: unknown): unknown =>
+  typeof value === 'string' ? (value.trim() === '' ? NaN : Number(value)) : value
+
+export class CalculationController {
+  /**
+   * POST /api/calculations
+   * Calculate tCO2e for an activity quantity
+   *
+   * Body: { quantity, unit, normalizedActivity, emissionFactor?, geography?, reportingDate?, industryClassification? }
+   */
+  async calculate(req: Request, res: Response): Promise<void> {
+    try {
+      const input: EmissionCalculationInput = {
+        quantity: parseQuantity(req.body?.quantity) as number,
+        unit: req.body?.unit,
+        normalizedActivity: req.body?.normalizedActivity,
+        emissionFactor: req.body?.emissionFactor || undefined,
+        geography: req.body?.geography || undefined,
+        reportingDate: req.body?.reportingDate || undefined,
+        industryClassification: req.body?.industryClassification || undefined,
+      }
+
+      const result = await getEmissionCalculationService().calculate(input)
+
+      res.json({
+        success: true,
+        data: result,
+      })
+    } catch (error: any) {
+      console.error('Error in CalculationController.calculate:', error)
+      const statusCode = error?.name === 'CalculationValidationError'
+        ? 400
+        : error?.name === 'CalculationResolutionError'
+          ? 422
+          : 500
+      res.status(statusCode).json({
+        success: false,
+        error: error.message || 'Failed to calculate emissions',
+        field: error?.field,
+      })
+    }
+  }
+
+  /**
+   * GET /api/calculations/factor-resolution/explain
+   * Show which emission factor the resolution rules pick for an activity, and why
+   *
+   * Query: normalizedActivity, geography?, reportingDate?, industryClassification?, unit?, rules? (comma separated)
+   */
+  async explainFactorResolution(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = req.query.rules
+        ? String(req.query.rules).split(',').map(rule => rule.trim()).filter(Boolean) as FactorResolutionRule[]
+        : undefined
+
+      const result = await getEmissionFactorResolutionService().resolve({
+        normalizedActivity: req.query.normalizedActivity as string,
+        geography: (req.query.geography as string) || undefined,
+        reportingDate: (req.query.reportingDate as string) || undefined,
+        industryClassification: (req.query.industryClassification as string) || undefined,
+        unit: (req.query.unit as string) || undefined,
+        rules,
+      })
+
+      res.json({
+        success: true,
+        data: result,
+      })
+    } catch (error: any) {
+      console.error('Error in CalculationController.explainFactorResolution:', error)
+      const statusCode = error?.name === 'FactorResolutionValidationError' ? 400 : 500
+      res.status(statusCode).json({
+        success: false,
+        error: error.message || 'Failed to resolve emission factor',
+        field: error?.field,
+      })
+    }
+  }
+}
+
+export const calculationController = new CalculationController()
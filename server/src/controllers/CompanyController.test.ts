@@ -0,0 +1,60 @@
+import { Request, Response } from 'express'
+import { companyController } from './CompanyController'
+
+const mockCreate = jest.fn(async (dto: Record<string, any>, _userId: string) => ({ id: 'recCompany1', ...dto }))
+
+jest.mock('../data/CompanyRepository', () => ({
+  companyRepository: { create: (dto: Record<string, any>, userId: string) => mockCreate(dto, userId) },
+}))
+
+jest.mock('../database/audit/AuditLog', () => ({
+  ...jest.requireActual('../database/audit/AuditLog'),
+  getAuditLog: () => ({ writes: () => ({ create: (write: () => Promise<unknown>) => write() }) }),
+}))
+
+const bulkImport = async (companies: unknown[]) => {
+  const req = { method: 'POST', path: '/import', body: { companies }, user: { id: 'recUserAda', name: 'Ada' } } as unknown as Request
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() }
+  await companyController.bulkImport(req, res as unknown as Response)
+  return res
+}
+
+describe('CompanyController.bulkImport', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  beforeEach(() => {
+    mockCreate.mockClear()
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('creates the valid rows as the importing user, and reports the invalid ones', async () => {
+    const res = await bulkImport([
+      { isinCode: 'GB0001', companyName: 'Acme', status: 'closed' },
+      { isinCode: 'GB0002', status: 'Active' },
+      { isinCode: 'GB0003', companyName: 'Globex', colour: 'red' },
+    ])
+
+    expect(mockCreate).toHaveBeenCalledTimes(1)
+    expect(mockCreate).toHaveBeenCalledWith({ isinCode: 'GB0001', companyName: 'Acme', status: 'Closed' }, 'recUserAda')
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      success: true,
+      data: {
+        success: 1,
+        failed: 2,
+        errors: ['Row 2: companyName is required', 'Row 3: colour is not a field of this table'],
+      },
+    }))
+  })
+
+  it('refuses an empty list', async () => {
+    const res = await bulkImport([])
+    expect(res.status).toHaveBeenCalledWith(400)
+    expect(mockCreate).not.toHaveBeenCalled()
+  })
+})
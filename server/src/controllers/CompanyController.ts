@@ -1,7 +1,10 @@
 import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
+import type { CompanyRepository } from '../data/CompanyRepository'
 // Lazy import to ensure env vars are loaded first
-let companyRepository: any = null
-const getCompanyRepository = async () => {
+let companyRepository: CompanyRepository | null = null
+const getCompanyRepository = async (): Promise<CompanyRepository> => {
   if (!companyRepository) {
     const repo = await import('../data/CompanyRepository')
     companyRepository = repo.companyRepository
@@ -10,8 +13,21 @@ const getCompanyRepository = async () => {
 }
 import { CreateCompanyDto, UpdateCompanyDto } from '../types/Company'
 import { QueryOptions } from '../database/interfaces/IDatabase'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+import { getEntityFieldRules } from '../validation/validateRequest'
+import { describeProblems, validateRecord } from '../validation/fieldRules'
+
+/** Status of an imported company, capitalized: Active unless Closed */
+const importedStatus = (status: unknown): 'Active' | 'Closed' =>
+  typeof status === 'string' && status.toLowerCase() === 'closed' ? 'Closed' : 'Active'
 
 export class CompanyController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request, repo: CompanyRepository): AuditedWrites {
+    return getAuditLog().writes('companies', getAuditActor(req), id => repo.findById(id))
+  }
+
   /**
    * GET /companies
    * Retrieve all companies with optional query parameters
@@ -48,6 +64,7 @@ export class CompanyController {
         sortBy: sortBy as string,
         sortOrder: sortOrder as 'asc' | 'desc' | undefined,
         search: search as string,
+        filter: parseFilterParam(req.query.filter),
         filters: {},
       }
 
@@ -84,6 +101,13 @@ export class CompanyController {
         })
       }
     } catch (error) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       res.status(500).json({
         success: false,
         error: 'Failed to retrieve companies',
@@ -142,10 +166,10 @@ export class CompanyController {
       }
 
       // Get user from request (in real app, from auth token)
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
       const repo = await getCompanyRepository()
-      const company = await repo.create(dto, userId)
+      const company = await this.audited(req, repo).create(() => repo.create(dto, userId))
 
       res.status(201).json({
         success: true,
@@ -175,10 +199,10 @@ export class CompanyController {
       console.log(`   Request body:`, JSON.stringify(dto, null, 2))
       
       // Get user from request (in real app, from auth token)
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
       // Try to update directly - the update method will return null if not found
-      const company = await repo.update(id, dto, userId)
+      const company = await this.audited(req, repo).update(id, () => repo.update(id, dto, userId))
 
       if (!company) {
         // Check if company exists to provide better error message
@@ -232,7 +256,7 @@ export class CompanyController {
       const repo = await getCompanyRepository()
       const { id } = req.params
 
-      const deleted = await repo.delete(id)
+      const deleted = await this.audited(req, repo).delete(id, () => repo.delete(id))
 
       if (!deleted) {
         res.status(404).json({
@@ -332,29 +356,28 @@ export class CompanyController {
         failed: 0,
         errors: [] as string[],
       }
+      const userId = getAuditActor(req).id
+      const descriptor = ENTITY_DESCRIPTORS.companies
+      const rules = getEntityFieldRules(descriptor)
 
       // Import companies one by one (could be optimized with batch operations)
       for (let i = 0; i < companies.length; i++) {
         try {
-          const company = companies[i]
-          
-          // Validate required fields
-          if (!company.companyName || !company.isinCode) {
+          const row = companies[i]
+
+          // Rows are checked like the body of POST /companies, once their status is normalized
+          const { value, problems } = validateRecord(
+            rules,
+            row && typeof row === 'object' ? { ...row, status: importedStatus(row.status) } : row,
+            { allowUnknown: descriptor.extraFields }
+          )
+          if (problems.length > 0) {
             results.failed++
-            results.errors.push(`Row ${i + 1}: Missing required fields (companyName or isinCode)`)
-            console.error(`Row ${i + 1} validation failed:`, { companyName: company.companyName, isinCode: company.isinCode })
+            results.errors.push(`Row ${i + 1}: ${describeProblems(problems)}`)
+            console.error(`Row ${i + 1} validation failed:`, describeProblems(problems))
             continue
           }
-
-          // Normalize status (capitalize first letter)
-          if (company.status) {
-            company.status = company.status.charAt(0).toUpperCase() + company.status.slice(1).toLowerCase() as 'Active' | 'Closed'
-            if (company.status !== 'Active' && company.status !== 'Closed') {
-              company.status = 'Active' // Default to Active if invalid
-            }
-          } else {
-            company.status = 'Active' // Default to Active if not provided
-          }
+          const company = value as CreateCompanyDto
 
           console.log(`Importing row ${i + 1}:`, { 
             companyName: company.companyName, 
@@ -363,7 +386,7 @@ export class CompanyController {
           })
 
           // Create new company (duplicate detection can be added later)
-          await repo.createCompany(company as CreateCompanyDto, 'System')
+          await this.audited(req, repo).create(() => repo.create(company, userId))
           results.success++
           console.log(`Successfully imported row ${i + 1}`)
         } catch (error) {
@@ -1,17 +1,25 @@
 import { Request, Response } from 'express'
-import { EFDetailedGAirtableService } from '../services/EFDetailedGAirtableService'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
+import { getEFDetailedGService, EFDetailedGService } from '../database/EntityServiceFactory'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 import { CreateEFDetailedGDto, UpdateEFDetailedGDto } from '../types/EFDetailedG'
 
 export class EFDetailedGController {
-  private service: EFDetailedGAirtableService | null = null
+  private service: EFDetailedGService | null = null
 
-  private getService(): EFDetailedGAirtableService {
+  private getService(): EFDetailedGService {
     if (!this.service) {
-      this.service = new EFDetailedGAirtableService()
+      this.service = getEFDetailedGService()
     }
     return this.service
   }
 
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('ef-detailed-g', getAuditActor(req), id => this.getService().getById(id))
+  }
+
   async getAll(req: Request, res: Response): Promise<void> {
     try {
       const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined
@@ -19,6 +27,7 @@ export class EFDetailedGController {
       const sortBy = req.query.sortBy as string | undefined
       const sortOrder = (req.query.sortOrder as 'asc' | 'desc') || 'asc'
       const search = req.query.search as string | undefined
+      const filter = parseFilterParam(req.query.filter)
       const status = req.query.status as string | undefined
 
       const result = await this.getService().getAll({
@@ -27,6 +36,7 @@ export class EFDetailedGController {
         sortBy,
         sortOrder,
         search,
+        filter,
         status,
       })
 
@@ -45,6 +55,13 @@ export class EFDetailedGController {
         pagination,
       })
     } catch (error: any) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in EFDetailedGController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -82,7 +99,7 @@ export class EFDetailedGController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateEFDetailedGDto = req.body
-      const record = await this.getService().create(dto)
+      const record = await this.audited(req).create(() => this.getService().create(dto))
 
       res.status(201).json({
         success: true,
@@ -101,7 +118,7 @@ export class EFDetailedGController {
     try {
       const { id } = req.params
       const dto: UpdateEFDetailedGDto = req.body
-      const record = await this.getService().update(id, dto)
+      const record = await this.audited(req).update(id, () => this.getService().update(id, dto))
 
       res.json({
         success: true,
@@ -119,7 +136,7 @@ export class EFDetailedGController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      await this.getService().delete(id)
+      await this.audited(req).delete(id, () => this.getService().delete(id))
 
       res.json({
         success: true,
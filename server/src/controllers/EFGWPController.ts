@@ -1,9 +1,17 @@
 import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
 import { efGwpRepository } from '../data/EFGWPRepository'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 import { CreateEFGWPDto, UpdateEFGWPDto } from '../types/EFGWP'
 import { QueryOptions } from '../database/interfaces/IDatabase'
 
 export class EFGWPController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('emission-factors', getAuditActor(req), id => efGwpRepository.findById(id))
+  }
+
   /**
    * GET /emission-factors
    * Retrieve all EF GWP records with optional query parameters
@@ -28,6 +36,7 @@ export class EFGWPController {
         sortBy: sortBy as string,
         sortOrder: sortOrder as 'asc' | 'desc' | undefined,
         search: search as string,
+        filter: parseFilterParam(req.query.filter),
         filters: {
           ...(status && { status: status as string }),
           ...(greenHouseGas && { greenHouseGas: greenHouseGas as string }),
@@ -58,6 +67,13 @@ export class EFGWPController {
         })
       }
     } catch (error) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in EFGWPController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -106,9 +122,9 @@ export class EFGWPController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateEFGWPDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
       
-      const efGwp = await efGwpRepository.create(dto, userId)
+      const efGwp = await this.audited(req).create(() => efGwpRepository.create(dto, userId))
 
       res.status(201).json({
         success: true,
@@ -133,9 +149,9 @@ export class EFGWPController {
     try {
       const { id } = req.params
       const dto: UpdateEFGWPDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
       
-      const efGwp = await efGwpRepository.update(id, dto, userId)
+      const efGwp = await this.audited(req).update(id, () => efGwpRepository.update(id, dto, userId))
 
       if (!efGwp) {
         res.status(404).json({
@@ -168,7 +184,7 @@ export class EFGWPController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      const deleted = await efGwpRepository.delete(id)
+      const deleted = await this.audited(req).delete(id, () => efGwpRepository.delete(id))
 
       if (!deleted) {
         res.status(404).json({
@@ -1,9 +1,18 @@
 import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
 import { emissionFactorVersionRepository } from '../data/EmissionFactorVersionRepository'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
+import { getEmissionFactorVersionLifecycleService } from '../services/EmissionFactorVersionLifecycleService'
 import { CreateEmissionFactorVersionDto, UpdateEmissionFactorVersionDto } from '../types/EmissionFactorVersion'
 import { QueryOptions } from '../database/interfaces/IDatabase'
 
 export class EmissionFactorVersionController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('emission-factor-version', getAuditActor(req), id => emissionFactorVersionRepository.findById(id))
+  }
+
   /**
    * GET /emission-factor-version
    * Retrieve all Emission Factor Version records with optional query parameters
@@ -28,6 +37,7 @@ export class EmissionFactorVersionController {
         sortBy: sortBy as string,
         sortOrder: sortOrder as 'asc' | 'desc' | undefined,
         search: search as string,
+        filter: parseFilterParam(req.query.filter),
         filters: {
           ...(status && { status: status as string }),
           ...(category && { category: category as string }),
@@ -58,6 +68,13 @@ export class EmissionFactorVersionController {
         })
       }
     } catch (error) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in EmissionFactorVersionController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -106,7 +123,7 @@ export class EmissionFactorVersionController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateEmissionFactorVersionDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
       // Validate required fields
       if (!dto.Name) {
@@ -118,7 +135,7 @@ export class EmissionFactorVersionController {
         return
       }
 
-      const emissionFactorVersion = await emissionFactorVersionRepository.create(dto, userId)
+      const emissionFactorVersion = await this.audited(req).create(() => emissionFactorVersionRepository.create(dto, userId))
 
       res.status(201).json({
         success: true,
@@ -142,9 +159,9 @@ export class EmissionFactorVersionController {
     try {
       const { id } = req.params
       const dto: UpdateEmissionFactorVersionDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
-      const emissionFactorVersion = await emissionFactorVersionRepository.update(id, dto, userId)
+      const emissionFactorVersion = await this.audited(req).update(id, () => emissionFactorVersionRepository.update(id, dto, userId))
 
       if (!emissionFactorVersion) {
         res.status(404).json({
@@ -176,7 +193,7 @@ export class EmissionFactorVersionController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      const deleted = await emissionFactorVersionRepository.delete(id)
+      const deleted = await this.audited(req).delete(id, () => emissionFactorVersionRepository.delete(id))
 
       if (!deleted) {
         res.status(404).json({
@@ -244,6 +261,80 @@ export class EmissionFactorVersionController {
       })
     }
   }
+
+  /**
+   * GET /emission-factor-version/:id/diff?against=
+   * Compare the factors of a version with another version (default: the previous
+   * version of the same Emission Factor Set)
+   */
+  async diff(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const against = (req.query.against as string) || undefined
+
+      const diff = await getEmissionFactorVersionLifecycleService().diff(id, against)
+
+      res.json({
+        success: true,
+        data: diff,
+      })
+    } catch (error: any) {
+      if (error?.name === 'EmissionFactorVersionValidationError') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          message: error.message,
+          field: error.field,
+        })
+        return
+      }
+      console.error('Error in EmissionFactorVersionController.diff:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  /**
+   * POST /emission-factor-version/:id/promote
+   * Activate a version's factors and retire the factors of the version it supersedes
+   *
+   * Body: { supersedes?: string, dryRun?: boolean }
+   */
+  async promote(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const result = await getEmissionFactorVersionLifecycleService().promote(id, {
+        supersedes: req.body?.supersedes || undefined,
+        dryRun: req.body?.dryRun === true || req.body?.dryRun === 'true',
+        actor: getAuditActor(req),
+      })
+
+      res.json({
+        success: true,
+        data: result,
+      })
+    } catch (error: any) {
+      if (error?.name === 'EmissionFactorVersionValidationError') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          message: error.message,
+          field: error.field,
+        })
+        return
+      }
+      console.error('Error in EmissionFactorVersionController.promote:', error)
+      res.status(500).json({
+        success: false,
+        error: error?.name === 'EmissionFactorVersionPromotionError' ? 'Promotion failed' : 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        rolledBack: error?.rolledBack,
+      })
+    }
+  }
 }
 
 // Export singleton instance
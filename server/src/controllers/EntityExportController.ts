@@ -0,0 +1,107 @@
+import { Request, Response } from 'express'
+import { getEntityExportService } from '../services/EntityExportService'
+import { ExportFormat, ExportOptions, ExportValidationError } from '../types/Export'
+import { UnknownImportEntityError } from '../types/Import'
+import { FilterNode, FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+
+export class EntityExportController {
+  /**
+   * GET /api/:entity/export?format=csv|xlsx|json|parquet
+   * Stream every record of the filtered and sorted query as a file
+   *
+   * Query: format, columns? (JSON [{ key, label }] or comma-separated keys),
+   * filters? (JSON { key: value | value[] }), filter? (JSON filter tree), search?, sortBy?, sortOrder?
+   */
+  async exportRecords(req: Request, res: Response): Promise<void> {
+    let aborted = false
+    try {
+      const query = req.query as Record<string, string | undefined>
+      const parseJson = (name: string) => {
+        const value = query[name]
+        if (!value) return undefined
+        try {
+          return JSON.parse(value)
+        } catch {
+          throw new ExportValidationError(`${name} must be valid JSON`, name)
+        }
+      }
+
+      const rawColumns = query.columns?.trim().startsWith('[')
+        ? parseJson('columns')
+        : query.columns?.split(',').map(key => ({ key: key.trim() })).filter(column => column.key)
+      if (rawColumns !== undefined && !Array.isArray(rawColumns)) {
+        throw new ExportValidationError('columns must be an array', 'columns')
+      }
+      const filters = parseJson('filters')
+      if (filters !== undefined && (typeof filters !== 'object' || filters === null || Array.isArray(filters))) {
+        throw new ExportValidationError('filters must be an object', 'filters')
+      }
+      let filter: FilterNode | undefined
+      try {
+        filter = parseFilterParam(req.query.filter)
+      } catch (error) {
+        if (error instanceof FilterSyntaxError) {
+          throw new ExportValidationError(error.message, 'filter')
+        }
+        throw error
+      }
+
+      const options: ExportOptions = {
+        format: ((query.format || 'csv').toLowerCase()) as ExportFormat,
+        columns: rawColumns?.map((column: any) => typeof column === 'string' ? { key: column } : column),
+        filters,
+        filter,
+        search: query.search || undefined,
+        sortBy: query.sortBy || undefined,
+        sortOrder: query.sortOrder === 'desc' ? 'desc' : 'asc',
+      }
+
+      const service = getEntityExportService()
+      const prepared = await service.prepare(req.params.entity, options)
+      const writer = service.createWriter(prepared, res)
+
+      res.setHeader('Content-Type', writer.contentType)
+      res.setHeader('Content-Disposition', `attachment; filename="${prepared.filename}"`)
+      res.setHeader('Cache-Control', 'no-store')
+      if (prepared.skippedColumns.length > 0) {
+        res.setHeader('X-Export-Skipped-Columns', encodeURIComponent(prepared.skippedColumns.join(',')))
+      }
+
+      req.on('close', () => {
+        if (!res.writableFinished) aborted = true
+      })
+
+      const count = await service.stream(prepared, writer, () => aborted)
+      console.log(`📤 Exported ${count} ${prepared.entityTable.label} as ${prepared.format}${aborted ? ' (client disconnected)' : ''}`)
+    } catch (error: any) {
+      if (res.headersSent) {
+        // Part of the file is already out - cut the response so the download fails visibly
+        console.error('Error in EntityExportController.exportRecords while streaming:', error)
+        res.destroy(error)
+        return
+      }
+      if (error instanceof UnknownImportEntityError) {
+        res.status(404).json({
+          success: false,
+          error: `Export is not supported for "${req.params.entity}"`,
+        })
+        return
+      }
+      if (error instanceof ExportValidationError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+          field: error.field,
+        })
+        return
+      }
+      console.error('Error in EntityExportController.exportRecords:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to export records',
+      })
+    }
+  }
+}
+
+export const entityExportController = new EntityExportController()
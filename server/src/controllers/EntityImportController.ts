@@ -0,0 +1,116 @@
+import { Request, Response } from 'express'
+import { getEntityImportService } from '../services/EntityImportService'
+import { getAuditActor, getAuditLog } from '../database/audit/AuditLog'
+import { ImportOptions, ImportValidationError, UnknownImportEntityError } from '../types/Import'
+
+export class EntityImportController {
+  /**
+   * GET /api/:entity/import/fields
+   * Importable fields of an entity with their types, required flags and options
+   */
+  async getFields(req: Request, res: Response): Promise<void> {
+    try {
+      const fields = await getEntityImportService().getFieldDefinitions(req.params.entity)
+
+      res.json({
+        success: true,
+        data: fields,
+      })
+    } catch (error: any) {
+      if (error instanceof UnknownImportEntityError) {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
+      console.error('Error in EntityImportController.getFields:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch import fields',
+      })
+    }
+  }
+
+  /**
+   * POST /api/:entity/import
+   * Validate rows against the entity's schema and create the valid ones
+   *
+   * Multipart: file (CSV or XLSX), dryRun?, columnMapping? (JSON), sheet?
+   * JSON: { rows: object[], dryRun?, columnMapping? }
+   */
+  async importRecords(req: Request, res: Response): Promise<void> {
+    try {
+      const entity = req.params.entity
+      const body = req.body || {}
+
+      let columnMapping = body.columnMapping
+      if (typeof columnMapping === 'string' && columnMapping !== '') {
+        try {
+          columnMapping = JSON.parse(columnMapping)
+        } catch {
+          throw new ImportValidationError('columnMapping must be valid JSON', 'columnMapping')
+        }
+      }
+
+      const options: ImportOptions = {
+        dryRun: body.dryRun === true || body.dryRun === 'true',
+        columnMapping: columnMapping || undefined,
+        sheet: body.sheet || undefined,
+      }
+
+      const service = getEntityImportService()
+      let report
+      if (req.file) {
+        report = await service.importFile(
+          entity,
+          { buffer: req.file.buffer, filename: req.file.originalname, mimeType: req.file.mimetype },
+          options
+        )
+      } else if (Array.isArray(body.rows)) {
+        report = await service.importJson(entity, body.rows, options)
+      } else {
+        res.status(400).json({
+          success: false,
+          error: 'A CSV or XLSX file (multipart field "file") or a JSON body with "rows" is required',
+        })
+        return
+      }
+
+      if (!report.dryRun) {
+        await getAuditLog().recordImport(getAuditActor(req), entity, report.rows)
+      }
+
+      res.json({
+        success: true,
+        data: report,
+        message: report.dryRun
+          ? `Dry run: ${report.summary.valid} of ${report.summary.total} rows are valid`
+          : `Imported ${report.summary.created} records. ${report.summary.invalid + report.summary.failed} rows were not imported.`,
+      })
+    } catch (error: any) {
+      if (error instanceof UnknownImportEntityError) {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
+      if (error instanceof ImportValidationError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+          field: error.field,
+        })
+        return
+      }
+      console.error('Error in EntityImportController.importRecords:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to import records',
+      })
+    }
+  }
+}
+
+export const entityImportController = new EntityImportController()
@@ -1,9 +1,17 @@
 import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
 import { ghgTypeRepository } from '../data/GHGTypeRepository'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 import { CreateGHGTypeDto, UpdateGHGTypeDto } from '../types/GHGType'
 import { QueryOptions } from '../database/interfaces/IDatabase'
 
 export class GHGTypeController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('ghg-types', getAuditActor(req), id => ghgTypeRepository.findById(id))
+  }
+
   /**
    * GET /ghg-types
    * Retrieve all GHG Type records with optional query parameters
@@ -28,6 +36,7 @@ export class GHGTypeController {
         sortBy: sortBy as string,
         sortOrder: sortOrder as 'asc' | 'desc' | undefined,
         search: search as string,
+        filter: parseFilterParam(req.query.filter),
         filters: {
           ...(status && { status: status as string }),
           ...(category && { category: category as string }),
@@ -58,6 +67,13 @@ export class GHGTypeController {
         })
       }
     } catch (error) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in GHGTypeController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -106,7 +122,7 @@ export class GHGTypeController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateGHGTypeDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
       // Validate required fields
       if (!dto.Name) {
@@ -118,7 +134,7 @@ export class GHGTypeController {
         return
       }
 
-      const ghgType = await ghgTypeRepository.create(dto, userId)
+      const ghgType = await this.audited(req).create(() => ghgTypeRepository.create(dto, userId))
 
       res.status(201).json({
         success: true,
@@ -142,9 +158,9 @@ export class GHGTypeController {
     try {
       const { id } = req.params
       const dto: UpdateGHGTypeDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
-      const ghgType = await ghgTypeRepository.update(id, dto, userId)
+      const ghgType = await this.audited(req).update(id, () => ghgTypeRepository.update(id, dto, userId))
 
       if (!ghgType) {
         res.status(404).json({
@@ -176,7 +192,7 @@ export class GHGTypeController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      const deleted = await ghgTypeRepository.delete(id)
+      const deleted = await this.audited(req).delete(id, () => ghgTypeRepository.delete(id))
 
       if (!deleted) {
         res.status(404).json({
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express'
+import { getGWPRestatementService } from '../services/GWPRestatementService'
+import { GWPRestatementInput } from '../types/GWPRestatement'
+
+export class GWPRestatementController {
+  /**
+   * GET /api/gwp-restatement/versions
+   * Assessment report versions available in the EF GWP table
+   */
+  async getVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const versions = await getGWPRestatementService().getVersions()
+
+      res.json({
+        success: true,
+        data: versions,
+      })
+    } catch (error: any) {
+      console.error('Error in GWPRestatementController.getVersions:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch GWP versions',
+      })
+    }
+  }
+
+  /**
+   * POST /api/gwp-restatement
+   * Restate per-gas emission amounts under each IPCC assessment report
+   *
+   * Body: { targetVersion, sourceVersion?, versions?, efDetailedG?, emissionFactor?, gases?, quantity? }
+   */
+  async restate(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body || {}
+      const input: GWPRestatementInput = {
+        targetVersion: body.targetVersion,
+        sourceVersion: body.sourceVersion || undefined,
+        versions: Array.isArray(body.versions) ? body.versions : undefined,
+        efDetailedG: Array.isArray(body.efDetailedG) ? body.efDetailedG : (body.efDetailedG ? [body.efDetailedG] : undefined),
+        emissionFactor: body.emissionFactor || undefined,
+        gases: Array.isArray(body.gases)
+          ? body.gases.map((gas: any) => ({
+              ghgType: gas?.ghgType,
+              amount: typeof gas?.amount === 'string' ? Number(gas.amount) : gas?.amount,
+            }))
+          : undefined,
+        quantity: typeof body.quantity === 'string' ? Number(body.quantity) : body.quantity,
+      }
+
+      const result = await getGWPRestatementService().restate(input)
+
+      res.json({
+        success: true,
+        data: result,
+      })
+    } catch (error: any) {
+      console.error('Error in GWPRestatementController.restate:', error)
+      const statusCode = error?.name === 'GWPRestatementValidationError'
+        ? 400
+        : error?.name === 'GWPRestatementResolutionError'
+          ? 422
+          : 500
+      res.status(statusCode).json({
+        success: false,
+        error: error.message || 'Failed to restate GWP',
+        field: error?.field,
+      })
+    }
+  }
+}
+
+export const gwpRestatementController = new GWPRestatementController()
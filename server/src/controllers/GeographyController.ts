@@ -1,9 +1,17 @@
 import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
 import { geographyRepository } from '../data/GeographyRepository'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 import { CreateGeographyDto, UpdateGeographyDto } from '../types/Geography'
 import { QueryOptions } from '../database/interfaces/IDatabase'
 
 export class GeographyController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('geography', getAuditActor(req), id => geographyRepository.findById(id))
+  }
+
   /**
    * GET /geography
    * Retrieve all geography records with optional query parameters
@@ -28,6 +36,7 @@ export class GeographyController {
         sortBy: sortBy as string,
         sortOrder: sortOrder as 'asc' | 'desc' | undefined,
         search: search as string,
+        filter: parseFilterParam(req.query.filter),
         filters: {
           ...(status && { status: status as string }),
           ...(country && { country: country as string }),
@@ -58,6 +67,13 @@ export class GeographyController {
         })
       }
     } catch (error) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in GeographyController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -106,7 +122,7 @@ export class GeographyController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateGeographyDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
       // Validate required fields
       if (!dto.regionName || !dto.country) {
@@ -118,7 +134,7 @@ export class GeographyController {
         return
       }
 
-      const geography = await geographyRepository.create(dto, userId)
+      const geography = await this.audited(req).create(() => geographyRepository.create(dto, userId))
 
       res.status(201).json({
         success: true,
@@ -142,9 +158,9 @@ export class GeographyController {
     try {
       const { id } = req.params
       const dto: UpdateGeographyDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
-      const geography = await geographyRepository.update(id, dto, userId)
+      const geography = await this.audited(req).update(id, () => geographyRepository.update(id, dto, userId))
 
       if (!geography) {
         res.status(404).json({
@@ -176,7 +192,7 @@ export class GeographyController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      const deleted = await geographyRepository.delete(id)
+      const deleted = await this.audited(req).delete(id, () => geographyRepository.delete(id))
 
       if (!deleted) {
         res.status(404).json({
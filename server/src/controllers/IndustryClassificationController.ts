@@ -1,5 +1,8 @@
 import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
 import { IndustryClassificationRepository } from '../data/IndustryClassificationRepository'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 import { CreateIndustryClassificationDto, UpdateIndustryClassificationDto } from '../types/IndustryClassification'
 
 const repository = new IndustryClassificationRepository()
@@ -9,6 +12,11 @@ const repository = new IndustryClassificationRepository()
  * Handles all HTTP requests for Industry Classification
  */
 export class IndustryClassificationController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('industry-classification', getAuditActor(req), id => repository.findById(id))
+  }
+
   /**
    * GET /api/industry-classification
    * Get all or paginated Industry Classification records
@@ -28,7 +36,7 @@ export class IndustryClassificationController {
         // Parse filters from query parameters
         const filters: Record<string, any> = {}
         Object.keys(req.query).forEach(key => {
-          if (!['page', 'limit', 'sortBy', 'sortOrder', 'search', 'paginated'].includes(key)) {
+          if (!['page', 'limit', 'sortBy', 'sortOrder', 'search', 'filter', 'paginated'].includes(key)) {
             const value = req.query[key]
             if (value !== undefined && value !== null && value !== '') {
               // Handle array values (multiple query params with same key)
@@ -48,6 +56,7 @@ export class IndustryClassificationController {
           sortOrder,
           filters: Object.keys(filters).length > 0 ? filters : undefined,
           search,
+          filter: parseFilterParam(req.query.filter),
         })
 
         res.json({
@@ -64,6 +73,13 @@ export class IndustryClassificationController {
         })
       }
     } catch (error: any) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in IndustryClassificationController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -109,7 +125,7 @@ export class IndustryClassificationController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateIndustryClassificationDto = req.body
-      const industryClassification = await repository.create(dto)
+      const industryClassification = await this.audited(req).create(() => repository.create(dto))
 
       res.status(201).json({
         success: true,
@@ -132,7 +148,7 @@ export class IndustryClassificationController {
     try {
       const { id } = req.params
       const dto: UpdateIndustryClassificationDto = req.body
-      const industryClassification = await repository.update(id, dto)
+      const industryClassification = await this.audited(req).update(id, () => repository.update(id, dto))
 
       if (!industryClassification) {
         res.status(404).json({
@@ -162,7 +178,7 @@ export class IndustryClassificationController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      await repository.delete(id)
+      await this.audited(req).delete(id, () => repository.delete(id))
 
       res.json({
         success: true,
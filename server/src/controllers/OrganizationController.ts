@@ -0,0 +1,152 @@
+import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
+import { getOrganizationService, OrganizationService } from '../database/EntityServiceFactory'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
+
+export class OrganizationController {
+  private service: OrganizationService | null = null
+
+  private getService(): OrganizationService {
+    if (!this.service) {
+      this.service = getOrganizationService()
+    }
+    return this.service
+  }
+
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('organizations', getAuditActor(req), id => this.getService().getById(id))
+  }
+
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+      const sortBy = req.query.sortBy as string | undefined
+      const sortOrder = (req.query.sortOrder as 'asc' | 'desc') || 'asc'
+      const search = req.query.search as string | undefined
+      const filter = parseFilterParam(req.query.filter)
+      const status = req.query.status as string | undefined
+
+      const result = await this.getService().getAll({
+        offset,
+        limit,
+        sortBy,
+        sortOrder,
+        search,
+        filter,
+        status,
+      })
+
+      const pagination = limit !== undefined && offset !== undefined
+        ? {
+            total: result.total,
+            limit,
+            offset,
+            hasMore: offset + limit < result.total,
+          }
+        : undefined
+
+      res.json({
+        success: true,
+        data: result.data,
+        pagination,
+      })
+    } catch (error: any) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
+      console.error('Error in OrganizationController.getAll:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch organizations',
+      })
+    }
+  }
+
+  async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const record = await this.getService().getById(id)
+
+      if (!record) {
+        res.status(404).json({
+          success: false,
+          error: 'Organization not found',
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: record,
+      })
+    } catch (error: any) {
+      console.error('Error in OrganizationController.getById:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch organization',
+      })
+    }
+  }
+
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const dto = req.body
+      const record = await this.audited(req).create(() => this.getService().create(dto))
+
+      res.status(201).json({
+        success: true,
+        data: record,
+      })
+    } catch (error: any) {
+      console.error('Error in OrganizationController.create:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to create organization',
+      })
+    }
+  }
+
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const dto = req.body
+      const record = await this.audited(req).update(id, () => this.getService().update(id, dto))
+
+      res.json({
+        success: true,
+        data: record,
+      })
+    } catch (error: any) {
+      console.error('Error in OrganizationController.update:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update organization',
+      })
+    }
+  }
+
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      await this.audited(req).delete(id, () => this.getService().delete(id))
+
+      res.json({
+        success: true,
+        message: 'Organization deleted successfully',
+      })
+    } catch (error: any) {
+      console.error('Error in OrganizationController.delete:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to delete organization',
+      })
+    }
+  }
+}
@@ -2,6 +2,9 @@
  * Preferences Controller
  * 
  * HTTP API endpoints for user preferences
+ *
+ * Always those of the signed-in user (req.user) - the :userId of a path must be their ID
+ * (requireOwnUser).
  */
 
 import { Request, Response } from 'express'
@@ -12,6 +15,32 @@ import {
   PreferenceRecord,
 } from '../types/Preferences'
 
+/**
+ * Filter of the namespace, tableId, scopeId, key, visibility and expired query parameters
+ */
+function parseFilter(req: Request): PreferenceFilter | undefined {
+  const filter: PreferenceFilter = {}
+  if (req.query.namespace) {
+    filter.namespace = req.query.namespace as any
+  }
+  if (req.query.tableId) {
+    filter.tableId = req.query.tableId as string
+  }
+  if (req.query.scopeId) {
+    filter.scopeId = req.query.scopeId as string
+  }
+  if (req.query.key) {
+    filter.key = req.query.key as string
+  }
+  if (req.query.visibility) {
+    filter.visibility = req.query.visibility as any
+  }
+  if (req.query.expired === 'true') {
+    filter.expired = true
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined
+}
+
 export class PreferencesController {
   /**
    * GET /api/preferences/:userId
@@ -19,38 +48,10 @@ export class PreferencesController {
    */
   async getAll(req: Request, res: Response): Promise<void> {
     try {
-      const userId = req.params.userId || req.query.userId as string || req.headers['x-user-id'] as string
-
-      if (!userId) {
-        res.status(400).json({
-          success: false,
-          error: 'User ID is required. Provide userId param, query param, or X-User-Id header.',
-        })
-        return
-      }
-
-      const filter: PreferenceFilter = {}
-      if (req.query.namespace) {
-        filter.namespace = req.query.namespace as any
-      }
-      if (req.query.tableId) {
-        filter.tableId = req.query.tableId as string
-      }
-      if (req.query.scopeId) {
-        filter.scopeId = req.query.scopeId as string
-      }
-      if (req.query.key) {
-        filter.key = req.query.key as string
-      }
-      if (req.query.visibility) {
-        filter.visibility = req.query.visibility as any
-      }
-      if (req.query.expired === 'true') {
-        filter.expired = true
-      }
+      const userId = req.user!.id
 
       const service = getPreferencesService()
-      const result = await service.getAll(userId, Object.keys(filter).length > 0 ? filter : undefined)
+      const result = await service.getAll(userId, parseFilter(req))
 
       res.json({
         success: true,
@@ -66,22 +67,46 @@ export class PreferencesController {
     }
   }
 
+  /**
+   * GET /api/preferences/shared
+   * Get the preferences shared with the signed-in user: global ones, and the org ones of
+   * their organization
+   */
+  async getShared(req: Request, res: Response): Promise<void> {
+    try {
+      const service = getPreferencesService()
+      const result = await service.getShared(parseFilter(req))
+
+      res.json({
+        success: true,
+        data: result.records,
+        total: result.total,
+      })
+    } catch (error) {
+      console.error('Error getting shared preferences:', error)
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get shared preferences',
+      })
+    }
+  }
+
   /**
    * GET /api/preferences/:userId/:namespace/:key
    * Get a single preference
    */
   async get(req: Request, res: Response): Promise<void> {
     try {
-      const userId = req.params.userId || req.headers['x-user-id'] as string
+      const userId = req.user!.id
       const namespace = req.params.namespace as PreferenceRecord['namespace']
       const key = req.params.key
       const tableId = req.query.tableId as string | undefined
       const scopeId = req.query.scopeId as string | undefined
 
-      if (!userId || !namespace || !key) {
+      if (!namespace || !key) {
         res.status(400).json({
           success: false,
-          error: 'userId, namespace, and key are required',
+          error: 'namespace and key are required',
         })
         return
       }
@@ -116,15 +141,15 @@ export class PreferencesController {
    */
   async set(req: Request, res: Response): Promise<void> {
     try {
-      const userId = req.params.userId || req.body.userId || req.headers['x-user-id'] as string
+      const userId = req.user!.id
       const namespace = (req.params.namespace || req.body.namespace) as PreferenceRecord['namespace']
       const key = req.params.key || req.body.key
       const { value, type, tableId, scopeId, visibility, expiresAt, ttl, overwrite } = req.body
 
-      if (!userId || !namespace || !key || value === undefined || !type) {
+      if (!namespace || !key || value === undefined || !type) {
         res.status(400).json({
           success: false,
-          error: 'userId, namespace, key, value, and type are required',
+          error: 'namespace, key, value, and type are required',
         })
         return
       }
@@ -170,16 +195,16 @@ export class PreferencesController {
    */
   async delete(req: Request, res: Response): Promise<void> {
     try {
-      const userId = req.params.userId || req.headers['x-user-id'] as string
+      const userId = req.user!.id
       const namespace = req.params.namespace as PreferenceRecord['namespace']
       const key = req.params.key
       const tableId = req.query.tableId as string | undefined
       const scopeId = req.query.scopeId as string | undefined
 
-      if (!userId || !namespace || !key) {
+      if (!namespace || !key) {
         res.status(400).json({
           success: false,
-          error: 'userId, namespace, and key are required',
+          error: 'namespace and key are required',
         })
         return
       }
@@ -214,15 +239,7 @@ export class PreferencesController {
    */
   async deleteAll(req: Request, res: Response): Promise<void> {
     try {
-      const userId = req.params.userId || req.headers['x-user-id'] as string
-
-      if (!userId) {
-        res.status(400).json({
-          success: false,
-          error: 'User ID is required',
-        })
-        return
-      }
+      const userId = req.user!.id
 
       const filter: PreferenceFilter = {}
       if (req.query.namespace) {
@@ -0,0 +1,60 @@
+import { Request, Response } from 'express'
+import { getGHGInventoryReportService } from '../services/GHGInventoryReportService'
+import { GHGInventoryReportFormat, GHG_INVENTORY_REPORT_FORMATS } from '../types/GHGInventoryReport'
+
+export class ReportController {
+  /**
+   * GET /api/reports/ghg-inventory
+   * GHG Protocol inventory for a company and reporting year
+   *
+   * Query: company (record ID or name), year, format (json | csv | html, default json)
+   */
+  async ghgInventory(req: Request, res: Response): Promise<void> {
+    try {
+      const format = String(req.query.format || 'json').toLowerCase() as GHGInventoryReportFormat
+      if (!GHG_INVENTORY_REPORT_FORMATS.includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: `format must be one of: ${GHG_INVENTORY_REPORT_FORMATS.join(', ')}`,
+          field: 'format',
+        })
+        return
+      }
+
+      const service = getGHGInventoryReportService()
+      const report = await service.generate({
+        company: typeof req.query.company === 'string' ? req.query.company : '',
+        year: Number(req.query.year),
+      })
+
+      const fileName = `ghg-inventory-${report.company.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${report.year}`
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`)
+        res.send(service.toCsv(report))
+        return
+      }
+
+      if (format === 'html') {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8')
+        res.send(service.toHtml(report))
+        return
+      }
+
+      res.json({
+        success: true,
+        data: report,
+      })
+    } catch (error: any) {
+      console.error('Error in ReportController.ghgInventory:', error)
+      res.status(error?.name === 'ReportValidationError' ? 400 : 500).json({
+        success: false,
+        error: error.message || 'Failed to generate GHG inventory report',
+        field: error?.field,
+      })
+    }
+  }
+}
+
+export const reportController = new ReportController()
@@ -1,17 +1,27 @@
 import { Request, Response } from 'express'
-import { StandardEmissionFactorAirtableService } from '../services/StandardEmissionFactorAirtableService'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
+import { getStandardEmissionFactorService, StandardEmissionFactorService } from '../database/EntityServiceFactory'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 import { CreateStandardEmissionFactorDto, UpdateStandardEmissionFactorDto } from '../types/StandardEmissionFactor'
+import { getStandardEmissionFactorImportService } from '../services/StandardEmissionFactorImportService'
+import { StandardEmissionFactorImportValidationError } from '../types/StandardEmissionFactorImport'
 
 export class StandardEmissionFactorController {
-  private service: StandardEmissionFactorAirtableService | null = null
+  private service: StandardEmissionFactorService | null = null
 
-  private getService(): StandardEmissionFactorAirtableService {
+  private getService(): StandardEmissionFactorService {
     if (!this.service) {
-      this.service = new StandardEmissionFactorAirtableService()
+      this.service = getStandardEmissionFactorService()
     }
     return this.service
   }
 
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('standard-emission-factors', getAuditActor(req), id => this.getService().getById(id))
+  }
+
   /**
    * GET /api/standard-emission-factors
    * Get all Standard Emission Factors with pagination, filtering, and sorting
@@ -23,6 +33,7 @@ export class StandardEmissionFactorController {
       const sortBy = req.query.sortBy as string | undefined
       const sortOrder = (req.query.sortOrder as 'asc' | 'desc') || 'asc'
       const search = req.query.search as string | undefined
+      const filter = parseFilterParam(req.query.filter)
       const status = req.query.status as string | undefined
 
       const result = await this.getService().getAll({
@@ -31,6 +42,7 @@ export class StandardEmissionFactorController {
         sortBy,
         sortOrder,
         search,
+        filter,
         status,
       })
 
@@ -49,6 +61,13 @@ export class StandardEmissionFactorController {
         pagination,
       })
     } catch (error: any) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in StandardEmissionFactorController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -94,7 +113,7 @@ export class StandardEmissionFactorController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateStandardEmissionFactorDto = req.body
-      const record = await this.getService().create(dto)
+      const record = await this.audited(req).create(() => this.getService().create(dto))
 
       res.status(201).json({
         success: true,
@@ -117,7 +136,7 @@ export class StandardEmissionFactorController {
     try {
       const { id } = req.params
       const dto: UpdateStandardEmissionFactorDto = req.body
-      const record = await this.getService().update(id, dto)
+      const record = await this.audited(req).update(id, () => this.getService().update(id, dto))
 
       res.json({
         success: true,
@@ -139,7 +158,7 @@ export class StandardEmissionFactorController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      await this.getService().delete(id)
+      await this.audited(req).delete(id, () => this.getService().delete(id))
 
       res.json({
         success: true,
@@ -185,5 +204,84 @@ export class StandardEmissionFactorController {
       })
     }
   }
-}
 
+  /**
+   * POST /api/standard-emission-factors/import
+   * Import a DEFRA/EPA-style dataset from a CSV or XLSX file (multipart field "file")
+   *
+   * Form fields: dryRun (default true - pass "false" to write), createMissingUnits,
+   * columnMapping (JSON: source column -> field), defaults (JSON: field -> value), sheet
+   */
+  async importFactors(req: Request, res: Response): Promise<void> {
+    try {
+      // multer stores the upload in req.file
+      const file = req.file
+      if (!file) {
+        res.status(400).json({
+          success: false,
+          error: 'A CSV or XLSX file is required (multipart field "file")',
+        })
+        return
+      }
+
+      const parseJson = (name: string) => {
+        const value = req.body?.[name]
+        if (value === undefined || value === '') return undefined
+        if (typeof value !== 'string') return value
+        try {
+          return JSON.parse(value)
+        } catch {
+          throw new StandardEmissionFactorImportValidationError(`${name} must be valid JSON`, name)
+        }
+      }
+
+      const report = await getStandardEmissionFactorImportService().import(
+        { buffer: file.buffer, filename: file.originalname, mimeType: file.mimetype },
+        {
+          dryRun: req.body?.dryRun !== 'false' && req.body?.dryRun !== false,
+          createMissingUnits: req.body?.createMissingUnits === 'true' || req.body?.createMissingUnits === true,
+          columnMapping: parseJson('columnMapping'),
+          defaults: parseJson('defaults'),
+          sheet: req.body?.sheet || undefined,
+        }
+      )
+
+      if (!report.dryRun) {
+        const actor = getAuditActor(req)
+        for (const unit of report.createdUnits) {
+          await getAuditLog().record({
+            actor,
+            entity: 'unit',
+            recordId: unit.id,
+            action: 'create',
+            before: null,
+            after: { Name: unit.name },
+          })
+        }
+        await getAuditLog().recordImport(actor, 'standard-emission-factors', report.rows)
+      }
+
+      res.json({
+        success: true,
+        data: report,
+        message: report.dryRun
+          ? `Dry run: ${report.summary.valid} of ${report.summary.total} rows are valid`
+          : `Imported ${report.summary.created} Standard Emission Factors. ${report.summary.invalid + report.summary.failed} rows were not imported.`,
+      })
+    } catch (error: any) {
+      if (error instanceof StandardEmissionFactorImportValidationError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+          field: error.field,
+        })
+        return
+      }
+      console.error('Error in StandardEmissionFactorController.importFactors:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to import Standard Emission Factors',
+      })
+    }
+  }
+}
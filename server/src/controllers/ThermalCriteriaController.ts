@@ -1,16 +1,24 @@
 import { Request, Response } from 'express'
-import { ThermalCriteriaAirtableService } from '../services/ThermalCriteriaAirtableService'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
+import { getThermalCriteriaService, ThermalCriteriaService } from '../database/EntityServiceFactory'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 
 export class ThermalCriteriaController {
-  private service: ThermalCriteriaAirtableService | null = null
+  private service: ThermalCriteriaService | null = null
 
-  private getService(): ThermalCriteriaAirtableService {
+  private getService(): ThermalCriteriaService {
     if (!this.service) {
-      this.service = new ThermalCriteriaAirtableService()
+      this.service = getThermalCriteriaService()
     }
     return this.service
   }
 
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('thermal-criteria', getAuditActor(req), id => this.getService().getById(id))
+  }
+
   async getAll(req: Request, res: Response): Promise<void> {
     try {
       const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined
@@ -18,6 +26,7 @@ export class ThermalCriteriaController {
       const sortBy = req.query.sortBy as string | undefined
       const sortOrder = (req.query.sortOrder as 'asc' | 'desc') || 'asc'
       const search = req.query.search as string | undefined
+      const filter = parseFilterParam(req.query.filter)
       const status = req.query.status as string | undefined
 
       const result = await this.getService().getAll({
@@ -26,6 +35,7 @@ export class ThermalCriteriaController {
         sortBy,
         sortOrder,
         search,
+        filter,
         status,
       })
 
@@ -44,6 +54,13 @@ export class ThermalCriteriaController {
         pagination,
       })
     } catch (error: any) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in ThermalCriteriaController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -81,7 +98,7 @@ export class ThermalCriteriaController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto = req.body
-      const record = await this.getService().create(dto)
+      const record = await this.audited(req).create(() => this.getService().create(dto))
 
       res.status(201).json({
         success: true,
@@ -100,7 +117,7 @@ export class ThermalCriteriaController {
     try {
       const { id } = req.params
       const dto = req.body
-      const record = await this.getService().update(id, dto)
+      const record = await this.audited(req).update(id, () => this.getService().update(id, dto))
 
       res.json({
         success: true,
@@ -118,7 +135,7 @@ export class ThermalCriteriaController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      await this.getService().delete(id)
+      await this.audited(req).delete(id, () => this.getService().delete(id))
 
       res.json({
         success: true,
@@ -1,17 +1,26 @@
 import { Request, Response } from 'express'
-import { UnitConversionAirtableService } from '../services/UnitConversionAirtableService'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
+import { getUnitConversionService, UnitConversionService } from '../database/EntityServiceFactory'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
+import { getUnitConversionGraphService } from '../services/UnitConversionGraphService'
 import { CreateUnitConversionDto, UpdateUnitConversionDto } from '../types/UnitConversion'
 
 export class UnitConversionController {
-  private service: UnitConversionAirtableService | null = null
+  private service: UnitConversionService | null = null
 
-  private getService(): UnitConversionAirtableService {
+  private getService(): UnitConversionService {
     if (!this.service) {
-      this.service = new UnitConversionAirtableService()
+      this.service = getUnitConversionService()
     }
     return this.service
   }
 
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('unit-conversion', getAuditActor(req), id => this.getService().getById(id))
+  }
+
   async getAll(req: Request, res: Response): Promise<void> {
     try {
       const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined
@@ -19,6 +28,7 @@ export class UnitConversionController {
       const sortBy = req.query.sortBy as string | undefined
       const sortOrder = (req.query.sortOrder as 'asc' | 'desc') || 'asc'
       const search = req.query.search as string | undefined
+      const filter = parseFilterParam(req.query.filter)
       const status = req.query.status as string | undefined
 
       const result = await this.getService().getAll({
@@ -27,6 +37,7 @@ export class UnitConversionController {
         sortBy,
         sortOrder,
         search,
+        filter,
         status,
       })
 
@@ -45,6 +56,13 @@ export class UnitConversionController {
         pagination,
       })
     } catch (error: any) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in UnitConversionController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -82,7 +100,7 @@ export class UnitConversionController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateUnitConversionDto = req.body
-      const record = await this.getService().create(dto)
+      const record = await this.audited(req).create(() => this.getService().create(dto))
 
       res.status(201).json({
         success: true,
@@ -101,7 +119,7 @@ export class UnitConversionController {
     try {
       const { id } = req.params
       const dto: UpdateUnitConversionDto = req.body
-      const record = await this.getService().update(id, dto)
+      const record = await this.audited(req).update(id, () => this.getService().update(id, dto))
 
       res.json({
         success: true,
@@ -119,7 +137,7 @@ export class UnitConversionController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      await this.getService().delete(id)
+      await this.audited(req).delete(id, () => this.getService().delete(id))
 
       res.json({
         success: true,
@@ -161,5 +179,46 @@ export class UnitConversionController {
       })
     }
   }
-}
 
+  /**
+   * GET /api/unit-conversion/convert?value=&from=&to=&activityDensity=
+   * Convert a value between two units through the shortest chain of conversions
+   */
+  async convert(req: Request, res: Response): Promise<void> {
+    try {
+      const rawValue = req.query.value as string | undefined
+      const result = await getUnitConversionGraphService().convert({
+        value: rawValue === undefined || rawValue === '' ? NaN : Number(rawValue),
+        from: (req.query.from as string) || '',
+        to: (req.query.to as string) || '',
+        activityDensity: (req.query.activityDensity as string) || undefined,
+      })
+
+      res.json({
+        success: true,
+        data: result,
+      })
+    } catch (error: any) {
+      if (error.name === 'UnitConversionValidationError') {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+          field: error.field,
+        })
+        return
+      }
+      if (error.name === 'UnitDimensionMismatchError' || error.name === 'UnitConversionPathError') {
+        res.status(422).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
+      console.error('Error in UnitConversionController.convert:', error)
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to convert units',
+      })
+    }
+  }
+}
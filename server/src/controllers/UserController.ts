@@ -21,26 +21,13 @@ const getUserPreferencesService = (): UserPreferencesService | null => {
 export class UserController {
   /**
    * GET /user/preferences
-   * Retrieve user preferences by user ID
-   * 
-   * Headers:
-   * - X-User-Id: The user ID (required)
+   * Retrieve the preferences of the signed-in user
    * 
    * If preferences don't exist, returns default preferences based on browser settings
    */
   async getPreferences(req: Request, res: Response): Promise<void> {
     try {
-      const userId = req.headers['x-user-id'] as string || 
-                     req.query.userId as string ||
-                     'default-user' // Fallback for development
-
-      if (!userId) {
-        res.status(400).json({
-          success: false,
-          error: 'User ID is required. Provide X-User-Id header or userId query parameter.',
-        })
-        return
-      }
+      const userId = req.user!.id
 
       // Get locale and timezone from request headers or use defaults
       const locale = req.headers['accept-language']?.split(',')[0] || 'en-US'
@@ -75,9 +62,7 @@ export class UserController {
     } catch (error) {
       console.error('Error fetching user preferences:', error)
       // Even on error, return defaults so the UI can still work
-      const userId = req.headers['x-user-id'] as string || 
-                     req.query.userId as string ||
-                     'default-user'
+      const userId = req.user!.id
       const locale = req.headers['accept-language']?.split(',')[0] || 'en-US'
       const timeZone = req.headers['x-timezone'] as string || 'UTC'
       const defaultPrefs = getDefaultPreferences(userId, locale, timeZone)
@@ -92,26 +77,13 @@ export class UserController {
 
   /**
    * PUT /user/preferences
-   * Update user preferences (creates if doesn't exist)
-   * 
-   * Headers:
-   * - X-User-Id: The user ID (required)
+   * Update the preferences of the signed-in user (creates if doesn't exist)
    * 
    * Body: UpdateUserPreferencesDto (all fields optional)
    */
   async updatePreferences(req: Request, res: Response): Promise<void> {
     try {
-      const userId = req.headers['x-user-id'] as string || 
-                     req.body.userId as string ||
-                     'default-user' // Fallback for development
-
-      if (!userId) {
-        res.status(400).json({
-          success: false,
-          error: 'User ID is required. Provide X-User-Id header or userId in body.',
-        })
-        return
-      }
+      const userId = req.user!.id
 
       const updateDto: UpdateUserPreferencesDto = req.body
 
@@ -1,14 +1,42 @@
 import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
 import { UserRolesRepository } from '../data/UserRolesRepository'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 import { CreateUserRoleDto, UpdateUserRoleDto } from '../types/UserRole'
+import { PERMISSIONS_FIELD, getPermissionService } from '../auth/PermissionService'
+import { PermissionMatrixError, parsePermissionMatrix, serializePermissionMatrix } from '../auth/permissions'
 
 const repository = new UserRolesRepository()
 
+/**
+ * Write the role's permission matrix (JSON text or an object) as normalized JSON text
+ *
+ * @throws PermissionMatrixError when it is not a valid matrix
+ */
+const withPermissionMatrix = <T extends Record<string, any>>(dto: T): T =>
+  dto && dto[PERMISSIONS_FIELD] !== undefined
+    ? { ...dto, [PERMISSIONS_FIELD]: serializePermissionMatrix(parsePermissionMatrix(dto[PERMISSIONS_FIELD])) }
+    : dto
+
+const sendInvalidPermissions = (res: Response, error: PermissionMatrixError): void => {
+  res.status(400).json({
+    success: false,
+    error: 'Bad request',
+    message: error.message,
+  })
+}
+
 /**
  * User Roles Controller
  * Handles all HTTP requests for User Roles
  */
 export class UserRolesController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('user-roles', getAuditActor(req), id => repository.findById(id))
+  }
+
   /**
    * GET /api/user-roles
    * Get all or paginated User Roles records
@@ -20,7 +48,7 @@ export class UserRolesController {
       // Parse filters from query parameters
       const filters: Record<string, any> = {}
       Object.keys(req.query).forEach(key => {
-        if (!['page', 'limit', 'search', 'sortBy', 'sortOrder', 'paginated'].includes(key)) {
+        if (!['page', 'limit', 'search', 'filter', 'sortBy', 'sortOrder', 'paginated'].includes(key)) {
           const value = req.query[key]
           if (value !== undefined && value !== null && value !== '') {
             // Handle array values (multiple query params with same name)
@@ -44,6 +72,7 @@ export class UserRolesController {
           offset,
           limit: limitNum,
           search: search as string,
+          filter: parseFilterParam(req.query.filter),
           sortBy: sortBy as string,
           sortOrder: (sortOrder as 'asc' | 'desc') || 'asc',
           filters: Object.keys(filters).length > 0 ? filters : undefined,
@@ -75,6 +104,13 @@ export class UserRolesController {
         })
       }
     } catch (error: any) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in UserRolesController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -122,14 +158,19 @@ export class UserRolesController {
    */
   async create(req: Request, res: Response): Promise<void> {
     try {
-      const dto: CreateUserRoleDto = req.body
-      const userRole = await repository.create(dto)
+      const dto: CreateUserRoleDto = withPermissionMatrix(req.body)
+      const userRole = await this.audited(req).create(() => repository.create(dto))
+      getPermissionService().invalidate()
 
       res.status(201).json({
         success: true,
         data: userRole,
       })
     } catch (error: any) {
+      if (error instanceof PermissionMatrixError) {
+        sendInvalidPermissions(res, error)
+        return
+      }
       console.error('Error in UserRolesController.create:', error)
       res.status(500).json({
         success: false,
@@ -146,8 +187,9 @@ export class UserRolesController {
   async update(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      const dto: UpdateUserRoleDto = req.body
-      const userRole = await repository.update(id, dto)
+      const dto: UpdateUserRoleDto = withPermissionMatrix(req.body)
+      const userRole = await this.audited(req).update(id, () => repository.update(id, dto))
+      getPermissionService().invalidate()
 
       if (!userRole) {
         res.status(404).json({
@@ -163,6 +205,10 @@ export class UserRolesController {
         data: userRole,
       })
     } catch (error: any) {
+      if (error instanceof PermissionMatrixError) {
+        sendInvalidPermissions(res, error)
+        return
+      }
       console.error('Error in UserRolesController.update:', error)
       res.status(500).json({
         success: false,
@@ -179,7 +225,8 @@ export class UserRolesController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      await repository.delete(id)
+      await this.audited(req).delete(id, () => repository.delete(id))
+      getPermissionService().invalidate()
 
       res.json({
         success: true,
@@ -1,9 +1,17 @@
 import { Request, Response } from 'express'
+import { FilterSyntaxError, parseFilterParam } from '../database/filters/FilterAst'
+import { EntityQueryError } from '../database/entities/types'
 import { userTableRepository } from '../data/UserTableRepository'
+import { AuditedWrites, getAuditActor, getAuditLog } from '../database/audit/AuditLog'
 import { CreateUserTableDto, UpdateUserTableDto } from '../types/UserTable'
 import { QueryOptions } from '../database/interfaces/IDatabase'
 
 export class UserTableController {
+  /** Writes of the request, recorded in the audit log */
+  private audited(req: Request): AuditedWrites {
+    return getAuditLog().writes('users', getAuditActor(req), id => userTableRepository.findById(id))
+  }
+
   /**
    * GET /users
    * Retrieve all user table records with optional query parameters
@@ -21,7 +29,7 @@ export class UserTableController {
 
       // Build filters object from all query parameters (except pagination/sort/search params)
       const filters: Record<string, any> = {}
-      const excludeParams = ['limit', 'offset', 'sortBy', 'sortOrder', 'search', 'paginated']
+      const excludeParams = ['limit', 'offset', 'sortBy', 'sortOrder', 'search', 'filter', 'paginated']
       
       Object.keys(req.query).forEach(key => {
         if (!excludeParams.includes(key) && req.query[key]) {
@@ -47,6 +55,7 @@ export class UserTableController {
         sortBy: sortBy as string,
         sortOrder: sortOrder as 'asc' | 'desc' | undefined,
         search: search as string,
+        filter: parseFilterParam(req.query.filter),
         filters: Object.keys(filters).length > 0 ? filters : undefined,
       }
 
@@ -74,6 +83,13 @@ export class UserTableController {
         })
       }
     } catch (error) {
+      if (error instanceof FilterSyntaxError || error instanceof EntityQueryError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        })
+        return
+      }
       console.error('Error in UserTableController.getAll:', error)
       res.status(500).json({
         success: false,
@@ -124,7 +140,7 @@ export class UserTableController {
   async create(req: Request, res: Response): Promise<void> {
     try {
       const dto: CreateUserTableDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
       // Validate required fields
       if (!dto.Name) {
@@ -136,7 +152,7 @@ export class UserTableController {
         return
       }
 
-      const userTable = await userTableRepository.create(dto, userId)
+      const userTable = await this.audited(req).create(() => userTableRepository.create(dto, userId))
 
       res.status(201).json({
         success: true,
@@ -160,9 +176,9 @@ export class UserTableController {
     try {
       const { id } = req.params
       const dto: UpdateUserTableDto = req.body
-      const userId = (req.headers['x-user-id'] as string) || 'System'
+      const userId = getAuditActor(req).id
 
-      const userTable = await userTableRepository.update(id, dto, userId)
+      const userTable = await this.audited(req).update(id, () => userTableRepository.update(id, dto, userId))
 
       if (!userTable) {
         res.status(404).json({
@@ -194,7 +210,7 @@ export class UserTableController {
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      const deleted = await userTableRepository.delete(id)
+      const deleted = await this.audited(req).delete(id, () => userTableRepository.delete(id))
 
       if (!deleted) {
         res.status(404).json({
@@ -0,0 +1,334 @@
+import {
+  ActivityData,
+  ActivityDataComputedFields,
+  CreateActivityDataDto,
+  UpdateActivityDataDto,
+  ACTIVITY_DATA_CALCULATION_INPUTS,
+} from '../types/ActivityData'
+import { getActivityDataAirtableService } from '../services/ActivityDataAirtableService'
+import { getActivityDataEntityService } from '../services/ActivityDataEntityService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { getEmissionCalculationService } from '../services/EmissionCalculationService'
+import { QueryOptions, PaginatedResult } from '../database/interfaces/IDatabase'
+import { withAllOrganizations } from '../auth/TenantContext'
+
+/**
+ * First record ID of a link field value
+ */
+const firstId = (value?: string | string[]): string | undefined =>
+  Array.isArray(value) ? value[0] : value || undefined
+
+/**
+ * Activity Data Repository
+ *
+ * Data access layer for the Activity Data ledger.
+ * Every write runs the emission calculation engine so the stored CO2e
+ * always reflects the row's current quantity, unit and factor.
+ * Supports Airtable, PostgreSQL and the local database (database-agnostic).
+ *
+ * Rows belong to an organization: the services (the database layer's
+ * TenantScopedDatabase, or ActivityDataAirtableService) only see and write the rows of
+ * the request's organization.
+ */
+export class ActivityDataRepository {
+  private getService() {
+    if (DatabaseFactory.usesEntityRepositories()) {
+      return getActivityDataEntityService()
+    }
+
+    // Default to Airtable
+    return getActivityDataAirtableService()
+  }
+
+  /**
+   * Get all Activity Data records
+   */
+  async findAll(options?: QueryOptions): Promise<ActivityData[]> {
+    try {
+      if (options?.limit || options?.offset) {
+        const result = await this.findPaginated(options)
+        return result.data
+      }
+      const service = this.getService()
+      return await service.findAll(options?.filters, options?.filter)
+    } catch (error) {
+      console.error('Error in ActivityDataRepository.findAll:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get paginated Activity Data records
+   */
+  async findPaginated(options?: QueryOptions): Promise<PaginatedResult<ActivityData>> {
+    try {
+      const limit = options?.limit || 50
+      const offset = options?.offset || 0
+      const service = this.getService()
+
+      const result = await service.findPaginated(
+        offset,
+        limit,
+        options?.sortBy,
+        options?.sortOrder || 'asc',
+        options?.filters,
+        options?.search,
+        options?.filter
+      )
+
+      return {
+        data: result.records,
+        total: result.total,
+        limit,
+        offset,
+        hasMore: offset + limit < result.total,
+      }
+    } catch (error) {
+      console.error('Error in ActivityDataRepository.findPaginated:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a single Activity Data record by ID
+   */
+  async findById(id: string): Promise<ActivityData | null> {
+    try {
+      const service = this.getService()
+      return await service.findById(id)
+    } catch (error) {
+      console.error('Error in ActivityDataRepository.findById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a new Activity Data record and compute its CO2e
+   */
+  async create(dto: CreateActivityDataDto): Promise<ActivityData> {
+    try {
+      const service = this.getService()
+      const computed = await this.computeEmissions({
+        quantity: dto.Quantity,
+        unit: firstId(dto.Unit),
+        normalizedActivity: firstId(dto['Normalized activity']),
+        geography: firstId(dto.Geography),
+        reportingYear: dto['Reporting Year'],
+        emissionFactor: firstId(dto['Emission Factor']),
+      })
+      return await service.create(dto, computed)
+    } catch (error) {
+      console.error('Error in ActivityDataRepository.create:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update an existing Activity Data record.
+   * CO2e is recomputed when any calculation input is part of the update.
+   */
+  async update(id: string, dto: UpdateActivityDataDto): Promise<ActivityData | null> {
+    try {
+      const service = this.getService()
+      const existing = await service.findById(id)
+      if (!existing) {
+        return null
+      }
+
+      const inputsChanged = ACTIVITY_DATA_CALCULATION_INPUTS.some(field => dto[field] !== undefined)
+      if (!inputsChanged) {
+        return await service.update(id, dto)
+      }
+
+      // An explicit factor wins; otherwise keep the stored factor unless the activity,
+      // geography or reporting year changed - those re-run factor resolution
+      const changed = (field: 'Normalized activity' | 'Geography') =>
+        dto[field] !== undefined && firstId(dto[field]) !== firstId(existing[field])
+      const resolutionChanged = changed('Normalized activity') || changed('Geography') ||
+        (dto['Reporting Year'] !== undefined && dto['Reporting Year'] !== existing['Reporting Year'])
+      const emissionFactor = dto['Emission Factor'] !== undefined
+        ? firstId(dto['Emission Factor'])
+        : resolutionChanged ? undefined : firstId(existing['Emission Factor'])
+
+      const computed = await this.computeEmissions({
+        quantity: dto.Quantity !== undefined ? dto.Quantity : existing.Quantity,
+        unit: firstId(dto.Unit !== undefined ? dto.Unit : existing.Unit),
+        normalizedActivity: firstId(dto['Normalized activity'] !== undefined ? dto['Normalized activity'] : existing['Normalized activity']),
+        geography: firstId(dto.Geography !== undefined ? dto.Geography : existing.Geography),
+        reportingYear: dto['Reporting Year'] !== undefined ? dto['Reporting Year'] : existing['Reporting Year'],
+        emissionFactor,
+      })
+      return await service.update(id, dto, computed)
+    } catch (error) {
+      console.error('Error in ActivityDataRepository.update:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Recompute the stored CO2e of a single record using its current inputs and factor
+   */
+  async recalculate(id: string): Promise<ActivityData | null> {
+    try {
+      const service = this.getService()
+      const existing = await service.findById(id)
+      if (!existing) {
+        return null
+      }
+
+      const computed = await this.computeEmissions({
+        quantity: existing.Quantity,
+        unit: firstId(existing.Unit),
+        normalizedActivity: firstId(existing['Normalized activity']),
+        geography: firstId(existing.Geography),
+        reportingYear: existing['Reporting Year'],
+        emissionFactor: firstId(existing['Emission Factor']),
+      })
+      return await service.update(id, {}, computed)
+    } catch (error) {
+      console.error('Error in ActivityDataRepository.recalculate:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Recompute every record whose CO2e was calculated with the given emission factor.
+   * Called after a factor's value or units change (services/ActivityDataRecalculation) -
+   * factors are shared, so the rows of every organization are recomputed.
+   */
+  async recalculateForEmissionFactor(emissionFactorId: string): Promise<{ total: number; recalculated: number; failed: number }> {
+    return withAllOrganizations(async () => {
+      try {
+        return await this.recalculateAll(await this.getService().findIdsByEmissionFactor(emissionFactorId))
+      } catch (error) {
+        console.error('Error in ActivityDataRepository.recalculateForEmissionFactor:', error)
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Recompute the records of the given normalized activities that have no CO2e yet
+   * (Error or Pending). Called after factors are created, which may resolve them - in
+   * every organization, like recalculateForEmissionFactor.
+   */
+  async recalculateUncalculated(normalizedActivityIds: string[]): Promise<{ total: number; recalculated: number; failed: number }> {
+    return withAllOrganizations(async () => {
+      try {
+        const records = await this.getService().findAll()
+        const ids = records
+          .filter(record => record['Calculation Status'] !== 'Calculated')
+          .filter(record => normalizedActivityIds.includes(firstId(record['Normalized activity']) || ''))
+          .map(record => record.id)
+        return await this.recalculateAll(ids)
+      } catch (error) {
+        console.error('Error in ActivityDataRepository.recalculateUncalculated:', error)
+        throw error
+      }
+    })
+  }
+
+  private async recalculateAll(ids: string[]): Promise<{ total: number; recalculated: number; failed: number }> {
+    let recalculated = 0
+    let failed = 0
+
+    // Sequential to stay within Airtable rate limits
+    for (const id of ids) {
+      try {
+        await this.recalculate(id)
+        recalculated++
+      } catch (error) {
+        console.error(`Failed to recalculate Activity Data ${id}:`, error)
+        failed++
+      }
+    }
+
+    return { total: ids.length, recalculated, failed }
+  }
+
+  /**
+   * Delete an Activity Data record (false when it does not exist)
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      const service = this.getService()
+      if (!(await this.findById(id))) {
+        return false
+      }
+      await service.delete(id)
+      return true
+    } catch (error) {
+      console.error('Error in ActivityDataRepository.delete:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get distinct values for a field (for filters)
+   */
+  async getDistinctValues(field: string, limit: number = 100): Promise<string[]> {
+    try {
+      const service = this.getService()
+      return await service.getDistinctValues(field, limit)
+    } catch (error) {
+      console.error(`Error in ActivityDataRepository.getDistinctValues for field ${field}:`, error)
+      return []
+    }
+  }
+
+  /**
+   * Run the calculation engine and map the outcome to stored fields.
+   * Calculation failures are recorded on the row instead of blocking the save.
+   */
+  private async computeEmissions(input: {
+    quantity?: number
+    unit?: string
+    normalizedActivity?: string
+    geography?: string
+    reportingYear?: number
+    emissionFactor?: string
+  }): Promise<ActivityDataComputedFields> {
+    const calculatedAt = new Date().toISOString()
+
+    if (input.quantity === undefined || input.quantity === null || !input.unit || !input.normalizedActivity) {
+      return {
+        'Computed CO2e (t)': null,
+        'Calculation Status': 'Pending',
+        'Calculation Error': 'Quantity, Unit and Normalized activity are required to compute CO2e',
+        'Calculation Trace': '',
+        'Calculated At': calculatedAt,
+      }
+    }
+
+    try {
+      const result = await getEmissionCalculationService().calculate({
+        quantity: Number(input.quantity),
+        unit: input.unit,
+        normalizedActivity: input.normalizedActivity,
+        geography: input.geography,
+        reportingDate: input.reportingYear || undefined,
+        emissionFactor: input.emissionFactor,
+      })
+
+      return {
+        'Emission Factor': [result.trace.emissionFactor.id],
+        'Computed CO2e (t)': result.tCO2e,
+        'Calculation Status': 'Calculated',
+        'Calculation Error': '',
+        'Calculation Trace': JSON.stringify(result.trace),
+        'Calculated At': calculatedAt,
+      }
+    } catch (error: any) {
+      if (error?.name !== 'CalculationValidationError' && error?.name !== 'CalculationResolutionError') {
+        throw error
+      }
+      return {
+        'Computed CO2e (t)': null,
+        'Calculation Status': 'Error',
+        'Calculation Error': error.message,
+        'Calculation Trace': '',
+        'Calculated At': calculatedAt,
+      }
+    }
+  }
+}
@@ -41,7 +41,8 @@ export class ApplicationListRepository {
         options?.sortBy,
         options?.sortOrder || 'asc',
         options?.filters,
-        options?.search
+        options?.search,
+        options?.filter
       )
 
       return {
@@ -10,6 +10,9 @@ import { DatabaseFactory } from '../database/DatabaseFactory'
  * 
  * The repository provides a clean interface for business logic,
  * while the database adapter handles the specific database implementation.
+ *
+ * Companies belong to an organization: the database layer (TenantScopedDatabase) limits
+ * every method to the companies of the request's organization.
  */
 export class CompanyRepository {
   private database: IDatabase
@@ -1,12 +1,12 @@
 import { EFGWP, CreateEFGWPDto, UpdateEFGWPDto } from '../types/EFGWP'
-import { getEFGWPAirtableService } from '../services/EFGWPAirtableService'
+import { getEFGWPService } from '../database/EntityServiceFactory'
 import { QueryOptions, PaginatedResult } from '../database/interfaces/IDatabase'
 
 /**
  * EF GWP Repository
  * 
  * Data access layer for EF GWP entities.
- * Currently uses Airtable, but can be swapped for PostgreSQL later.
+ * Supports both Airtable and PostgreSQL (selected by DATABASE_TYPE).
  */
 export class EFGWPRepository {
   /**
@@ -18,7 +18,7 @@ export class EFGWPRepository {
         const result = await this.findPaginated(options)
         return result.data
       }
-      const service = getEFGWPAirtableService()
+      const service = getEFGWPService()
       return await service.findAll()
     } catch (error) {
       console.error('Error in EFGWPRepository.findAll:', error)
@@ -33,7 +33,7 @@ export class EFGWPRepository {
     try {
       const limit = options?.limit || 50
       const offset = options?.offset || 0
-      const service = getEFGWPAirtableService()
+      const service = getEFGWPService()
       
       const result = await service.findPaginated(
         offset,
@@ -41,7 +41,8 @@ export class EFGWPRepository {
         options?.sortBy,
         options?.sortOrder || 'asc',
         options?.filters,
-        options?.search
+        options?.search,
+        options?.filter
       )
 
       return {
@@ -62,7 +63,7 @@ export class EFGWPRepository {
    */
   async findById(id: string): Promise<EFGWP | null> {
     try {
-      const service = getEFGWPAirtableService()
+      const service = getEFGWPService()
       return await service.findById(id)
     } catch (error) {
       console.error('Error in EFGWPRepository.findById:', error)
@@ -75,7 +76,7 @@ export class EFGWPRepository {
    */
   async create(dto: CreateEFGWPDto, userId: string = 'System'): Promise<EFGWP> {
     try {
-      const service = getEFGWPAirtableService()
+      const service = getEFGWPService()
       return await service.create({
         ...dto,
         createdBy: userId,
@@ -96,7 +97,7 @@ export class EFGWPRepository {
       delete (updateData as any).lastModifiedBy
       delete (updateData as any).createdBy
       
-      const service = getEFGWPAirtableService()
+      const service = getEFGWPService()
       return await service.update(id, {
         ...updateData,
         lastModifiedBy: userId,
@@ -112,7 +113,7 @@ export class EFGWPRepository {
    */
   async delete(id: string): Promise<boolean> {
     try {
-      const service = getEFGWPAirtableService()
+      const service = getEFGWPService()
       return await service.delete(id)
     } catch (error) {
       console.error('Error in EFGWPRepository.delete:', error)
@@ -125,7 +126,7 @@ export class EFGWPRepository {
    */
   async getDistinctFieldValues(fieldName: string, limit?: number): Promise<string[]> {
     try {
-      const service = getEFGWPAirtableService()
+      const service = getEFGWPService()
       return await service.getDistinctValues(fieldName, limit)
     } catch (error) {
       console.error('Error in EFGWPRepository.getDistinctFieldValues:', error)
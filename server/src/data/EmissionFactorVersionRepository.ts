@@ -1,12 +1,12 @@
 import { EmissionFactorVersion, CreateEmissionFactorVersionDto, UpdateEmissionFactorVersionDto } from '../types/EmissionFactorVersion'
-import { getEmissionFactorVersionAirtableService } from '../services/EmissionFactorVersionAirtableService'
+import { getEmissionFactorVersionService } from '../database/EntityServiceFactory'
 import { QueryOptions, PaginatedResult } from '../database/interfaces/IDatabase'
 
 /**
  * Emission Factor Version Repository
  * 
  * Data access layer for Emission Factor Version entities.
- * Currently uses Airtable, but can be swapped for PostgreSQL later.
+ * Supports both Airtable and PostgreSQL (selected by DATABASE_TYPE).
  */
 export class EmissionFactorVersionRepository {
   /**
@@ -18,7 +18,7 @@ export class EmissionFactorVersionRepository {
         const result = await this.findPaginated(options)
         return result.data
       }
-      const service = getEmissionFactorVersionAirtableService()
+      const service = getEmissionFactorVersionService()
       return await service.findAll()
     } catch (error) {
       console.error('Error in EmissionFactorVersionRepository.findAll:', error)
@@ -33,7 +33,7 @@ export class EmissionFactorVersionRepository {
     try {
       const limit = options?.limit || 50
       const offset = options?.offset || 0
-      const service = getEmissionFactorVersionAirtableService()
+      const service = getEmissionFactorVersionService()
       
       const result = await service.findPaginated(
         offset,
@@ -41,7 +41,8 @@ export class EmissionFactorVersionRepository {
         options?.sortBy,
         options?.sortOrder || 'asc',
         options?.filters,
-        options?.search
+        options?.search,
+        options?.filter
       )
 
       return {
@@ -62,7 +63,7 @@ export class EmissionFactorVersionRepository {
    */
   async findById(id: string): Promise<EmissionFactorVersion | null> {
     try {
-      const service = getEmissionFactorVersionAirtableService()
+      const service = getEmissionFactorVersionService()
       return await service.findById(id)
     } catch (error) {
       console.error('Error in EmissionFactorVersionRepository.findById:', error)
@@ -75,7 +76,7 @@ export class EmissionFactorVersionRepository {
    */
   async create(dto: CreateEmissionFactorVersionDto, userId: string = 'System'): Promise<EmissionFactorVersion> {
     try {
-      const service = getEmissionFactorVersionAirtableService()
+      const service = getEmissionFactorVersionService()
       return await service.create(dto)
     } catch (error) {
       console.error('Error in EmissionFactorVersionRepository.create:', error)
@@ -88,7 +89,7 @@ export class EmissionFactorVersionRepository {
    */
   async update(id: string, dto: UpdateEmissionFactorVersionDto, userId: string = 'System'): Promise<EmissionFactorVersion | null> {
     try {
-      const service = getEmissionFactorVersionAirtableService()
+      const service = getEmissionFactorVersionService()
       return await service.update(id, dto)
     } catch (error) {
       console.error('Error in EmissionFactorVersionRepository.update:', error)
@@ -101,7 +102,7 @@ export class EmissionFactorVersionRepository {
    */
   async delete(id: string): Promise<boolean> {
     try {
-      const service = getEmissionFactorVersionAirtableService()
+      const service = getEmissionFactorVersionService()
       return await service.delete(id)
     } catch (error) {
       console.error('Error in EmissionFactorVersionRepository.delete:', error)
@@ -114,7 +115,7 @@ export class EmissionFactorVersionRepository {
    */
   async getDistinctFieldValues(fieldName: string, limit: number = 1000): Promise<string[]> {
     try {
-      const service = getEmissionFactorVersionAirtableService()
+      const service = getEmissionFactorVersionService()
       return await service.getDistinctValues(fieldName, limit)
     } catch (error) {
       console.error('Error in EmissionFactorVersionRepository.getDistinctFieldValues:', error)
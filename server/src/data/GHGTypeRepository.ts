@@ -1,12 +1,12 @@
 import { GHGType, CreateGHGTypeDto, UpdateGHGTypeDto } from '../types/GHGType'
-import { getGHGTypeAirtableService } from '../services/GHGTypeAirtableService'
+import { getGHGTypeService } from '../database/EntityServiceFactory'
 import { QueryOptions, PaginatedResult } from '../database/interfaces/IDatabase'
 
 /**
  * GHG Type Repository
  * 
  * Data access layer for GHG Type entities.
- * Currently uses Airtable, but can be swapped for PostgreSQL later.
+ * Supports both Airtable and PostgreSQL (selected by DATABASE_TYPE).
  */
 export class GHGTypeRepository {
   /**
@@ -18,7 +18,7 @@ export class GHGTypeRepository {
         const result = await this.findPaginated(options)
         return result.data
       }
-      const service = getGHGTypeAirtableService()
+      const service = getGHGTypeService()
       return await service.findAll()
     } catch (error) {
       console.error('Error in GHGTypeRepository.findAll:', error)
@@ -33,7 +33,7 @@ export class GHGTypeRepository {
     try {
       const limit = options?.limit || 50
       const offset = options?.offset || 0
-      const service = getGHGTypeAirtableService()
+      const service = getGHGTypeService()
       
       const result = await service.findPaginated(
         offset,
@@ -41,7 +41,8 @@ export class GHGTypeRepository {
         options?.sortBy,
         options?.sortOrder || 'asc',
         options?.filters,
-        options?.search
+        options?.search,
+        options?.filter
       )
 
       return {
@@ -62,7 +63,7 @@ export class GHGTypeRepository {
    */
   async findById(id: string): Promise<GHGType | null> {
     try {
-      const service = getGHGTypeAirtableService()
+      const service = getGHGTypeService()
       return await service.findById(id)
     } catch (error) {
       console.error('Error in GHGTypeRepository.findById:', error)
@@ -75,7 +76,7 @@ export class GHGTypeRepository {
    */
   async create(dto: CreateGHGTypeDto, userId: string = 'System'): Promise<GHGType> {
     try {
-      const service = getGHGTypeAirtableService()
+      const service = getGHGTypeService()
       return await service.create(dto)
     } catch (error) {
       console.error('Error in GHGTypeRepository.create:', error)
@@ -88,7 +89,7 @@ export class GHGTypeRepository {
    */
   async update(id: string, dto: UpdateGHGTypeDto, userId: string = 'System'): Promise<GHGType | null> {
     try {
-      const service = getGHGTypeAirtableService()
+      const service = getGHGTypeService()
       return await service.update(id, dto)
     } catch (error) {
       console.error('Error in GHGTypeRepository.update:', error)
@@ -101,7 +102,7 @@ export class GHGTypeRepository {
    */
   async delete(id: string): Promise<boolean> {
     try {
-      const service = getGHGTypeAirtableService()
+      const service = getGHGTypeService()
       return await service.delete(id)
     } catch (error) {
       console.error('Error in GHGTypeRepository.delete:', error)
@@ -114,7 +115,7 @@ export class GHGTypeRepository {
    */
   async getDistinctFieldValues(fieldName: string, limit: number = 1000): Promise<string[]> {
     try {
-      const service = getGHGTypeAirtableService()
+      const service = getGHGTypeService()
       return await service.getDistinctValues(fieldName, limit)
     } catch (error) {
       console.error('Error in GHGTypeRepository.getDistinctFieldValues:', error)
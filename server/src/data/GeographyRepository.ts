@@ -1,12 +1,12 @@
 import { Geography, CreateGeographyDto, UpdateGeographyDto } from '../types/Geography'
-import { getGeographyAirtableService } from '../services/GeographyAirtableService'
+import { getGeographyService } from '../database/EntityServiceFactory'
 import { QueryOptions, PaginatedResult } from '../database/interfaces/IDatabase'
 
 /**
  * Geography Repository
  * 
  * Data access layer for Geography entities.
- * Currently uses Airtable, but can be swapped for PostgreSQL later.
+ * Supports both Airtable and PostgreSQL (selected by DATABASE_TYPE).
  */
 export class GeographyRepository {
   /**
@@ -18,7 +18,7 @@ export class GeographyRepository {
         const result = await this.findPaginated(options)
         return result.data
       }
-      const service = getGeographyAirtableService()
+      const service = getGeographyService()
       return await service.findAll()
     } catch (error) {
       console.error('Error in GeographyRepository.findAll:', error)
@@ -33,7 +33,7 @@ export class GeographyRepository {
     try {
       const limit = options?.limit || 50
       const offset = options?.offset || 0
-      const service = getGeographyAirtableService()
+      const service = getGeographyService()
       
       const result = await service.findPaginated(
         offset,
@@ -41,7 +41,8 @@ export class GeographyRepository {
         options?.sortBy,
         options?.sortOrder || 'asc',
         options?.filters,
-        options?.search
+        options?.search,
+        options?.filter
       )
 
       return {
@@ -62,7 +63,7 @@ export class GeographyRepository {
    */
   async findById(id: string): Promise<Geography | null> {
     try {
-      const service = getGeographyAirtableService()
+      const service = getGeographyService()
       return await service.findById(id)
     } catch (error) {
       console.error('Error in GeographyRepository.findById:', error)
@@ -75,7 +76,7 @@ export class GeographyRepository {
    */
   async create(dto: CreateGeographyDto, userId: string = 'System'): Promise<Geography> {
     try {
-      const service = getGeographyAirtableService()
+      const service = getGeographyService()
       return await service.create({
         ...dto,
         createdBy: userId,
@@ -96,7 +97,7 @@ export class GeographyRepository {
       delete (updateData as any).lastModifiedBy
       delete (updateData as any).createdBy
       
-      const service = getGeographyAirtableService()
+      const service = getGeographyService()
       return await service.update(id, {
         ...updateData,
         lastModifiedBy: userId,
@@ -112,7 +113,7 @@ export class GeographyRepository {
    */
   async delete(id: string): Promise<boolean> {
     try {
-      const service = getGeographyAirtableService()
+      const service = getGeographyService()
       return await service.delete(id)
     } catch (error) {
       console.error('Error in GeographyRepository.delete:', error)
@@ -125,7 +126,7 @@ export class GeographyRepository {
    */
   async getDistinctFieldValues(fieldName: string, limit?: number): Promise<string[]> {
     try {
-      const service = getGeographyAirtableService()
+      const service = getGeographyService()
       return await service.getDistinctValues(fieldName, limit)
     } catch (error) {
       console.error('Error in GeographyRepository.getDistinctFieldValues:', error)
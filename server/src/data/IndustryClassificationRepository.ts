@@ -1,6 +1,8 @@
 import { IndustryClassification, CreateIndustryClassificationDto, UpdateIndustryClassificationDto } from '../types/IndustryClassification'
 import { getIndustryClassificationAirtableService } from '../services/IndustryClassificationAirtableService'
-import { getIndustryClassificationPostgreSQLService } from '../services/IndustryClassificationPostgreSQLService'
+import { getIndustryClassificationEntityService } from '../services/IndustryClassificationEntityService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { FilterNode } from '../database/filters/FilterAst'
 
 interface QueryOptions {
   offset?: number
@@ -9,6 +11,7 @@ interface QueryOptions {
   sortOrder?: 'asc' | 'desc'
   filters?: Record<string, any>
   search?: string
+  filter?: FilterNode
 }
 
 interface PaginatedResult<T> {
@@ -29,10 +32,8 @@ interface PaginatedResult<T> {
  */
 export class IndustryClassificationRepository {
   private getService() {
-    const databaseType = process.env.DATABASE_TYPE || 'airtable'
-    
-    if (databaseType === 'postgresql') {
-      return getIndustryClassificationPostgreSQLService()
+    if (DatabaseFactory.usesEntityRepositories()) {
+      return getIndustryClassificationEntityService()
     }
     
     return getIndustryClassificationAirtableService()
@@ -65,7 +66,8 @@ export class IndustryClassificationRepository {
         options?.sortBy,
         options?.sortOrder || 'asc',
         options?.filters,
-        options?.search
+        options?.search,
+        options?.filter
       )
 
       return {
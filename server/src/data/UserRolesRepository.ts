@@ -1,21 +1,20 @@
 import { UserRole, CreateUserRoleDto, UpdateUserRoleDto } from '../types/UserRole'
 import { getUserRolesAirtableService } from '../services/UserRolesAirtableService'
-import { getUserRolesPostgreSQLService } from '../services/UserRolesPostgreSQLService'
+import { getUserRolesEntityService } from '../services/UserRolesEntityService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
 import { QueryOptions, PaginatedResult } from '../database/interfaces/IDatabase'
 
 /**
  * User Roles Repository
  * 
  * Data access layer for User Roles entities.
- * Supports both Airtable and PostgreSQL (database-agnostic).
+ * Supports Airtable, PostgreSQL and the local database (database-agnostic).
  * Switch between databases by setting DATABASE_TYPE environment variable.
  */
 export class UserRolesRepository {
   private getService() {
-    const databaseType = process.env.DATABASE_TYPE || 'airtable'
-    
-    if (databaseType === 'postgresql') {
-      return getUserRolesPostgreSQLService()
+    if (DatabaseFactory.usesEntityRepositories()) {
+      return getUserRolesEntityService()
     }
     
     // Default to Airtable
@@ -53,7 +52,8 @@ export class UserRolesRepository {
         options?.sortBy,
         options?.sortOrder || 'asc',
         options?.filters,
-        options?.search
+        options?.search,
+        options?.filter
       )
 
       return {
@@ -2,6 +2,8 @@ import { IDatabase } from './interfaces/IDatabase'
 import { AirtableAdapter } from './adapters/AirtableAdapter'
 import { PostgreSQLAdapter } from './adapters/PostgreSQLAdapter'
 import { MockAdapter } from './adapters/MockAdapter'
+import { LocalAdapter } from './adapters/LocalAdapter'
+import { TenantScopedDatabase } from './adapters/TenantScopedDatabase'
 
 /**
  * Database Factory
@@ -10,9 +12,13 @@ import { MockAdapter } from './adapters/MockAdapter'
  * This allows easy switching between different database backends.
  * 
  * Environment Variables:
- * - DATABASE_TYPE: 'airtable' | 'postgresql' | 'mock' (default: 'airtable')
+ * - DATABASE_TYPE: 'airtable' | 'postgresql' | 'local' | 'mock' (default: 'airtable')
  * - For Airtable: AIRTABLE_PERSONAL_ACCESS_TOKEN, AIRTABLE_SYSTEM_CONFIG_BASE_ID
- * - For PostgreSQL: DB_HOST, DB_PORT, DB_NAME, DB_USER, DB_PASSWORD
+ * - For PostgreSQL: DATABASE_URL, or DB_HOST, DB_PORT, DB_NAME, DB_USER, DB_PASSWORD
+ * - For Local: LOCAL_DB_PATH (optional, seed it with npm run db:local:seed)
+ *
+ * The adapter is returned wrapped in a TenantScopedDatabase, limiting tenant tables to
+ * the organization in scope.
  */
 export class DatabaseFactory {
   private static instance: IDatabase | null = null
@@ -63,6 +69,12 @@ export class DatabaseFactory {
         }
         break
 
+      case 'local':
+      case 'file':
+        console.log('💾 Initializing local file database adapter...')
+        this.instance = new LocalAdapter()
+        break
+
       case 'mock':
       case 'memory':
         console.log('💾 Initializing Mock (in-memory) database adapter...')
@@ -73,6 +85,7 @@ export class DatabaseFactory {
         console.warn(`⚠️  Unknown database type "${dbType}", using mock adapter`)
         this.instance = new MockAdapter()
     }
+    this.instance = new TenantScopedDatabase(this.instance)
 
     // Perform health check
     this.instance.healthCheck()
@@ -90,6 +103,14 @@ export class DatabaseFactory {
     return this.instance
   }
 
+  /**
+   * Whether entity services should go through getRepository() instead of the
+   * Airtable services - true for every backend but Airtable
+   */
+  static usesEntityRepositories(): boolean {
+    return this.getDatabase().getName() !== 'Airtable'
+  }
+
   /**
    * Reset the database instance (useful for testing)
    */
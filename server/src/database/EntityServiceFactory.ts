@@ -0,0 +1,158 @@
+import { DatabaseFactory } from './DatabaseFactory'
+import { EntityCrudService, EntityRepositoryService } from './entities/EntityService'
+import { ENTITY_DESCRIPTORS } from './entities/descriptors'
+import { ScopeCategorisationAirtableService } from '../services/ScopeCategorisationAirtableService'
+import { NormalizedActivityAirtableService } from '../services/NormalizedActivityAirtableService'
+import { EFDetailedGAirtableService } from '../services/EFDetailedGAirtableService'
+import { UnitConversionAirtableService } from '../services/UnitConversionAirtableService'
+import { getUnitConversionEntityService } from '../services/UnitConversionEntityService'
+import { StandardEmissionFactorAirtableService } from '../services/StandardEmissionFactorAirtableService'
+import { getStandardEmissionFactorEntityService } from '../services/StandardEmissionFactorEntityService'
+import { GHGTypeAirtableService, getGHGTypeAirtableService } from '../services/GHGTypeAirtableService'
+import { EFGWPAirtableService, getEFGWPAirtableService } from '../services/EFGWPAirtableService'
+import { EmissionFactorVersionAirtableService, getEmissionFactorVersionAirtableService } from '../services/EmissionFactorVersionAirtableService'
+import { GeographyAirtableService, getGeographyAirtableService } from '../services/GeographyAirtableService'
+import { Unit, CreateUnitDto, UpdateUnitDto } from '../types/Unit'
+import { Scope, CreateScopeDto, UpdateScopeDto } from '../types/Scope'
+import { ScopeCategorisation, CreateScopeCategorisationDto, UpdateScopeCategorisationDto } from '../types/ScopeCategorisation'
+import { NormalizedActivity, CreateNormalizedActivityDto, UpdateNormalizedActivityDto } from '../types/NormalizedActivity'
+import { StandardECMCatalog, CreateStandardECMCatalogDto, UpdateStandardECMCatalogDto } from '../types/StandardECMCatalog'
+import {
+  StandardECMClassification,
+  CreateStandardECMClassificationDto,
+  UpdateStandardECMClassificationDto,
+} from '../types/StandardECMClassification'
+import { EFDetailedG, CreateEFDetailedGDto, UpdateEFDetailedGDto } from '../types/EFDetailedG'
+import { ThermalCriteria, CreateThermalCriteriaDto, UpdateThermalCriteriaDto } from '../types/ThermalCriteria'
+import { GeoCode, CreateGeoCodeDto, UpdateGeoCodeDto } from '../types/GeoCode'
+import { Organization, CreateOrganizationDto, UpdateOrganizationDto } from '../types/Organization'
+import { GHGType, CreateGHGTypeDto, UpdateGHGTypeDto } from '../types/GHGType'
+import { EFGWP, CreateEFGWPDto, UpdateEFGWPDto } from '../types/EFGWP'
+import { EmissionFactorVersion, CreateEmissionFactorVersionDto, UpdateEmissionFactorVersionDto } from '../types/EmissionFactorVersion'
+import { Geography, CreateGeographyDto, UpdateGeographyDto } from '../types/Geography'
+
+/**
+ * Entity Service Factory
+ *
+ * Returns the service of an entity for the configured database (DATABASE_TYPE).
+ * Entities without table-specific logic use the generic EntityCrudService /
+ * EntityRepositoryService over the database's entity repository; the others have an
+ * Airtable service, and use the repository for every other database (PostgreSQL, local
+ * file, in-memory - see DatabaseFactory.usesEntityRepositories). Controllers and
+ * cross-entity services depend
+ * on the types below (the methods they call), so the backends are interchangeable.
+ *
+ * Airtable services are created the way callers created them before (new instance,
+ * or the existing singleton getter).
+ */
+
+/** Methods used by the table view controllers */
+type CrudMethods = 'getAll' | 'getById' | 'create' | 'update' | 'delete'
+type TableViewMethods = CrudMethods | 'getFilterValues'
+
+/** Methods used by the repositories in data/ */
+type RepositoryMethods = 'findAll' | 'findPaginated' | 'findById' | 'create' | 'update' | 'delete' | 'getDistinctValues'
+
+export type UnitService = Pick<EntityCrudService<Unit, CreateUnitDto, UpdateUnitDto>, TableViewMethods>
+export type ScopeService = Pick<EntityCrudService<Scope, CreateScopeDto, UpdateScopeDto>, TableViewMethods>
+export type ScopeCategorisationService = Pick<ScopeCategorisationAirtableService, TableViewMethods>
+export type NormalizedActivityService = Pick<NormalizedActivityAirtableService, TableViewMethods>
+export type StandardECMCatalogService = Pick<
+  EntityCrudService<StandardECMCatalog, CreateStandardECMCatalogDto, UpdateStandardECMCatalogDto>,
+  TableViewMethods
+>
+export type StandardECMClassificationService = Pick<
+  EntityCrudService<StandardECMClassification, CreateStandardECMClassificationDto, UpdateStandardECMClassificationDto>,
+  TableViewMethods
+>
+export type EFDetailedGService = Pick<EFDetailedGAirtableService, TableViewMethods>
+export type ThermalCriteriaService = Pick<EntityCrudService<ThermalCriteria, CreateThermalCriteriaDto, UpdateThermalCriteriaDto>, CrudMethods>
+export type GeoCodeService = Pick<EntityCrudService<GeoCode, CreateGeoCodeDto, UpdateGeoCodeDto>, CrudMethods>
+export type OrganizationService = Pick<
+  EntityCrudService<Organization, CreateOrganizationDto, UpdateOrganizationDto>,
+  CrudMethods
+>
+export type UnitConversionService = Pick<UnitConversionAirtableService, TableViewMethods | 'getAllActive' | 'getActivityDensities'>
+export type StandardEmissionFactorService = Pick<
+  StandardEmissionFactorAirtableService,
+  TableViewMethods | 'getByNormalizedActivity' | 'getByVersion' | 'updateMany' | 'createMany'
+>
+export type GHGTypeService = Pick<GHGTypeAirtableService, RepositoryMethods>
+export type EFGWPService = Pick<EFGWPAirtableService, RepositoryMethods>
+export type EmissionFactorVersionService = Pick<EmissionFactorVersionAirtableService, RepositoryMethods>
+export type GeographyService = Pick<GeographyAirtableService, RepositoryMethods>
+
+/** Controller style service over the database's repository of a table */
+const crudService = <T, CreateDto, UpdateDto>(table: string) =>
+  new EntityCrudService<T, CreateDto, UpdateDto>(
+    DatabaseFactory.getDatabase().getRepository<T, CreateDto, UpdateDto>(ENTITY_DESCRIPTORS[table])
+  )
+
+/** Repository style service over the database's repository of a table */
+const repositoryService = <T, CreateDto, UpdateDto>(table: string) =>
+  new EntityRepositoryService<T, CreateDto, UpdateDto>(
+    DatabaseFactory.getDatabase().getRepository<T, CreateDto, UpdateDto>(ENTITY_DESCRIPTORS[table])
+  )
+
+export const getUnitService = (): UnitService => crudService<Unit, CreateUnitDto, UpdateUnitDto>('units')
+
+export const getScopeService = (): ScopeService => crudService<Scope, CreateScopeDto, UpdateScopeDto>('scopes')
+
+export const getScopeCategorisationService = (): ScopeCategorisationService =>
+  DatabaseFactory.usesEntityRepositories()
+    ? crudService<ScopeCategorisation, CreateScopeCategorisationDto, UpdateScopeCategorisationDto>('scope_categorisations')
+    : new ScopeCategorisationAirtableService()
+
+export const getNormalizedActivityService = (): NormalizedActivityService =>
+  DatabaseFactory.usesEntityRepositories()
+    ? crudService<NormalizedActivity, CreateNormalizedActivityDto, UpdateNormalizedActivityDto>('normalized_activities')
+    : new NormalizedActivityAirtableService()
+
+export const getStandardECMCatalogService = (): StandardECMCatalogService =>
+  crudService<StandardECMCatalog, CreateStandardECMCatalogDto, UpdateStandardECMCatalogDto>('standard_ecm_catalog')
+
+export const getStandardECMClassificationService = (): StandardECMClassificationService =>
+  crudService<StandardECMClassification, CreateStandardECMClassificationDto, UpdateStandardECMClassificationDto>(
+    'standard_ecm_classifications'
+  )
+
+export const getEFDetailedGService = (): EFDetailedGService =>
+  DatabaseFactory.usesEntityRepositories()
+    ? crudService<EFDetailedG, CreateEFDetailedGDto, UpdateEFDetailedGDto>('ef_detailed_g')
+    : new EFDetailedGAirtableService()
+
+export const getThermalCriteriaService = (): ThermalCriteriaService =>
+  crudService<ThermalCriteria, CreateThermalCriteriaDto, UpdateThermalCriteriaDto>('thermal_criteria')
+
+export const getGeoCodeService = (): GeoCodeService => crudService<GeoCode, CreateGeoCodeDto, UpdateGeoCodeDto>('geo_codes')
+
+export const getOrganizationService = (): OrganizationService =>
+  crudService<Organization, CreateOrganizationDto, UpdateOrganizationDto>('organizations')
+
+export const getUnitConversionService = (): UnitConversionService =>
+  DatabaseFactory.usesEntityRepositories() ? getUnitConversionEntityService() : new UnitConversionAirtableService()
+
+export const getStandardEmissionFactorService = (): StandardEmissionFactorService =>
+  DatabaseFactory.usesEntityRepositories() ? getStandardEmissionFactorEntityService() : new StandardEmissionFactorAirtableService()
+
+export const getGHGTypeService = (): GHGTypeService =>
+  DatabaseFactory.usesEntityRepositories()
+    ? repositoryService<GHGType, CreateGHGTypeDto, UpdateGHGTypeDto>('ghg_types')
+    : getGHGTypeAirtableService()
+
+export const getEFGWPService = (): EFGWPService =>
+  DatabaseFactory.usesEntityRepositories()
+    ? repositoryService<EFGWP, CreateEFGWPDto, UpdateEFGWPDto>('ef_gwp')
+    : getEFGWPAirtableService()
+
+export const getEmissionFactorVersionService = (): EmissionFactorVersionService =>
+  DatabaseFactory.usesEntityRepositories()
+    ? repositoryService<EmissionFactorVersion, CreateEmissionFactorVersionDto, UpdateEmissionFactorVersionDto>(
+        'emission_factor_versions'
+      )
+    : getEmissionFactorVersionAirtableService()
+
+export const getGeographyService = (): GeographyService =>
+  DatabaseFactory.usesEntityRepositories()
+    ? repositoryService<Geography, CreateGeographyDto, UpdateGeographyDto>('geography')
+    : getGeographyAirtableService()
@@ -1,6 +1,13 @@
 import { IDatabase, QueryOptions, PaginatedResult } from '../interfaces/IDatabase'
 import { Company, CreateCompanyDto, UpdateCompanyDto } from '../../types/Company'
 import { AirtableService } from '../../services/AirtableService'
+import { EntityDescriptor } from '../entities/types'
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { AirtableEntityRepository, getAirtableTableName } from '../repositories/AirtableEntityRepository'
+import { CachedEntityRepository } from '../repositories/CachedEntityRepository'
+import { ENTITY_DESCRIPTORS, getEntityDescriptor } from '../entities/descriptors'
+import { compileEntityFilter } from '../entities/query'
+import { airtableCacheTag } from '../cache/ResponseCache'
 
 /**
  * Airtable Database Adapter
@@ -10,6 +17,7 @@ import { AirtableService } from '../../services/AirtableService'
  */
 export class AirtableAdapter implements IDatabase {
   private airtableService: AirtableService
+  private repositories = new Map<string, IEntityRepository<any, any, any>>()
 
   constructor() {
     this.airtableService = new AirtableService()
@@ -69,6 +77,11 @@ export class AirtableAdapter implements IDatabase {
         })
       }
 
+      // Apply filter tree
+      if (options?.filter) {
+        companies = companies.filter(compileEntityFilter(ENTITY_DESCRIPTORS.companies, options.filter))
+      }
+
       // Apply sorting with natural/alphanumerical sort
       if (options?.sortBy) {
         const sortField = options.sortBy as keyof Company
@@ -120,7 +133,8 @@ export class AirtableAdapter implements IDatabase {
         options?.sortBy,
         options?.sortOrder || 'asc',
         options?.filters, // Pass filters to service for server-side filtering
-        options?.search   // Pass search to service for server-side filtering
+        options?.search,  // Pass search to service for server-side filtering
+        options?.filter
       )
 
       // Map Airtable records to Company objects
@@ -244,5 +258,18 @@ export class AirtableAdapter implements IDatabase {
       return []
     }
   }
-}
 
+  getRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>(
+    descriptor: EntityDescriptor
+  ): IEntityRepository<T, CreateDto, UpdateDto> {
+    if (!this.repositories.has(descriptor.table)) {
+      this.repositories.set(
+        descriptor.table,
+        new CachedEntityRepository(new AirtableEntityRepository(descriptor), table =>
+          airtableCacheTag(getAirtableTableName(getEntityDescriptor(table)))
+        )
+      )
+    }
+    return this.repositories.get(descriptor.table) as IEntityRepository<T, CreateDto, UpdateDto>
+  }
+}
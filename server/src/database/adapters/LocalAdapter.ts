@@ -0,0 +1,135 @@
+import { IDatabase, QueryOptions, PaginatedResult } from '../interfaces/IDatabase'
+import { Company, CreateCompanyDto, UpdateCompanyDto } from '../../types/Company'
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+import { EntityDescriptor } from '../entities/types'
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { CachedEntityRepository } from '../repositories/CachedEntityRepository'
+import { InMemoryEntityRepository } from '../repositories/InMemoryEntityRepository'
+import { FileEntityStore } from '../local/FileEntityStore'
+
+/**
+ * Local Database Adapter
+ *
+ * Implements IDatabase interface with every entity table kept in a local JSON file
+ * (database/local/FileEntityStore.ts), for offline development and test runs
+ * without Airtable or PostgreSQL.
+ *
+ * Load the fixture snapshots first with: npm run db:local:seed
+ */
+export class LocalAdapter implements IDatabase {
+  private store: FileEntityStore
+  private repositories = new Map<string, IEntityRepository<any, any, any>>()
+
+  constructor() {
+    this.store = new FileEntityStore()
+    console.log(`💾 Local database file: ${this.store.path}`)
+  }
+
+  private get companies(): IEntityRepository<Record<string, any>, CreateCompanyDto, UpdateCompanyDto> {
+    return this.getRepository(ENTITY_DESCRIPTORS.companies)
+  }
+
+  getName(): string {
+    return 'Local (File)'
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true // The file is read when the adapter is created
+  }
+
+  async findAllCompanies(options?: QueryOptions): Promise<Company[]> {
+    const result = await this.companies.list({
+      offset: options?.offset,
+      limit: options?.limit,
+      sortBy: options?.sortBy,
+      sortOrder: options?.sortOrder,
+      filters: options?.filters,
+      search: options?.search,
+      filter: options?.filter,
+    })
+    return result.records.map(record => this.mapRecordToCompany(record))
+  }
+
+  async findCompaniesPaginated(options?: QueryOptions): Promise<PaginatedResult<Company>> {
+    const limit = options?.limit || 50
+    const offset = options?.offset || 0
+
+    const result = await this.companies.list({
+      offset,
+      limit,
+      sortBy: options?.sortBy,
+      sortOrder: options?.sortOrder || 'asc',
+      filters: options?.filters,
+      search: options?.search,
+      filter: options?.filter,
+    })
+
+    return {
+      data: result.records.map(record => this.mapRecordToCompany(record)),
+      total: result.total,
+      limit,
+      offset,
+      hasMore: offset + limit < result.total,
+    }
+  }
+
+  async findCompanyById(id: string): Promise<Company | null> {
+    const record = await this.companies.get(id)
+    return record ? this.mapRecordToCompany(record) : null
+  }
+
+  async createCompany(dto: CreateCompanyDto): Promise<Company> {
+    return this.mapRecordToCompany(await this.companies.create(dto))
+  }
+
+  async updateCompany(id: string, dto: UpdateCompanyDto): Promise<Company | null> {
+    const record = await this.companies.update(id, dto)
+    return record ? this.mapRecordToCompany(record) : null
+  }
+
+  async deleteCompany(id: string): Promise<boolean> {
+    return this.companies.delete(id)
+  }
+
+  async companyExists(id: string): Promise<boolean> {
+    return (await this.companies.get(id)) !== null
+  }
+
+  async countCompanies(filters?: Record<string, any>): Promise<number> {
+    return this.companies.count(filters)
+  }
+
+  async getDistinctFieldValues(fieldName: string, limit: number = 1000): Promise<string[]> {
+    return this.companies.distinct(fieldName, limit)
+  }
+
+  getRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>(
+    descriptor: EntityDescriptor
+  ): IEntityRepository<T, CreateDto, UpdateDto> {
+    if (!this.repositories.has(descriptor.table)) {
+      this.repositories.set(descriptor.table, new CachedEntityRepository(new InMemoryEntityRepository(descriptor, this.store)))
+    }
+    return this.repositories.get(descriptor.table) as IEntityRepository<T, CreateDto, UpdateDto>
+  }
+
+  /**
+   * Map a companies record to Company (text fields default to '' as in the Airtable mapping)
+   */
+  private mapRecordToCompany(record: Record<string, any>): Company {
+    return {
+      id: record.id,
+      isinCode: record.isinCode || '',
+      companyName: record.companyName || '',
+      status: record.status === 'Closed' ? 'Closed' : 'Active',
+      primarySector: record.primarySector || '',
+      primaryActivity: record.primaryActivity || '',
+      primaryIndustry: record.primaryIndustry || '',
+      notes: record.notes,
+      organizationId: record.organizationId || undefined,
+      createdBy: 'System',
+      created: record.created || '',
+      lastModifiedBy: 'System',
+      lastModified: record.lastModified || '',
+    }
+  }
+}
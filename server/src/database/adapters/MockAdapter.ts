@@ -1,6 +1,12 @@
 import { IDatabase, QueryOptions, PaginatedResult } from '../interfaces/IDatabase'
 import { Company, CreateCompanyDto, UpdateCompanyDto } from '../../types/Company'
 import { mockCompanies } from '../../data/mockData'
+import { EntityDescriptor } from '../entities/types'
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+import { compileEntityFilter } from '../entities/query'
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { CachedEntityRepository } from '../repositories/CachedEntityRepository'
+import { InMemoryEntityRepository, InMemoryEntityStore } from '../repositories/InMemoryEntityRepository'
 
 /**
  * Mock Database Adapter
@@ -10,6 +16,8 @@ import { mockCompanies } from '../../data/mockData'
  */
 export class MockAdapter implements IDatabase {
   private companies: Company[]
+  private store = new InMemoryEntityStore()
+  private repositories = new Map<string, IEntityRepository<any, any, any>>()
 
   constructor() {
     // Create a mutable copy of mock data
@@ -49,6 +57,11 @@ export class MockAdapter implements IDatabase {
       })
     }
 
+    // Apply filter tree
+    if (options?.filter) {
+      result = result.filter(compileEntityFilter(ENTITY_DESCRIPTORS.companies, options.filter))
+    }
+
     // Apply sorting with natural/alphanumerical sort
     if (options?.sortBy) {
       const sortField = options.sortBy as keyof Company
@@ -120,6 +133,7 @@ export class MockAdapter implements IDatabase {
       primaryActivity: dto.primaryActivity || '',
       primaryIndustry: dto.primaryIndustry || '',
       notes: dto.notes || '',
+      organizationId: dto.organizationId,
       createdBy: userId,
       created: now,
       lastModifiedBy: userId,
@@ -188,5 +202,13 @@ export class MockAdapter implements IDatabase {
     
     return Array.from(values).sort().slice(0, limit)
   }
-}
 
+  getRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>(
+    descriptor: EntityDescriptor
+  ): IEntityRepository<T, CreateDto, UpdateDto> {
+    if (!this.repositories.has(descriptor.table)) {
+      this.repositories.set(descriptor.table, new CachedEntityRepository(new InMemoryEntityRepository(descriptor, this.store)))
+    }
+    return this.repositories.get(descriptor.table) as IEntityRepository<T, CreateDto, UpdateDto>
+  }
+}
@@ -1,44 +1,29 @@
 import { IDatabase, QueryOptions, PaginatedResult } from '../interfaces/IDatabase'
 import { Company, CreateCompanyDto, UpdateCompanyDto } from '../../types/Company'
+import { getPostgreSQLPool } from '../postgres/connection'
+import { PostgreSQLTable } from '../postgres/PostgreSQLTable'
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+import { EntityDescriptor } from '../entities/types'
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { PostgreSQLEntityRepository } from '../repositories/PostgreSQLEntityRepository'
+import { CachedEntityRepository } from '../repositories/CachedEntityRepository'
+import { entityCacheTag, getResponseCache } from '../cache/ResponseCache'
 
 /**
  * PostgreSQL Database Adapter
- * 
+ *
  * Implements IDatabase interface using PostgreSQL as the data source.
- * 
- * TODO: Implement PostgreSQL connection and queries
- * 
- * Example implementation:
- * ```typescript
- * import { Pool } from 'pg'
- * 
- * export class PostgreSQLAdapter implements IDatabase {
- *   private pool: Pool
- *   
- *   constructor() {
- *     this.pool = new Pool({
- *       host: process.env.DB_HOST,
- *       port: parseInt(process.env.DB_PORT || '5432'),
- *       database: process.env.DB_NAME,
- *       user: process.env.DB_USER,
- *       password: process.env.DB_PASSWORD,
- *     })
- *   }
- *   
- *   async findAllCompanies(options?: QueryOptions): Promise<Company[]> {
- *     const query = 'SELECT * FROM companies ORDER BY name ASC'
- *     const result = await this.pool.query(query)
- *     return result.rows.map(this.mapRowToCompany)
- *   }
- *   // ... implement other methods
- * }
- * ```
+ * Queries go through the shared connection pool (database/postgres/connection.ts);
+ * filtering, search and natural sorting run in SQL, so totals are exact.
+ *
+ * Create the tables first with: npm run db:postgres:schema
  */
 export class PostgreSQLAdapter implements IDatabase {
+  private table: PostgreSQLTable
+  private repositories = new Map<string, IEntityRepository<any, any, any>>()
+
   constructor() {
-    // TODO: Initialize PostgreSQL connection pool
-    // Example:
-    // this.pool = new Pool({ ... })
+    this.table = new PostgreSQLTable(ENTITY_DESCRIPTORS.companies)
   }
 
   getName(): string {
@@ -46,69 +31,169 @@ export class PostgreSQLAdapter implements IDatabase {
   }
 
   async healthCheck(): Promise<boolean> {
-    // TODO: Implement PostgreSQL health check
-    // Example:
-    // try {
-    //   const result = await this.pool.query('SELECT 1')
-    //   return result.rows.length > 0
-    // } catch (error) {
-    //   return false
-    // }
-    throw new Error('PostgreSQL adapter not yet implemented')
+    try {
+      const result = await getPostgreSQLPool().query('SELECT 1')
+      return result.rows.length > 0
+    } catch (error) {
+      console.error('PostgreSQL health check failed:', error)
+      return false
+    }
   }
 
   async findAllCompanies(options?: QueryOptions): Promise<Company[]> {
-    // TODO: Implement PostgreSQL query with options
-    // Example SQL:
-    // SELECT * FROM companies 
-    // WHERE ($1::text IS NULL OR company_name ILIKE '%' || $1 || '%')
-    // ORDER BY name ASC
-    // LIMIT $2 OFFSET $3
-    throw new Error('PostgreSQL adapter not yet implemented')
+    try {
+      const result = await this.table.list({
+        offset: options?.offset,
+        limit: options?.limit,
+        sortBy: options?.sortBy,
+        sortOrder: options?.sortOrder,
+        filters: options?.filters,
+        search: options?.search,
+        filter: options?.filter,
+      })
+      return result.records.map(record => this.mapRecordToCompany(record))
+    } catch (error) {
+      console.error('Error in PostgreSQLAdapter.findAllCompanies:', error)
+      throw error
+    }
   }
 
   async findCompaniesPaginated(options?: QueryOptions): Promise<PaginatedResult<Company>> {
-    // TODO: Implement paginated query with natural sorting
-    // For natural/alphanumerical sorting in PostgreSQL, use:
-    // ORDER BY field COLLATE "C" -- for case-sensitive natural sort
-    // Or use a custom function for true natural sort (handling numbers correctly)
-    // Example: ORDER BY regexp_replace(field, '[0-9]+', '0000000000\&', 'g')
-    throw new Error('PostgreSQL adapter not yet implemented')
+    const limit = options?.limit || 50
+    const offset = options?.offset || 0
+
+    try {
+      const result = await this.table.list({
+        offset,
+        limit,
+        sortBy: options?.sortBy,
+        sortOrder: options?.sortOrder || 'asc',
+        filters: options?.filters,
+        search: options?.search,
+        filter: options?.filter,
+      })
+
+      return {
+        data: result.records.map(record => this.mapRecordToCompany(record)),
+        total: result.total,
+        limit,
+        offset,
+        hasMore: offset + limit < result.total,
+      }
+    } catch (error) {
+      console.error('Error in PostgreSQLAdapter.findCompaniesPaginated:', error)
+      throw error
+    }
   }
 
   async findCompanyById(id: string): Promise<Company | null> {
-    // TODO: Implement SELECT * FROM companies WHERE id = $1
-    throw new Error('PostgreSQL adapter not yet implemented')
+    try {
+      const record = await this.table.findById(id)
+      return record ? this.mapRecordToCompany(record) : null
+    } catch (error) {
+      console.error('Error in PostgreSQLAdapter.findCompanyById:', error)
+      return null
+    }
   }
 
   async createCompany(dto: CreateCompanyDto, userId: string = 'System'): Promise<Company> {
-    // TODO: Implement INSERT INTO companies (...)
-    throw new Error('PostgreSQL adapter not yet implemented')
+    try {
+      const id = await this.table.insert(dto, userId)
+      await this.invalidateCompanies()
+      const record = await this.table.findById(id)
+      return this.mapRecordToCompany(record!)
+    } catch (error) {
+      console.error('Error in PostgreSQLAdapter.createCompany:', error)
+      throw error
+    }
   }
 
   async updateCompany(id: string, dto: UpdateCompanyDto, userId: string = 'System'): Promise<Company | null> {
-    // TODO: Implement UPDATE companies SET ... WHERE id = $1
-    throw new Error('PostgreSQL adapter not yet implemented')
+    try {
+      const updated = await this.table.update(id, dto, userId)
+      await this.invalidateCompanies()
+      if (!updated) return null
+      const record = await this.table.findById(id)
+      return record ? this.mapRecordToCompany(record) : null
+    } catch (error) {
+      console.error('❌ Error in PostgreSQLAdapter.updateCompany:', error)
+      throw error
+    }
   }
 
   async deleteCompany(id: string): Promise<boolean> {
-    // TODO: Implement DELETE FROM companies WHERE id = $1
-    throw new Error('PostgreSQL adapter not yet implemented')
+    try {
+      const deleted = await this.table.remove(id)
+      await this.invalidateCompanies()
+      return deleted
+    } catch (error) {
+      console.error('Error in PostgreSQLAdapter.deleteCompany:', error)
+      return false
+    }
   }
 
   async companyExists(id: string): Promise<boolean> {
-    // TODO: Implement SELECT EXISTS(SELECT 1 FROM companies WHERE id = $1)
-    throw new Error('PostgreSQL adapter not yet implemented')
+    try {
+      const result = await getPostgreSQLPool().query('SELECT EXISTS(SELECT 1 FROM companies WHERE id = $1) AS exists', [id])
+      return !!result.rows[0]?.exists
+    } catch (error) {
+      console.error('Error in PostgreSQLAdapter.companyExists:', error)
+      return false
+    }
   }
 
   async countCompanies(filters?: Record<string, any>): Promise<number> {
-    // TODO: Implement SELECT COUNT(*) FROM companies WHERE ...
-    throw new Error('PostgreSQL adapter not yet implemented')
+    try {
+      return await this.table.count(filters)
+    } catch (error) {
+      console.error('Error in PostgreSQLAdapter.countCompanies:', error)
+      return 0
+    }
   }
 
   async getDistinctFieldValues(fieldName: string, limit: number = 1000): Promise<string[]> {
-    // TODO: Implement SELECT DISTINCT field_name FROM companies LIMIT ...
-    throw new Error('PostgreSQL adapter not yet implemented')
+    try {
+      return await this.table.distinct(fieldName, limit)
+    } catch (error) {
+      console.error('Error in PostgreSQLAdapter.getDistinctFieldValues:', error)
+      return []
+    }
+  }
+
+  getRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>(
+    descriptor: EntityDescriptor
+  ): IEntityRepository<T, CreateDto, UpdateDto> {
+    if (!this.repositories.has(descriptor.table)) {
+      this.repositories.set(descriptor.table, new CachedEntityRepository(new PostgreSQLEntityRepository(descriptor)))
+    }
+    return this.repositories.get(descriptor.table) as IEntityRepository<T, CreateDto, UpdateDto>
+  }
+
+  /**
+   * Company writes bypass the companies repository - drop its cached reads
+   */
+  private async invalidateCompanies(): Promise<void> {
+    await getResponseCache().invalidate([entityCacheTag('companies')])
   }
-}
 
+  /**
+   * Map a companies row to Company (text columns default to '' as in the Airtable mapping)
+   */
+  private mapRecordToCompany(record: Record<string, any>): Company {
+    return {
+      id: record.id,
+      isinCode: record.isinCode || '',
+      companyName: record.companyName || '',
+      status: record.status === 'Closed' ? 'Closed' : 'Active',
+      primarySector: record.primarySector || '',
+      primaryActivity: record.primaryActivity || '',
+      primaryIndustry: record.primaryIndustry || '',
+      notes: record.notes,
+      organizationId: record.organizationId || undefined,
+      createdBy: record.createdBy || 'System',
+      created: record.created || '',
+      lastModifiedBy: record.lastModifiedBy || 'System',
+      lastModified: record.lastModified || '',
+    }
+  }
+}
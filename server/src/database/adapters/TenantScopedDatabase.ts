@@ -0,0 +1,102 @@
+import { IDatabase, PaginatedResult, QueryOptions } from '../interfaces/IDatabase'
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { EntityDescriptor } from '../entities/types'
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+import { allOf } from '../filters/FilterAst'
+import { tenantScoped } from '../repositories/TenantScopedEntityRepository'
+import { Company, CreateCompanyDto, UpdateCompanyDto } from '../../types/Company'
+import { getTenantScope, isInTenantScope, stampTenant, tenantFilter } from '../../auth/TenantContext'
+
+/** Field holding the organization of a company */
+const COMPANY_TENANT_FIELD = ENTITY_DESCRIPTORS.companies.tenantField!
+
+/**
+ * Tenant Scoped Database
+ *
+ * Wraps the database adapter so that every backend only sees and writes the records of
+ * the organization in scope (auth/TenantContext) in tenant tables: the company methods,
+ * and the repositories of every table with a tenantField (TenantScopedEntityRepository).
+ * DatabaseFactory returns the adapter wrapped in one.
+ */
+export class TenantScopedDatabase implements IDatabase {
+  private repositories = new Map<string, IEntityRepository<any, any, any>>()
+
+  constructor(private readonly database: IDatabase) {}
+
+  getName(): string {
+    return this.database.getName()
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.database.healthCheck()
+  }
+
+  findAllCompanies(options?: QueryOptions): Promise<Company[]> {
+    return this.database.findAllCompanies(this.scoped(options))
+  }
+
+  findCompaniesPaginated(options?: QueryOptions): Promise<PaginatedResult<Company>> {
+    return this.database.findCompaniesPaginated(this.scoped(options))
+  }
+
+  async findCompanyById(id: string): Promise<Company | null> {
+    const company = await this.database.findCompanyById(id)
+    return company && isInTenantScope(company, COMPANY_TENANT_FIELD) ? company : null
+  }
+
+  createCompany(dto: CreateCompanyDto, userId?: string): Promise<Company> {
+    return this.database.createCompany(stampTenant(dto, COMPANY_TENANT_FIELD), userId)
+  }
+
+  async updateCompany(id: string, dto: UpdateCompanyDto, userId?: string): Promise<Company | null> {
+    if (!(await this.findCompanyById(id))) {
+      return null
+    }
+    return this.database.updateCompany(id, stampTenant(dto, COMPANY_TENANT_FIELD, false), userId)
+  }
+
+  async deleteCompany(id: string): Promise<boolean> {
+    if (!(await this.findCompanyById(id))) {
+      return false
+    }
+    return this.database.deleteCompany(id)
+  }
+
+  async companyExists(id: string): Promise<boolean> {
+    return (await this.findCompanyById(id)) !== null
+  }
+
+  async countCompanies(filters?: Record<string, any>): Promise<number> {
+    if (!getTenantScope().allOrganizations) {
+      return (await this.findCompaniesPaginated({ filters, limit: 1 })).total
+    }
+    return this.database.countCompanies(filters)
+  }
+
+  async getDistinctFieldValues(fieldName: string, limit?: number): Promise<string[]> {
+    if (!getTenantScope().allOrganizations) {
+      // Values of the organization's companies only
+      const values = (await this.findAllCompanies()).map(company => (company as any)[fieldName])
+      return Array.from(new Set(values.filter(value => typeof value === 'string' && value.trim()).map(value => value.trim())))
+        .sort()
+        .slice(0, limit)
+    }
+    return this.database.getDistinctFieldValues(fieldName, limit)
+  }
+
+  getRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>(
+    descriptor: EntityDescriptor
+  ): IEntityRepository<T, CreateDto, UpdateDto> {
+    if (!this.repositories.has(descriptor.table)) {
+      this.repositories.set(descriptor.table, tenantScoped(this.database.getRepository(descriptor)))
+    }
+    return this.repositories.get(descriptor.table) as IEntityRepository<T, CreateDto, UpdateDto>
+  }
+
+  /**
+   * Query options limited to the companies of the organization in scope
+   */
+  private scoped(options?: QueryOptions): QueryOptions {
+    return { ...options, filter: allOf(options?.filter, tenantFilter(COMPANY_TENANT_FIELD)) }
+  }
+}
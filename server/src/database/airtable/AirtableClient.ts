@@ -0,0 +1,78 @@
+import Airtable from 'airtable'
+import { AirtableQueueMetrics, AirtableRequestQueue, AirtableResponse, isReadRequest } from './AirtableRequestQueue'
+import { airtableCacheTag, getResponseCache } from '../cache/ResponseCache'
+import { countAirtableWrite } from './AirtableRecordCounts'
+
+/**
+ * Shared Airtable Client
+ *
+ * One Airtable base object per base and token, shared by every service, whose requests
+ * (select, find, create, update, destroy) go through the AirtableRequestQueue of the base.
+ * Use getAirtableBase instead of Airtable.configure() + Airtable.base().
+ *
+ * A write invalidates the response cache entries read from its table and updates its
+ * record counts (AirtableRecordCounts), whoever made it.
+ */
+
+type ActionCallback = (error: any, response?: any, body?: any) => void
+type RunAction = (method: string, path: string, queryParams: any, body: any, callback: ActionCallback) => void
+
+const bases = new Map<string, Airtable.Base>()
+const queues = new Map<string, AirtableRequestQueue>()
+
+/**
+ * Table ID or name of a request path, e.g. /tblXXX/recYYY or /Unit%20Conversion/listRecords
+ */
+const requestTable = (path: string): string => decodeURIComponent(path.split('/')[1] || '')
+
+const getQueue = (baseId: string): AirtableRequestQueue => {
+  let queue = queues.get(baseId)
+  if (!queue) {
+    queue = new AirtableRequestQueue(baseId)
+    queues.set(baseId, queue)
+  }
+  return queue
+}
+
+export const getAirtableBase = (baseId: string, apiKey: string): Airtable.Base => {
+  const key = `${baseId}:${apiKey}`
+  let base = bases.get(key)
+  if (!base) {
+    // Rate limited requests are retried by the queue, not by airtable.js
+    base = new Airtable({ apiKey, noRetryIfRateLimited: true }).base(baseId)
+
+    // Tables, queries and records send every request through runAction of the Base behind the functor
+    const target = (base as any)._base as { runAction: RunAction }
+    const runAction: RunAction = target.runAction.bind(target)
+    const queue = getQueue(baseId)
+
+    target.runAction = (method, path, queryParams, body, callback) => {
+      const send = () => new Promise<AirtableResponse>((resolve, reject) => {
+        runAction(method, path, queryParams, body, (error, response, result) =>
+          error ? reject(error) : resolve({ response, body: result })
+        )
+      })
+
+      const request = { token: apiKey, method, path, queryParams, body }
+      const sent = isReadRequest(request)
+        ? queue.request(request, send)
+        : countAirtableWrite(baseId, requestTable(path), request, () => queue.request(request, send))
+            // Before the caller sees the result, so that its next read is fresh
+            .finally(() => getResponseCache().invalidate([airtableCacheTag(requestTable(path))]))
+
+      sent.then(
+        ({ response, body: result }) => callback(null, response, result),
+        error => callback(error)
+      )
+    }
+
+    bases.set(key, base)
+  }
+  return base
+}
+
+/**
+ * Queue metrics of every base used so far
+ */
+export const getAirtableRequestMetrics = (): AirtableQueueMetrics[] =>
+  Array.from(queues.values()).map(queue => queue.getMetrics())
@@ -0,0 +1,198 @@
+import Airtable from 'airtable'
+import { AirtableRequest, AirtableResponse } from './AirtableRequestQueue'
+import { getRecordCountService, RecordCountSource } from '../counts/RecordCountService'
+import { formulaRecordIds } from '../filters/AirtableFormula'
+
+/**
+ * Airtable Record Counts
+ *
+ * Record counts of Airtable tables for the RecordCountService. Filters are Airtable
+ * filter formulas. Airtable has no count endpoint, so a count is computed by reading the
+ * matching records once; after that the shared client keeps it up to date from every
+ * write to the table (countAirtableWrite):
+ * - create: the total grows by the created records; each tracked filter by the created
+ *   records matching it
+ * - delete: the total and each tracked filter shrink by the deleted records matching
+ *   them, checked before deleting
+ * - update: each tracked filter naming an updated field is checked before and after
+ * The records are checked with one request per filter, for the whole batch. Upserts,
+ * whose created records are not known in advance, drop the counts of the table.
+ */
+
+/** Record IDs per RECORD_ID() check - keeps the formula within URL limits */
+const CHECK_BATCH_SIZE = 50
+
+interface CountedTable {
+  base: Airtable.Base
+  table: string
+  countField?: string
+}
+
+const countedTables = new Map<string, CountedTable>()
+
+const countKey = (baseId: string, table: string): string => `${baseId}/${table}`
+
+const readIds = async (counted: CountedTable, filterByFormula?: string): Promise<string[]> => {
+  const ids: string[] = []
+  await counted.base(counted.table)
+    .select({
+      pageSize: 100,
+      // One small field per record is enough to count
+      ...(counted.countField ? { fields: [counted.countField] } : {}),
+      ...(filterByFormula ? { filterByFormula } : {}),
+    })
+    .eachPage((records, fetchNextPage) => {
+      ids.push(...records.map(record => record.id))
+      fetchNextPage()
+    })
+  return ids
+}
+
+class AirtableCountSource implements RecordCountSource {
+  constructor(private readonly counted: CountedTable) {}
+
+  async count(filter: string): Promise<number> {
+    return (await readIds(this.counted, filter || undefined)).length
+  }
+}
+
+/**
+ * Count the records of a table; returns the RecordCountService table key.
+ * countField: a field of the table to read while counting, instead of every field
+ */
+export function registerAirtableCounts(baseId: string, base: Airtable.Base, table: string, countField?: string): string {
+  const key = countKey(baseId, table)
+  if (!countedTables.has(key)) {
+    const counted = { base, table, countField }
+    countedTables.set(key, counted)
+    getRecordCountService().register(key, new AirtableCountSource(counted))
+  }
+  return key
+}
+
+/**
+ * Records of ids matching the filter
+ */
+const countMatching = async (counted: CountedTable, filter: string, ids: string[]): Promise<number> => {
+  let matching = 0
+  for (let i = 0; i < ids.length; i += CHECK_BATCH_SIZE) {
+    const batch = ids.slice(i, i + CHECK_BATCH_SIZE)
+    const formula = `AND(${formulaRecordIds(batch)}, ${filter})`
+    matching += (await readIds(counted, formula)).length
+  }
+  return matching
+}
+
+const responseIds = (body: any): string[] => {
+  const records = Array.isArray(body?.records) ? body.records : body?.id ? [body] : []
+  return records.map((record: any) => record.id).filter(Boolean)
+}
+
+/**
+ * Run a write to a table, keeping its tracked counts up to date
+ */
+export async function countAirtableWrite(
+  baseId: string,
+  table: string,
+  request: Omit<AirtableRequest, 'token'>,
+  write: () => Promise<AirtableResponse>
+): Promise<AirtableResponse> {
+  const key = countKey(baseId, table)
+  const counted = countedTables.get(key)
+  const counts = getRecordCountService()
+  if (!counted) {
+    return write()
+  }
+
+  const method = request.method.toUpperCase()
+  const pathId = request.path.split('/')[2]
+  const body = request.body || {}
+  const records: Array<{ id?: string; fields?: Record<string, any> }> = pathId
+    ? [{ id: pathId, fields: body.fields }]
+    : Array.isArray(body.records) ? body.records : []
+
+  counts.touch(key)
+  try {
+    if (method === 'POST') {
+      const response = await write()
+      const created = responseIds(response.body)
+      counts.adjust(key, '', created.length)
+      for (const filter of counts.getTrackedFilters(key)) {
+        await adjustByMatching(key, counted, filter, created)
+      }
+      return response
+    }
+
+    if ((method === 'PATCH' || method === 'PUT') && body.performUpsert) {
+      const response = await write()
+      counts.forget(key)
+      return response
+    }
+
+    if (method === 'DELETE') {
+      const ids: string[] = pathId ? [pathId] : [].concat(request.queryParams?.records || [])
+      const before = await matchingByFilter(key, counted, counts.getTrackedFilters(key), ids)
+      const response = await write()
+      const deleted = responseIds(response.body)
+      counts.adjust(key, '', -deleted.length)
+      before.forEach((matching, filter) => counts.adjust(key, filter, -matching))
+      return response
+    }
+
+    if (method === 'PATCH' || method === 'PUT') {
+      const ids = records.map(record => record.id!).filter(Boolean)
+      // PUT clears the fields it does not set
+      const updatedFields = records.flatMap(record => Object.keys(record.fields || {}).map(field => field.toLowerCase()))
+      const filters = counts.getTrackedFilters(key).filter(filter =>
+        method === 'PUT' || updatedFields.some(field => filter.toLowerCase().includes(field))
+      )
+      const before = await matchingByFilter(key, counted, filters, ids)
+      const response = await write()
+      for (const [filter, matching] of before) {
+        await adjustByMatching(key, counted, filter, ids, matching)
+      }
+      return response
+    }
+
+    return await write()
+  } finally {
+    counts.touch(key)
+  }
+}
+
+/**
+ * Records of ids matching each filter - a filter that cannot be checked is dropped
+ */
+async function matchingByFilter(
+  key: string,
+  counted: CountedTable,
+  filters: string[],
+  ids: string[]
+): Promise<Map<string, number>> {
+  const matching = new Map<string, number>()
+  for (const filter of filters) {
+    try {
+      matching.set(filter, await countMatching(counted, filter, ids))
+    } catch (error: any) {
+      console.warn(`⚠️  Could not check records against a counted filter of ${counted.table}:`, error?.message || error)
+      getRecordCountService().forget(key, filter)
+    }
+  }
+  return matching
+}
+
+/**
+ * Add the records of ids now matching the filter, less those matching before the write
+ */
+async function adjustByMatching(
+  key: string,
+  counted: CountedTable,
+  filter: string,
+  ids: string[],
+  matchingBefore: number = 0
+): Promise<void> {
+  const matching = await matchingByFilter(key, counted, [filter], ids)
+  if (matching.has(filter)) {
+    getRecordCountService().adjust(key, filter, matching.get(filter)! - matchingBefore)
+  }
+}
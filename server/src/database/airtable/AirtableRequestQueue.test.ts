@@ -0,0 +1,60 @@
+import { AirtableRequest, AirtableRequestQueue, AirtableResponse } from './AirtableRequestQueue'
+
+const request = (method: string, path: string): AirtableRequest => ({
+  token: 'token', method, path, queryParams: { pageSize: 100 }, body: null,
+})
+
+const airtableError = (statusCode: number, message: string) => Object.assign(new Error(message), { statusCode })
+
+describe('AirtableRequestQueue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('shares identical reads in flight, sends every write and keeps to the rate limit', async () => {
+    const queue = new AirtableRequestQueue('appTest')
+    const send = jest.fn(async (): Promise<AirtableResponse> => ({ response: {}, body: { records: [{ id: 'rec1' }] } }))
+
+    const [first, second] = await Promise.all([
+      queue.request(request('GET', '/v0/appTest/Units'), send),
+      queue.request(request('get', '/v0/appTest/Units'), send),
+    ])
+    expect(send).toHaveBeenCalledTimes(1)
+    first.body.records.push({ id: 'rec2' })
+    expect(second.body.records).toEqual([{ id: 'rec1' }])
+
+    await Promise.all([
+      queue.request(request('PATCH', '/v0/appTest/Units'), send),
+      queue.request(request('PATCH', '/v0/appTest/Units'), send),
+    ])
+    expect(send).toHaveBeenCalledTimes(3)
+
+    // 3 of the 5 tokens per second are spent: 2 of these wait for the bucket to refill
+    const reads = Promise.all([1, 2, 3, 4].map(page => queue.request(request('GET', `/v0/appTest/Units/${page}`), send)))
+    expect(queue.getMetrics()).toMatchObject({ queueDepth: 2 })
+    await jest.advanceTimersByTimeAsync(400)
+    await reads
+    expect(queue.getMetrics()).toMatchObject({ baseId: 'appTest', queueDepth: 0, requests: 7, coalesced: 1, retries: 0 })
+  })
+
+  it('retries rate limited requests after a backoff, and fails other errors at once', async () => {
+    const queue = new AirtableRequestQueue('appTest')
+    const send = jest.fn<Promise<AirtableResponse>, []>()
+      .mockRejectedValueOnce(airtableError(429, 'Rate limited'))
+      .mockResolvedValueOnce({ response: {}, body: { id: 'rec1' } })
+
+    const result = queue.request(request('POST', '/v0/appTest/Units'), send)
+    await jest.advanceTimersByTimeAsync(1000)
+    await expect(result).resolves.toMatchObject({ body: { id: 'rec1' } })
+    expect(send).toHaveBeenCalledTimes(2)
+
+    const failing = jest.fn<Promise<AirtableResponse>, []>().mockRejectedValue(airtableError(422, 'Invalid value'))
+    await expect(queue.request(request('POST', '/v0/appTest/Units'), failing)).rejects.toThrow('Invalid value')
+    expect(failing).toHaveBeenCalledTimes(1)
+    expect(queue.getMetrics()).toMatchObject({ requests: 3, retries: 1, rateLimited: 1, failed: 1, inFlight: 0 })
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Airtable Request Queue
+ *
+ * Every request to one Airtable base goes through the queue of that base:
+ * - a token bucket keeps to the rate limit of the base (5 requests per second)
+ * - a rate limited response (429) holds back the whole base, then the request is retried
+ *   with exponential backoff
+ * - identical reads in flight share one request
+ *
+ * Environment Variables:
+ * - AIRTABLE_REQUESTS_PER_SECOND: requests per second per base (default: 5)
+ * - AIRTABLE_MAX_RETRIES: retries of a rate limited request (default: 5)
+ */
+
+export interface AirtableRequest {
+  token: string // requests of different tokens are never shared
+  method: string
+  path: string
+  queryParams: Record<string, any>
+  body: any
+}
+
+export interface AirtableResponse {
+  response: any
+  body: any
+}
+
+export interface AirtableQueueMetrics {
+  baseId: string
+  queueDepth: number // requests waiting for a token
+  inFlight: number
+  requests: number // sent, retries included
+  retries: number
+  rateLimited: number // 429 responses
+  coalesced: number // reads answered by an identical read in flight
+  failed: number
+}
+
+const INITIAL_RETRY_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 30 * 1000
+
+// Reads: list (GET, or POST to listRecords for long formulas) and find
+export const isReadRequest = (request: Pick<AirtableRequest, 'method' | 'path'>): boolean =>
+  request.method.toUpperCase() === 'GET' ||
+  (request.method.toUpperCase() === 'POST' && request.path.endsWith('/listRecords'))
+
+/**
+ * Exponential backoff with jitter: between half and all of the doubled delay
+ */
+const backoffDelay = (attempt: number): number => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, INITIAL_RETRY_DELAY_MS * 2 ** attempt)
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+export class AirtableRequestQueue {
+  private readonly requestsPerSecond: number
+  private readonly maxRetries: number
+  private tokens: number
+  private lastRefill = Date.now()
+  private pausedUntil = 0
+  private waiting: Array<() => void> = []
+  private timer: NodeJS.Timeout | null = null
+  private inFlightReads = new Map<string, Promise<{ response: AirtableResponse; snapshot: string }>>()
+  private counters = { inFlight: 0, requests: 0, retries: 0, rateLimited: 0, coalesced: 0, failed: 0 }
+
+  constructor(private readonly baseId: string) {
+    this.requestsPerSecond = Math.max(1, Number(process.env.AIRTABLE_REQUESTS_PER_SECOND) || 5)
+    const maxRetries = parseInt(process.env.AIRTABLE_MAX_RETRIES || '', 10)
+    this.maxRetries = Number.isNaN(maxRetries) ? 5 : Math.max(0, maxRetries)
+    this.tokens = this.requestsPerSecond
+  }
+
+  /**
+   * Send a request when the rate limit allows it; send rejects with the Airtable error
+   */
+  async request(request: AirtableRequest, send: () => Promise<AirtableResponse>): Promise<AirtableResponse> {
+    if (!isReadRequest(request)) {
+      return this.sendWithRetry(send)
+    }
+
+    const key = JSON.stringify([request.token, request.method.toUpperCase(), request.path, request.queryParams, request.body])
+    const inFlight = this.inFlightReads.get(key)
+    if (inFlight) {
+      this.counters.coalesced++
+      // A copy, so that no caller sees records changed by another
+      const { response, snapshot } = await inFlight
+      return { response: response.response, body: JSON.parse(snapshot) }
+    }
+
+    const shared = this.sendWithRetry(send)
+      .then(response => ({ response, snapshot: JSON.stringify(response.body) }))
+      .finally(() => this.inFlightReads.delete(key))
+    this.inFlightReads.set(key, shared)
+    return (await shared).response
+  }
+
+  getMetrics(): AirtableQueueMetrics {
+    return {
+      baseId: this.baseId,
+      queueDepth: this.waiting.length,
+      ...this.counters,
+    }
+  }
+
+  private async sendWithRetry(send: () => Promise<AirtableResponse>): Promise<AirtableResponse> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire()
+      this.counters.requests++
+      this.counters.inFlight++
+      try {
+        return await send()
+      } catch (error: any) {
+        if (error?.statusCode === 429) {
+          this.counters.rateLimited++
+        }
+        if (error?.statusCode !== 429 || attempt >= this.maxRetries) {
+          this.counters.failed++
+          throw error
+        }
+        // The limit applies to the whole base: hold every request back, not only this one
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + backoffDelay(attempt))
+        this.counters.retries++
+      } finally {
+        this.counters.inFlight--
+      }
+    }
+  }
+
+  private acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.waiting.push(resolve)
+      this.drain()
+    })
+  }
+
+  /**
+   * Start the waiting requests the bucket has tokens for, then wait for the next token
+   */
+  private drain(): void {
+    if (this.timer) {
+      return
+    }
+
+    const now = Date.now()
+    this.tokens = Math.min(
+      this.requestsPerSecond,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond
+    )
+    this.lastRefill = now
+
+    while (this.waiting.length > 0 && now >= this.pausedUntil && this.tokens >= 1) {
+      this.tokens--
+      this.waiting.shift()!()
+    }
+
+    if (this.waiting.length > 0) {
+      const nextToken = ((1 - this.tokens) / this.requestsPerSecond) * 1000
+      const delay = Math.max(this.pausedUntil - now, nextToken, 1)
+      this.timer = setTimeout(() => {
+        this.timer = null
+        this.drain()
+      }, Math.ceil(delay))
+    }
+  }
+}
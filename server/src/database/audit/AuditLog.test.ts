@@ -0,0 +1,84 @@
+import { AuditLog, DEFAULT_AUDIT_ACTOR, diffRecords, getAuditActor } from './AuditLog'
+import { InMemoryAuditStore } from './InMemoryAuditStore'
+import { runInTenantScope, withAllOrganizations } from '../../auth/TenantContext'
+import { TenantScope } from '../../types/Organization'
+
+const ADA = { id: 'recUserAda', name: 'Ada' }
+const orgA: TenantScope = { organizationId: 'recOrgA', allOrganizations: false }
+const orgB: TenantScope = { organizationId: 'recOrgB', allOrganizations: false }
+const noOrg: TenantScope = { organizationId: null, allOrganizations: false }
+
+const query = (log: AuditLog) => log.query({ limit: 50, offset: 0 })
+
+describe('AuditLog', () => {
+  let log: AuditLog
+
+  beforeEach(() => {
+    log = new AuditLog(new InMemoryAuditStore())
+  })
+
+  it('records the user ID of the actor, and their name at the time', async () => {
+    const entry = await log.record({ actor: ADA, entity: 'unit', recordId: 'rec1', action: 'create', before: null, after: { Name: 'kg' } })
+    expect(entry).toMatchObject({ actor: 'recUserAda', actorName: 'Ada' })
+    expect(getAuditActor({ user: { id: 'recUserAda', name: 'Ada' } } as any)).toEqual(ADA)
+    expect(getAuditActor({} as any)).toBe(DEFAULT_AUDIT_ACTOR)
+  })
+
+  it('does not record an update that changes nothing', async () => {
+    const entry = await log.record({ actor: ADA, entity: 'unit', recordId: 'rec1', action: 'update', before: { Name: 'kg', updatedAt: '1' }, after: { Name: 'kg', updatedAt: '2' } })
+    expect(entry).toBeNull()
+  })
+
+  it('stores the organization of the record for tenant tables, else the one in scope', async () => {
+    const company = await withAllOrganizations(() =>
+      log.record({ actor: ADA, entity: 'companies', recordId: 'rec1', action: 'create', before: null, after: { companyName: 'A', organizationId: 'recOrgA' } })
+    )
+    const unit = await runInTenantScope(orgB, () =>
+      log.record({ actor: ADA, entity: 'unit', recordId: 'rec2', action: 'create', before: null, after: { Name: 'kg' } })
+    )
+    expect(company?.organizationId).toBe('recOrgA')
+    expect(unit?.organizationId).toBe('recOrgB')
+  })
+
+  it('only returns and counts the entries of the organization in scope', async () => {
+    await runInTenantScope(orgA, () =>
+      log.record({ actor: ADA, entity: 'companies', recordId: 'recA', action: 'create', before: null, after: { companyName: 'A', organizationId: 'recOrgA' } })
+    )
+    await runInTenantScope(orgB, () =>
+      log.record({ actor: ADA, entity: 'companies', recordId: 'recB', action: 'create', before: null, after: { companyName: 'B', organizationId: 'recOrgB' } })
+    )
+
+    const pageA = await runInTenantScope(orgA, () => query(log))
+    expect(pageA.total).toBe(1)
+    expect(pageA.entries[0].recordId).toBe('recA')
+    expect(runInTenantScope(orgA, () => log.getStats())).toMatchObject({ recorded: 1, failures: 0 })
+
+    const pageNone = await runInTenantScope(noOrg, () => query(log))
+    expect(pageNone.total).toBe(0)
+    expect(runInTenantScope(noOrg, () => log.getStats()).recorded).toBe(0)
+
+    const all = await withAllOrganizations(() => query(log))
+    expect(all.entries.map(entry => entry.recordId)).toEqual(['recB', 'recA'])
+    expect(withAllOrganizations(() => log.getStats()).recorded).toBe(2)
+  })
+
+  it('counts a failed store in the organization of the write', async () => {
+    const failing = new AuditLog({ name: 'failing', append: async () => { throw new Error('down') }, query: async () => ({ entries: [], total: 0 }) })
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    await runInTenantScope(orgA, () =>
+      failing.record({ actor: ADA, entity: 'unit', recordId: 'rec1', action: 'delete', before: { Name: 'kg' }, after: null })
+    )
+    consoleError.mockRestore()
+    expect(runInTenantScope(orgA, () => failing.getStats())).toMatchObject({ recorded: 0, failures: 1 })
+    expect(runInTenantScope(orgB, () => failing.getStats()).failures).toBe(0)
+  })
+})
+
+describe('diffRecords', () => {
+  it('lists changed fields, treating empty values alike and ignoring metadata', () => {
+    expect(diffRecords(
+      { Name: 'kg', Notes: '', Tags: [], updatedAt: '1' },
+      { Name: 'g', Notes: undefined, Tags: null, updatedAt: '2' }
+    )).toEqual([{ field: 'Name', before: 'kg', after: 'g' }])
+  })
+})
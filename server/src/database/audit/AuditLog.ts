@@ -0,0 +1,293 @@
+import { Request } from 'express'
+import { isPostgreSQLDatabase } from '../postgres/connection'
+import { findEntityDescriptor } from '../entities/descriptors'
+import { getTenantScope } from '../../auth/TenantContext'
+import { AuditAction, AuditActor, AuditEntry, AuditFieldChange, AuditPage, AuditQuery, IAuditStore } from './IAuditStore'
+import { InMemoryAuditStore } from './InMemoryAuditStore'
+import { FileAuditStore } from './FileAuditStore'
+import { PostgreSQLAuditStore } from './PostgreSQLAuditStore'
+
+/**
+ * Audit Log
+ *
+ * Record of every create, update and delete made through the entity controllers: who
+ * made it (the signed-in user's ID, and their name at the time), when, on which record of
+ * which entity, and the value of each changed field before and after. Controllers run their writes through
+ * AuditedWrites (getAuditLog().writes), which reads the record before an update or a
+ * delete and diffs it against the result.
+ *
+ * Each entry belongs to an organization - the record's, for tables with a tenant field,
+ * else the one the request worked on - and queries and stats only cover the
+ * organization in scope (auth/TenantContext), like the records themselves.
+ *
+ * A write is not undone when its entry cannot be stored: the failure is logged and
+ * counted in the stats (GET /api/status, audit.failures).
+ *
+ * Environment Variables:
+ * - AUDIT_LOG_DRIVER: 'postgresql' | 'file' | 'memory' (default: postgresql when
+ *   DATABASE_TYPE=postgresql, memory with the mock database, file otherwise)
+ * - AUDIT_LOG_PATH: file of the file driver (see FileAuditStore)
+ */
+
+/** Actor of anonymous requests and of work outside a request */
+export const DEFAULT_AUDIT_ACTOR: AuditActor = { id: 'system', name: 'System' }
+
+/** Record metadata, which every write changes - not part of the diff */
+const METADATA_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'createdBy', 'lastModifiedBy', 'createdTime'])
+
+export interface AuditStats {
+  driver: string
+  recorded: number
+  failures: number // entries that could not be stored
+}
+
+/**
+ * Actor of a request: the signed-in user
+ */
+export function getAuditActor(req: Request): AuditActor {
+  return req.user ? { id: req.user.id, name: req.user.name } : DEFAULT_AUDIT_ACTOR
+}
+
+/**
+ * Organization of a write: the record's, when its table has a tenant field and the
+ * record one, else the organization in scope
+ */
+function getAuditOrganization(entity: string, before: Record<string, any> | null, after: Record<string, any> | null): string | null {
+  const tenantField = findEntityDescriptor(entity)?.tenantField
+  if (tenantField) {
+    const value = after?.[tenantField] ?? before?.[tenantField]
+    const organizationId = Array.isArray(value) ? value[0] : value
+    if (organizationId) {
+      return organizationId
+    }
+  }
+  return getTenantScope().organizationId
+}
+
+/**
+ * Organization filter of the scope - undefined when every organization is in scope
+ */
+function getScopeOrganization(): string | null | undefined {
+  const scope = getTenantScope()
+  return scope.allOrganizations ? undefined : scope.organizationId
+}
+
+/** undefined, '' and [] are all "no value" - Airtable leaves empty fields out of a record */
+const toAuditValue = (value: any): any =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0) ? null : value
+
+/**
+ * Fields whose value differs between two versions of a record (null for a missing version)
+ */
+export function diffRecords(before: Record<string, any> | null, after: Record<string, any> | null): AuditFieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]))
+  return fields
+    .filter(field => !METADATA_FIELDS.has(field))
+    .map(field => ({ field, before: toAuditValue(before?.[field]), after: toAuditValue(after?.[field]) }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after))
+}
+
+const isRecord = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export interface AuditWrite {
+  actor: AuditActor
+  entity: string
+  recordId: string
+  action: AuditAction
+  before: Record<string, any> | null
+  after: Record<string, any> | null
+}
+
+type AuditCounters = { recorded: number; failures: number }
+
+export class AuditLog {
+  /** Counters by organization ('' for none) */
+  private counters = new Map<string, AuditCounters>()
+
+  constructor(private readonly store: IAuditStore) {}
+
+  /**
+   * Store the entry of a write - an update that changed no field is not recorded
+   */
+  async record(write: AuditWrite): Promise<AuditEntry | null> {
+    const changes = diffRecords(write.before, write.after)
+    if (write.action === 'update' && changes.length === 0) {
+      return null
+    }
+    const organizationId = getAuditOrganization(write.entity, write.before, write.after)
+    const counters = this.getCounters(organizationId)
+    try {
+      const entry = await this.store.append({
+        timestamp: new Date().toISOString(),
+        actor: write.actor.id,
+        actorName: write.actor.name,
+        organizationId,
+        entity: write.entity,
+        recordId: write.recordId,
+        action: write.action,
+        changes,
+      })
+      counters.recorded++
+      return entry
+    } catch (error: any) {
+      counters.failures++
+      console.error(
+        `❌ Could not record audit entry (${this.store.name}) for ${write.action} of ${write.entity}/${write.recordId} by ${write.actor.name} (${write.actor.id}):`,
+        error?.message || error
+      )
+      return null
+    }
+  }
+
+  /**
+   * Store the entries of the records an import created (the rows of its report)
+   */
+  async recordImport(
+    actor: AuditActor,
+    entity: string,
+    rows: Array<{ status: string; id?: string; fields: Record<string, any> }>
+  ): Promise<void> {
+    for (const row of rows) {
+      if (row.status === 'created' && row.id) {
+        await this.record({ actor, entity, recordId: row.id, action: 'create', before: null, after: row.fields })
+      }
+    }
+  }
+
+  /**
+   * Writes of one entity by one actor; load reads a record by ID (null when not found)
+   */
+  writes(entity: string, actor: AuditActor, load: (id: string) => Promise<any>): AuditedWrites {
+    return new AuditedWrites(this, entity, actor, load)
+  }
+
+  /**
+   * Entries matching the query, newest first - of the organization in scope only
+   */
+  async query(query: Omit<AuditQuery, 'organizationId'>): Promise<AuditPage> {
+    return this.store.query({ ...query, organizationId: getScopeOrganization() })
+  }
+
+  /**
+   * Entries recorded and failed since startup, in the organization in scope
+   */
+  getStats(): AuditStats {
+    const organizationId = getScopeOrganization()
+    const counters = organizationId === undefined
+      ? Array.from(this.counters.values())
+      : [this.counters.get(organizationId ?? '')].filter((counter): counter is AuditCounters => !!counter)
+    return {
+      driver: this.store.name,
+      recorded: counters.reduce((sum, counter) => sum + counter.recorded, 0),
+      failures: counters.reduce((sum, counter) => sum + counter.failures, 0),
+    }
+  }
+
+  private getCounters(organizationId: string | null): AuditCounters {
+    const key = organizationId ?? ''
+    let counters = this.counters.get(key)
+    if (!counters) {
+      counters = { recorded: 0, failures: 0 }
+      this.counters.set(key, counters)
+    }
+    return counters
+  }
+}
+
+/**
+ * Runs the writes of a controller, recording each one that succeeded. A write returning
+ * null or false (record not found) is not recorded.
+ */
+export class AuditedWrites {
+  constructor(
+    private readonly log: AuditLog,
+    private readonly entity: string,
+    private readonly actor: AuditActor,
+    private readonly load: (id: string) => Promise<any>
+  ) {}
+
+  async create<R>(write: () => Promise<R>): Promise<R> {
+    const result = await write()
+    const after = isRecord(result) ? result : null
+    if (after?.id) {
+      await this.record('create', String(after.id), null, after)
+    } else if (result) {
+      console.warn(`⚠️  Created ${this.entity} record has no ID - not recorded in the audit log`)
+    }
+    return result
+  }
+
+  async update<R>(id: string, write: () => Promise<R>): Promise<R> {
+    const before = await this.read(id)
+    const result = await write()
+    if (result !== null && result !== false) {
+      // Read again when the service does not return the updated record
+      const after = isRecord(result) ? result : await this.read(id)
+      await this.record('update', id, before, after)
+    }
+    return result
+  }
+
+  async delete<R>(id: string, write: () => Promise<R>): Promise<R> {
+    const before = await this.read(id)
+    const result = await write()
+    if (result !== null && result !== false) {
+      await this.record('delete', id, before, null)
+    }
+    return result
+  }
+
+  private async record(action: AuditAction, recordId: string, before: Record<string, any> | null, after: Record<string, any> | null) {
+    await this.log.record({ actor: this.actor, entity: this.entity, recordId, action, before, after })
+  }
+
+  /** Current version of a record - a failed read leaves the write to report the error */
+  private async read(id: string): Promise<Record<string, any> | null> {
+    try {
+      const record = await this.load(id)
+      return isRecord(record) ? record : null
+    } catch {
+      return null
+    }
+  }
+}
+
+function createAuditStore(): IAuditStore {
+  const databaseType = (process.env.DATABASE_TYPE || 'airtable').toLowerCase()
+  const defaultDriver = isPostgreSQLDatabase()
+    ? 'postgresql'
+    : databaseType === 'mock' || databaseType === 'memory' ? 'memory' : 'file'
+  const driver = (process.env.AUDIT_LOG_DRIVER || defaultDriver).toLowerCase()
+
+  switch (driver) {
+    case 'postgresql':
+    case 'postgres':
+      return new PostgreSQLAuditStore()
+    case 'memory':
+      return new InMemoryAuditStore()
+    case 'file':
+      return new FileAuditStore()
+    default:
+      console.warn(`⚠️  Unknown audit log driver "${driver}", using file`)
+      return new FileAuditStore()
+  }
+}
+
+// Singleton instance
+let auditLog: AuditLog | null = null
+
+export const getAuditLog = (): AuditLog => {
+  if (!auditLog) {
+    auditLog = new AuditLog(createAuditStore())
+    console.log(`📝 Audit log: ${auditLog.getStats().driver}`)
+  }
+  return auditLog
+}
+
+/**
+ * Use another store - call at startup, before the first request
+ */
+export const setAuditLogStore = (store: IAuditStore): void => {
+  auditLog = new AuditLog(store)
+}
@@ -0,0 +1,58 @@
+import { randomUUID } from 'crypto'
+import { existsSync } from 'fs'
+import { appendFile, mkdir, readFile } from 'fs/promises'
+import { dirname, resolve } from 'path'
+import { AuditEntry, AuditPage, AuditQuery, IAuditStore, NewAuditEntry } from './IAuditStore'
+import { queryAuditEntries } from './InMemoryAuditStore'
+
+/**
+ * File Audit Store
+ *
+ * Entries appended to a JSON Lines file, one entry per line, so writing an entry never
+ * rewrites the ones before it. Reads scan the whole file - the log of one server, not
+ * meant to be shared between instances (use PostgreSQL for that).
+ *
+ * Environment Variables:
+ * - AUDIT_LOG_PATH: log file (default: server/.local-db/audit-log.jsonl)
+ */
+
+export const getAuditLogPath = (): string =>
+  process.env.AUDIT_LOG_PATH
+    ? resolve(process.env.AUDIT_LOG_PATH)
+    : resolve(__dirname, '../../../.local-db/audit-log.jsonl')
+
+export class FileAuditStore implements IAuditStore {
+  readonly name = 'file'
+  readonly path: string
+
+  constructor(path: string = getAuditLogPath()) {
+    this.path = path
+  }
+
+  async append(entry: NewAuditEntry): Promise<AuditEntry> {
+    const stored = { id: randomUUID(), ...entry }
+    await mkdir(dirname(this.path), { recursive: true })
+    await appendFile(this.path, `${JSON.stringify(stored)}\n`, 'utf8')
+    return stored
+  }
+
+  async query(query: AuditQuery): Promise<AuditPage> {
+    if (!existsSync(this.path)) {
+      return { entries: [], total: 0 }
+    }
+    const entries: AuditEntry[] = []
+    const lines = (await readFile(this.path, 'utf8')).split('\n')
+    lines.forEach(line => {
+      if (!line.trim()) return
+      try {
+        const entry = JSON.parse(line)
+        // Entries written before actor names and organizations were recorded
+        entries.push({ ...entry, actorName: entry.actorName || entry.actor, organizationId: entry.organizationId ?? null })
+      } catch {
+        // A line cut short by a crash while appending
+        console.warn(`⚠️  Skipping unreadable audit log line in ${this.path}`)
+      }
+    })
+    return queryAuditEntries(entries, query)
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Audit Store Interface
+ *
+ * Storage behind the AuditLog. Entries are appended once and never changed; reads
+ * return the newest entries first.
+ *
+ * - InMemoryAuditStore: this process only (mock database, tests)
+ * - FileAuditStore: JSON Lines file (Airtable and local databases)
+ * - PostgreSQLAuditStore: audit_log table (PostgreSQL database)
+ */
+
+export type AuditAction = 'create' | 'update' | 'delete'
+
+/**
+ * Value of one field before and after a write (null when it had / has no value)
+ */
+export interface AuditFieldChange {
+  field: string
+  before: any
+  after: any
+}
+
+/**
+ * Who made a write: the signed-in user, or the system outside a request
+ */
+export interface AuditActor {
+  id: string
+  name: string
+}
+
+export interface AuditEntry {
+  id: string
+  timestamp: string // ISO date
+  actor: string // user ID of the signed-in user
+  actorName: string // their name at the time of the write
+  organizationId: string | null // organization the write was made in (null: none)
+  entity: string // API path segment, e.g. 'standard-emission-factors'
+  recordId: string
+  action: AuditAction
+  changes: AuditFieldChange[]
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id'>
+
+export interface AuditQuery {
+  entity?: string
+  recordId?: string
+  actor?: string // user ID
+  /** Entries of one organization (null: of none) - every organization when undefined */
+  organizationId?: string | null
+  limit: number
+  offset: number
+}
+
+export interface AuditPage {
+  entries: AuditEntry[]
+  total: number
+}
+
+export interface IAuditStore {
+  /** Driver name reported in the audit stats, e.g. 'file' */
+  readonly name: string
+
+  append(entry: NewAuditEntry): Promise<AuditEntry>
+
+  /**
+   * Entries matching the query, newest first
+   */
+  query(query: AuditQuery): Promise<AuditPage>
+}
@@ -0,0 +1,40 @@
+import { randomUUID } from 'crypto'
+import { AuditEntry, AuditPage, AuditQuery, IAuditStore, NewAuditEntry } from './IAuditStore'
+
+/**
+ * Entries matching a query, newest first - shared by the stores that read every entry
+ */
+export function queryAuditEntries(entries: AuditEntry[], query: AuditQuery): AuditPage {
+  const matching = entries
+    .filter(entry =>
+      (!query.entity || entry.entity === query.entity) &&
+      (!query.recordId || entry.recordId === query.recordId) &&
+      (!query.actor || entry.actor === query.actor) &&
+      (query.organizationId === undefined || (entry.organizationId ?? null) === query.organizationId)
+    )
+    .reverse()
+  return {
+    entries: matching.slice(query.offset, query.offset + query.limit),
+    total: matching.length,
+  }
+}
+
+/**
+ * In-Memory Audit Store
+ *
+ * Entries of this process, in the order they were written - lost on restart.
+ */
+export class InMemoryAuditStore implements IAuditStore {
+  readonly name = 'memory'
+  private entries: AuditEntry[] = []
+
+  async append(entry: NewAuditEntry): Promise<AuditEntry> {
+    const stored = { id: randomUUID(), ...entry }
+    this.entries.push(stored)
+    return stored
+  }
+
+  async query(query: AuditQuery): Promise<AuditPage> {
+    return queryAuditEntries(this.entries, query)
+  }
+}
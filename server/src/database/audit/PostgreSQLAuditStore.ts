@@ -0,0 +1,106 @@
+import { getPostgreSQLPool } from '../postgres/connection'
+import { AuditEntry, AuditPage, AuditQuery, IAuditStore, NewAuditEntry } from './IAuditStore'
+
+/**
+ * PostgreSQL Audit Store
+ *
+ * Entries in the audit_log table of the API database, created by
+ * npm run db:postgres:schema (getAuditLogSchemaStatements).
+ */
+
+/**
+ * Statements creating the audit_log table and its indexes - idempotent
+ */
+export function getAuditLogSchemaStatements(): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS audit_log (
+  id bigserial PRIMARY KEY,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  actor text NOT NULL,
+  actor_name text,
+  organization_id text,
+  entity text NOT NULL,
+  record_id text NOT NULL,
+  action text NOT NULL,
+  changes jsonb NOT NULL DEFAULT '[]'
+)`,
+    // Columns added after the first release of the table
+    'ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS actor_name text',
+    'ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS organization_id text',
+    'CREATE INDEX IF NOT EXISTS audit_log_record_idx ON audit_log (entity, record_id, occurred_at DESC)',
+    'CREATE INDEX IF NOT EXISTS audit_log_actor_idx ON audit_log (actor, occurred_at DESC)',
+    'CREATE INDEX IF NOT EXISTS audit_log_organization_idx ON audit_log (organization_id, occurred_at DESC)',
+  ]
+}
+
+const toEntry = (row: any): AuditEntry => ({
+  id: String(row.id),
+  timestamp: new Date(row.occurred_at).toISOString(),
+  actor: row.actor,
+  actorName: row.actor_name || row.actor,
+  organizationId: row.organization_id || null,
+  entity: row.entity,
+  recordId: row.record_id,
+  action: row.action,
+  changes: row.changes || [],
+})
+
+export class PostgreSQLAuditStore implements IAuditStore {
+  readonly name = 'postgresql'
+
+  async append(entry: NewAuditEntry): Promise<AuditEntry> {
+    const { rows } = await getPostgreSQLPool().query(
+      `INSERT INTO audit_log (occurred_at, actor, actor_name, organization_id, entity, record_id, action, changes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+       RETURNING *`,
+      [
+        entry.timestamp,
+        entry.actor,
+        entry.actorName,
+        entry.organizationId,
+        entry.entity,
+        entry.recordId,
+        entry.action,
+        JSON.stringify(entry.changes),
+      ]
+    )
+    return toEntry(rows[0])
+  }
+
+  async query(query: AuditQuery): Promise<AuditPage> {
+    const conditions: string[] = []
+    const values: any[] = []
+    const conditionColumns: Array<[string, string | undefined]> = [
+      ['entity', query.entity],
+      ['record_id', query.recordId],
+      ['actor', query.actor],
+    ]
+    conditionColumns.forEach(([column, value]) => {
+      if (value) {
+        values.push(value)
+        conditions.push(`${column} = $${values.length}`)
+      }
+    })
+    if (query.organizationId === null) {
+      conditions.push('organization_id IS NULL')
+    } else if (query.organizationId !== undefined) {
+      values.push(query.organizationId)
+      conditions.push(`organization_id = $${values.length}`)
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    values.push(query.limit, query.offset)
+    const { rows } = await getPostgreSQLPool().query(
+      `SELECT *, COUNT(*) OVER() AS total FROM audit_log ${where}
+       ORDER BY occurred_at DESC, id DESC
+       LIMIT $${values.length - 1} OFFSET $${values.length}`,
+      values
+    )
+    if (rows.length === 0 && query.offset > 0) {
+      // Past the last page: COUNT(*) OVER() has no row to report the total on
+      const count = await getPostgreSQLPool().query(`SELECT COUNT(*) AS total FROM audit_log ${where}`, values.slice(0, -2))
+      return { entries: [], total: Number(count.rows[0].total) }
+    }
+    return { entries: rows.map(toEntry), total: rows.length > 0 ? Number(rows[0].total) : 0 }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Cache Store Interface
+ *
+ * Storage behind the ResponseCache. Values are JSON strings and entries carry tags,
+ * so that every store maps onto Redis commands:
+ * - get / mget / set with a TTL: GET, MGET, SET key value PX ttl
+ * - tags: one set of keys per tag (SADD), read and deleted on invalidation (SMEMBERS, DEL)
+ *
+ * InMemoryCacheStore is the default; RedisCacheStore shares the cache between server
+ * instances.
+ */
+export interface ICacheStore {
+  /** Driver name reported in the cache stats, e.g. 'memory' */
+  readonly name: string
+
+  get(key: string): Promise<string | null>
+
+  /**
+   * Values of several keys, null for the missing ones
+   */
+  mget(keys: string[]): Promise<Array<string | null>>
+
+  set(key: string, value: string, ttlMs: number, tags: string[]): Promise<void>
+
+  /**
+   * Delete entries, returning how many existed
+   */
+  del(keys: string[]): Promise<number>
+
+  /**
+   * Delete every entry carrying one of the tags, returning how many existed
+   */
+  invalidateTags(tags: string[]): Promise<number>
+
+  /**
+   * Number of entries (null when the store cannot tell cheaply)
+   */
+  size(): Promise<number | null>
+
+  clear(): Promise<void>
+}
@@ -0,0 +1,89 @@
+import { ICacheStore } from './ICacheStore'
+
+interface CacheEntry {
+  value: string
+  expiresAt: number
+  tags: string[]
+}
+
+/**
+ * In-Memory Cache Store
+ *
+ * LRU cache of at most maxEntries entries in this process: a Map keeps its keys in
+ * insertion order, so every read moves the entry to the end and the first entry is
+ * the least recently used one.
+ */
+export class InMemoryCacheStore implements ICacheStore {
+  readonly name = 'memory'
+  private entries = new Map<string, CacheEntry>()
+  private tagIndex = new Map<string, Set<string>>()
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return null
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key)
+      return null
+    }
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    return Promise.all(keys.map(key => this.get(key)))
+  }
+
+  async set(key: string, value: string, ttlMs: number, tags: string[]): Promise<void> {
+    this.remove(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, tags })
+    tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag) || new Set<string>()
+      keys.add(key)
+      this.tagIndex.set(tag, keys)
+    })
+
+    while (this.entries.size > this.maxEntries) {
+      this.remove(this.entries.keys().next().value as string)
+    }
+  }
+
+  async del(keys: string[]): Promise<number> {
+    return keys.filter(key => this.remove(key)).length
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    const keys = new Set<string>()
+    tags.forEach(tag => this.tagIndex.get(tag)?.forEach(key => keys.add(key)))
+    return this.del(Array.from(keys))
+  }
+
+  async size(): Promise<number | null> {
+    return this.entries.size
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+    this.tagIndex.clear()
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return false
+    }
+    this.entries.delete(key)
+    entry.tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag)
+      keys?.delete(key)
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag)
+      }
+    })
+    return true
+  }
+}
@@ -0,0 +1,82 @@
+import { ICacheStore } from './ICacheStore'
+
+/**
+ * Commands used by RedisCacheStore - an ioredis client has them as is
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>
+  mget(...keys: string[]): Promise<Array<string | null>>
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>
+  del(...keys: string[]): Promise<number>
+  sadd(key: string, ...members: string[]): Promise<number>
+  smembers(key: string): Promise<string[]>
+  pexpire(key: string, ttlMs: number): Promise<number>
+  pttl(key: string): Promise<number>
+}
+
+/** Tag carried by every entry, for clear() */
+const ALL_ENTRIES_TAG = '*'
+
+/**
+ * Redis Cache Store
+ *
+ * Shares the response cache between server instances. Entries are keys under the
+ * prefix; each tag is a set of the keys carrying it, which lives as long as its
+ * longest-lived entry, so that invalidation needs no scan.
+ *
+ * Plug it in at startup:
+ *   setResponseCacheStore(new RedisCacheStore(new Redis(process.env.REDIS_URL)))
+ */
+export class RedisCacheStore implements ICacheStore {
+  readonly name = 'redis'
+
+  constructor(private readonly client: RedisClientLike, private readonly prefix: string = 'response-cache:') {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.prefix + key)
+  }
+
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    return keys.length > 0 ? this.client.mget(...keys.map(key => this.prefix + key)) : []
+  }
+
+  async set(key: string, value: string, ttlMs: number, tags: string[]): Promise<void> {
+    await this.client.set(this.prefix + key, value, 'PX', ttlMs)
+    for (const tag of [...tags, ALL_ENTRIES_TAG]) {
+      const tagKey = this.tagKey(tag)
+      await this.client.sadd(tagKey, key)
+      if ((await this.client.pttl(tagKey)) < ttlMs) {
+        await this.client.pexpire(tagKey, ttlMs)
+      }
+    }
+  }
+
+  async del(keys: string[]): Promise<number> {
+    return keys.length > 0 ? this.client.del(...keys.map(key => this.prefix + key)) : 0
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    const keys = new Set<string>()
+    for (const tag of tags) {
+      (await this.client.smembers(this.tagKey(tag))).forEach(key => keys.add(key))
+    }
+    const deleted = await this.del(Array.from(keys))
+    if (tags.length > 0) {
+      await this.client.del(...tags.map(tag => this.tagKey(tag)))
+    }
+    return deleted
+  }
+
+  async size(): Promise<number | null> {
+    // Counting would mean scanning the key space
+    return null
+  }
+
+  async clear(): Promise<void> {
+    await this.invalidateTags([ALL_ENTRIES_TAG])
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}tag:${tag}`
+  }
+}
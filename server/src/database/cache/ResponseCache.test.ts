@@ -0,0 +1,62 @@
+import { ResponseCache, getResponseCache, setResponseCacheStore } from './ResponseCache'
+import { ICacheStore } from './ICacheStore'
+import { InMemoryCacheStore } from './InMemoryCacheStore'
+import { CachedEntityRepository } from '../repositories/CachedEntityRepository'
+import { InMemoryEntityRepository, InMemoryEntityStore } from '../repositories/InMemoryEntityRepository'
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+
+describe('response cache', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('serves repeated reads from the cache until a write to the table or a linked one', async () => {
+    setResponseCacheStore(new InMemoryCacheStore(100))
+    const store = new InMemoryEntityStore()
+    const unitsRepository = new InMemoryEntityRepository(ENTITY_DESCRIPTORS.units, store)
+    const units = new CachedEntityRepository<Record<string, any>>(unitsRepository)
+    const conversions = new CachedEntityRepository<Record<string, any>>(new InMemoryEntityRepository(ENTITY_DESCRIPTORS.unit_conversions, store))
+    const list = jest.spyOn(unitsRepository, 'list')
+
+    const litre = await units.create({ Name: 'litre' })
+    await conversions.create({ Name: 'litre to ml', 'Unit to convert': [litre.id] })
+    await units.list()
+    const cached = await units.list()
+    expect(list).toHaveBeenCalledTimes(1)
+    cached.records[0].Name = 'changed by a caller'
+    expect((await units.list()).records[0].Name).toBe('litre')
+    expect((await conversions.list()).records[0]['Unit to convert Name']).toEqual(['litre'])
+
+    await units.update(litre.id, { Name: 'Litre' })
+    expect((await units.list()).records[0].Name).toBe('Litre')
+    expect(list).toHaveBeenCalledTimes(2)
+    expect((await conversions.list()).records[0]['Unit to convert Name']).toEqual(['Litre'])
+
+    expect(await getResponseCache().getStats()).toMatchObject({
+      driver: 'memory', hits: 2, misses: 4, invalidations: 3, invalidatedEntries: 2, errors: 0,
+    })
+  })
+
+  it('evicts the least recently used and expired entries, and loads from the database when the store fails', async () => {
+    const store = new InMemoryCacheStore(2)
+    await store.set('a', '1', 60000, ['t'])
+    await store.set('b', '2', 60000, ['t'])
+    await store.get('a')
+    await store.set('c', '3', -1, [])
+    expect(await store.mget(['a', 'b', 'c'])).toEqual(['1', null, null])
+    expect(await store.invalidateTags(['t'])).toBe(1)
+
+    const unavailable = () => Promise.reject(new Error('connection refused'))
+    const failing: ICacheStore = {
+      name: 'failing', get: unavailable, mget: unavailable, set: unavailable, del: unavailable,
+      invalidateTags: unavailable, size: unavailable, clear: unavailable,
+    }
+    const cache = new ResponseCache(failing, 60)
+    expect(await cache.getOrLoad('key', [], async () => 'loaded')).toBe('loaded')
+    expect(await cache.getStats()).toMatchObject({ driver: 'failing', entries: null, misses: 1, sets: 0, errors: 3 })
+  })
+})
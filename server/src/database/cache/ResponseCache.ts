@@ -0,0 +1,200 @@
+import { ICacheStore } from './ICacheStore'
+import { InMemoryCacheStore } from './InMemoryCacheStore'
+
+/**
+ * Response Cache
+ *
+ * One cache of read results shared by every service, keyed by entity and query.
+ * Entries are tagged with the tables they were read from - the entity's own table
+ * and the tables it links to - and a write to a table invalidates every entry
+ * tagged with it.
+ *
+ * Environment Variables:
+ * - RESPONSE_CACHE_DRIVER: 'memory' | 'none' (default: 'memory'); other stores
+ *   (e.g. RedisCacheStore) are plugged in with setResponseCacheStore
+ * - RESPONSE_CACHE_MAX_ENTRIES: entries kept by the memory store (default: 1000)
+ * - RESPONSE_CACHE_TTL_SECONDS: default time to live (default: 300)
+ */
+
+export interface ResponseCacheStats {
+  driver: string
+  enabled: boolean
+  entries: number | null
+  ttlSeconds: number
+  hits: number
+  misses: number
+  hitRate: number // hits / (hits + misses), 0 before the first read
+  sets: number
+  invalidations: number // invalidate calls
+  invalidatedEntries: number
+  errors: number // store failures - the read goes to the database instead
+}
+
+/** Tag of the entries read from a descriptor table (database/entities/descriptors.ts) */
+export const entityCacheTag = (table: string): string => `entity:${table}`
+
+/** Tag of the entries read from an Airtable table, by the ID or name used in requests */
+export const airtableCacheTag = (table: string): string => `airtable:${table}`
+
+type InvalidationListener = (tags: string[]) => void
+
+const invalidationListeners: InvalidationListener[] = []
+
+/**
+ * Call listener with the tags of every invalidation, whatever the store and even when
+ * the cache is off - for data kept outside the cache, such as lookups built from the
+ * records of a table
+ */
+export const onCacheInvalidation = (listener: InvalidationListener): void => {
+  invalidationListeners.push(listener)
+}
+
+/**
+ * Cache key of a query: the parts serialized in order
+ */
+export const cacheKey = (...parts: any[]): string => JSON.stringify(parts)
+
+export class ResponseCache {
+  private counters = { hits: 0, misses: 0, sets: 0, invalidations: 0, invalidatedEntries: 0, errors: 0 }
+
+  constructor(
+    private store: ICacheStore,
+    private readonly ttlSeconds: number,
+    private readonly enabled: boolean = true
+  ) {}
+
+  /**
+   * Cached value of key, or the loaded value, stored under the tags
+   */
+  async getOrLoad<T>(key: string, tags: string[], load: () => Promise<T>, ttlSeconds?: number): Promise<T> {
+    const [cached] = await this.getMany<T>([key])
+    if (cached !== undefined) {
+      return cached
+    }
+    const value = await load()
+    await this.set(key, value, tags, ttlSeconds)
+    return value
+  }
+
+  /**
+   * Cached values of several keys, undefined for the missing ones
+   */
+  async getMany<T>(keys: string[]): Promise<Array<T | undefined>> {
+    if (!this.enabled || keys.length === 0) {
+      return keys.map(() => undefined)
+    }
+    try {
+      const values = await this.store.mget(keys)
+      return values.map(value => {
+        if (value === null) {
+          this.counters.misses++
+          return undefined
+        }
+        this.counters.hits++
+        // Parsed per read, so that no caller sees records changed by another
+        return JSON.parse(value) as T
+      })
+    } catch (error) {
+      this.storeFailed('read', error)
+      this.counters.misses += keys.length
+      return keys.map(() => undefined)
+    }
+  }
+
+  async set(key: string, value: any, tags: string[], ttlSeconds?: number): Promise<void> {
+    if (!this.enabled || value === undefined) {
+      return
+    }
+    try {
+      await this.store.set(key, JSON.stringify(value), (ttlSeconds ?? this.ttlSeconds) * 1000, tags)
+      this.counters.sets++
+    } catch (error) {
+      this.storeFailed('write', error)
+    }
+  }
+
+  /**
+   * Drop every entry carrying one of the tags
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    if (tags.length > 0) {
+      invalidationListeners.forEach(listener => listener(tags))
+    }
+    if (!this.enabled || tags.length === 0) {
+      return
+    }
+    try {
+      this.counters.invalidatedEntries += await this.store.invalidateTags(tags)
+      this.counters.invalidations++
+    } catch (error) {
+      this.storeFailed('invalidation', error)
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (!this.enabled) {
+      return
+    }
+    try {
+      await this.store.del(keys)
+    } catch (error) {
+      this.storeFailed('delete', error)
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear()
+  }
+
+  async getStats(): Promise<ResponseCacheStats> {
+    const reads = this.counters.hits + this.counters.misses
+    let entries: number | null = null
+    try {
+      entries = this.enabled ? await this.store.size() : 0
+    } catch (error) {
+      this.storeFailed('size', error)
+    }
+    return {
+      driver: this.enabled ? this.store.name : 'none',
+      enabled: this.enabled,
+      entries,
+      ttlSeconds: this.ttlSeconds,
+      hits: this.counters.hits,
+      misses: this.counters.misses,
+      hitRate: reads > 0 ? Math.round((this.counters.hits / reads) * 1000) / 1000 : 0,
+      sets: this.counters.sets,
+      invalidations: this.counters.invalidations,
+      invalidatedEntries: this.counters.invalidatedEntries,
+      errors: this.counters.errors,
+    }
+  }
+
+  private storeFailed(operation: string, error: any): void {
+    this.counters.errors++
+    console.warn(`⚠️  Response cache ${operation} failed (${this.store.name}):`, error?.message || error)
+  }
+}
+
+// Singleton instance
+let responseCache: ResponseCache | null = null
+
+const configuredTtlSeconds = (): number => Math.max(1, Number(process.env.RESPONSE_CACHE_TTL_SECONDS) || 300)
+
+export const getResponseCache = (): ResponseCache => {
+  if (!responseCache) {
+    const driver = (process.env.RESPONSE_CACHE_DRIVER || 'memory').toLowerCase()
+    const maxEntries = Math.max(1, Number(process.env.RESPONSE_CACHE_MAX_ENTRIES) || 1000)
+    if (driver !== 'memory' && driver !== 'none') {
+      console.warn(`⚠️  Unknown response cache driver "${driver}", using memory`)
+    }
+    responseCache = new ResponseCache(new InMemoryCacheStore(maxEntries), configuredTtlSeconds(), driver !== 'none')
+  }
+  return responseCache
+}
+
+/**
+ * Use another store (e.g. RedisCacheStore) - call at startup, before the first request
+ */
+export const setResponseCacheStore = (store: ICacheStore): void => {
+  responseCache = new ResponseCache(store, configuredTtlSeconds())
+}
@@ -0,0 +1,54 @@
+import { RecordCountService } from './RecordCountService'
+
+describe('RecordCountService', () => {
+  let service: RecordCountService
+  let records: Record<string, number>
+  const source = { count: jest.fn(async (filter: string) => records[filter] ?? 0) }
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  beforeEach(() => {
+    service = new RecordCountService()
+    records = { '': 120, "{Status} = 'Active'": 100 }
+    source.count.mockClear()
+    service.register('Units', source)
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('counts once, follows the writes and reconciles counts that drifted', async () => {
+    expect(await Promise.all([service.getCount('Units'), service.getCount('Units')])).toEqual([120, 120])
+    expect(await service.getCount('Units', "{Status} = 'Active'")).toBe(100)
+    expect(source.count).toHaveBeenCalledTimes(2)
+
+    service.adjust('Units', '', 1)
+    service.forget('Units', "{Status} = 'Active'")
+    expect(await service.getCount('Units')).toBe(121)
+    expect(service.isTracked('Units', "{Status} = 'Active'")).toBe(false)
+
+    // A write made outside this server
+    records[''] = 125
+    await service.reconcile()
+    expect(await service.getCount('Units')).toBe(125)
+    expect(service.getStats()).toMatchObject({
+      tables: [{ table: 'Units', total: 125, filters: 0 }],
+      computed: 2, adjusted: 1, forgotten: 1, reconciliations: 1, corrections: 1,
+    })
+  })
+
+  it('counts again when the table is written while counting, and refuses unregistered tables', async () => {
+    source.count.mockImplementationOnce(async () => {
+      service.touch('Units')
+      records[''] = 121
+      return 120
+    })
+    expect(await service.getCount('Units')).toBe(121)
+    expect(source.count).toHaveBeenCalledTimes(2)
+
+    await expect(service.getCount('Planets')).rejects.toThrow('No record count source registered for table "Planets"')
+  })
+})
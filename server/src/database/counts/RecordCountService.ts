@@ -0,0 +1,265 @@
+/**
+ * Record Count Service
+ *
+ * Keeps exact record counts per table and per filter, so that paginated responses
+ * report the real total without scanning the table on every request:
+ * - a count is computed once, when first asked for, by the table's RecordCountSource
+ * - write paths then keep it up to date incrementally (adjust), or drop it when
+ *   they cannot tell how it changed (forget) - it is computed again on the next read
+ * - a reconciliation job recounts every tracked count periodically and corrects drift,
+ *   e.g. from writes made outside this server
+ *
+ * Filters are opaque keys of the source (e.g. an Airtable filter formula); '' is the
+ * whole table. The filters of a table most recently asked for are tracked, at most
+ * RECORD_COUNT_MAX_FILTERS per table.
+ *
+ * Environment Variables:
+ * - RECORD_COUNT_RECONCILE_SECONDS: reconciliation interval (default: 900, 0 disables)
+ * - RECORD_COUNT_MAX_FILTERS: filtered counts tracked per table (default: 20)
+ */
+
+export interface RecordCountSource {
+  /**
+   * Exact number of records matching the filter ('' for every record)
+   */
+  count(filter: string): Promise<number>
+}
+
+export interface RecordCountStats {
+  tables: Array<{ table: string; total: number | null; filters: number }>
+  computed: number // counts computed on read
+  adjusted: number // incremental updates from write paths
+  forgotten: number // counts dropped by write paths
+  reconciliations: number
+  corrections: number // tracked counts reconciliation found wrong
+  lastReconciledAt: string | null
+}
+
+interface TrackedCount {
+  value: number
+  lastUsed: number
+}
+
+interface TableCounts {
+  source: RecordCountSource
+  counts: Map<string, TrackedCount>
+  computing: Map<string, Promise<number>>
+  version: number // incremented by every write, to discard counts computed across one
+}
+
+/** Times a count is computed again when the table is written while counting */
+const MAX_COUNT_ATTEMPTS = 3
+
+export class RecordCountService {
+  private tables = new Map<string, TableCounts>()
+  private counters = { computed: 0, adjusted: 0, forgotten: 0, reconciliations: 0, corrections: 0 }
+  private lastReconciledAt: Date | null = null
+  private reconciling: Promise<void> | null = null
+  private timer: NodeJS.Timeout | null = null
+  private readonly maxFilters: number
+
+  constructor() {
+    const maxFilters = parseInt(process.env.RECORD_COUNT_MAX_FILTERS || '', 10)
+    this.maxFilters = Number.isNaN(maxFilters) ? 20 : Math.max(0, maxFilters)
+  }
+
+  /**
+   * Count records of a table with this source - a table is registered once
+   */
+  register(table: string, source: RecordCountSource): void {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, { source, counts: new Map(), computing: new Map(), version: 0 })
+    }
+  }
+
+  isRegistered(table: string): boolean {
+    return this.tables.has(table)
+  }
+
+  /**
+   * Exact count of the records matching the filter ('' for the whole table)
+   */
+  async getCount(table: string, filter: string = ''): Promise<number> {
+    const entry = this.getTable(table)
+    const tracked = entry.counts.get(filter)
+    if (tracked) {
+      tracked.lastUsed = Date.now()
+      return tracked.value
+    }
+
+    // Concurrent reads share one computation
+    let computing = entry.computing.get(filter)
+    if (!computing) {
+      computing = this.compute(entry, filter).finally(() => entry.computing.delete(filter))
+      entry.computing.set(filter, computing)
+    }
+    return computing
+  }
+
+  /**
+   * Tracked filters of a table, without the whole-table count
+   */
+  getTrackedFilters(table: string): string[] {
+    return Array.from(this.tables.get(table)?.counts.keys() || []).filter(filter => filter !== '')
+  }
+
+  isTracked(table: string, filter: string = ''): boolean {
+    return !!this.tables.get(table)?.counts.has(filter)
+  }
+
+  /**
+   * Record a write to a table, before and after it: counts computed meanwhile are
+   * computed again, since they may or may not include the write
+   */
+  touch(table: string): void {
+    const entry = this.tables.get(table)
+    if (entry) {
+      entry.version++
+    }
+  }
+
+  /**
+   * Change a tracked count by delta records (no-op for counts not tracked)
+   */
+  adjust(table: string, filter: string, delta: number): void {
+    const tracked = this.tables.get(table)?.counts.get(filter)
+    if (tracked && delta !== 0) {
+      tracked.value = Math.max(0, tracked.value + delta)
+      this.counters.adjusted++
+    }
+  }
+
+  /**
+   * Drop a tracked count, or every count of the table - computed again on the next read
+   */
+  forget(table: string, filter?: string): void {
+    const entry = this.tables.get(table)
+    if (!entry) {
+      return
+    }
+    const filters = filter === undefined ? Array.from(entry.counts.keys()) : [filter]
+    filters.forEach(key => {
+      if (entry.counts.delete(key)) {
+        this.counters.forgotten++
+      }
+    })
+  }
+
+  /**
+   * Recount every tracked count and correct the ones that drifted
+   */
+  async reconcile(): Promise<void> {
+    if (!this.reconciling) {
+      this.reconciling = this.reconcileAll().finally(() => {
+        this.reconciling = null
+      })
+    }
+    return this.reconciling
+  }
+
+  /**
+   * Reconcile every RECORD_COUNT_RECONCILE_SECONDS (default 15 minutes)
+   */
+  startReconciliation(): void {
+    const seconds = parseInt(process.env.RECORD_COUNT_RECONCILE_SECONDS || '', 10)
+    const intervalSeconds = Number.isNaN(seconds) ? 900 : seconds
+    if (this.timer || intervalSeconds <= 0) {
+      return
+    }
+    this.timer = setInterval(() => {
+      this.reconcile().catch(error => console.error('❌ Record count reconciliation failed:', error))
+    }, intervalSeconds * 1000)
+    // Do not keep the process alive for it
+    this.timer.unref()
+    console.log(`📊 Record count reconciliation every ${intervalSeconds}s`)
+  }
+
+  stopReconciliation(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  getStats(): RecordCountStats {
+    return {
+      tables: Array.from(this.tables.entries()).map(([table, entry]) => ({
+        table,
+        total: entry.counts.get('')?.value ?? null,
+        filters: this.getTrackedFilters(table).length,
+      })),
+      ...this.counters,
+      lastReconciledAt: this.lastReconciledAt?.toISOString() || null,
+    }
+  }
+
+  private getTable(table: string): TableCounts {
+    const entry = this.tables.get(table)
+    if (!entry) {
+      throw new Error(`No record count source registered for table "${table}"`)
+    }
+    return entry
+  }
+
+  private async compute(entry: TableCounts, filter: string): Promise<number> {
+    let value = 0
+    for (let attempt = 1; attempt <= MAX_COUNT_ATTEMPTS; attempt++) {
+      const version = entry.version
+      value = await entry.source.count(filter)
+      this.counters.computed++
+      if (entry.version === version) {
+        this.track(entry, filter, value)
+        return value
+      }
+    }
+    // Written throughout: return the last count, the next read computes it again
+    return value
+  }
+
+  private track(entry: TableCounts, filter: string, value: number): void {
+    entry.counts.set(filter, { value, lastUsed: Date.now() })
+
+    // Keep the most recently used filters; the whole-table count is always kept
+    const filters = Array.from(entry.counts.entries()).filter(([key]) => key !== '')
+    if (filters.length > this.maxFilters) {
+      filters
+        .sort(([, a], [, b]) => a.lastUsed - b.lastUsed)
+        .slice(0, filters.length - this.maxFilters)
+        .forEach(([key]) => entry.counts.delete(key))
+    }
+  }
+
+  private async reconcileAll(): Promise<void> {
+    for (const [table, entry] of this.tables) {
+      for (const [filter, tracked] of Array.from(entry.counts.entries())) {
+        const version = entry.version
+        try {
+          const value = await entry.source.count(filter)
+          // A write while counting makes the result uncertain: leave the count to the write path
+          if (entry.version !== version || entry.counts.get(filter) !== tracked) {
+            continue
+          }
+          if (value !== tracked.value) {
+            console.warn(`📊 Record count of ${table}${filter ? ` (${filter})` : ''} corrected: ${tracked.value} -> ${value}`)
+            tracked.value = value
+            this.counters.corrections++
+          }
+        } catch (error: any) {
+          console.warn(`⚠️  Could not reconcile record count of ${table}:`, error?.message || error)
+        }
+      }
+    }
+    this.counters.reconciliations++
+    this.lastReconciledAt = new Date()
+  }
+}
+
+// Singleton instance
+let recordCountService: RecordCountService | null = null
+
+export const getRecordCountService = (): RecordCountService => {
+  if (!recordCountService) {
+    recordCountService = new RecordCountService()
+  }
+  return recordCountService
+}
@@ -0,0 +1,142 @@
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { EntityRecordNotFoundError } from './types'
+import { FilterNode } from '../filters/FilterAst'
+
+/**
+ * Entity Service
+ *
+ * Generic service over an IEntityRepository, replacing the per-entity services.
+ * It offers both method sets the entity services use:
+ * - repository style: findAll / findPaginated / findById / getDistinctValues
+ * - controller style: getAll({ offset, limit, sortBy, sortOrder, search, status }) / getById / getFilterValues
+ *
+ * update and delete differ between the two styles, so they live in the subclasses below.
+ */
+export class EntityService<T, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>> {
+  protected repository: IEntityRepository<T, CreateDto, UpdateDto>
+
+  constructor(repository: IEntityRepository<T, CreateDto, UpdateDto>) {
+    this.repository = repository
+  }
+
+  protected get label(): string {
+    return this.repository.descriptor.label
+  }
+
+  /**
+   * Get all records, optionally filtered
+   */
+  async findAll(filters?: Record<string, any>, filter?: FilterNode): Promise<T[]> {
+    const { records } = await this.repository.list({ filters, filter })
+    return records
+  }
+
+  /**
+   * Get paginated records with filtering, search and sorting
+   */
+  async findPaginated(
+    offset: number = 0,
+    limit: number = 50,
+    sortBy?: string,
+    sortOrder: 'asc' | 'desc' = 'asc',
+    filters?: Record<string, any>,
+    search?: string,
+    filter?: FilterNode
+  ): Promise<{ records: T[]; total: number }> {
+    return this.repository.list({ offset, limit, sortBy, sortOrder, filters, search, filter })
+  }
+
+  /**
+   * Get records for a table view - status filters the Status field, filter is a filter AST
+   */
+  async getAll(params: {
+    offset?: number
+    limit?: number
+    sortBy?: string
+    sortOrder?: 'asc' | 'desc'
+    search?: string
+    status?: string
+    filter?: FilterNode
+  }): Promise<{ data: T[]; total: number }> {
+    const result = await this.repository.list({
+      offset: params.offset,
+      limit: params.limit,
+      sortBy: params.sortBy,
+      sortOrder: params.sortOrder,
+      search: params.search,
+      filters: params.status ? { Status: params.status } : undefined,
+      filter: params.filter,
+    })
+    return { data: result.records, total: result.total }
+  }
+
+  async findById(id: string): Promise<T | null> {
+    return this.repository.get(id)
+  }
+
+  async getById(id: string): Promise<T | null> {
+    return this.findById(id)
+  }
+
+  async create(dto: CreateDto): Promise<T> {
+    return this.repository.create(dto)
+  }
+
+  /**
+   * Create many records
+   * Returns the created record IDs in input order
+   */
+  async createMany(dtos: CreateDto[]): Promise<string[]> {
+    return this.repository.createMany(dtos)
+  }
+
+  async getTotalCount(): Promise<number> {
+    return this.repository.count()
+  }
+
+  /**
+   * Get distinct values for a field (for filters)
+   */
+  async getDistinctValues(field: string, limit: number = 1000): Promise<string[]> {
+    return this.repository.distinct(field, limit)
+  }
+
+  async getFilterValues(field: string, limit: number = 1000): Promise<string[]> {
+    return this.getDistinctValues(field, limit)
+  }
+}
+
+/**
+ * Controller style: update returns the record and delete resolves,
+ * both throw EntityRecordNotFoundError for unknown IDs
+ */
+export class EntityCrudService<T, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>
+  extends EntityService<T, CreateDto, UpdateDto> {
+  async update(id: string, dto: UpdateDto): Promise<T> {
+    const record = await this.repository.update(id, dto)
+    if (!record) {
+      throw new EntityRecordNotFoundError(this.label, id)
+    }
+    return record
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(await this.repository.delete(id))) {
+      throw new EntityRecordNotFoundError(this.label, id)
+    }
+  }
+}
+
+/**
+ * Repository style: update returns null and delete returns false for unknown IDs
+ */
+export class EntityRepositoryService<T, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>
+  extends EntityService<T, CreateDto, UpdateDto> {
+  async update(id: string, dto: UpdateDto): Promise<T | null> {
+    return this.repository.update(id, dto)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.repository.delete(id)
+  }
+}
@@ -0,0 +1,477 @@
+import { EntityField, EntityFieldType, EntityDescriptor } from './types'
+import { getUserPasswordHashField } from '../../auth/passwords'
+
+/**
+ * Entity descriptors of the emission management tables
+ *
+ * Field names match the Airtable field names unless airtableField says otherwise.
+ * Airtable links that exist on both tables are stored on one side in PostgreSQL (links)
+ * and computed on the other (reverse). Tenant tables keep the organization of a record
+ * as its record ID in a text field (tenantField), which every backend filters the same way.
+ */
+
+const column = (
+  field: string,
+  name: string,
+  type: EntityFieldType = 'text',
+  options: Partial<EntityField> = {}
+): EntityField => ({ field, column: name, type, ...options })
+
+const links = (
+  field: string,
+  name: string,
+  linkTable: string,
+  nameField: string | null = `${field} Name`,
+  airtableField?: string
+): EntityField => ({
+  field,
+  column: name,
+  type: 'links',
+  linkTable,
+  nameField: nameField || undefined,
+  airtableField,
+})
+
+const reverse = (field: string, linkTable: string, reverseColumn: string, options: Partial<EntityField> = {}): EntityField => ({
+  field,
+  type: 'reverse',
+  linkTable,
+  reverseColumn,
+  nameField: `${field} Name`,
+  ...options,
+})
+
+const lookup = (field: string, via: string, lookupColumn: string): EntityField => ({
+  field,
+  type: 'lookup',
+  via,
+  lookupColumn,
+})
+
+/** Name, Description, Status, Notes - shared by most reference tables */
+const standardColumns = (...middle: EntityField[]): EntityField[] => [
+  column('Name', 'name'),
+  column('Description', 'description'),
+  column('Status', 'status', 'text', { defaultValue: 'Active' }),
+  ...middle,
+  column('Notes', 'notes'),
+]
+
+export const ENTITY_DESCRIPTORS: Record<string, EntityDescriptor> = {
+  companies: {
+    table: 'companies',
+    label: 'Companies',
+    entity: 'companies',
+    nameColumn: 'company_name',
+    columns: [
+      column('isinCode', 'isin_code', 'text', { airtableField: 'ISIN Code', required: true }),
+      column('companyName', 'company_name', 'text', { airtableField: 'Company Name', required: true }),
+      column('status', 'status', 'text', { airtableField: 'Status', defaultValue: 'Active', required: true }),
+      column('primarySector', 'primary_sector', 'text', { airtableField: 'Primary Sector' }),
+      column('primaryActivity', 'primary_activity', 'text', { airtableField: 'Primary Activity' }),
+      column('primaryIndustry', 'primary_industry', 'text', { airtableField: 'Primary Industry' }),
+      column('notes', 'notes', 'text', { airtableField: 'Notes' }),
+      column('organizationId', 'organization_id', 'text', { airtableField: 'Organization ID' }),
+    ],
+    searchFields: ['companyName', 'isinCode', 'primarySector', 'primaryActivity', 'primaryIndustry'],
+    createdFields: ['created'],
+    updatedFields: ['lastModified'],
+    tenantField: 'organizationId',
+  },
+
+  geography: {
+    table: 'geography',
+    label: 'Geography',
+    entity: 'geography',
+    columns: [
+      column('Name', 'name', 'text', { aliases: ['regionName'], required: true }),
+      column('CODE', 'code', 'text', { aliases: ['country'], required: true }),
+      column('Status', 'status', 'text', { aliases: ['status'], defaultValue: 'Active' }),
+      column('Type', 'type'),
+      links('Parent', 'parent', 'geography'),
+      column('Notes', 'notes', 'text', { aliases: ['notes'] }),
+    ],
+    searchFields: ['Name', 'CODE'],
+  },
+
+  ghg_types: {
+    table: 'ghg_types',
+    label: 'GHG Types',
+    entity: 'ghg-types',
+    columns: [
+      column('Name', 'name', 'text', { required: true }),
+      column('Short code', 'short_code'),
+      column('Description', 'description'),
+      column('Formula', 'formula'),
+      column('Category', 'category'),
+      column('Status', 'status', 'text', { defaultValue: 'Active' }),
+      column('Notes', 'notes'),
+      reverse('efGwp', 'ef_gwp', 'green_house_gas', { airtableField: 'EF GWP', nameField: undefined, countField: 'efGwpCount' }),
+    ],
+    searchFields: ['Name', 'Short code', 'Description', 'Category'],
+  },
+
+  protocols: {
+    table: 'protocols',
+    label: 'Protocols',
+    airtableTable: 'Protocol',
+    columns: standardColumns(),
+  },
+
+  ef_gwp: {
+    table: 'ef_gwp',
+    label: 'EF GWP',
+    entity: 'emission-factors',
+    columns: [
+      column('factor_name', 'name', 'text', { airtableField: 'Name' }),
+      column('ars_version', 'ars_version', 'text', { airtableField: 'ARS Version' }),
+      column('status', 'status', 'text', { airtableField: 'Status', defaultValue: 'Active' }),
+      column('gwp_value', 'gwp_value', 'number', { airtableField: 'GWP factor' }),
+      column('ef_co2e', 'ef_co2e', 'text', { airtableField: 'EF CO2e' }),
+      column('notes', 'notes', 'text', { airtableField: 'Notes' }),
+      links('greenHouseGas', 'green_house_gas', 'ghg_types', 'greenHouseGasName', 'Green House Gas'),
+      links('protocol', 'protocol', 'protocols', 'protocolName', 'Protocol'),
+      links('efDetailedG', 'ef_detailed_g', 'ef_detailed_g', 'efDetailedGName', 'EF/Detailed G'),
+      column('unit', 'unit'),
+      column('source', 'source'),
+    ],
+    searchFields: ['factor_name', 'ars_version', 'ef_co2e', 'greenHouseGas', 'protocol'],
+    createdFields: ['created_at'],
+    updatedFields: ['updated_at'],
+    decorate: record => {
+      // Legacy source column falls back to the protocol names, as in the Airtable mapping
+      if (!record.source && Array.isArray(record.protocolName)) {
+        record.source = record.protocolName.join(', ')
+      }
+    },
+  },
+
+  ef_detailed_g: {
+    table: 'ef_detailed_g',
+    label: 'EF/Detailed G',
+    entity: 'ef-detailed-g',
+    columns: standardColumns(
+      column('Emission Factor', 'emission_factor', 'number'),
+      links('GHG TYPE', 'ghg_type', 'ghg_types'),
+      reverse('EF GWP', 'ef_gwp', 'ef_detailed_g'),
+      reverse('Std Emission factors', 'standard_emission_factors', 'ef_detailed_g'),
+    ),
+  },
+
+  emission_factor_datasets: {
+    table: 'emission_factor_datasets',
+    label: 'Emission Factors Datasets',
+    airtableTable: 'Emission Factors Dataset',
+    columns: standardColumns(),
+  },
+
+  emission_factor_versions: {
+    table: 'emission_factor_versions',
+    label: 'Emission Factor Versions',
+    entity: 'emission-factor-version',
+    columns: [
+      column('Name', 'name', 'text', { required: true }),
+      column('Short code', 'short_code'),
+      column('Description', 'description'),
+      column('Formula', 'formula'),
+      column('Category', 'category'),
+      column('Published Date', 'published_date', 'date'),
+      column('Effective Date', 'effective_date', 'date'),
+      column('Expiration Date', 'expiration_date', 'date'),
+      links('Emission Factor Set', 'emission_factor_set', 'emission_factor_datasets'),
+      reverse('Std Emission factors', 'standard_emission_factors', 'version'),
+      column('Status', 'status', 'text', { defaultValue: 'Active' }),
+      column('Notes', 'notes'),
+    ],
+    searchFields: ['Name', 'Short code', 'Description', 'Category'],
+  },
+
+  standard_emission_factors: {
+    table: 'standard_emission_factors',
+    label: 'Standard Emission Factors',
+    entity: 'standard-emission-factors',
+    columns: [
+      column('Name', 'name'),
+      column('Status', 'status'),
+      links('Emission Factors Dataset', 'emission_factors_dataset', 'emission_factor_datasets'),
+      column('Emission Factor (CO2e)', 'emission_factor_co2e', 'number'),
+      column('Type of EF', 'type_of_ef'),
+      links('GHG Unit (CO2e)', 'ghg_unit_co2e', 'units'),
+      links('Industry Classification & Emission Factors', 'industry_classification_ef', 'industry_classifications'),
+      links('Version', 'version', 'emission_factor_versions'),
+      column('Publication Date', 'publication_date', 'date'),
+      links('Geography', 'geography', 'geography'),
+      links('Normalized activity', 'normalized_activity', 'normalized_activities'),
+      column('Ref.IC', 'ref_ic', 'textArray'),
+      links('Industry Classification', 'industry_classification', 'industry_classifications'),
+      links('Source UOM', 'source_uom', 'units'),
+      links('Scope', 'scope', 'scopes'),
+      links('Scope Categories', 'scope_categories', 'scope_categorisations'),
+      column('Availability ', 'availability', 'text', { aliases: ['Availability'] }),
+      lookup('code (from Industry Classification  🏭)', 'Industry Classification', 'code'),
+      column('Name copy', 'name_copy'),
+      column('ID', 'legacy_id', 'integer'),
+      links('Activity Default UOM', 'activity_default_uom', 'units'),
+      links('EF/Detailed G', 'ef_detailed_g', 'ef_detailed_g'),
+      lookup('Dimension (from Source UOM)', 'Source UOM', 'dimension'),
+      lookup('Status (from Version)', 'Version', 'status'),
+      column('Description', 'description'),
+      column('Notes', 'notes'),
+    ],
+    searchFields: ['Name', 'Description'],
+    createdFields: ['createdAt', 'Created'],
+    updatedFields: ['updatedAt', 'Last Modified'],
+  },
+
+  normalized_activities: {
+    table: 'normalized_activities',
+    label: 'Normalized Activities',
+    entity: 'normalized-activities',
+    columns: standardColumns(),
+  },
+
+  industry_classifications: {
+    table: 'industry_classifications',
+    label: 'Industry Classifications',
+    entity: 'industry-classification',
+    columns: [
+      column('Name', 'name'),
+      column('Description', 'description'),
+      column('code', 'code'),
+    ],
+    extraFields: true,
+  },
+
+  scopes: {
+    table: 'scopes',
+    label: 'Scopes',
+    entity: 'scope',
+    columns: standardColumns(),
+  },
+
+  scope_categorisations: {
+    table: 'scope_categorisations',
+    label: 'Scope & Categorisation',
+    entity: 'scope-categorisation',
+    columns: standardColumns(links('Scope', 'scope', 'scopes', 'ScopeName')),
+  },
+
+  units: {
+    table: 'units',
+    label: 'Units',
+    entity: 'unit',
+    columns: standardColumns(
+      column('Symbol', 'symbol'),
+      column('Dimension', 'dimension'),
+      column('Unit type', 'unit_type'),
+    ),
+    searchFields: ['Name', 'Description', 'Symbol'],
+  },
+
+  unit_conversions: {
+    table: 'unit_conversions',
+    label: 'Unit Conversions',
+    entity: 'unit-conversion',
+    columns: standardColumns(
+      links('Unit to convert', 'unit_to_convert', 'units'),
+      lookup('Dimension (from Unit to convert)', 'Unit to convert', 'dimension'),
+      links('Normalized unit', 'normalized_unit', 'units'),
+      lookup('Dimension (from Normalized unit)', 'Normalized unit', 'dimension'),
+      column('Value', 'value', 'number'),
+      column('Conversion value', 'conversion_value', 'number'),
+      column('Type', 'type'),
+      links('Activity Density', 'activity_density', 'activity_densities'),
+    ),
+  },
+
+  activity_densities: {
+    table: 'activity_densities',
+    label: 'Activity Densities',
+    airtableTable: 'Activity Density',
+    columns: [
+      column('Name', 'name'),
+      reverse('Unit Conversion', 'unit_conversions', 'activity_density'),
+      column('Conversion factor', 'conversion_factor', 'number'),
+      column('Description', 'description'),
+    ],
+  },
+
+  standard_ecm_catalog: {
+    table: 'standard_ecm_catalog',
+    label: 'Standard ECM Catalog',
+    entity: 'standard-ecm-catalog',
+    columns: standardColumns(
+      links('Standard ECM Classification', 'standard_ecm_classification', 'standard_ecm_classifications'),
+    ),
+  },
+
+  standard_ecm_classifications: {
+    table: 'standard_ecm_classifications',
+    label: 'Standard ECM Classification',
+    entity: 'standard-ecm-classification',
+    columns: standardColumns(
+      reverse('Standard ECM catalog', 'standard_ecm_catalog', 'standard_ecm_classification'),
+    ),
+  },
+
+  activity_data: {
+    table: 'activity_data',
+    label: 'Activity Data',
+    entity: 'activity-data',
+    columns: [
+      column('Name', 'name'),
+      column('Quantity', 'quantity', 'number'),
+      links('Unit', 'unit', 'units'),
+      links('Normalized activity', 'normalized_activity', 'normalized_activities'),
+      links('Company', 'company', 'companies'),
+      links('Geography', 'geography', 'geography'),
+      column('Period Start', 'period_start', 'date'),
+      column('Period End', 'period_end', 'date'),
+      column('Reporting Year', 'reporting_year', 'integer'),
+      links('Emission Factor', 'emission_factor', 'standard_emission_factors'),
+      // Results of the calculation engine
+      column('Computed CO2e (t)', 'computed_co2e_t', 'number', { readOnly: true }),
+      column('Calculation Status', 'calculation_status', 'text', { readOnly: true }),
+      column('Calculation Error', 'calculation_error', 'text', { readOnly: true }),
+      column('Calculation Trace', 'calculation_trace', 'text', { readOnly: true }),
+      column('Calculated At', 'calculated_at', 'timestamp', { readOnly: true }),
+      column('Status', 'status', 'text', { defaultValue: 'Active' }),
+      column('Notes', 'notes'),
+      column('Organization ID', 'organization_id'),
+    ],
+    searchFields: ['Name', 'Notes', 'Company', 'Normalized activity'],
+    tenantField: 'Organization ID',
+  },
+
+  organizations: {
+    table: 'organizations',
+    label: 'Organizations',
+    entity: 'organizations',
+    columns: standardColumns(),
+    searchFields: ['Name', 'Description'],
+  },
+
+  user_roles: {
+    table: 'user_roles',
+    label: 'User Roles',
+    entity: 'user-roles',
+    columns: [
+      column('Name', 'name'),
+      column('Description', 'description'),
+      column('Permissions', 'permissions'), // JSON permission matrix (see auth/permissions)
+    ],
+    extraFields: true,
+  },
+
+  users: {
+    table: 'users',
+    label: 'Users',
+    entity: 'users',
+    nameColumn: 'email',
+    columns: [
+      column('Email', 'email'),
+      column('First Name', 'first_name'),
+      column('Last Name', 'last_name'),
+      column('User Name', 'user_name'),
+      column('UID', 'uid'),
+      column('Status', 'status', 'text', { defaultValue: 'Active' }),
+      column('Profile Name', 'profile_name'),
+      column('Activity Scope', 'activity_scope'),
+      column('Attachment', 'attachment', 'json'),
+      links('Company', 'company', 'companies', 'CompanyName'),
+      links('User Roles', 'user_roles', 'user_roles'),
+      links('Modules', 'modules', 'application_list', 'ModulesName'),
+      links('Organizations', 'organizations', 'organizations', null),
+      column('Notes', 'notes'),
+    ],
+    searchFields: ['Email', 'First Name', 'Last Name', 'User Name'],
+    extraFields: true,
+    hiddenFields: () => [getUserPasswordHashField()],
+  },
+
+  application_list: {
+    table: 'application_list',
+    label: 'Application List',
+    entity: 'application-list',
+    columns: [
+      column('Name', 'name'),
+      column('Description', 'description'),
+      column('Alt URL', 'alt_url'),
+      column('Attachment', 'attachment', 'json'),
+      column('Status', 'status', 'text', { defaultValue: 'Active' }),
+      column('Order', 'sort_order', 'integer'),
+    ],
+    searchFields: ['Name', 'Description'],
+  },
+
+  integration_marketplace: {
+    table: 'integration_marketplace',
+    label: 'Integration Marketplace',
+    entity: 'integration-marketplace',
+    columns: [
+      column('name', 'name', 'text', { airtableField: 'Name', required: true }),
+      column('providerId', 'provider_id', 'text', { airtableField: 'Provider ID', required: true }),
+      column('description', 'description', 'text', { airtableField: 'Description' }),
+      column('icon', 'icon', 'text', { airtableField: 'Icon', defaultValue: 'custom' }),
+      column('category', 'category', 'text', { airtableField: 'Category' }),
+      column('authType', 'auth_type', 'text', { airtableField: 'Auth Type' }),
+      column('baseUrl', 'base_url', 'text', { airtableField: 'Base URL' }),
+      column('documentationUrl', 'documentation_url', 'text', { airtableField: 'Documentation URL' }),
+      column('supportedModels', 'supported_models', 'textArray', { airtableField: 'Supported Models' }),
+      column('defaultModel', 'default_model', 'text', { airtableField: 'Default Model' }),
+      column('features', 'features', 'textArray', { airtableField: 'Features' }),
+      column('enabled', 'enabled', 'boolean', { airtableField: 'Enabled', defaultValue: true }),
+      column('sortOrder', 'sort_order', 'integer', { airtableField: 'Sort Order' }),
+      column('Attachment', 'attachment', 'json', { airtableField: 'Attachments' }),
+    ],
+    searchFields: ['name', 'providerId', 'description'],
+  },
+
+  thermal_criteria: {
+    table: 'thermal_criteria',
+    label: 'Thermal Criteria',
+    entity: 'thermal-criteria',
+    nameColumn: 'zone',
+    columns: [
+      column('Zone', 'zone'),
+      column('Thermal Criteria', 'thermal_criteria'),
+      column('Pasted field 1', 'pasted_field_1'),
+    ],
+    extraFields: true,
+  },
+
+  geo_codes: {
+    table: 'geo_codes',
+    label: 'Geo Codes',
+    entity: 'geo-code',
+    columns: [
+      column('Name', 'name'),
+      column('Notes', 'notes'),
+      column('Assignee', 'assignee'),
+      column('Status', 'status'),
+      column('Ref', 'ref'),
+      column('Region', 'region'),
+      column('Geography 🌍', 'geography'),
+    ],
+    searchFields: ['Name'],
+  },
+}
+
+/**
+ * Entity descriptor by table name
+ */
+export const getEntityDescriptor = (table: string): EntityDescriptor => {
+  const descriptor = ENTITY_DESCRIPTORS[table]
+  if (!descriptor) {
+    throw new Error(`Unknown entity table "${table}"`)
+  }
+  return descriptor
+}
+
+/**
+ * Entity descriptor by API path segment (e.g. 'unit' for /api/unit)
+ */
+export const findEntityDescriptor = (entity: string): EntityDescriptor | null => {
+  const key = decodeURIComponent(entity).toLowerCase()
+  return Object.values(ENTITY_DESCRIPTORS).find(descriptor => descriptor.entity === key) || null
+}
@@ -0,0 +1,59 @@
+import { compileEntityFilter } from './query'
+import { EntityDescriptor, EntityQueryError } from './types'
+
+const descriptor: EntityDescriptor = {
+  table: 'fuels',
+  label: 'Fuels',
+  columns: [
+    { field: 'Name', column: 'name', type: 'text' },
+    { field: 'Quantity', column: 'quantity', type: 'number' },
+    { field: 'Date', column: 'date', type: 'date' },
+    { field: 'Active', column: 'active', type: 'boolean' },
+    { field: 'Unit', column: 'unit', type: 'links', linkTable: 'units', nameField: 'Unit Name' },
+  ],
+}
+
+const records = [
+  { id: 'rec1', Name: 'Diesel', Quantity: 12, Date: '2024-01-31', Active: true, Unit: ['recL'], 'Unit Name': ['Litre'] },
+  { id: 'rec2', Name: 'Natural gas', Quantity: 3, Date: '2024-02-01', Active: false, Unit: [], 'Unit Name': [] },
+  { id: 'rec3', Name: 'Petrol', Date: '2024-01-15', Unit: ['recL'], 'Unit Name': ['Litre'] },
+]
+
+const ids = (filter: Parameters<typeof compileEntityFilter>[1]): string[] =>
+  records.filter(compileEntityFilter(descriptor, filter)).map(record => record.id)
+
+describe('compileEntityFilter', () => {
+  it('matches text case-insensitively, and links by ID or name', () => {
+    expect(ids({ op: 'eq', field: 'Name', value: 'DIESEL' })).toEqual(['rec1'])
+    expect(ids({ op: 'contains', field: 'Name', value: 'gas' })).toEqual(['rec2'])
+    expect(ids({ op: 'eq', field: 'Unit', value: 'litre' })).toEqual(['rec1', 'rec3'])
+    expect(ids({ op: 'eq', field: 'Unit', value: 'recL' })).toEqual(['rec1', 'rec3'])
+  })
+
+  it('compares numbers and dates, a date bound including its whole day', () => {
+    expect(ids({ op: 'range', field: 'Quantity', min: 5 })).toEqual(['rec1'])
+    expect(ids({ op: 'range', field: 'Date', max: '2024-01-31' })).toEqual(['rec1', 'rec3'])
+  })
+
+  it('treats unchecked checkboxes and missing links as empty', () => {
+    expect(ids({ op: 'isEmpty', field: 'Active' })).toEqual(['rec2', 'rec3'])
+    expect(ids({ op: 'isEmpty', field: 'Unit' })).toEqual(['rec2'])
+    expect(ids({ op: 'not', filter: { op: 'isEmpty', field: 'Quantity' } })).toEqual(['rec1', 'rec2'])
+  })
+
+  it('combines filters', () => {
+    expect(ids({
+      op: 'or',
+      filters: [
+        { op: 'eq', field: 'Active', value: true },
+        { op: 'in', field: 'Name', values: ['petrol', 'coal'] },
+      ],
+    })).toEqual(['rec1', 'rec3'])
+  })
+
+  it('refuses unknown fields and ranges on text', () => {
+    expect(() => compileEntityFilter(descriptor, { op: 'eq', field: 'Colour', value: 'red' })).toThrow(EntityQueryError)
+    expect(() => compileEntityFilter(descriptor, { op: 'range', field: 'Name', min: 1 }))
+      .toThrow('Name of Fuels cannot be filtered by range')
+  })
+})
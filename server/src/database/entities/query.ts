@@ -0,0 +1,504 @@
+import { naturalSort } from '../../utils/naturalSort'
+import { EntityDescriptor, EntityField, EntityListOptions, EntityQueryError } from './types'
+import { FilterNode, getRangeKind, isDateOnlyBound } from '../filters/FilterAst'
+
+/**
+ * Entity Field Resolution and In-Process Queries
+ *
+ * Field resolution and write normalisation shared by every backend, plus filtering,
+ * search, natural sorting and pagination over mapped API records with the same
+ * semantics as the SQL built by PostgreSQLTable, filter ASTs included. The Airtable
+ * and in-memory repositories query this way: Airtable formulas cannot match linked
+ * record IDs.
+ */
+
+/** Record metadata every backend provides */
+export type EntityMetaField = 'id' | 'created' | 'updated' | 'createdBy' | 'lastModifiedBy'
+
+const META_FIELDS: Record<string, EntityMetaField> = {
+  id: 'id',
+  createdAt: 'created',
+  created_at: 'created',
+  updatedAt: 'updated',
+  updated_at: 'updated',
+  createdBy: 'createdBy',
+  lastModifiedBy: 'lastModifiedBy',
+}
+
+/**
+ * A field name resolved against the descriptor
+ */
+export type ResolvedEntityField =
+  | { kind: 'column'; column: EntityField }
+  | { kind: 'names'; column: EntityField }
+  | { kind: 'count'; column: EntityField }
+  | { kind: 'meta'; meta: EntityMetaField }
+  | { kind: 'extra'; key: string }
+
+export const toValueList = (value: any): any[] =>
+  value === undefined || value === null || value === '' ? [] : Array.isArray(value) ? value : [value]
+
+export const isTruthy = (value: any): boolean =>
+  value === true || ['true', '1', 'yes', 'checked'].includes(String(value).toLowerCase())
+
+/** Lower-case and drop punctuation so "short_code" matches "Short code" */
+const normalizeKey = (key: string): string =>
+  key.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+/** Reverse links and lookups are derived from other fields */
+export const isComputedField = (column: EntityField): boolean =>
+  column.type === 'reverse' || column.type === 'lookup'
+
+/**
+ * Resolve an API field name (exact, alias, name/count field, metadata, then loose match)
+ */
+export function resolveEntityField(descriptor: EntityDescriptor, key: string): ResolvedEntityField | null {
+  const columns = descriptor.columns
+  const exact = columns.find(column => column.field === key || column.aliases?.includes(key))
+  if (exact) return { kind: 'column', column: exact }
+
+  const names = columns.find(column => column.nameField === key)
+  if (names) return { kind: 'names', column: names }
+  const count = columns.find(column => column.countField === key)
+  if (count) return { kind: 'count', column: count }
+
+  if (descriptor.createdFields?.includes(key)) return { kind: 'meta', meta: 'created' }
+  if (descriptor.updatedFields?.includes(key)) return { kind: 'meta', meta: 'updated' }
+  if (META_FIELDS[key]) return { kind: 'meta', meta: META_FIELDS[key] }
+
+  const normalized = normalizeKey(key)
+  const loose = columns.find(column =>
+    [column.field, ...(column.aliases || []), column.column || ''].some(name => normalizeKey(name) === normalized)
+  )
+  if (loose) return { kind: 'column', column: loose }
+
+  return descriptor.extraFields ? { kind: 'extra', key } : null
+}
+
+/**
+ * Field of the descriptor by API name - for names used in the descriptors themselves
+ */
+export function getEntityField(descriptor: EntityDescriptor, field: string): EntityField {
+  const column = descriptor.columns.find(c => c.field === field)
+  if (!column) {
+    throw new Error(`${descriptor.label}: unknown field "${field}" in entity descriptor`)
+  }
+  return column
+}
+
+/**
+ * API field holding the display name (the nameColumn)
+ */
+export function getEntityNameField(descriptor: EntityDescriptor): EntityField {
+  const nameColumn = descriptor.nameColumn || 'name'
+  return descriptor.columns.find(column => column.column === nameColumn) || descriptor.columns[0]
+}
+
+/**
+ * Fields of the descriptor searched by the search box
+ */
+export function getEntitySearchFields(descriptor: EntityDescriptor): EntityField[] {
+  return descriptor.searchFields
+    ? descriptor.searchFields.map(field => getEntityField(descriptor, field))
+    : descriptor.columns.filter(column => column.type === 'text')
+}
+
+/**
+ * API names that are never written (record metadata, resolved names and counts)
+ */
+export function getEntityReadOnlyKeys(descriptor: EntityDescriptor): Set<string> {
+  return new Set([
+    ...Object.keys(META_FIELDS),
+    ...(descriptor.createdFields || []),
+    ...(descriptor.updatedFields || []),
+    ...descriptor.columns.flatMap(column => [column.nameField, column.countField].filter(Boolean) as string[]),
+  ])
+}
+
+/**
+ * Normalised value of a stored field
+ * @throws EntityQueryError for a non-numeric value of a number field
+ */
+export function toStoredValue(column: EntityField, value: any): any {
+  switch (column.type) {
+    case 'links':
+    case 'textArray':
+      return toValueList(value)
+        .map(item => String(item && typeof item === 'object' && item.id ? item.id : item).trim())
+        .filter(item => item !== '')
+    case 'number':
+    case 'integer': {
+      if (value === null || value === '') return null
+      const number = Number(value)
+      if (!Number.isFinite(number)) {
+        throw new EntityQueryError(`${column.field} must be a number`, column.field)
+      }
+      return column.type === 'integer' ? Math.trunc(number) : number
+    }
+    case 'boolean':
+      return isTruthy(value)
+    case 'json':
+      return value
+    default: {
+      if (value === null) return null
+      const text = (Array.isArray(value) ? value.join(', ') : String(value)).trim()
+      return text === '' ? null : text
+    }
+  }
+}
+
+/**
+ * API fields of a write -> normalised stored values
+ * Computed and read-only fields are skipped; unknown fields are kept as extra fields
+ * when the descriptor allows them. On insert, missing fields get their default value.
+ */
+export function normalizeEntityWrite(
+  descriptor: EntityDescriptor,
+  fields: Record<string, any>,
+  insert: boolean
+): { values: Map<EntityField, any>; extra: Record<string, any> } {
+  const values = new Map<EntityField, any>()
+  const extra: Record<string, any> = {}
+  const readOnly = getEntityReadOnlyKeys(descriptor)
+
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === undefined) return
+    const column = descriptor.columns.find(c => c.field === key || c.aliases?.includes(key))
+    if (column) {
+      // The field name wins over an alias
+      if (isComputedField(column) || (values.has(column) && key !== column.field)) return
+      values.set(column, toStoredValue(column, value))
+      return
+    }
+    if (!readOnly.has(key) && descriptor.extraFields) {
+      extra[key] = value
+    }
+  })
+
+  if (insert) {
+    descriptor.columns.forEach(column => {
+      if (!isComputedField(column) && column.defaultValue !== undefined && !values.has(column)) {
+        values.set(column, toStoredValue(column, column.defaultValue))
+      }
+    })
+  }
+  return { values, extra }
+}
+
+/**
+ * Metadata value of a mapped record
+ */
+function metaValue(descriptor: EntityDescriptor, record: Record<string, any>, meta: EntityMetaField): any {
+  switch (meta) {
+    case 'created':
+      return record[(descriptor.createdFields || ['createdAt'])[0]]
+    case 'updated':
+      return record[(descriptor.updatedFields || ['updatedAt'])[0]]
+    default:
+      return record[meta]
+  }
+}
+
+/** Linked record names of a links or reverse field, IDs when the field has no names */
+const linkedNames = (record: Record<string, any>, column: EntityField): string[] =>
+  toValueList(column.nameField ? record[column.nameField] : record[column.field]).map(String)
+
+/** Lookups are joined with ', ' like the SQL string_agg */
+const lookupValues = (value: any): string[] =>
+  toValueList(value).flatMap(item => String(item).split(', '))
+
+/**
+ * Whether a mapped record matches any of the filter values, case-insensitively
+ * Link fields match a linked record ID or name
+ */
+function matchesFilter(descriptor: EntityDescriptor, record: Record<string, any>, resolved: ResolvedEntityField, values: string[]): boolean {
+  const lower = values.map(value => value.toLowerCase())
+  const matchesText = (value: any) =>
+    value !== undefined && value !== null && lower.includes(String(value).toLowerCase())
+
+  if (resolved.kind === 'extra') return matchesText(record[resolved.key])
+  if (resolved.kind === 'meta') return matchesText(metaValue(descriptor, record, resolved.meta))
+  if (resolved.kind === 'count') {
+    return values.map(value => parseInt(value, 10) || 0).includes(Number(record[resolved.column.countField!] || 0))
+  }
+
+  const column = resolved.column
+  const value = record[column.field]
+  switch (column.type) {
+    case 'links':
+    case 'reverse':
+      return toValueList(value).some(id => values.includes(String(id))) ||
+        (!!column.nameField && toValueList(record[column.nameField]).some(matchesText))
+    case 'lookup':
+      return lookupValues(value).some(matchesText)
+    case 'textArray':
+      return toValueList(value).some(matchesText)
+    case 'number':
+    case 'integer':
+      if (value === undefined || value === null) return false
+      if (values.every(item => Number.isFinite(Number(item)))) {
+        return values.map(Number).includes(Number(value))
+      }
+      return values.includes(String(value))
+    case 'boolean':
+      return values.map(isTruthy).includes(isTruthy(value))
+    default:
+      return matchesText(value)
+  }
+}
+
+function matchesSearch(descriptor: EntityDescriptor, record: Record<string, any>, term: string): boolean {
+  const needle = term.toLowerCase()
+  const texts = getEntitySearchFields(descriptor).map(column => {
+    if (column.type === 'links' || column.type === 'reverse') return linkedNames(record, column).join(' ')
+    if (column.type === 'textArray') return toValueList(record[column.field]).join(' ')
+    return record[column.field] === undefined || record[column.field] === null ? '' : String(record[column.field])
+  })
+  if (descriptor.extraFields) {
+    // User-defined fields are not in the descriptor - search every text value
+    Object.values(record).forEach(value => {
+      if (typeof value === 'string') texts.push(value)
+    })
+  }
+  return texts.some(text => text.toLowerCase().includes(needle))
+}
+
+function sortValue(descriptor: EntityDescriptor, record: Record<string, any>, resolved: ResolvedEntityField): any {
+  if (resolved.kind === 'extra') return record[resolved.key]
+  if (resolved.kind === 'meta') return metaValue(descriptor, record, resolved.meta)
+  if (resolved.kind === 'count') return Number(record[resolved.column.countField!] || 0)
+
+  const column = resolved.column
+  if (resolved.kind === 'names' || column.type === 'links' || column.type === 'reverse') {
+    return linkedNames(record, column)[0]
+  }
+  if (column.type === 'textArray') return toValueList(record[column.field]).join(', ') || undefined
+  if (column.type === 'json') return record[column.field] === undefined ? undefined : JSON.stringify(record[column.field])
+  return record[column.field]
+}
+
+/**
+ * Field of a filter AST node
+ * @throws EntityQueryError for an unknown field
+ */
+export function resolveFilterField(descriptor: EntityDescriptor, field: string): ResolvedEntityField {
+  const resolved = resolveEntityField(descriptor, field)
+  if (!resolved) {
+    throw new EntityQueryError(`Unknown filter field "${field}" for ${descriptor.label}`, field)
+  }
+  return resolved
+}
+
+/**
+ * Kind of values of a range filter field: numbers (number, integer and count fields) or
+ * dates (date, timestamp and the record timestamps)
+ * @throws EntityQueryError for another field, or bounds of the other kind
+ */
+export function getRangeFieldKind(
+  descriptor: EntityDescriptor,
+  resolved: ResolvedEntityField,
+  filter: Extract<FilterNode, { op: 'range' }>
+): 'number' | 'date' {
+  let kind: 'number' | 'date' | null = null
+  if (resolved.kind === 'count') {
+    kind = 'number'
+  } else if (resolved.kind === 'meta') {
+    kind = resolved.meta === 'created' || resolved.meta === 'updated' ? 'date' : null
+  } else if (resolved.kind === 'column') {
+    const type = resolved.column.type
+    kind = type === 'number' || type === 'integer' ? 'number' : type === 'date' || type === 'timestamp' ? 'date' : null
+  }
+  if (!kind) {
+    throw new EntityQueryError(`${filter.field} of ${descriptor.label} cannot be filtered by range`, filter.field)
+  }
+  if (getRangeKind(filter) !== kind) {
+    throw new EntityQueryError(`${filter.field} ranges need ${kind === 'number' ? 'number' : 'date'} bounds`, filter.field)
+  }
+  return kind
+}
+
+/** Text values of a field, as matched by contains and isEmpty */
+function filterTexts(descriptor: EntityDescriptor, record: Record<string, any>, resolved: ResolvedEntityField): string[] {
+  if (resolved.kind === 'extra') return toValueList(record[resolved.key]).map(String)
+  if (resolved.kind === 'meta') return toValueList(metaValue(descriptor, record, resolved.meta)).map(String)
+  if (resolved.kind === 'count') return [String(record[resolved.column.countField!] || 0)]
+
+  const column = resolved.column
+  const value = record[column.field]
+  if (resolved.kind === 'names' || column.type === 'links' || column.type === 'reverse') return linkedNames(record, column)
+  if (column.type === 'lookup') return lookupValues(value)
+  if (column.type === 'json') return value === undefined || value === null ? [] : [JSON.stringify(value)]
+  return toValueList(value).map(String)
+}
+
+/**
+ * In-memory predicate of a filter AST - fields are resolved once, up front
+ * @throws EntityQueryError for an unknown field or a range on a field without numbers or dates
+ */
+export function compileEntityFilter(
+  descriptor: EntityDescriptor,
+  filter: FilterNode
+): (record: Record<string, any>) => boolean {
+  switch (filter.op) {
+    case 'and': {
+      const children = filter.filters.map(child => compileEntityFilter(descriptor, child))
+      return record => children.every(matches => matches(record))
+    }
+    case 'or': {
+      const children = filter.filters.map(child => compileEntityFilter(descriptor, child))
+      return record => children.some(matches => matches(record))
+    }
+    case 'not': {
+      const child = compileEntityFilter(descriptor, filter.filter)
+      return record => !child(record)
+    }
+    case 'eq':
+    case 'in': {
+      const resolved = resolveFilterField(descriptor, filter.field)
+      const values = (filter.op === 'eq' ? [filter.value] : filter.values).map(String)
+      return record => values.length > 0 && matchesFilter(descriptor, record, resolved, values)
+    }
+    case 'contains': {
+      const resolved = resolveFilterField(descriptor, filter.field)
+      const needle = filter.value.toLowerCase()
+      return record => filterTexts(descriptor, record, resolved).some(text => text.toLowerCase().includes(needle))
+    }
+    case 'isEmpty': {
+      const resolved = resolveFilterField(descriptor, filter.field)
+      if (resolved.kind === 'column' && resolved.column.type === 'boolean') {
+        return record => !isTruthy(record[resolved.column.field])
+      }
+      if (resolved.kind === 'count') {
+        return record => !Number(record[resolved.column.countField!] || 0)
+      }
+      return record => filterTexts(descriptor, record, resolved).every(text => text.trim() === '')
+    }
+    case 'range': {
+      const resolved = resolveFilterField(descriptor, filter.field)
+      const kind = getRangeFieldKind(descriptor, resolved, filter)
+      const toComparable = (value: any): number =>
+        value === undefined || value === null || value === ''
+          ? NaN
+          : kind === 'number' ? Number(value) : Date.parse(String(value))
+      const valueOf = (record: Record<string, any>): any => {
+        if (resolved.kind === 'count') return record[resolved.column.countField!] || 0
+        if (resolved.kind === 'meta') return metaValue(descriptor, record, resolved.meta)
+        return resolved.kind === 'column' ? record[resolved.column.field] : undefined
+      }
+      const min = filter.min !== undefined ? toComparable(filter.min) : -Infinity
+      let max = filter.max !== undefined ? toComparable(filter.max) : Infinity
+      if (filter.max !== undefined && isDateOnlyBound(filter.max)) {
+        // A date without a time includes the whole day
+        max += 24 * 60 * 60 * 1000 - 1
+      }
+      return record => {
+        const value = toComparable(valueOf(record))
+        return !Number.isNaN(value) && value >= min && value <= max
+      }
+    }
+  }
+}
+
+/**
+ * Natural comparison with empty values last in both directions (SQL NULLS LAST)
+ */
+function compareValues(a: any, b: any, order: 'asc' | 'desc'): number {
+  const aEmpty = a === undefined || a === null || a === ''
+  const bEmpty = b === undefined || b === null || b === ''
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1
+  if (typeof a === 'number' && typeof b === 'number') {
+    return order === 'asc' ? a - b : b - a
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return order === 'asc' ? Number(a) - Number(b) : Number(b) - Number(a)
+  }
+  return naturalSort(a, b, order)
+}
+
+/**
+ * Filter, search, sort and paginate mapped API records
+ * @throws EntityQueryError for an unknown filter field or an invalid filter AST
+ */
+export function queryEntityRecords<T extends Record<string, any>>(
+  descriptor: EntityDescriptor,
+  records: T[],
+  options: EntityListOptions = {}
+): { records: T[]; total: number } {
+  const filters = Object.entries(options.filters || {})
+    .map(([key, rawValue]) => {
+      const values = toValueList(rawValue).map(value => String(value).trim()).filter(value => value !== '')
+      if (values.length === 0) return null
+      const resolved = resolveEntityField(descriptor, key)
+      if (!resolved) {
+        throw new EntityQueryError(`Unknown filter field "${key}" for ${descriptor.label}`, key)
+      }
+      return { resolved, values }
+    })
+    .filter((filter): filter is { resolved: ResolvedEntityField; values: string[] } => filter !== null)
+  const term = options.search?.trim()
+  const matchesAst = options.filter ? compileEntityFilter(descriptor, options.filter) : null
+
+  const matches = records.filter(record =>
+    filters.every(({ resolved, values }) => matchesFilter(descriptor, record, resolved, values)) &&
+    (!term || matchesSearch(descriptor, record, term)) &&
+    (!matchesAst || matchesAst(record))
+  )
+
+  const order = options.sortOrder === 'desc' ? 'desc' : 'asc'
+  let sortBy: ResolvedEntityField = { kind: 'column', column: getEntityNameField(descriptor) }
+  const key = options.sortBy?.trim()
+  if (key) {
+    const resolved = resolveEntityField(descriptor, key)
+    if (resolved) {
+      sortBy = resolved
+    } else {
+      console.warn(`⚠️  ${descriptor.label}: unknown sort field "${key}", using default sort`)
+    }
+  }
+  matches.sort((a, b) =>
+    compareValues(sortValue(descriptor, a, sortBy), sortValue(descriptor, b, sortBy), order) ||
+    (order === 'asc' ? 1 : -1) * String(a.id).localeCompare(String(b.id))
+  )
+
+  const offset = Math.max(0, options.offset || 0)
+  const end = options.limit !== undefined ? offset + Math.max(0, options.limit) : undefined
+  return { records: matches.slice(offset, end), total: matches.length }
+}
+
+/**
+ * Distinct non-empty values of a field over mapped records, naturally sorted
+ * Link fields return the linked record names
+ */
+export function distinctEntityValues(
+  descriptor: EntityDescriptor,
+  records: Record<string, any>[],
+  field: string,
+  limit: number = 1000
+): string[] {
+  const resolved = resolveEntityField(descriptor, field)
+  if (!resolved) return []
+
+  const values = new Set<string>()
+  records.forEach(record => {
+    let recordValues: any[]
+    if (resolved.kind === 'extra') {
+      recordValues = toValueList(record[resolved.key])
+    } else if (resolved.kind === 'meta') {
+      recordValues = toValueList(metaValue(descriptor, record, resolved.meta))
+    } else if (resolved.kind === 'count') {
+      recordValues = [record[resolved.column.countField!] || 0]
+    } else if (resolved.column.type === 'links' || resolved.column.type === 'reverse') {
+      recordValues = linkedNames(record, resolved.column)
+    } else if (resolved.column.type === 'lookup') {
+      recordValues = lookupValues(record[resolved.column.field])
+    } else {
+      recordValues = toValueList(record[resolved.column.field])
+    }
+    recordValues.forEach(value => {
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+      if (text !== '') values.add(text)
+    })
+  })
+
+  return Array.from(values).sort((a, b) => naturalSort(a, b)).slice(0, limit)
+}
@@ -0,0 +1,123 @@
+import { FilterNode } from '../filters/FilterAst'
+
+/**
+ * Entity Descriptors
+ *
+ * Each entity table is described once (descriptors.ts). The description drives every
+ * backend - Airtable, PostgreSQL (DDL and queries) and in-memory - and maps records to
+ * the same API field names, so controllers and the frontend do not see which database
+ * is in use.
+ */
+
+/**
+ * - text, number (double precision), integer, boolean, date, timestamp, json: plain values
+ * - textArray: list of values (e.g. Ref.IC)
+ * - links: record IDs in linkTable - the Airtable linked record field
+ * - reverse: read-only - records of linkTable whose reverseColumn links to this record
+ * - lookup: read-only - lookupColumn of the records linked through the `via` field
+ */
+export type EntityFieldType =
+  | 'text'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'timestamp'
+  | 'json'
+  | 'textArray'
+  | 'links'
+  | 'reverse'
+  | 'lookup'
+
+export interface EntityField {
+  /** API field name */
+  field: string
+  /** SQL column - not set for reverse and lookup fields, which are computed */
+  column?: string
+  type: EntityFieldType
+  /** Airtable field name when it differs from the API field name */
+  airtableField?: string
+  /** Other API names read and written through this field (legacy aliases) */
+  aliases?: string[]
+  /** Written on insert when the field is missing */
+  defaultValue?: any
+  /** Must be given when a record is created through the API (validation/validateRequest) */
+  required?: boolean
+  /** Written by the server only (e.g. calculation results) - refused in API writes */
+  readOnly?: boolean
+  /** links / reverse: table of the linked records */
+  linkTable?: string
+  /** links / reverse: API field holding the linked record names */
+  nameField?: string
+  /** reverse: links column of linkTable pointing back to this table */
+  reverseColumn?: string
+  /** reverse: API field holding the number of linked records */
+  countField?: string
+  /** lookup: links field of this table to read through */
+  via?: string
+  /** lookup: column of the linked table */
+  lookupColumn?: string
+}
+
+export interface EntityDescriptor {
+  /** SQL table name, also the key in ENTITY_DESCRIPTORS */
+  table: string
+  /** Human readable name for logs and errors, e.g. 'Standard Emission Factors' */
+  label: string
+  /** API path segment registered in utils/entityTables (e.g. 'unit'), which also names the Airtable table */
+  entity?: string
+  /** Airtable table ID or name for tables without an API path segment */
+  airtableTable?: string
+  columns: EntityField[]
+  /** Display name column - used for link names, natural default sort and distinct values (default: name) */
+  nameColumn?: string
+  /** API fields matched by the search box (default: every text field) */
+  searchFields?: string[]
+  /** API names of the record timestamps (default: createdAt / updatedAt) */
+  createdFields?: string[]
+  updatedFields?: string[]
+  /** Keep fields without a column (tables with user-defined fields) */
+  extraFields?: boolean
+  /** Fields of the table never written through the API (e.g. the password hash, whose
+   * name comes from the environment, so it is read when a request is checked) */
+  hiddenFields?: () => string[]
+  /** API field holding the ID of the Organization a record belongs to - the repositories
+   * of the table only read and write the records of the caller's organization (auth/TenantContext) */
+  tenantField?: string
+  /** Add compatibility fields to a mapped record */
+  decorate?: (record: Record<string, any>) => void
+}
+
+/**
+ * Query options accepted by IEntityRepository.list
+ */
+export interface EntityListOptions {
+  offset?: number
+  limit?: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+  filters?: Record<string, any>
+  /** Filter AST (filters/FilterAst), applied with filters and search */
+  filter?: FilterNode
+  search?: string
+}
+
+/**
+ * Unknown field or invalid value in an entity query or write
+ */
+export class EntityQueryError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'EntityQueryError'
+  }
+}
+
+/**
+ * Update or delete of a record that does not exist
+ */
+export class EntityRecordNotFoundError extends Error {
+  constructor(label: string, public id: string) {
+    super(`${label} record ${id} not found`)
+    this.name = 'EntityRecordNotFoundError'
+  }
+}
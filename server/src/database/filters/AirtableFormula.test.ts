@@ -0,0 +1,40 @@
+import { compileAirtableFormula, formulaFieldRef, formulaRecordIds, formulaString } from './AirtableFormula'
+
+describe('compileAirtableFormula', () => {
+  it('escapes values, so no input can change the shape of the formula', () => {
+    expect(formulaString('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"')
+    expect(compileAirtableFormula({ op: 'eq', field: 'Name', value: '") , TRUE()) & ("' }))
+      .toBe('LOWER({Name} & "") = "\\") , true()) & (\\""')
+    expect(formulaFieldRef('Na{me}')).toBe('{Name}')
+    expect(formulaRecordIds(['rec1', 'rec"2'])).toBe('OR(RECORD_ID() = "rec1", RECORD_ID() = "rec\\"2")')
+  })
+
+  it('matches whole items of list fields, under their Airtable names', () => {
+    const formula = compileAirtableFormula(
+      { op: 'in', field: 'tags', values: ['Fuel', 'Gas'] },
+      { fieldName: field => (field === 'tags' ? 'Tags' : field), isListField: field => field === 'tags' }
+    )
+    expect(formula).toBe(
+      'OR(FIND(", fuel,", ", " & LOWER({Tags} & "") & ",") > 0, FIND(", gas,", ", " & LOWER({Tags} & "") & ",") > 0)'
+    )
+  })
+
+  it('compiles numbers, booleans and empty combinations', () => {
+    expect(compileAirtableFormula({ op: 'eq', field: 'Quantity', value: 1e21 })).toBe('{Quantity} = 1000000000000000000000')
+    expect(compileAirtableFormula({ op: 'eq', field: 'Factor', value: 1e-12 })).toBe('{Factor} = 0.000000000001')
+    expect(compileAirtableFormula({ op: 'eq', field: 'Factor', value: -1.5e-7 })).toBe('{Factor} = -0.00000015')
+    expect(compileAirtableFormula({ op: 'eq', field: 'Factor', value: 0.000123456789012 })).toBe('{Factor} = 0.000123456789012')
+    expect(compileAirtableFormula({ op: 'eq', field: 'Active', value: false })).toBe('NOT({Active})')
+    expect(compileAirtableFormula({ op: 'and', filters: [] })).toBe('TRUE()')
+    expect(compileAirtableFormula({ op: 'in', field: 'Name', values: [] })).toBe('FALSE()')
+    expect(compileAirtableFormula({ op: 'not', filter: { op: 'isEmpty', field: 'Notes' } })).toBe('NOT({Notes} & "" = "")')
+  })
+
+  it('includes the whole last day of a date range', () => {
+    expect(compileAirtableFormula({ op: 'range', field: 'Date', min: '2024-01-01', max: '2024-01-31' })).toBe(
+      'AND({Date} & "" != "", NOT(IS_BEFORE({Date}, DATETIME_PARSE("2024-01-01"))), ' +
+      'IS_BEFORE({Date}, DATEADD(DATETIME_PARSE("2024-01-31"), 1, \'days\')))'
+    )
+    expect(compileAirtableFormula({ op: 'range', field: 'Quantity', max: 10 })).toBe('AND({Quantity} & "" != "", {Quantity} <= 10)')
+  })
+})
@@ -0,0 +1,118 @@
+import { FilterNode, FilterValue, RangeBound, getRangeKind, isDateOnlyBound } from './FilterAst'
+
+/**
+ * Airtable Formula Compiler
+ *
+ * Compiles a filter AST to a filterByFormula. Values only ever appear as escaped string
+ * literals or as numbers, and field names only as field references, so no input can
+ * change the shape of the formula.
+ */
+
+/**
+ * Quote a value as an Airtable formula string literal
+ */
+export const formulaString = (value: string): string =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+
+/**
+ * Reference to a field - braces cannot be escaped in a field reference, so they are dropped
+ */
+export const formulaFieldRef = (name: string): string => `{${name.replace(/[{}]/g, '')}}`
+
+/**
+ * The field equal to the value, exactly - for lookups by key (IDs, unique keys)
+ */
+export const formulaEquals = (field: string, value: string): string =>
+  `${formulaFieldRef(field)} = ${formulaString(value)}`
+
+/**
+ * Record ID equal to any of the IDs
+ */
+export const formulaRecordIds = (ids: string[]): string =>
+  `OR(${ids.map(id => `RECORD_ID() = ${formulaString(id)}`).join(', ')})`
+
+export interface AirtableFormulaOptions {
+  /** Airtable field name of a filter field (default: the field itself) */
+  fieldName?: (field: string) => string
+  /** Whether a field holds several items (linked records, multiple selects, lookups) */
+  isListField?: (field: string) => boolean
+}
+
+/** A number without exponent - a JS number can print as 1e+21 or 1e-7, which formulas do not read */
+const formulaNumber = (value: number): string => {
+  if (Number.isInteger(value)) {
+    return BigInt(value).toString()
+  }
+  const [digits, exponent] = value.toString().split('e')
+  if (exponent === undefined) {
+    return digits
+  }
+  // Only fractions below 1e-6 print with an exponent: move the point left, keeping every digit
+  const sign = digits.startsWith('-') ? '-' : ''
+  return `${sign}0.${'0'.repeat(-Number(exponent) - 1)}${digits.replace(/[-.]/g, '')}`
+}
+
+const formulaDate = (bound: RangeBound): string => `DATETIME_PARSE(${formulaString(String(bound))})`
+
+/**
+ * Formula of a filter
+ */
+export function compileAirtableFormula(filter: FilterNode, options: AirtableFormulaOptions = {}): string {
+  const ref = (field: string) => formulaFieldRef(options.fieldName ? options.fieldName(field) : field)
+  const isList = (field: string) => !!options.isListField?.(field)
+
+  const equals = (field: string, value: FilterValue): string => {
+    if (typeof value === 'boolean') {
+      return value ? ref(field) : `NOT(${ref(field)})`
+    }
+    if (typeof value === 'number' && !isList(field)) {
+      return `${ref(field)} = ${formulaNumber(value)}`
+    }
+    const text = typeof value === 'number' ? formulaNumber(value) : value
+    if (isList(field)) {
+      // Items are joined with ", " in formulas - pad both sides to match whole items only
+      return `FIND(${formulaString(`, ${text.toLowerCase()},`)}, ", " & LOWER(${ref(field)} & "") & ",") > 0`
+    }
+    return `LOWER(${ref(field)} & "") = ${formulaString(text.toLowerCase())}`
+  }
+
+  const compile = (node: FilterNode): string => {
+    switch (node.op) {
+      case 'and':
+        return node.filters.length === 0 ? 'TRUE()' : `AND(${node.filters.map(compile).join(', ')})`
+      case 'or':
+        return node.filters.length === 0 ? 'FALSE()' : `OR(${node.filters.map(compile).join(', ')})`
+      case 'not':
+        return `NOT(${compile(node.filter)})`
+      case 'eq':
+        return equals(node.field, node.value)
+      case 'in':
+        if (node.values.length === 0) return 'FALSE()'
+        return node.values.length === 1
+          ? equals(node.field, node.values[0])
+          : `OR(${node.values.map(value => equals(node.field, value)).join(', ')})`
+      case 'contains':
+        return `FIND(${formulaString(node.value.toLowerCase())}, LOWER(${ref(node.field)} & "")) > 0`
+      case 'isEmpty':
+        return `${ref(node.field)} & "" = ""`
+      case 'range': {
+        const field = ref(node.field)
+        const conditions = [`${field} & "" != ""`]
+        if (getRangeKind(node) === 'number') {
+          if (node.min !== undefined) conditions.push(`${field} >= ${formulaNumber(node.min as number)}`)
+          if (node.max !== undefined) conditions.push(`${field} <= ${formulaNumber(node.max as number)}`)
+        } else {
+          if (node.min !== undefined) conditions.push(`NOT(IS_BEFORE(${field}, ${formulaDate(node.min)}))`)
+          if (node.max !== undefined) {
+            conditions.push(isDateOnlyBound(node.max)
+              ? `IS_BEFORE(${field}, DATEADD(${formulaDate(node.max)}, 1, 'days'))`
+              : `NOT(IS_AFTER(${field}, ${formulaDate(node.max)}))`)
+          }
+        }
+        return `AND(${conditions.join(', ')})`
+      }
+    }
+  }
+
+  return compile(filter)
+}
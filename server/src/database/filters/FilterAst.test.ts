@@ -0,0 +1,64 @@
+import { FilterSyntaxError, filtersToFilterNode, getFilterFields, parseFilter, parseFilterParam, searchFilter } from './FilterAst'
+
+describe('parseFilter', () => {
+  it('reads the JSON of a query parameter', () => {
+    const filter = parseFilter('{"op":"and","filters":[{"op":"eq","field":"Status","value":"Active"},{"op":"range","field":"Quantity","min":1}]}')
+    expect(filter).toEqual({
+      op: 'and',
+      filters: [
+        { op: 'eq', field: 'Status', value: 'Active' },
+        { op: 'range', field: 'Quantity', min: 1 },
+      ],
+    })
+    expect(getFilterFields(filter)).toEqual(['Status', 'Quantity'])
+  })
+
+  it('locates the offending node', () => {
+    expect(() => parseFilter('{"op":"and","filters":[{"op":"eq","field":"Status"}]}'))
+      .toThrow('filter.filters[0].value')
+    expect(() => parseFilter('{"op":"like","field":"Name","value":"x"}')).toThrow(FilterSyntaxError)
+    expect(() => parseFilter('{op:')).toThrow('filter: not valid JSON')
+  })
+
+  it('refuses ranges without bounds or with bounds of two kinds', () => {
+    expect(() => parseFilter({ op: 'range', field: 'Quantity' })).toThrow('needs min or max')
+    expect(() => parseFilter({ op: 'range', field: 'Quantity', min: 1, max: '2024-01-01' }))
+      .toThrow('min and max must both be numbers or both be dates')
+  })
+
+  it('limits the nesting of a filter', () => {
+    let filter: any = { op: 'eq', field: 'Name', value: 'x' }
+    for (let i = 0; i < 8; i++) filter = { op: 'not', filter }
+    expect(() => parseFilter(filter)).toThrow('nested more than 8 levels deep')
+  })
+
+  it('reads no filter from an empty parameter, and refuses a repeated one', () => {
+    expect(parseFilterParam(undefined)).toBeUndefined()
+    expect(parseFilterParam('')).toBeUndefined()
+    expect(() => parseFilterParam(['{}', '{}'])).toThrow('must be given once')
+  })
+})
+
+describe('filter builders', () => {
+  it('turns legacy filters into eq and in nodes, dropping empty values', () => {
+    expect(filtersToFilterNode({ Status: 'Active', Scope: ['1', ' 2 '], Notes: '' })).toEqual({
+      op: 'and',
+      filters: [
+        { op: 'eq', field: 'Status', value: 'Active' },
+        { op: 'in', field: 'Scope', values: ['1', '2'] },
+      ],
+    })
+    expect(filtersToFilterNode({ Notes: [] })).toBeUndefined()
+  })
+
+  it('matches a search term in any of the fields', () => {
+    expect(searchFilter(['Name', 'Notes'], ' fuel ')).toEqual({
+      op: 'or',
+      filters: [
+        { op: 'contains', field: 'Name', value: 'fuel' },
+        { op: 'contains', field: 'Notes', value: 'fuel' },
+      ],
+    })
+    expect(searchFilter(['Name'], '  ')).toBeUndefined()
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * Filter AST
+ *
+ * Typed filters sent by the frontend (FilterPopover) in the `filter` query parameter
+ * as JSON, and built by services for their own queries. Every backend compiles the same
+ * tree: to an Airtable formula (AirtableFormula.ts), a parameterised SQL WHERE clause
+ * (postgres/PostgreSQLTable) or an in-memory predicate (entities/query), so no value is
+ * ever concatenated into a query by hand.
+ *
+ * - eq / in: equal to the value / one of the values, case-insensitively; a field holding
+ *   several items (linked records, multiple selects) matches when any item does
+ * - contains: text containing the value, case-insensitively
+ * - range: min <= value <= max, numbers or ISO dates (a date without a time includes the
+ *   whole day); either bound may be left out
+ * - isEmpty: no value (an unchecked checkbox, no linked records)
+ * - and / or / not: combinations
+ */
+
+export type FilterValue = string | number | boolean
+
+export type RangeBound = number | string
+
+export type FilterNode =
+  | { op: 'eq'; field: string; value: FilterValue }
+  | { op: 'in'; field: string; values: FilterValue[] }
+  | { op: 'contains'; field: string; value: string }
+  | { op: 'range'; field: string; min?: RangeBound; max?: RangeBound }
+  | { op: 'isEmpty'; field: string }
+  | { op: 'and'; filters: FilterNode[] }
+  | { op: 'or'; filters: FilterNode[] }
+  | { op: 'not'; filter: FilterNode }
+
+export type FilterOperator = FilterNode['op']
+
+/**
+ * Filter that is not valid JSON or not a valid tree - path locates the offending node
+ */
+export class FilterSyntaxError extends Error {
+  constructor(message: string, public path: string = 'filter') {
+    super(`${path}: ${message}`)
+    this.name = 'FilterSyntaxError'
+  }
+}
+
+/** Nesting and size limits - a filter is user input */
+const MAX_FILTER_DEPTH = 8
+const MAX_FILTER_NODES = 200
+const MAX_FIELD_LENGTH = 200
+const MAX_VALUE_LENGTH = 1000
+
+/** YYYY-MM-DD, optionally followed by a time */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const eqFilter = (field: string, value: FilterValue): FilterNode => ({ op: 'eq', field, value })
+
+export const inFilter = (field: string, values: FilterValue[]): FilterNode => ({ op: 'in', field, values })
+
+export const containsFilter = (field: string, value: string): FilterNode => ({ op: 'contains', field, value })
+
+export const rangeFilter = (field: string, min?: RangeBound, max?: RangeBound): FilterNode => ({
+  op: 'range',
+  field,
+  ...(min !== undefined ? { min } : {}),
+  ...(max !== undefined ? { max } : {}),
+})
+
+export const isEmptyFilter = (field: string): FilterNode => ({ op: 'isEmpty', field })
+
+export const notFilter = (filter: FilterNode): FilterNode => ({ op: 'not', filter })
+
+/**
+ * Filters all matching, leaving out the missing ones (undefined when none is left)
+ */
+export function allOf(...filters: Array<FilterNode | null | undefined>): FilterNode | undefined {
+  const present = filters.filter((filter): filter is FilterNode => !!filter)
+  return present.length <= 1 ? present[0] : { op: 'and', filters: present }
+}
+
+/**
+ * Filters any matching, leaving out the missing ones (undefined when none is left)
+ */
+export function anyOf(...filters: Array<FilterNode | null | undefined>): FilterNode | undefined {
+  const present = filters.filter((filter): filter is FilterNode => !!filter)
+  return present.length <= 1 ? present[0] : { op: 'or', filters: present }
+}
+
+/**
+ * Search term matched in any of the fields
+ */
+export function searchFilter(fields: string[], search?: string): FilterNode | undefined {
+  const term = search?.trim()
+  return term ? anyOf(...fields.map(field => containsFilter(field, term))) : undefined
+}
+
+/**
+ * Legacy { field: value | value[] } filters -> AST (every field matching one of its values)
+ */
+export function filtersToFilterNode(filters?: Record<string, any>): FilterNode | undefined {
+  return allOf(...Object.entries(filters || {}).map(([field, rawValue]) => {
+    const values = (Array.isArray(rawValue) ? rawValue : [rawValue])
+      .filter(value => value !== undefined && value !== null && String(value).trim() !== '')
+      .map(value => typeof value === 'number' || typeof value === 'boolean' ? value : String(value).trim())
+    if (values.length === 0) return undefined
+    return values.length === 1 ? eqFilter(field, values[0]) : inFilter(field, values)
+  }))
+}
+
+/**
+ * Fields a filter reads, in order of appearance
+ */
+export function getFilterFields(filter: FilterNode): string[] {
+  switch (filter.op) {
+    case 'and':
+    case 'or':
+      return Array.from(new Set(filter.filters.flatMap(getFilterFields)))
+    case 'not':
+      return getFilterFields(filter.filter)
+    default:
+      return [filter.field]
+  }
+}
+
+/**
+ * Kind of the bounds of a range filter (validated by parseFilter to be the same)
+ */
+export function getRangeKind(filter: Extract<FilterNode, { op: 'range' }>): 'number' | 'date' {
+  return typeof (filter.min ?? filter.max) === 'number' ? 'number' : 'date'
+}
+
+/** A date bound without a time, which includes the whole day */
+export const isDateOnlyBound = (bound: RangeBound): boolean =>
+  typeof bound === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(bound)
+
+/**
+ * Validate a filter - the JSON text of a query parameter or a parsed object
+ * @throws FilterSyntaxError for invalid JSON, an unknown operator or a missing or invalid operand
+ */
+export function parseFilter(input: unknown): FilterNode {
+  let value = input
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input)
+    } catch {
+      throw new FilterSyntaxError('not valid JSON')
+    }
+  }
+  const counter = { nodes: 0 }
+  return validateNode(value, 'filter', 1, counter)
+}
+
+/**
+ * Filter of a request query parameter, undefined when it is not set
+ * @throws FilterSyntaxError for an invalid filter
+ */
+export function parseFilterParam(value: unknown): FilterNode | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  if (Array.isArray(value)) {
+    throw new FilterSyntaxError('must be given once')
+  }
+  return parseFilter(value)
+}
+
+function validateNode(node: unknown, path: string, depth: number, counter: { nodes: number }): FilterNode {
+  if (depth > MAX_FILTER_DEPTH) {
+    throw new FilterSyntaxError(`nested more than ${MAX_FILTER_DEPTH} levels deep`, path)
+  }
+  if (++counter.nodes > MAX_FILTER_NODES) {
+    throw new FilterSyntaxError(`more than ${MAX_FILTER_NODES} conditions`, path)
+  }
+  if (!isPlainObject(node)) {
+    throw new FilterSyntaxError('must be an object', path)
+  }
+
+  switch (node.op) {
+    case 'and':
+    case 'or': {
+      if (!Array.isArray(node.filters)) {
+        throw new FilterSyntaxError('filters must be an array', `${path}.filters`)
+      }
+      const filters = node.filters.map((child: unknown, index: number) =>
+        validateNode(child, `${path}.filters[${index}]`, depth + 1, counter)
+      )
+      return { op: node.op, filters }
+    }
+    case 'not':
+      return { op: 'not', filter: validateNode(node.filter, `${path}.filter`, depth + 1, counter) }
+    case 'eq':
+      return { op: 'eq', field: validateField(node.field, path), value: validateValue(node.value, `${path}.value`) }
+    case 'in': {
+      if (!Array.isArray(node.values)) {
+        throw new FilterSyntaxError('values must be an array', `${path}.values`)
+      }
+      counter.nodes += node.values.length
+      if (counter.nodes > MAX_FILTER_NODES) {
+        throw new FilterSyntaxError(`more than ${MAX_FILTER_NODES} conditions`, path)
+      }
+      return {
+        op: 'in',
+        field: validateField(node.field, path),
+        values: node.values.map((value: unknown, index: number) => validateValue(value, `${path}.values[${index}]`)),
+      }
+    }
+    case 'contains': {
+      const value = validateValue(node.value, `${path}.value`)
+      if (typeof value !== 'string' || value.trim() === '') {
+        throw new FilterSyntaxError('must be a non-empty string', `${path}.value`)
+      }
+      return { op: 'contains', field: validateField(node.field, path), value }
+    }
+    case 'range': {
+      const field = validateField(node.field, path)
+      const min = validateBound(node.min, `${path}.min`)
+      const max = validateBound(node.max, `${path}.max`)
+      if (min === undefined && max === undefined) {
+        throw new FilterSyntaxError('needs min or max', path)
+      }
+      if (min !== undefined && max !== undefined && typeof min !== typeof max) {
+        throw new FilterSyntaxError('min and max must both be numbers or both be dates', path)
+      }
+      return rangeFilter(field, min, max)
+    }
+    case 'isEmpty':
+      return { op: 'isEmpty', field: validateField(node.field, path) }
+    default:
+      throw new FilterSyntaxError(
+        `unknown operator ${JSON.stringify(node.op)} (eq, in, contains, range, isEmpty, and, or, not)`,
+        `${path}.op`
+      )
+  }
+}
+
+function validateField(field: unknown, path: string): string {
+  if (typeof field !== 'string' || field.trim() === '') {
+    throw new FilterSyntaxError('must be a non-empty string', `${path}.field`)
+  }
+  if (field.length > MAX_FIELD_LENGTH) {
+    throw new FilterSyntaxError(`longer than ${MAX_FIELD_LENGTH} characters`, `${path}.field`)
+  }
+  return field
+}
+
+function validateValue(value: unknown, path: string): FilterValue {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new FilterSyntaxError('must be a finite number', path)
+    }
+    return value
+  }
+  if (typeof value === 'boolean') {
+    return value
+  }
+  if (typeof value === 'string') {
+    if (value.length > MAX_VALUE_LENGTH) {
+      throw new FilterSyntaxError(`longer than ${MAX_VALUE_LENGTH} characters`, path)
+    }
+    return value
+  }
+  throw new FilterSyntaxError('must be a string, number or boolean', path)
+}
+
+function validateBound(bound: unknown, path: string): RangeBound | undefined {
+  if (bound === undefined || bound === null || bound === '') {
+    return undefined
+  }
+  if (typeof bound === 'number' && Number.isFinite(bound)) {
+    return bound
+  }
+  if (typeof bound === 'string' && ISO_DATE.test(bound) && !Number.isNaN(Date.parse(bound))) {
+    return bound
+  }
+  throw new FilterSyntaxError('must be a number or an ISO date (YYYY-MM-DD)', path)
+}
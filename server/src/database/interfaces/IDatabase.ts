@@ -1,4 +1,7 @@
 import { Company, CreateCompanyDto, UpdateCompanyDto } from '../../types/Company'
+import { EntityDescriptor } from '../entities/types'
+import { IEntityRepository } from './IEntityRepository'
+import { FilterNode } from '../filters/FilterAst'
 
 /**
  * Query options for database operations
@@ -10,6 +13,8 @@ export interface QueryOptions {
   sortOrder?: 'asc' | 'desc'
   filters?: Record<string, any>
   search?: string
+  /** Filter tree, combined with filters and search */
+  filter?: FilterNode
 }
 
 /**
@@ -81,5 +86,17 @@ export interface IDatabase {
    * Count total companies (for pagination)
    */
   countCompanies(filters?: Record<string, any>): Promise<number>
+
+  /**
+   * Distinct values of a company field (for filter dropdowns)
+   */
+  getDistinctFieldValues(fieldName: string, limit?: number): Promise<string[]>
+
+  /**
+   * Get the repository of an entity table (one instance per table)
+   */
+  getRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>(
+    descriptor: EntityDescriptor
+  ): IEntityRepository<T, CreateDto, UpdateDto>
 }
 
@@ -0,0 +1,59 @@
+import { EntityDescriptor, EntityListOptions } from '../entities/types'
+import { FilterNode } from '../filters/FilterAst'
+
+/**
+ * Entity Repository Interface
+ *
+ * Entity-agnostic data access contract, driven by an EntityDescriptor.
+ * Every database adapter returns an implementation through IDatabase.getRepository,
+ * so adding a table means writing a descriptor (database/entities/descriptors.ts)
+ * instead of a per-entity service.
+ *
+ * Records use the API field names of the descriptor; linked record fields hold
+ * record IDs and their nameField the resolved names.
+ */
+export interface IEntityRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>> {
+  readonly descriptor: EntityDescriptor
+
+  /**
+   * Get a page of records with filtering, search and sorting, plus the total match count
+   */
+  list(options?: EntityListOptions): Promise<{ records: T[]; total: number }>
+
+  /**
+   * Get a single record by ID (null when it does not exist)
+   */
+  get(id: string): Promise<T | null>
+
+  create(dto: CreateDto): Promise<T>
+
+  /**
+   * Update a record (null when it does not exist)
+   */
+  update(id: string, dto: UpdateDto): Promise<T | null>
+
+  /**
+   * Delete a record (false when it does not exist)
+   */
+  delete(id: string): Promise<boolean>
+
+  /**
+   * Distinct values of a field, naturally sorted (link fields return the linked record names)
+   */
+  distinct(field: string, limit?: number): Promise<string[]>
+
+  /**
+   * Number of records matching the filters, search and filter AST
+   */
+  count(filters?: Record<string, any>, search?: string, filter?: FilterNode): Promise<number>
+
+  /**
+   * Create many records, returning their IDs in input order
+   */
+  createMany(dtos: CreateDto[]): Promise<string[]>
+
+  /**
+   * Update fields on many records
+   */
+  updateMany(updates: Array<{ id: string; fields: UpdateDto }>): Promise<void>
+}
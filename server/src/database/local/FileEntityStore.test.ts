@@ -0,0 +1,54 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FileEntityStore } from './FileEntityStore'
+import { readEntitySnapshots, seedEntityStore, snapshotEntityTable, writeEntitySnapshot } from './seed'
+import { InMemoryEntityRepository } from '../repositories/InMemoryEntityRepository'
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+
+describe('local database', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'local-db-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('seeds the fixtures into a file that a new store reads back with its links', async () => {
+    const path = join(directory, 'data.json')
+    const counts = seedEntityStore(new FileEntityStore(path), readEntitySnapshots())
+    expect(counts).toMatchObject({ units: 13, standard_emission_factors: 9 })
+
+    const store = new FileEntityStore(path)
+    const factors = new InMemoryEntityRepository(ENTITY_DESCRIPTORS.standard_emission_factors, store)
+    expect(await factors.get('recSef001')).toMatchObject({
+      Name: 'Diesel - litre - World',
+      'Emission Factor (CO2e)': 2.68,
+      'Source UOM': ['recUnitLitre'],
+      'Source UOM Name': ['Litre'],
+    })
+
+    const units = new InMemoryEntityRepository(ENTITY_DESCRIPTORS.units, store)
+    await units.update('recUnitKg', { Symbol: 'kilo' })
+    const snapshot = await snapshotEntityTable(units)
+    writeEntitySnapshot(snapshot, join(directory, 'fixtures'))
+    const [reread] = readEntitySnapshots(join(directory, 'fixtures'))
+    expect(reread.records.find(record => record.id === 'recUnitKg')).toMatchObject({ Name: 'Kilogram', Symbol: 'kilo' })
+    expect((await new InMemoryEntityRepository(ENTITY_DESCRIPTORS.units, new FileEntityStore(path)).get('recUnitKg'))?.Symbol).toBe('kilo')
+  })
+
+  it('refuses snapshots of unknown tables or without record IDs, and data files of another version', () => {
+    writeFileSync(join(directory, 'units.json'), JSON.stringify({ table: 'units', records: [{ Name: 'kg' }] }))
+    expect(() => readEntitySnapshots(directory)).toThrow('units.json: record 1 has no id')
+
+    writeFileSync(join(directory, 'units.json'), JSON.stringify({ table: 'planets', records: [] }))
+    expect(() => readEntitySnapshots(directory)).toThrow()
+
+    const path = join(directory, 'data.json')
+    writeFileSync(path, JSON.stringify({ version: 2, tables: {} }))
+    expect(() => new FileEntityStore(path)).toThrow('Unsupported local database version 2')
+  })
+})
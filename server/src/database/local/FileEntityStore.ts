@@ -0,0 +1,69 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { dirname, resolve } from 'path'
+import { InMemoryEntityRow, InMemoryEntityStore } from '../repositories/InMemoryEntityRepository'
+
+/**
+ * File Entity Store
+ *
+ * InMemoryEntityStore saved to a JSON file after every write, so the local database
+ * survives restarts. The whole file is rewritten (through a temporary file, so a crash
+ * never leaves it half written) - meant for development data sets, not production.
+ *
+ * Environment Variables:
+ * - LOCAL_DB_PATH: data file (default: server/.local-db/data.json)
+ */
+
+const FILE_VERSION = 1
+
+interface EntityStoreFile {
+  version: number
+  tables: Record<string, InMemoryEntityRow[]>
+}
+
+export const getLocalDatabasePath = (): string =>
+  process.env.LOCAL_DB_PATH
+    ? resolve(process.env.LOCAL_DB_PATH)
+    : resolve(__dirname, '../../../.local-db/data.json')
+
+export class FileEntityStore extends InMemoryEntityStore {
+  readonly path: string
+
+  constructor(path: string = getLocalDatabasePath()) {
+    super()
+    this.path = path
+    this.load()
+  }
+
+  /**
+   * Replace the records in memory with the content of the file (empty when it does not exist)
+   */
+  load(): void {
+    this.clear()
+    if (!existsSync(this.path)) return
+
+    const file: EntityStoreFile = JSON.parse(readFileSync(this.path, 'utf8'))
+    if (file.version !== FILE_VERSION) {
+      throw new Error(`Unsupported local database version ${file.version} in ${this.path}`)
+    }
+    Object.entries(file.tables || {}).forEach(([table, rows]) => {
+      const tableRows = this.rows(table)
+      rows.forEach(row => tableRows.set(row.id, row))
+    })
+  }
+
+  save(): void {
+    const file: EntityStoreFile = { version: FILE_VERSION, tables: {} }
+    this.entries().forEach(([table, rows]) => {
+      file.tables[table] = Array.from(rows.values())
+    })
+
+    mkdirSync(dirname(this.path), { recursive: true })
+    const temporaryPath = `${this.path}.tmp`
+    writeFileSync(temporaryPath, JSON.stringify(file, null, 2))
+    renameSync(temporaryPath, this.path)
+  }
+
+  changed(): void {
+    this.save()
+  }
+}
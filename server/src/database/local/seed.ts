@@ -0,0 +1,129 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs'
+import { join, resolve } from 'path'
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { InMemoryEntityStore } from '../repositories/InMemoryEntityRepository'
+import { getEntityDescriptor } from '../entities/descriptors'
+import { EntityQueryError } from '../entities/types'
+import { getEntityReadOnlyKeys, isComputedField, normalizeEntityWrite } from '../entities/query'
+
+/**
+ * Local Database Seeding
+ *
+ * Fixture snapshots are JSON files, one per table: { "table": "units", "records": [...] }
+ * with records in API field names. Record IDs are kept, so links between the
+ * snapshots resolve after seeding.
+ */
+
+export interface EntitySnapshot {
+  /** Key in ENTITY_DESCRIPTORS */
+  table: string
+  records: Array<{ id: string; [field: string]: any }>
+}
+
+/** Reference tables written by a snapshot, in link order */
+export const SNAPSHOT_TABLES = [
+  'units',
+  'unit_conversions',
+  'scopes',
+  'ghg_types',
+  'protocols',
+  'ef_gwp',
+  'geography',
+  'emission_factor_versions',
+  'normalized_activities',
+  'standard_emission_factors',
+]
+
+export const getFixturesDirectory = (): string => resolve(__dirname, '../../../fixtures/local')
+
+/**
+ * Read every snapshot file of a directory
+ * @throws Error for an unknown table or a record without ID
+ */
+export function readEntitySnapshots(directory: string = getFixturesDirectory()): EntitySnapshot[] {
+  if (!existsSync(directory)) {
+    throw new Error(`Fixture directory not found: ${directory}`)
+  }
+
+  return readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const snapshot: EntitySnapshot = JSON.parse(readFileSync(join(directory, file), 'utf8'))
+      getEntityDescriptor(snapshot.table)
+      if (!Array.isArray(snapshot.records)) {
+        throw new Error(`${file}: "records" must be an array`)
+      }
+      snapshot.records.forEach((record, index) => {
+        if (!record.id) {
+          throw new EntityQueryError(`${file}: record ${index + 1} has no id`)
+        }
+      })
+      return snapshot
+    })
+}
+
+/**
+ * Load snapshots into a store - records with the same ID are replaced
+ * @returns number of records per table
+ */
+export function seedEntityStore(
+  store: InMemoryEntityStore,
+  snapshots: EntitySnapshot[],
+  options: { reset?: boolean } = {}
+): Record<string, number> {
+  if (options.reset) store.clear()
+
+  const now = new Date().toISOString()
+  const counts: Record<string, number> = {}
+  snapshots.forEach(snapshot => {
+    const descriptor = getEntityDescriptor(snapshot.table)
+    const rows = store.rows(descriptor.table)
+    snapshot.records.forEach(record => {
+      const { values, extra } = normalizeEntityWrite(descriptor, record, true)
+      const fields: Record<string, any> = { ...extra }
+      values.forEach((value, column) => { fields[column.field] = value })
+      rows.set(record.id, { id: record.id, fields, createdAt: rows.get(record.id)?.createdAt || now, updatedAt: now })
+    })
+    counts[snapshot.table] = (counts[snapshot.table] || 0) + snapshot.records.length
+  })
+
+  store.changed()
+  return counts
+}
+
+/**
+ * Snapshot of every record of a repository - stored fields only
+ */
+export async function snapshotEntityTable(repository: IEntityRepository): Promise<EntitySnapshot> {
+  const descriptor = repository.descriptor
+  const stored = descriptor.columns.filter(column => !isComputedField(column))
+  const skipped = new Set([
+    ...getEntityReadOnlyKeys(descriptor),
+    ...descriptor.columns.flatMap(column => [column.field, ...(column.aliases || [])]),
+  ])
+
+  const { records } = await repository.list()
+  return {
+    table: descriptor.table,
+    records: records.map(record => {
+      const snapshot: EntitySnapshot['records'][number] = { id: record.id }
+      stored.forEach(column => {
+        if (record[column.field] !== undefined) snapshot[column.field] = record[column.field]
+      })
+      if (descriptor.extraFields) {
+        Object.entries(record).forEach(([key, value]) => {
+          if (!skipped.has(key) && value !== undefined) snapshot[key] = value
+        })
+      }
+      return snapshot
+    }),
+  }
+}
+
+export function writeEntitySnapshot(snapshot: EntitySnapshot, directory: string = getFixturesDirectory()): string {
+  mkdirSync(directory, { recursive: true })
+  const path = join(directory, `${snapshot.table}.json`)
+  writeFileSync(path, `${JSON.stringify(snapshot, null, 2)}\n`)
+  return path
+}
@@ -0,0 +1,183 @@
+import { createHash, randomUUID } from 'crypto'
+import { link, mkdir, readFile, rename, rm, stat, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { ILockStore } from './ILockStore'
+
+/**
+ * File Lock Store
+ *
+ * One file per lock. A lock file is written whole to a temporary file, then linked into
+ * place - the link fails when the lock file exists, so two processes cannot both create
+ * it. Renewing or taking over a lock replaces the file it was read from, and only that
+ * one: the process first claims its content with a claim file created exclusively, then
+ * checks the lock file still holds that content and renames the new one over it. Of
+ * several processes taking over the same expired lock, one claims it, the others give up.
+ *
+ * Every server of an Airtable deployment must point LOCK_PATH at the same directory
+ * (a shared volume) for the locks to keep them out of each other's way - or use the
+ * postgresql driver.
+ *
+ * Environment Variables:
+ * - LOCK_PATH: directory of the lock files (default: server/.local-db/locks)
+ */
+
+interface LockFile {
+  owner: string
+  expiresAt: number
+}
+
+/** A claim file older than this was left by a process that stopped - the next claim skips it */
+const CLAIM_TTL_MS = 10 * 1000
+
+export const getLockPath = (): string =>
+  process.env.LOCK_PATH
+    ? resolve(process.env.LOCK_PATH)
+    : resolve(__dirname, '../../../.local-db/locks')
+
+export class FileLockStore implements ILockStore {
+  readonly name = 'file'
+  readonly directory: string
+
+  constructor(directory: string = getLockPath()) {
+    this.directory = directory
+  }
+
+  async acquire(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const path = this.pathOf(key)
+    // The nonce tells two writes of the same lock apart, see replace
+    const content = JSON.stringify({ owner, expiresAt: Date.now() + ttlMs, nonce: randomUUID() })
+    await mkdir(this.directory, { recursive: true })
+    if (await this.create(path, content)) {
+      return true
+    }
+
+    const current = await this.read(path, ttlMs)
+    if (!current) {
+      return this.create(path, content)
+    }
+    if (current.lock.owner !== owner && current.lock.expiresAt > Date.now()) {
+      return false
+    }
+    // Ours to renew, or expired: replace it, unless another process was quicker
+    return this.replace(path, current.content, content)
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    const path = this.pathOf(key)
+    const current = await this.read(path, 0)
+    if (current?.lock.owner === owner) {
+      await this.replace(path, current.content, null)
+    }
+  }
+
+  private pathOf(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}.json`)
+  }
+
+  /**
+   * Create the lock file - false when it exists
+   */
+  private async create(path: string, content: string): Promise<boolean> {
+    const temporary = await this.writeTemporary(path, content)
+    try {
+      await link(temporary, path)
+      return true
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') {
+        return false
+      }
+      throw error
+    } finally {
+      await rm(temporary, { force: true })
+    }
+  }
+
+  /**
+   * Replace the lock file holding expected by content (or remove it when content is
+   * null) - false when another process changed or claimed it first
+   */
+  private async replace(path: string, expected: string, content: string | null): Promise<boolean> {
+    const claim = await this.claim(path, expected)
+    if (!claim) {
+      return false
+    }
+    try {
+      const current = await readFile(path, 'utf8').catch(error => {
+        if (error?.code === 'ENOENT') {
+          return null
+        }
+        throw error
+      })
+      if (current === null) {
+        return content !== null && this.create(path, content)
+      }
+      if (current !== expected) {
+        return false
+      }
+      if (content === null) {
+        await rm(path, { force: true })
+      } else {
+        await rename(await this.writeTemporary(path, content), path)
+      }
+      return true
+    } finally {
+      await rm(claim, { force: true })
+    }
+  }
+
+  /**
+   * Claim the content of a lock file with a file created exclusively - null when another
+   * process claimed it. A claim left by a process that stopped is skipped for the next.
+   */
+  private async claim(path: string, content: string): Promise<string | null> {
+    const hash = createHash('sha256').update(content).digest('hex').slice(0, 16)
+    for (let attempt = 0; ; attempt++) {
+      const claim = `${path}.${hash}.${attempt}.claim`
+      try {
+        await writeFile(claim, '', { flag: 'wx' })
+        return claim
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') {
+          throw error
+        }
+      }
+      const changed = await stat(claim).then(stats => stats.mtimeMs, () => 0)
+      if (changed > Date.now() - CLAIM_TTL_MS) {
+        return null
+      }
+    }
+  }
+
+  private async writeTemporary(path: string, content: string): Promise<string> {
+    const temporary = `${path}.${randomUUID()}.tmp`
+    await writeFile(temporary, content, 'utf8')
+    return temporary
+  }
+
+  /**
+   * Lock in a file, with the content it was read from (null when there is none). A file
+   * without a readable lock was cut short by a crash, or written by hand: it holds for
+   * ttlMs from its last change.
+   */
+  private async read(path: string, ttlMs: number): Promise<{ lock: LockFile; content: string } | null> {
+    let content: string
+    try {
+      content = await readFile(path, 'utf8')
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+    try {
+      const lock = JSON.parse(content)
+      if (typeof lock?.owner === 'string' && typeof lock?.expiresAt === 'number') {
+        return { lock, content }
+      }
+    } catch {
+      // Unreadable - see below
+    }
+    const changed = await stat(path).then(stats => stats.mtimeMs, () => 0)
+    return { lock: { owner: '', expiresAt: changed + ttlMs }, content }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Lock Store Interface
+ *
+ * Storage behind the Locks of operations that must not run twice at once, on one server
+ * or on several. A lock has an owner and expires, so that the lock of a server that
+ * stopped mid-operation does not block the operation for good.
+ *
+ * - InMemoryLockStore: this process only (mock database, tests)
+ * - FileLockStore: one file per lock (Airtable and local databases) - servers sharing its
+ *   directory
+ * - PostgreSQLLockStore: locks table (PostgreSQL database)
+ */
+
+export interface ILockStore {
+  /** Driver name, e.g. 'file' */
+  readonly name: string
+
+  /**
+   * Take a lock for ttlMs - true when taken. A lock held by another owner is only
+   * taken once it has expired; the owner holding it extends it.
+   */
+  acquire(key: string, owner: string, ttlMs: number): Promise<boolean>
+
+  /**
+   * Give a lock back - nothing happens when the owner no longer holds it
+   */
+  release(key: string, owner: string): Promise<void>
+}
@@ -0,0 +1,26 @@
+import { ILockStore } from './ILockStore'
+
+/**
+ * In-Memory Lock Store
+ *
+ * Locks of this process - they do not keep another server out.
+ */
+export class InMemoryLockStore implements ILockStore {
+  readonly name = 'memory'
+  private locks = new Map<string, { owner: string; expiresAt: number }>()
+
+  async acquire(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const lock = this.locks.get(key)
+    if (lock && lock.owner !== owner && lock.expiresAt > Date.now()) {
+      return false
+    }
+    this.locks.set(key, { owner, expiresAt: Date.now() + ttlMs })
+    return true
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    if (this.locks.get(key)?.owner === owner) {
+      this.locks.delete(key)
+    }
+  }
+}
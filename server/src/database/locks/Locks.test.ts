@@ -0,0 +1,99 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { LockLostError, acquireLocks } from './Locks'
+import { ILockStore } from './ILockStore'
+import { InMemoryLockStore } from './InMemoryLockStore'
+import { FileLockStore } from './FileLockStore'
+
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual('fs/promises')
+  return { ...actual, readFile: jest.fn(actual.readFile) }
+})
+
+const MINUTE = 60 * 1000
+
+describe.each([
+  ['memory', () => new InMemoryLockStore()],
+  ['file', () => new FileLockStore(mkdtempSync(join(tmpdir(), 'locks-')))],
+])('%s lock store', (_name, createStore) => {
+  let store: ILockStore
+
+  beforeEach(() => {
+    store = createStore()
+  })
+
+  afterEach(() => {
+    if (store instanceof FileLockStore) rmSync(store.directory, { recursive: true, force: true })
+  })
+
+  it('keeps other owners out until the lock is released or expires', async () => {
+    expect(await store.acquire('version:rec1', 'a', MINUTE)).toBe(true)
+    expect(await store.acquire('version:rec1', 'b', MINUTE)).toBe(false)
+    expect(await store.acquire('version:rec1', 'a', MINUTE)).toBe(true)
+    await store.release('version:rec1', 'b')
+    expect(await store.acquire('version:rec1', 'b', MINUTE)).toBe(false)
+    await store.release('version:rec1', 'a')
+    expect(await store.acquire('version:rec1', 'b', MINUTE)).toBe(true)
+
+    expect(await store.acquire('version:rec2', 'a', -1)).toBe(true)
+    expect(await store.acquire('version:rec2', 'b', MINUTE)).toBe(true)
+  })
+
+  it('takes every lock of a lease or none, and fails renewals of a lost lock', async () => {
+    await store.acquire('version:rec2', 'other', MINUTE)
+    expect(await acquireLocks(['version:rec1', 'version:rec2'], MINUTE, store)).toBeNull()
+    expect(await store.acquire('version:rec1', 'other', MINUTE)).toBe(true)
+    await store.release('version:rec1', 'other')
+    await store.release('version:rec2', 'other')
+
+    const lease = await acquireLocks(['version:rec1', 'version:rec2'], -1, store)
+    expect(lease?.keys).toEqual(['version:rec1', 'version:rec2'])
+    await store.acquire('version:rec2', 'other', MINUTE)
+    await expect(lease!.renew()).rejects.toThrow(LockLostError)
+  })
+})
+
+describe('FileLockStore', () => {
+  it('holds a lock file being written, or cut short, for its time to live', async () => {
+    const store = new FileLockStore(mkdtempSync(join(tmpdir(), 'locks-')))
+    try {
+      writeFileSync(join(store.directory, 'version%3Arec1.json'), '{"own')
+      expect(await store.acquire('version:rec1', 'a', MINUTE)).toBe(false)
+      expect(await store.acquire('version:rec1', 'a', -1)).toBe(true)
+    } finally {
+      rmSync(store.directory, { recursive: true, force: true })
+    }
+  })
+
+  it('gives an expired lock to one of two owners that read it at once', async () => {
+    const store = new FileLockStore(mkdtempSync(join(tmpdir(), 'locks-')))
+    try {
+      await store.acquire('version:rec1', 'stopped', -1)
+      // Both owners read the expired lock, then the first one takes it over while the
+      // second one still acts on what it read
+      const { readFile: read } = jest.requireActual('fs/promises')
+      let releaseFirst!: () => void
+      const secondRead = new Promise<void>(resolve => { releaseFirst = resolve })
+      jest.mocked(readFile)
+        .mockImplementationOnce(async (...args: Parameters<typeof readFile>) => {
+          const content = await read(...args)
+          await secondRead
+          return content
+        })
+        .mockImplementationOnce(async (...args: Parameters<typeof readFile>) => {
+          const content = await read(...args)
+          releaseFirst()
+          await new Promise(resolve => setTimeout(resolve, 100))
+          return content
+        })
+
+      const taken = await Promise.all([store.acquire('version:rec1', 'a', MINUTE), store.acquire('version:rec1', 'b', MINUTE)])
+      expect(taken.filter(Boolean)).toHaveLength(1)
+      expect(await store.acquire('version:rec1', taken[0] ? 'b' : 'a', MINUTE)).toBe(false)
+    } finally {
+      rmSync(store.directory, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+import { isPostgreSQLDatabase } from '../postgres/connection'
+import { ILockStore } from './ILockStore'
+import { InMemoryLockStore } from './InMemoryLockStore'
+import { FileLockStore } from './FileLockStore'
+import { PostgreSQLLockStore } from './PostgreSQLLockStore'
+
+/**
+ * Locks
+ *
+ * Locks of operations that must not run twice at once on the same records, such as the
+ * promotion of an Emission Factor Version, taken in the lock store so that they hold
+ * across servers. A lease holds its locks for a time to live, which the operation renews
+ * as it goes: the locks of a server that stopped mid-operation expire on their own.
+ *
+ * Environment Variables:
+ * - LOCK_DRIVER: 'postgresql' | 'file' | 'memory' (default: postgresql when
+ *   DATABASE_TYPE=postgresql, memory with the mock database, file otherwise)
+ * - LOCK_PATH: directory of the file driver (see FileLockStore)
+ */
+
+/**
+ * A lease lost its locks - it was not renewed in time and another owner took one
+ */
+export class LockLostError extends Error {
+  constructor(public key: string) {
+    super(`Lock ${key} was lost`)
+    this.name = 'LockLostError'
+  }
+}
+
+/**
+ * Locks held together by one owner
+ */
+export class LockLease {
+  constructor(
+    private readonly store: ILockStore,
+    readonly keys: string[],
+    readonly owner: string,
+    private readonly ttlMs: number
+  ) {}
+
+  /**
+   * Hold the locks for another time to live - throws LockLostError when one was lost
+   */
+  async renew(): Promise<void> {
+    for (const key of this.keys) {
+      if (!(await this.store.acquire(key, this.owner, this.ttlMs))) {
+        throw new LockLostError(key)
+      }
+    }
+  }
+
+  async release(): Promise<void> {
+    for (const key of this.keys) {
+      try {
+        await this.store.release(key, this.owner)
+      } catch (error: any) {
+        // It expires on its own
+        console.error(`❌ Could not release lock ${key} (${this.store.name}):`, error?.message || error)
+      }
+    }
+  }
+}
+
+function createLockStore(): ILockStore {
+  const databaseType = (process.env.DATABASE_TYPE || 'airtable').toLowerCase()
+  const defaultDriver = isPostgreSQLDatabase()
+    ? 'postgresql'
+    : databaseType === 'mock' || databaseType === 'memory' ? 'memory' : 'file'
+  const driver = (process.env.LOCK_DRIVER || defaultDriver).toLowerCase()
+
+  switch (driver) {
+    case 'postgresql':
+    case 'postgres':
+      return new PostgreSQLLockStore()
+    case 'memory':
+      return new InMemoryLockStore()
+    case 'file':
+      return new FileLockStore()
+    default:
+      console.warn(`⚠️  Unknown lock driver "${driver}", using file`)
+      return new FileLockStore()
+  }
+}
+
+// Singleton instance
+let lockStore: ILockStore | null = null
+
+export const getLockStore = (): ILockStore => {
+  if (!lockStore) {
+    lockStore = createLockStore()
+    console.log(`🔒 Locks: ${lockStore.name}`)
+  }
+  return lockStore
+}
+
+/**
+ * Use another store - call at startup, before the first request
+ */
+export const setLockStore = (store: ILockStore): void => {
+  lockStore = store
+}
+
+/**
+ * Take every lock for ttlMs, or none: null when another owner holds one of them
+ */
+export async function acquireLocks(keys: string[], ttlMs: number, store: ILockStore = getLockStore()): Promise<LockLease | null> {
+  const owner = `${hostname()}:${process.pid}:${randomUUID()}`
+  const taken: string[] = []
+  const lease = () => new LockLease(store, taken, owner, ttlMs)
+  try {
+    for (const key of keys) {
+      if (!(await store.acquire(key, owner, ttlMs))) {
+        await lease().release()
+        return null
+      }
+      taken.push(key)
+    }
+  } catch (error) {
+    await lease().release()
+    throw error
+  }
+  return lease()
+}
@@ -0,0 +1,43 @@
+import { getPostgreSQLPool } from '../postgres/connection'
+import { ILockStore } from './ILockStore'
+
+/**
+ * PostgreSQL Lock Store
+ *
+ * Locks in the locks table of the API database, created by npm run db:postgres:schema
+ * (getLockSchemaStatements). A lock is taken by one statement, so two servers cannot
+ * both take it.
+ */
+
+/**
+ * Statements creating the locks table - idempotent
+ */
+export function getLockSchemaStatements(): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS locks (
+  key text PRIMARY KEY,
+  owner text NOT NULL,
+  expires_at timestamptz NOT NULL
+)`,
+  ]
+}
+
+export class PostgreSQLLockStore implements ILockStore {
+  readonly name = 'postgresql'
+
+  async acquire(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const { rows } = await getPostgreSQLPool().query(
+      `INSERT INTO locks (key, owner, expires_at)
+       VALUES ($1, $2, now() + $3 * interval '1 millisecond')
+       ON CONFLICT (key) DO UPDATE SET owner = EXCLUDED.owner, expires_at = EXCLUDED.expires_at
+       WHERE locks.owner = EXCLUDED.owner OR locks.expires_at <= now()
+       RETURNING key`,
+      [key, owner, ttlMs]
+    )
+    return rows.length > 0
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    await getPostgreSQLPool().query('DELETE FROM locks WHERE key = $1 AND owner = $2', [key, owner])
+  }
+}
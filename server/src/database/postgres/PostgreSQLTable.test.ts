@@ -0,0 +1,99 @@
+import { PostgreSQLTable } from './PostgreSQLTable'
+import { withPostgreSQLTransaction } from './connection'
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+import { EntityQueryError } from '../entities/types'
+
+interface MockQuery {
+  on: 'pool' | 'client'
+  text: string
+  values?: any[]
+}
+
+const mockQueries: MockQuery[] = []
+let mockResult: (text: string, values?: any[]) => { rows: any[]; rowCount: number } = () => ({ rows: [], rowCount: 0 })
+
+jest.mock('pg', () => {
+  const queryable = (on: MockQuery['on']) => ({
+    query: async (text: string, values?: any[]) => {
+      mockQueries.push({ on, text, values })
+      return mockResult(text, values)
+    },
+  })
+  return {
+    Pool: jest.fn().mockImplementation(() => ({
+      ...queryable('pool'),
+      connect: async () => ({ ...queryable('client'), release: () => {} }),
+      on: () => {},
+    })),
+  }
+})
+
+describe('PostgreSQLTable', () => {
+  const conversions = new PostgreSQLTable(ENTITY_DESCRIPTORS.unit_conversions)
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  beforeEach(() => {
+    mockQueries.length = 0
+    mockResult = () => ({ rows: [], rowCount: 0 })
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('lists with parameterised filters, search and natural sort, and maps the rows', async () => {
+    mockResult = () => ({
+      rowCount: 1,
+      rows: [{
+        id: 'recLitreMl', created_at: '2024-01-01T00:00:00Z', updated_at: '2024-02-01T00:00:00Z',
+        c0: 'litre to ml', c1: null, c2: 'Active', c3: ['recLitre'], n3: ['litre'], c4: 'Volume',
+        c5: ['recMl'], n5: ['ml'], c6: 'Volume', c7: '1', c8: '1000', c9: null, c10: [], c11: null,
+        total_count: '42',
+      }],
+    })
+
+    const result = await conversions.list({
+      filters: { 'Unit to convert': 'Litre' }, search: '100%_', sortBy: 'Name', sortOrder: 'desc', limit: 20, offset: 40,
+    })
+
+    expect(result.total).toBe(42)
+    expect(result.records[0]).toMatchObject({
+      id: 'recLitreMl', Name: 'litre to ml', 'Unit to convert': ['recLitre'], 'Unit to convert Name': ['litre'],
+      Value: 1, 'Conversion value': 1000, 'Activity Density': undefined, createdAt: '2024-01-01T00:00:00.000Z',
+    })
+    expect(result.records[0].Description).toBeUndefined()
+
+    const [{ text, values }] = mockQueries
+    expect(text).toContain('ORDER BY t.name COLLATE natural_sort DESC NULLS LAST, t.id DESC')
+    expect(text).not.toMatch(/Litre|100%/)
+    expect(values).toEqual(expect.arrayContaining([['Litre'], ['litre'], '%100\\%\\_%', 20, 40]))
+  })
+
+  it('writes many records in one transaction, joined by the calls inside it', async () => {
+    mockResult = () => ({ rows: [], rowCount: 1 })
+    await withPostgreSQLTransaction(async () => {
+      await conversions.update('recA', { Value: 2 })
+      await conversions.updateMany([{ id: 'recB', fields: { Status: 'Inactive' } }])
+    })
+
+    expect(mockQueries.map(query => [query.on, query.text.split(' ')[0]])).toEqual([
+      ['client', 'BEGIN'], ['client', 'UPDATE'], ['client', 'UPDATE'], ['client', 'COMMIT'],
+    ])
+  })
+
+  it('rolls the batch back when a record is missing, and refuses unknown filter fields', async () => {
+    mockResult = (_text, values) => ({ rows: [], rowCount: values?.includes('recMissing') ? 0 : 1 })
+    await expect(conversions.updateMany([
+      { id: 'recA', fields: { Value: 2 } },
+      { id: 'recMissing', fields: { Value: 3 } },
+    ])).rejects.toThrow('Unit Conversions not found: recMissing')
+    expect(mockQueries.map(query => query.text.split(' ')[0])).toEqual(['BEGIN', 'UPDATE', 'UPDATE', 'ROLLBACK'])
+
+    mockQueries.length = 0
+    await expect(conversions.list({ filters: { Colour: 'red' } })).rejects.toThrow(EntityQueryError)
+    expect(mockQueries).toEqual([])
+  })
+})
@@ -0,0 +1,595 @@
+import { getPostgreSQLQueryable, withPostgreSQLTransaction, PostgreSQLQueryable } from './connection'
+import { ENTITY_DESCRIPTORS, getEntityDescriptor } from '../entities/descriptors'
+import { EntityField, EntityFieldType, EntityListOptions, EntityDescriptor, EntityQueryError } from '../entities/types'
+import {
+  EntityMetaField,
+  ResolvedEntityField,
+  resolveEntityField,
+  getEntityField,
+  getEntitySearchFields,
+  normalizeEntityWrite,
+  toValueList,
+  isTruthy,
+  resolveFilterField,
+  getRangeFieldKind,
+} from '../entities/query'
+import { FilterNode, isDateOnlyBound } from '../filters/FilterAst'
+
+/**
+ * PostgreSQL Table
+ *
+ * Parameterised queries for one entity table, driven by its EntityDescriptor:
+ * - list: filters, filter ASTs, search, natural sort and exact total in one query (COUNT(*) OVER())
+ * - linked record IDs are stored as text[]; names and lookups are resolved in the same query
+ * - writes accept the API field names and skip read-only fields (names, lookups, reverse links)
+ *
+ * Identifiers come from the table specs only - every user value is a query parameter.
+ */
+
+/** ICU collation created by the schema (en-u-kn-true): "A2" sorts before "A10" */
+const NATURAL_SORT = 'COLLATE natural_sort'
+
+const SQL_CASTS: Partial<Record<EntityFieldType, string>> = {
+  text: 'text',
+  number: 'double precision',
+  integer: 'integer',
+  boolean: 'boolean',
+  date: 'date',
+  timestamp: 'timestamptz',
+  json: 'jsonb',
+  textArray: 'text[]',
+  links: 'text[]',
+}
+
+const META_COLUMNS: Record<EntityMetaField, string> = {
+  id: 't.id',
+  created: 't.created_at',
+  updated: 't.updated_at',
+  createdBy: 't.created_by',
+  lastModifiedBy: 't.last_modified_by',
+}
+
+/**
+ * Collects query parameters and returns their placeholders
+ */
+class QueryParams {
+  values: any[] = []
+
+  add(value: any, cast?: string): string {
+    this.values.push(value)
+    return `$${this.values.length}${cast ? `::${cast}` : ''}`
+  }
+}
+
+const escapeLike = (value: string): string =>
+  value.replace(/[\\%_]/g, match => `\\${match}`)
+
+export class PostgreSQLTable {
+  readonly spec: EntityDescriptor
+
+  constructor(spec: EntityDescriptor) {
+    this.spec = spec
+  }
+
+  private get db(): PostgreSQLQueryable {
+    return getPostgreSQLQueryable()
+  }
+
+  private get nameColumn(): string {
+    return this.spec.nameColumn || 'name'
+  }
+
+  /**
+   * Records matching the filters and search, sorted and paginated, with the total match count
+   */
+  async list(options: EntityListOptions = {}): Promise<{ records: Record<string, any>[]; total: number }> {
+    const params = new QueryParams()
+    const where = this.whereClause(params, options.filters, options.search, options.filter)
+    let sql = `SELECT ${this.selectList()}, COUNT(*) OVER() AS total_count FROM ${this.spec.table} t ${where} ${this.orderBy(params, options.sortBy, options.sortOrder)}`
+    if (options.limit !== undefined) {
+      sql += ` LIMIT ${params.add(Math.max(0, options.limit))}`
+    }
+    if (options.offset) {
+      sql += ` OFFSET ${params.add(Math.max(0, options.offset))}`
+    }
+
+    const result = await this.db.query(sql, params.values)
+    // A page past the end has no rows to carry the window count
+    const total = result.rows.length > 0
+      ? Number(result.rows[0].total_count)
+      : options.offset ? await this.count(options.filters, options.search, options.filter) : 0
+
+    return { records: result.rows.map(row => this.mapRow(row)), total }
+  }
+
+  async count(filters?: Record<string, any>, search?: string, filter?: FilterNode): Promise<number> {
+    const params = new QueryParams()
+    const where = this.whereClause(params, filters, search, filter)
+    const result = await this.db.query(`SELECT COUNT(*)::int AS total FROM ${this.spec.table} t ${where}`, params.values)
+    return Number(result.rows[0]?.total || 0)
+  }
+
+  async findById(id: string): Promise<Record<string, any> | null> {
+    const [record] = await this.findByIds([id])
+    return record || null
+  }
+
+  /**
+   * Records by ID, in the order of the IDs
+   */
+  async findByIds(ids: string[]): Promise<Record<string, any>[]> {
+    if (ids.length === 0) return []
+    const result = await this.db.query(
+      `SELECT ${this.selectList()} FROM ${this.spec.table} t WHERE t.id = ANY($1::text[]) ORDER BY array_position($1::text[], t.id)`,
+      [ids]
+    )
+    return result.rows.map(row => this.mapRow(row))
+  }
+
+  /**
+   * Insert a record from API fields
+   * @returns the new record ID
+   */
+  async insert(fields: Record<string, any>, userId?: string, db: PostgreSQLQueryable = this.db): Promise<string> {
+    const params = new QueryParams()
+    const { values, extra } = this.writeValues(fields, params, true)
+    if (Object.keys(extra).length > 0) {
+      values.set('fields', params.add(JSON.stringify(extra), 'jsonb'))
+    }
+    if (userId) {
+      values.set('created_by', params.add(userId))
+      values.set('last_modified_by', params.add(userId))
+    }
+
+    const sql = values.size > 0
+      ? `INSERT INTO ${this.spec.table} (${Array.from(values.keys()).join(', ')}) VALUES (${Array.from(values.values()).join(', ')}) RETURNING id`
+      : `INSERT INTO ${this.spec.table} DEFAULT VALUES RETURNING id`
+    const result = await db.query(sql, params.values)
+    return result.rows[0].id
+  }
+
+  /**
+   * Insert many records in one transaction
+   * @returns the new record IDs in input order
+   */
+  async insertMany(rows: Record<string, any>[], userId?: string): Promise<string[]> {
+    if (rows.length === 0) return []
+    return withPostgreSQLTransaction(async client => {
+      const ids: string[] = []
+      for (const fields of rows) {
+        ids.push(await this.insert(fields, userId, client))
+      }
+      return ids
+    })
+  }
+
+  /**
+   * Update the given API fields of a record
+   * @returns false when the record does not exist
+   */
+  async update(id: string, fields: Record<string, any>, userId?: string, db: PostgreSQLQueryable = this.db): Promise<boolean> {
+    const params = new QueryParams()
+    const { values, extra } = this.writeValues(fields, params, false)
+    const assignments = Array.from(values.entries()).map(([column, placeholder]) => `${column} = ${placeholder}`)
+    if (Object.keys(extra).length > 0) {
+      assignments.push(`fields = fields || ${params.add(JSON.stringify(extra), 'jsonb')}`)
+    }
+    assignments.push('updated_at = now()')
+    if (userId) {
+      assignments.push(`last_modified_by = ${params.add(userId)}`)
+    }
+
+    const result = await db.query(
+      `UPDATE ${this.spec.table} SET ${assignments.join(', ')} WHERE id = ${params.add(id)}`,
+      params.values
+    )
+    return (result.rowCount || 0) > 0
+  }
+
+  /**
+   * Update many records in one transaction - nothing is written when any record is missing
+   */
+  async updateMany(updates: Array<{ id: string; fields: Record<string, any> }>, userId?: string): Promise<void> {
+    if (updates.length === 0) return
+    await withPostgreSQLTransaction(async client => {
+      const missing: string[] = []
+      for (const { id, fields } of updates) {
+        if (!(await this.update(id, fields, userId, client))) missing.push(id)
+      }
+      if (missing.length > 0) {
+        throw new EntityQueryError(`${this.spec.label} not found: ${missing.join(', ')}`)
+      }
+    })
+  }
+
+  /**
+   * Delete a record and remove it from every links column that points to it
+   * @returns false when the record does not exist
+   */
+  async remove(id: string): Promise<boolean> {
+    return withPostgreSQLTransaction(async client => {
+      for (const spec of Object.values(ENTITY_DESCRIPTORS)) {
+        for (const column of spec.columns) {
+          if (column.type === 'links' && column.linkTable === this.spec.table) {
+            await client.query(
+              `UPDATE ${spec.table} SET ${column.column} = array_remove(${column.column}, $1) WHERE $1 = ANY(${column.column})`,
+              [id]
+            )
+          }
+        }
+      }
+      const result = await client.query(`DELETE FROM ${this.spec.table} WHERE id = $1`, [id])
+      return (result.rowCount || 0) > 0
+    })
+  }
+
+  /**
+   * Distinct non-empty values of a field, naturally sorted
+   * Link fields return the linked record names, which are also accepted as filter values
+   */
+  async distinct(field: string, limit: number = 1000): Promise<string[]> {
+    const resolved = resolveEntityField(this.spec, field)
+    if (!resolved) return []
+
+    const params = new QueryParams()
+    let value: string
+    let from = `${this.spec.table} t`
+    if (resolved.kind === 'extra') {
+      value = `t.fields ->> ${params.add(resolved.key)}`
+    } else if (resolved.kind === 'meta') {
+      value = `${META_COLUMNS[resolved.meta]}::text`
+    } else if (resolved.kind === 'count') {
+      value = `${this.countExpression(resolved.column)}::text`
+    } else if (resolved.column.type === 'links') {
+      const column = resolved.column
+      from += ` JOIN ${column.linkTable} l ON l.id = ANY(t.${column.column})`
+      value = `l.${this.linkedNameColumn(column)}::text`
+    } else if (resolved.column.type === 'reverse') {
+      const column = resolved.column
+      from += ` JOIN ${column.linkTable} r ON t.id = ANY(r.${column.reverseColumn})`
+      value = `r.${this.linkedNameColumn(column)}::text`
+    } else if (resolved.column.type === 'textArray') {
+      from += `, unnest(t.${resolved.column.column}) AS v(value)`
+      value = 'v.value'
+    } else {
+      value = `${this.valueExpression(resolved.column)}::text`
+    }
+
+    const result = await this.db.query(
+      `SELECT value FROM (SELECT DISTINCT ${value} AS value FROM ${from}) d WHERE value IS NOT NULL AND value <> '' ORDER BY value ${NATURAL_SORT} LIMIT ${params.add(limit)}`,
+      params.values
+    )
+    return result.rows.map(row => row.value)
+  }
+
+  private linkedNameColumn(column: EntityField): string {
+    return getEntityDescriptor(column.linkTable!).nameColumn || 'name'
+  }
+
+  /** SQL value of a stored or lookup column */
+  private valueExpression(column: EntityField): string {
+    if (column.type === 'lookup') {
+      const via = getEntityField(this.spec, column.via!)
+      return `(SELECT string_agg(l.${column.lookupColumn}::text, ', ' ORDER BY array_position(t.${via.column}, l.id)) FROM ${via.linkTable} l WHERE l.id = ANY(t.${via.column}))`
+    }
+    return `t.${column.column}`
+  }
+
+  /** Linked record IDs of a links or reverse column */
+  private idsExpression(column: EntityField): string {
+    if (column.type === 'reverse') {
+      return `ARRAY(SELECT r.id FROM ${column.linkTable} r WHERE t.id = ANY(r.${column.reverseColumn}) ORDER BY r.${this.linkedNameColumn(column)} ${NATURAL_SORT}, r.id)`
+    }
+    return `t.${column.column}`
+  }
+
+  /** Linked record names, in the same order as the IDs */
+  private namesExpression(column: EntityField): string {
+    const name = this.linkedNameColumn(column)
+    if (column.type === 'reverse') {
+      return `ARRAY(SELECT r.${name}::text FROM ${column.linkTable} r WHERE t.id = ANY(r.${column.reverseColumn}) ORDER BY r.${name} ${NATURAL_SORT}, r.id)`
+    }
+    return `ARRAY(SELECT l.${name}::text FROM ${column.linkTable} l WHERE l.id = ANY(t.${column.column}) ORDER BY array_position(t.${column.column}, l.id))`
+  }
+
+  private countExpression(column: EntityField): string {
+    return `(SELECT COUNT(*)::int FROM ${column.linkTable} r WHERE t.id = ANY(r.${column.reverseColumn}))`
+  }
+
+  private selectList(): string {
+    const parts = ['t.id', 't.created_at', 't.updated_at', 't.created_by', 't.last_modified_by']
+    if (this.spec.extraFields) parts.push('t.fields')
+
+    this.spec.columns.forEach((column, index) => {
+      if (column.type === 'links' || column.type === 'reverse') {
+        parts.push(`${this.idsExpression(column)} AS c${index}`)
+        if (column.nameField) parts.push(`${this.namesExpression(column)} AS n${index}`)
+      } else if (column.type === 'date') {
+        // Plain YYYY-MM-DD - a JS Date would shift with the server time zone
+        parts.push(`to_char(t.${column.column}, 'YYYY-MM-DD') AS c${index}`)
+      } else {
+        parts.push(`${this.valueExpression(column)} AS c${index}`)
+      }
+    })
+    return parts.join(', ')
+  }
+
+  /**
+   * Database row -> API record
+   */
+  private mapRow(row: any): Record<string, any> {
+    const record: Record<string, any> = { id: row.id }
+
+    this.spec.columns.forEach((column, index) => {
+      let value = row[`c${index}`]
+      if (column.type === 'links' || column.type === 'reverse' || column.type === 'textArray') {
+        value = Array.isArray(value) && value.length > 0 ? value : undefined
+      } else if (column.type === 'number' || column.type === 'integer') {
+        value = value === null || value === undefined ? undefined : Number(value)
+      } else if (column.type === 'timestamp') {
+        value = value ? new Date(value).toISOString() : undefined
+      } else if (value === null) {
+        value = undefined
+      }
+
+      record[column.field] = value
+      column.aliases?.forEach(alias => { record[alias] = value })
+      if (column.nameField) record[column.nameField] = row[`n${index}`] || []
+      if (column.countField) record[column.countField] = value ? value.length : 0
+    })
+
+    if (this.spec.extraFields && row.fields) {
+      Object.entries(row.fields).forEach(([key, value]) => {
+        if (!(key in record)) record[key] = value
+      })
+    }
+
+    const createdAt = row.created_at ? new Date(row.created_at).toISOString() : undefined
+    const updatedAt = row.updated_at ? new Date(row.updated_at).toISOString() : undefined
+    ;(this.spec.createdFields || ['createdAt']).forEach(field => { record[field] = createdAt })
+    ;(this.spec.updatedFields || ['updatedAt']).forEach(field => { record[field] = updatedAt })
+    record.createdBy = row.created_by || undefined
+    record.lastModifiedBy = row.last_modified_by || undefined
+
+    this.spec.decorate?.(record)
+    return record
+  }
+
+  /**
+   * API fields -> column placeholders
+   * Unknown fields go to the jsonb column when the table keeps extra fields
+   */
+  private writeValues(
+    fields: Record<string, any>,
+    params: QueryParams,
+    insert: boolean
+  ): { values: Map<string, string>; extra: Record<string, any> } {
+    const normalized = normalizeEntityWrite(this.spec, fields, insert)
+    const values = new Map<string, string>()
+    normalized.values.forEach((value, column) => {
+      const sqlValue = column.type === 'json' && value !== null ? JSON.stringify(value) : value
+      values.set(column.column!, params.add(sqlValue, SQL_CASTS[column.type]))
+    })
+    return { values, extra: normalized.extra }
+  }
+
+  private whereClause(params: QueryParams, filters?: Record<string, any>, search?: string, filter?: FilterNode): string {
+    const conditions: string[] = []
+
+    Object.entries(filters || {}).forEach(([key, rawValue]) => {
+      const values = toValueList(rawValue).map(value => String(value).trim()).filter(value => value !== '')
+      if (values.length === 0) return
+      const resolved = resolveEntityField(this.spec, key)
+      if (!resolved) {
+        throw new EntityQueryError(`Unknown filter field "${key}" for ${this.spec.label}`, key)
+      }
+      conditions.push(this.filterCondition(resolved, values, params))
+    })
+
+    const term = search?.trim()
+    if (term) {
+      const pattern = params.add(`%${escapeLike(term)}%`)
+      const matches = getEntitySearchFields(this.spec).map(column => {
+        if (column.type === 'links' || column.type === 'reverse') {
+          return `array_to_string(${this.namesExpression(column)}, ' ') ILIKE ${pattern}`
+        }
+        if (column.type === 'textArray') {
+          return `array_to_string(t.${column.column}, ' ') ILIKE ${pattern}`
+        }
+        return `${this.valueExpression(column)}::text ILIKE ${pattern}`
+      })
+      if (this.spec.extraFields) {
+        matches.push(`t.fields::text ILIKE ${pattern}`)
+      }
+      if (matches.length > 0) {
+        conditions.push(`(${matches.join(' OR ')})`)
+      }
+    }
+
+    if (filter) {
+      conditions.push(this.filterNodeCondition(filter, params))
+    }
+
+    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+  }
+
+  /**
+   * Condition of a filter AST - the semantics of compileEntityFilter (entities/query)
+   */
+  private filterNodeCondition(filter: FilterNode, params: QueryParams): string {
+    switch (filter.op) {
+      case 'and':
+        return filter.filters.length === 0
+          ? 'TRUE'
+          : `(${filter.filters.map(child => this.filterNodeCondition(child, params)).join(' AND ')})`
+      case 'or':
+        return filter.filters.length === 0
+          ? 'FALSE'
+          : `(${filter.filters.map(child => this.filterNodeCondition(child, params)).join(' OR ')})`
+      case 'not':
+        // A condition on NULL is NULL - NOT of it must still match
+        return `NOT COALESCE(${this.filterNodeCondition(filter.filter, params)}, FALSE)`
+      case 'eq':
+        return this.filterCondition(resolveFilterField(this.spec, filter.field), [String(filter.value)], params)
+      case 'in':
+        return filter.values.length === 0
+          ? 'FALSE'
+          : this.filterCondition(resolveFilterField(this.spec, filter.field), filter.values.map(String), params)
+      case 'contains':
+        return `${this.textExpression(resolveFilterField(this.spec, filter.field), params)} ILIKE ${params.add(`%${escapeLike(filter.value)}%`)}`
+      case 'isEmpty':
+        return this.emptyCondition(resolveFilterField(this.spec, filter.field), params)
+      case 'range':
+        return this.rangeCondition(filter, params)
+    }
+  }
+
+  /** Text of a field as matched by contains, '' when empty */
+  private textExpression(resolved: ResolvedEntityField, params: QueryParams): string {
+    if (resolved.kind === 'extra') return `COALESCE(t.fields ->> ${params.add(resolved.key)}, '')`
+    if (resolved.kind === 'meta') return `COALESCE(${META_COLUMNS[resolved.meta]}::text, '')`
+    if (resolved.kind === 'count') return `${this.countExpression(resolved.column)}::text`
+
+    const column = resolved.column
+    if (resolved.kind === 'names' || column.type === 'links' || column.type === 'reverse') {
+      return `array_to_string(${this.namesExpression(column)}, ' ')`
+    }
+    if (column.type === 'textArray') return `COALESCE(array_to_string(t.${column.column}, ' '), '')`
+    return `COALESCE(${this.valueExpression(column)}::text, '')`
+  }
+
+  private emptyCondition(resolved: ResolvedEntityField, params: QueryParams): string {
+    if (resolved.kind === 'extra') return `COALESCE(t.fields ->> ${params.add(resolved.key)}, '') = ''`
+    if (resolved.kind === 'meta') return `${META_COLUMNS[resolved.meta]} IS NULL`
+    if (resolved.kind === 'count') return `${this.countExpression(resolved.column)} = 0`
+
+    const column = resolved.column
+    switch (column.type) {
+      case 'reverse':
+        return `cardinality(${this.idsExpression(column)}) = 0`
+      case 'links':
+      case 'textArray':
+        return `COALESCE(cardinality(t.${column.column}), 0) = 0`
+      case 'lookup':
+        return `COALESCE(${this.valueExpression(column)}, '') = ''`
+      case 'boolean':
+        return `t.${column.column} IS NOT TRUE`
+      case 'text':
+        return `COALESCE(t.${column.column}, '') = ''`
+      default:
+        return `t.${column.column} IS NULL`
+    }
+  }
+
+  private rangeCondition(filter: Extract<FilterNode, { op: 'range' }>, params: QueryParams): string {
+    const resolved = resolveFilterField(this.spec, filter.field)
+    const kind = getRangeFieldKind(this.spec, resolved, filter)
+    let expression: string
+    let cast = kind === 'number' ? 'double precision' : 'timestamptz'
+    if (resolved.kind === 'count') {
+      expression = this.countExpression(resolved.column)
+    } else if (resolved.kind === 'meta') {
+      expression = META_COLUMNS[resolved.meta]
+    } else {
+      // getRangeFieldKind only accepts number, integer, date and timestamp columns
+      const { column } = resolved as Extract<ResolvedEntityField, { kind: 'column' }>
+      expression = `t.${column.column}`
+      if (column.type === 'date') cast = 'date'
+    }
+
+    const conditions: string[] = []
+    if (filter.min !== undefined) {
+      conditions.push(`${expression} >= ${params.add(filter.min, cast)}`)
+    }
+    if (filter.max !== undefined) {
+      conditions.push(isDateOnlyBound(filter.max)
+        // A date without a time includes the whole day
+        ? `${expression} < ${params.add(filter.max, 'date')} + 1`
+        : `${expression} <= ${params.add(filter.max, cast)}`)
+    }
+    return `(${conditions.join(' AND ')})`
+  }
+
+  /**
+   * Condition matching any of the values, case-insensitively
+   * Link fields match a linked record ID or name
+   */
+  private filterCondition(resolved: ResolvedEntityField, values: string[], params: QueryParams): string {
+    const lower = values.map(value => value.toLowerCase())
+
+    if (resolved.kind === 'extra') {
+      return `lower(t.fields ->> ${params.add(resolved.key)}) = ANY(${params.add(lower, 'text[]')})`
+    }
+    if (resolved.kind === 'meta') {
+      return `lower(${META_COLUMNS[resolved.meta]}::text) = ANY(${params.add(lower, 'text[]')})`
+    }
+    if (resolved.kind === 'count') {
+      return `${this.countExpression(resolved.column)} = ANY(${params.add(values.map(value => parseInt(value, 10) || 0), 'int[]')})`
+    }
+
+    const column = resolved.column
+    switch (column.type) {
+      case 'links':
+      case 'reverse': {
+        const linked = column.type === 'links'
+          ? `l.id = ANY(t.${column.column})`
+          : `t.id = ANY(l.${column.reverseColumn})`
+        return `EXISTS (SELECT 1 FROM ${column.linkTable} l WHERE ${linked} AND (l.id = ANY(${params.add(values, 'text[]')}) OR lower(l.${this.linkedNameColumn(column)}::text) = ANY(${params.add(lower, 'text[]')})))`
+      }
+      case 'lookup': {
+        const via = getEntityField(this.spec, column.via!)
+        return `EXISTS (SELECT 1 FROM ${via.linkTable} l WHERE l.id = ANY(t.${via.column}) AND lower(l.${column.lookupColumn}::text) = ANY(${params.add(lower, 'text[]')}))`
+      }
+      case 'textArray':
+        return `EXISTS (SELECT 1 FROM unnest(t.${column.column}) AS v(value) WHERE lower(v.value) = ANY(${params.add(lower, 'text[]')}))`
+      case 'number':
+      case 'integer':
+        if (values.every(value => Number.isFinite(Number(value)))) {
+          return `t.${column.column} = ANY(${params.add(values.map(Number), 'double precision[]')})`
+        }
+        return `t.${column.column}::text = ANY(${params.add(values, 'text[]')})`
+      case 'boolean':
+        return `t.${column.column} = ANY(${params.add(values.map(isTruthy), 'boolean[]')})`
+      default:
+        return `lower(t.${column.column}::text) = ANY(${params.add(lower, 'text[]')})`
+    }
+  }
+
+  private orderBy(params: QueryParams, sortBy?: string, sortOrder?: 'asc' | 'desc'): string {
+    const direction = sortOrder === 'desc' ? 'DESC' : 'ASC'
+    let expression = `t.${this.nameColumn} ${NATURAL_SORT}`
+
+    const key = sortBy?.trim()
+    if (key) {
+      const resolved = resolveEntityField(this.spec, key)
+      if (resolved) {
+        expression = this.sortExpression(resolved, params)
+      } else {
+        console.warn(`⚠️  ${this.spec.label}: unknown sort field "${key}", using default sort`)
+      }
+    }
+    return `ORDER BY ${expression} ${direction} NULLS LAST, t.id ${direction}`
+  }
+
+  private sortExpression(resolved: ResolvedEntityField, params: QueryParams): string {
+    if (resolved.kind === 'extra') return `(t.fields ->> ${params.add(resolved.key)}) ${NATURAL_SORT}`
+    if (resolved.kind === 'meta') return META_COLUMNS[resolved.meta]
+    if (resolved.kind === 'count') return this.countExpression(resolved.column)
+
+    const column = resolved.column
+    if (resolved.kind === 'names' || column.type === 'links' || column.type === 'reverse') {
+      return `(${this.namesExpression(column)})[1] ${NATURAL_SORT}`
+    }
+    switch (column.type) {
+      case 'text':
+      case 'lookup':
+        return `${this.valueExpression(column)} ${NATURAL_SORT}`
+      case 'textArray':
+        return `array_to_string(t.${column.column}, ', ') ${NATURAL_SORT}`
+      case 'json':
+        return `t.${column.column}::text`
+      default:
+        return `t.${column.column}`
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { Pool, PoolClient } from 'pg'
+
+/**
+ * PostgreSQL Connection
+ *
+ * One connection pool shared by the PostgreSQL adapter and every PostgreSQL entity service.
+ *
+ * Environment Variables:
+ * - DATABASE_URL: connection string (takes precedence over the DB_* variables)
+ * - DB_HOST, DB_PORT, DB_NAME, DB_USER, DB_PASSWORD
+ * - DB_SSL: 'true' to connect over TLS
+ * - DB_POOL_MAX: maximum pool size (default: 10)
+ */
+
+/**
+ * Anything that runs a query - the pool or a client inside a transaction
+ */
+export interface PostgreSQLQueryable {
+  query(text: string, values?: any[]): Promise<{ rows: any[]; rowCount: number | null }>
+}
+
+/**
+ * True when DATABASE_TYPE selects PostgreSQL for the whole API
+ */
+export const isPostgreSQLDatabase = (): boolean => {
+  const databaseType = (process.env.DATABASE_TYPE || 'airtable').toLowerCase()
+  return databaseType === 'postgresql' || databaseType === 'postgres'
+}
+
+// Lazy singleton instance
+let poolInstance: Pool | null = null
+
+export const getPostgreSQLPool = (): Pool => {
+  if (!poolInstance) {
+    const ssl = process.env.DB_SSL === 'true' ? { rejectUnauthorized: false } : undefined
+    const max = parseInt(process.env.DB_POOL_MAX || '10', 10)
+
+    poolInstance = process.env.DATABASE_URL
+      ? new Pool({ connectionString: process.env.DATABASE_URL, ssl, max })
+      : new Pool({
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          database: process.env.DB_NAME,
+          user: process.env.DB_USER,
+          password: process.env.DB_PASSWORD,
+          ssl,
+          max,
+        })
+
+    // Idle clients can lose their connection (e.g. database restart) - log instead of crashing
+    poolInstance.on('error', (error: Error) => {
+      console.error('❌ PostgreSQL pool error:', error.message)
+    })
+
+    console.log(`🗄️  PostgreSQL pool created (max ${max} connections)`)
+  }
+  return poolInstance
+}
+
+/** Client of the transaction the current call runs in */
+const transactionClient = new AsyncLocalStorage<PostgreSQLQueryable>()
+
+/**
+ * Run a function inside a transaction - committed when it resolves, rolled back when it throws.
+ * Everything it calls joins the transaction: the queries of getPostgreSQLQueryable() and
+ * nested withPostgreSQLTransaction calls.
+ */
+export async function withPostgreSQLTransaction<T>(fn: (client: PostgreSQLQueryable) => Promise<T>): Promise<T> {
+  const current = transactionClient.getStore()
+  if (current) {
+    return fn(current)
+  }
+
+  const client: PoolClient = await getPostgreSQLPool().connect()
+  try {
+    await client.query('BEGIN')
+    const result = await transactionClient.run(client, () => fn(client))
+    await client.query('COMMIT')
+    return result
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Where to run a query: the client of the transaction in progress, or the pool
+ */
+export const getPostgreSQLQueryable = (): PostgreSQLQueryable => transactionClient.getStore() || getPostgreSQLPool()
+
+/**
+ * Close the pool (scripts and tests)
+ */
+export async function closePostgreSQLPool(): Promise<void> {
+  if (poolInstance) {
+    const pool = poolInstance
+    poolInstance = null
+    await pool.end()
+  }
+}
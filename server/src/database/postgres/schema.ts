@@ -0,0 +1,70 @@
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+import { EntityFieldType, EntityDescriptor } from '../entities/types'
+import { getAuditLogSchemaStatements } from '../audit/PostgreSQLAuditStore'
+import { getLockSchemaStatements } from '../locks/PostgreSQLLockStore'
+
+/**
+ * PostgreSQL schema of the emission management entities, generated from the table specs
+ *
+ * Idempotent: tables are created when missing and new columns are added to existing
+ * tables, so the same statements upgrade a database created by an older version.
+ */
+
+const COLUMN_TYPES: Partial<Record<EntityFieldType, string>> = {
+  text: 'text',
+  number: 'double precision',
+  integer: 'integer',
+  boolean: 'boolean NOT NULL DEFAULT false',
+  date: 'date',
+  timestamp: 'timestamptz',
+  json: 'jsonb',
+  textArray: "text[] NOT NULL DEFAULT '{}'",
+  links: "text[] NOT NULL DEFAULT '{}'",
+}
+
+/** Airtable-style record IDs ("rec" + 14 characters) so IDs look the same on both backends */
+const RECORD_ID_DEFAULT = "('rec' || substr(md5(random()::text || clock_timestamp()::text), 1, 14))"
+
+function tableStatements(spec: EntityDescriptor): string[] {
+  const columns = spec.columns
+    .filter(column => column.column)
+    .map(column => `${column.column} ${COLUMN_TYPES[column.type]}`)
+  if (spec.extraFields) {
+    columns.push("fields jsonb NOT NULL DEFAULT '{}'")
+  }
+  columns.push(
+    'created_at timestamptz NOT NULL DEFAULT now()',
+    'updated_at timestamptz NOT NULL DEFAULT now()',
+    'created_by text',
+    'last_modified_by text'
+  )
+
+  const statements = [
+    `CREATE TABLE IF NOT EXISTS ${spec.table} (\n  id text PRIMARY KEY DEFAULT ${RECORD_ID_DEFAULT},\n  ${columns.join(',\n  ')}\n)`,
+    ...columns.map(definition => `ALTER TABLE ${spec.table} ADD COLUMN IF NOT EXISTS ${definition}`),
+    `CREATE INDEX IF NOT EXISTS ${spec.table}_name_idx ON ${spec.table} (${spec.nameColumn || 'name'} COLLATE natural_sort)`,
+  ]
+  spec.columns
+    .filter(column => column.type === 'links')
+    .forEach(column => {
+      statements.push(`CREATE INDEX IF NOT EXISTS ${spec.table}_${column.column}_idx ON ${spec.table} USING gin (${column.column})`)
+    })
+  const tenant = spec.tenantField ? spec.columns.find(column => column.field === spec.tenantField) : undefined
+  if (tenant?.column) {
+    statements.push(`CREATE INDEX IF NOT EXISTS ${spec.table}_${tenant.column}_idx ON ${spec.table} (${tenant.column})`)
+  }
+  return statements
+}
+
+/**
+ * Every statement needed to create or upgrade the schema, in order
+ */
+export function getPostgreSQLSchemaStatements(): string[] {
+  return [
+    // Natural sort ("A2" before "A10"); requires PostgreSQL built with ICU (default in official images)
+    "CREATE COLLATION IF NOT EXISTS natural_sort (provider = icu, locale = 'en-u-kn-true')",
+    ...Object.values(ENTITY_DESCRIPTORS).flatMap(tableStatements),
+    ...getAuditLogSchemaStatements(),
+    ...getLockSchemaStatements(),
+  ]
+}
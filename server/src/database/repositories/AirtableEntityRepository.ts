@@ -0,0 +1,296 @@
+import Airtable from 'airtable'
+import { getAirtableBase } from '../airtable/AirtableClient'
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { EntityDescriptor, EntityField, EntityListOptions } from '../entities/types'
+import { getEntityDescriptor } from '../entities/descriptors'
+import {
+  queryEntityRecords,
+  distinctEntityValues,
+  normalizeEntityWrite,
+  getEntityNameField,
+  toValueList,
+  isTruthy,
+} from '../entities/query'
+import { FilterNode } from '../filters/FilterAst'
+import { RelationshipResolver } from '../../services/RelationshipResolver'
+import { getEntityTable } from '../../utils/entityTables'
+
+/** Airtable accepts at most 10 records per create / update request */
+const AIRTABLE_BATCH_SIZE = 10
+
+/** Linked record IDs per name lookup - keeps the OR() formula within URL limits */
+const RESOLVE_BATCH_SIZE = 100
+
+/**
+ * Airtable table of a descriptor: the entity table registry (which honours the
+ * AIRTABLE_*_TABLE_ID overrides), then the descriptor's own table, then its label
+ */
+export function getAirtableTableName(descriptor: EntityDescriptor): string {
+  return (descriptor.entity && getEntityTable(descriptor.entity)?.airtableTable) ||
+    descriptor.airtableTable ||
+    descriptor.label
+}
+
+const airtableFieldName = (column: EntityField): string => column.airtableField || column.field
+
+const isNotFound = (error: any): boolean =>
+  error?.error === 'NOT_FOUND' || error?.statusCode === 404
+
+/** Collaborator fields hold { id, email, name } */
+const collaboratorName = (value: any): string | undefined => {
+  const collaborator = Array.isArray(value) ? value[0] : value
+  if (!collaborator) return undefined
+  return typeof collaborator === 'object' ? collaborator.email || collaborator.name : String(collaborator)
+}
+
+/**
+ * Airtable Entity Repository
+ *
+ * IEntityRepository over one Airtable table. Airtable formulas cannot match linked
+ * record IDs or names, so list reads the table and queries in process (entities/query),
+ * with linked record names resolved in one batch per linked table.
+ */
+export class AirtableEntityRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>
+  implements IEntityRepository<T, CreateDto, UpdateDto> {
+  readonly descriptor: EntityDescriptor
+  private base: Airtable.Base
+  private tableName: string
+  private relationshipResolver: RelationshipResolver
+
+  constructor(descriptor: EntityDescriptor) {
+    const apiKey = process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN ||
+                   process.env.AIRTABLE_API_KEY
+
+    if (!apiKey) {
+      throw new Error('Airtable API token is required')
+    }
+
+    const baseId = process.env.AIRTABLE_SYSTEM_CONFIG_BASE_ID ||
+                   'appGtLbKhmNkkTLVL'
+
+    this.descriptor = descriptor
+    this.tableName = getAirtableTableName(descriptor)
+
+    this.base = getAirtableBase(baseId, apiKey)
+    this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
+
+    console.log(`📊 Airtable repository initialized: ${this.tableName}`)
+  }
+
+  async list(options?: EntityListOptions): Promise<{ records: T[]; total: number }> {
+    const { records, total } = queryEntityRecords(this.descriptor, await this.fetchAll(), options)
+    return { records: records as T[], total }
+  }
+
+  async get(id: string): Promise<T | null> {
+    try {
+      const record = await this.base(this.tableName).find(id)
+      const [mapped] = await this.mapRecords([record])
+      return mapped as T
+    } catch (error: any) {
+      if (isNotFound(error)) {
+        return null
+      }
+      console.error(`Error fetching ${this.descriptor.label} record:`, error)
+      throw new Error(`Failed to fetch ${this.descriptor.label} record: ${error.message}`)
+    }
+  }
+
+  async create(dto: CreateDto): Promise<T> {
+    try {
+      const records = await this.base(this.tableName).create([{ fields: this.toAirtableFields(dto, true) }])
+      const [mapped] = await this.mapRecords(records)
+      return mapped as T
+    } catch (error: any) {
+      console.error(`Error creating ${this.descriptor.label} record:`, error)
+      throw new Error(`Failed to create ${this.descriptor.label} record: ${error.message}`)
+    }
+  }
+
+  async update(id: string, dto: UpdateDto): Promise<T | null> {
+    try {
+      const record = await this.base(this.tableName).update(id, this.toAirtableFields(dto, false))
+      const [mapped] = await this.mapRecords([record])
+      return mapped as T
+    } catch (error: any) {
+      if (isNotFound(error)) {
+        return null
+      }
+      console.error(`Error updating ${this.descriptor.label} record:`, error)
+      throw new Error(`Failed to update ${this.descriptor.label} record: ${error.message}`)
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.base(this.tableName).destroy(id)
+      return true
+    } catch (error: any) {
+      if (isNotFound(error)) {
+        return false
+      }
+      console.error(`Error deleting ${this.descriptor.label} record:`, error)
+      throw new Error(`Failed to delete ${this.descriptor.label} record: ${error.message}`)
+    }
+  }
+
+  async distinct(field: string, limit: number = 1000): Promise<string[]> {
+    return distinctEntityValues(this.descriptor, await this.fetchAll(), field, limit)
+  }
+
+  async count(filters?: Record<string, any>, search?: string, filter?: FilterNode): Promise<number> {
+    const { total } = await this.list({ filters, search, filter, limit: 0 })
+    return total
+  }
+
+  async createMany(dtos: CreateDto[]): Promise<string[]> {
+    const rows = dtos.map(dto => ({ fields: this.toAirtableFields(dto, true) }))
+    const ids: string[] = []
+    for (let i = 0; i < rows.length; i += AIRTABLE_BATCH_SIZE) {
+      const created = await this.base(this.tableName).create(rows.slice(i, i + AIRTABLE_BATCH_SIZE))
+      ids.push(...created.map(record => record.id))
+    }
+    return ids
+  }
+
+  async updateMany(updates: Array<{ id: string; fields: UpdateDto }>): Promise<void> {
+    const rows = updates.map(({ id, fields }) => ({ id, fields: this.toAirtableFields(fields, false) }))
+    for (let i = 0; i < rows.length; i += AIRTABLE_BATCH_SIZE) {
+      await this.base(this.tableName).update(rows.slice(i, i + AIRTABLE_BATCH_SIZE))
+    }
+  }
+
+  private async fetchAll(): Promise<Record<string, any>[]> {
+    try {
+      const records = await this.base(this.tableName).select().all()
+      return this.mapRecords(records)
+    } catch (error: any) {
+      console.error(`Error fetching ${this.descriptor.label}:`, error)
+      throw new Error(`Failed to fetch ${this.descriptor.label}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Airtable records -> API records, resolving linked record names per linked table
+   */
+  private async mapRecords(records: ReadonlyArray<Airtable.Record<any>>): Promise<Record<string, any>[]> {
+    const linkColumns = this.descriptor.columns.filter(column =>
+      (column.type === 'links' || column.type === 'reverse') && column.nameField
+    )
+    const linkedIds = new Map<string, Set<string>>()
+    linkColumns.forEach(column => {
+      const ids = linkedIds.get(column.linkTable!) || new Set<string>()
+      records.forEach(record => toValueList(record.fields[airtableFieldName(column)]).forEach(id => ids.add(String(id))))
+      linkedIds.set(column.linkTable!, ids)
+    })
+
+    const names = new Map<string, Map<string, string>>()
+    for (const [table, ids] of linkedIds) {
+      names.set(table, await this.resolveNames(table, Array.from(ids)))
+    }
+
+    return records.map(record => this.mapRecord(record, names))
+  }
+
+  private async resolveNames(table: string, ids: string[]): Promise<Map<string, string>> {
+    const linked = getEntityDescriptor(table)
+    const nameField = airtableFieldName(getEntityNameField(linked))
+    const names = new Map<string, string>()
+    for (let i = 0; i < ids.length; i += RESOLVE_BATCH_SIZE) {
+      // resolveLinkedRecords sorts the array it is given
+      const resolved = await this.relationshipResolver.resolveLinkedRecords(
+        ids.slice(i, i + RESOLVE_BATCH_SIZE),
+        getAirtableTableName(linked),
+        nameField
+      )
+      resolved.forEach(({ id, name }) => names.set(id, name))
+    }
+    return names
+  }
+
+  private mapRecord(record: Airtable.Record<any>, names: Map<string, Map<string, string>>): Record<string, any> {
+    const fields = record.fields
+    const mapped: Record<string, any> = { id: record.id }
+    const mappedFields = new Set(['Created By', 'Last Modified By', 'Last Modified'])
+
+    this.descriptor.columns.forEach(column => {
+      const name = airtableFieldName(column)
+      mappedFields.add(name)
+      const raw = fields[name]
+      let value: any
+
+      switch (column.type) {
+        case 'links':
+        case 'reverse':
+        case 'textArray': {
+          const list = toValueList(raw).map(String)
+          value = list.length > 0 ? list : undefined
+          break
+        }
+        case 'lookup':
+          value = toValueList(raw).join(', ') || undefined
+          break
+        case 'number':
+        case 'integer':
+          value = raw === undefined || raw === null || raw === '' ? undefined : Number(raw)
+          break
+        case 'boolean':
+          // Airtable omits unchecked checkboxes
+          value = isTruthy(raw)
+          break
+        case 'json':
+          if (typeof raw === 'string') {
+            try {
+              value = JSON.parse(raw)
+            } catch {
+              value = raw
+            }
+          } else {
+            value = raw ?? undefined
+          }
+          break
+        default:
+          value = raw === null || raw === '' ? undefined : raw
+      }
+
+      mapped[column.field] = value
+      column.aliases?.forEach(alias => { mapped[alias] = value })
+      if (column.nameField) {
+        const linkedNames = names.get(column.linkTable!)
+        mapped[column.nameField] = toValueList(value).map(id => linkedNames?.get(id) || id)
+      }
+      if (column.countField) mapped[column.countField] = value ? value.length : 0
+    })
+
+    if (this.descriptor.extraFields) {
+      Object.entries(fields).forEach(([key, value]) => {
+        if (!mappedFields.has(key) && !(key in mapped)) mapped[key] = value
+      })
+    }
+
+    const createdAt = record._rawJson?.createdTime ? new Date(record._rawJson.createdTime).toISOString() : undefined
+    const lastModified = fields['Last Modified'] || record._rawJson?.lastModifiedTime
+    const updatedAt = lastModified ? new Date(lastModified).toISOString() : undefined
+    ;(this.descriptor.createdFields || ['createdAt']).forEach(field => { mapped[field] = createdAt })
+    ;(this.descriptor.updatedFields || ['updatedAt']).forEach(field => { mapped[field] = updatedAt })
+    mapped.createdBy = collaboratorName(fields['Created By'])
+    mapped.lastModifiedBy = collaboratorName(fields['Last Modified By'])
+
+    this.descriptor.decorate?.(mapped)
+    return mapped
+  }
+
+  /**
+   * API fields -> Airtable fields
+   */
+  private toAirtableFields(dto: CreateDto | UpdateDto, insert: boolean): Record<string, any> {
+    const { values, extra } = normalizeEntityWrite(this.descriptor, dto as Record<string, any>, insert)
+    const fields: Record<string, any> = { ...extra }
+    values.forEach((value, column) => {
+      fields[airtableFieldName(column)] = column.type === 'json' && value !== null && typeof value !== 'string'
+        ? JSON.stringify(value)
+        : value
+    })
+    return fields
+  }
+}
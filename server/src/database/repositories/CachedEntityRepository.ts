@@ -0,0 +1,101 @@
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { EntityDescriptor, EntityListOptions } from '../entities/types'
+import { cacheKey, entityCacheTag, getResponseCache } from '../cache/ResponseCache'
+import { FilterNode } from '../filters/FilterAst'
+
+/**
+ * Tables whose records show in the records of a descriptor: its own, the linked and
+ * reverse linked tables (names, counts) and the tables read through by lookups
+ */
+export function getCacheTables(descriptor: EntityDescriptor): string[] {
+  const tables = new Set<string>([descriptor.table])
+  descriptor.columns.forEach(column => {
+    if ((column.type === 'links' || column.type === 'reverse') && column.linkTable) {
+      tables.add(column.linkTable)
+    } else if (column.type === 'lookup' && column.via) {
+      const via = descriptor.columns.find(candidate => candidate.field === column.via)
+      if (via?.linkTable) {
+        tables.add(via.linkTable)
+      }
+    }
+  })
+  return Array.from(tables)
+}
+
+/**
+ * Cached Entity Repository
+ *
+ * Serves list, get, distinct and count of a repository from the shared response cache.
+ * Every entry is tagged with the tables of getCacheTables, and every write invalidates
+ * the tag of the repository's own table - dropping its entries and those of the
+ * entities linking to it.
+ *
+ * tagOf maps a descriptor table to its cache tag; the Airtable adapter tags by Airtable
+ * table, so that writes of the Airtable services invalidate the same entries.
+ */
+export class CachedEntityRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>
+  implements IEntityRepository<T, CreateDto, UpdateDto> {
+  readonly descriptor: EntityDescriptor
+  private readonly tags: string[]
+  private readonly ownTag: string
+
+  constructor(
+    private readonly repository: IEntityRepository<T, CreateDto, UpdateDto>,
+    tagOf: (table: string) => string = entityCacheTag
+  ) {
+    this.descriptor = repository.descriptor
+    this.tags = getCacheTables(this.descriptor).map(tagOf)
+    this.ownTag = tagOf(this.descriptor.table)
+  }
+
+  async list(options: EntityListOptions = {}): Promise<{ records: T[]; total: number }> {
+    return this.cached(['list', options], () => this.repository.list(options))
+  }
+
+  async get(id: string): Promise<T | null> {
+    return this.cached(['get', id], () => this.repository.get(id))
+  }
+
+  async distinct(field: string, limit?: number): Promise<string[]> {
+    return this.cached(['distinct', field, limit], () => this.repository.distinct(field, limit))
+  }
+
+  async count(filters?: Record<string, any>, search?: string, filter?: FilterNode): Promise<number> {
+    return this.cached(['count', filters, search, filter], () => this.repository.count(filters, search, filter))
+  }
+
+  async create(dto: CreateDto): Promise<T> {
+    return this.invalidating(() => this.repository.create(dto))
+  }
+
+  async update(id: string, dto: UpdateDto): Promise<T | null> {
+    return this.invalidating(() => this.repository.update(id, dto))
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.invalidating(() => this.repository.delete(id))
+  }
+
+  async createMany(dtos: CreateDto[]): Promise<string[]> {
+    return this.invalidating(() => this.repository.createMany(dtos))
+  }
+
+  async updateMany(updates: Array<{ id: string; fields: UpdateDto }>): Promise<void> {
+    return this.invalidating(() => this.repository.updateMany(updates))
+  }
+
+  private cached<R>(query: any[], load: () => Promise<R>): Promise<R> {
+    return getResponseCache().getOrLoad(cacheKey('entity', this.descriptor.table, ...query), this.tags, load)
+  }
+
+  /**
+   * Run a write, then invalidate - also when it failed, since batched writes fail part way
+   */
+  private async invalidating<R>(write: () => Promise<R>): Promise<R> {
+    try {
+      return await write()
+    } finally {
+      await getResponseCache().invalidate([this.ownTag])
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { InMemoryEntityRepository, InMemoryEntityStore } from './InMemoryEntityRepository'
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+import { EntityQueryError } from '../entities/types'
+
+describe('InMemoryEntityRepository', () => {
+  const store = new InMemoryEntityStore()
+  const units = new InMemoryEntityRepository(ENTITY_DESCRIPTORS.units, store)
+  const conversions = new InMemoryEntityRepository(ENTITY_DESCRIPTORS.unit_conversions, store)
+  const densities = new InMemoryEntityRepository(ENTITY_DESCRIPTORS.activity_densities, store)
+
+  beforeEach(() => {
+    store.clear()
+  })
+
+  it('lists with linked names, lookups, reverse links, filters, search and natural sort', async () => {
+    const litre = await units.create({ Name: 'litre', Dimension: 'Volume' })
+    const kg = await units.create({ Name: 'kg', Dimension: 'Mass' })
+    const diesel = await densities.create({ Name: 'Diesel', 'Conversion factor': 0.84 })
+    await conversions.create({ Name: 'Step 10', 'Unit to convert': [litre.id], 'Normalized unit': [kg.id], 'Activity Density': [diesel.id] })
+    await conversions.create({ Name: 'Step 2', 'Unit to convert': [kg.id], 'Normalized unit': [litre.id] })
+    await conversions.create({ Name: 'Step 1', Status: 'Inactive', 'Unit to convert': [litre.id] })
+
+    const { records, total } = await conversions.list({ filters: { 'Unit to convert': 'LITRE', Status: 'Active' } })
+    expect(total).toBe(1)
+    expect(records[0]).toMatchObject({
+      Name: 'Step 10',
+      'Unit to convert Name': ['litre'],
+      'Dimension (from Unit to convert)': 'Volume',
+      'Normalized unit Name': ['kg'],
+      'Activity Density Name': ['Diesel'],
+    })
+
+    const sorted = await conversions.list({ search: 'step', sortBy: 'Name', sortOrder: 'desc', limit: 2 })
+    expect(sorted.records.map(record => record.Name)).toEqual(['Step 10', 'Step 2'])
+    expect(sorted.total).toBe(3)
+    expect(await conversions.distinct('Unit to convert')).toEqual(['kg', 'litre'])
+    expect((await densities.get(diesel.id))?.['Unit Conversion Name']).toEqual(['Step 10'])
+
+    await units.delete(kg.id)
+    expect((await conversions.list({ filters: { Name: 'Step 2' } })).records[0]['Unit to convert']).toBeUndefined()
+  })
+
+  it('writes nothing of a batch with a missing record, and refuses unknown filter fields', async () => {
+    const litre = await units.create({ Name: 'litre' })
+    await expect(units.updateMany([
+      { id: litre.id, fields: { Symbol: 'l' } },
+      { id: 'recMissing', fields: { Symbol: 'x' } },
+    ])).rejects.toThrow('Units not found: recMissing')
+    expect((await units.get(litre.id))?.Symbol).toBeUndefined()
+
+    await expect(units.list({ filters: { Colour: 'red' } })).rejects.toThrow(EntityQueryError)
+  })
+})
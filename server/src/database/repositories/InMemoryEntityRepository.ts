@@ -0,0 +1,253 @@
+import { randomBytes } from 'crypto'
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { EntityDescriptor, EntityField, EntityListOptions, EntityQueryError } from '../entities/types'
+import { ENTITY_DESCRIPTORS, getEntityDescriptor } from '../entities/descriptors'
+import {
+  queryEntityRecords,
+  distinctEntityValues,
+  normalizeEntityWrite,
+  getEntityField,
+  getEntityNameField,
+  toValueList,
+} from '../entities/query'
+import { FilterNode } from '../filters/FilterAst'
+import { naturalSort } from '../../utils/naturalSort'
+
+/**
+ * A stored record: values of the stored fields (and extra fields) by API field name
+ */
+export interface InMemoryEntityRow {
+  id: string
+  fields: Record<string, any>
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Records of every table, shared by the in-memory repositories so that linked
+ * record names, reverse links and lookups resolve across tables
+ */
+export class InMemoryEntityStore {
+  private tables = new Map<string, Map<string, InMemoryEntityRow>>()
+
+  rows(table: string): Map<string, InMemoryEntityRow> {
+    let rows = this.tables.get(table)
+    if (!rows) {
+      rows = new Map()
+      this.tables.set(table, rows)
+    }
+    return rows
+  }
+
+  /** Tables with their rows */
+  entries(): Array<[string, Map<string, InMemoryEntityRow>]> {
+    return Array.from(this.tables.entries())
+  }
+
+  clear(): void {
+    this.tables.clear()
+  }
+
+  /**
+   * Called after every write - persistent stores save here
+   */
+  changed(): void {}
+}
+
+/** Airtable-style record ID */
+const newRecordId = (): string => `rec${randomBytes(7).toString('hex')}`
+
+/**
+ * In-Memory Entity Repository
+ *
+ * IEntityRepository over an InMemoryEntityStore - used by the mock database adapter
+ * for development and tests. Queries run in process (entities/query).
+ */
+export class InMemoryEntityRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>
+  implements IEntityRepository<T, CreateDto, UpdateDto> {
+  readonly descriptor: EntityDescriptor
+  private store: InMemoryEntityStore
+
+  constructor(descriptor: EntityDescriptor, store: InMemoryEntityStore) {
+    this.descriptor = descriptor
+    this.store = store
+  }
+
+  private get rows(): Map<string, InMemoryEntityRow> {
+    return this.store.rows(this.descriptor.table)
+  }
+
+  async list(options?: EntityListOptions): Promise<{ records: T[]; total: number }> {
+    const { records, total } = queryEntityRecords(this.descriptor, this.allRecords(), options)
+    return { records: records as T[], total }
+  }
+
+  async get(id: string): Promise<T | null> {
+    const row = this.rows.get(id)
+    return row ? (this.toRecord(row) as T) : null
+  }
+
+  async create(dto: CreateDto): Promise<T> {
+    const row = this.newRow(dto)
+    this.rows.set(row.id, row)
+    this.store.changed()
+    return this.toRecord(row) as T
+  }
+
+  async update(id: string, dto: UpdateDto): Promise<T | null> {
+    const row = this.rows.get(id)
+    if (!row) return null
+    this.write(row, dto as Record<string, any>, false)
+    this.store.changed()
+    return this.toRecord(row) as T
+  }
+
+  /**
+   * Delete a record and remove it from every links field that points to it
+   */
+  async delete(id: string): Promise<boolean> {
+    if (!this.rows.has(id)) return false
+    Object.values(ENTITY_DESCRIPTORS).forEach(descriptor => {
+      descriptor.columns
+        .filter(column => column.type === 'links' && column.linkTable === this.descriptor.table)
+        .forEach(column => {
+          this.store.rows(descriptor.table).forEach(row => {
+            const ids = toValueList(row.fields[column.field])
+            if (ids.includes(id)) row.fields[column.field] = ids.filter(linkedId => linkedId !== id)
+          })
+        })
+    })
+    this.rows.delete(id)
+    this.store.changed()
+    return true
+  }
+
+  async distinct(field: string, limit: number = 1000): Promise<string[]> {
+    return distinctEntityValues(this.descriptor, this.allRecords(), field, limit)
+  }
+
+  async count(filters?: Record<string, any>, search?: string, filter?: FilterNode): Promise<number> {
+    const { total } = await this.list({ filters, search, filter, limit: 0 })
+    return total
+  }
+
+  /**
+   * Create many records - nothing is stored when any of them is invalid
+   */
+  async createMany(dtos: CreateDto[]): Promise<string[]> {
+    const rows = dtos.map(dto => this.newRow(dto))
+    rows.forEach(row => this.rows.set(row.id, row))
+    this.store.changed()
+    return rows.map(row => row.id)
+  }
+
+  /**
+   * Update many records - nothing is written when any record is missing
+   */
+  async updateMany(updates: Array<{ id: string; fields: UpdateDto }>): Promise<void> {
+    const missing = updates.filter(({ id }) => !this.rows.has(id)).map(({ id }) => id)
+    if (missing.length > 0) {
+      throw new EntityQueryError(`${this.descriptor.label} not found: ${missing.join(', ')}`)
+    }
+    // Normalise every update before writing any of them
+    const writes = updates.map(({ id, fields }) => ({
+      row: this.rows.get(id)!,
+      normalized: normalizeEntityWrite(this.descriptor, fields as Record<string, any>, false),
+    }))
+    writes.forEach(({ row, normalized }) => this.apply(row, normalized))
+    this.store.changed()
+  }
+
+  private newRow(dto: CreateDto): InMemoryEntityRow {
+    const now = new Date().toISOString()
+    const row: InMemoryEntityRow = { id: newRecordId(), fields: {}, createdAt: now, updatedAt: now }
+    this.write(row, dto as Record<string, any>, true)
+    return row
+  }
+
+  private write(row: InMemoryEntityRow, fields: Record<string, any>, insert: boolean): void {
+    this.apply(row, normalizeEntityWrite(this.descriptor, fields, insert))
+  }
+
+  private apply(row: InMemoryEntityRow, normalized: ReturnType<typeof normalizeEntityWrite>): void {
+    normalized.values.forEach((value, column) => { row.fields[column.field] = value })
+    Object.assign(row.fields, normalized.extra)
+    row.updatedAt = new Date().toISOString()
+  }
+
+  private allRecords(): Record<string, any>[] {
+    return Array.from(this.rows.values()).map(row => this.toRecord(row))
+  }
+
+  /**
+   * Stored row -> API record, with linked names, reverse links and lookups
+   */
+  private toRecord(row: InMemoryEntityRow): Record<string, any> {
+    const record: Record<string, any> = { id: row.id }
+
+    this.descriptor.columns.forEach(column => {
+      let value: any
+      if (column.type === 'reverse') {
+        value = this.reverseIds(column, row.id)
+      } else if (column.type === 'lookup') {
+        value = this.lookupValue(column, row)
+      } else {
+        value = row.fields[column.field]
+      }
+      if (value === null || (Array.isArray(value) && value.length === 0)) value = undefined
+
+      record[column.field] = value
+      column.aliases?.forEach(alias => { record[alias] = value })
+      if (column.nameField) {
+        record[column.nameField] = toValueList(value)
+          .map(id => this.linkedName(column.linkTable!, id))
+          .filter((name): name is string => name !== undefined)
+      }
+      if (column.countField) record[column.countField] = value ? value.length : 0
+    })
+
+    if (this.descriptor.extraFields) {
+      Object.entries(row.fields).forEach(([key, value]) => {
+        if (!(key in record)) record[key] = value
+      })
+    }
+
+    ;(this.descriptor.createdFields || ['createdAt']).forEach(field => { record[field] = row.createdAt })
+    ;(this.descriptor.updatedFields || ['updatedAt']).forEach(field => { record[field] = row.updatedAt })
+
+    this.descriptor.decorate?.(record)
+    return record
+  }
+
+  private linkedName(table: string, id: string): string | undefined {
+    const row = this.store.rows(table).get(id)
+    if (!row) return undefined
+    const name = row.fields[getEntityNameField(getEntityDescriptor(table)).field]
+    return name === undefined || name === null ? undefined : String(name)
+  }
+
+  /** Records of linkTable whose reverseColumn links to this record, by name */
+  private reverseIds(column: EntityField, id: string): string[] {
+    const linked = getEntityDescriptor(column.linkTable!)
+    const back = linked.columns.find(c => c.column === column.reverseColumn)
+    if (!back) return []
+    return Array.from(this.store.rows(linked.table).values())
+      .filter(row => toValueList(row.fields[back.field]).includes(id))
+      .map(row => row.id)
+      .sort((a, b) =>
+        naturalSort(this.linkedName(linked.table, a), this.linkedName(linked.table, b)) || a.localeCompare(b)
+      )
+  }
+
+  /** lookupColumn of the records linked through the via field, joined like the SQL lookup */
+  private lookupValue(column: EntityField, row: InMemoryEntityRow): string | undefined {
+    const via = getEntityField(this.descriptor, column.via!)
+    const linked = getEntityDescriptor(via.linkTable!)
+    const target = linked.columns.find(c => c.column === column.lookupColumn)
+    if (!target) return undefined
+    const values = toValueList(row.fields[via.field])
+      .map(id => this.store.rows(linked.table).get(id)?.fields[target.field])
+      .filter(value => value !== undefined && value !== null)
+    return values.length > 0 ? values.join(', ') : undefined
+  }
+}
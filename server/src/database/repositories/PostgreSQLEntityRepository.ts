@@ -0,0 +1,61 @@
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { EntityDescriptor, EntityListOptions } from '../entities/types'
+import { PostgreSQLTable } from '../postgres/PostgreSQLTable'
+import { FilterNode } from '../filters/FilterAst'
+
+/**
+ * PostgreSQL Entity Repository
+ *
+ * IEntityRepository over one PostgreSQL table. Filtering, search, sorting and counts
+ * run in SQL (see PostgreSQLTable); createMany and updateMany use one transaction.
+ */
+export class PostgreSQLEntityRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>
+  implements IEntityRepository<T, CreateDto, UpdateDto> {
+  readonly descriptor: EntityDescriptor
+  private table: PostgreSQLTable
+
+  constructor(descriptor: EntityDescriptor) {
+    this.descriptor = descriptor
+    this.table = new PostgreSQLTable(descriptor)
+    console.log(`🗄️  PostgreSQL repository initialized: ${descriptor.table}`)
+  }
+
+  async list(options?: EntityListOptions): Promise<{ records: T[]; total: number }> {
+    const result = await this.table.list(options)
+    return { records: result.records as T[], total: result.total }
+  }
+
+  async get(id: string): Promise<T | null> {
+    return (await this.table.findById(id)) as T | null
+  }
+
+  async create(dto: CreateDto): Promise<T> {
+    const id = await this.table.insert(dto as Record<string, any>)
+    return (await this.table.findById(id)) as T
+  }
+
+  async update(id: string, dto: UpdateDto): Promise<T | null> {
+    const updated = await this.table.update(id, dto as Record<string, any>)
+    return updated ? ((await this.table.findById(id)) as T) : null
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.table.remove(id)
+  }
+
+  async distinct(field: string, limit: number = 1000): Promise<string[]> {
+    return this.table.distinct(field, limit)
+  }
+
+  async count(filters?: Record<string, any>, search?: string, filter?: FilterNode): Promise<number> {
+    return this.table.count(filters, search, filter)
+  }
+
+  async createMany(dtos: CreateDto[]): Promise<string[]> {
+    return this.table.insertMany(dtos as Record<string, any>[])
+  }
+
+  async updateMany(updates: Array<{ id: string; fields: UpdateDto }>): Promise<void> {
+    await this.table.updateMany(updates as Array<{ id: string; fields: Record<string, any> }>)
+  }
+}
@@ -0,0 +1,80 @@
+import { TenantScopedEntityRepository } from './TenantScopedEntityRepository'
+import { InMemoryEntityRepository, InMemoryEntityStore } from './InMemoryEntityRepository'
+import { TenantScopedDatabase } from '../adapters/TenantScopedDatabase'
+import { MockAdapter } from '../adapters/MockAdapter'
+import { ENTITY_DESCRIPTORS } from '../entities/descriptors'
+import { EntityQueryError } from '../entities/types'
+import { runInTenantScope, withAllOrganizations } from '../../auth/TenantContext'
+import { TenantScope } from '../../types/Organization'
+
+const ORG_A: TenantScope = { organizationId: 'recOrgA', allOrganizations: false }
+const ORG_B: TenantScope = { organizationId: 'recOrgB', allOrganizations: false }
+
+describe('TenantScopedEntityRepository', () => {
+  const store = new InMemoryEntityStore()
+  const rows = new TenantScopedEntityRepository<Record<string, any>>(new InMemoryEntityRepository(ENTITY_DESCRIPTORS.activity_data, store))
+
+  beforeEach(() => {
+    store.clear()
+  })
+
+  it('only reads and writes the records of the organization in scope', async () => {
+    const ours = await runInTenantScope(ORG_A, () => rows.create({ Name: 'Diesel', 'Organization ID': 'recOrgB' }))
+    const theirs = await runInTenantScope(ORG_B, () => rows.create({ Name: 'Petrol' }))
+    expect(ours['Organization ID']).toBe('recOrgA')
+
+    await runInTenantScope(ORG_A, async () => {
+      expect((await rows.list()).records.map(row => row.Name)).toEqual(['Diesel'])
+      expect(await rows.count()).toBe(1)
+      expect(await rows.distinct('Name')).toEqual(['Diesel'])
+      expect(await rows.get(theirs.id)).toBeNull()
+      expect(await rows.update(theirs.id, { Name: 'Moved' })).toBeNull()
+      expect(await rows.delete(theirs.id)).toBe(false)
+      expect((await rows.update(ours.id, { 'Organization ID': 'recOrgB' }))?.['Organization ID']).toBe('recOrgA')
+    })
+
+    // Outside a request no organization's records are visible
+    expect((await rows.list()).total).toBe(0)
+    expect(await withAllOrganizations(() => rows.count())).toBe(2)
+  })
+
+  it('writes nothing of a batch with a record of another organization', async () => {
+    const ours = await runInTenantScope(ORG_A, () => rows.create({ Name: 'Diesel' }))
+    const theirs = await runInTenantScope(ORG_B, () => rows.create({ Name: 'Petrol' }))
+
+    await runInTenantScope(ORG_A, async () => {
+      await expect(rows.updateMany([
+        { id: ours.id, fields: { Notes: 'checked' } },
+        { id: theirs.id, fields: { Notes: 'checked' } },
+      ])).rejects.toThrow(EntityQueryError)
+      expect((await rows.get(ours.id))?.Notes).toBeUndefined()
+    })
+  })
+})
+
+describe('TenantScopedDatabase', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('limits companies and the repositories of tenant tables to the organization in scope', async () => {
+    const database = new TenantScopedDatabase(new MockAdapter())
+    const company = await runInTenantScope(ORG_A, () =>
+      database.createCompany({ isinCode: 'GB0001', companyName: 'Acme', status: 'Active' }, 'recUserAda'))
+    expect(company.organizationId).toBe('recOrgA')
+
+    await runInTenantScope(ORG_A, async () => {
+      expect((await database.findAllCompanies()).map(found => found.id)).toEqual([company.id])
+      expect(await database.countCompanies()).toBe(1)
+    })
+    expect(await runInTenantScope(ORG_B, () => database.companyExists(company.id))).toBe(false)
+    expect(await runInTenantScope(ORG_B, () => database.deleteCompany(company.id))).toBe(false)
+
+    expect(database.getRepository(ENTITY_DESCRIPTORS.activity_data)).toBeInstanceOf(TenantScopedEntityRepository)
+    expect(database.getRepository(ENTITY_DESCRIPTORS.units)).not.toBeInstanceOf(TenantScopedEntityRepository)
+  })
+})
@@ -0,0 +1,95 @@
+import { IEntityRepository } from '../interfaces/IEntityRepository'
+import { EntityDescriptor, EntityListOptions, EntityQueryError } from '../entities/types'
+import { distinctEntityValues } from '../entities/query'
+import { FilterNode, allOf } from '../filters/FilterAst'
+import { getTenantScope, isInTenantScope, stampTenant, tenantFilter } from '../../auth/TenantContext'
+
+/**
+ * Tenant Scoped Entity Repository
+ *
+ * Limits a repository of a tenant table (descriptor with a tenantField) to the records
+ * of the organization in scope (auth/TenantContext): reads get the tenant filter, records
+ * of other organizations are not found, and writes get the organization stamped.
+ * TenantScopedDatabase wraps every repository of a tenant table in one, so repositories
+ * and services need no tenant code of their own.
+ */
+export class TenantScopedEntityRepository<T = Record<string, any>, CreateDto = Partial<T>, UpdateDto = Partial<CreateDto>>
+  implements IEntityRepository<T, CreateDto, UpdateDto> {
+  readonly descriptor: EntityDescriptor
+  private readonly field: string
+
+  constructor(private readonly repository: IEntityRepository<T, CreateDto, UpdateDto>) {
+    this.descriptor = repository.descriptor
+    this.field = repository.descriptor.tenantField!
+  }
+
+  async list(options: EntityListOptions = {}): Promise<{ records: T[]; total: number }> {
+    return this.repository.list({ ...options, filter: allOf(options.filter, tenantFilter(this.field)) })
+  }
+
+  async get(id: string): Promise<T | null> {
+    const record = await this.repository.get(id)
+    return record && isInTenantScope(record as Record<string, any>, this.field) ? record : null
+  }
+
+  async create(dto: CreateDto): Promise<T> {
+    return this.repository.create(this.stamp(dto, true))
+  }
+
+  async update(id: string, dto: UpdateDto): Promise<T | null> {
+    if (!(await this.get(id))) {
+      return null
+    }
+    return this.repository.update(id, this.stamp(dto, false))
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!(await this.get(id))) {
+      return false
+    }
+    return this.repository.delete(id)
+  }
+
+  async distinct(field: string, limit?: number): Promise<string[]> {
+    if (getTenantScope().allOrganizations) {
+      return this.repository.distinct(field, limit)
+    }
+    // Values of the records in scope only
+    const { records } = await this.list()
+    return distinctEntityValues(this.descriptor, records as Record<string, any>[], field, limit)
+  }
+
+  async count(filters?: Record<string, any>, search?: string, filter?: FilterNode): Promise<number> {
+    return this.repository.count(filters, search, allOf(filter, tenantFilter(this.field)))
+  }
+
+  async createMany(dtos: CreateDto[]): Promise<string[]> {
+    return this.repository.createMany(dtos.map(dto => this.stamp(dto, true)))
+  }
+
+  /**
+   * Update many records - nothing is written when any of them is not in scope
+   */
+  async updateMany(updates: Array<{ id: string; fields: UpdateDto }>): Promise<void> {
+    if (!getTenantScope().allOrganizations) {
+      const found = await Promise.all(updates.map(({ id }) => this.get(id)))
+      const missing = updates.filter((_update, index) => !found[index]).map(({ id }) => id)
+      if (missing.length > 0) {
+        throw new EntityQueryError(`${this.descriptor.label} not found: ${missing.join(', ')}`)
+      }
+    }
+    return this.repository.updateMany(updates.map(({ id, fields }) => ({ id, fields: this.stamp(fields, false) })))
+  }
+
+  private stamp<D>(dto: D, creating: boolean): D {
+    return stampTenant(dto as Record<string, any>, this.field, creating) as D
+  }
+}
+
+/**
+ * The repository, limited to the organization in scope when its table is a tenant table
+ */
+export const tenantScoped = <T, CreateDto, UpdateDto>(
+  repository: IEntityRepository<T, CreateDto, UpdateDto>
+): IEntityRepository<T, CreateDto, UpdateDto> =>
+  repository.descriptor.tenantField ? new TenantScopedEntityRepository(repository) : repository
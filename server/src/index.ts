@@ -1,38 +1,10 @@
 import express, { Express, Request, Response } from 'express'
 import cors from 'cors'
 import dotenv from 'dotenv'
-import companyRoutes from './routes/companyRoutes'
-import geographyRoutes from './routes/geographyRoutes'
-import userRoutes from './routes/userRoutes'
-import efGwpRoutes from './routes/efGwpRoutes'
-import ghgTypeRoutes from './routes/ghgTypeRoutes'
-import tableSchemaRoutes from './routes/tableSchemaRoutes'
-import tableConfigurationRoutes from './routes/tableConfigurationRoutes'
-import emissionFactorVersionRoutes from './routes/emissionFactorVersionRoutes'
-import preferencesRoutes from './routes/preferencesRoutes'
-import applicationListRoutes from './routes/applicationListRoutes'
-import userTableRoutes from './routes/userTableRoutes'
-import userRolesRoutes from './routes/userRolesRoutes'
-import industryClassificationRoutes from './routes/industryClassificationRoutes'
-import integrationMarketplaceRoutes from './routes/integrationMarketplace'
-import aiRoutes from './routes/aiRoutes'
-import aiModelRegistryRoutes from './routes/aiModelRegistry'
-import standardEmissionFactorRoutes from './routes/standardEmissionFactorRoutes'
-import normalizedActivityRoutes from './routes/normalizedActivityRoutes'
-import efDetailedGRoutes from './routes/efDetailedGRoutes'
-import scopeRoutes from './routes/scopeRoutes'
-import scopeCategorisationRoutes from './routes/scopeCategorisationRoutes'
-import unitRoutes from './routes/unitRoutes'
-import unitConversionRoutes from './routes/unitConversionRoutes'
-import standardECMCatalogRoutes from './routes/standardECMCatalogRoutes'
-import standardECMClassificationRoutes from './routes/standardECMClassificationRoutes'
-import aiAgentProfileRoutes from './routes/aiAgentProfileRoutes'
-import userPreferenceRoutes from './routes/userPreferenceRoutes'
-import thermalCriteriaRoutes from './routes/thermalCriteriaRoutes'
-import geoCodeRoutes from './routes/geoCodeRoutes'
-import divisionsRoutes from './routes/divisionsRoutes'
-import developerRoutes from './routes/developerRoutes'
-import mcpRoutes from './routes/mcpRoutes'
+import { mountApiRoutes } from './routes/apiRoutes'
+import { createOpenApiRoutes } from './routes/openApiRoutes'
+import { authenticate, scopeToTenant } from './auth/authMiddleware'
+import { getRecordCountService } from './database/counts/RecordCountService'
 
 // Load environment variables FIRST, before any other imports
 // Use explicit path to ensure .env is loaded from server directory
@@ -98,7 +70,9 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-User-Id', 'Accept-Language', 'X-Timezone'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Accept-Language', 'X-Timezone'],
+  // Read by the frontend for export downloads
+  exposedHeaders: ['Content-Disposition', 'X-Export-Skipped-Columns'],
 }))
 app.use(express.json())
 app.use(express.urlencoded({ extended: true }))
@@ -113,6 +87,10 @@ app.use((req, res, next) => {
   next()
 })
 
+// Signed-in user of the request's session token (req.user), and their organization (req.tenant)
+app.use(authenticate)
+app.use(scopeToTenant)
+
 // Root endpoint - redirect to health check
 app.get('/', (req: Request, res: Response) => {
   res.json({
@@ -123,8 +101,11 @@ app.get('/', (req: Request, res: Response) => {
     endpoints: {
       health: '/health',
       status: '/api/status',
+      auth: '/api/auth',
       companies: '/api/companies',
       users: '/api/users',
+      openapi: '/api/openapi.json',
+      docs: '/api/docs',
     },
     note: 'This is the backend API. Access the frontend on port 3000.',
   })
@@ -143,6 +124,9 @@ app.get('/health', (req: Request, res: Response) => {
 app.get('/api/status', async (req: Request, res: Response) => {
   const { companyRepository } = await import('./data/CompanyRepository')
   const { DatabaseFactory } = await import('./database/DatabaseFactory')
+  const { getAirtableRequestMetrics } = await import('./database/airtable/AirtableClient')
+  const { getResponseCache } = await import('./database/cache/ResponseCache')
+  const { getAuditLog } = await import('./database/audit/AuditLog')
   
   const database = DatabaseFactory.getDatabase()
   const isHealthy = await companyRepository.healthCheck()
@@ -158,51 +142,29 @@ app.get('/api/status', async (req: Request, res: Response) => {
       configured: !!(process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN || process.env.AIRTABLE_API_KEY),
       baseId: process.env.AIRTABLE_SYSTEM_CONFIG_BASE_ID || 'Not set',
       tableId: process.env.AIRTABLE_COMPANY_TABLE_ID || 'Not set',
+      requestQueues: getAirtableRequestMetrics(),
     },
     postgresql: {
-      configured: !!(
+      configured: !!process.env.DATABASE_URL || !!(
         process.env.DB_HOST &&
         process.env.DB_NAME &&
         process.env.DB_USER
       ),
     },
+    cache: await getResponseCache().getStats(),
+    recordCounts: getRecordCountService().getStats(),
+    audit: getAuditLog().getStats(),
     timestamp: new Date().toISOString(),
   })
 })
 
-// API Routes
-app.use('/api/companies', companyRoutes)
-app.use('/api/geography', geographyRoutes)
-app.use('/api/user', userRoutes)
-app.use('/api/emission-factors', efGwpRoutes)
-app.use('/api/ghg-types', ghgTypeRoutes)
-app.use('/api/preferences', preferencesRoutes)
-app.use('/api/tables', tableSchemaRoutes)
-app.use('/api/configurations', tableConfigurationRoutes)
-app.use('/api/emission-factor-version', emissionFactorVersionRoutes)
-app.use('/api/application-list', applicationListRoutes)
-app.use('/api/user-roles', userRolesRoutes)
-app.use('/api/industry-classification', industryClassificationRoutes)
-app.use('/api/users', userTableRoutes)
-app.use('/api/integration-marketplace', integrationMarketplaceRoutes)
-app.use('/api/ai', aiRoutes)
-app.use('/api/ai-model-registry', aiModelRegistryRoutes)
-app.use('/api/standard-emission-factors', standardEmissionFactorRoutes)
-app.use('/api/normalized-activities', normalizedActivityRoutes)
-app.use('/api/ef-detailed-g', efDetailedGRoutes)
-app.use('/api/scope', scopeRoutes)
-app.use('/api/scope-categorisation', scopeCategorisationRoutes)
-app.use('/api/unit', unitRoutes)
-app.use('/api/unit-conversion', unitConversionRoutes)
-app.use('/api/standard-ecm-catalog', standardECMCatalogRoutes)
-app.use('/api/standard-ecm-classification', standardECMClassificationRoutes)
-app.use('/api/ai-agent-profile', aiAgentProfileRoutes)
-app.use('/api/user-preference', userPreferenceRoutes)
-app.use('/api/thermal-criteria', thermalCriteriaRoutes)
-app.use('/api/geo-code', geoCodeRoutes)
-app.use('/api/divisions', divisionsRoutes)
-app.use('/api/developer', developerRoutes)
-app.use('/api/mcp', mcpRoutes)
+// OpenAPI document of the routes below, and its docs page
+app.use('/api', createOpenApiRoutes())
+
+// API Routes (routes/apiRoutes)
+// Entity routers are behind requirePermission (the user's roles must grant the action);
+// routers of the user's own data only need a signed-in user
+mountApiRoutes(app)
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -234,5 +196,9 @@ app.listen(PORT, () => {
   console.log(`🚀 API Server running on http://localhost:${PORT}`)
   console.log(`📋 Health check: http://localhost:${PORT}/health`)
   console.log(`📊 Companies API: http://localhost:${PORT}/api/companies`)
+  console.log(`📖 API docs: http://localhost:${PORT}/api/docs`)
+
+  // Recount the tracked record counts periodically, correcting drift
+  getRecordCountService().startReconciliation()
 })
 
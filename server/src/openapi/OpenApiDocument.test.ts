@@ -0,0 +1,47 @@
+import { NextFunction, Request, Response, Router } from 'express'
+import { buildOpenApiDocument } from './OpenApiDocument'
+
+const ok = (_req: Request, res: Response) => {
+  res.json({ success: true })
+}
+function requireAuth(_req: Request, _res: Response, next: NextFunction) {
+  next()
+}
+function multerMiddleware(_req: Request, _res: Response, next: NextFunction) {
+  next()
+}
+
+const unitRouter = Router()
+unitRouter.get('/', ok)
+unitRouter.route('/:id').get(ok).patch(ok)
+unitRouter.post('/:id/promote', ok)
+unitRouter.get(/^\/legacy\/.*/, ok)
+
+const authRouter = Router()
+authRouter.get('/me', requireAuth, ok)
+authRouter.post('/upload', multerMiddleware, ok)
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument([
+    { path: '/api/unit', router: unitRouter, access: 'permission', entity: 'unit' },
+    { path: '/api/auth', router: authRouter, access: 'public', tag: 'Authentication' },
+  ], 'http://api.test')
+
+  it('documents the routes and methods of each router, except those on a regular expression', () => {
+    expect(Object.keys(document.paths)).toEqual([
+      '/api/unit', '/api/unit/{id}', '/api/unit/{id}/promote', '/api/auth/me', '/api/auth/upload',
+    ])
+    expect(Object.keys(document.paths['/api/unit/{id}'])).toEqual(['get', 'patch'])
+    expect(document.paths['/api/unit/{id}'].patch.operationId).toBe('updateUnit')
+    expect(document.paths['/api/unit/{id}/promote'].post.operationId).toBe('postUnitByIdPromote')
+  })
+
+  it('describes entity bodies from their descriptor and guards from the route handlers', () => {
+    expect(document.paths['/api/unit/{id}'].patch.requestBody.content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/UnitUpdateInput' })
+    expect(document.components.schemas.UnitCreateInput).toBeDefined()
+    expect(document.paths['/api/auth/me'].get.responses['401']).toBeDefined()
+    expect(document.paths['/api/auth/upload'].post.security).toEqual([{}, { bearerAuth: [] }])
+    expect(Object.keys(document.paths['/api/auth/upload'].post.requestBody.content)).toEqual(['multipart/form-data'])
+  })
+})
@@ -0,0 +1,466 @@
+import { IRoute, Router } from 'express'
+import { ApiRoute } from '../routes/apiRoutes'
+import { findEntityDescriptor } from '../database/entities/descriptors'
+import { EntityDescriptor, EntityField } from '../database/entities/types'
+import { getEntityFieldRules } from '../validation/validateRequest'
+import { FieldRule } from '../validation/fieldRules'
+import { ORGANIZATION_HEADER } from '../auth/TenantContext'
+
+/**
+ * OpenAPI Document
+ *
+ * OpenAPI 3 description of the API, generated from the route registry (routes/apiRoutes):
+ * the paths and methods come from the routes of each router, and the schemas of entity
+ * routers from their entity descriptors - the record fields, and the request bodies that
+ * validation/validateRequest accepts. Every response uses the API's envelopes
+ * ({ success, data, pagination } and { success: false, error, message }).
+ *
+ * Operation IDs are stable (listUnit, getUnit, createUnit, ...), so typed clients can be
+ * generated from the document.
+ */
+
+type Schema = Record<string, any>
+
+export interface OpenApiDocument {
+  openapi: string
+  info: Record<string, any>
+  servers: Array<{ url: string }>
+  tags: Array<{ name: string; description?: string }>
+  paths: Record<string, Record<string, any>>
+  components: Record<string, any>
+  security: Array<Record<string, string[]>>
+}
+
+interface RouteLayer {
+  path: string
+  methods: string[]
+  /** Names of the route's middleware and handlers (requireAuth, multerMiddleware, ...) */
+  handlers: string[]
+}
+
+const API_VERSION = '1.0.0'
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` })
+
+const toPascal = (value: string): string =>
+  value.split(/[^A-Za-z0-9]+/).filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join('')
+
+const toTitle = (value: string): string =>
+  value.split('-').filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ')
+
+/**
+ * The methods a route handles ({ get: true, post: true }) - set by Express on each route
+ * of Router.stack, though @types/express leaves them out of IRoute
+ */
+interface RouteMethods {
+  methods: Record<string, boolean | undefined>
+}
+
+/**
+ * Routes of an Express router - string paths only
+ */
+const routeLayers = (router: Router): RouteLayer[] =>
+  router.stack.flatMap(layer => {
+    const route = layer.route as (IRoute & RouteMethods) | undefined
+    // Routes on a regular expression have no OpenAPI path
+    if (!route || typeof (route.path as unknown) !== 'string') return []
+    return [{
+      path: route.path,
+      methods: Object.keys(route.methods).filter(method => route.methods[method] && method !== '_all'),
+      handlers: route.stack.map(handler => handler.name),
+    }]
+  })
+
+/** Express path (/:id/promote) -> OpenAPI path (/{id}/promote) */
+const toOpenApiPath = (mount: string, path: string): string =>
+  `${mount}${path === '/' ? '' : path}`.replace(/:(\w+)\??/g, '{$1}') || '/'
+
+const pathParams = (path: string): string[] => [...path.matchAll(/\{(\w+)\}/g)].map(match => match[1])
+
+// Schemas
+
+const SHARED_SCHEMAS: Record<string, Schema> = {
+  Pagination: {
+    type: 'object',
+    properties: {
+      total: { type: 'integer' },
+      page: { type: 'integer' },
+      limit: { type: 'integer' },
+      offset: { type: 'integer' },
+      hasMore: { type: 'boolean' },
+    },
+  },
+  ErrorResponse: {
+    type: 'object',
+    required: ['success', 'error'],
+    properties: {
+      success: { type: 'boolean', enum: [false] },
+      error: { type: 'string' },
+      message: { type: 'string' },
+    },
+  },
+  FieldProblem: {
+    type: 'object',
+    required: ['field', 'code', 'message'],
+    properties: {
+      field: { type: 'string' },
+      code: { type: 'string', enum: ['required', 'type', 'option', 'readOnly', 'unknown'] },
+      message: { type: 'string' },
+    },
+  },
+  ValidationErrorResponse: {
+    type: 'object',
+    required: ['success', 'error', 'errors'],
+    properties: {
+      success: { type: 'boolean', enum: [false] },
+      error: { type: 'string', enum: ['Validation failed'] },
+      message: { type: 'string', description: 'Every problem on one line' },
+      errors: { type: 'array', items: ref('FieldProblem') },
+    },
+  },
+  SuccessResponse: {
+    type: 'object',
+    required: ['success'],
+    properties: {
+      success: { type: 'boolean', enum: [true] },
+      data: {},
+      message: { type: 'string' },
+    },
+  },
+}
+
+const VALUE_SCHEMAS: Record<FieldRule['type'], Schema> = {
+  text: { type: 'string' },
+  number: { type: 'number' },
+  integer: { type: 'integer' },
+  boolean: { type: 'boolean' },
+  date: { type: 'string', format: 'date' },
+  timestamp: { type: 'string', format: 'date-time' },
+  textArray: { type: 'array', items: { type: 'string' } },
+  links: { type: 'array', items: { type: 'string' }, description: 'Linked record IDs' },
+  json: {},
+}
+
+/**
+ * Schema of a record field as the API returns it
+ */
+const fieldSchema = (column: EntityField): Schema => {
+  switch (column.type) {
+    case 'links':
+      return { ...VALUE_SCHEMAS.links, description: `IDs of linked ${column.linkTable} records` }
+    case 'reverse':
+      return { type: 'array', items: { type: 'string' }, readOnly: true, description: `IDs of ${column.linkTable} records linking here` }
+    case 'lookup':
+      return { readOnly: true, description: `${column.lookupColumn} of the records linked in ${column.via}` }
+    default:
+      return column.readOnly ? { ...VALUE_SCHEMAS[column.type], readOnly: true } : { ...VALUE_SCHEMAS[column.type] }
+  }
+}
+
+/**
+ * Record schema of an entity: its columns and the fields the API computes
+ */
+const recordSchema = (descriptor: EntityDescriptor): Schema => {
+  const properties: Record<string, Schema> = { id: { type: 'string', readOnly: true } }
+  for (const column of descriptor.columns) {
+    properties[column.field] = fieldSchema(column)
+    if (column.nameField) {
+      properties[column.nameField] = { type: 'array', items: { type: 'string' }, readOnly: true, description: `Names of the records in ${column.field}` }
+    }
+    if (column.countField) {
+      properties[column.countField] = { type: 'integer', readOnly: true }
+    }
+  }
+  for (const field of [...(descriptor.createdFields || ['createdAt']), ...(descriptor.updatedFields || ['updatedAt'])]) {
+    properties[field] = { type: 'string', readOnly: true }
+  }
+  return { type: 'object', properties, additionalProperties: !!descriptor.extraFields }
+}
+
+/**
+ * Request body schema of an entity - the fields validateCreate / validateUpdate accept
+ */
+const inputSchema = (descriptor: EntityDescriptor, partial: boolean): Schema => {
+  const rules = getEntityFieldRules(descriptor).filter(rule => !rule.readOnly)
+  const properties: Record<string, Schema> = {}
+  for (const rule of rules) {
+    const schema = { ...VALUE_SCHEMAS[rule.type] }
+    if (rule.type === 'number' || rule.type === 'integer') {
+      schema.description = 'A string holding a number is accepted too'
+    }
+    properties[rule.field] = schema
+    for (const alias of rule.aliases || []) {
+      properties[alias] = { ...schema, deprecated: true, description: `Alias of ${rule.field}` }
+    }
+  }
+  const required = partial ? [] : rules.filter(rule => rule.required).map(rule => rule.field)
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: !!descriptor.extraFields,
+  }
+}
+
+const envelope = (data: Schema, paginated = false): Schema => ({
+  type: 'object',
+  required: ['success'],
+  properties: {
+    success: { type: 'boolean', enum: [true] },
+    data,
+    message: { type: 'string' },
+    ...(paginated ? { pagination: ref('Pagination') } : {}),
+  },
+})
+
+const json = (description: string, schema: Schema): Schema => ({
+  description,
+  content: { 'application/json': { schema } },
+})
+
+const ERROR_RESPONSES: Record<string, Schema> = {
+  BadRequest: json('Invalid request', ref('ErrorResponse')),
+  Unauthorized: json('No valid session token', ref('ErrorResponse')),
+  Forbidden: json('Not permitted (role permissions or organization)', ref('ErrorResponse')),
+  NotFound: json('No such record', ref('ErrorResponse')),
+  ValidationFailed: json('Invalid field values', ref('ValidationErrorResponse')),
+  ServerError: json('Unexpected error', ref('ErrorResponse')),
+}
+
+const errorRef = (name: string): Schema => ({ $ref: `#/components/responses/${name}` })
+
+const LIST_PARAMETERS: Schema[] = [
+  { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1 } },
+  { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1 } },
+  { name: 'paginated', in: 'query', schema: { type: 'boolean' }, description: 'Return one page with its pagination' },
+  { name: 'search', in: 'query', schema: { type: 'string' } },
+  { name: 'sortBy', in: 'query', schema: { type: 'string' } },
+  { name: 'sortOrder', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'] } },
+  {
+    name: 'filter',
+    in: 'query',
+    schema: { type: 'string' },
+    description: 'Filter tree as JSON, e.g. {"op":"eq","field":"Status","value":"Active"}',
+  },
+]
+
+// Operations
+
+interface OperationContext {
+  route: ApiRoute
+  descriptor: EntityDescriptor | null
+  schemaName: string
+  tag: string
+}
+
+/**
+ * Kind of a route, from its method and path relative to the router
+ */
+const operationKind = (method: string, path: string): 'list' | 'get' | 'create' | 'update' | 'delete' | 'values' | 'other' => {
+  if (path === '/' && method === 'get') return 'list'
+  if (path === '/' && method === 'post') return 'create'
+  if (path === '/:id' && method === 'get') return 'get'
+  if (path === '/:id' && (method === 'put' || method === 'patch')) return 'update'
+  if (path === '/:id' && method === 'delete') return 'delete'
+  if (path === '/filters/values' && method === 'get') return 'values'
+  return 'other'
+}
+
+const SUMMARIES: Record<string, string> = {
+  list: 'List records',
+  get: 'Get a record',
+  create: 'Create a record',
+  update: 'Update a record',
+  delete: 'Delete a record',
+  values: 'Distinct values of a field',
+}
+
+/**
+ * Summary of a route outside the CRUD set, from its path: GET /me -> "Get me",
+ * POST /:id/promote -> "Promote"
+ */
+const otherSummary = (method: string, path: string): string => {
+  const words = path.split('/').filter(segment => segment && !segment.startsWith(':')).join(' ').replace(/-/g, ' ')
+  if (!words) {
+    return `${method.toUpperCase()} ${path}`
+  }
+  if (method === 'post') {
+    return words[0].toUpperCase() + words.slice(1)
+  }
+  const verb = { get: 'Get', put: 'Replace', patch: 'Update', delete: 'Delete' }[method] || method.toUpperCase()
+  return `${verb} ${words}`
+}
+
+const operationIdBase = (kind: string, method: string, path: string, schemaName: string): string => {
+  if (kind !== 'other') {
+    return kind === 'values' ? `get${schemaName}FilterValues` : `${kind}${schemaName}`
+  }
+  const words = path.split('/').filter(Boolean).map(segment => (segment.startsWith(':') ? `By${toPascal(segment.slice(1))}` : toPascal(segment)))
+  return `${method}${schemaName}${words.join('')}`
+}
+
+const buildOperation = (
+  context: OperationContext,
+  layer: RouteLayer,
+  method: string,
+  openApiPath: string
+): Schema => {
+  const { route, descriptor, schemaName, tag } = context
+  const kind = operationKind(method, layer.path)
+  const operation: Schema = {
+    tags: [tag],
+    summary: SUMMARIES[kind] || otherSummary(method, layer.path),
+    parameters: pathParams(openApiPath).map(name => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+    responses: {} as Record<string, Schema>,
+  }
+
+  if (kind === 'list') {
+    operation.parameters.push(...LIST_PARAMETERS)
+  }
+  if (kind === 'values') {
+    operation.parameters.push(
+      { name: 'field', in: 'query', required: true, schema: { type: 'string' } },
+      { name: 'limit', in: 'query', schema: { type: 'integer' } }
+    )
+  }
+
+  // Request body
+  if (descriptor && (kind === 'create' || kind === 'update')) {
+    operation.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: ref(kind === 'create' ? `${schemaName}CreateInput` : `${schemaName}UpdateInput`) } },
+    }
+  } else if (layer.handlers.includes('multerMiddleware')) {
+    operation.requestBody = {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } },
+        },
+      },
+    }
+  } else if (method === 'post' || method === 'put' || method === 'patch') {
+    operation.requestBody = { content: { 'application/json': { schema: { type: 'object' } } } }
+  }
+
+  // Responses
+  const record = descriptor ? ref(schemaName) : {}
+  switch (kind) {
+    case 'list':
+      operation.responses['200'] = json('Records', envelope({ type: 'array', items: record }, true))
+      operation.responses['400'] = errorRef('BadRequest')
+      break
+    case 'get':
+      operation.responses['200'] = json('The record', envelope(record))
+      operation.responses['404'] = errorRef('NotFound')
+      break
+    case 'create':
+      operation.responses['201'] = json('The created record', envelope(record))
+      if (descriptor) operation.responses['422'] = errorRef('ValidationFailed')
+      break
+    case 'update':
+      operation.responses['200'] = json('The updated record', envelope(record))
+      operation.responses['404'] = errorRef('NotFound')
+      if (descriptor) operation.responses['422'] = errorRef('ValidationFailed')
+      break
+    case 'delete':
+      operation.responses['200'] = json('Deleted', ref('SuccessResponse'))
+      operation.responses['404'] = errorRef('NotFound')
+      break
+    case 'values':
+      operation.responses['200'] = json('Distinct values', envelope({ type: 'array', items: { type: 'string' } }))
+      break
+    default:
+      operation.responses['200'] = json('Success', ref('SuccessResponse'))
+  }
+
+  // Access
+  const secured = route.access !== 'public' || layer.handlers.includes('requireAuth')
+  if (secured) {
+    operation.responses['401'] = errorRef('Unauthorized')
+    if (route.access === 'permission' || layer.handlers.includes('requireOwnUser')) {
+      operation.responses['403'] = errorRef('Forbidden')
+    }
+  } else {
+    operation.security = [{}, { bearerAuth: [] }]
+  }
+  operation.responses['500'] = errorRef('ServerError')
+  if (route.access === 'permission') {
+    operation.parameters.push({ $ref: '#/components/parameters/OrganizationId' })
+  }
+  return operation
+}
+
+/**
+ * OpenAPI document of the routes of the registry
+ *
+ * @param serverUrl - base URL of the API the document points clients at
+ */
+export function buildOpenApiDocument(routes: ApiRoute[], serverUrl: string = ''): OpenApiDocument {
+  const paths: Record<string, Record<string, any>> = {}
+  const schemas: Record<string, Schema> = { ...SHARED_SCHEMAS }
+  const tags = new Map<string, string | undefined>()
+  const operationIds = new Set<string>()
+
+  for (const route of routes) {
+    const descriptor = route.entity ? findEntityDescriptor(route.entity) : null
+    const segment = route.entity || route.path.split('/').filter(Boolean).pop() || 'api'
+    const schemaName = toPascal(segment)
+    const tag = route.tag || descriptor?.label || toTitle(segment)
+    tags.set(tag, tags.get(tag) || (descriptor ? `${descriptor.label} records` : undefined))
+
+    if (descriptor) {
+      schemas[schemaName] = recordSchema(descriptor)
+      schemas[`${schemaName}CreateInput`] = inputSchema(descriptor, false)
+      schemas[`${schemaName}UpdateInput`] = inputSchema(descriptor, true)
+    }
+
+    for (const layer of routeLayers(route.router)) {
+      const openApiPath = toOpenApiPath(route.path, layer.path)
+      for (const method of layer.methods) {
+        // First router wins, as in Express
+        if (paths[openApiPath]?.[method]) continue
+
+        const operation = buildOperation({ route, descriptor, schemaName, tag }, layer, method, openApiPath)
+        const kind = operationKind(method, layer.path)
+        const base = operationIdBase(kind, method, layer.path, route.entity ? schemaName : toPascal(route.tag || segment))
+        let operationId = base
+        for (let n = 2; operationIds.has(operationId); n++) {
+          operationId = `${base}${n}`
+        }
+        operationIds.add(operationId)
+
+        paths[openApiPath] = { ...paths[openApiPath], [method]: { operationId, ...operation } }
+      }
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Another RA API',
+      version: API_VERSION,
+      description: 'Generated from the API route registry. Sign in with POST /api/auth/login and send the token as a bearer token.',
+    },
+    servers: [{ url: serverUrl || '/' }],
+    tags: [...tags.entries()].map(([name, description]) => (description ? { name, description } : { name })),
+    paths,
+    components: {
+      schemas,
+      responses: ERROR_RESPONSES,
+      parameters: {
+        OrganizationId: {
+          name: ORGANIZATION_HEADER,
+          in: 'header',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Organization to work on, among those of the signed-in user (default: their first)',
+        },
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+    security: [{ bearerAuth: [] }],
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * API Docs Page
+ *
+ * Self-contained HTML page browsing the OpenAPI document served at specUrl - no CDN or
+ * bundle, so it works offline and behind the API's own origin. Operations are grouped by
+ * tag; each one lists its parameters and body schema, and can be tried with the session
+ * token pasted at the top (kept in localStorage, like the frontend's token).
+ */
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0; color: #1f2937; background: #f9fafb; }
+  header { position: sticky; top: 0; background: #fff; border-bottom: 1px solid #e5e7eb; padding: 12px 24px; display: flex; gap: 12px; align-items: center; flex-wrap: wrap; }
+  header h1 { font-size: 18px; margin: 0 16px 0 0; }
+  header input { padding: 6px 8px; border: 1px solid #d1d5db; border-radius: 4px; font-size: 13px; }
+  main { padding: 16px 24px; max-width: 1100px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  details.op { background: #fff; border: 1px solid #e5e7eb; border-radius: 6px; margin: 6px 0; }
+  details.op > summary { cursor: pointer; padding: 8px 12px; display: flex; gap: 12px; align-items: center; font-size: 14px; }
+  .method { font-weight: 600; font-size: 12px; text-transform: uppercase; width: 56px; text-align: center; border-radius: 4px; padding: 2px 0; color: #fff; }
+  .get { background: #2563eb; } .post { background: #16a34a; } .put, .patch { background: #d97706; } .delete { background: #dc2626; }
+  .path { font-family: ui-monospace, monospace; }
+  .summary { color: #6b7280; }
+  .body { padding: 8px 12px 12px; border-top: 1px solid #f3f4f6; font-size: 13px; }
+  table { border-collapse: collapse; margin: 4px 0 8px; }
+  td, th { text-align: left; padding: 3px 12px 3px 0; vertical-align: top; }
+  pre { background: #111827; color: #e5e7eb; padding: 8px; border-radius: 4px; overflow: auto; max-height: 320px; font-size: 12px; }
+  textarea { width: 100%; min-height: 80px; font-family: ui-monospace, monospace; font-size: 12px; }
+  button { padding: 4px 12px; border: 1px solid #2563eb; background: #2563eb; color: #fff; border-radius: 4px; cursor: pointer; }
+`
+
+const SCRIPT = `
+  const specUrl = document.body.dataset.spec
+  const orgHeader = document.body.dataset.orgHeader
+  const tokenInput = document.getElementById('token')
+  const orgInput = document.getElementById('organization')
+  tokenInput.value = localStorage.getItem('authToken') || ''
+  tokenInput.addEventListener('change', () => localStorage.setItem('authToken', tokenInput.value.trim()))
+
+  const el = (tag, attrs, ...children) => {
+    const node = document.createElement(tag)
+    Object.entries(attrs || {}).forEach(([key, value]) => node.setAttribute(key, value))
+    children.forEach(child => node.append(child))
+    return node
+  }
+
+  const resolve = (spec, schema) => {
+    if (schema && schema.$ref) {
+      const path = schema.$ref.replace('#/', '').split('/')
+      return path.reduce((node, key) => node[key], spec)
+    }
+    return schema
+  }
+
+  const schemaName = schema => (schema && schema.$ref ? schema.$ref.split('/').pop() : '')
+
+  const example = (spec, schema) => {
+    const resolved = resolve(spec, schema) || {}
+    const record = {}
+    Object.entries(resolved.properties || {}).forEach(([field, property]) => {
+      if (property.deprecated || property.readOnly) return
+      if (resolved.required && !resolved.required.includes(field)) return
+      record[field] = property.type === 'array' ? [] : property.type === 'number' || property.type === 'integer' ? 0 : property.type === 'boolean' ? false : ''
+    })
+    return JSON.stringify(record, null, 2)
+  }
+
+  const renderOperation = (spec, path, method, operation) => {
+    const parameters = (operation.parameters || []).map(parameter => resolve(spec, parameter))
+    const content = operation.requestBody && operation.requestBody.content
+    const jsonBody = content && content['application/json']
+    const inputs = {}
+
+    const body = el('div', { class: 'body' })
+    if (parameters.length > 0) {
+      const table = el('table', {}, el('tr', {}, el('th', {}, 'Parameter'), el('th', {}, 'In'), el('th', {}, 'Value')))
+      parameters.forEach(parameter => {
+        const input = el('input', { placeholder: parameter.description || (parameter.schema && parameter.schema.type) || '' })
+        inputs[parameter.in + ':' + parameter.name] = input
+        table.append(el('tr', {}, el('td', {}, parameter.name + (parameter.required ? ' *' : '')), el('td', {}, parameter.in), el('td', {}, input)))
+      })
+      body.append(table)
+    }
+
+    let bodyInput = null
+    if (jsonBody) {
+      const name = schemaName(jsonBody.schema)
+      body.append(el('div', {}, 'Body' + (name ? ' (' + name + ')' : '')))
+      bodyInput = el('textarea', {})
+      bodyInput.value = example(spec, jsonBody.schema)
+      body.append(bodyInput)
+      if (name) {
+        const schema = el('details', {}, el('summary', {}, 'Schema'), el('pre', {}, JSON.stringify(resolve(spec, jsonBody.schema), null, 2)))
+        body.append(schema)
+      }
+    } else if (content) {
+      body.append(el('div', {}, 'Body: ' + Object.keys(content).join(', ') + ' (not sent from this page)'))
+    }
+
+    body.append(el('div', {}, 'Responses: ' + Object.keys(operation.responses || {}).join(', ')))
+    const output = el('pre', {}, '')
+    const button = el('button', { type: 'button' }, 'Try it')
+    button.addEventListener('click', async () => {
+      let url = path
+      const query = new URLSearchParams()
+      const headers = {}
+      parameters.forEach(parameter => {
+        const isOrg = parameter.in === 'header' && parameter.name === orgHeader
+        const value = inputs[parameter.in + ':' + parameter.name].value || (isOrg ? orgInput.value.trim() : '')
+        if (!value) return
+        if (parameter.in === 'path') url = url.replace('{' + parameter.name + '}', encodeURIComponent(value))
+        if (parameter.in === 'query') query.set(parameter.name, value)
+        if (parameter.in === 'header') headers[parameter.name] = value
+      })
+      if (tokenInput.value.trim()) headers.Authorization = 'Bearer ' + tokenInput.value.trim()
+      if (bodyInput) headers['Content-Type'] = 'application/json'
+      const search = query.toString()
+      output.textContent = '...'
+      try {
+        const response = await fetch(url + (search ? '?' + search : ''), { method: method.toUpperCase(), headers, body: bodyInput ? bodyInput.value : undefined })
+        const text = await response.text()
+        let shown = text
+        try { shown = JSON.stringify(JSON.parse(text), null, 2) } catch (error) {}
+        output.textContent = response.status + ' ' + response.statusText + '\\n' + shown
+      } catch (error) {
+        output.textContent = String(error)
+      }
+    })
+    body.append(el('div', {}, button), output)
+
+    return el('details', { class: 'op' },
+      el('summary', {}, el('span', { class: 'method ' + method }, method), el('span', { class: 'path' }, path), el('span', { class: 'summary' }, operation.summary || '')),
+      body)
+  }
+
+  fetch(specUrl).then(response => response.json()).then(spec => {
+    document.getElementById('title').textContent = spec.info.title + ' ' + spec.info.version
+    const main = document.querySelector('main')
+    const byTag = new Map((spec.tags || []).map(tag => [tag.name, []]))
+    Object.entries(spec.paths).forEach(([path, methods]) => {
+      Object.entries(methods).forEach(([method, operation]) => {
+        const tag = (operation.tags || ['Other'])[0]
+        if (!byTag.has(tag)) byTag.set(tag, [])
+        byTag.get(tag).push(renderOperation(spec, path, method, operation))
+      })
+    })
+    byTag.forEach((operations, tag) => {
+      if (operations.length === 0) return
+      main.append(el('h2', {}, tag), ...operations)
+    })
+  }).catch(error => {
+    document.querySelector('main').textContent = 'Could not load ' + specUrl + ': ' + error
+  })
+`
+
+/**
+ * HTML of the docs page
+ *
+ * @param specUrl - URL of the OpenAPI document, relative to the page or absolute
+ * @param orgHeader - organization header, filled in from the field at the top
+ */
+export function renderDocsPage(specUrl: string, orgHeader: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>API docs</title>
+<style>${STYLE}</style>
+</head>
+<body data-spec="${escapeAttribute(specUrl)}" data-org-header="${escapeAttribute(orgHeader)}">
+<header>
+  <h1 id="title">API docs</h1>
+  <input id="token" size="40" placeholder="Session token (POST /api/auth/login)">
+  <input id="organization" size="20" placeholder="Organization ID (optional)">
+  <a href="${escapeAttribute(specUrl)}">openapi.json</a>
+</header>
+<main></main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`
+}
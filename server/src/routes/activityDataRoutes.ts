@@ -0,0 +1,28 @@
+import { Router } from 'express'
+import { activityDataController } from '../controllers/ActivityDataController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
+
+const router = Router()
+
+// GET /api/activity-data - Get all or paginated Activity Data records
+router.get('/', (req, res) => activityDataController.getAll(req, res))
+
+// GET /api/activity-data/filters/values - Get distinct values for filter fields
+router.get('/filters/values', (req, res) => activityDataController.getFilterValues(req, res))
+
+// GET /api/activity-data/:id - Get a single Activity Data record by ID
+router.get('/:id', (req, res) => activityDataController.getById(req, res))
+
+// POST /api/activity-data - Create a new Activity Data record
+router.post('/', validateCreate('activity-data'), (req, res) => activityDataController.create(req, res))
+
+// POST /api/activity-data/:id/recalculate - Recompute the stored CO2e of a record
+router.post('/:id/recalculate', (req, res) => activityDataController.recalculate(req, res))
+
+// PUT /api/activity-data/:id - Update an existing Activity Data record
+router.put('/:id', validateUpdate('activity-data'), (req, res) => activityDataController.update(req, res))
+
+// DELETE /api/activity-data/:id - Delete an Activity Data record
+router.delete('/:id', (req, res) => activityDataController.delete(req, res))
+
+export default router
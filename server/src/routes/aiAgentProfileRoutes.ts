@@ -2,10 +2,12 @@
  * AI Agent Profile API Routes
  * 
  * REST API endpoints for managing user AI Agent Profiles
+ * Mounted behind requireAuth - :userId must be the signed-in user
  */
 
 import { Router, Request, Response } from 'express'
 import { AIAgentProfileService } from '../services/AIAgentProfileService'
+import { requireOwnUser } from '../auth/authMiddleware'
 
 const router = Router()
 
@@ -28,7 +30,7 @@ function getService(): AIAgentProfileService | null {
  * GET /api/ai-agent-profile/:userId
  * Get AI Agent Profile for a user
  */
-router.get('/:userId', async (req: Request, res: Response) => {
+router.get('/:userId', requireOwnUser, async (req: Request, res: Response) => {
   try {
     const service = getService()
     if (!service) {
@@ -66,7 +68,7 @@ router.get('/:userId', async (req: Request, res: Response) => {
  * POST /api/ai-agent-profile/:userId
  * Save AI Agent Profile for a user
  */
-router.post('/:userId', async (req: Request, res: Response) => {
+router.post('/:userId', requireOwnUser, async (req: Request, res: Response) => {
   try {
     const service = getService()
     if (!service) {
@@ -105,7 +107,7 @@ router.post('/:userId', async (req: Request, res: Response) => {
  * DELETE /api/ai-agent-profile/:userId
  * Delete AI Agent Profile for a user (revert to defaults)
  */
-router.delete('/:userId', async (req: Request, res: Response) => {
+router.delete('/:userId', requireOwnUser, async (req: Request, res: Response) => {
   try {
     const service = getService()
     if (!service) {
@@ -25,6 +25,8 @@ const aiService = new AIService()
  *   maxTokens?: number
  *   temperature?: number
  * }
+ *
+ * The AI Agent Profile of the signed-in user, if any, is applied
  */
 router.post('/chat', async (req: Request, res: Response) => {
   try {
@@ -36,7 +38,6 @@ router.post('/chat', async (req: Request, res: Response) => {
       messages,
       maxTokens,
       temperature,
-      userId, // Optional: user ID for AI Agent Profile injection
     } = req.body
 
     // Validate required fields
@@ -55,14 +56,14 @@ router.post('/chat', async (req: Request, res: Response) => {
       })
     }
 
-    // Get userId from request body, query params, or headers (for future auth integration)
-    const finalUserId = userId || req.query.userId as string || req.headers['x-user-id'] as string
+    // AI Agent Profile of the signed-in user
+    const userId = req.user?.id
 
     // Log userId for debugging
-    if (finalUserId) {
-      console.log(`🔍 [AI Route] Received AI chat request with userId: ${finalUserId}`)
+    if (userId) {
+      console.log(`🔍 [AI Route] Received AI chat request with userId: ${userId}`)
     } else {
-      console.warn(`⚠️  [AI Route] No userId provided - AI Agent Profile will not be applied`)
+      console.warn(`⚠️  [AI Route] Anonymous request - AI Agent Profile will not be applied`)
     }
 
     const request: ChatCompletionRequest = {
@@ -73,7 +74,7 @@ router.post('/chat', async (req: Request, res: Response) => {
       messages,
       maxTokens,
       temperature,
-      userId: finalUserId, // Pass userId to AI service for profile injection
+      userId, // Pass userId to AI service for profile injection
     }
 
     const response = await aiService.chat(request)
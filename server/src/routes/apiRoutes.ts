@@ -0,0 +1,155 @@
+import { Express, RequestHandler, Router } from 'express'
+import companyRoutes from './companyRoutes'
+import geographyRoutes from './geographyRoutes'
+import userRoutes from './userRoutes'
+import efGwpRoutes from './efGwpRoutes'
+import ghgTypeRoutes from './ghgTypeRoutes'
+import tableSchemaRoutes from './tableSchemaRoutes'
+import tableConfigurationRoutes from './tableConfigurationRoutes'
+import emissionFactorVersionRoutes from './emissionFactorVersionRoutes'
+import preferencesRoutes from './preferencesRoutes'
+import applicationListRoutes from './applicationListRoutes'
+import userTableRoutes from './userTableRoutes'
+import userRolesRoutes from './userRolesRoutes'
+import organizationRoutes from './organizationRoutes'
+import industryClassificationRoutes from './industryClassificationRoutes'
+import integrationMarketplaceRoutes from './integrationMarketplace'
+import aiRoutes from './aiRoutes'
+import aiModelRegistryRoutes from './aiModelRegistry'
+import standardEmissionFactorRoutes from './standardEmissionFactorRoutes'
+import normalizedActivityRoutes from './normalizedActivityRoutes'
+import efDetailedGRoutes from './efDetailedGRoutes'
+import scopeRoutes from './scopeRoutes'
+import scopeCategorisationRoutes from './scopeCategorisationRoutes'
+import unitRoutes from './unitRoutes'
+import unitConversionRoutes from './unitConversionRoutes'
+import standardECMCatalogRoutes from './standardECMCatalogRoutes'
+import standardECMClassificationRoutes from './standardECMClassificationRoutes'
+import aiAgentProfileRoutes from './aiAgentProfileRoutes'
+import userPreferenceRoutes from './userPreferenceRoutes'
+import thermalCriteriaRoutes from './thermalCriteriaRoutes'
+import geoCodeRoutes from './geoCodeRoutes'
+import divisionsRoutes from './divisionsRoutes'
+import developerRoutes from './developerRoutes'
+import mcpRoutes from './mcpRoutes'
+import calculationRoutes from './calculationRoutes'
+import activityDataRoutes from './activityDataRoutes'
+import reportRoutes from './reportRoutes'
+import gwpRestatementRoutes from './gwpRestatementRoutes'
+import entityImportRoutes from './entityImportRoutes'
+import entityExportRoutes from './entityExportRoutes'
+import auditRoutes from './auditRoutes'
+import authRoutes from './authRoutes'
+import { requireAuth, requirePermission } from '../auth/authMiddleware'
+import { PermissionAction } from '../types/Permission'
+
+/**
+ * API Route Registry
+ *
+ * Every router of the API and how it is guarded, mounted in this order by
+ * mountApiRoutes(). The OpenAPI document (openapi/OpenApiDocument) is generated from the
+ * same list, so a router added here is served and documented at once.
+ */
+
+export interface ApiRoute {
+  /** Mount path, e.g. /api/unit */
+  path: string
+  router: Router
+  /**
+   * - public: anyone - the router checks a session token itself where it needs one
+   * - user: a signed-in user (requireAuth), for routers of the user's own data
+   * - permission: an action the user's roles grant on the entity (requirePermission)
+   */
+  access: 'public' | 'user' | 'permission'
+  /** permission: entity key (API path segment) - unset for generic /api/:entity routers,
+   * which check the permission of :entity themselves */
+  entity?: string
+  /** permission: action needed whatever the method (routers whose POSTs only compute) */
+  action?: PermissionAction
+  /** Group of the router's operations in the API docs (default: from the entity or path) */
+  tag?: string
+}
+
+const entityRoute = (entity: string, router: Router, action?: PermissionAction, tag?: string): ApiRoute => ({
+  path: `/api/${entity}`,
+  router,
+  access: 'permission',
+  entity,
+  action,
+  tag,
+})
+
+const userRoute = (path: string, router: Router, tag?: string): ApiRoute => ({
+  path: `/api/${path}`,
+  router,
+  access: 'user',
+  tag,
+})
+
+export const API_ROUTES: ApiRoute[] = [
+  { path: '/api/auth', router: authRoutes, access: 'public', tag: 'Authentication' },
+  // Generic /api/:entity/export - before the entity routers so GET /:id does not catch it
+  { path: '/api', router: entityExportRoutes, access: 'permission', tag: 'Export' },
+  entityRoute('companies', companyRoutes),
+  entityRoute('geography', geographyRoutes),
+  userRoute('user', userRoutes, 'User'),
+  entityRoute('emission-factors', efGwpRoutes),
+  entityRoute('ghg-types', ghgTypeRoutes),
+  userRoute('preferences', preferencesRoutes, 'Preferences'),
+  entityRoute('tables', tableSchemaRoutes),
+  entityRoute('configurations', tableConfigurationRoutes),
+  entityRoute('emission-factor-version', emissionFactorVersionRoutes),
+  entityRoute('application-list', applicationListRoutes),
+  entityRoute('user-roles', userRolesRoutes),
+  entityRoute('organizations', organizationRoutes),
+  entityRoute('industry-classification', industryClassificationRoutes),
+  entityRoute('users', userTableRoutes),
+  entityRoute('integration-marketplace', integrationMarketplaceRoutes),
+  entityRoute('ai', aiRoutes, 'read', 'AI'),
+  entityRoute('ai-model-registry', aiModelRegistryRoutes, undefined, 'AI Model Registry'),
+  entityRoute('standard-emission-factors', standardEmissionFactorRoutes),
+  entityRoute('normalized-activities', normalizedActivityRoutes),
+  entityRoute('ef-detailed-g', efDetailedGRoutes),
+  entityRoute('scope', scopeRoutes),
+  entityRoute('scope-categorisation', scopeCategorisationRoutes),
+  entityRoute('unit', unitRoutes),
+  entityRoute('unit-conversion', unitConversionRoutes),
+  entityRoute('standard-ecm-catalog', standardECMCatalogRoutes),
+  entityRoute('standard-ecm-classification', standardECMClassificationRoutes),
+  userRoute('ai-agent-profile', aiAgentProfileRoutes, 'AI Agent Profile'),
+  userRoute('user-preference', userPreferenceRoutes, 'User Preference'),
+  entityRoute('thermal-criteria', thermalCriteriaRoutes),
+  entityRoute('geo-code', geoCodeRoutes),
+  entityRoute('divisions', divisionsRoutes),
+  entityRoute('developer', developerRoutes),
+  entityRoute('mcp', mcpRoutes, 'read', 'MCP'),
+  entityRoute('calculations', calculationRoutes, 'read'),
+  entityRoute('activity-data', activityDataRoutes),
+  entityRoute('reports', reportRoutes),
+  entityRoute('gwp-restatement', gwpRestatementRoutes, 'read', 'GWP Restatement'),
+  entityRoute('audit', auditRoutes),
+  // Generic /api/:entity/import - after the entity routers so their own import routes win
+  { path: '/api', router: entityImportRoutes, access: 'permission', tag: 'Import' },
+]
+
+/**
+ * Middleware guarding a route of the registry
+ */
+const guardsOf = (route: ApiRoute): RequestHandler[] => {
+  if (route.access === 'user') {
+    return [requireAuth]
+  }
+  if (route.access === 'permission' && route.entity) {
+    return [requirePermission(route.entity, route.action)]
+  }
+  return []
+}
+
+/**
+ * Mount every router of the registry on the app, behind its guard
+ */
+export function mountApiRoutes(app: Express): void {
+  for (const route of API_ROUTES) {
+    app.use(route.path, ...guardsOf(route), route.router)
+  }
+}
@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { applicationListController } from '../controllers/ApplicationListController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 
@@ -13,10 +14,10 @@ router.get('/filters/values', (req, res) => applicationListController.getFilterV
 router.get('/:id', (req, res) => applicationListController.getById(req, res))
 
 // POST /api/application-list - Create a new Application List record
-router.post('/', (req, res) => applicationListController.create(req, res))
+router.post('/', validateCreate('application-list'), (req, res) => applicationListController.create(req, res))
 
 // PUT /api/application-list/:id - Update a Application List record
-router.put('/:id', (req, res) => applicationListController.update(req, res))
+router.put('/:id', validateUpdate('application-list'), (req, res) => applicationListController.update(req, res))
 
 // DELETE /api/application-list/:id - Delete a Application List record
 router.delete('/:id', (req, res) => applicationListController.delete(req, res))
@@ -0,0 +1,9 @@
+import { Router } from 'express'
+import { auditController } from '../controllers/AuditController'
+
+const router = Router()
+
+// GET /api/audit?entity=&recordId= - Field-level history of the writes to an entity or a record
+router.get('/', (req, res) => auditController.getEntries(req, res))
+
+export default router
@@ -0,0 +1,31 @@
+import { Router } from 'express'
+import { authController } from '../controllers/AuthController'
+import { requireAuth } from '../auth/authMiddleware'
+
+const router = Router()
+
+// GET /api/auth/providers - Ways to sign in (password, identity provider)
+router.get('/providers', (req, res) => authController.getProviders(req, res))
+
+// POST /api/auth/login - Sign in with a username (or email) and password
+router.post('/login', (req, res) => authController.login(req, res))
+
+// POST /api/auth/logout - End the session of the request's token
+router.post('/logout', (req, res) => authController.logout(req, res))
+
+// GET /api/auth/me - The signed-in user
+router.get('/me', requireAuth, (req, res) => authController.me(req, res))
+
+// GET /api/auth/permissions - What the signed-in user may do
+router.get('/permissions', requireAuth, (req, res) => authController.permissions(req, res))
+
+// GET /api/auth/oidc/login?provider= - Redirect to the identity provider
+router.get('/oidc/login', (req, res) => authController.startProviderLogin(req, res))
+
+// GET /api/auth/oidc/callback - Redirect back from the identity provider
+router.get('/oidc/callback', (req, res) => authController.completeProviderLogin(req, res))
+
+// GET /api/auth/mock-idp/authorize - Authorization endpoint of the mock identity provider
+router.get('/mock-idp/authorize', (req, res) => authController.mockAuthorize(req, res))
+
+export default router
@@ -0,0 +1,12 @@
+import { Router } from 'express'
+import { calculationController } from '../controllers/CalculationController'
+
+const router = Router()
+
+// POST /api/calculations - Calculate tCO2e for an activity quantity
+router.post('/', (req, res) => calculationController.calculate(req, res))
+
+// GET /api/calculations/factor-resolution/explain - Explain which emission factor is chosen for an activity
+router.get('/factor-resolution/explain', (req, res) => calculationController.explainFactorResolution(req, res))
+
+export default router
@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { companyController } from '../controllers/CompanyController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 
@@ -10,16 +11,19 @@ router.get('/', (req, res) => companyController.getAll(req, res))
 router.get('/filters/values', (req, res) => companyController.getFilterValues(req, res))
 
 // POST /api/companies/import - Bulk import companies (MUST come before /:id route)
-router.post('/import', (req, res) => companyController.bulkImport(req, res))
+// Requests without a "companies" array (file uploads) fall through to the generic import route
+router.post('/import', (req, res, next) =>
+  Array.isArray(req.body?.companies) ? companyController.bulkImport(req, res) : next()
+)
 
 // GET /api/companies/:id - Get a single company
 router.get('/:id', (req, res) => companyController.getById(req, res))
 
 // POST /api/companies - Create a new company
-router.post('/', (req, res) => companyController.create(req, res))
+router.post('/', validateCreate('companies'), (req, res) => companyController.create(req, res))
 
 // PUT /api/companies/:id - Update a company
-router.put('/:id', (req, res) => companyController.update(req, res))
+router.put('/:id', validateUpdate('companies'), (req, res) => companyController.update(req, res))
 
 // DELETE /api/companies/:id - Delete a company
 router.delete('/:id', (req, res) => companyController.delete(req, res))
@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { efGwpController } from '../controllers/EFGWPController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 
@@ -13,10 +14,10 @@ router.get('/filters/values', (req, res) => efGwpController.getFilterValues(req,
 router.get('/:id', (req, res) => efGwpController.getById(req, res))
 
 // POST /api/emission-factors - Create a new EF GWP record
-router.post('/', (req, res) => efGwpController.create(req, res))
+router.post('/', validateCreate('emission-factors'), (req, res) => efGwpController.create(req, res))
 
 // PATCH /api/emission-factors/:id - Update an EF GWP record
-router.patch('/:id', (req, res) => efGwpController.update(req, res))
+router.patch('/:id', validateUpdate('emission-factors'), (req, res) => efGwpController.update(req, res))
 
 // DELETE /api/emission-factors/:id - Delete an EF GWP record
 router.delete('/:id', (req, res) => efGwpController.delete(req, res))
@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { emissionFactorVersionController } from '../controllers/EmissionFactorVersionController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 
@@ -12,11 +13,17 @@ router.get('/filters/values', (req, res) => emissionFactorVersionController.getF
 // GET /api/emission-factor-version/:id - Get a single Emission Factor Version record
 router.get('/:id', (req, res) => emissionFactorVersionController.getById(req, res))
 
+// GET /api/emission-factor-version/:id/diff - Compare a version's factors with the previous version
+router.get('/:id/diff', (req, res) => emissionFactorVersionController.diff(req, res))
+
+// POST /api/emission-factor-version/:id/promote - Activate a version and retire the one it supersedes
+router.post('/:id/promote', (req, res) => emissionFactorVersionController.promote(req, res))
+
 // POST /api/emission-factor-version - Create a new Emission Factor Version record
-router.post('/', (req, res) => emissionFactorVersionController.create(req, res))
+router.post('/', validateCreate('emission-factor-version'), (req, res) => emissionFactorVersionController.create(req, res))
 
 // PUT /api/emission-factor-version/:id - Update a Emission Factor Version record
-router.put('/:id', (req, res) => emissionFactorVersionController.update(req, res))
+router.put('/:id', validateUpdate('emission-factor-version'), (req, res) => emissionFactorVersionController.update(req, res))
 
 // DELETE /api/emission-factor-version/:id - Delete a Emission Factor Version record
 router.delete('/:id', (req, res) => emissionFactorVersionController.delete(req, res))
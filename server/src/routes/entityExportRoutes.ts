@@ -0,0 +1,15 @@
+import { Router } from 'express'
+import { entityExportController } from '../controllers/EntityExportController'
+import { requirePermission } from '../auth/authMiddleware'
+
+/**
+ * Generic export routes for every ListDetailTemplate entity
+ * Mounted at /api before the entity routers, whose GET /:id would otherwise match /export
+ * Needs the export permission on :entity
+ */
+const router = Router()
+
+// GET /api/:entity/export - Stream the filtered and sorted records as CSV, XLSX, JSON or Parquet
+router.get('/:entity/export', requirePermission(), (req, res) => entityExportController.exportRecords(req, res))
+
+export default router
@@ -0,0 +1,27 @@
+import { Router } from 'express'
+import multer from 'multer'
+import { entityImportController } from '../controllers/EntityImportController'
+import { requirePermission, restoreTenantScope } from '../auth/authMiddleware'
+
+/**
+ * Generic import routes for every ListDetailTemplate entity
+ * Mounted at /api after the entity routers, so entity-specific import routes take precedence
+ * Needs the import permission on :entity
+ */
+const router = Router()
+
+// Configure multer for spreadsheet imports (memory storage)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+})
+
+// GET /api/:entity/import/fields - Importable fields with types and required flags
+router.get('/:entity/import/fields', requirePermission(), (req, res) => entityImportController.getFields(req, res))
+
+// POST /api/:entity/import - Import a CSV/XLSX file or JSON rows (dryRun=true to only validate)
+router.post('/:entity/import', requirePermission(), upload.single('file'), restoreTenantScope, (req, res) => entityImportController.importRecords(req, res))
+
+export default router
@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { geographyController } from '../controllers/GeographyController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 
@@ -13,10 +14,10 @@ router.get('/filters/values', (req, res) => geographyController.getFilterValues(
 router.get('/:id', (req, res) => geographyController.getById(req, res))
 
 // POST /api/geography - Create a new geography record
-router.post('/', (req, res) => geographyController.create(req, res))
+router.post('/', validateCreate('geography'), (req, res) => geographyController.create(req, res))
 
 // PUT /api/geography/:id - Update a geography record
-router.put('/:id', (req, res) => geographyController.update(req, res))
+router.put('/:id', validateUpdate('geography'), (req, res) => geographyController.update(req, res))
 
 // DELETE /api/geography/:id - Delete a geography record
 router.delete('/:id', (req, res) => geographyController.delete(req, res))
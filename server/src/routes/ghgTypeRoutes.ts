@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { ghgTypeController } from '../controllers/GHGTypeController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 
@@ -13,10 +14,10 @@ router.get('/filters/values', (req, res) => ghgTypeController.getFilterValues(re
 router.get('/:id', (req, res) => ghgTypeController.getById(req, res))
 
 // POST /api/ghg-types - Create a new GHG Type record
-router.post('/', (req, res) => ghgTypeController.create(req, res))
+router.post('/', validateCreate('ghg-types'), (req, res) => ghgTypeController.create(req, res))
 
 // PUT /api/ghg-types/:id - Update a GHG Type record
-router.put('/:id', (req, res) => ghgTypeController.update(req, res))
+router.put('/:id', validateUpdate('ghg-types'), (req, res) => ghgTypeController.update(req, res))
 
 // DELETE /api/ghg-types/:id - Delete a GHG Type record
 router.delete('/:id', (req, res) => ghgTypeController.delete(req, res))
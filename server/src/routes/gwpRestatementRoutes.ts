@@ -0,0 +1,12 @@
+import { Router } from 'express'
+import { gwpRestatementController } from '../controllers/GWPRestatementController'
+
+const router = Router()
+
+// GET /api/gwp-restatement/versions - Assessment report versions available in EF GWP
+router.get('/versions', (req, res) => gwpRestatementController.getVersions(req, res))
+
+// POST /api/gwp-restatement - Restate per-gas amounts under each assessment report
+router.post('/', (req, res) => gwpRestatementController.restate(req, res))
+
+export default router
@@ -1,6 +1,7 @@
 import express from 'express'
 import multer from 'multer'
 import { industryClassificationController } from '../controllers/IndustryClassificationController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = express.Router()
 
@@ -25,10 +26,10 @@ router.post('/upload', upload.single('file'), (req, res) => industryClassificati
 router.get('/:id', (req, res) => industryClassificationController.getById(req, res))
 
 // POST /api/industry-classification - Create a new Industry Classification
-router.post('/', (req, res) => industryClassificationController.create(req, res))
+router.post('/', validateCreate('industry-classification'), (req, res) => industryClassificationController.create(req, res))
 
 // PUT /api/industry-classification/:id - Update an existing Industry Classification
-router.put('/:id', (req, res) => industryClassificationController.update(req, res))
+router.put('/:id', validateUpdate('industry-classification'), (req, res) => industryClassificationController.update(req, res))
 
 // DELETE /api/industry-classification/:id - Delete an Industry Classification
 router.delete('/:id', (req, res) => industryClassificationController.delete(req, res))
@@ -6,6 +6,7 @@
 
 import { Router, Request, Response } from 'express'
 import { IntegrationMarketplaceService } from '../services/IntegrationMarketplaceService'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 
@@ -94,18 +95,10 @@ router.get('/providers/:id', async (req: Request, res: Response) => {
  * POST /api/integration-marketplace/providers
  * Create new provider
  */
-router.post('/providers', async (req: Request, res: Response) => {
+router.post('/providers', validateCreate('integration-marketplace'), async (req: Request, res: Response) => {
   try {
     const providerData = req.body
 
-    // Validate required fields
-    if (!providerData.name || !providerData.providerId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Name and Provider ID are required',
-      })
-    }
-
     const provider = await getService().createProvider(providerData)
     res.status(201).json({
       success: true,
@@ -124,7 +117,7 @@ router.post('/providers', async (req: Request, res: Response) => {
  * PUT /api/integration-marketplace/providers/:id
  * Update existing provider
  */
-router.put('/providers/:id', async (req: Request, res: Response) => {
+router.put('/providers/:id', validateUpdate('integration-marketplace'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params
     const updates = req.body
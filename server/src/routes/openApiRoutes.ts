@@ -0,0 +1,37 @@
+import { Router } from 'express'
+import { API_ROUTES } from './apiRoutes'
+import { buildOpenApiDocument, OpenApiDocument } from '../openapi/OpenApiDocument'
+import { renderDocsPage } from '../openapi/docsPage'
+import { ORGANIZATION_HEADER } from '../auth/TenantContext'
+
+/**
+ * Routes serving the OpenAPI document of the API and its docs page - public, like GET /.
+ * The document is built from the route registry on first request; the routers do not
+ * change while the server runs.
+ */
+export function createOpenApiRoutes(): Router {
+  const router = Router()
+  let document: OpenApiDocument | null = null
+
+  // GET /api/openapi.json - OpenAPI 3 document of every route
+  router.get('/openapi.json', (req, res) => {
+    try {
+      document = document || buildOpenApiDocument(API_ROUTES)
+      res.json(document)
+    } catch (error) {
+      console.error('Error building the OpenAPI document:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Failed to build the OpenAPI document',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
+  // GET /api/docs - Interactive docs page of the document
+  router.get('/docs', (req, res) => {
+    res.type('html').send(renderDocsPage(`${req.baseUrl}/openapi.json`, ORGANIZATION_HEADER))
+  })
+
+  return router
+}
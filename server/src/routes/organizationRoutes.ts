@@ -0,0 +1,14 @@
+import { Router } from 'express'
+import { OrganizationController } from '../controllers/OrganizationController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
+
+const router = Router()
+const controller = new OrganizationController()
+
+router.get('/', (req, res) => controller.getAll(req, res))
+router.get('/:id', (req, res) => controller.getById(req, res))
+router.post('/', validateCreate('organizations'), (req, res) => controller.create(req, res))
+router.put('/:id', validateUpdate('organizations'), (req, res) => controller.update(req, res))
+router.delete('/:id', (req, res) => controller.delete(req, res))
+
+export default router
@@ -0,0 +1,9 @@
+import { Router } from 'express'
+import { reportController } from '../controllers/ReportController'
+
+const router = Router()
+
+// GET /api/reports/ghg-inventory - GHG Protocol inventory by scope, category and GHG type
+router.get('/ghg-inventory', (req, res) => reportController.ghgInventory(req, res))
+
+export default router
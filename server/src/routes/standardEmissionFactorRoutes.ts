@@ -1,20 +1,33 @@
 import { Router } from 'express'
+import multer from 'multer'
 import { StandardEmissionFactorController } from '../controllers/StandardEmissionFactorController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 const controller = new StandardEmissionFactorController()
 
+// Configure multer for dataset imports (memory storage)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+})
+
 // GET /api/standard-emission-factors - Get all with pagination, filtering, sorting
 router.get('/', (req, res) => controller.getAll(req, res))
 
 // GET /api/standard-emission-factors/:id - Get single record
 router.get('/:id', (req, res) => controller.getById(req, res))
 
+// POST /api/standard-emission-factors/import - Import a CSV/XLSX dataset (dry run by default)
+router.post('/import', upload.single('file'), (req, res) => controller.importFactors(req, res))
+
 // POST /api/standard-emission-factors - Create new record
-router.post('/', (req, res) => controller.create(req, res))
+router.post('/', validateCreate('standard-emission-factors'), (req, res) => controller.create(req, res))
 
 // PUT /api/standard-emission-factors/:id - Update record
-router.put('/:id', (req, res) => controller.update(req, res))
+router.put('/:id', validateUpdate('standard-emission-factors'), (req, res) => controller.update(req, res))
 
 // DELETE /api/standard-emission-factors/:id - Delete record
 router.delete('/:id', (req, res) => controller.delete(req, res))
@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { tableConfigurationController } from '../controllers/TableConfigurationController'
+import { validateTableSchema } from '../validation/tableSchemaRules'
 
 const router = Router()
 
@@ -7,7 +8,7 @@ const router = Router()
 router.get('/:tableName', (req, res) => tableConfigurationController.getConfiguration(req, res))
 
 // PUT /api/configurations/:tableName - Update table configuration
-router.put('/:tableName', (req, res) => tableConfigurationController.updateConfiguration(req, res))
+router.put('/:tableName', validateTableSchema(), (req, res) => tableConfigurationController.updateConfiguration(req, res))
 
 export default router
 
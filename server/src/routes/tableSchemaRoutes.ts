@@ -1,6 +1,7 @@
 import { Router } from 'express'
 import { tableSchemaController } from '../controllers/TableSchemaController'
 import { fieldMappingController } from '../controllers/FieldMappingController'
+import { validateFieldMapping, validateTableSchema } from '../validation/tableSchemaRules'
 
 const router = Router()
 
@@ -8,13 +9,13 @@ const router = Router()
 router.get('/:tableId/schema', (req, res) => tableSchemaController.getSchema(req, res))
 
 // PUT /api/tables/:tableId/schema - Update table schema
-router.put('/:tableId/schema', (req, res) => tableSchemaController.updateSchema(req, res))
+router.put('/:tableId/schema', validateTableSchema(), (req, res) => tableSchemaController.updateSchema(req, res))
 
 // GET /api/tables/:tableId/field-mapping - Get field ID mapping
 router.get('/:tableId/field-mapping', (req, res) => fieldMappingController.getFieldMapping(req, res))
 
 // POST /api/tables/:tableId/field-mapping - Create or update field ID mapping
-router.post('/:tableId/field-mapping', (req, res) => fieldMappingController.createOrUpdateFieldMapping(req, res))
+router.post('/:tableId/field-mapping', validateFieldMapping(), (req, res) => fieldMappingController.createOrUpdateFieldMapping(req, res))
 
 export default router
 
@@ -1,13 +1,14 @@
 import { Router } from 'express'
 import { ThermalCriteriaController } from '../controllers/ThermalCriteriaController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 const controller = new ThermalCriteriaController()
 
 router.get('/', (req, res) => controller.getAll(req, res))
 router.get('/:id', (req, res) => controller.getById(req, res))
-router.post('/', (req, res) => controller.create(req, res))
-router.put('/:id', (req, res) => controller.update(req, res))
+router.post('/', validateCreate('thermal-criteria'), (req, res) => controller.create(req, res))
+router.put('/:id', validateUpdate('thermal-criteria'), (req, res) => controller.update(req, res))
 router.delete('/:id', (req, res) => controller.delete(req, res))
 
 export default router
@@ -1,13 +1,15 @@
 import { Router } from 'express'
 import { UnitConversionController } from '../controllers/UnitConversionController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 const controller = new UnitConversionController()
 
 router.get('/', (req, res) => controller.getAll(req, res))
+router.get('/convert', (req, res) => controller.convert(req, res))
 router.get('/:id', (req, res) => controller.getById(req, res))
-router.post('/', (req, res) => controller.create(req, res))
-router.put('/:id', (req, res) => controller.update(req, res))
+router.post('/', validateCreate('unit-conversion'), (req, res) => controller.create(req, res))
+router.put('/:id', validateUpdate('unit-conversion'), (req, res) => controller.update(req, res))
 router.delete('/:id', (req, res) => controller.delete(req, res))
 router.get('/filters/values', (req, res) => controller.getFilterValues(req, res))
 
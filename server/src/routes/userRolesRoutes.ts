@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { userRolesController } from '../controllers/UserRolesController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 
@@ -13,10 +14,10 @@ router.get('/filters/values', (req, res) => userRolesController.getFilterValues(
 router.get('/:id', (req, res) => userRolesController.getById(req, res))
 
 // POST /api/user-roles - Create a new User Role
-router.post('/', (req, res) => userRolesController.create(req, res))
+router.post('/', validateCreate('user-roles'), (req, res) => userRolesController.create(req, res))
 
 // PUT /api/user-roles/:id - Update an existing User Role
-router.put('/:id', (req, res) => userRolesController.update(req, res))
+router.put('/:id', validateUpdate('user-roles'), (req, res) => userRolesController.update(req, res))
 
 // DELETE /api/user-roles/:id - Delete a User Role
 router.delete('/:id', (req, res) => userRolesController.delete(req, res))
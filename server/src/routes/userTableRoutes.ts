@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { userTableController } from '../controllers/UserTableController'
+import { validateCreate, validateUpdate } from '../validation/validateRequest'
 
 const router = Router()
 
@@ -13,10 +14,10 @@ router.get('/', (req, res) => userTableController.getAll(req, res))
 router.get('/:id', (req, res) => userTableController.getById(req, res))
 
 // POST /api/users - Create a new user table record
-router.post('/', (req, res) => userTableController.create(req, res))
+router.post('/', validateCreate('users'), (req, res) => userTableController.create(req, res))
 
 // PUT /api/users/:id - Update a user table record
-router.put('/:id', (req, res) => userTableController.update(req, res))
+router.put('/:id', validateUpdate('users'), (req, res) => userTableController.update(req, res))
 
 // DELETE /api/users/:id - Delete a user table record
 router.delete('/:id', (req, res) => userTableController.delete(req, res))
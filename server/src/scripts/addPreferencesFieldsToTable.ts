@@ -11,6 +11,7 @@
  * - Value (number) (number)
  * - Value (boolean) (checkbox)
  * - Visibility (singleSelect with options: private, org, global)
+ * - Organization Id (singleLineText, set on org preferences)
  * - Expires At (dateTime)
  * - Unique Key (formula field)
  * 
@@ -141,6 +142,10 @@ async function addPreferencesFields() {
           ],
         },
       },
+      {
+        name: 'Organization Id',
+        type: 'singleLineText',
+      },
       {
         name: 'Expires At',
         type: 'dateTime',
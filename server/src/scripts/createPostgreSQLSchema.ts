@@ -0,0 +1,48 @@
+/**
+ * Create or upgrade the PostgreSQL schema
+ *
+ * Creates every entity table used when DATABASE_TYPE=postgresql, and the audit log.
+ * Safe to run again: existing tables are kept and only missing columns and indexes are added.
+ *
+ * Run with: npm run db:postgres:schema
+ * Print the SQL without connecting: npm run db:postgres:schema -- --print
+ */
+
+// Load environment variables
+import dotenv from 'dotenv'
+import { resolve } from 'path'
+dotenv.config({ path: resolve(__dirname, '../../.env') })
+dotenv.config() // Also try default location
+
+import { getPostgreSQLSchemaStatements } from '../database/postgres/schema'
+import { getPostgreSQLPool, closePostgreSQLPool } from '../database/postgres/connection'
+
+async function main() {
+  const statements = getPostgreSQLSchemaStatements()
+
+  if (process.argv.includes('--print')) {
+    console.log(statements.map(statement => `${statement};`).join('\n\n'))
+    return
+  }
+
+  if (!process.env.DATABASE_URL && !process.env.DB_NAME) {
+    console.error('❌ DATABASE_URL or DB_HOST/DB_NAME/DB_USER/DB_PASSWORD is required')
+    console.error('   Please set it in your server/.env file')
+    process.exit(1)
+  }
+
+  const pool = getPostgreSQLPool()
+  try {
+    for (const statement of statements) {
+      await pool.query(statement)
+    }
+    console.log(`✅ PostgreSQL schema is up to date (${statements.length} statements)`)
+  } finally {
+    await closePostgreSQLPool()
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Failed to create PostgreSQL schema:', error.message || error)
+  process.exit(1)
+})
@@ -126,6 +126,11 @@ const FIELD_DEFINITIONS = [
     },
     description: 'Preference visibility level',
   },
+  {
+    name: 'Organization Id',
+    type: 'singleLineText',
+    description: 'Organization an org preference is shared with',
+  },
   {
     name: 'Expires At',
     type: 'dateTime',
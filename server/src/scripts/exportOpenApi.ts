@@ -0,0 +1,31 @@
+/**
+ * Export the OpenAPI document
+ *
+ * Writes the document served at GET /api/openapi.json to a file, without starting the
+ * server - for generating a typed client, e.g.
+ *   npx openapi-typescript openapi.json -o src/lib/api/schema.d.ts
+ *
+ * Run with: npm run openapi:export -- [output file, default openapi.json]
+ */
+
+// Load environment variables
+import dotenv from 'dotenv'
+import { resolve } from 'path'
+dotenv.config({ path: resolve(__dirname, '../../.env') })
+dotenv.config() // Also try default location
+
+import { writeFileSync } from 'fs'
+import { API_ROUTES } from '../routes/apiRoutes'
+import { buildOpenApiDocument } from '../openapi/OpenApiDocument'
+
+function main() {
+  const output = resolve(process.argv[2] || 'openapi.json')
+  const document = buildOpenApiDocument(API_ROUTES)
+  writeFileSync(output, `${JSON.stringify(document, null, 2)}\n`)
+
+  const operations = Object.values(document.paths).reduce((count, methods) => count + Object.keys(methods).length, 0)
+  console.log(`✅ ${operations} operations on ${Object.keys(document.paths).length} paths written to ${output}`)
+  process.exit(0)
+}
+
+main()
@@ -0,0 +1,69 @@
+/**
+ * Seed the local database
+ *
+ * Loads the fixture snapshots (server/fixtures/local/*.json) into the file used when
+ * DATABASE_TYPE=local. Records are upserted by ID, so running it again refreshes the
+ * reference tables and keeps the records created since.
+ *
+ * Run with: npm run db:local:seed
+ * Start from an empty database: npm run db:local:seed -- --reset
+ * Another fixture directory: npm run db:local:seed -- --dir path/to/fixtures
+ *
+ * Refresh the fixtures from Airtable (reference tables only, needs an Airtable token):
+ * npm run db:local:seed -- --snapshot [--tables units,scopes]
+ */
+
+// Load environment variables
+import dotenv from 'dotenv'
+import { resolve } from 'path'
+dotenv.config({ path: resolve(__dirname, '../../.env') })
+dotenv.config() // Also try default location
+
+import { FileEntityStore } from '../database/local/FileEntityStore'
+import {
+  SNAPSHOT_TABLES,
+  getFixturesDirectory,
+  readEntitySnapshots,
+  seedEntityStore,
+  snapshotEntityTable,
+  writeEntitySnapshot,
+} from '../database/local/seed'
+import { getEntityDescriptor } from '../database/entities/descriptors'
+import { AirtableEntityRepository } from '../database/repositories/AirtableEntityRepository'
+
+const getOption = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function snapshot(directory: string) {
+  const tables = getOption('--tables')?.split(',').map(table => table.trim()) || SNAPSHOT_TABLES
+  for (const table of tables) {
+    const result = await snapshotEntityTable(new AirtableEntityRepository(getEntityDescriptor(table)))
+    const path = writeEntitySnapshot(result, directory)
+    console.log(`📊 ${table}: ${result.records.length} records -> ${path}`)
+  }
+  console.log(`✅ Snapshot written to ${directory}`)
+}
+
+async function main() {
+  const directory = resolve(getOption('--dir') || getFixturesDirectory())
+
+  if (process.argv.includes('--snapshot')) {
+    await snapshot(directory)
+    return
+  }
+
+  const store = new FileEntityStore()
+  const counts = seedEntityStore(store, readEntitySnapshots(directory), {
+    reset: process.argv.includes('--reset'),
+  })
+
+  Object.entries(counts).forEach(([table, count]) => console.log(`💾 ${table}: ${count} records`))
+  console.log(`✅ Local database seeded: ${store.path}`)
+}
+
+main().catch(error => {
+  console.error('❌ Failed to seed local database:', error.message || error)
+  process.exit(1)
+})
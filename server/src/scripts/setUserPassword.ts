@@ -0,0 +1,48 @@
+/**
+ * Set the password of a user
+ *
+ * Stores the scrypt hash of a password in the password field of the user's User Table
+ * record (AUTH_PASSWORD_FIELD, default "Password Hash" - a single line or long text
+ * field to add to the table once). The user is found by Email or User Name.
+ *
+ * Run with: npm run auth:set-password -- <email or user name>
+ * The password is read from the prompt (or the first line of stdin).
+ */
+
+// Load environment variables
+import dotenv from 'dotenv'
+import { resolve } from 'path'
+dotenv.config({ path: resolve(__dirname, '../../.env') })
+dotenv.config() // Also try default location
+
+import { createInterface } from 'readline'
+import { AuthService, MIN_PASSWORD_LENGTH } from '../auth/AuthService'
+import { UserTableDirectory } from '../auth/UserTableDirectory'
+import { SessionTokens } from '../auth/SessionTokens'
+
+const readPassword = (): Promise<string> =>
+  new Promise(resolvePassword => {
+    const prompt = createInterface({ input: process.stdin, output: process.stdout })
+    prompt.question(`New password (at least ${MIN_PASSWORD_LENGTH} characters): `, answer => {
+      prompt.close()
+      resolvePassword(answer)
+    })
+  })
+
+async function main() {
+  const login = process.argv[2]
+  if (!login) {
+    console.error('❌ Usage: npm run auth:set-password -- <email or user name>')
+    process.exit(1)
+  }
+
+  // No session is issued here - the signing secret is not needed
+  const service = new AuthService(new UserTableDirectory(), new SessionTokens('unused'))
+  const user = await service.setPassword(login, await readPassword())
+  console.log(`✅ Password set for ${user.name} (${user.id})`)
+}
+
+main().catch(error => {
+  console.error('❌ Failed to set password:', error.message || error)
+  process.exit(1)
+})
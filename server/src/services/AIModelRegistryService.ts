@@ -6,6 +6,8 @@
  */
 
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { formulaEquals, formulaRecordIds } from '../database/filters/AirtableFormula'
 
 export interface AIModel {
   id: string // Airtable record ID
@@ -42,8 +44,7 @@ export class AIModelRegistryService {
       throw new Error('AIRTABLE_SYSTEM_CONFIG_BASE_ID or AIRTABLE_BASE_ID must be set in environment variables')
     }
 
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
   }
 
   /**
@@ -59,8 +60,8 @@ export class AIModelRegistryService {
       const records = await this.base(this.tableName)
         .select({
           filterByFormula: onlyAvailable
-            ? `AND({Provider ID} = '${providerId}', {Available} = TRUE())`
-            : `{Provider ID} = '${providerId}'`,
+            ? `AND(${formulaEquals('Provider ID', providerId)}, {Available} = TRUE())`
+            : formulaEquals('Provider ID', providerId),
           sort: [{ field: 'Sort Order', direction: 'asc' }, { field: 'Model Name', direction: 'asc' }],
           // Don't specify fields explicitly - let Airtable return all fields (including Provider Name if it exists)
         })
@@ -82,7 +83,7 @@ export class AIModelRegistryService {
     try {
       const records = await this.base(this.tableName)
         .select({
-          filterByFormula: `AND({Provider ID} = '${providerId}', {Recommended} = TRUE(), {Available} = TRUE())`,
+          filterByFormula: `AND(${formulaEquals('Provider ID', providerId)}, {Recommended} = TRUE(), {Available} = TRUE())`,
           maxRecords: 1,
           sort: [{ field: 'Sort Order', direction: 'asc' }],
           // Don't specify fields explicitly - let Airtable return all fields
@@ -111,7 +112,7 @@ export class AIModelRegistryService {
       // Get existing models for this provider
       const existingRecords = await this.base(this.tableName)
         .select({
-          filterByFormula: `{Provider ID} = '${providerId}'`,
+          filterByFormula: formulaEquals('Provider ID', providerId),
         })
         .all()
 
@@ -206,7 +207,7 @@ export class AIModelRegistryService {
     try {
       const records = await this.base(this.tableName)
         .select({
-          filterByFormula: `AND({Provider ID} = '${providerId}', {Model ID} = '${modelId}')`,
+          filterByFormula: `AND(${formulaEquals('Provider ID', providerId)}, ${formulaEquals('Model ID', modelId)})`,
           maxRecords: 1,
           // Don't specify fields explicitly - let Airtable return all fields
         })
@@ -241,7 +242,7 @@ export class AIModelRegistryService {
       // Fetch the linked provider record to get its name
       const providerRecords = await this.base('Integration Marketplace')
         .select({
-          filterByFormula: `OR(${ids.map(id => `RECORD_ID() = "${id}"`).join(', ')})`,
+          filterByFormula: formulaRecordIds(ids),
           fields: ['Name'],
           maxRecords: 1,
         })
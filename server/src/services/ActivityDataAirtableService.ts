@@ -0,0 +1,468 @@
+import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, filtersToFilterNode, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
+import { ActivityData, ActivityDataComputedFields, CreateActivityDataDto, UpdateActivityDataDto } from '../types/ActivityData'
+import { RelationshipResolver } from './RelationshipResolver'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+import { isInTenantScope, stampTenant, tenantFilter } from '../auth/TenantContext'
+
+/** Field holding the organization of a row */
+const TENANT_FIELD = ENTITY_DESCRIPTORS.activity_data.tenantField!
+
+/**
+ * Linked fields on the Activity Data table and the table/display field they resolve against
+ */
+const LINKED_FIELDS: Array<{ field: keyof ActivityData; nameField: keyof ActivityData; table: string; displayField: string }> = [
+  { field: 'Unit', nameField: 'Unit Name', table: 'Unit', displayField: 'Name' },
+  { field: 'Normalized activity', nameField: 'Normalized activity Name', table: 'Normalized Activities', displayField: 'Name' },
+  { field: 'Company', nameField: 'Company Name', table: process.env.AIRTABLE_COMPANY_TABLE_ID || 'tbl82H6ezrakMSkV1', displayField: 'Company Name' },
+  { field: 'Geography', nameField: 'Geography Name', table: process.env.AIRTABLE_GEOGRAPHY_TABLE_ID || 'tblErjfASiVycrsn9', displayField: 'Name' },
+  { field: 'Emission Factor', nameField: 'Emission Factor Name', table: 'Standard Emission factors', displayField: 'Name' },
+]
+
+/**
+ * Activity Data Airtable Service
+ *
+ * Handles all Airtable API interactions for the Activity Data ledger table.
+ * This service can be replaced with a PostgreSQL service
+ * without changing the repository interface.
+ *
+ * Like the entity repositories behind TenantScopedDatabase, it only sees and writes the
+ * rows of the organization in scope (auth/TenantContext).
+ */
+export class ActivityDataAirtableService {
+  private base: Airtable.Base
+  private tableName: string
+  private relationshipResolver: RelationshipResolver
+
+  constructor() {
+    const apiKey = process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN ||
+                   process.env.AIRTABLE_API_KEY
+
+    if (!apiKey) {
+      throw new Error('Airtable API token is required. Set AIRTABLE_PERSONAL_ACCESS_TOKEN in .env file')
+    }
+
+    const baseId = process.env.AIRTABLE_SYSTEM_CONFIG_BASE_ID ||
+                   'appGtLbKhmNkkTLVL'
+
+    this.tableName = process.env.AIRTABLE_ACTIVITY_DATA_TABLE_ID ||
+                     process.env.AIRTABLE_ACTIVITY_DATA_TABLE_NAME ||
+                     'Activity Data'
+
+    this.base = getAirtableBase(baseId, apiKey)
+    this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
+
+    console.log(`🌿 ActivityDataAirtableService initialized:`)
+    console.log(`   Base ID: ${baseId}`)
+    console.log(`   Table: ${this.tableName}`)
+  }
+
+  /**
+   * Get all Activity Data records
+   */
+  async findAll(filters?: Record<string, any>, filter?: FilterNode): Promise<ActivityData[]> {
+    try {
+      const selectOptions: Airtable.SelectOptions<any> = {
+        sort: [{ field: 'Name', direction: 'asc' }],
+      }
+      const formula = this.buildFilterFormula(filters, undefined, filter)
+      if (formula) {
+        selectOptions.filterByFormula = formula
+      }
+
+      const records = await this.base(this.tableName)
+        .select(selectOptions)
+        .all()
+
+      return await this.mapRecordsWithResolutions(records)
+    } catch (error: any) {
+      console.error('Error fetching Activity Data:', error)
+      throw new Error(`Failed to fetch Activity Data: ${error.message}`)
+    }
+  }
+
+  /**
+   * Get paginated Activity Data records with filtering, search and sorting
+   */
+  async findPaginated(
+    offset: number = 0,
+    limit: number = 50,
+    sortBy?: string,
+    sortOrder: 'asc' | 'desc' = 'asc',
+    filters?: Record<string, any>,
+    search?: string,
+    filter?: FilterNode
+  ): Promise<{ records: ActivityData[]; total: number }> {
+    try {
+      const formula = this.buildFilterFormula(filters, search, filter)
+      const selectOptions: Airtable.SelectOptions<any> = {
+        sort: [{ field: sortBy && sortBy.trim() !== '' ? sortBy : 'Name', direction: sortOrder === 'desc' ? 'desc' : 'asc' }],
+        pageSize: 100,
+      }
+      if (formula) {
+        selectOptions.filterByFormula = formula
+      }
+
+      // Walk pages until the requested window has been read
+      const pageRecords: Airtable.Record<any>[] = []
+      let currentPage = 0
+      const startPage = Math.floor(offset / 100) + 1
+      const endPage = Math.ceil((offset + limit) / 100)
+
+      await new Promise<void>((resolve, reject) => {
+        this.base(this.tableName)
+          .select(selectOptions)
+          .eachPage(
+            (records, fetchNextPage) => {
+              currentPage++
+              if (currentPage < startPage) {
+                fetchNextPage()
+                return
+              }
+              pageRecords.push(...records)
+              if (currentPage >= endPage) {
+                resolve()
+                return
+              }
+              fetchNextPage()
+            },
+            (err) => {
+              if (err) reject(err)
+              else resolve()
+            }
+          )
+      })
+
+      const startIndex = offset % 100
+      const windowRecords = pageRecords.slice(startIndex, startIndex + limit)
+
+      const countSelectOptions: Airtable.SelectOptions<any> = {
+        fields: ['Name'],
+      }
+      if (formula) {
+        countSelectOptions.filterByFormula = formula
+      }
+      const [data, countRecords] = await Promise.all([
+        this.mapRecordsWithResolutions(windowRecords),
+        this.base(this.tableName).select(countSelectOptions).all(),
+      ])
+
+      return { records: data, total: countRecords.length }
+    } catch (error: any) {
+      console.error('Error fetching paginated Activity Data:', error)
+      throw new Error(`Failed to fetch Activity Data: ${error.message}`)
+    }
+  }
+
+  /**
+   * Get a single Activity Data record by ID
+   */
+  async findById(id: string): Promise<ActivityData | null> {
+    try {
+      const record = await this.base(this.tableName).find(id)
+      const [mapped] = await this.mapRecordsWithResolutions([record])
+      return isInTenantScope(mapped, TENANT_FIELD) ? mapped : null
+    } catch (error: any) {
+      if (error.error === 'NOT_FOUND' || error.statusCode === 404) {
+        return null
+      }
+      console.error('Error fetching Activity Data by ID:', error)
+      throw new Error(`Failed to fetch Activity Data: ${error.message}`)
+    }
+  }
+
+  /**
+   * Create a new Activity Data record
+   */
+  async create(dto: CreateActivityDataDto, computed?: ActivityDataComputedFields): Promise<ActivityData> {
+    try {
+      const fields = { ...this.mapActivityDataToAirtable(stampTenant(dto, TENANT_FIELD)), ...this.mapComputedToAirtable(computed) }
+      const records = await this.base(this.tableName).create([{ fields }])
+      const [mapped] = await this.mapRecordsWithResolutions(records)
+      return mapped
+    } catch (error: any) {
+      console.error('Error creating Activity Data:', error)
+      throw new Error(`Failed to create Activity Data: ${error.message}`)
+    }
+  }
+
+  /**
+   * Update an existing Activity Data record - its organization is kept
+   */
+  async update(id: string, dto: UpdateActivityDataDto, computed?: ActivityDataComputedFields): Promise<ActivityData> {
+    try {
+      const fields = { ...this.mapActivityDataToAirtable(stampTenant(dto, TENANT_FIELD, false)), ...this.mapComputedToAirtable(computed) }
+      const records = await this.base(this.tableName).update([{ id, fields }])
+      const [mapped] = await this.mapRecordsWithResolutions(records)
+      return mapped
+    } catch (error: any) {
+      console.error('Error updating Activity Data:', error)
+      throw new Error(`Failed to update Activity Data: ${error.message}`)
+    }
+  }
+
+  /**
+   * Delete an Activity Data record
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await this.base(this.tableName).destroy([id])
+    } catch (error: any) {
+      console.error('Error deleting Activity Data:', error)
+      throw new Error(`Failed to delete Activity Data: ${error.message}`)
+    }
+  }
+
+  /**
+   * Get IDs of every row whose stored CO2e was computed with a given emission factor
+   */
+  async findIdsByEmissionFactor(emissionFactorId: string): Promise<string[]> {
+    try {
+      const selectOptions: Airtable.SelectOptions<any> = { fields: ['Emission Factor'] }
+      const formula = this.buildFilterFormula()
+      if (formula) {
+        selectOptions.filterByFormula = formula
+      }
+      const records = await this.base(this.tableName).select(selectOptions).all()
+
+      return records
+        .filter(record => {
+          const linked = record.fields['Emission Factor']
+          return Array.isArray(linked) && (linked as string[]).includes(emissionFactorId)
+        })
+        .map(record => record.id)
+    } catch (error: any) {
+      console.error('Error fetching Activity Data by emission factor:', error)
+      throw new Error(`Failed to fetch Activity Data for emission factor: ${error.message}`)
+    }
+  }
+
+  /**
+   * Get distinct values for a filter field
+   */
+  async getDistinctValues(field: string, limit: number = 1000): Promise<string[]> {
+    try {
+      const linked = LINKED_FIELDS.find(l => l.field === field || l.nameField === field)
+      const airtableFieldName = linked ? linked.field : field
+      const selectOptions: Airtable.SelectOptions<any> = {
+        fields: [airtableFieldName],
+        maxRecords: limit,
+      }
+      const formula = this.buildFilterFormula()
+      if (formula) {
+        selectOptions.filterByFormula = formula
+      }
+      const records = await this.base(this.tableName).select(selectOptions).all()
+
+      const values = new Set<string>()
+      records.forEach(record => {
+        const value = record.fields[airtableFieldName]
+        if (value !== undefined && value !== null && value !== '') {
+          if (Array.isArray(value)) {
+            value.forEach(v => values.add(String(v)))
+          } else {
+            values.add(String(value))
+          }
+        }
+      })
+
+      // Linked fields hold record IDs - return their display names instead
+      if (linked && values.size > 0) {
+        const resolved = await this.relationshipResolver.resolveLinkedRecords(Array.from(values), linked.table, linked.displayField)
+        return Array.from(new Set(resolved.map(r => r.name))).sort()
+      }
+
+      return Array.from(values).sort()
+    } catch (error: any) {
+      console.error(`Error getting filter values for ${field}:`, error)
+      return []
+    }
+  }
+
+  /**
+   * Build an Airtable formula from filters, a search term and a filter tree, limited to
+   * the rows of the organization in scope
+   */
+  private buildFilterFormula(filters?: Record<string, any>, search?: string, filter?: FilterNode): string {
+    const node = allOf(filtersToFilterNode(filters), searchFilter(['Name', 'Notes'], search), filter, tenantFilter(TENANT_FIELD))
+    if (!node) return ''
+    const linkedField = (field: string) => LINKED_FIELDS.find(l => l.field === field || l.nameField === field)
+    return compileAirtableFormula(node, {
+      fieldName: field => String(linkedField(field)?.field ?? field),
+      // Linked fields evaluate to display names in formulas
+      isListField: field => !!linkedField(field),
+    })
+  }
+
+  /**
+   * Map Airtable records to ActivityData, resolving all linked record names in one batch per table
+   */
+  private async mapRecordsWithResolutions(records: readonly Airtable.Record<any>[]): Promise<ActivityData[]> {
+    const idsByTable: Record<string, Set<string>> = {}
+    records.forEach(record => {
+      LINKED_FIELDS.forEach(({ field, table }) => {
+        const ids = record.fields[field as string]
+        if (!ids) return
+        if (!idsByTable[table]) {
+          idsByTable[table] = new Set()
+        }
+        const idArray: string[] = Array.isArray(ids) ? ids : [ids]
+        idArray.forEach(id => idsByTable[table].add(id))
+      })
+    })
+
+    const resolutionMap = new Map<string, Map<string, string>>()
+    await Promise.all(
+      LINKED_FIELDS.map(async ({ table, displayField }) => {
+        const ids = idsByTable[table]
+        if (!ids || ids.size === 0 || resolutionMap.has(table)) return
+        resolutionMap.set(table, new Map())
+        try {
+          const resolved = await this.relationshipResolver.resolveLinkedRecords(Array.from(ids), table, displayField)
+          resolved.forEach(r => resolutionMap.get(table)!.set(r.id, r.name))
+        } catch (error) {
+          console.warn(`Error batch resolving ${table}:`, error)
+        }
+      })
+    )
+
+    return records.map(record => this.mapAirtableToActivityData(record, resolutionMap))
+  }
+
+  private mapAirtableToActivityData(record: Airtable.Record<any>, resolutionMap: Map<string, Map<string, string>>): ActivityData {
+    const fields = record.fields
+
+    const result: ActivityData = {
+      id: record.id,
+      Name: fields['Name'] || '',
+      Quantity: fields['Quantity'] !== undefined && fields['Quantity'] !== null ? Number(fields['Quantity']) : undefined,
+      'Period Start': fields['Period Start'] || undefined,
+      'Period End': fields['Period End'] || undefined,
+      'Reporting Year': fields['Reporting Year'] !== undefined && fields['Reporting Year'] !== null ? Number(fields['Reporting Year']) : undefined,
+      'Computed CO2e (t)': fields['Computed CO2e (t)'] !== undefined && fields['Computed CO2e (t)'] !== null ? Number(fields['Computed CO2e (t)']) : undefined,
+      'Calculation Status': fields['Calculation Status'] || undefined,
+      'Calculation Error': fields['Calculation Error'] || undefined,
+      'Calculation Trace': fields['Calculation Trace'] || undefined,
+      'Calculated At': fields['Calculated At'] || undefined,
+      Status: fields['Status'] || undefined,
+      Notes: fields['Notes'] || undefined,
+      'Organization ID': fields['Organization ID'] || undefined,
+      createdAt: this.formatDate(record._rawJson?.createdTime),
+      updatedAt: this.formatDate(fields['Last Modified'] || record._rawJson?.createdTime),
+      createdBy: this.getCreatedBy(fields),
+      lastModifiedBy: this.getLastModifiedBy(fields),
+    }
+
+    LINKED_FIELDS.forEach(({ field, nameField, table }) => {
+      const ids = fields[field as string]
+      if (!ids) return
+      const idArray: string[] = Array.isArray(ids) ? ids : [ids]
+      const names = resolutionMap.get(table)
+      ;(result as any)[field] = idArray
+      ;(result as any)[nameField] = idArray.map(id => names?.get(id) || id)
+    })
+
+    return result
+  }
+
+  /**
+   * Map ActivityData DTO to Airtable fields
+   */
+  private mapActivityDataToAirtable(dto: CreateActivityDataDto | UpdateActivityDataDto): Record<string, any> {
+    const fields: Record<string, any> = {}
+    const toLinkArray = (value: string | string[]) => (Array.isArray(value) ? value : [value]).filter(Boolean)
+
+    if (dto.Name !== undefined && dto.Name !== null && String(dto.Name).trim() !== '') {
+      fields['Name'] = String(dto.Name).trim()
+    }
+    if (dto.Quantity !== undefined && dto.Quantity !== null) {
+      fields['Quantity'] = Number(dto.Quantity)
+    }
+    if (dto.Unit !== undefined) {
+      fields['Unit'] = toLinkArray(dto.Unit)
+    }
+    if (dto['Normalized activity'] !== undefined) {
+      fields['Normalized activity'] = toLinkArray(dto['Normalized activity'])
+    }
+    if (dto.Company !== undefined) {
+      fields['Company'] = toLinkArray(dto.Company)
+    }
+    if (dto.Geography !== undefined) {
+      fields['Geography'] = toLinkArray(dto.Geography)
+    }
+    if (dto['Period Start'] !== undefined && dto['Period Start'] !== null && String(dto['Period Start']).trim() !== '') {
+      fields['Period Start'] = String(dto['Period Start']).trim()
+    }
+    if (dto['Period End'] !== undefined && dto['Period End'] !== null && String(dto['Period End']).trim() !== '') {
+      fields['Period End'] = String(dto['Period End']).trim()
+    }
+    if (dto['Reporting Year'] !== undefined && dto['Reporting Year'] !== null) {
+      fields['Reporting Year'] = Number(dto['Reporting Year'])
+    }
+    if (dto['Emission Factor'] !== undefined) {
+      fields['Emission Factor'] = toLinkArray(dto['Emission Factor'])
+    }
+    if (dto.Status !== undefined && dto.Status !== null) {
+      fields['Status'] = String(dto.Status).trim()
+    }
+    if (dto.Notes !== undefined && dto.Notes !== null) {
+      fields['Notes'] = String(dto.Notes).trim()
+    }
+    if (dto['Organization ID'] !== undefined && dto['Organization ID'] !== null) {
+      fields['Organization ID'] = String(dto['Organization ID']).trim()
+    }
+
+    return fields
+  }
+
+  /**
+   * Map calculation output to Airtable fields
+   */
+  private mapComputedToAirtable(computed?: ActivityDataComputedFields): Record<string, any> {
+    if (!computed) return {}
+    const fields: Record<string, any> = {
+      'Computed CO2e (t)': computed['Computed CO2e (t)'] ?? null,
+      'Calculation Status': computed['Calculation Status'],
+      'Calculation Error': computed['Calculation Error'] || '',
+      'Calculation Trace': computed['Calculation Trace'] || '',
+      'Calculated At': computed['Calculated At'],
+    }
+    if (computed['Emission Factor']) {
+      fields['Emission Factor'] = computed['Emission Factor']
+    }
+    return fields
+  }
+
+  private formatDate(dateString?: string): string | undefined {
+    if (!dateString) return undefined
+    return new Date(dateString).toISOString()
+  }
+
+  private getCreatedBy(fields: any): string | undefined {
+    if (fields['Created By']) {
+      const createdBy = Array.isArray(fields['Created By']) ? fields['Created By'][0] : fields['Created By']
+      return typeof createdBy === 'object' && createdBy?.email ? createdBy.email : String(createdBy)
+    }
+    return undefined
+  }
+
+  private getLastModifiedBy(fields: any): string | undefined {
+    if (fields['Last Modified By']) {
+      const lastModifiedBy = Array.isArray(fields['Last Modified By']) ? fields['Last Modified By'][0] : fields['Last Modified By']
+      return typeof lastModifiedBy === 'object' && lastModifiedBy?.email ? lastModifiedBy.email : String(lastModifiedBy)
+    }
+    return undefined
+  }
+}
+
+// Lazy singleton instance
+let activityDataAirtableServiceInstance: ActivityDataAirtableService | null = null
+
+export function getActivityDataAirtableService(): ActivityDataAirtableService {
+  if (!activityDataAirtableServiceInstance) {
+    activityDataAirtableServiceInstance = new ActivityDataAirtableService()
+  }
+  return activityDataAirtableServiceInstance
+}
@@ -0,0 +1,73 @@
+/**
+ * Activity Data Entity Service
+ *
+ * Activity Data ledger table (activity_data) over the entity repository of the
+ * configured database (PostgreSQL, local file or in-memory).
+ * Same interface as ActivityDataAirtableService.
+ */
+
+import { ActivityData, ActivityDataComputedFields, CreateActivityDataDto, UpdateActivityDataDto } from '../types/ActivityData'
+import { EntityCrudService } from '../database/entities/EntityService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+
+/**
+ * Fields written by the calculation engine only - dropped from client DTOs
+ */
+const COMPUTED_FIELDS = ['Computed CO2e (t)', 'Calculation Status', 'Calculation Error', 'Calculation Trace', 'Calculated At']
+
+export class ActivityDataEntityService extends EntityCrudService<ActivityData, CreateActivityDataDto, UpdateActivityDataDto> {
+  constructor() {
+    super(DatabaseFactory.getDatabase().getRepository(ENTITY_DESCRIPTORS.activity_data))
+  }
+
+  /**
+   * Create a new Activity Data record
+   */
+  async create(dto: CreateActivityDataDto, computed?: ActivityDataComputedFields): Promise<ActivityData> {
+    return super.create(this.withComputed(dto, computed))
+  }
+
+  /**
+   * Update an existing Activity Data record
+   */
+  async update(id: string, dto: UpdateActivityDataDto, computed?: ActivityDataComputedFields): Promise<ActivityData> {
+    return super.update(id, this.withComputed(dto, computed))
+  }
+
+  /**
+   * Get IDs of every row whose stored CO2e was computed with a given emission factor
+   */
+  async findIdsByEmissionFactor(emissionFactorId: string): Promise<string[]> {
+    const records = await this.findAll({ 'Emission Factor': emissionFactorId })
+    return records.map(record => record.id).sort()
+  }
+
+  private withComputed<T extends CreateActivityDataDto | UpdateActivityDataDto>(dto: T, computed?: ActivityDataComputedFields): T {
+    const fields: Record<string, any> = { ...dto }
+    COMPUTED_FIELDS.forEach(field => delete fields[field])
+    if (computed) {
+      Object.assign(fields, {
+        'Computed CO2e (t)': computed['Computed CO2e (t)'] ?? null,
+        'Calculation Status': computed['Calculation Status'],
+        'Calculation Error': computed['Calculation Error'] || null,
+        'Calculation Trace': computed['Calculation Trace'] || null,
+        'Calculated At': computed['Calculated At'],
+      })
+      if (computed['Emission Factor']) {
+        fields['Emission Factor'] = computed['Emission Factor']
+      }
+    }
+    return fields as T
+  }
+}
+
+// Singleton instance
+let activityDataEntityServiceInstance: ActivityDataEntityService | null = null
+
+export function getActivityDataEntityService(): ActivityDataEntityService {
+  if (!activityDataEntityServiceInstance) {
+    activityDataEntityServiceInstance = new ActivityDataEntityService()
+  }
+  return activityDataEntityServiceInstance
+}
@@ -0,0 +1,80 @@
+import { ActivityDataRepository } from '../data/ActivityDataRepository'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+import { getStandardEmissionFactorService } from '../database/EntityServiceFactory'
+import { runInTenantScope } from '../auth/TenantContext'
+import { ActivityData } from '../types/ActivityData'
+
+const create = async (table: string, fields: Record<string, any>): Promise<string> =>
+  (await DatabaseFactory.getDatabase().getRepository<any>(ENTITY_DESCRIPTORS[table]).create(fields)).id
+
+const inOrganization = <T>(fn: () => Promise<T>): Promise<T> =>
+  runInTenantScope({ organizationId: 'recOrgA', allOrganizations: false }, fn)
+
+/** Recalculation runs in the background - wait for the row to match */
+async function eventually(id: string, check: (row: ActivityData) => boolean): Promise<ActivityData> {
+  let row: ActivityData | null = null
+  for (let attempt = 0; attempt < 50; attempt++) {
+    row = await inOrganization(() => new ActivityDataRepository().findById(id))
+    if (row && check(row)) {
+      return row
+    }
+    await new Promise(resolve => setTimeout(resolve, 20))
+  }
+  return row!
+}
+
+describe('Activity Data recalculation on factor writes', () => {
+  const repository = new ActivityDataRepository()
+  let kWh: string
+  let kgCO2e: string
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    kWh = await create('units', { Name: 'kWh', Dimension: 'Energy' })
+    kgCO2e = await create('units', { Name: 'kgCO2e', Dimension: 'Mass' })
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('recomputes the rows of a factor whose value changed, and not for other fields', async () => {
+    const electricity = await create('normalized_activities', { Name: 'Electricity' })
+    const factor = await getStandardEmissionFactorService().create({
+      Name: 'Grid electricity', Status: 'Active', 'Normalized activity': [electricity],
+      'Source UOM': [kWh], 'Emission Factor (CO2e)': 0.2, 'GHG Unit (CO2e)': [kgCO2e],
+    })
+    const row = await inOrganization(() => repository.create({
+      Name: 'Office', Quantity: 1000, Unit: [kWh], 'Normalized activity': [electricity],
+    }))
+    expect(row['Computed CO2e (t)']).toBeCloseTo(0.2)
+
+    const recalculate = jest.spyOn(ActivityDataRepository.prototype, 'recalculateForEmissionFactor')
+    await getStandardEmissionFactorService().update(factor.id, { Name: 'Grid electricity (2024)' })
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(recalculate).not.toHaveBeenCalled()
+
+    await getStandardEmissionFactorService().update(factor.id, { 'Emission Factor (CO2e)': 0.3 })
+    const recalculated = await eventually(row.id, current => current['Computed CO2e (t)'] !== row['Computed CO2e (t)'])
+    expect(recalculated['Computed CO2e (t)']).toBeCloseTo(0.3)
+    expect(recalculate).toHaveBeenCalledWith(factor.id)
+  })
+
+  it('computes the rows left without CO2e once an import creates a factor for them', async () => {
+    const heating = await create('normalized_activities', { Name: 'Heating' })
+    const row = await inOrganization(() => repository.create({
+      Name: 'Boiler', Quantity: 500, Unit: [kWh], 'Normalized activity': [heating],
+    }))
+    expect(row['Calculation Status']).toBe('Error')
+
+    await getStandardEmissionFactorService().createMany([{
+      Name: 'Natural gas', Status: 'Active', 'Normalized activity': [heating],
+      'Source UOM': [kWh], 'Emission Factor (CO2e)': 0.18, 'GHG Unit (CO2e)': [kgCO2e],
+    }])
+    const recalculated = await eventually(row.id, current => current['Calculation Status'] === 'Calculated')
+    expect(recalculated['Calculation Status']).toBe('Calculated')
+    expect(recalculated['Computed CO2e (t)']).toBeCloseTo(0.09)
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Activity Data Recalculation
+ *
+ * Keeps the stored CO2e of Activity Data in step with the Standard Emission Factors.
+ * The factor services call these after every write, so that the API, the dataset
+ * import and the generic import all refresh the rows they affect:
+ * - a factor whose value or units changed: the rows calculated with it
+ * - new factors: the rows of their normalized activities that have no CO2e yet
+ *
+ * Recalculation runs in the background - the write does not wait for it, and a failure
+ * is logged, not thrown.
+ */
+
+/**
+ * Factor fields that feed stored Activity Data CO2e values
+ */
+export const EMISSION_FACTOR_CALCULATION_FIELDS = ['Emission Factor (CO2e)', 'GHG Unit (CO2e)', 'Source UOM']
+
+const idsOf = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter(id => typeof id === 'string') : typeof value === 'string' && value ? [value] : []
+
+// ActivityDataRepository reaches the factor services through the calculation engine
+const getRepository = async () => new (await import('../data/ActivityDataRepository')).ActivityDataRepository()
+
+/**
+ * Recalculate the rows of the updated factors whose calculation fields changed
+ */
+export function recalculateForUpdatedEmissionFactors(updates: Array<{ id: string; fields: Record<string, any> }>): void {
+  const ids = updates
+    .filter(({ fields }) => EMISSION_FACTOR_CALCULATION_FIELDS.some(field => fields[field] !== undefined))
+    .map(({ id }) => id)
+  if (ids.length === 0) {
+    return
+  }
+
+  getRepository()
+    .then(async repository => {
+      for (const id of ids) {
+        const result = await repository.recalculateForEmissionFactor(id)
+        console.log(`♻️  Recalculated ${result.recalculated}/${result.total} Activity Data rows for factor ${id}`)
+      }
+    })
+    .catch(error => console.error(`Failed to recalculate Activity Data for factors ${ids.join(', ')}:`, error))
+}
+
+/**
+ * Recalculate the rows without CO2e of the normalized activities of new factors
+ */
+export function recalculateForCreatedEmissionFactors(created: Array<Record<string, any>>): void {
+  const activityIds = Array.from(new Set(created.flatMap(fields => idsOf(fields['Normalized activity']))))
+  if (activityIds.length === 0) {
+    return
+  }
+
+  getRepository()
+    .then(async repository => {
+      const result = await repository.recalculateUncalculated(activityIds)
+      console.log(`♻️  Recalculated ${result.recalculated}/${result.total} Activity Data rows without CO2e after new factors`)
+    })
+    .catch(error => console.error('Failed to recalculate Activity Data after new factors:', error))
+}
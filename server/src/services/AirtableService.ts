@@ -1,6 +1,10 @@
 import Airtable from 'airtable'
-import * as fs from 'fs'
-import * as path from 'path'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, filtersToFilterNode, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
+import { airtableCacheTag, cacheKey, getResponseCache } from '../database/cache/ResponseCache'
+import { registerAirtableCounts } from '../database/airtable/AirtableRecordCounts'
+import { getRecordCountService } from '../database/counts/RecordCountService'
 
 /**
  * Airtable Service
@@ -12,7 +16,7 @@ import * as path from 'path'
 export class AirtableService {
   private base: Airtable.Base
   private tableName: string
-  private readonly cacheFilePath: string
+  private countTable: string
 
   constructor() {
     // Load environment variables explicitly
@@ -38,12 +42,8 @@ export class AirtableService {
                      process.env.AIRTABLE_COMPANY_TABLE_NAME || 
                      'tbl82H6ezrakMSkV1' // Use table ID by default for better reliability
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
-    
-    // Set cache file path
-    this.cacheFilePath = path.join(__dirname, '../../.cache', 'total-count.json')
-    this.loadCacheFromDisk()
+    this.base = getAirtableBase(baseId, apiKey)
+    this.countTable = registerAirtableCounts(baseId, this.base, this.tableName, 'Company Name')
   }
 
   /**
@@ -77,6 +77,7 @@ export class AirtableService {
       primaryActivity: getField(['Primary Activity', 'primaryActivity', 'PrimaryActivity']),
       primaryIndustry: getField(['Primary Industry', 'primaryIndustry', 'PrimaryIndustry']),
       notes: getField(['Notes', 'notes', 'Note', 'note']),
+      organizationId: getField(['Organization ID'], undefined),
       // Airtable automatically tracks created/modified info
       createdBy: this.getCreatedBy(fields),
       created: this.formatDate(this.getCreatedTime(record)),
@@ -185,6 +186,9 @@ export class AirtableService {
     if (dto.notes !== undefined && dto.notes !== null && String(dto.notes).trim() !== '') {
       fields['Notes'] = String(dto.notes).trim()
     }
+    if (dto.organizationId !== undefined && dto.organizationId !== null && String(dto.organizationId).trim() !== '') {
+      fields['Organization ID'] = String(dto.organizationId).trim()
+    }
     
     // Don't include lastModifiedBy or createdBy - Airtable handles these automatically
     delete fields['lastModifiedBy']
@@ -280,7 +284,8 @@ export class AirtableService {
     sortBy?: string, 
     sortOrder: 'asc' | 'desc' = 'asc',
     filters?: Record<string, any>,
-    search?: string
+    search?: string,
+    filter?: FilterNode
   ): Promise<{ records: any[], total: number }> {
     try {
       console.log(`📥 Fetching paginated companies: offset=${offset}, limit=${limit}`)
@@ -306,31 +311,11 @@ export class AirtableService {
         console.log(`   Using default sort: Company Name (asc)`)
       }
       
-      // Build Airtable filter formula if filters or search are provided
-      const filterFormulas: string[] = []
-      
-      if (filters) {
-        Object.entries(filters).forEach(([key, value]) => {
-          if (value) {
-            const airtableFieldName = this.mapFieldNameToAirtable(key)
-            // Escape single quotes in value for Airtable formula
-            const escapedValue = String(value).replace(/'/g, "''")
-            filterFormulas.push(`{${airtableFieldName}} = '${escapedValue}'`)
-          }
-        })
-      }
-      
-      if (search) {
-        // Search across multiple fields using OR logic
-        const searchFields = ['Company Name', 'ISIN Code', 'Primary Sector', 'Primary Activity', 'Primary Industry']
-        const escapedSearch = search.replace(/'/g, "''")
-        const searchFormulas = searchFields.map(field => 
-          `FIND(LOWER('${escapedSearch}'), LOWER({${field}})) > 0`
-        )
-        filterFormulas.push(`OR(${searchFormulas.join(', ')})`)
-      }
-      
-      const filterFormula = filterFormulas.length > 0 ? `AND(${filterFormulas.join(', ')})` : undefined
+      // Build Airtable filter formula
+      const filterNode = allOf(filtersToFilterNode(filters), searchFilter(['Company Name', 'ISIN Code', 'Primary Sector', 'Primary Activity', 'Primary Industry'], search), filter)
+      const filterFormula = filterNode
+        ? compileAirtableFormula(filterNode, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : undefined
       
       if (filterFormula) {
         console.log(`   Applying filter formula: ${filterFormula}`)
@@ -422,14 +407,9 @@ export class AirtableService {
       console.log(`✅ Fetched ${paginatedRecords.length} records from pages ${startPage}-${endPage}`)
       
       // Get total count - if filters are applied, count filtered results
-      let total: number
+      const total = await getRecordCountService().getCount(this.countTable, filterFormula || '')
       if (filterFormula) {
-        // Count filtered records
-        total = await this.getFilteredCount(filterFormula)
         console.log(`   Filtered total count: ${total}`)
-      } else {
-        // Use cached total count for unfiltered results
-        total = await this.getTotalCount(true)
       }
       
       return {
@@ -442,233 +422,19 @@ export class AirtableService {
     }
   }
 
-  // Cache for total count to avoid repeated expensive queries
-  private totalCountCache: { count: number; timestamp: number } | null = null
-  private readonly COUNT_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
-  private countCalculationPromise: Promise<number> | null = null // Track ongoing calculation
-  
-  // Cache for distinct field values
-  private distinctValuesCache: Map<string, { values: string[]; timestamp: number }> = new Map()
-  private readonly DISTINCT_VALUES_CACHE_TTL = 10 * 60 * 1000 // 10 minutes
-
-  /**
-   * Load cache from disk on startup
-   */
-  private loadCacheFromDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      
-      if (fs.existsSync(this.cacheFilePath)) {
-        const cacheData = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf8'))
-        const age = Date.now() - cacheData.timestamp
-        
-        // Use cache if less than 1 hour old (longer TTL for disk cache)
-        if (age < 60 * 60 * 1000) {
-          this.totalCountCache = cacheData
-          console.log(`📊 Loaded total count from disk cache: ${cacheData.count} (age: ${Math.round(age / 1000 / 60)}min)`)
-        }
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not load count cache from disk:', error)
-    }
-  }
-
-  /**
-   * Save cache to disk
-   */
-  private saveCacheToDisk(): void {
-    try {
-      if (this.totalCountCache) {
-        const cacheDir = path.dirname(this.cacheFilePath)
-        if (!fs.existsSync(cacheDir)) {
-          fs.mkdirSync(cacheDir, { recursive: true })
-        }
-        fs.writeFileSync(this.cacheFilePath, JSON.stringify(this.totalCountCache), 'utf8')
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not save count cache to disk:', error)
-    }
-  }
-
-  /**
-   * Get total count with lazy calculation and estimation
-   * Returns cached value immediately, calculates in background if needed
-   */
-  async getTotalCount(lazy: boolean = true): Promise<number> {
-    try {
-      // Return cached count if still valid
-      if (this.totalCountCache && Date.now() - this.totalCountCache.timestamp < this.COUNT_CACHE_TTL) {
-        console.log(`📊 Using cached total count: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
+  // Distinct values are kept in the shared response cache, which drops them when the
+  // table is written (see database/airtable/AirtableClient)
+  private readonly DISTINCT_VALUES_CACHE_TTL = 10 * 60 // 10 minutes
 
-      // If lazy mode and no cache, return estimate and calculate in background
-      if (lazy && !this.totalCountCache) {
-        console.log(`📊 No cache available, returning estimate and calculating in background...`)
-        
-        // Return a reasonable estimate (can be improved with sampling)
-        const estimate = 15000 // Conservative estimate based on known dataset size
-        
-        // Start background calculation (don't await)
-        this.calculateTotalCountInBackground()
-        
-        return estimate
-      }
-
-      // If not lazy or cache exists but expired, calculate synchronously
-      return await this.calculateTotalCount()
-    } catch (error: any) {
-      console.error('Error getting total count:', error)
-      // Return cached value if available, even if expired
-      if (this.totalCountCache) {
-        console.warn(`⚠️  Using expired cache: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
-      console.warn('⚠️  Could not get count, returning estimate')
-      return 15000 // Return estimate as fallback
-    }
+  private get cacheTags(): string[] {
+    return [airtableCacheTag(this.tableName)]
   }
 
   /**
-   * Calculate total count in background (non-blocking)
+   * Get the exact number of companies, kept up to date by the record count service
    */
-  private calculateTotalCountInBackground(): void {
-    // Prevent multiple simultaneous calculations
-    if (this.countCalculationPromise) {
-      return
-    }
-
-    this.countCalculationPromise = this.calculateTotalCount()
-      .then((count) => {
-        console.log(`✅ Background count calculation complete: ${count}`)
-        this.countCalculationPromise = null
-        return count
-      })
-      .catch((error) => {
-        console.error('❌ Background count calculation failed:', error)
-        this.countCalculationPromise = null
-        throw error
-      })
-  }
-
-  /**
-   * Calculate total count (actual implementation)
-   */
-  private async calculateTotalCount(): Promise<number> {
-    console.log(`📊 Calculating total count...`)
-    let count = 0
-    
-    // Use a timeout to prevent hanging
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Count calculation timeout')), 20000) // 20 second timeout
-    })
-
-    const countPromise = new Promise<number>((resolve, reject) => {
-      this.base(this.tableName)
-        .select({
-          fields: ['Company Name'], // Only fetch Company Name field to minimize data transfer
-          pageSize: 100, // Max page size for efficiency
-        })
-        .eachPage(
-          (records, fetchNextPage) => {
-            count += records.length
-            fetchNextPage()
-          },
-          (err) => {
-            if (err) {
-              reject(err)
-            } else {
-              resolve(count)
-            }
-          }
-        )
-    })
-
-    try {
-      // Race between count calculation and timeout
-      count = await Promise.race([countPromise, timeoutPromise])
-      
-      // Cache the result
-      this.totalCountCache = {
-        count,
-        timestamp: Date.now()
-      }
-      
-      // Save to disk for persistence across restarts
-      this.saveCacheToDisk()
-      
-      console.log(`📊 Total count: ${count} companies (cached)`)
-      return count
-    } catch (error: any) {
-      if (error.message === 'Count calculation timeout') {
-        console.warn('⚠️  Count calculation timed out, using estimate')
-        // Return estimate if calculation times out
-        return 15000
-      }
-      throw error
-    }
-  }
-
-  /**
-   * Clear the total count cache (call after create/delete operations)
-   */
-  clearCountCache(): void {
-    this.totalCountCache = null
-    // Also clear disk cache
-    try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        fs.unlinkSync(this.cacheFilePath)
-      }
-    } catch (error) {
-      console.warn('Could not delete disk cache:', error)
-    }
-  }
-
-  /**
-   * Clear the distinct values cache (call after data modifications)
-   */
-  clearDistinctValuesCache(): void {
-    this.distinctValuesCache.clear()
-    console.log('🗑️  Distinct values cache cleared')
-  }
-
-  /**
-   * Get count of records matching a filter formula
-   * Used for pagination when filters are applied
-   */
-  private async getFilteredCount(filterFormula: string): Promise<number> {
-    try {
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select({
-            filterByFormula: filterFormula,
-            fields: ['Company Name'], // Only fetch minimal data for counting
-            pageSize: 100,
-          })
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) {
-                reject(err)
-              } else {
-                resolve()
-              }
-            }
-          )
-      })
-      return count
-    } catch (error: any) {
-      console.error('Error getting filtered count:', error)
-      // Fallback: return a reasonable estimate
-      return 0
-    }
+  async getTotalCount(): Promise<number> {
+    return getRecordCountService().getCount(this.countTable)
   }
 
   /**
@@ -678,11 +444,11 @@ export class AirtableService {
   async getDistinctValues(fieldName: string, limit: number = 1000): Promise<string[]> {
     try {
       // Check cache first
-      const cacheKey = `${fieldName}_${limit}`
-      const cached = this.distinctValuesCache.get(cacheKey)
-      if (cached && Date.now() - cached.timestamp < this.DISTINCT_VALUES_CACHE_TTL) {
-        console.log(`📊 Using cached distinct values for ${fieldName}: ${cached.values.length} values`)
-        return cached.values
+      const distinctKey = cacheKey('airtable', this.tableName, 'distinct', fieldName, limit)
+      const [cached] = await getResponseCache().getMany<string[]>([distinctKey])
+      if (cached) {
+        console.log(`📊 Using cached distinct values for ${fieldName}: ${cached.length} values`)
+        return cached
       }
       
       console.log(`📊 Fetching distinct values for field: ${fieldName}`)
@@ -808,10 +574,7 @@ export class AirtableService {
       console.log(`✅ Found ${values.length} distinct values for ${fieldName}:`, values.slice(0, 10).join(', '), values.length > 10 ? '...' : '')
       
       // Cache the results
-      this.distinctValuesCache.set(cacheKey, {
-        values,
-        timestamp: Date.now(),
-      })
+      await getResponseCache().set(distinctKey, values, this.cacheTags, this.DISTINCT_VALUES_CACHE_TTL)
       
       return values
     } catch (error: any) {
@@ -834,6 +597,7 @@ export class AirtableService {
       'primaryIndustry': 'Primary Industry',
       'primaryActivity': 'Primary Activity',
       'primarySector': 'Primary Sector',
+      'organizationId': 'Organization ID',
     }
     const mapped = fieldMap[fieldName] || fieldName
     // Only log if mapping was found (to reduce noise)
@@ -880,10 +644,6 @@ export class AirtableService {
       const record = await this.base(this.tableName).create(airtableFields)
       console.log(`✅ Successfully created company in Airtable: ${record.id}`)
       
-      // Clear count cache since we added a record
-      this.clearCountCache()
-      this.clearDistinctValuesCache() // Also clear filter options cache
-      
       const mappedCompany = this.mapAirtableToCompany(record)
       console.log(`✅ Mapped company:`, { id: mappedCompany.id, companyName: mappedCompany.companyName })
       return mappedCompany
@@ -941,9 +701,6 @@ export class AirtableService {
   async delete(id: string): Promise<boolean> {
     try {
       await this.base(this.tableName).destroy(id)
-      // Clear count cache since we deleted a record
-      this.clearCountCache()
-      this.clearDistinctValuesCache() // Also clear filter options cache
       return true
     } catch (error: any) {
       if (error.statusCode === 404 || error.error === 'NOT_FOUND') {
@@ -1,4 +1,7 @@
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, eqFilter, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
 import { EFDetailedG, CreateEFDetailedGDto, UpdateEFDetailedGDto } from '../types/EFDetailedG'
 import { RelationshipResolver } from './RelationshipResolver'
 
@@ -27,8 +30,7 @@ export class EFDetailedGAirtableService {
                      process.env.AIRTABLE_EF_DETAILED_G_TABLE_NAME || 
                      'EF/Detailed G'
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
     this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
     
     console.log(`🌿 EFDetailedGAirtableService initialized:`)
@@ -46,28 +48,17 @@ export class EFDetailedGAirtableService {
     sortOrder?: 'asc' | 'desc'
     search?: string
     status?: string
+    filter?: FilterNode
   }): Promise<{ data: EFDetailedG[]; total: number }> {
     try {
-      let formula = ''
-      const conditions: string[] = []
-
-      // Status filter
-      if (params.status) {
-        conditions.push(`{Status} = "${params.status}"`)
-      }
-
-      // Search filter
-      if (params.search) {
-        const searchTerm = params.search.trim().replace(/"/g, '\\"')
-        conditions.push(`OR(
-          FIND("${searchTerm}", LOWER({Name})) > 0,
-          FIND("${searchTerm}", LOWER({Description})) > 0
-        )`)
-      }
-
-      if (conditions.length > 0) {
-        formula = `AND(${conditions.join(', ')})`
-      }
+      const filter = allOf(
+        params.status ? eqFilter('Status', params.status) : undefined,
+        searchFilter(['Name', 'Description'], params.search),
+        params.filter
+      )
+      const formula = filter
+        ? compileAirtableFormula(filter, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : ''
 
       const selectOptions: Airtable.SelectOptions<any> = {}
       if (formula) {
@@ -246,6 +237,7 @@ export class EFDetailedGAirtableService {
       Name: fields['Name'] || '',
       Description: fields['Description'] || '',
       Status: fields['Status'] || 'Active',
+      'Emission Factor': fields['Emission Factor'] !== undefined && fields['Emission Factor'] !== null ? Number(fields['Emission Factor']) : undefined,
       'EF GWP': fields['EF GWP'] || undefined,
       'EF GWP Name': efGwpNames.map(r => r.name),
       'GHG TYPE': fields['GHG TYPE'] || undefined,
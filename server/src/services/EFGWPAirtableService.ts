@@ -1,6 +1,9 @@
 import Airtable from 'airtable'
-import * as fs from 'fs'
-import * as path from 'path'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, containsFilter, filtersToFilterNode, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula, formulaRecordIds } from '../database/filters/AirtableFormula'
+import { registerAirtableCounts } from '../database/airtable/AirtableRecordCounts'
+import { getRecordCountService } from '../database/counts/RecordCountService'
 import { RelationshipResolver } from './RelationshipResolver'
 
 /**
@@ -13,9 +16,7 @@ import { RelationshipResolver } from './RelationshipResolver'
 export class EFGWPAirtableService {
   private base: Airtable.Base
   private tableName: string
-  private readonly cacheFilePath: string
-  private totalCountCache: { count: number; timestamp: number } | null = null
-  private readonly COUNT_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+  private countTable: string
   private distinctValuesCache: Map<string, { values: string[]; timestamp: number }> = new Map()
   private readonly DISTINCT_VALUES_CACHE_TTL = 10 * 60 * 1000 // 10 minutes
   private relationshipResolver: RelationshipResolver | null = null
@@ -42,70 +43,11 @@ export class EFGWPAirtableService {
     console.log(`   Table: ${this.tableName}`)
     console.log(`   API Key: ${apiKey ? apiKey.substring(0, 20) + '...' : 'NOT SET'}`)
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
+    this.countTable = registerAirtableCounts(baseId, this.base, this.tableName)
     
     // Initialize relationship resolver
     this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
-    
-    // Set cache file path
-    this.cacheFilePath = path.join(__dirname, '../../.cache', 'ef-gwp-total-count.json')
-    this.loadCacheFromDisk()
-  }
-
-  /**
-   * Load total count cache from disk
-   */
-  private loadCacheFromDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      
-      if (fs.existsSync(this.cacheFilePath)) {
-        const cacheData = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf8'))
-        const age = Date.now() - cacheData.timestamp
-        
-        if (age < 60 * 60 * 1000) {
-          this.totalCountCache = cacheData
-          console.log(`📊 Loaded EF GWP total count from disk cache: ${cacheData.count}`)
-        }
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not load EF GWP count cache from disk:', error)
-    }
-  }
-
-  /**
-   * Save total count cache to disk
-   */
-  private saveCacheToDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      if (this.totalCountCache) {
-        fs.writeFileSync(this.cacheFilePath, JSON.stringify(this.totalCountCache), 'utf-8')
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not save EF GWP count cache to disk:', error)
-    }
-  }
-
-  /**
-   * Clear total count cache
-   */
-  private clearCountCache(): void {
-    this.totalCountCache = null
-    try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        fs.unlinkSync(this.cacheFilePath)
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not delete EF GWP count cache file:', error)
-    }
   }
 
   /**
@@ -327,44 +269,26 @@ export class EFGWPAirtableService {
     sortBy?: string, 
     sortOrder: 'asc' | 'desc' = 'asc',
     filters?: Record<string, any>,
-    search?: string
+    search?: string,
+    filter?: FilterNode
   ): Promise<{ records: any[], total: number }> {
     try {
       const sortField = sortBy && sortBy.trim() !== '' ? this.mapFieldNameToAirtable(sortBy) : 'Name' // Default to 'Name' field
       const sortDirection = sortOrder === 'desc' ? 'desc' : 'asc'
       
       // Build Airtable filter formula
-      const filterFormulas: string[] = []
-      
-      if (filters) {
-        Object.entries(filters).forEach(([key, value]) => {
-          if (value) {
-            // Handle linked record filters (e.g., greenHouseGas)
-            if (key === 'greenHouseGas') {
-              // Filter by linked record ID in "Green House Gas" field
-              // Airtable linked records are stored as arrays of record IDs
-              const escapedValue = String(value).replace(/'/g, "''")
-              filterFormulas.push(`FIND('${escapedValue}', ARRAYJOIN({Green House Gas}, ',')) > 0`)
-            } else {
-              const airtableFieldName = this.mapFieldNameToAirtable(key)
-              const escapedValue = String(value).replace(/'/g, "''")
-              filterFormulas.push(`{${airtableFieldName}} = '${escapedValue}'`)
-            }
-          }
-        })
-      }
-      
-      if (search) {
+      const { greenHouseGas, ...fieldFilters } = filters || {}
+      const filterNode = allOf(
+        filtersToFilterNode(fieldFilters),
+        // Linked record filter (e.g., greenHouseGas): matched within the "Green House Gas" field
+        greenHouseGas ? containsFilter('Green House Gas', String(greenHouseGas)) : undefined,
         // Search in EF GWP table fields: Name, Notes
-        const searchFields = ['Name', 'Notes'] // Use actual Airtable field names
-        const escapedSearch = search.replace(/'/g, "''")
-        const searchFormulas = searchFields.map(field => 
-          `FIND(LOWER('${escapedSearch}'), LOWER({${field}})) > 0`
-        )
-        filterFormulas.push(`OR(${searchFormulas.join(', ')})`)
-      }
-      
-      const filterFormula = filterFormulas.length > 0 ? `AND(${filterFormulas.join(', ')})` : undefined
+        searchFilter(['Name', 'Notes'], search),
+        filter
+      )
+      const filterFormula = filterNode
+        ? compileAirtableFormula(filterNode, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : undefined
       
       let allRecords: Airtable.Record<any>[] = []
       let currentPage = 0
@@ -408,12 +332,7 @@ export class EFGWPAirtableService {
       const paginatedRecords = allRecords.slice(startIndexInFetched, startIndexInFetched + limit)
       
       // Get total count
-      let total: number
-      if (filterFormula) {
-        total = await this.getFilteredCount(filterFormula)
-      } else {
-        total = await this.getTotalCount(true)
-      }
+      const total = await getRecordCountService().getCount(this.countTable, filterFormula || '')
 
       const mappedRecords = paginatedRecords.map(record => this.mapAirtableToEFGWP(record))
       
@@ -473,7 +392,6 @@ export class EFGWPAirtableService {
     try {
       const airtableFields = this.mapEFGWPToAirtable(fields)
       const record = await this.base(this.tableName).create(airtableFields)
-      this.clearCountCache()
       this.clearDistinctValuesCache()
       return this.mapAirtableToEFGWP(record)
     } catch (error: any) {
@@ -507,7 +425,6 @@ export class EFGWPAirtableService {
   async delete(id: string): Promise<boolean> {
     try {
       await this.base(this.tableName).destroy(id)
-      this.clearCountCache()
       this.clearDistinctValuesCache()
       return true
     } catch (error: any) {
@@ -519,71 +436,10 @@ export class EFGWPAirtableService {
   }
 
   /**
-   * Get total count
+   * Get the exact number of EF/GWP records, kept up to date by the record count service
    */
-  async getTotalCount(lazy: boolean = true): Promise<number> {
-    try {
-      if (this.totalCountCache && Date.now() - this.totalCountCache.timestamp < this.COUNT_CACHE_TTL) {
-        return this.totalCountCache.count
-      }
-
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select({
-            fields: ['Name'], // EF GWP table uses 'Name' field
-            pageSize: 100,
-          })
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) reject(err)
-              else resolve()
-            }
-          )
-      })
-      
-      this.totalCountCache = { count, timestamp: Date.now() }
-      this.saveCacheToDisk()
-      return count
-    } catch (error: any) {
-      console.error('Error getting total count:', error)
-      return this.totalCountCache?.count || 0
-    }
-  }
-
-  /**
-   * Get count of records matching a filter formula
-   */
-  private async getFilteredCount(filterFormula: string): Promise<number> {
-    try {
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select({
-            filterByFormula: filterFormula,
-            fields: ['Name'], // EF GWP table uses 'Name' field
-            pageSize: 100,
-          })
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) reject(err)
-              else resolve()
-            }
-          )
-      })
-      return count
-    } catch (error: any) {
-      console.error('Error getting filtered count:', error)
-      return 0
-    }
+  async getTotalCount(): Promise<number> {
+    return getRecordCountService().getCount(this.countTable)
   }
 
   /**
@@ -770,7 +626,7 @@ export class EFGWPAirtableService {
           const idsArray = Array.from(ghgTypeIds)
           for (let i = 0; i < idsArray.length; i += 50) {
             const batch = idsArray.slice(i, i + 50)
-            const formula = `OR(${batch.map(id => `RECORD_ID() = '${id.replace(/'/g, "''")}'`).join(', ')})`
+            const formula = formulaRecordIds(batch)
             
             const records = await this.base(ghgTypeTableName)
               .select({
@@ -864,7 +720,7 @@ export class EFGWPAirtableService {
         const idsArray = Array.from(protocolIds)
         for (let i = 0; i < idsArray.length; i += 50) {
           const batch = idsArray.slice(i, i + 50)
-          const formula = `OR(${batch.map(id => `RECORD_ID() = '${id.replace(/'/g, "''")}'`).join(', ')})`
+          const formula = formulaRecordIds(batch)
           
           const records = await this.base(protocolTableName)
             .select({
@@ -925,7 +781,7 @@ export class EFGWPAirtableService {
         const idsArray = Array.from(efDetailedGIds)
         for (let i = 0; i < idsArray.length; i += 50) {
           const batch = idsArray.slice(i, i + 50)
-          const formula = `OR(${batch.map(id => `RECORD_ID() = '${id.replace(/'/g, "''")}'`).join(', ')})`
+          const formula = formulaRecordIds(batch)
           
           const records = await this.base(efDetailedGTableName)
             .select({
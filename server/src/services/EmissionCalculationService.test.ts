@@ -0,0 +1,112 @@
+import { Request, Response } from 'express'
+import { EmissionCalculationService, getTonnesMultiplier } from './EmissionCalculationService'
+import { calculationController } from '../controllers/CalculationController'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+
+const create = async (table: string, fields: Record<string, any>): Promise<string> =>
+  (await DatabaseFactory.getDatabase().getRepository<any>(ENTITY_DESCRIPTORS[table]).create(fields)).id
+
+describe('getTonnesMultiplier', () => {
+  it('converts the masses of CO2e it knows to tonnes', () => {
+    expect(getTonnesMultiplier('kgCO2e')).toBe(0.001)
+    expect(getTonnesMultiplier('g CO2e')).toBe(0.000001)
+    expect(getTonnesMultiplier('tCO2e')).toBe(1)
+    expect(getTonnesMultiplier('MtCO2e')).toBe(1000000)
+    expect(getTonnesMultiplier('lb CO2-eq')).toBe(0.00045359237)
+  })
+
+  it('refuses other units rather than reading them as kg', () => {
+    expect(getTonnesMultiplier('tonne.km')).toBeNull()
+    expect(getTonnesMultiplier('kgCH4')).toBeNull()
+    expect(getTonnesMultiplier(undefined)).toBeNull()
+  })
+})
+
+describe('EmissionCalculationService', () => {
+  let service: EmissionCalculationService
+  let units: Record<string, string>
+  let electricity: string
+  let factor: string
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    units = {
+      kWh: await create('units', { Name: 'kWh', Dimension: 'Energy' }),
+      MWh: await create('units', { Name: 'MWh', Dimension: 'Energy' }),
+      litre: await create('units', { Name: 'litre', Dimension: 'Volume' }),
+      kgCO2e: await create('units', { Name: 'kgCO2e', Dimension: 'Mass' }),
+      tkm: await create('units', { Name: 'tonne.km', Dimension: 'Transport' }),
+    }
+    await create('unit_conversions', { Name: 'MWh to kWh', 'Unit to convert': [units.MWh], 'Normalized unit': [units.kWh], Value: 1, 'Conversion value': 1000, Status: 'Active' })
+    electricity = await create('normalized_activities', { Name: 'Electricity' })
+    factor = await create('standard_emission_factors', {
+      Name: 'Grid electricity', Status: 'Active', 'Normalized activity': [electricity],
+      'Source UOM': [units.kWh], 'Emission Factor (CO2e)': 0.2, 'GHG Unit (CO2e)': [units.kgCO2e],
+    })
+    service = new EmissionCalculationService()
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('converts the quantity to the factor\'s unit and the result to tonnes, with the records used', async () => {
+    const result = await service.calculate({ quantity: 2, unit: units.MWh, normalizedActivity: electricity })
+    expect(result.convertedQuantity).toBe(2000)
+    expect(result.tCO2e).toBeCloseTo(0.4)
+    expect(result.trace.emissionFactor).toMatchObject({ id: factor, value: 0.2, ghgUnit: 'kgCO2e' })
+    expect(result.trace.conversions.map(step => [step.from.name, step.to.name, step.factor])).toEqual([['MWh', 'kWh', 1000]])
+    expect(result.trace.ghgUnitToTonnes).toBe(0.001)
+  })
+
+  it('refuses units of another dimension and factors in an unknown GHG unit', async () => {
+    await expect(service.calculate({ quantity: 2, unit: units.litre, normalizedActivity: electricity }))
+      .rejects.toMatchObject({ name: 'CalculationResolutionError' })
+
+    const perTonneKm = await create('standard_emission_factors', {
+      Name: 'Freight', Status: 'Active', 'Normalized activity': [electricity],
+      'Source UOM': [units.kWh], 'Emission Factor (CO2e)': 5, 'GHG Unit (CO2e)': [units.tkm],
+    })
+    await expect(service.calculate({ quantity: 1, unit: units.kWh, normalizedActivity: electricity, emissionFactor: perTonneKm }))
+      .rejects.toThrow('has GHG unit "tonne.km", which is not a known mass of CO2e')
+  })
+
+  it('refuses quantities that are not finite numbers', async () => {
+    await expect(service.calculate({ quantity: Infinity, unit: units.kWh, normalizedActivity: electricity }))
+      .rejects.toMatchObject({ name: 'CalculationValidationError', field: 'quantity' })
+  })
+})
+
+describe('POST /api/calculations', () => {
+  const post = async (body: Record<string, any>) => {
+    let status = 200
+    let json: any
+    const res = {
+      status(code: number) {
+        status = code
+        return this
+      },
+      json(payload: any) {
+        json = payload
+        return this
+      },
+    } as unknown as Response
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    try {
+      await calculationController.calculate({ body } as Request, res)
+    } finally {
+      consoleError.mockRestore()
+    }
+    return { status, json }
+  }
+
+  it('refuses blank and non-numeric quantities instead of reading them as 0', async () => {
+    for (const quantity of ['', '  ', 'ten', 'Infinity']) {
+      expect(await post({ quantity, unit: 'recUnit', normalizedActivity: 'recActivity' })).toEqual({
+        status: 400,
+        json: { success: false, error: 'quantity must be a number', field: 'quantity' },
+      })
+    }
+  })
+})
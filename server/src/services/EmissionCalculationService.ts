@@ -0,0 +1,232 @@
+/**
+ * Emission Calculation Service
+ *
+ * Computes tCO2e for an activity quantity by:
+ * 1. Choosing the Standard Emission Factor for the Normalized Activity with the
+ *    factor resolution rules (geography, version in force, industry classification)
+ * 2. Converting the quantity into the factor's Source UOM through the Unit Conversion graph
+ * 3. Applying the factor and normalising its GHG unit to tonnes CO2e
+ *
+ * Every record used along the way is returned in the calculation trace.
+ */
+
+import {
+  getStandardEmissionFactorService,
+  StandardEmissionFactorService,
+  getUnitService,
+  UnitService,
+} from '../database/EntityServiceFactory'
+import { UnitConversionGraphService, getUnitConversionGraphService } from './UnitConversionGraphService'
+import { EmissionFactorResolutionService, getEmissionFactorResolutionService } from './EmissionFactorResolutionService'
+import { StandardEmissionFactor } from '../types/StandardEmissionFactor'
+import { FactorResolutionResult } from '../types/FactorResolution'
+import {
+  EmissionCalculationInput,
+  EmissionCalculationResult,
+  EmissionCalculationTrace,
+  ConversionStep,
+  CalculationValidationError,
+  CalculationResolutionError,
+} from '../types/Calculation'
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value
+
+/** Tonnes per unit of the mass a GHG unit is counted in (lower-cased, Mt = megatonne) */
+const TONNES_PER_MASS_UNIT: Record<string, number> = {
+  g: 0.000001,
+  kg: 0.001,
+  t: 1,
+  tonne: 1,
+  tonnes: 1,
+  mt: 1000000,
+  lb: 0.00045359237,
+  lbs: 0.00045359237,
+}
+
+/**
+ * Multiplier from a GHG unit (kgCO2e, tCO2e, MtCO2e, lb CO2e...) to tonnes CO2e -
+ * null for any other unit, rather than a guess
+ */
+export function getTonnesMultiplier(ghgUnit?: string): number | null {
+  const match = (ghgUnit || '').replace(/\s+/g, '').match(/^([a-z]+?)(co2e?|co2-?eq)?$/i)
+  if (!match) return null
+  return TONNES_PER_MASS_UNIT[match[1].toLowerCase()] ?? null
+}
+
+export class EmissionCalculationService {
+  private factorService: StandardEmissionFactorService
+  private conversionGraph: UnitConversionGraphService
+  private unitService: UnitService
+  private resolutionService: EmissionFactorResolutionService
+
+  constructor() {
+    this.factorService = getStandardEmissionFactorService()
+    this.conversionGraph = getUnitConversionGraphService()
+    this.unitService = getUnitService()
+    this.resolutionService = getEmissionFactorResolutionService()
+  }
+
+  /**
+   * Calculate emissions for a single activity quantity
+   */
+  async calculate(input: EmissionCalculationInput): Promise<EmissionCalculationResult> {
+    this.validateInput(input)
+
+    const unit = await this.unitService.getById(input.unit)
+    if (!unit) {
+      throw new CalculationValidationError(`Unit not found: ${input.unit}`, 'unit')
+    }
+
+    const selected = await this.selectFactor(input, unit.Name)
+    const { factor, steps } = selected
+    const factorValue = factor['Emission Factor (CO2e)']
+    if (factorValue === undefined || factorValue === null || isNaN(factorValue)) {
+      throw new CalculationResolutionError(`Emission factor ${factor.id} has no Emission Factor (CO2e) value`)
+    }
+
+    const ghgUnit = firstValue(factor['GHG Unit (CO2e) Name'])
+    const ghgUnitToTonnes = getTonnesMultiplier(ghgUnit)
+    if (ghgUnitToTonnes === null) {
+      throw new CalculationResolutionError(
+        ghgUnit
+          ? `Emission factor ${factor.Name || factor.id} has GHG unit "${ghgUnit}", which is not a known mass of CO2e (g, kg, t, Mt or lb)`
+          : `Emission factor ${factor.Name || factor.id} has no GHG Unit (CO2e)`
+      )
+    }
+    const convertedQuantity = steps.reduce((value, step) => value * step.factor, input.quantity)
+    const tCO2e = convertedQuantity * factorValue * ghgUnitToTonnes
+
+    return {
+      quantity: input.quantity,
+      unit: { id: unit.id, name: unit.Name },
+      convertedQuantity,
+      tCO2e,
+      trace: {
+        normalizedActivity: {
+          id: input.normalizedActivity,
+          name: firstValue(factor['Normalized activity Name']),
+        },
+        emissionFactor: {
+          id: factor.id,
+          name: factor.Name,
+          value: factorValue,
+          ghgUnit,
+          sourceUom: {
+            id: firstValue(factor['Source UOM']) as string,
+            name: firstValue(factor['Source UOM Name']),
+          },
+          version: firstValue(factor['Version Name']),
+        },
+        candidateFactorIds: selected.candidateFactorIds,
+        resolution: selected.resolution,
+        conversions: steps,
+        ghgUnitToTonnes,
+      },
+    }
+  }
+
+  /**
+   * Clear the in-memory Unit Conversion graph and resolution reference data
+   */
+  clearCache(): void {
+    this.conversionGraph.clearCache()
+    this.resolutionService.clearCache()
+  }
+
+  private validateInput(input: EmissionCalculationInput): void {
+    if (typeof input.quantity !== 'number' || !Number.isFinite(input.quantity)) {
+      throw new CalculationValidationError('quantity must be a number', 'quantity')
+    }
+    if (!input.unit || typeof input.unit !== 'string') {
+      throw new CalculationValidationError('unit is required', 'unit')
+    }
+    if (!input.normalizedActivity || typeof input.normalizedActivity !== 'string') {
+      throw new CalculationValidationError('normalizedActivity is required', 'normalizedActivity')
+    }
+  }
+
+  /**
+   * Use the explicit factor when given, otherwise let the resolution rules pick one
+   */
+  private async selectFactor(input: EmissionCalculationInput, unitName?: string): Promise<{
+    factor: StandardEmissionFactor
+    steps: ConversionStep[]
+    candidateFactorIds: string[]
+    resolution?: EmissionCalculationTrace['resolution']
+  }> {
+    if (input.emissionFactor) {
+      const factor = await this.factorService.getById(input.emissionFactor)
+      if (!factor) {
+        throw new CalculationValidationError(`Emission factor not found: ${input.emissionFactor}`, 'emissionFactor')
+      }
+      const steps = await this.findSteps(input.unit, factor)
+      if (!steps) {
+        throw new CalculationResolutionError(
+          `Emission factor ${factor.Name || factor.id} cannot be reached from unit "${unitName || input.unit}"`
+        )
+      }
+      return { factor, steps, candidateFactorIds: [factor.id] }
+    }
+
+    let resolution: FactorResolutionResult
+    try {
+      resolution = await this.resolutionService.resolve({
+        normalizedActivity: input.normalizedActivity,
+        geography: input.geography,
+        reportingDate: input.reportingDate,
+        industryClassification: input.industryClassification,
+        unit: input.unit,
+      })
+    } catch (error: any) {
+      if (error?.name === 'FactorResolutionValidationError') {
+        throw new CalculationValidationError(error.message, error.field)
+      }
+      throw error
+    }
+
+    if (!resolution.selected) {
+      const reasons = resolution.candidates
+        .map(candidate => `${candidate.factor.name || candidate.factor.id}: ${candidate.rejectedReasons.join('; ')}`)
+      throw new CalculationResolutionError(
+        resolution.candidates.length === 0
+          ? `No emission factor found for activity ${input.normalizedActivity}`
+          : `No emission factor for activity ${input.normalizedActivity} can be used from unit "${unitName || input.unit}" (${reasons.join(' | ')})`
+      )
+    }
+
+    const factor = await this.factorService.getById(resolution.selected.factor.id)
+    const steps = factor ? await this.findSteps(input.unit, factor) : null
+    if (!factor || !steps) {
+      throw new CalculationResolutionError(`Emission factor ${resolution.selected.factor.id} could not be loaded`)
+    }
+
+    return {
+      factor,
+      steps,
+      candidateFactorIds: resolution.candidates.map(candidate => candidate.factor.id),
+      resolution: {
+        rules: resolution.rules,
+        reportingDate: resolution.reportingDate,
+        geography: resolution.geography,
+        explanation: resolution.explanation,
+      },
+    }
+  }
+
+  private async findSteps(unitId: string, factor: StandardEmissionFactor): Promise<ConversionStep[] | null> {
+    const sourceUomId = firstValue(factor['Source UOM'])
+    if (!sourceUomId) return null
+    return this.conversionGraph.findPath(unitId, sourceUomId)
+  }
+}
+
+// Lazy singleton instance
+let emissionCalculationServiceInstance: EmissionCalculationService | null = null
+
+export const getEmissionCalculationService = (): EmissionCalculationService => {
+  if (!emissionCalculationServiceInstance) {
+    emissionCalculationServiceInstance = new EmissionCalculationService()
+  }
+  return emissionCalculationServiceInstance
+}
@@ -0,0 +1,71 @@
+import { EmissionFactorResolutionService } from './EmissionFactorResolutionService'
+import { FactorResolutionRule, FactorResolutionValidationError } from '../types/FactorResolution'
+
+jest.mock('../database/EntityServiceFactory', () => {
+  const factor = (id: string, geography: string, version: string, fields: Record<string, any> = {}) =>
+    ({ id, Name: id, Status: 'Active', 'Emission Factor (CO2e)': 1, Geography: [geography], Version: [version], ...fields })
+  const factors = [
+    factor('Global 2024', 'recWorld', 'recV2024'),
+    factor('Europe 2023', 'recEurope', 'recV2023'),
+    factor('France 2020', 'recFrance', 'recV2020'),
+    factor('Germany 2024', 'recGermany', 'recV2024'),
+    factor('France inactive', 'recFrance', 'recV2024', { Status: 'Inactive' }),
+  ]
+  const versions = [
+    { id: 'recV2020', Name: 'V2020', 'Effective Date': '2020-01-01', 'Expiration Date': '2022-12-31' },
+    { id: 'recV2023', Name: 'V2023', 'Effective Date': '2023-01-01' },
+    { id: 'recV2024', Name: 'V2024', 'Effective Date': '2024-01-01' },
+  ]
+  const geographies = [
+    { id: 'recWorld', Name: 'World', CODE: 'GLO' },
+    { id: 'recEurope', Name: 'Europe', Parent: ['recWorld'] },
+    { id: 'recFrance', Name: 'France', CODE: 'FR', Parent: ['recEurope'] },
+    { id: 'recGermany', Name: 'Germany', CODE: 'DE', Parent: ['recEurope'] },
+  ]
+  return {
+    getStandardEmissionFactorService: () => ({
+      getByNormalizedActivity: async (id: string) => id === 'recElectricity' ? factors : [],
+    }),
+    getEmissionFactorVersionService: () => ({ findAll: async () => versions }),
+    getGeographyService: () => ({ findAll: async () => geographies }),
+  }
+})
+
+describe('EmissionFactorResolutionService', () => {
+  const service = new EmissionFactorResolutionService()
+
+  it('prefers the closest geography, and explains the choice and the rejections', async () => {
+    const result = await service.resolve({ normalizedActivity: 'recElectricity', geography: 'fr', reportingDate: 2024 })
+
+    expect(result.reportingDate).toBe('2024-12-31')
+    expect(result.selected?.factor.id).toBe('Europe 2023')
+    expect(result.candidates.filter(candidate => candidate.eligible).map(candidate => candidate.factor.id)).toEqual(['Europe 2023', 'Global 2024'])
+    expect(Object.fromEntries(result.candidates.filter(candidate => !candidate.eligible).map(candidate => [candidate.factor.id, candidate.rejectedReasons]))).toEqual({
+      'France 2020': ['Version V2020 expired on 2022-12-31'],
+      'Germany 2024': ['Geography Germany does not cover the requested geography'],
+      'France inactive': ['Factor is inactive'],
+    })
+    expect(result.explanation).toContain('Geography: Europe covers France (1 level(s) up)')
+    expect(result.explanation).toContain('Preferred over Global 2024 by the geography rule')
+  })
+
+  it('follows the rule order of the request', async () => {
+    const result = await service.resolve({ normalizedActivity: 'recElectricity', geography: 'France', reportingDate: '2024-06-30', rules: ['version', 'geography'] })
+    expect(result.selected?.factor.id).toBe('Global 2024')
+    expect(result.explanation).toContain('Preferred over Europe 2023 by the version rule')
+
+    const none = await service.resolve({ normalizedActivity: 'recHeating' })
+    expect(none.selected).toBeNull()
+    expect(none.explanation).toContain('No emission factor is linked to this activity')
+  })
+
+  it('refuses unknown rules, geographies and dates', async () => {
+    await expect(service.resolve({ normalizedActivity: '' })).rejects.toMatchObject({ field: 'normalizedActivity' })
+    await expect(service.resolve({ normalizedActivity: 'recElectricity', rules: ['price' as FactorResolutionRule] }))
+      .rejects.toThrow('Unknown resolution rule(s): price')
+    await expect(service.resolve({ normalizedActivity: 'recElectricity', geography: 'Atlantis' }))
+      .rejects.toThrow(FactorResolutionValidationError)
+    await expect(service.resolve({ normalizedActivity: 'recElectricity', reportingDate: 'someday' }))
+      .rejects.toMatchObject({ field: 'reportingDate' })
+  })
+})
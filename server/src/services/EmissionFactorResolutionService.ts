@@ -0,0 +1,439 @@
+/**
+ * Emission Factor Resolution Service
+ *
+ * Chooses the Standard Emission Factor for a Normalized Activity when several
+ * candidates exist. Candidates are first screened (inactive factor or version,
+ * version not in force at the reporting date, other geography, other industry
+ * classification, unreachable unit), then ranked by the precedence rules:
+ * 1. geography - exact geography, then parent geography, then a global factor
+ * 2. version - most recent Emission Factor Version in force at the reporting date
+ * 3. industryClassification - factor for the requested classification over a generic one
+ *
+ * The rule order can be changed per request or with EMISSION_FACTOR_RESOLUTION_RULES
+ * (comma separated). Every decision is returned with an explanation.
+ */
+
+import {
+  getStandardEmissionFactorService,
+  StandardEmissionFactorService,
+  getEmissionFactorVersionService,
+  EmissionFactorVersionService,
+  getGeographyService,
+  GeographyService,
+} from '../database/EntityServiceFactory'
+import { getUnitConversionGraphService } from './UnitConversionGraphService'
+import { StandardEmissionFactor } from '../types/StandardEmissionFactor'
+import { EmissionFactorVersion } from '../types/EmissionFactorVersion'
+import {
+  FactorResolutionInput,
+  FactorResolutionResult,
+  FactorResolutionRule,
+  FactorCandidateEvaluation,
+  FACTOR_RESOLUTION_RULES,
+  FactorResolutionValidationError,
+} from '../types/FactorResolution'
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value
+
+const toArray = (value: string | string[] | undefined): string[] =>
+  Array.isArray(value) ? value : value ? [value] : []
+
+/** Geography names treated as "applies everywhere" */
+const GLOBAL_GEOGRAPHY = /^(global|world|worldwide|glo|international)$/i
+
+interface ReferenceData {
+  versions: Map<string, EmissionFactorVersion>
+  geographies: Map<string, any>
+  /** Lower-cased geography Name / CODE -> record ID */
+  geographyIdByLabel: Map<string, string>
+}
+
+const toTimestamp = (value?: string): number => {
+  if (!value) return 0
+  const time = Date.parse(value)
+  return isNaN(time) ? 0 : time
+}
+
+export class EmissionFactorResolutionService {
+  private factorService: StandardEmissionFactorService
+  private versionService: EmissionFactorVersionService
+  private geographyService: GeographyService
+  private referenceCache: { data: ReferenceData; timestamp: number } | null = null
+  private readonly REFERENCE_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+  constructor() {
+    this.factorService = getStandardEmissionFactorService()
+    this.versionService = getEmissionFactorVersionService()
+    this.geographyService = getGeographyService()
+  }
+
+  /**
+   * Rank every candidate factor for an activity and pick the best eligible one
+   */
+  async resolve(input: FactorResolutionInput): Promise<FactorResolutionResult> {
+    if (!input.normalizedActivity || typeof input.normalizedActivity !== 'string') {
+      throw new FactorResolutionValidationError('normalizedActivity is required', 'normalizedActivity')
+    }
+    const rules = this.getRules(input.rules)
+    const reportingDate = this.normalizeReportingDate(input.reportingDate)
+
+    const [factors, reference] = await Promise.all([
+      this.factorService.getByNormalizedActivity(input.normalizedActivity),
+      this.getReferenceData(),
+    ])
+
+    const geography = input.geography ? this.resolveGeography(reference, input.geography) : undefined
+    const ancestors = geography ? this.getAncestors(reference, geography.id) : new Map<string, number>()
+
+    const evaluations = await Promise.all(
+      factors.map(factor => this.evaluate(factor, input, reference, reportingDate, geography?.id, ancestors))
+    )
+
+    const eligible = evaluations
+      .filter(evaluation => evaluation.eligible)
+      .sort((a, b) => this.compare(a, b, rules, reference))
+    eligible.forEach((evaluation, index) => {
+      evaluation.rank = index + 1
+    })
+    const rejected = evaluations.filter(evaluation => !evaluation.eligible)
+    const selected = eligible[0] || null
+
+    return {
+      normalizedActivity: input.normalizedActivity,
+      geography,
+      reportingDate,
+      industryClassification: input.industryClassification,
+      rules,
+      selected,
+      candidates: [...eligible, ...rejected],
+      explanation: this.explain(selected, eligible, rejected, rules, reference, reportingDate, geography?.name),
+    }
+  }
+
+  /**
+   * Clear cached versions and geographies
+   */
+  clearCache(): void {
+    this.referenceCache = null
+  }
+
+  private getRules(requested?: FactorResolutionRule[]): FactorResolutionRule[] {
+    const source = requested && requested.length > 0
+      ? requested
+      : (process.env.EMISSION_FACTOR_RESOLUTION_RULES || '').split(',').map(rule => rule.trim()).filter(Boolean)
+
+    if (source.length === 0) {
+      return [...FACTOR_RESOLUTION_RULES]
+    }
+
+    const invalid = source.filter(rule => !FACTOR_RESOLUTION_RULES.includes(rule as FactorResolutionRule))
+    if (invalid.length > 0) {
+      throw new FactorResolutionValidationError(
+        `Unknown resolution rule(s): ${invalid.join(', ')}. Expected: ${FACTOR_RESOLUTION_RULES.join(', ')}`,
+        'rules'
+      )
+    }
+    return Array.from(new Set(source)) as FactorResolutionRule[]
+  }
+
+  /**
+   * A bare year resolves to the last day of that year
+   */
+  private normalizeReportingDate(value?: string | number): string {
+    if (value === undefined || value === null || value === '') {
+      return new Date().toISOString().slice(0, 10)
+    }
+    const text = String(value).trim()
+    if (/^\d{4}$/.test(text)) {
+      return `${text}-12-31`
+    }
+    const time = Date.parse(text)
+    if (isNaN(time)) {
+      throw new FactorResolutionValidationError(`Invalid reporting date: ${value}`, 'reportingDate')
+    }
+    return new Date(time).toISOString().slice(0, 10)
+  }
+
+  private resolveGeography(reference: ReferenceData, value: string): { id: string; name?: string } {
+    const id = reference.geographies.has(value) ? value : reference.geographyIdByLabel.get(value.trim().toLowerCase())
+    if (!id) {
+      throw new FactorResolutionValidationError(`Geography not found: ${value}`, 'geography')
+    }
+    return { id, name: reference.geographies.get(id)?.Name }
+  }
+
+  /**
+   * Parent chain of a geography: record ID -> number of levels up
+   */
+  private getAncestors(reference: ReferenceData, geographyId: string): Map<string, number> {
+    const ancestors = new Map<string, number>()
+    let level = [geographyId]
+    let distance = 0
+    while (level.length > 0) {
+      distance++
+      const next: string[] = []
+      level.forEach(id => {
+        toArray(reference.geographies.get(id)?.Parent).forEach((parentId: string) => {
+          if (parentId !== geographyId && !ancestors.has(parentId)) {
+            ancestors.set(parentId, distance)
+            next.push(parentId)
+          }
+        })
+      })
+      level = next
+    }
+    return ancestors
+  }
+
+  private async evaluate(
+    factor: StandardEmissionFactor,
+    input: FactorResolutionInput,
+    reference: ReferenceData,
+    reportingDate: string,
+    requestedGeographyId: string | undefined,
+    ancestors: Map<string, number>
+  ): Promise<FactorCandidateEvaluation> {
+    const rejectedReasons: string[] = []
+
+    if (factor.Status === 'Inactive') {
+      rejectedReasons.push('Factor is inactive')
+    }
+    const value = factor['Emission Factor (CO2e)']
+    if (value === undefined || value === null || isNaN(value)) {
+      rejectedReasons.push('Factor has no Emission Factor (CO2e) value')
+    }
+
+    // Version in force at the reporting date
+    const versionId = firstValue(factor.Version)
+    const version = versionId ? reference.versions.get(versionId) : undefined
+    const versionName = version?.Name || firstValue(factor['Version Name'])
+    const versionStatus = version?.Status || factor['Status (from Version)']
+    const effectiveDate = version?.['Effective Date']
+    const expirationDate = version?.['Expiration Date']
+    const reportingTime = toTimestamp(reportingDate)
+    const started = !effectiveDate || toTimestamp(effectiveDate) <= reportingTime
+    const notExpired = !expirationDate || toTimestamp(expirationDate) > reportingTime
+    if (versionStatus && String(versionStatus).includes('Inactive')) {
+      rejectedReasons.push(`Version ${versionName || versionId} is inactive`)
+    }
+    if (!started) {
+      rejectedReasons.push(`Version ${versionName || versionId} is only effective from ${effectiveDate}`)
+    }
+    if (!notExpired) {
+      rejectedReasons.push(`Version ${versionName || versionId} expired on ${expirationDate}`)
+    }
+
+    // Geography
+    const geographyIds = toArray(factor.Geography)
+    const geographyNames = geographyIds.map((id, index) =>
+      reference.geographies.get(id)?.Name || toArray(factor['Geography Name'])[index] || id
+    )
+    const isGlobal = geographyIds.length === 0 || geographyNames.every(name => GLOBAL_GEOGRAPHY.test(String(name).trim()))
+    let geography: FactorCandidateEvaluation['geography']
+    if (isGlobal) {
+      geography = { match: 'global' }
+    } else if (!requestedGeographyId) {
+      geography = { match: 'regional' }
+    } else {
+      const distances = geographyIds
+        .map(id => (id === requestedGeographyId ? 0 : ancestors.get(id)))
+        .filter((distance): distance is number => distance !== undefined)
+      if (distances.length === 0) {
+        geography = { match: 'mismatch' }
+        rejectedReasons.push(`Geography ${geographyNames.join(', ')} does not cover the requested geography`)
+      } else {
+        const distance = Math.min(...distances)
+        geography = distance === 0 ? { match: 'exact', distance } : { match: 'parent', distance }
+      }
+    }
+
+    // Industry classification
+    const classificationLabels = [
+      ...toArray(factor['Industry Classification']),
+      ...toArray(factor['Industry Classification Name']),
+      ...toArray(factor['Industry Classification & Emission Factors']),
+      ...toArray(factor['Industry Classification & Emission Factors Name']),
+      ...String(factor['code (from Industry Classification  🏭)'] || '').split(',').map(code => code.trim()),
+    ].filter(Boolean).map(label => String(label).toLowerCase())
+    let industryClassification: FactorCandidateEvaluation['industryClassification']
+    if (!input.industryClassification) {
+      industryClassification = { match: 'not requested' }
+    } else if (classificationLabels.length === 0) {
+      industryClassification = { match: 'generic' }
+    } else if (classificationLabels.includes(input.industryClassification.trim().toLowerCase())) {
+      industryClassification = { match: 'exact' }
+    } else {
+      industryClassification = { match: 'mismatch' }
+      rejectedReasons.push(`Industry classification does not match ${input.industryClassification}`)
+    }
+
+    // Unit reachability
+    let conversionHops: number | undefined
+    if (input.unit) {
+      const sourceUomId = firstValue(factor['Source UOM'])
+      if (!sourceUomId) {
+        rejectedReasons.push('Factor has no Source UOM')
+      } else {
+        const path = await getUnitConversionGraphService().findPath(input.unit, sourceUomId)
+        if (path) {
+          conversionHops = path.length
+        } else {
+          rejectedReasons.push(`Unit cannot be converted to Source UOM ${firstValue(factor['Source UOM Name']) || sourceUomId}`)
+        }
+      }
+    }
+
+    return {
+      factor: {
+        id: factor.id,
+        name: factor.Name,
+        value,
+        status: factor.Status,
+        geography: geographyNames,
+        version: versionName,
+        industryClassification: toArray(factor['Industry Classification Name']),
+        publicationDate: factor['Publication Date'],
+      },
+      eligible: rejectedReasons.length === 0,
+      rejectedReasons,
+      geography,
+      version: {
+        id: versionId,
+        name: versionName,
+        status: versionStatus,
+        effectiveDate,
+        expirationDate,
+        effective: started && notExpired,
+      },
+      industryClassification,
+      conversionHops,
+    }
+  }
+
+  /**
+   * Negative when `a` should be preferred over `b`
+   */
+  private compare(a: FactorCandidateEvaluation, b: FactorCandidateEvaluation, rules: FactorResolutionRule[], reference: ReferenceData): number {
+    for (const rule of rules) {
+      const difference = this.ruleScore(b, rule, reference) - this.ruleScore(a, rule, reference)
+      if (difference !== 0) return difference
+    }
+    // Tie-breakers: fewer conversion hops, newest publication, then name for a stable order
+    const hops = (a.conversionHops ?? 0) - (b.conversionHops ?? 0)
+    if (hops !== 0) return hops
+    const published = toTimestamp(b.factor.publicationDate) - toTimestamp(a.factor.publicationDate)
+    if (published !== 0) return published
+    return String(a.factor.name || a.factor.id).localeCompare(String(b.factor.name || b.factor.id))
+  }
+
+  private ruleScore(evaluation: FactorCandidateEvaluation, rule: FactorResolutionRule, reference: ReferenceData): number {
+    switch (rule) {
+      case 'geography':
+        switch (evaluation.geography.match) {
+          case 'exact': return 1000
+          case 'parent': return 500 - (evaluation.geography.distance || 0)
+          case 'global': return 100
+          default: return 0
+        }
+      case 'version': {
+        const version = evaluation.version.id ? reference.versions.get(evaluation.version.id) : undefined
+        return toTimestamp(evaluation.version.effectiveDate) ||
+          toTimestamp(version?.['Published Date']) ||
+          toTimestamp(evaluation.factor.publicationDate)
+      }
+      case 'industryClassification':
+        return evaluation.industryClassification.match === 'exact' ? 1 : 0
+    }
+  }
+
+  private explain(
+    selected: FactorCandidateEvaluation | null,
+    eligible: FactorCandidateEvaluation[],
+    rejected: FactorCandidateEvaluation[],
+    rules: FactorResolutionRule[],
+    reference: ReferenceData,
+    reportingDate: string,
+    geographyName?: string
+  ): string[] {
+    const label = (evaluation: FactorCandidateEvaluation) => evaluation.factor.name || evaluation.factor.id
+    const lines: string[] = [`Rules applied in order: ${rules.join(' > ')} (reporting date ${reportingDate})`]
+
+    if (!selected) {
+      lines.push(
+        eligible.length + rejected.length === 0
+          ? 'No emission factor is linked to this activity'
+          : `All ${rejected.length} candidate(s) were rejected`
+      )
+      return lines
+    }
+
+    lines.push(`Selected ${label(selected)} out of ${eligible.length} eligible candidate(s)`)
+    lines.push(
+      selected.geography.match === 'exact' ? `Geography: exact match for ${geographyName}`
+        : selected.geography.match === 'parent' ? `Geography: ${selected.factor.geography.join(', ')} covers ${geographyName} (${selected.geography.distance} level(s) up)`
+          : selected.geography.match === 'global' ? `Geography: global factor${geographyName ? ` - no factor specific to ${geographyName}` : ''}`
+            : `Geography: ${selected.factor.geography.join(', ')} (no geography requested)`
+    )
+    lines.push(
+      selected.version.name
+        ? `Version: ${selected.version.name}${selected.version.effectiveDate ? ` effective ${selected.version.effectiveDate}` : ''}, in force on ${reportingDate}`
+        : 'Version: none linked'
+    )
+    if (selected.industryClassification.match !== 'not requested') {
+      lines.push(`Industry classification: ${selected.industryClassification.match} match`)
+    }
+
+    const runnerUp = eligible[1]
+    if (runnerUp) {
+      const decidingRule = rules.find(rule => this.ruleScore(selected, rule, reference) !== this.ruleScore(runnerUp, rule, reference))
+      lines.push(
+        decidingRule
+          ? `Preferred over ${label(runnerUp)} by the ${decidingRule} rule`
+          : `Tied with ${label(runnerUp)} on every rule - chosen by conversion hops, publication date and name`
+      )
+    }
+    if (rejected.length > 0) {
+      lines.push(`${rejected.length} candidate(s) rejected`)
+    }
+    return lines
+  }
+
+  private async getReferenceData(): Promise<ReferenceData> {
+    const now = Date.now()
+    if (this.referenceCache && now - this.referenceCache.timestamp < this.REFERENCE_CACHE_TTL) {
+      return this.referenceCache.data
+    }
+
+    const [versions, geographies] = await Promise.all([
+      this.versionService.findAll(),
+      this.geographyService.findAll(),
+    ])
+
+    const data: ReferenceData = {
+      versions: new Map(versions.map((version: EmissionFactorVersion) => [version.id, version])),
+      geographies: new Map(geographies.map((geography: any) => [geography.id, geography])),
+      geographyIdByLabel: new Map(),
+    }
+    geographies.forEach((geography: any) => {
+      if (geography.CODE) data.geographyIdByLabel.set(String(geography.CODE).toLowerCase(), geography.id)
+    })
+    // Names win over codes when both collide
+    geographies.forEach((geography: any) => {
+      if (geography.Name) data.geographyIdByLabel.set(String(geography.Name).toLowerCase(), geography.id)
+    })
+
+    this.referenceCache = { data, timestamp: now }
+    return data
+  }
+}
+
+// Lazy singleton instance
+let emissionFactorResolutionServiceInstance: EmissionFactorResolutionService | null = null
+
+export const getEmissionFactorResolutionService = (): EmissionFactorResolutionService => {
+  if (!emissionFactorResolutionServiceInstance) {
+    emissionFactorResolutionServiceInstance = new EmissionFactorResolutionService()
+  }
+  return emissionFactorResolutionServiceInstance
+}
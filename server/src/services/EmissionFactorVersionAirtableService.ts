@@ -1,6 +1,9 @@
 import Airtable from 'airtable'
-import * as fs from 'fs'
-import * as path from 'path'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, filtersToFilterNode, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
+import { registerAirtableCounts } from '../database/airtable/AirtableRecordCounts'
+import { getRecordCountService } from '../database/counts/RecordCountService'
 
 /**
  * Emission Factor Version Airtable Service
@@ -12,12 +15,9 @@ import * as path from 'path'
 export class EmissionFactorVersionAirtableService {
   private base: Airtable.Base
   private tableName: string
-  private readonly cacheFilePath: string
-  private totalCountCache: { count: number; timestamp: number } | null = null
-  private readonly COUNT_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+  private countTable: string
   private distinctValuesCache: Map<string, { values: string[]; timestamp: number }> = new Map()
   private readonly DISTINCT_VALUES_CACHE_TTL = 10 * 60 * 1000 // 10 minutes
-  private countCalculationPromise: Promise<number> | null = null
 
   constructor() {
     const apiKey = process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN || 
@@ -40,67 +40,8 @@ export class EmissionFactorVersionAirtableService {
     console.log(`   Table: ${this.tableName}`)
     console.log(`   API Key: ${apiKey ? apiKey.substring(0, 20) + '...' : 'NOT SET'}`)
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
-    
-    // Set cache file path
-    this.cacheFilePath = path.join(__dirname, '../../.cache', 'ghg-type-total-count.json')
-    this.loadCacheFromDisk()
-  }
-
-  /**
-   * Load total count cache from disk
-   */
-  private loadCacheFromDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      
-      if (fs.existsSync(this.cacheFilePath)) {
-        const cacheData = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf8'))
-        const age = Date.now() - cacheData.timestamp
-        
-        if (age < 60 * 60 * 1000) {
-          this.totalCountCache = cacheData
-          console.log(`📊 Loaded Emission Factor Version total count from disk cache: ${cacheData.count}`)
-        }
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not load Emission Factor Version count cache from disk:', error)
-    }
-  }
-
-  /**
-   * Save total count cache to disk
-   */
-  private saveCacheToDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      if (this.totalCountCache) {
-        fs.writeFileSync(this.cacheFilePath, JSON.stringify(this.totalCountCache), 'utf-8')
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not save Emission Factor Version count cache to disk:', error)
-    }
-  }
-
-  /**
-   * Clear total count cache
-   */
-  private clearCountCache(): void {
-    this.totalCountCache = null
-    try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        fs.unlinkSync(this.cacheFilePath)
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not delete Emission Factor Version count cache file:', error)
-    }
+    this.base = getAirtableBase(baseId, apiKey)
+    this.countTable = registerAirtableCounts(baseId, this.base, this.tableName)
   }
 
   /**
@@ -126,12 +67,18 @@ export class EmissionFactorVersionAirtableService {
     }
     
     // Map Airtable field names to our EmissionFactorVersion interface
-    // Emission Factor Version table fields: Name, Short code, Description, Formula, Category, Status, Notes
+    // Emission Factor Version table fields: Name, Short code, Description, Formula, Category,
+    // Published Date, Effective Date, Expiration Date, Emission Factor Set, Std Emission factors, Status, Notes
     const Name = getField(['Name', 'name'], '')
     const ShortCode = getField(['Short code', 'Short Code', 'short_code', 'code'], '')
     const Description = getField(['Description', 'description'], '')
     const Formula = getField(['Formula', 'formula'], '')
     const Category = getField(['Category', 'category'], '')
+    const PublishedDate = getField(['Published Date', 'published_date'], undefined)
+    const EffectiveDate = getField(['Effective Date', 'effective_date'], undefined)
+    const ExpirationDate = getField(['Expiration Date', 'expiration_date'], undefined)
+    const EmissionFactorSet = getField(['Emission Factor Set'], undefined)
+    const StdEmissionFactors = getField(['Std Emission factors'], undefined)
     const Status = getField(['Status', 'status'], 'Active')
     const Notes = getField(['Notes', 'notes'])
     
@@ -142,6 +89,11 @@ export class EmissionFactorVersionAirtableService {
       Description,
       Formula,
       Category,
+      'Published Date': PublishedDate,
+      'Effective Date': EffectiveDate,
+      'Expiration Date': ExpirationDate,
+      'Emission Factor Set': EmissionFactorSet,
+      'Std Emission factors': StdEmissionFactors,
       Status,
       Notes,
       createdAt: this.formatDate(this.getCreatedTime(record)),
@@ -173,6 +125,11 @@ export class EmissionFactorVersionAirtableService {
     if (dto.Category !== undefined && dto.Category !== null && String(dto.Category).trim() !== '') {
       fields['Category'] = String(dto.Category).trim()
     }
+    for (const dateField of ['Published Date', 'Effective Date', 'Expiration Date']) {
+      if (dto[dateField] !== undefined) {
+        fields[dateField] = dto[dateField] ? String(dto[dateField]).trim() : null
+      }
+    }
     if (dto.Status !== undefined && dto.Status !== null) {
       fields['Status'] = String(dto.Status).trim()
     } else {
@@ -247,7 +204,8 @@ export class EmissionFactorVersionAirtableService {
     sortBy?: string, 
     sortOrder: 'asc' | 'desc' = 'asc',
     filters?: Record<string, any>,
-    search?: string
+    search?: string,
+    filter?: FilterNode
   ): Promise<{ records: any[], total: number }> {
     try {
       console.log(`📥 Fetching paginated Emission Factor Version: offset=${offset}, limit=${limit}`)
@@ -270,29 +228,10 @@ export class EmissionFactorVersionAirtableService {
       }
       
       // Build Airtable filter formula
-      const filterFormulas: string[] = []
-      
-      if (filters) {
-        Object.entries(filters).forEach(([key, value]) => {
-          if (value) {
-            const airtableFieldName = this.mapFieldNameToAirtable(key)
-            const escapedValue = String(value).replace(/'/g, "''")
-            filterFormulas.push(`{${airtableFieldName}} = '${escapedValue}'`)
-          }
-        })
-      }
-      
-      if (search) {
-        // Search across multiple fields
-        const searchFields = ['Name', 'Short code', 'Description', 'Category']
-        const escapedSearch = search.replace(/'/g, "''")
-        const searchFormulas = searchFields.map(field => 
-          `FIND(LOWER('${escapedSearch}'), LOWER({${field}})) > 0`
-        )
-        filterFormulas.push(`OR(${searchFormulas.join(', ')})`)
-      }
-      
-      const filterFormula = filterFormulas.length > 0 ? `AND(${filterFormulas.join(', ')})` : undefined
+      const filterNode = allOf(filtersToFilterNode(filters), searchFilter(['Name', 'Short code', 'Description', 'Category'], search), filter)
+      const filterFormula = filterNode
+        ? compileAirtableFormula(filterNode, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : undefined
       
       if (filterFormula) {
         console.log(`   Applying filter formula: ${filterFormula}`)
@@ -346,12 +285,9 @@ export class EmissionFactorVersionAirtableService {
       console.log(`✅ Fetched ${paginatedRecords.length} records from pages ${startPage}-${endPage}`)
       
       // Get total count
-      let total: number
+      const total = await getRecordCountService().getCount(this.countTable, filterFormula || '')
       if (filterFormula) {
-        total = await this.getFilteredCount(filterFormula)
         console.log(`   Filtered total count: ${total}`)
-      } else {
-        total = await this.getTotalCount(true)
       }
 
       return {
@@ -399,7 +335,6 @@ export class EmissionFactorVersionAirtableService {
       const record = await this.base(this.tableName).create(airtableFields)
       console.log(`✅ Successfully created Emission Factor Version in Airtable: ${record.id}`)
       
-      this.clearCountCache()
       this.clearDistinctValuesCache()
       
       return this.mapAirtableToEmissionFactorVersion(record)
@@ -436,7 +371,6 @@ export class EmissionFactorVersionAirtableService {
   async delete(id: string): Promise<boolean> {
     try {
       await this.base(this.tableName).destroy(id)
-      this.clearCountCache()
       this.clearDistinctValuesCache()
       return true
     } catch (error: any) {
@@ -448,113 +382,10 @@ export class EmissionFactorVersionAirtableService {
   }
 
   /**
-   * Get total count with lazy calculation
-   */
-  async getTotalCount(lazy: boolean = true): Promise<number> {
-    try {
-      if (this.totalCountCache && Date.now() - this.totalCountCache.timestamp < this.COUNT_CACHE_TTL) {
-        console.log(`📊 Using cached total count for Emission Factor Version: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
-
-      if (lazy && !this.totalCountCache) {
-        console.log(`📊 No cache available for Emission Factor Version, returning estimate and calculating in background...`)
-        const estimate = 100
-        this.calculateTotalCountInBackground()
-        return estimate
-      }
-
-      return await this.calculateTotalCount()
-    } catch (error: any) {
-      console.error('Error getting Emission Factor Version total count:', error)
-      if (this.totalCountCache) {
-        console.warn(`⚠️  Using expired cache: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
-      return 0
-    }
-  }
-
-  /**
-   * Calculate total count in background
+   * Get the exact number of Emission Factor Version records, kept up to date by the record count service
    */
-  private calculateTotalCountInBackground(): void {
-    if (this.countCalculationPromise) {
-      return // Already calculating
-    }
-
-    this.countCalculationPromise = this.calculateTotalCount()
-      .then(count => {
-        this.totalCountCache = { count, timestamp: Date.now() }
-        this.saveCacheToDisk()
-        this.countCalculationPromise = null
-      })
-      .catch(error => {
-        console.error('Error calculating Emission Factor Version total count in background:', error)
-        this.countCalculationPromise = null
-      })
-  }
-
-  /**
-   * Calculate total count synchronously
-   */
-  private async calculateTotalCount(): Promise<number> {
-    try {
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select()
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) {
-                reject(err)
-              } else {
-                resolve()
-              }
-            }
-          )
-      })
-      return count
-    } catch (error: any) {
-      console.error('Error calculating Emission Factor Version total count:', error)
-      return 0
-    }
-  }
-
-  /**
-   * Get filtered count
-   */
-  private async getFilteredCount(filterFormula: string): Promise<number> {
-    try {
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select({
-            filterByFormula: filterFormula,
-          })
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) {
-                reject(err)
-              } else {
-                resolve()
-              }
-            }
-          )
-      })
-      return count
-    } catch (error: any) {
-      console.error('Error getting filtered count for Emission Factor Version:', error)
-      return 0
-    }
+  async getTotalCount(): Promise<number> {
+    return getRecordCountService().getCount(this.countTable)
   }
 
   /**
@@ -0,0 +1,61 @@
+import { EmissionFactorVersionLifecycleService } from './EmissionFactorVersionLifecycleService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+import { EmissionFactorVersionValidationError } from '../types/EmissionFactorVersion'
+
+const repository = (table: string) => DatabaseFactory.getDatabase().getRepository<any>(ENTITY_DESCRIPTORS[table])
+
+const create = async (table: string, fields: Record<string, any>): Promise<string> =>
+  (await repository(table).create(fields)).id
+
+describe('EmissionFactorVersionLifecycleService', () => {
+  let service: EmissionFactorVersionLifecycleService
+  let previous: string
+  let latest: string
+  const factors: Record<string, string> = {}
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    service = new EmissionFactorVersionLifecycleService()
+    previous = await create('emission_factor_versions', { Name: 'V2023', Status: 'Active', 'Effective Date': '2023-01-01' })
+    latest = await create('emission_factor_versions', { Name: 'V2024', Status: 'Draft', 'Effective Date': '2024-01-01' })
+
+    const factor = (name: string, versions: string[], status: string, availability: string) =>
+      create('standard_emission_factors', { Name: name, Version: versions, Status: status, 'Availability ': availability })
+    factors.added = await factor('Added in 2024', [latest], 'Inactive', 'Legacy')
+    factors.kept = await factor('Kept from 2023', [previous, latest], 'Active', 'Latest')
+    factors.dropped = await factor('Dropped in 2024', [previous], 'Active', 'Latest')
+    factors.retired = await factor('Retired before', [previous], 'Inactive', 'Legacy')
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('activates the factors of the version, retires those it supersedes and counts each factor once', async () => {
+    const dryRun = await service.promote(latest, { supersedes: previous, dryRun: true })
+    expect(dryRun).toMatchObject({
+      dryRun: true,
+      activated: [factors.added],
+      deactivated: [factors.dropped],
+      unchanged: 2,
+      atomic: false,
+    })
+    expect((await repository('standard_emission_factors').get(factors.added)).Status).toBe('Inactive')
+
+    const result = await service.promote(latest, { supersedes: previous })
+    expect(result.unchanged).toBe(2)
+    expect(result.notice).toContain('Promotion is not atomic')
+    const status = async (table: string, id: string) => (await repository(table).get(id)).Status
+    expect(await status('standard_emission_factors', factors.added)).toBe('Active')
+    expect(await status('standard_emission_factors', factors.kept)).toBe('Active')
+    expect(await status('standard_emission_factors', factors.dropped)).toBe('Inactive')
+    expect(await status('emission_factor_versions', latest)).toBe('Active')
+    expect(await status('emission_factor_versions', previous)).toBe('Inactive')
+  })
+
+  it('refuses a version superseding itself', async () => {
+    await expect(service.promote(latest, { supersedes: latest })).rejects.toThrow(EmissionFactorVersionValidationError)
+  })
+})
@@ -0,0 +1,453 @@
+/**
+ * Emission Factor Version Lifecycle Service
+ *
+ * Compares the Standard Emission Factors of two dataset versions (e.g. DEFRA 2025
+ * against DEFRA 2024) and promotes a version in one operation:
+ * - factors of the new version become Active / Latest
+ * - factors of the superseded version become Inactive / Legacy
+ * - the versions themselves are set Active / Inactive
+ *
+ * With PostgreSQL, promotion runs in one transaction: readers see all of it or none
+ * of it, and the result says it was atomic.
+ *
+ * Airtable has no transactions, so there promotion records the original values of every
+ * record it touches and writes them back if any batch fails. It is not atomic, and its
+ * result says so (atomic, notice): readers see the factors change batch by batch, and
+ * when the server stops part-way nothing is written back - promoting the version again
+ * finishes the job, as it only writes the factors not yet at their target status.
+ *
+ * Once a promotion succeeded, every factor and version it changed is recorded in the
+ * audit log. Two promotions of the same versions never interleave: they lock both
+ * versions in the lock store (database/locks), shared by the servers.
+ */
+
+import {
+  getEmissionFactorVersionService,
+  EmissionFactorVersionService,
+  getStandardEmissionFactorService,
+  StandardEmissionFactorService,
+} from '../database/EntityServiceFactory'
+import { getEmissionFactorResolutionService } from './EmissionFactorResolutionService'
+import { DEFAULT_AUDIT_ACTOR, getAuditLog } from '../database/audit/AuditLog'
+import { LockLease, acquireLocks } from '../database/locks/Locks'
+import { isPostgreSQLDatabase, withPostgreSQLTransaction } from '../database/postgres/connection'
+import { entityCacheTag, getResponseCache } from '../database/cache/ResponseCache'
+import { AuditActor } from '../database/audit/IAuditStore'
+import { StandardEmissionFactor } from '../types/StandardEmissionFactor'
+import {
+  EmissionFactorVersion,
+  EmissionFactorVersionDiff,
+  EmissionFactorVersionPromotionResult,
+  PromoteEmissionFactorVersionOptions,
+  VersionDiffFactorRef,
+  VersionDiffChange,
+  EmissionFactorVersionValidationError,
+  EmissionFactorVersionPromotionError,
+} from '../types/EmissionFactorVersion'
+
+const toArray = (value: string | string[] | undefined): string[] =>
+  Array.isArray(value) ? value : value ? [value] : []
+
+const round = (value: number): number => Math.round(value * 1e6) / 1e6
+
+const toTimestamp = (value?: string): number => {
+  if (!value) return 0
+  const time = Date.parse(value)
+  return isNaN(time) ? 0 : time
+}
+
+/** Promotion locks expire this long after the last batch written, should the server stop */
+const PROMOTION_LOCK_TTL_MS = 5 * 60 * 1000
+
+/** Notice of a promotion without transaction (Airtable) */
+const PROMOTION_NOTICE =
+  'Promotion is not atomic: factors are written in batches and written back if a batch fails. ' +
+  'While it runs, factors of both versions can be active; if the server stops part-way, nothing is ' +
+  'written back - promote the version again to finish.'
+
+interface FactorUpdate {
+  id: string
+  fields: Record<string, any>
+}
+
+export class EmissionFactorVersionLifecycleService {
+  private versionService: EmissionFactorVersionService
+  private factorService: StandardEmissionFactorService
+
+  constructor() {
+    this.versionService = getEmissionFactorVersionService()
+    this.factorService = getStandardEmissionFactorService()
+  }
+
+  /**
+   * Diff the factors of a version against another version
+   * (by default the previous version of the same Emission Factor Set)
+   */
+  async diff(versionId: string, againstId?: string): Promise<EmissionFactorVersionDiff> {
+    const version = await this.getVersion(versionId, 'id')
+    const previous = againstId
+      ? await this.getVersion(againstId, 'against')
+      : await this.findPreviousVersion(version)
+    if (!previous) {
+      throw new EmissionFactorVersionValidationError(
+        `No previous version found for ${version.Name || version.id} - pass "against" to choose one`,
+        'against'
+      )
+    }
+
+    const [currentFactors, previousFactors] = await Promise.all([
+      this.factorService.getByVersion(version.id, version.Name),
+      this.factorService.getByVersion(previous.id, previous.Name),
+    ])
+
+    const currentByKey = this.groupByKey(currentFactors)
+    const previousByKey = this.groupByKey(previousFactors)
+    const keys = Array.from(new Set([...currentByKey.keys(), ...previousByKey.keys()])).sort()
+
+    const diff: EmissionFactorVersionDiff = {
+      version: { id: version.id, name: version.Name, status: version.Status },
+      previousVersion: { id: previous.id, name: previous.Name, status: previous.Status },
+      summary: { added: 0, removed: 0, changed: 0, unchanged: 0 },
+      added: [],
+      removed: [],
+      changed: [],
+      ambiguousKeys: [],
+    }
+
+    keys.forEach(key => {
+      const current = currentByKey.get(key) || []
+      const before = previousByKey.get(key) || []
+      if (current.length > 1 || before.length > 1) {
+        diff.ambiguousKeys.push(key)
+      }
+
+      // Pair factors sharing a key in record order; the remainder is added or removed
+      for (let i = 0; i < Math.max(current.length, before.length); i++) {
+        const factor = current[i]
+        const previousFactor = before[i]
+        if (factor && !previousFactor) {
+          diff.added.push({ key, label: this.label(factor), factor: this.toRef(factor) })
+        } else if (!factor && previousFactor) {
+          diff.removed.push({ key, label: this.label(previousFactor), factor: this.toRef(previousFactor) })
+        } else if (factor && previousFactor) {
+          const change = this.compare(key, previousFactor, factor)
+          if (change) {
+            diff.changed.push(change)
+          } else {
+            diff.summary.unchanged++
+          }
+        }
+      }
+    })
+
+    diff.summary.added = diff.added.length
+    diff.summary.removed = diff.removed.length
+    diff.summary.changed = diff.changed.length
+    return diff
+  }
+
+  /**
+   * Make a version the current one and retire the version it supersedes
+   */
+  async promote(versionId: string, options: PromoteEmissionFactorVersionOptions = {}): Promise<EmissionFactorVersionPromotionResult> {
+    const version = await this.getVersion(versionId, 'id')
+    const superseded = options.supersedes
+      ? await this.getVersion(options.supersedes, 'supersedes')
+      : await this.findPreviousVersion(version)
+    if (superseded && superseded.id === version.id) {
+      throw new EmissionFactorVersionValidationError('A version cannot supersede itself', 'supersedes')
+    }
+
+    // A second promotion of either version must not interleave its writes
+    const lockKeys = [version.id, superseded?.id]
+      .filter((id): id is string => !!id)
+      .map(id => `emission-factor-version:${id}`)
+    const lease = await acquireLocks(lockKeys, PROMOTION_LOCK_TTL_MS)
+    if (!lease) {
+      throw new EmissionFactorVersionValidationError(`A promotion involving ${version.Name || version.id} is already in progress`)
+    }
+
+    try {
+      const [newFactors, oldFactors] = await Promise.all([
+        this.factorService.getByVersion(version.id, version.Name),
+        superseded ? this.factorService.getByVersion(superseded.id, superseded.Name) : Promise.resolve([]),
+      ])
+      const newIds = new Set(newFactors.map(factor => factor.id))
+
+      const activate = newFactors.filter(factor => factor.Status !== 'Active' || factor['Availability '] !== 'Latest')
+      // A factor linked to both versions stays active
+      const deactivate = oldFactors.filter(factor =>
+        !newIds.has(factor.id) && (factor.Status !== 'Inactive' || factor['Availability '] !== 'Legacy')
+      )
+      // A factor linked to both versions is counted once
+      const factorCount = new Set([...newFactors, ...oldFactors].map(factor => factor.id)).size
+      const atomic = isPostgreSQLDatabase()
+      const result: EmissionFactorVersionPromotionResult = {
+        version: { id: version.id, name: version.Name },
+        supersededVersion: superseded ? { id: superseded.id, name: superseded.Name } : undefined,
+        dryRun: !!options.dryRun,
+        activated: activate.map(factor => factor.id),
+        deactivated: deactivate.map(factor => factor.id),
+        unchanged: factorCount - activate.length - deactivate.length,
+        atomic,
+        notice: atomic ? undefined : PROMOTION_NOTICE,
+      }
+      if (options.dryRun) {
+        return result
+      }
+
+      const updates: FactorUpdate[] = [
+        ...activate.map(factor => ({ id: factor.id, fields: { Status: 'Active', 'Availability ': 'Latest' } })),
+        ...deactivate.map(factor => ({ id: factor.id, fields: { Status: 'Inactive', 'Availability ': 'Legacy' } })),
+      ]
+      const originals = new Map<string, Record<string, any>>(
+        [...activate, ...deactivate].map(factor => [
+          factor.id,
+          { Status: factor.Status || null, 'Availability ': factor['Availability '] || null },
+        ])
+      )
+
+      if (atomic) {
+        await this.applyInTransaction(lease, updates, version, superseded)
+      } else {
+        await this.applyWithRollback(lease, updates, originals, version, superseded)
+      }
+      getEmissionFactorResolutionService().clearCache()
+      await this.recordAudit(options.actor || DEFAULT_AUDIT_ACTOR, updates, originals, version, superseded)
+
+      console.log(`✅ Promoted Emission Factor Version ${version.Name || version.id}: ${result.activated.length} activated, ${result.deactivated.length} deactivated`)
+      return result
+    } finally {
+      await lease.release()
+    }
+  }
+
+  /**
+   * Write the factor updates and the version statuses in one PostgreSQL transaction
+   */
+  private async applyInTransaction(
+    lease: LockLease,
+    updates: FactorUpdate[],
+    version: EmissionFactorVersion,
+    superseded: EmissionFactorVersion | null
+  ): Promise<void> {
+    try {
+      await lease.renew()
+      await withPostgreSQLTransaction(async () => {
+        await this.factorService.updateMany(updates)
+        await this.versionService.update(version.id, { Status: 'Active' })
+        if (superseded) {
+          await this.versionService.update(superseded.id, { Status: 'Inactive' })
+        }
+      })
+    } catch (error: any) {
+      console.error(`❌ Promotion of ${version.Name || version.id} failed and was rolled back:`, error)
+      throw new EmissionFactorVersionPromotionError(`Promotion failed and was rolled back: ${error.message}`, true)
+    } finally {
+      // The writes invalidated the cache before the commit - drop what was read meanwhile
+      await getResponseCache().invalidate([
+        entityCacheTag('standard_emission_factors'),
+        entityCacheTag('emission_factor_versions'),
+      ])
+    }
+  }
+
+  /**
+   * Write factor updates batch by batch, then the version statuses, renewing the locks
+   * before each write. On failure every record already written is restored.
+   */
+  private async applyWithRollback(
+    lease: LockLease,
+    updates: FactorUpdate[],
+    originals: Map<string, Record<string, any>>,
+    version: EmissionFactorVersion,
+    superseded: EmissionFactorVersion | null
+  ): Promise<void> {
+    const applied: FactorUpdate[] = []
+    const versionsChanged: Array<{ id: string; Status?: string }> = []
+
+    try {
+      for (let i = 0; i < updates.length; i += 10) {
+        const batch = updates.slice(i, i + 10)
+        await lease.renew()
+        await this.factorService.updateMany(batch)
+        applied.push(...batch)
+      }
+
+      await lease.renew()
+      await this.versionService.update(version.id, { Status: 'Active' })
+      versionsChanged.push({ id: version.id, Status: version.Status })
+      if (superseded) {
+        await this.versionService.update(superseded.id, { Status: 'Inactive' })
+        versionsChanged.push({ id: superseded.id, Status: superseded.Status })
+      }
+    } catch (error: any) {
+      console.error(`❌ Promotion of ${version.Name || version.id} failed after ${applied.length} factor update(s), rolling back:`, error)
+      try {
+        await this.factorService.updateMany(
+          applied.map(update => ({ id: update.id, fields: originals.get(update.id) || {} }))
+        )
+        for (const changed of versionsChanged) {
+          await this.versionService.update(changed.id, { Status: changed.Status || 'Inactive' })
+        }
+      } catch (rollbackError: any) {
+        console.error('❌ Rollback failed:', rollbackError)
+        throw new EmissionFactorVersionPromotionError(
+          `Promotion failed (${error.message}) and rollback failed (${rollbackError.message}) - check factor statuses manually`,
+          false
+        )
+      }
+      throw new EmissionFactorVersionPromotionError(`Promotion failed and was rolled back: ${error.message}`, true)
+    }
+  }
+
+  /**
+   * Audit entries of a promotion: one per factor and per version changed
+   */
+  private async recordAudit(
+    actor: AuditActor,
+    updates: FactorUpdate[],
+    originals: Map<string, Record<string, any>>,
+    version: EmissionFactorVersion,
+    superseded: EmissionFactorVersion | null
+  ): Promise<void> {
+    const auditLog = getAuditLog()
+    for (const update of updates) {
+      await auditLog.record({
+        actor,
+        entity: 'standard-emission-factors',
+        recordId: update.id,
+        action: 'update',
+        before: originals.get(update.id) || null,
+        after: update.fields,
+      })
+    }
+    const versionChanges = [
+      { record: version, Status: 'Active' },
+      ...(superseded ? [{ record: superseded, Status: 'Inactive' }] : []),
+    ]
+    for (const change of versionChanges) {
+      await auditLog.record({
+        actor,
+        entity: 'emission-factor-version',
+        recordId: change.record.id,
+        action: 'update',
+        before: { Status: change.record.Status || null },
+        after: { Status: change.Status },
+      })
+    }
+  }
+
+  private async getVersion(id: string, field: string): Promise<EmissionFactorVersion> {
+    const version = await this.versionService.findById(id)
+    if (!version) {
+      throw new EmissionFactorVersionValidationError(`Emission Factor Version not found: ${id}`, field)
+    }
+    return version
+  }
+
+  /**
+   * Most recent other version of the same Emission Factor Set dated before this one
+   */
+  private async findPreviousVersion(version: EmissionFactorVersion): Promise<EmissionFactorVersion | null> {
+    const sets = toArray(version['Emission Factor Set'])
+    if (sets.length === 0) {
+      return null
+    }
+    const dateOf = (v: EmissionFactorVersion) =>
+      toTimestamp(v['Effective Date']) || toTimestamp(v['Published Date']) || toTimestamp(v.createdAt)
+    const versionDate = dateOf(version)
+
+    const versions: EmissionFactorVersion[] = await this.versionService.findAll()
+    const candidates = versions
+      .filter(v => v.id !== version.id)
+      .filter(v => toArray(v['Emission Factor Set']).some(set => sets.includes(set)))
+      .filter(v => !versionDate || dateOf(v) < versionDate)
+      .sort((a, b) => dateOf(b) - dateOf(a))
+    return candidates[0] || null
+  }
+
+  /**
+   * Factors describe the same thing across versions when activity, geography,
+   * source unit and industry classification match
+   */
+  private factorKey(factor: StandardEmissionFactor): string {
+    return [
+      factor['Normalized activity'],
+      factor.Geography,
+      factor['Source UOM'],
+      factor['Industry Classification'],
+    ].map(value => toArray(value).slice().sort().join(',')).join('|')
+  }
+
+  private groupByKey(factors: StandardEmissionFactor[]): Map<string, StandardEmissionFactor[]> {
+    const groups = new Map<string, StandardEmissionFactor[]>()
+    factors.forEach(factor => {
+      const key = this.factorKey(factor)
+      if (!groups.has(key)) {
+        groups.set(key, [])
+      }
+      groups.get(key)!.push(factor)
+    })
+    return groups
+  }
+
+  private label(factor: StandardEmissionFactor): string {
+    const parts = [
+      toArray(factor['Normalized activity Name']).join(', '),
+      toArray(factor['Geography Name']).join(', '),
+      toArray(factor['Source UOM Name']).join(', '),
+    ].filter(Boolean)
+    return parts.length > 0 ? parts.join(' / ') : factor.Name || factor.id
+  }
+
+  private toRef(factor: StandardEmissionFactor): VersionDiffFactorRef {
+    return {
+      id: factor.id,
+      name: factor.Name,
+      value: factor['Emission Factor (CO2e)'],
+      ghgUnit: toArray(factor['GHG Unit (CO2e) Name'])[0],
+      status: factor.Status,
+    }
+  }
+
+  private compare(key: string, previous: StandardEmissionFactor, current: StandardEmissionFactor): VersionDiffChange | null {
+    const before = previous['Emission Factor (CO2e)']
+    const after = current['Emission Factor (CO2e)']
+    const changedFields: string[] = []
+
+    const valueChanged = before === undefined || after === undefined
+      ? before !== after
+      : Math.abs(after - before) > 1e-12
+    if (valueChanged) {
+      changedFields.push('Emission Factor (CO2e)')
+    }
+    if (toArray(previous['GHG Unit (CO2e)']).join(',') !== toArray(current['GHG Unit (CO2e)']).join(',')) {
+      changedFields.push('GHG Unit (CO2e)')
+    }
+    if (changedFields.length === 0) {
+      return null
+    }
+
+    const delta = before !== undefined && after !== undefined ? round(after - before) : null
+    return {
+      key,
+      label: this.label(current),
+      previous: this.toRef(previous),
+      current: this.toRef(current),
+      delta,
+      percentChange: delta !== null && before ? round((delta / before) * 100) : null,
+      changedFields,
+    }
+  }
+}
+
+// Lazy singleton instance
+let emissionFactorVersionLifecycleServiceInstance: EmissionFactorVersionLifecycleService | null = null
+
+export const getEmissionFactorVersionLifecycleService = (): EmissionFactorVersionLifecycleService => {
+  if (!emissionFactorVersionLifecycleServiceInstance) {
+    emissionFactorVersionLifecycleServiceInstance = new EmissionFactorVersionLifecycleService()
+  }
+  return emissionFactorVersionLifecycleServiceInstance
+}
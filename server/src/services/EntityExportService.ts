@@ -0,0 +1,317 @@
+/**
+ * Entity Export Service
+ *
+ * Generic export of any ListDetailTemplate entity table (GET /api/:entity/export):
+ * 1. columns, filters and sort keys from the table view are matched to the entity's
+ *    Airtable fields (field mapping + TableSchema)
+ * 2. the filtered and sorted query is read page by page (100 records per Airtable page) -
+ *    for tenant tables, the records of the request's organization only
+ * 3. linked record IDs are resolved to names through RelationshipResolver
+ * 4. each page is written to the response as soon as it is read, in the requested format
+ */
+
+import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, FilterValue, allOf, getFilterFields, inFilter, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
+import { getTenantAirtableField, tenantFilter } from '../auth/TenantContext'
+import { Writable } from 'stream'
+import { getEntityImportService } from './EntityImportService'
+import { RelationshipResolver } from './RelationshipResolver'
+import { getEntityTable, EntityTable } from '../utils/entityTables'
+import { createExportWriter } from '../utils/exportWriters'
+import { ImportFieldDefinition, UnknownImportEntityError } from '../types/Import'
+import { ExportColumn, ExportOptions, ExportValidationError, ExportValue, ExportWriter, EXPORT_FORMATS } from '../types/Export'
+
+const NUMBER_TYPES = new Set(['number', 'currency', 'percent', 'rating', 'duration', 'count', 'autoNumber'])
+
+const LINK_TYPES = new Set(['multipleRecordLinks', 'singleRecordLink'])
+
+/** Field types that can be matched with a text search */
+const SEARCHABLE_TYPES = new Set([
+  'singleLineText', 'multilineText', 'longText', 'richText', 'email', 'url', 'phoneNumber',
+  'singleSelect', 'multipleSelects', 'formula', 'multipleLookupValues', 'lookup', 'barcode',
+])
+
+/** Lower-case and drop punctuation so "status" matches "Status" */
+const normalizeKey = (key: string): string =>
+  key.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+/**
+ * Export ready to stream - validated before any response header is sent
+ */
+export interface PreparedExport {
+  entityTable: EntityTable
+  format: ExportOptions['format']
+  columns: ExportColumn[]
+  /** Column keys that did not match a field and were left out */
+  skippedColumns: string[]
+  fields: ImportFieldDefinition[]
+  selectOptions: Airtable.SelectOptions<any>
+  filename: string
+}
+
+export class EntityExportService {
+  private base: Airtable.Base
+  private relationshipResolver: RelationshipResolver
+
+  constructor() {
+    const apiKey = process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN || process.env.AIRTABLE_API_KEY
+    if (!apiKey) {
+      throw new Error('Airtable API token is required. Set AIRTABLE_PERSONAL_ACCESS_TOKEN in .env file')
+    }
+
+    const baseId = process.env.AIRTABLE_SYSTEM_CONFIG_BASE_ID || 'appGtLbKhmNkkTLVL'
+    this.base = getAirtableBase(baseId, apiKey)
+    this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
+  }
+
+  /**
+   * Resolve columns, filters and sort against the entity's fields
+   */
+  async prepare(entity: string, options: ExportOptions): Promise<PreparedExport> {
+    const entityTable = getEntityTable(entity)
+    if (!entityTable) {
+      throw new UnknownImportEntityError(entity)
+    }
+    if (!EXPORT_FORMATS.includes(options.format)) {
+      throw new ExportValidationError(`format must be one of ${EXPORT_FORMATS.join(', ')}`, 'format')
+    }
+
+    const fields = await getEntityImportService().getFieldDefinitions(entity, 'export')
+    const findField = (key: string): ImportFieldDefinition | undefined => {
+      const exact = fields.find(field => field.name === key)
+      if (exact) return exact
+      const normalized = normalizeKey(key)
+      const match = fields.find(field => normalizeKey(field.name) === normalized || normalizeKey(field.label) === normalized)
+      if (match) return match
+      // Resolved-name columns such as "CompanyName" or "Scope Name" show the linked field
+      const linkedName = normalized.replace(/ ?name$/, '')
+      return linkedName !== normalized
+        ? fields.find(field => LINK_TYPES.has(field.type) && normalizeKey(field.name) === linkedName)
+        : undefined
+    }
+
+    const requestedColumns = options.columns && options.columns.length > 0
+      ? options.columns
+      : fields.map(field => ({ key: field.name, label: field.label }))
+    const columns: ExportColumn[] = []
+    const skippedColumns: string[] = []
+    requestedColumns.forEach(column => {
+      const field = findField(column.key)
+      if (!field || columns.some(c => c.field === field.name)) {
+        if (!field) skippedColumns.push(column.key)
+        return
+      }
+      columns.push({
+        field: field.name,
+        label: column.label || field.label,
+        kind: NUMBER_TYPES.has(field.type) ? 'number' : field.type === 'checkbox' ? 'boolean' : 'string',
+      })
+    })
+    if (columns.length === 0) {
+      throw new ExportValidationError('None of the requested columns match a field', 'columns')
+    }
+
+    const filterNodes: FilterNode[] = []
+    for (const [key, rawValue] of Object.entries(options.filters || {})) {
+      const values = (Array.isArray(rawValue) ? rawValue : [rawValue]).map(value => String(value)).filter(value => value !== '')
+      if (values.length === 0) continue
+      const field = findField(key)
+      if (!field) {
+        throw new ExportValidationError(`Unknown filter field "${key}"`, 'filters')
+      }
+      filterNodes.push(inFilter(field.name, values.map(value => this.filterValue(field, value))))
+    }
+    if (options.filter) {
+      const unknown = getFilterFields(options.filter).find(key => !findField(key))
+      if (unknown) {
+        throw new ExportValidationError(`Unknown filter field "${unknown}"`, 'filter')
+      }
+      filterNodes.push(options.filter)
+    }
+
+    const searchable = columns
+      .map(column => fields.find(field => field.name === column.field)!)
+      .filter(field => SEARCHABLE_TYPES.has(field.type) || LINK_TYPES.has(field.type))
+    // Tenant tables export the records of the request's organization only
+    const tenantField = getTenantAirtableField(entityTable.entity)
+    const filter = allOf(
+      ...filterNodes,
+      searchFilter(searchable.map(field => field.name), options.search),
+      tenantField ? tenantFilter(tenantField) : undefined
+    )
+
+    const selectOptions: Airtable.SelectOptions<any> = {
+      pageSize: 100,
+      fields: columns.map(column => column.field),
+    }
+    if (filter) {
+      selectOptions.filterByFormula = compileAirtableFormula(filter, {
+        fieldName: key => findField(key)?.name || key,
+        // Linked records and multiple selects match when any of their items equals the value
+        isListField: key => {
+          const field = findField(key)
+          return !!field && (LINK_TYPES.has(field.type) || field.type === 'multipleSelects' || field.type === 'multipleLookupValues')
+        },
+      })
+    }
+    if (options.sortBy) {
+      const sortField = findField(options.sortBy)
+      if (!sortField) {
+        throw new ExportValidationError(`Unknown sort field "${options.sortBy}"`, 'sortBy')
+      }
+      selectOptions.sort = [{ field: sortField.name, direction: options.sortOrder === 'desc' ? 'desc' : 'asc' }]
+    }
+
+    return {
+      entityTable,
+      format: options.format,
+      columns,
+      skippedColumns,
+      fields,
+      selectOptions,
+      filename: `${entityTable.entity}_${new Date().toISOString().split('T')[0]}.${options.format}`,
+    }
+  }
+
+  /**
+   * Create the file writer for a prepared export
+   */
+  createWriter(prepared: PreparedExport, out: Writable): ExportWriter {
+    return createExportWriter(prepared.format, prepared.columns, out)
+  }
+
+  /**
+   * Read every page of the query and write it out
+   * Stops early (without error) once isAborted returns true, e.g. when the client disconnects
+   * @returns number of records written
+   */
+  async stream(prepared: PreparedExport, writer: ExportWriter, isAborted: () => boolean = () => false): Promise<number> {
+    const fieldsByName = new Map(prepared.fields.map(field => [field.name, field]))
+    const columnFields = prepared.columns.map(column => fieldsByName.get(column.field)!)
+    let written = 0
+    let started = false
+
+    await new Promise<void>((resolve, reject) => {
+      this.base(prepared.entityTable.airtableTable)
+        .select(prepared.selectOptions)
+        .eachPage(
+          (records, fetchNextPage) => {
+            const handlePage = async () => {
+              if (!started) {
+                await writer.start()
+                started = true
+              }
+              const names = await this.resolveLinkNames(records, columnFields)
+              await writer.writeRows(records.map(record =>
+                columnFields.map(field => this.toExportValue(record.fields[field.name], field, names))
+              ))
+              written += records.length
+            }
+            handlePage()
+              .then(() => {
+                if (isAborted()) resolve()
+                else fetchNextPage()
+              })
+              .catch(reject)
+          },
+          (err) => {
+            if (err) reject(err)
+            else resolve()
+          }
+        )
+    })
+
+    if (isAborted()) return written
+    if (!started) {
+      await writer.start()
+    }
+    await writer.end()
+    return written
+  }
+
+  /**
+   * Typed filter value of a field: checkboxes compare as booleans, numbers as numbers
+   */
+  private filterValue(field: ImportFieldDefinition, value: string): FilterValue {
+    if (field.type === 'checkbox') {
+      return ['true', '1', 'yes'].includes(value.toLowerCase())
+    }
+    if (NUMBER_TYPES.has(field.type) && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value)
+    }
+    return value
+  }
+
+  /**
+   * Resolve the linked record IDs of one page, one lookup per linked table
+   * Returns linked table ID -> record ID -> name
+   */
+  private async resolveLinkNames(
+    records: readonly Airtable.Record<any>[],
+    columnFields: ImportFieldDefinition[]
+  ): Promise<Map<string, Map<string, string>>> {
+    const idsByTable = new Map<string, { displayField: string; ids: Set<string> }>()
+    columnFields.forEach(field => {
+      if (!LINK_TYPES.has(field.type) || !field.linkedTableId) return
+      const entry = idsByTable.get(field.linkedTableId) || {
+        displayField: field.linkedTablePrimaryField || 'Name',
+        ids: new Set<string>(),
+      }
+      records.forEach(record => {
+        const value = record.fields[field.name]
+        ;(Array.isArray(value) ? value : value ? [value] : []).forEach((id: string) => entry.ids.add(id))
+      })
+      idsByTable.set(field.linkedTableId, entry)
+    })
+
+    const names = new Map<string, Map<string, string>>()
+    for (const [tableId, { displayField, ids }] of idsByTable) {
+      if (ids.size === 0) continue
+      const resolved = await this.relationshipResolver.resolveLinkedRecords(Array.from(ids), tableId, displayField)
+      names.set(tableId, new Map(resolved.map(r => [r.id, r.name])))
+    }
+    return names
+  }
+
+  /**
+   * Airtable cell value -> export value
+   */
+  private toExportValue(value: any, field: ImportFieldDefinition, names: Map<string, Map<string, string>>): ExportValue {
+    if (field.type === 'checkbox') return !!value
+    if (value === null || value === undefined) return null
+
+    if (LINK_TYPES.has(field.type)) {
+      const byId = field.linkedTableId ? names.get(field.linkedTableId) : undefined
+      const ids: string[] = Array.isArray(value) ? value : [value]
+      return ids.map(id => byId?.get(id) || id)
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.itemText(item)).filter(text => text !== '')
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') return value
+    if (typeof value === 'object') {
+      // Formula errors come back as { error }
+      return 'error' in value ? null : this.itemText(value)
+    }
+    return String(value)
+  }
+
+  /** Text of one item of a multiple value (attachment, collaborator, lookup value) */
+  private itemText(item: any): string {
+    if (item === null || item === undefined) return ''
+    if (typeof item !== 'object') return String(item)
+    return String(item.filename || item.name || item.email || item.url || item.text || '')
+  }
+}
+
+// Lazy singleton instance
+let entityExportServiceInstance: EntityExportService | null = null
+
+export const getEntityExportService = (): EntityExportService => {
+  if (!entityExportServiceInstance) {
+    entityExportServiceInstance = new EntityExportService()
+  }
+  return entityExportServiceInstance
+}
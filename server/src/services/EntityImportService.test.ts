@@ -0,0 +1,153 @@
+import { EntityImportService, isProtectedField } from './EntityImportService'
+import { EntityExportService } from './EntityExportService'
+import { ExportFormat, ExportValidationError } from '../types/Export'
+import { recalculateForCreatedEmissionFactors } from './ActivityDataRecalculation'
+
+jest.mock('./FieldMappingService', () => {
+  const mapping = (tableId: string, fields: Array<[string, string, string?]>) => ({
+    tableId,
+    tableName: tableId,
+    fieldKeyToId: {},
+    fieldIdToKey: {},
+    lastUpdated: '2024-01-01T00:00:00.000Z',
+    fields: fields.map(([fieldName, fieldType, linkedTableId], index) => ({
+      fieldId: `fld${index + 1}`, fieldKey: fieldName, fieldName, fieldType, linkedTableId,
+    })),
+  })
+  const mappings: Record<string, ReturnType<typeof mapping>> = {
+    users: mapping('users', [
+      ['Email', 'email'],
+      ['First Name', 'singleLineText'],
+      ['Password Hash', 'singleLineText'],
+      ['User Roles', 'multipleRecordLinks', 'tblRoles'],
+    ]),
+    'standard-emission-factors': mapping('standard-emission-factors', [
+      ['Name', 'singleLineText'],
+      ['Emission Factor (CO2e)', 'number'],
+      ['Normalized activity', 'multipleRecordLinks', 'tblActivities'],
+    ]),
+  }
+  return {
+    FieldMappingService: jest.fn().mockImplementation(() => ({
+      getFieldMapping: async (entity: string) => mappings[entity],
+    })),
+  }
+})
+
+// Creates answer with the record they were given
+jest.mock('../database/airtable/AirtableClient', () => ({
+  getAirtableBase: () => () => ({
+    create: async (records: Array<{ fields: Record<string, any> }>) =>
+      records.map((record, index) => ({ id: `recCreated${index}`, fields: record.fields })),
+  }),
+}))
+
+jest.mock('./ActivityDataRecalculation', () => ({ recalculateForCreatedEmissionFactors: jest.fn() }))
+
+jest.mock('./TableSchemaAirtableService', () => ({
+  getTableSchemaAirtableService: () => ({ getSchema: async () => null }),
+}))
+
+// The export service reads its fields through the import service singleton
+let importService: EntityImportService
+jest.mock('./EntityImportService', () => {
+  const actual = jest.requireActual('./EntityImportService')
+  return { ...actual, getEntityImportService: () => importService }
+})
+
+describe('protected fields of imports and exports', () => {
+  beforeAll(() => {
+    process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN = 'test-token'
+    delete process.env.AUTH_PASSWORD_FIELD
+    importService = new EntityImportService()
+  })
+
+  it('matches protected fields case-insensitively, and only on their entity', () => {
+    expect(isProtectedField('users', ' password hash ', 'export')).toBe(true)
+    expect(isProtectedField('users', 'User Roles', 'export')).toBe(false)
+    expect(isProtectedField('users', 'User Roles', 'import')).toBe(true)
+    expect(isProtectedField('companies', 'Password Hash', 'import')).toBe(false)
+  })
+
+  it('follows AUTH_PASSWORD_FIELD', () => {
+    process.env.AUTH_PASSWORD_FIELD = 'Secret'
+    try {
+      expect(isProtectedField('users', 'Secret', 'export')).toBe(true)
+      expect(isProtectedField('users', 'Password Hash', 'export')).toBe(false)
+    } finally {
+      delete process.env.AUTH_PASSWORD_FIELD
+    }
+  })
+
+  describe('export', () => {
+    it('leaves the password hash out of the columns and keeps role links', async () => {
+      const prepared = await new EntityExportService().prepare('users', { format: 'csv' })
+      const columns = prepared.columns.map(column => column.field)
+      expect(columns).toEqual(['Email', 'First Name', 'User Roles'])
+      expect(prepared.selectOptions.fields).not.toContain('Password Hash')
+    })
+
+    it('skips a requested password hash column', async () => {
+      const prepared = await new EntityExportService().prepare('users', {
+        format: 'csv',
+        columns: [{ key: 'Email' }, { key: 'Password Hash' }],
+      })
+      expect(prepared.columns.map(column => column.field)).toEqual(['Email'])
+      expect(prepared.skippedColumns).toEqual(['Password Hash'])
+    })
+
+    it('refuses an unknown format', async () => {
+      await expect(new EntityExportService().prepare('users', { format: 'pdf' as ExportFormat }))
+        .rejects.toMatchObject({ name: 'ExportValidationError', field: 'format' })
+    })
+
+    it('refuses to filter on the password hash', async () => {
+      await expect(new EntityExportService().prepare('users', {
+        format: 'csv',
+        filters: { 'Password Hash': 'scrypt$' },
+      })).rejects.toBeInstanceOf(ExportValidationError)
+    })
+  })
+
+  describe('import', () => {
+    it('offers neither the password hash nor role links as import fields', async () => {
+      const fields = await importService.getFieldDefinitions('users')
+      expect(fields.map(field => field.name)).toEqual(['Email', 'First Name'])
+    })
+
+    it('leaves password hash and role columns unmapped', async () => {
+      const report = await importService.importJson('users', [
+        { Email: 'ada@example.com', 'First Name': 'Ada', 'Password Hash': 'scrypt$x', 'User Roles': 'recAAAAAAAAAAAAAA' },
+      ], { dryRun: true })
+
+      expect(report.columnMapping).toEqual({ Email: 'Email', 'First Name': 'First Name' })
+      expect(report.unmappedColumns).toEqual(['Password Hash', 'User Roles'])
+      expect(report.rows[0].fields).not.toHaveProperty('Password Hash')
+      expect(report.rows[0].fields).not.toHaveProperty('User Roles')
+    })
+
+    it('refuses an explicit mapping to the password hash', async () => {
+      await expect(importService.importJson('users', [{ hash: 'scrypt$x', Email: 'ada@example.com' }], {
+        dryRun: true,
+        columnMapping: { hash: 'Password Hash' },
+      })).rejects.toThrow('"Password Hash" is not a writable field')
+    })
+
+    it('recalculates Activity Data after creating emission factors, as the factor services do', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+      try {
+        const report = await importService.importJson('standard-emission-factors', [
+          { Name: 'Grid electricity', 'Emission Factor (CO2e)': '0.2', 'Normalized activity': 'recAAAAAAAAAAAAAA' },
+          { Name: 'Diesel', 'Emission Factor (CO2e)': 'lots', 'Normalized activity': 'recBBBBBBBBBBBBBB' },
+        ])
+
+        expect(report.summary).toMatchObject({ created: 1, invalid: 1 })
+        expect(recalculateForCreatedEmissionFactors).toHaveBeenCalledWith([
+          { Name: 'Grid electricity', 'Emission Factor (CO2e)': 0.2, 'Normalized activity': ['recAAAAAAAAAAAAAA'] },
+        ])
+      } finally {
+        jest.restoreAllMocks()
+      }
+    })
+  })
+})
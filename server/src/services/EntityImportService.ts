@@ -0,0 +1,636 @@
+/**
+ * Entity Import Service
+ *
+ * Generic import into any ListDetailTemplate entity table (POST /api/:entity/import):
+ * 1. the entity's fields come from its Airtable field mapping (types, select options,
+ *    linked tables) and its TableSchema (display names, required flags)
+ * 2. source columns are matched to fields by Airtable field name or display name
+ * 3. values are validated against the field type; linked record names are resolved
+ *    to record IDs through RelationshipResolver
+ * 4. nothing is written on a dry run; otherwise valid rows are created in batches of 10,
+ *    in tenant tables as records of the request's organization
+ */
+
+import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FieldMappingService } from './FieldMappingService'
+import { getTableSchemaAirtableService } from './TableSchemaAirtableService'
+import { getUserPasswordHashField } from '../auth/passwords'
+import { RelationshipResolver } from './RelationshipResolver'
+import { getEntityTable } from '../utils/entityTables'
+import { getTenantAirtableField, stampTenant } from '../auth/TenantContext'
+import { parseSpreadsheet, excelSerialToIsoDate, ParsedSpreadsheet } from '../utils/spreadsheet'
+import { TableField } from '../types/TableSchema'
+import { recalculateForCreatedEmissionFactors } from './ActivityDataRecalculation'
+import {
+  ImportFieldDefinition,
+  ImportOptions,
+  ImportReport,
+  ImportRowResult,
+  ImportValidationError,
+  UnknownImportEntityError,
+} from '../types/Import'
+
+/** Airtable computes these - they cannot be written */
+const READ_ONLY_TYPES = new Set([
+  'formula',
+  'rollup',
+  'lookup',
+  'multipleLookupValues',
+  'count',
+  'autoNumber',
+  'createdTime',
+  'lastModifiedTime',
+  'createdBy',
+  'lastModifiedBy',
+  'button',
+  'externalSyncSource',
+  'aiText',
+])
+
+/** Writable in Airtable but not from a spreadsheet cell */
+const UNSUPPORTED_TYPES = new Set([
+  'multipleAttachments',
+  'attachment',
+  'singleCollaborator',
+  'multipleCollaborators',
+  'user',
+])
+
+const LINK_TYPES = new Set(['multipleRecordLinks', 'singleRecordLink'])
+
+/**
+ * Fields of an entity an import or export never touches, compared case-insensitively:
+ * - hidden: neither exported nor imported (secrets)
+ * - exportOnly: exported, but never imported - links granting access, which are only set
+ *   through the entity's own routes (user roles: PUT /api/users/:id, under update)
+ */
+const PROTECTED_FIELDS: Record<string, () => { hidden: string[]; exportOnly: string[] }> = {
+  users: () => ({ hidden: [getUserPasswordHashField()], exportOnly: ['User Roles'] }),
+}
+
+/**
+ * Whether a field of an entity is left out of an import or export
+ */
+export function isProtectedField(entity: string, fieldName: string, purpose: 'import' | 'export'): boolean {
+  const fields = PROTECTED_FIELDS[entity]?.()
+  if (!fields) {
+    return false
+  }
+  const name = fieldName.trim().toLowerCase()
+  const excluded = purpose === 'import' ? [...fields.hidden, ...fields.exportOnly] : fields.hidden
+  return excluded.some(field => field.toLowerCase() === name)
+}
+
+/**
+ * What the entity's own services do after creating records: an import creates them
+ * through the Airtable table directly, so it runs these itself
+ */
+const AFTER_CREATE: Record<string, (created: Array<Record<string, any>>) => void> = {
+  'standard-emission-factors': recalculateForCreatedEmissionFactors,
+}
+
+const RECORD_ID = /^rec[A-Za-z0-9]{14}$/
+
+/** Separators accepted between several linked records or select options in one cell */
+const LIST_SEPARATOR = /\s*[;|\n]\s*|\s*,\s*/
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1', 'x', '✓', 'checked'])
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0', '', 'unchecked'])
+
+/** Lower-case and drop punctuation so "Company Name" matches "company_name" */
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+/** A cell value from a spreadsheet (always text) or a JSON row */
+type RawValue = string | number | boolean | null | undefined | Array<string | number>
+
+interface SourceRow {
+  rowNumber: number
+  values: Record<string, RawValue>
+}
+
+export class EntityImportService {
+  private apiKey: string
+  private baseId: string
+  private base: Airtable.Base
+  private fieldMappingService: FieldMappingService
+  private relationshipResolver: RelationshipResolver
+
+  constructor() {
+    const apiKey = process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN || process.env.AIRTABLE_API_KEY
+    if (!apiKey) {
+      throw new Error('Airtable API token is required. Set AIRTABLE_PERSONAL_ACCESS_TOKEN in .env file')
+    }
+
+    this.apiKey = apiKey
+    this.baseId = process.env.AIRTABLE_SYSTEM_CONFIG_BASE_ID || 'appGtLbKhmNkkTLVL'
+    this.base = getAirtableBase(this.baseId, this.apiKey)
+    this.fieldMappingService = new FieldMappingService()
+    this.relationshipResolver = new RelationshipResolver(this.baseId, this.apiKey)
+  }
+
+  /**
+   * Validate a CSV/XLSX file and, unless this is a dry run, create its valid rows
+   */
+  async importFile(
+    entity: string,
+    file: { buffer: Buffer; filename?: string; mimeType?: string },
+    options: ImportOptions = {}
+  ): Promise<ImportReport> {
+    let parsed: ParsedSpreadsheet
+    try {
+      parsed = parseSpreadsheet(file.buffer, { filename: file.filename, mimeType: file.mimeType, sheet: options.sheet })
+    } catch (error: any) {
+      throw new ImportValidationError(`Could not read file: ${error.message}`, 'file')
+    }
+
+    return this.importRows(entity, parsed.format, parsed.headers, parsed.rows, options, parsed.sheet)
+  }
+
+  /**
+   * Validate JSON rows (objects keyed by column) and, unless this is a dry run, create the valid ones
+   */
+  async importJson(
+    entity: string,
+    rows: Array<Record<string, RawValue>>,
+    options: ImportOptions = {}
+  ): Promise<ImportReport> {
+    if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+      throw new ImportValidationError('rows must be an array of objects', 'rows')
+    }
+
+    const headers = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+    return this.importRows(
+      entity,
+      'json',
+      headers,
+      rows.map((values, index) => ({ rowNumber: index + 1, values })),
+      options
+    )
+  }
+
+  /**
+   * Get the importable fields of an entity, e.g. to build an import template, or its
+   * exportable fields - protected fields are left out either way
+   */
+  async getFieldDefinitions(entity: string, purpose: 'import' | 'export' = 'import'): Promise<ImportFieldDefinition[]> {
+    const fields = await this.getAllFieldDefinitions(entity)
+    return fields.filter(field => !isProtectedField(entity, field.name, purpose))
+  }
+
+  /**
+   * Every field of an entity, from its field mapping or else its table schema
+   */
+  private async getAllFieldDefinitions(entity: string): Promise<ImportFieldDefinition[]> {
+    const entityTable = getEntityTable(entity)
+    if (!entityTable) {
+      throw new UnknownImportEntityError(entity)
+    }
+
+    const [mapping, schema] = await Promise.all([
+      this.fieldMappingService.getFieldMapping(entityTable.entity),
+      getTableSchemaAirtableService().getSchema(entityTable.entity).catch(error => {
+        console.warn(`⚠️  Could not load table schema for ${entityTable.entity}:`, error.message)
+        return null
+      }),
+    ])
+
+    const schemaFields = new Map<string, TableField>()
+    schema?.fields.forEach(field => schemaFields.set(field.airtableFieldName || field.name, field))
+
+    if (mapping) {
+      return mapping.fields.map(field => {
+        const schemaField = schemaFields.get(field.fieldName)
+        return {
+          name: field.fieldName,
+          label: schemaField?.name || field.fieldName,
+          type: field.fieldType || 'singleLineText',
+          required: !!schemaField?.required,
+          choices: field.choices || schemaField?.format?.options,
+          linkedTableId: field.linkedTableId,
+          linkedTablePrimaryField: field.linkedTablePrimaryField,
+        }
+      })
+    }
+
+    if (schema) {
+      // No Metadata API access - linked records can then only be given as record IDs
+      return schema.fields.map(field => ({
+        name: field.airtableFieldName || field.name,
+        label: field.name,
+        type: field.type,
+        required: !!field.required,
+        choices: field.format?.options,
+      }))
+    }
+
+    throw new Error(`No schema available for ${entityTable.label}. Configure the table schema or grant schema.bases:read access.`)
+  }
+
+  private async importRows(
+    entity: string,
+    format: ImportReport['format'],
+    headers: string[],
+    sourceRows: SourceRow[],
+    options: ImportOptions,
+    sheet?: string
+  ): Promise<ImportReport> {
+    const entityTable = getEntityTable(entity)
+    if (!entityTable) {
+      throw new UnknownImportEntityError(entity)
+    }
+    if (sourceRows.length === 0) {
+      throw new ImportValidationError('The file has no data rows', 'file')
+    }
+
+    const dryRun = options.dryRun === true
+    const fields = await this.getFieldDefinitions(entity)
+    const columnMapping = this.buildColumnMapping(headers, fields, options.columnMapping)
+    const mappedFields = fields.filter(field => Object.values(columnMapping).includes(field.name))
+    if (mappedFields.length === 0) {
+      throw new ImportValidationError(
+        `No column matches a writable ${entityTable.label} field. Columns found: ${headers.join(', ')}`,
+        'columnMapping'
+      )
+    }
+
+    const linkIds = await this.resolveLinks(sourceRows, columnMapping, mappedFields)
+    const rows = sourceRows.map(source => this.buildRow(source, columnMapping, fields, linkIds))
+    this.flagInvalidRows(rows, fields, mappedFields)
+
+    const report: ImportReport = {
+      entity: entityTable.entity,
+      dryRun,
+      format,
+      sheet,
+      columnMapping,
+      unmappedColumns: headers.filter(header => !columnMapping[header]),
+      summary: { total: rows.length, valid: 0, invalid: 0, created: 0, failed: 0 },
+      rows,
+    }
+
+    if (!dryRun) {
+      const tenantField = getTenantAirtableField(entityTable.entity)
+      if (tenantField) {
+        rows.forEach(row => {
+          row.fields = stampTenant(row.fields, tenantField)
+        })
+      }
+      await this.write(entityTable.airtableTable, rows)
+      const created = rows.filter(row => row.status === 'created')
+      AFTER_CREATE[entityTable.entity]?.(created.map(row => row.fields))
+      console.log(`📥 Imported ${created.length}/${rows.length} ${entityTable.label}`)
+    }
+
+    rows.forEach(row => {
+      if (row.status === 'invalid') report.summary.invalid++
+      else report.summary.valid++
+      if (row.status === 'created') report.summary.created++
+      if (row.status === 'failed') report.summary.failed++
+    })
+
+    return report
+  }
+
+  /**
+   * Map source columns to fields: explicit mapping first, then Airtable field name or display name
+   */
+  private buildColumnMapping(
+    headers: string[],
+    fields: ImportFieldDefinition[],
+    explicit: Record<string, string> = {}
+  ): Record<string, string> {
+    const writable = fields.filter(field => !READ_ONLY_TYPES.has(field.type) && !UNSUPPORTED_TYPES.has(field.type))
+    const byName = new Map(writable.map(field => [field.name, field]))
+    const byHeader = new Map<string, ImportFieldDefinition>()
+    // Airtable names win over display names when they collide
+    writable.forEach(field => byHeader.set(normalizeHeader(field.label), field))
+    writable.forEach(field => byHeader.set(normalizeHeader(field.name), field))
+
+    const mapping: Record<string, string> = {}
+    const used = new Set<string>()
+
+    for (const [column, fieldName] of Object.entries(explicit)) {
+      if (!headers.includes(column)) {
+        throw new ImportValidationError(`Column "${column}" is not in the file`, 'columnMapping')
+      }
+      if (!fieldName) continue
+      if (!byName.has(fieldName)) {
+        throw new ImportValidationError(`"${fieldName}" is not a writable field`, 'columnMapping')
+      }
+      if (used.has(fieldName)) {
+        throw new ImportValidationError(`More than one column is mapped to "${fieldName}"`, 'columnMapping')
+      }
+      mapping[column] = fieldName
+      used.add(fieldName)
+    }
+
+    headers.forEach(header => {
+      if (header in explicit) return
+      const field = byHeader.get(normalizeHeader(header))
+      if (field && !used.has(field.name)) {
+        mapping[header] = field.name
+        used.add(field.name)
+      }
+    })
+
+    return mapping
+  }
+
+  /**
+   * Resolve every linked record name in the file with one lookup per linked table
+   * Returns linked table ID -> lower-cased name -> record ID
+   */
+  private async resolveLinks(
+    sourceRows: SourceRow[],
+    columnMapping: Record<string, string>,
+    mappedFields: ImportFieldDefinition[]
+  ): Promise<Map<string, Map<string, string>>> {
+    const namesByTable = new Map<string, { displayField: string; names: Set<string> }>()
+
+    for (const [column, fieldName] of Object.entries(columnMapping)) {
+      const field = mappedFields.find(f => f.name === fieldName)
+      if (!field || !LINK_TYPES.has(field.type) || !field.linkedTableId) continue
+
+      const entry = namesByTable.get(field.linkedTableId) || {
+        displayField: field.linkedTablePrimaryField || 'Name',
+        names: new Set<string>(),
+      }
+      sourceRows.forEach(row => {
+        this.linkCandidates(row.values[column]).forEach(name => {
+          if (!RECORD_ID.test(name)) entry.names.add(name)
+        })
+      })
+      namesByTable.set(field.linkedTableId, entry)
+    }
+
+    const resolved = new Map<string, Map<string, string>>()
+    for (const [tableId, { displayField, names }] of namesByTable) {
+      try {
+        resolved.set(tableId, await this.relationshipResolver.findRecordIdsByName(Array.from(names), tableId, displayField))
+      } catch (error: any) {
+        console.error(`Error resolving linked record names in ${tableId}:`, error)
+        resolved.set(tableId, new Map())
+      }
+    }
+    return resolved
+  }
+
+  /** The whole cell and each of its list items - a name may itself contain a separator */
+  private linkCandidates(raw: RawValue): string[] {
+    if (Array.isArray(raw)) return raw.map(item => String(item).trim()).filter(Boolean)
+    const text = raw === null || raw === undefined ? '' : String(raw).trim()
+    if (!text) return []
+    return Array.from(new Set([text, ...text.split(LIST_SEPARATOR).filter(Boolean)]))
+  }
+
+  private buildRow(
+    source: SourceRow,
+    columnMapping: Record<string, string>,
+    fields: ImportFieldDefinition[],
+    linkIds: Map<string, Map<string, string>>
+  ): ImportRowResult {
+    const row: ImportRowResult = { rowNumber: source.rowNumber, status: 'valid', fields: {}, errors: [], warnings: [] }
+
+    for (const [column, fieldName] of Object.entries(columnMapping)) {
+      const field = fields.find(f => f.name === fieldName)!
+      const raw = source.values[column]
+      const isEmpty = raw === null || raw === undefined || (Array.isArray(raw) ? raw.length === 0 : String(raw).trim() === '')
+      if (isEmpty) continue
+
+      const result = this.convertValue(raw!, field, linkIds)
+      if ('error' in result) {
+        row.errors.push({ field: field.name, message: `${field.label}: ${result.error}` })
+      } else {
+        row.fields[field.name] = result.value
+      }
+    }
+
+    return row
+  }
+
+  /**
+   * Convert a cell to the value Airtable expects for the field type
+   */
+  private convertValue(
+    raw: NonNullable<RawValue>,
+    field: ImportFieldDefinition,
+    linkIds: Map<string, Map<string, string>>
+  ): { value: any } | { error: string } {
+    const text = Array.isArray(raw) ? raw.join(', ') : String(raw).trim()
+
+    switch (field.type) {
+      case 'number':
+      case 'currency':
+      case 'rating':
+      case 'percent': {
+        if (typeof raw === 'number') return { value: raw }
+        const isPercent = field.type === 'percent' && text.endsWith('%')
+        const number = this.parseNumber(isPercent ? text.slice(0, -1) : text.replace(/^[^\d\-+.]+/, ''))
+        if (number === undefined) return { error: `"${text}" is not a number` }
+        if (field.type === 'rating' && (!Number.isInteger(number) || number < 0)) {
+          return { error: `"${text}" is not a rating` }
+        }
+        // Airtable stores percentages as fractions
+        return { value: isPercent ? number / 100 : number }
+      }
+      case 'duration': {
+        if (typeof raw === 'number') return { value: raw }
+        const parts = text.split(':')
+        if (parts.length > 1 && parts.length <= 3 && parts.every(part => /^\d+(\.\d+)?$/.test(part))) {
+          return { value: parts.reduce((total, part) => total * 60 + Number(part), 0) * (parts.length === 2 ? 60 : 1) }
+        }
+        const seconds = this.parseNumber(text)
+        return seconds === undefined ? { error: `"${text}" is not a duration` } : { value: seconds }
+      }
+      case 'checkbox': {
+        if (typeof raw === 'boolean') return { value: raw }
+        const key = text.toLowerCase()
+        if (TRUE_VALUES.has(key)) return { value: true }
+        if (FALSE_VALUES.has(key)) return { value: false }
+        return { error: `"${text}" is not true/false` }
+      }
+      case 'date':
+      case 'dateTime': {
+        const date = this.parseDate(text, field.type === 'dateTime')
+        return date === undefined ? { error: `"${text}" is not a date` } : { value: date }
+      }
+      case 'email':
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text) ? { value: text } : { error: `"${text}" is not an email address` }
+      case 'url':
+        return /^(https?:\/\/)?[^\s.]+\.[^\s]+$/i.test(text) ? { value: text } : { error: `"${text}" is not a URL` }
+      case 'singleSelect': {
+        const option = this.matchChoice(text, field.choices)
+        return option === undefined
+          ? { error: `"${text}" is not one of ${field.choices!.join(', ')}` }
+          : { value: option }
+      }
+      case 'multipleSelects': {
+        const values = Array.isArray(raw) ? raw.map(item => String(item).trim()) : text.split(LIST_SEPARATOR)
+        const options: string[] = []
+        for (const value of values.filter(Boolean)) {
+          const option = this.matchChoice(value, field.choices)
+          if (option === undefined) return { error: `"${value}" is not one of ${field.choices!.join(', ')}` }
+          options.push(option)
+        }
+        return { value: Array.from(new Set(options)) }
+      }
+      case 'multipleRecordLinks':
+      case 'singleRecordLink':
+        return this.convertLink(raw, field, linkIds)
+      default:
+        return { value: text }
+    }
+  }
+
+  /**
+   * Linked records by record ID or by the linked table's primary field
+   * The whole cell is tried as one name before it is split into several
+   */
+  private convertLink(
+    raw: NonNullable<RawValue>,
+    field: ImportFieldDefinition,
+    linkIds: Map<string, Map<string, string>>
+  ): { value: string[] } | { error: string } {
+    const byName = field.linkedTableId ? linkIds.get(field.linkedTableId) : undefined
+    const lookup = (name: string): string | undefined =>
+      RECORD_ID.test(name) ? name : byName?.get(name.toLowerCase())
+
+    const [whole, ...parts] = this.linkCandidates(raw)
+    const wholeId = !Array.isArray(raw) ? lookup(whole) : undefined
+    const names = wholeId ? [whole] : Array.isArray(raw) ? [whole, ...parts] : parts.length > 0 ? parts : [whole]
+
+    const ids: string[] = []
+    const missing: string[] = []
+    names.forEach(name => {
+      const id = lookup(name)
+      if (id) ids.push(id)
+      else missing.push(name)
+    })
+
+    if (missing.length > 0) {
+      return {
+        error: byName
+          ? `no linked record named ${missing.map(name => `"${name}"`).join(', ')}`
+          : `linked records must be given as record IDs (linked table is not available)`,
+      }
+    }
+    return { value: Array.from(new Set(ids)) }
+  }
+
+  /**
+   * Flag rows missing required fields and duplicate rows
+   */
+  private flagInvalidRows(
+    rows: ImportRowResult[],
+    fields: ImportFieldDefinition[],
+    mappedFields: ImportFieldDefinition[]
+  ): void {
+    const required = fields.filter(field => field.required && !READ_ONLY_TYPES.has(field.type))
+    const mappedNames = new Set(mappedFields.map(field => field.name))
+    const seen = new Map<string, number>()
+
+    rows.forEach(row => {
+      required.forEach(field => {
+        const value = row.fields[field.name]
+        const hasError = row.errors.some(issue => issue.field === field.name)
+        if (!hasError && (value === undefined || (Array.isArray(value) && value.length === 0))) {
+          row.errors.push({
+            field: field.name,
+            message: mappedNames.has(field.name) ? `${field.label} is required` : `${field.label} is required but no column maps to it`,
+          })
+        }
+      })
+
+      if (row.errors.length > 0) {
+        row.status = 'invalid'
+        return
+      }
+
+      const key = JSON.stringify(row.fields)
+      const firstRow = seen.get(key)
+      if (firstRow !== undefined) {
+        row.warnings.push({ message: `Same values as row ${firstRow}` })
+      } else {
+        seen.set(key, row.rowNumber)
+      }
+    })
+  }
+
+  /**
+   * Create valid rows in batches of 10 (the Airtable limit per request)
+   * A failed batch is retried row by row so each row reports its own error
+   */
+  private async write(table: string, rows: ImportRowResult[]): Promise<void> {
+    const toWrite = rows.filter(row => row.status === 'valid')
+
+    for (let i = 0; i < toWrite.length; i += 10) {
+      const batch = toWrite.slice(i, i + 10)
+      try {
+        const records = await this.base(table).create(batch.map(row => ({ fields: row.fields })))
+        batch.forEach((row, index) => {
+          row.status = 'created'
+          row.id = records[index].id
+        })
+      } catch (batchError: any) {
+        if (batch.length === 1) {
+          batch[0].status = 'failed'
+          batch[0].errors.push({ message: batchError.message })
+          continue
+        }
+        for (const row of batch) {
+          try {
+            const [record] = await this.base(table).create([{ fields: row.fields }])
+            row.status = 'created'
+            row.id = record.id
+          } catch (error: any) {
+            row.status = 'failed'
+            row.errors.push({ message: error.message })
+          }
+        }
+      }
+    }
+  }
+
+  /** Case-insensitive match against the field's options; any value is accepted when options are unknown */
+  private matchChoice(value: string, choices?: string[]): string | undefined {
+    if (!choices || choices.length === 0) return value
+    return choices.find(choice => choice.toLowerCase() === value.toLowerCase())
+  }
+
+  /** "1,234.5" / "1 234.5" / "1.2E-3" -> number */
+  private parseNumber(value: string): number | undefined {
+    const cleaned = value.replace(/[\s,]/g, '')
+    if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return undefined
+    const number = Number(cleaned)
+    return Number.isFinite(number) ? number : undefined
+  }
+
+  /** YYYY-MM-DD, any Date.parse format, or an Excel serial day number */
+  private parseDate(value: string, withTime: boolean): string | undefined {
+    if (/^\d+(\.\d+)?$/.test(value) && Number(value) > 59 && Number(value) < 2958466) {
+      if (!withTime) return excelSerialToIsoDate(Number(value))
+      // Day count from 1899-12-30, fraction is the time of day
+      return new Date(Date.UTC(1899, 11, 30) + Number(value) * 86400000).toISOString()
+    }
+    if (!withTime && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return isNaN(Date.parse(value)) ? undefined : value
+    }
+    const time = Date.parse(value)
+    if (isNaN(time)) return undefined
+    const date = new Date(time)
+    if (withTime) return date.toISOString()
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+  }
+}
+
+// Lazy singleton instance
+let entityImportServiceInstance: EntityImportService | null = null
+
+export const getEntityImportService = (): EntityImportService => {
+  if (!entityImportServiceInstance) {
+    entityImportServiceInstance = new EntityImportService()
+  }
+  return entityImportServiceInstance
+}
@@ -1,4 +1,5 @@
 import Airtable from 'airtable'
+import { getEntityTable } from '../utils/entityTables'
 
 /**
  * Field Mapping Service
@@ -12,6 +13,12 @@ export interface FieldIdMapping {
   fieldKey: string
   fieldName: string
   fieldType?: string
+  /** Linked table ID (record link fields) */
+  linkedTableId?: string
+  /** Primary field name of the linked table (record link fields) */
+  linkedTablePrimaryField?: string
+  /** Option names (select fields) */
+  choices?: string[]
 }
 
 export interface TableFieldMapping {
@@ -98,6 +105,9 @@ export class FieldMappingService {
           fieldKey: fieldKey || field.name, // Fallback to field name if no mapping
           fieldName: field.name,
           fieldType: field.type,
+          linkedTableId: field.options?.linkedTableId,
+          linkedTablePrimaryField: field.linkedTablePrimaryField,
+          choices: field.options?.choices?.map((choice: any) => choice.name),
         }
       })
 
@@ -196,8 +206,15 @@ export class FieldMappingService {
         return null
       }
 
+      // Record link fields carry the linked table ID only - add its primary field name
+      const primaryFieldByTableId = new Map<string, string>(
+        tables.map((t: any) => [t.id, (t.fields || []).find((f: any) => f.id === t.primaryFieldId)?.name])
+      )
+
       return {
-        fields: table.fields || [],
+        fields: (table.fields || []).map((field: any) => field.options?.linkedTableId
+          ? { ...field, linkedTablePrimaryField: primaryFieldByTableId.get(field.options.linkedTableId) }
+          : field),
         tableName: table.name || '',
         tableId: table.id,
       }
@@ -261,6 +278,15 @@ export class FieldMappingService {
       }
     }
 
+    // Other entities are looked up by their API path segment
+    const entityTable = getEntityTable(tableId)
+    if (entityTable) {
+      return {
+        airtableTableId: entityTable.airtableTable,
+        airtableTableName: entityTable.label,
+      }
+    }
+
     return null
   }
 
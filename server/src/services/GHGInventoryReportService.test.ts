@@ -0,0 +1,77 @@
+import { GHGInventoryReportService } from './GHGInventoryReportService'
+import { ReportValidationError } from '../types/GHGInventoryReport'
+
+const mockRows = [
+  {
+    id: 'recRow1', Name: 'Boilers', Company: ['recAcme'], 'Company Name': ['Acme <Ltd>'], 'Reporting Year': 2024,
+    'Calculation Status': 'Calculated', 'Computed CO2e (t)': 38, 'Emission Factor': ['recGas'],
+  },
+  {
+    id: 'recRow2', Name: 'Offices', Company: ['recAcme'], 'Company Name': ['Acme <Ltd>'], 'Reporting Year': 2024,
+    'Calculation Status': 'Calculated', 'Computed CO2e (t)': 5, 'Emission Factor': ['recGrid'],
+  },
+  {
+    id: 'recRow3', Name: 'Fleet', Company: ['recAcme'], 'Company Name': ['Acme <Ltd>'], 'Reporting Year': 2024,
+    'Calculation Status': 'Error', 'Calculation Error': 'No emission factor found',
+  },
+  {
+    id: 'recRow4', Name: 'Other', Company: ['recOther'], 'Company Name': ['Other'], 'Reporting Year': 2024,
+    'Calculation Status': 'Calculated', 'Computed CO2e (t)': 100, 'Emission Factor': ['recGrid'],
+  },
+]
+
+jest.mock('../data/ActivityDataRepository', () => ({
+  ActivityDataRepository: jest.fn().mockImplementation(() => ({ findAll: async () => mockRows })),
+}))
+
+jest.mock('../database/EntityServiceFactory', () => {
+  const factors: Record<string, any> = {
+    recGas: { id: 'recGas', 'Scope Name': ['Scope 1'], 'Scope Categories Name': ['Stationary combustion'], 'EF/Detailed G': ['recCO2', 'recCH4'] },
+    recGrid: { id: 'recGrid', 'Scope Name': ['Scope 2'] },
+  }
+  // 1 t CO2 and 0.1 t CH4 at a GWP of 28: 1 / 3.8 and 2.8 / 3.8 of the CO2e
+  const details: Record<string, any> = {
+    recCO2: { 'Emission Factor': 1, 'GHG TYPE Name': ['CO2'] },
+    recCH4: { 'Emission Factor': 0.1, 'GHG TYPE Name': ['CH4'], 'EF GWP': ['recGwpCH4'] },
+  }
+  return {
+    getStandardEmissionFactorService: () => ({ getById: async (id: string) => factors[id] || null }),
+    getEFDetailedGService: () => ({ getById: async (id: string) => details[id] || null }),
+    getEFGWPService: () => ({ findById: async (id: string) => id === 'recGwpCH4' ? { gwp_value: 28 } : null }),
+  }
+})
+
+describe('GHGInventoryReportService', () => {
+  const service = new GHGInventoryReportService()
+
+  it('totals the calculated rows of the company per scope, category and gas', async () => {
+    const report = await service.generate({ company: 'acme <ltd>', year: 2024 })
+
+    expect(report.company).toEqual({ id: 'recAcme', name: 'Acme <Ltd>' })
+    expect(report.totals).toEqual({ tCO2e: 43, byGhgType: { CO2: 10, CH4: 28, 'CO2e (unspecified)': 5 }, activityCount: 2 })
+    expect(report.ghgTypes).toEqual(['CH4', 'CO2', 'CO2e (unspecified)'])
+    expect(report.scopes.map(scope => [scope.scope, scope.tCO2e, scope.categories.map(category => category.category)])).toEqual([
+      ['Scope 1', 38, ['Stationary combustion']],
+      ['Scope 2', 5, ['Uncategorised']],
+    ])
+    expect(report.excluded).toEqual([{ id: 'recRow3', name: 'Fleet', reason: 'No emission factor found' }])
+  })
+
+  it('renders the report as CSV lines and as escaped HTML', async () => {
+    const report = await service.generate({ company: 'recAcme', year: 2024 })
+
+    const csv = service.toCsv(report).trim().split('\n')
+    expect(csv[0]).toBe('Company,Year,Scope,Category,GHG Type,tCO2e,Activity Count')
+    expect(csv).toContain('Acme <Ltd>,2024,Scope 1,Stationary combustion,CH4,28,')
+    expect(csv[csv.length - 1]).toBe('Acme <Ltd>,2024,All,All,Total,43,2')
+
+    const html = service.toHtml(report)
+    expect(html).toContain('<h1>GHG Inventory - Acme &lt;Ltd&gt;</h1>')
+    expect(html).toContain('Excluded activity data (1)')
+  })
+
+  it('refuses a missing company or a year that is not four digits', async () => {
+    await expect(service.generate({ company: ' ', year: 2024 })).rejects.toThrow(ReportValidationError)
+    await expect(service.generate({ company: 'recAcme', year: 24 })).rejects.toMatchObject({ field: 'year' })
+  })
+})
@@ -0,0 +1,393 @@
+/**
+ * GHG Inventory Report Service
+ *
+ * Builds the GHG Protocol corporate inventory for a company and reporting year
+ * from the Activity Data ledger:
+ * 1. Loads the year's calculated ledger rows for the company
+ * 2. Classifies each row by its emission factor's Scope and Scope Categories
+ * 3. Splits each row's tCO2e across GHG types using the factor's EF/Detailed G
+ *    records weighted by their EF GWP values
+ *
+ * The report can be rendered as JSON, CSV or a printable HTML page.
+ */
+
+import { ActivityDataRepository } from '../data/ActivityDataRepository'
+import {
+  getStandardEmissionFactorService,
+  StandardEmissionFactorService,
+  getEFDetailedGService,
+  EFDetailedGService,
+  getEFGWPService,
+} from '../database/EntityServiceFactory'
+import { StandardEmissionFactor } from '../types/StandardEmissionFactor'
+import { ActivityData } from '../types/ActivityData'
+import { naturalSort } from '../utils/naturalSort'
+import {
+  GHGBreakdown,
+  GHGInventoryReport,
+  GHGInventoryReportParams,
+  GHGInventoryScopeTotal,
+  GHGInventoryExclusion,
+  ReportValidationError,
+} from '../types/GHGInventoryReport'
+
+const UNASSIGNED_SCOPE = 'Unassigned'
+const UNCATEGORISED = 'Uncategorised'
+/** GHG type used when a factor has no per-gas breakdown */
+const UNSPECIFIED_GHG = 'CO2e (unspecified)'
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value
+
+const toArray = (value: string | string[] | undefined): string[] =>
+  Array.isArray(value) ? value : value ? [value] : []
+
+const round = (value: number): number => Math.round(value * 1e6) / 1e6
+
+const addTo = (breakdown: GHGBreakdown, ghgType: string, value: number) => {
+  breakdown[ghgType] = (breakdown[ghgType] || 0) + value
+}
+
+const roundBreakdown = (breakdown: GHGBreakdown): GHGBreakdown =>
+  Object.fromEntries(Object.entries(breakdown).map(([gas, value]) => [gas, round(value)]))
+
+interface GasShare {
+  ghgType: string
+  share: number
+}
+
+interface FactorClassification {
+  scope: string
+  category: string
+  gasShares: GasShare[]
+}
+
+export class GHGInventoryReportService {
+  private activityDataRepository: ActivityDataRepository
+  private factorService: StandardEmissionFactorService
+  private detailedGService: EFDetailedGService
+
+  constructor() {
+    this.activityDataRepository = new ActivityDataRepository()
+    this.factorService = getStandardEmissionFactorService()
+    this.detailedGService = getEFDetailedGService()
+  }
+
+  /**
+   * Build the inventory report for a company and reporting year
+   */
+  async generate(params: GHGInventoryReportParams): Promise<GHGInventoryReport> {
+    this.validateParams(params)
+
+    const rows = await this.activityDataRepository.findAll({
+      filters: { 'Reporting Year': params.year },
+    })
+    const companyRows = rows.filter(row => this.matchesCompany(row, params.company))
+
+    const excluded: GHGInventoryExclusion[] = []
+    const classifications = new Map<string, FactorClassification | null>()
+    const scopes = new Map<string, GHGInventoryScopeTotal>()
+    const totals = { tCO2e: 0, byGhgType: {} as GHGBreakdown, activityCount: 0 }
+
+    for (const row of companyRows) {
+      if (row.Status === 'Inactive') {
+        excluded.push({ id: row.id, name: row.Name, reason: 'Inactive' })
+        continue
+      }
+      if (row['Calculation Status'] !== 'Calculated' || typeof row['Computed CO2e (t)'] !== 'number') {
+        excluded.push({
+          id: row.id,
+          name: row.Name,
+          reason: row['Calculation Error'] || `Calculation status is ${row['Calculation Status'] || 'Pending'}`,
+        })
+        continue
+      }
+
+      const factorId = firstValue(row['Emission Factor'])
+      if (factorId && !classifications.has(factorId)) {
+        classifications.set(factorId, await this.classifyFactor(factorId))
+      }
+      const classification = factorId ? classifications.get(factorId) : null
+      if (!classification) {
+        excluded.push({ id: row.id, name: row.Name, reason: 'Emission factor not found' })
+        continue
+      }
+
+      const tCO2e = row['Computed CO2e (t)'] as number
+      let scopeTotal = scopes.get(classification.scope)
+      if (!scopeTotal) {
+        scopeTotal = { scope: classification.scope, tCO2e: 0, byGhgType: {}, activityCount: 0, categories: [] }
+        scopes.set(classification.scope, scopeTotal)
+      }
+      let categoryTotal = scopeTotal.categories.find(c => c.category === classification.category)
+      if (!categoryTotal) {
+        categoryTotal = { category: classification.category, tCO2e: 0, byGhgType: {}, activityCount: 0 }
+        scopeTotal.categories.push(categoryTotal)
+      }
+
+      classification.gasShares.forEach(({ ghgType, share }) => {
+        const value = tCO2e * share
+        addTo(categoryTotal!.byGhgType, ghgType, value)
+        addTo(scopeTotal!.byGhgType, ghgType, value)
+        addTo(totals.byGhgType, ghgType, value)
+      })
+      categoryTotal.tCO2e += tCO2e
+      categoryTotal.activityCount++
+      scopeTotal.tCO2e += tCO2e
+      scopeTotal.activityCount++
+      totals.tCO2e += tCO2e
+      totals.activityCount++
+    }
+
+    const scopeList = Array.from(scopes.values())
+      .sort((a, b) => naturalSort(a.scope, b.scope))
+      .map(scope => ({
+        ...scope,
+        tCO2e: round(scope.tCO2e),
+        byGhgType: roundBreakdown(scope.byGhgType),
+        categories: scope.categories
+          .sort((a, b) => naturalSort(a.category, b.category))
+          .map(category => ({
+            ...category,
+            tCO2e: round(category.tCO2e),
+            byGhgType: roundBreakdown(category.byGhgType),
+          })),
+      }))
+
+    return {
+      company: this.describeCompany(companyRows, params.company),
+      year: params.year,
+      generatedAt: new Date().toISOString(),
+      totals: {
+        tCO2e: round(totals.tCO2e),
+        byGhgType: roundBreakdown(totals.byGhgType),
+        activityCount: totals.activityCount,
+      },
+      scopes: scopeList,
+      ghgTypes: Object.keys(totals.byGhgType).sort((a, b) => naturalSort(a, b)),
+      excluded,
+    }
+  }
+
+  /**
+   * Render a report as CSV - one line per scope / category / GHG type, plus subtotals
+   */
+  toCsv(report: GHGInventoryReport): string {
+    const escape = (value: string | number) => {
+      const text = String(value)
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }
+    const lines: Array<Array<string | number>> = [
+      ['Company', 'Year', 'Scope', 'Category', 'GHG Type', 'tCO2e', 'Activity Count'],
+    ]
+    const company = report.company.name
+    const gases = (breakdown: GHGBreakdown) => report.ghgTypes.filter(gas => breakdown[gas] !== undefined)
+
+    report.scopes.forEach(scope => {
+      scope.categories.forEach(category => {
+        gases(category.byGhgType).forEach(gas => {
+          lines.push([company, report.year, scope.scope, category.category, gas, category.byGhgType[gas], ''])
+        })
+        lines.push([company, report.year, scope.scope, category.category, 'Total', category.tCO2e, category.activityCount])
+      })
+      gases(scope.byGhgType).forEach(gas => {
+        lines.push([company, report.year, scope.scope, 'All', gas, scope.byGhgType[gas], ''])
+      })
+      lines.push([company, report.year, scope.scope, 'All', 'Total', scope.tCO2e, scope.activityCount])
+    })
+    lines.push([company, report.year, 'All', 'All', 'Total', report.totals.tCO2e, report.totals.activityCount])
+
+    return lines.map(line => line.map(escape).join(',')).join('\n') + '\n'
+  }
+
+  /**
+   * Render a report as a standalone printable HTML page
+   */
+  toHtml(report: GHGInventoryReport): string {
+    const escape = (value: string | number) => String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+    const format = (value?: number) => value === undefined ? '—' : value.toLocaleString('en', { maximumFractionDigits: 3 })
+    const gasCells = (breakdown: GHGBreakdown) =>
+      report.ghgTypes.map(gas => `<td class="num">${format(breakdown[gas])}</td>`).join('')
+
+    const bodyRows = report.scopes.map(scope => {
+      const categoryRows = scope.categories.map(category => `
+        <tr>
+          <td></td>
+          <td>${escape(category.category)}</td>
+          ${gasCells(category.byGhgType)}
+          <td class="num">${format(category.tCO2e)}</td>
+          <td class="num">${category.activityCount}</td>
+        </tr>`).join('')
+      return `
+        <tr class="subtotal">
+          <td>${escape(scope.scope)}</td>
+          <td></td>
+          ${gasCells(scope.byGhgType)}
+          <td class="num">${format(scope.tCO2e)}</td>
+          <td class="num">${scope.activityCount}</td>
+        </tr>${categoryRows}`
+    }).join('')
+
+    const excludedSection = report.excluded.length === 0 ? '' : `
+      <h2>Excluded activity data (${report.excluded.length})</h2>
+      <table>
+        <thead><tr><th>Activity</th><th>Reason</th></tr></thead>
+        <tbody>${report.excluded.map(row => `
+          <tr><td>${escape(row.name || row.id)}</td><td>${escape(row.reason)}</td></tr>`).join('')}
+        </tbody>
+      </table>`
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>GHG Inventory ${escape(report.year)} - ${escape(report.company.name)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #171717; margin: 2rem; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1.1rem; margin-top: 2rem; }
+    .meta { color: #737373; font-size: 0.875rem; margin-bottom: 1.5rem; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+    th, td { border-bottom: 1px solid #e5e5e5; padding: 0.4rem 0.6rem; text-align: left; }
+    th { background: #f5f5f5; }
+    .num { text-align: right; font-variant-numeric: tabular-nums; }
+    .subtotal td { font-weight: 600; background: #fafafa; }
+    .total td { font-weight: 700; border-top: 2px solid #171717; }
+    .print { margin-bottom: 1rem; }
+    @media print { .print { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <button class="print" onclick="window.print()">Print</button>
+  <h1>GHG Inventory - ${escape(report.company.name)}</h1>
+  <div class="meta">Reporting year ${escape(report.year)} · Generated ${escape(report.generatedAt)} · Values in tCO2e</div>
+  <table>
+    <thead>
+      <tr>
+        <th>Scope</th>
+        <th>Category</th>
+        ${report.ghgTypes.map(gas => `<th class="num">${escape(gas)}</th>`).join('')}
+        <th class="num">Total tCO2e</th>
+        <th class="num">Activities</th>
+      </tr>
+    </thead>
+    <tbody>${bodyRows}
+      <tr class="total">
+        <td>Total</td>
+        <td></td>
+        ${gasCells(report.totals.byGhgType)}
+        <td class="num">${format(report.totals.tCO2e)}</td>
+        <td class="num">${report.totals.activityCount}</td>
+      </tr>
+    </tbody>
+  </table>${excludedSection}
+</body>
+</html>
+`
+  }
+
+  private validateParams(params: GHGInventoryReportParams): void {
+    if (!params.company || String(params.company).trim() === '') {
+      throw new ReportValidationError('company is required', 'company')
+    }
+    if (!Number.isInteger(params.year) || params.year < 1900 || params.year > 9999) {
+      throw new ReportValidationError('year must be a four-digit year', 'year')
+    }
+  }
+
+  /**
+   * Company filter accepts a record ID or a Company Name
+   */
+  private matchesCompany(row: ActivityData, company: string): boolean {
+    const needle = company.trim().toLowerCase()
+    return toArray(row.Company).some(id => id.toLowerCase() === needle) ||
+      toArray(row['Company Name']).some(name => name.toLowerCase() === needle)
+  }
+
+  private describeCompany(rows: ActivityData[], company: string): { id?: string; name: string } {
+    const row = rows[0]
+    if (!row) {
+      return company.startsWith('rec') ? { id: company, name: company } : { name: company }
+    }
+    return {
+      id: firstValue(row.Company),
+      name: firstValue(row['Company Name']) || company,
+    }
+  }
+
+  /**
+   * Resolve the scope, category and per-gas split of an emission factor
+   */
+  private async classifyFactor(factorId: string): Promise<FactorClassification | null> {
+    let factor: StandardEmissionFactor | null
+    try {
+      factor = await this.factorService.getById(factorId)
+    } catch (error) {
+      console.warn(`Error loading emission factor ${factorId} for GHG inventory:`, error)
+      return null
+    }
+    if (!factor) return null
+
+    return {
+      scope: firstValue(factor['Scope Name']) || UNASSIGNED_SCOPE,
+      category: firstValue(factor['Scope Categories Name']) || UNCATEGORISED,
+      gasShares: await this.getGasShares(factor),
+    }
+  }
+
+  /**
+   * Share of a factor's CO2e attributable to each GHG type.
+   * Each EF/Detailed G entry contributes its gas amount multiplied by the GWP
+   * of its linked EF GWP record.
+   */
+  private async getGasShares(factor: StandardEmissionFactor): Promise<GasShare[]> {
+    const detailIds = toArray(factor['EF/Detailed G'])
+    if (detailIds.length === 0) {
+      return [{ ghgType: UNSPECIFIED_GHG, share: 1 }]
+    }
+
+    try {
+      const weights = await Promise.all(detailIds.map(async detailId => {
+        const detail = await this.detailedGService.getById(detailId)
+        if (!detail) return null
+        const amount = detail['Emission Factor']
+        const ghgType = firstValue(detail['GHG TYPE Name'])
+        if (typeof amount !== 'number' || !ghgType) return null
+
+        const gwpId = firstValue(detail['EF GWP'])
+        const gwp = gwpId ? await getEFGWPService().findById(gwpId) : null
+        const gwpValue = typeof gwp?.gwp_value === 'number' ? gwp.gwp_value : 1
+        return { ghgType, weight: amount * gwpValue }
+      }))
+
+      const valid = weights.filter((w): w is { ghgType: string; weight: number } => w !== null && w.weight > 0)
+      const totalWeight = valid.reduce((sum, w) => sum + w.weight, 0)
+      if (totalWeight <= 0) {
+        return [{ ghgType: UNSPECIFIED_GHG, share: 1 }]
+      }
+
+      const byGas: Record<string, number> = {}
+      valid.forEach(({ ghgType, weight }) => {
+        byGas[ghgType] = (byGas[ghgType] || 0) + weight
+      })
+      return Object.entries(byGas).map(([ghgType, weight]) => ({ ghgType, share: weight / totalWeight }))
+    } catch (error) {
+      console.warn(`Error resolving GHG breakdown for factor ${factor.id}:`, error)
+      return [{ ghgType: UNSPECIFIED_GHG, share: 1 }]
+    }
+  }
+}
+
+// Lazy singleton instance
+let ghgInventoryReportServiceInstance: GHGInventoryReportService | null = null
+
+export const getGHGInventoryReportService = (): GHGInventoryReportService => {
+  if (!ghgInventoryReportServiceInstance) {
+    ghgInventoryReportServiceInstance = new GHGInventoryReportService()
+  }
+  return ghgInventoryReportServiceInstance
+}
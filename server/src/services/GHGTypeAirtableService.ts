@@ -1,6 +1,9 @@
 import Airtable from 'airtable'
-import * as fs from 'fs'
-import * as path from 'path'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, filtersToFilterNode, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
+import { registerAirtableCounts } from '../database/airtable/AirtableRecordCounts'
+import { getRecordCountService } from '../database/counts/RecordCountService'
 
 /**
  * GHG Type Airtable Service
@@ -12,12 +15,9 @@ import * as path from 'path'
 export class GHGTypeAirtableService {
   private base: Airtable.Base
   private tableName: string
-  private readonly cacheFilePath: string
-  private totalCountCache: { count: number; timestamp: number } | null = null
-  private readonly COUNT_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+  private countTable: string
   private distinctValuesCache: Map<string, { values: string[]; timestamp: number }> = new Map()
   private readonly DISTINCT_VALUES_CACHE_TTL = 10 * 60 * 1000 // 10 minutes
-  private countCalculationPromise: Promise<number> | null = null
 
   constructor() {
     const apiKey = process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN || 
@@ -40,67 +40,8 @@ export class GHGTypeAirtableService {
     console.log(`   Table: ${this.tableName}`)
     console.log(`   API Key: ${apiKey ? apiKey.substring(0, 20) + '...' : 'NOT SET'}`)
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
-    
-    // Set cache file path
-    this.cacheFilePath = path.join(__dirname, '../../.cache', 'ghg-type-total-count.json')
-    this.loadCacheFromDisk()
-  }
-
-  /**
-   * Load total count cache from disk
-   */
-  private loadCacheFromDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      
-      if (fs.existsSync(this.cacheFilePath)) {
-        const cacheData = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf8'))
-        const age = Date.now() - cacheData.timestamp
-        
-        if (age < 60 * 60 * 1000) {
-          this.totalCountCache = cacheData
-          console.log(`📊 Loaded GHG Type total count from disk cache: ${cacheData.count}`)
-        }
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not load GHG Type count cache from disk:', error)
-    }
-  }
-
-  /**
-   * Save total count cache to disk
-   */
-  private saveCacheToDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      if (this.totalCountCache) {
-        fs.writeFileSync(this.cacheFilePath, JSON.stringify(this.totalCountCache), 'utf-8')
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not save GHG Type count cache to disk:', error)
-    }
-  }
-
-  /**
-   * Clear total count cache
-   */
-  private clearCountCache(): void {
-    this.totalCountCache = null
-    try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        fs.unlinkSync(this.cacheFilePath)
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not delete GHG Type count cache file:', error)
-    }
+    this.base = getAirtableBase(baseId, apiKey)
+    this.countTable = registerAirtableCounts(baseId, this.base, this.tableName)
   }
 
   /**
@@ -267,7 +208,8 @@ export class GHGTypeAirtableService {
     sortBy?: string, 
     sortOrder: 'asc' | 'desc' = 'asc',
     filters?: Record<string, any>,
-    search?: string
+    search?: string,
+    filter?: FilterNode
   ): Promise<{ records: any[], total: number }> {
     try {
       console.log(`📥 Fetching paginated GHG Type: offset=${offset}, limit=${limit}`)
@@ -290,29 +232,10 @@ export class GHGTypeAirtableService {
       }
       
       // Build Airtable filter formula
-      const filterFormulas: string[] = []
-      
-      if (filters) {
-        Object.entries(filters).forEach(([key, value]) => {
-          if (value) {
-            const airtableFieldName = this.mapFieldNameToAirtable(key)
-            const escapedValue = String(value).replace(/'/g, "''")
-            filterFormulas.push(`{${airtableFieldName}} = '${escapedValue}'`)
-          }
-        })
-      }
-      
-      if (search) {
-        // Search across multiple fields
-        const searchFields = ['Name', 'Short code', 'Description', 'Category']
-        const escapedSearch = search.replace(/'/g, "''")
-        const searchFormulas = searchFields.map(field => 
-          `FIND(LOWER('${escapedSearch}'), LOWER({${field}})) > 0`
-        )
-        filterFormulas.push(`OR(${searchFormulas.join(', ')})`)
-      }
-      
-      const filterFormula = filterFormulas.length > 0 ? `AND(${filterFormulas.join(', ')})` : undefined
+      const filterNode = allOf(filtersToFilterNode(filters), searchFilter(['Name', 'Short code', 'Description', 'Category'], search), filter)
+      const filterFormula = filterNode
+        ? compileAirtableFormula(filterNode, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : undefined
       
       if (filterFormula) {
         console.log(`   Applying filter formula: ${filterFormula}`)
@@ -366,12 +289,9 @@ export class GHGTypeAirtableService {
       console.log(`✅ Fetched ${paginatedRecords.length} records from pages ${startPage}-${endPage}`)
       
       // Get total count
-      let total: number
+      const total = await getRecordCountService().getCount(this.countTable, filterFormula || '')
       if (filterFormula) {
-        total = await this.getFilteredCount(filterFormula)
         console.log(`   Filtered total count: ${total}`)
-      } else {
-        total = await this.getTotalCount(true)
       }
 
       return {
@@ -419,7 +339,6 @@ export class GHGTypeAirtableService {
       const record = await this.base(this.tableName).create(airtableFields)
       console.log(`✅ Successfully created GHG Type in Airtable: ${record.id}`)
       
-      this.clearCountCache()
       this.clearDistinctValuesCache()
       
       return this.mapAirtableToGHGType(record)
@@ -456,7 +375,6 @@ export class GHGTypeAirtableService {
   async delete(id: string): Promise<boolean> {
     try {
       await this.base(this.tableName).destroy(id)
-      this.clearCountCache()
       this.clearDistinctValuesCache()
       return true
     } catch (error: any) {
@@ -468,113 +386,10 @@ export class GHGTypeAirtableService {
   }
 
   /**
-   * Get total count with lazy calculation
-   */
-  async getTotalCount(lazy: boolean = true): Promise<number> {
-    try {
-      if (this.totalCountCache && Date.now() - this.totalCountCache.timestamp < this.COUNT_CACHE_TTL) {
-        console.log(`📊 Using cached total count for GHG Type: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
-
-      if (lazy && !this.totalCountCache) {
-        console.log(`📊 No cache available for GHG Type, returning estimate and calculating in background...`)
-        const estimate = 100
-        this.calculateTotalCountInBackground()
-        return estimate
-      }
-
-      return await this.calculateTotalCount()
-    } catch (error: any) {
-      console.error('Error getting GHG Type total count:', error)
-      if (this.totalCountCache) {
-        console.warn(`⚠️  Using expired cache: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
-      return 0
-    }
-  }
-
-  /**
-   * Calculate total count in background
-   */
-  private calculateTotalCountInBackground(): void {
-    if (this.countCalculationPromise) {
-      return // Already calculating
-    }
-
-    this.countCalculationPromise = this.calculateTotalCount()
-      .then(count => {
-        this.totalCountCache = { count, timestamp: Date.now() }
-        this.saveCacheToDisk()
-        this.countCalculationPromise = null
-      })
-      .catch(error => {
-        console.error('Error calculating GHG Type total count in background:', error)
-        this.countCalculationPromise = null
-      })
-  }
-
-  /**
-   * Calculate total count synchronously
-   */
-  private async calculateTotalCount(): Promise<number> {
-    try {
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select()
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) {
-                reject(err)
-              } else {
-                resolve()
-              }
-            }
-          )
-      })
-      return count
-    } catch (error: any) {
-      console.error('Error calculating GHG Type total count:', error)
-      return 0
-    }
-  }
-
-  /**
-   * Get filtered count
+   * Get the exact number of GHG Type records, kept up to date by the record count service
    */
-  private async getFilteredCount(filterFormula: string): Promise<number> {
-    try {
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select({
-            filterByFormula: filterFormula,
-          })
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) {
-                reject(err)
-              } else {
-                resolve()
-              }
-            }
-          )
-      })
-      return count
-    } catch (error: any) {
-      console.error('Error getting filtered count for GHG Type:', error)
-      return 0
-    }
+  async getTotalCount(): Promise<number> {
+    return getRecordCountService().getCount(this.countTable)
   }
 
   /**
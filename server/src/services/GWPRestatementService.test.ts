@@ -0,0 +1,72 @@
+import { GWPRestatementService, normalizeARVersion } from './GWPRestatementService'
+import { GWPRestatementResolutionError, GWPRestatementValidationError } from '../types/GWPRestatement'
+
+jest.mock('../database/EntityServiceFactory', () => {
+  const gwp = (id: string, ars_version: string, gas: string, name: string, gwp_value: number, status = 'Active') =>
+    ({ id, ars_version, greenHouseGas: [gas], greenHouseGasName: [name], gwp_value, status })
+  const gwps = [
+    gwp('recCH4AR5', 'AR5', 'recCH4', 'CH4', 28),
+    gwp('recCH4AR6', 'AR 6 (100-yr)', 'recCH4', 'CH4', 27.9),
+    gwp('recN2OAR5', 'AR5', 'recN2O', 'N2O', 265),
+    gwp('recN2OAR6', 'AR6', 'recN2O', 'N2O', 273, 'Inactive'),
+  ]
+  const details: Record<string, any> = {
+    recDetailCH4: { id: 'recDetailCH4', 'Emission Factor': 2, 'GHG TYPE': ['recCH4'], 'EF GWP': ['recCH4AR5'] },
+    recDetailCO2: { id: 'recDetailCO2', 'Emission Factor': 10, 'GHG TYPE Name': ['CO2'], 'EF GWP': ['recCH4AR5'] },
+  }
+  return {
+    getEFGWPService: () => ({ findAll: async () => gwps }),
+    getEFDetailedGService: () => ({ getById: async (id: string) => details[id] || null }),
+    getStandardEmissionFactorService: () => ({
+      getById: async (id: string) => id === 'recFactor' ? { id, Name: 'Natural gas', 'EF/Detailed G': ['recDetailCH4', 'recDetailCO2'] } : null,
+    }),
+  }
+})
+
+describe('normalizeARVersion', () => {
+  it('reads the assessment report number out of its labels', () => {
+    expect(normalizeARVersion('ar 5')).toBe('AR5')
+    expect(normalizeARVersion('AR-6 (100-yr)')).toBe('AR6')
+    expect(normalizeARVersion('  ')).toBeNull()
+  })
+})
+
+describe('GWPRestatementService', () => {
+  const service = new GWPRestatementService()
+
+  it('restates the gases of a factor from the version of their GWPs to the target', async () => {
+    const result = await service.restate({ targetVersion: 'AR6', emissionFactor: 'recFactor', quantity: 3 })
+
+    expect(result.versions).toEqual(['AR5', 'AR6'])
+    expect(result.gases.map(line => [line.ghgType.name, line.amount, line.co2e])).toEqual([
+      ['CH4', 6, { AR5: 168, AR6: 167.4 }],
+      ['CO2', 30, { AR5: 30, AR6: 30 }],
+    ])
+    expect(result.totals).toEqual({
+      co2e: { AR5: 198, AR6: 197.4 },
+      source: 198,
+      target: 197.4,
+      delta: { absolute: -0.6, percent: -0.30303 },
+    })
+  })
+
+  it('warns about gases without a GWP in a version, leaving inactive values out', async () => {
+    const result = await service.restate({ targetVersion: 'AR6', sourceVersion: 'AR5', gases: [{ ghgType: 'n2o', amount: 1 }] })
+
+    expect(result.gases[0].co2e).toEqual({ AR5: 265, AR6: null })
+    expect(result.gases[0].delta).toBeNull()
+    expect(result.warnings).toEqual(['No AR6 GWP for N2O'])
+  })
+
+  it('refuses missing inputs, unknown versions and unknown gases', async () => {
+    await expect(service.restate({ targetVersion: '', gases: [{ ghgType: 'CH4', amount: 1 }] }))
+      .rejects.toMatchObject({ name: 'GWPRestatementValidationError', field: 'targetVersion' })
+    await expect(service.restate({ targetVersion: 'AR6' })).rejects.toThrow(GWPRestatementValidationError)
+    await expect(service.restate({ targetVersion: 'AR6', gases: [{ ghgType: 'CH4', amount: Number.NaN }] }))
+      .rejects.toMatchObject({ field: 'gases[0].amount' })
+    await expect(service.restate({ targetVersion: 'AR4', gases: [{ ghgType: 'CH4', amount: 1 }] }))
+      .rejects.toThrow('No EF GWP values found for AR4. Available versions: AR5, AR6')
+    await expect(service.restate({ targetVersion: 'AR6', gases: [{ ghgType: 'SF6', amount: 1 }] }))
+      .rejects.toThrow(GWPRestatementResolutionError)
+  })
+})
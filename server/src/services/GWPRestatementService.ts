@@ -0,0 +1,338 @@
+/**
+ * GWP Restatement Service
+ *
+ * Restates gas-level emission amounts under different IPCC assessment reports:
+ * 1. Collects per-gas amounts from EF/Detailed G records (directly, or through a
+ *    Standard Emission Factor) or from the request body
+ * 2. Looks up each gas's GWP for every assessment report in the EF GWP table
+ * 3. Returns CO2e per version side by side, with the delta between the source
+ *    version and the target version
+ */
+
+import {
+  getEFGWPService,
+  getEFDetailedGService,
+  EFDetailedGService,
+  getStandardEmissionFactorService,
+  StandardEmissionFactorService,
+} from '../database/EntityServiceFactory'
+import { EFGWP } from '../types/EFGWP'
+import { naturalSort } from '../utils/naturalSort'
+import {
+  GWPRestatementInput,
+  GWPRestatementResult,
+  GWPRestatementGasLine,
+  GWPRestatementDelta,
+  GWPValueRef,
+  GWPRestatementValidationError,
+  GWPRestatementResolutionError,
+} from '../types/GWPRestatement'
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value
+
+const toArray = (value: string | string[] | undefined): string[] =>
+  Array.isArray(value) ? value : value ? [value] : []
+
+const round = (value: number): number => Math.round(value * 1e6) / 1e6
+
+/**
+ * Normalise assessment report labels ("AR 5", "ar5 (100-yr)", "AR-6") to "AR5"
+ */
+export const normalizeARVersion = (version?: string): string | null => {
+  if (!version) return null
+  const match = String(version).match(/AR\s*-?\s*(\d+)/i)
+  if (match) return `AR${match[1]}`
+  const trimmed = String(version).trim().toUpperCase()
+  return trimmed || null
+}
+
+/**
+ * GWP values per assessment report, keyed by GHG Type record ID and by lower-cased gas name
+ */
+interface GWPTable {
+  versions: string[]
+  byVersion: Map<string, Map<string, GWPValueRef>>
+  /** EF GWP record ID -> normalised version */
+  versionByRecordId: Map<string, string>
+  /** Lower-cased GHG Type name -> GHG Type record ID */
+  gasIdByName: Map<string, string>
+  gasNameById: Map<string, string>
+}
+
+interface GasAmount {
+  ghgTypeId?: string
+  ghgTypeName: string
+  efDetailedG?: string
+  amount: number
+  sourceVersion?: string
+}
+
+export class GWPRestatementService {
+  private detailedGService: EFDetailedGService
+  private factorService: StandardEmissionFactorService
+  private gwpTableCache: { data: GWPTable; timestamp: number } | null = null
+  private readonly GWP_TABLE_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+  constructor() {
+    this.detailedGService = getEFDetailedGService()
+    this.factorService = getStandardEmissionFactorService()
+  }
+
+  /**
+   * Assessment report versions available in the EF GWP table
+   */
+  async getVersions(): Promise<string[]> {
+    const table = await this.getGWPTable()
+    return table.versions
+  }
+
+  /**
+   * Restate per-gas amounts under every requested assessment report
+   */
+  async restate(input: GWPRestatementInput): Promise<GWPRestatementResult> {
+    this.validateInput(input)
+
+    const table = await this.getGWPTable()
+    const targetVersion = normalizeARVersion(input.targetVersion) as string
+    if (!table.byVersion.has(targetVersion)) {
+      throw new GWPRestatementResolutionError(
+        `No EF GWP values found for ${targetVersion}. Available versions: ${table.versions.join(', ') || 'none'}`
+      )
+    }
+
+    const warnings: string[] = []
+    const amounts = await this.collectAmounts(input, table, warnings)
+    const multiplier = input.quantity !== undefined ? Number(input.quantity) : 1
+
+    const versions = Array.from(new Set([
+      ...(input.versions && input.versions.length > 0
+        ? input.versions.map(v => normalizeARVersion(v)).filter((v): v is string => !!v)
+        : table.versions),
+      targetVersion,
+      ...amounts.map(a => a.sourceVersion).filter((v): v is string => !!v),
+    ])).sort((a, b) => naturalSort(a, b))
+
+    const gases: GWPRestatementGasLine[] = amounts.map(gas => {
+      const gwp: Record<string, GWPValueRef | null> = {}
+      const co2e: Record<string, number | null> = {}
+      const amount = gas.amount * multiplier
+
+      versions.forEach(version => {
+        const ref = this.findGWP(table, version, gas)
+        gwp[version] = ref
+        co2e[version] = ref ? round(amount * ref.gwp) : null
+        if (!ref && table.byVersion.has(version)) {
+          warnings.push(`No ${version} GWP for ${gas.ghgTypeName}`)
+        }
+      })
+
+      const sourceCo2e = gas.sourceVersion ? co2e[gas.sourceVersion] : null
+      const targetCo2e = co2e[targetVersion]
+
+      return {
+        ghgType: { id: gas.ghgTypeId, name: gas.ghgTypeName },
+        efDetailedG: gas.efDetailedG,
+        amount: round(amount),
+        sourceVersion: gas.sourceVersion,
+        gwp,
+        co2e,
+        delta: typeof sourceCo2e === 'number' && typeof targetCo2e === 'number'
+          ? this.delta(sourceCo2e, targetCo2e)
+          : null,
+      }
+    })
+
+    const totals: Record<string, number> = {}
+    versions.forEach(version => {
+      totals[version] = round(gases.reduce((sum, line) => sum + (line.co2e[version] || 0), 0))
+    })
+
+    // Source total only makes sense when every line knows its source version
+    const sourceValues = gases.map(line => line.sourceVersion ? line.co2e[line.sourceVersion] : null)
+    const sourceTotal = gases.length > 0 && sourceValues.every(v => typeof v === 'number')
+      ? round((sourceValues as number[]).reduce((sum, v) => sum + v, 0))
+      : null
+    const targetTotal = totals[targetVersion]
+
+    return {
+      targetVersion,
+      versions,
+      gases,
+      totals: {
+        co2e: totals,
+        source: sourceTotal,
+        target: targetTotal,
+        delta: sourceTotal !== null ? this.delta(sourceTotal, targetTotal) : null,
+      },
+      warnings: Array.from(new Set(warnings)),
+    }
+  }
+
+  /**
+   * Clear the cached EF GWP table (e.g. after GWP values are edited)
+   */
+  clearCache(): void {
+    this.gwpTableCache = null
+  }
+
+  private validateInput(input: GWPRestatementInput): void {
+    if (!input || !normalizeARVersion(input.targetVersion)) {
+      throw new GWPRestatementValidationError('targetVersion is required (e.g. "AR6")', 'targetVersion')
+    }
+    const hasSource = (input.efDetailedG && input.efDetailedG.length > 0) ||
+      !!input.emissionFactor ||
+      (input.gases && input.gases.length > 0)
+    if (!hasSource) {
+      throw new GWPRestatementValidationError('Provide efDetailedG, emissionFactor or gases', 'gases')
+    }
+    if (input.quantity !== undefined && (typeof input.quantity !== 'number' || !Number.isFinite(input.quantity))) {
+      throw new GWPRestatementValidationError('quantity must be a finite number', 'quantity')
+    }
+    input.gases?.forEach((gas, index) => {
+      if (!gas?.ghgType) {
+        throw new GWPRestatementValidationError(`gases[${index}].ghgType is required`, `gases[${index}].ghgType`)
+      }
+      if (typeof gas.amount !== 'number' || !Number.isFinite(gas.amount)) {
+        throw new GWPRestatementValidationError(`gases[${index}].amount must be a finite number`, `gases[${index}].amount`)
+      }
+    })
+  }
+
+  /**
+   * Gather per-gas amounts from every input source
+   */
+  private async collectAmounts(input: GWPRestatementInput, table: GWPTable, warnings: string[]): Promise<GasAmount[]> {
+    const sourceVersion = normalizeARVersion(input.sourceVersion) || undefined
+    const detailIds = [...(input.efDetailedG || [])]
+
+    if (input.emissionFactor) {
+      const factor = await this.factorService.getById(input.emissionFactor)
+      if (!factor) {
+        throw new GWPRestatementResolutionError(`Standard Emission Factor ${input.emissionFactor} not found`)
+      }
+      const factorDetails = toArray(factor['EF/Detailed G'])
+      if (factorDetails.length === 0) {
+        throw new GWPRestatementResolutionError(`Standard Emission Factor ${factor.Name || factor.id} has no EF/Detailed G records`)
+      }
+      detailIds.push(...factorDetails)
+    }
+
+    const amounts: GasAmount[] = []
+
+    for (const detailId of Array.from(new Set(detailIds))) {
+      const detail = await this.detailedGService.getById(detailId)
+      if (!detail) {
+        throw new GWPRestatementResolutionError(`EF/Detailed G ${detailId} not found`)
+      }
+      if (typeof detail['Emission Factor'] !== 'number') {
+        warnings.push(`EF/Detailed G ${detail.Name || detail.id} has no gas amount and was skipped`)
+        continue
+      }
+      const ghgTypeId = firstValue(detail['GHG TYPE'])
+      const gwpRecordId = firstValue(detail['EF GWP'])
+      amounts.push({
+        ghgTypeId,
+        ghgTypeName: firstValue(detail['GHG TYPE Name']) || (ghgTypeId && table.gasNameById.get(ghgTypeId)) || ghgTypeId || 'Unknown',
+        efDetailedG: detail.id,
+        amount: detail['Emission Factor'],
+        sourceVersion: sourceVersion || (gwpRecordId ? table.versionByRecordId.get(gwpRecordId) : undefined),
+      })
+    }
+
+    input.gases?.forEach(gas => {
+      const key = gas.ghgType.trim()
+      const ghgTypeId = table.gasNameById.has(key) ? key : table.gasIdByName.get(key.toLowerCase())
+      if (!ghgTypeId) {
+        throw new GWPRestatementResolutionError(`GHG type "${gas.ghgType}" has no EF GWP values`)
+      }
+      amounts.push({
+        ghgTypeId,
+        ghgTypeName: table.gasNameById.get(ghgTypeId) || key,
+        amount: gas.amount,
+        sourceVersion,
+      })
+    })
+
+    return amounts
+  }
+
+  /**
+   * GWP for a gas in a version - by GHG Type ID first, then by gas name
+   */
+  private findGWP(table: GWPTable, version: string, gas: GasAmount): GWPValueRef | null {
+    const values = table.byVersion.get(version)
+    if (!values) return null
+    if (gas.ghgTypeId && values.has(gas.ghgTypeId)) {
+      return values.get(gas.ghgTypeId)!
+    }
+    const idByName = table.gasIdByName.get(gas.ghgTypeName.toLowerCase())
+    const ref = idByName ? values.get(idByName) : undefined
+    if (ref) return ref
+    // CO2 is the reference gas - its GWP is 1 under every assessment report
+    return gas.ghgTypeName.trim().toUpperCase() === 'CO2' ? { gwp: 1 } : null
+  }
+
+  private delta(source: number, target: number): GWPRestatementDelta {
+    return {
+      absolute: round(target - source),
+      percent: source === 0 ? null : round(((target - source) / source) * 100),
+    }
+  }
+
+  /**
+   * Build the GWP lookup from active EF GWP records (cached)
+   */
+  private async getGWPTable(): Promise<GWPTable> {
+    const now = Date.now()
+    if (this.gwpTableCache && now - this.gwpTableCache.timestamp < this.GWP_TABLE_CACHE_TTL) {
+      return this.gwpTableCache.data
+    }
+
+    const records: EFGWP[] = await getEFGWPService().findAll()
+    const table: GWPTable = {
+      versions: [],
+      byVersion: new Map(),
+      versionByRecordId: new Map(),
+      gasIdByName: new Map(),
+      gasNameById: new Map(),
+    }
+
+    records.forEach(record => {
+      const version = normalizeARVersion(record.ars_version)
+      if (!version) return
+      table.versionByRecordId.set(record.id, version)
+      if (record.status === 'Inactive' || typeof record.gwp_value !== 'number' || record.gwp_value <= 0) return
+
+      const gasIds = toArray(record.greenHouseGas)
+      const gasNames = toArray(record.greenHouseGasName)
+      if (!table.byVersion.has(version)) {
+        table.byVersion.set(version, new Map())
+      }
+      gasIds.forEach((gasId, index) => {
+        table.byVersion.get(version)!.set(gasId, { id: record.id, gwp: record.gwp_value })
+        const gasName = gasNames[index]
+        if (gasName && gasName !== gasId) {
+          table.gasNameById.set(gasId, gasName)
+          table.gasIdByName.set(gasName.toLowerCase(), gasId)
+        } else if (!table.gasNameById.has(gasId)) {
+          table.gasNameById.set(gasId, gasId)
+        }
+      })
+    })
+
+    table.versions = Array.from(table.byVersion.keys()).sort((a, b) => naturalSort(a, b))
+    this.gwpTableCache = { data: table, timestamp: now }
+    return table
+  }
+}
+
+// Lazy singleton instance
+let gwpRestatementServiceInstance: GWPRestatementService | null = null
+
+export const getGWPRestatementService = (): GWPRestatementService => {
+  if (!gwpRestatementServiceInstance) {
+    gwpRestatementServiceInstance = new GWPRestatementService()
+  }
+  return gwpRestatementServiceInstance
+}
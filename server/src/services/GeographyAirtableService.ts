@@ -1,6 +1,9 @@
 import Airtable from 'airtable'
-import * as fs from 'fs'
-import * as path from 'path'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, filtersToFilterNode, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
+import { registerAirtableCounts } from '../database/airtable/AirtableRecordCounts'
+import { getRecordCountService } from '../database/counts/RecordCountService'
 
 /**
  * Geography Airtable Service
@@ -12,12 +15,9 @@ import * as path from 'path'
 export class GeographyAirtableService {
   private base: Airtable.Base
   private tableName: string
-  private readonly cacheFilePath: string
-  private totalCountCache: { count: number; timestamp: number } | null = null
-  private readonly COUNT_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+  private countTable: string
   private distinctValuesCache: Map<string, { values: string[]; timestamp: number }> = new Map()
   private readonly DISTINCT_VALUES_CACHE_TTL = 10 * 60 * 1000 // 10 minutes
-  private countCalculationPromise: Promise<number> | null = null
 
   constructor() {
     const apiKey = process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN || 
@@ -41,68 +41,8 @@ export class GeographyAirtableService {
     console.log(`   Table: ${this.tableName}`)
     console.log(`   API Key: ${apiKey ? apiKey.substring(0, 20) + '...' : 'NOT SET'}`)
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
-    
-    // Set cache file path
-    this.cacheFilePath = path.join(__dirname, '../../.cache', 'geography-total-count.json')
-    this.loadCacheFromDisk()
-  }
-
-  /**
-   * Load total count cache from disk
-   */
-  private loadCacheFromDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      
-      if (fs.existsSync(this.cacheFilePath)) {
-        const cacheData = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf8'))
-        const age = Date.now() - cacheData.timestamp
-        
-        // Use cache if less than 1 hour old (longer TTL for disk cache)
-        if (age < 60 * 60 * 1000) {
-          this.totalCountCache = cacheData
-          console.log(`📊 Loaded Geography total count from disk cache: ${cacheData.count} (age: ${Math.round(age / 1000 / 60)}min)`)
-        }
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not load Geography count cache from disk:', error)
-    }
-  }
-
-  /**
-   * Save total count cache to disk
-   */
-  private saveCacheToDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      if (this.totalCountCache) {
-        fs.writeFileSync(this.cacheFilePath, JSON.stringify(this.totalCountCache), 'utf-8')
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not save Geography count cache to disk:', error)
-    }
-  }
-
-  /**
-   * Clear total count cache
-   */
-  private clearCountCache(): void {
-    this.totalCountCache = null
-    try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        fs.unlinkSync(this.cacheFilePath)
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not delete Geography count cache file:', error)
-    }
+    this.base = getAirtableBase(baseId, apiKey)
+    this.countTable = registerAirtableCounts(baseId, this.base, this.tableName)
   }
 
   /**
@@ -129,11 +69,13 @@ export class GeographyAirtableService {
     }
     
     // Map Airtable field names to our Geography interface
-    // Actual Airtable fields: Name, CODE, Status, Notes
+    // Actual Airtable fields: Name, CODE, Status, Type, Parent, Notes
     const Name = getField(['Name', 'Region Name', 'region_name', 'RegionName'], '')
     const CODE = getField(['CODE', 'Country', 'country'], '')
     const Status = getField(['Status', 'status'], 'Active')
     const Notes = getField(['Notes', 'notes', 'Note', 'note'])
+    const Type = getField(['Type', 'type'], undefined)
+    const Parent = getField(['Parent', 'parent'], undefined)
     
     return {
       id: record.id,
@@ -141,6 +83,8 @@ export class GeographyAirtableService {
       Name,
       CODE,
       Status,
+      Type,
+      Parent,
       Notes,
       // Legacy aliases for backward compatibility
       regionName: Name,
@@ -232,7 +176,8 @@ export class GeographyAirtableService {
     sortBy?: string, 
     sortOrder: 'asc' | 'desc' = 'asc',
     filters?: Record<string, any>,
-    search?: string
+    search?: string,
+    filter?: FilterNode
   ): Promise<{ records: any[], total: number }> {
     try {
       console.log(`📥 Fetching paginated geography: offset=${offset}, limit=${limit}`)
@@ -257,31 +202,11 @@ export class GeographyAirtableService {
         console.log(`   Using default sort: Name (asc)`)
       }
       
-      // Build Airtable filter formula if filters or search are provided
-      const filterFormulas: string[] = []
-      
-      if (filters) {
-        Object.entries(filters).forEach(([key, value]) => {
-          if (value) {
-            const airtableFieldName = this.mapFieldNameToAirtable(key)
-            // Escape single quotes in value for Airtable formula
-            const escapedValue = String(value).replace(/'/g, "''")
-            filterFormulas.push(`{${airtableFieldName}} = '${escapedValue}'`)
-          }
-        })
-      }
-      
-      if (search) {
-        // Search across multiple fields using OR logic
-        const searchFields = ['Name', 'CODE']
-        const escapedSearch = search.replace(/'/g, "''")
-        const searchFormulas = searchFields.map(field => 
-          `FIND(LOWER('${escapedSearch}'), LOWER({${field}})) > 0`
-        )
-        filterFormulas.push(`OR(${searchFormulas.join(', ')})`)
-      }
-      
-      const filterFormula = filterFormulas.length > 0 ? `AND(${filterFormulas.join(', ')})` : undefined
+      // Build Airtable filter formula
+      const filterNode = allOf(filtersToFilterNode(filters), searchFilter(['Name', 'CODE'], search), filter)
+      const filterFormula = filterNode
+        ? compileAirtableFormula(filterNode, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : undefined
       
       if (filterFormula) {
         console.log(`   Applying filter formula: ${filterFormula}`)
@@ -339,14 +264,9 @@ export class GeographyAirtableService {
       console.log(`✅ Fetched ${paginatedRecords.length} records from pages ${startPage}-${endPage}`)
       
       // Get total count - if filters are applied, count filtered results
-      let total: number
+      const total = await getRecordCountService().getCount(this.countTable, filterFormula || '')
       if (filterFormula) {
-        // Count filtered records
-        total = await this.getFilteredCount(filterFormula)
         console.log(`   Filtered total count: ${total}`)
-      } else {
-        // Use cached total count for unfiltered results
-        total = await this.getTotalCount(true)
       }
 
       return {
@@ -414,7 +334,6 @@ export class GeographyAirtableService {
       console.log(`✅ Successfully created geography in Airtable: ${record.id}`)
       
       // Clear count cache since we added a record
-      this.clearCountCache()
       this.clearDistinctValuesCache() // Also clear filter options cache
       
       return this.mapAirtableToGeography(record)
@@ -452,7 +371,6 @@ export class GeographyAirtableService {
     try {
       await this.base(this.tableName).destroy(id)
       // Clear count cache since we deleted a record
-      this.clearCountCache()
       this.clearDistinctValuesCache() // Also clear filter options cache
       return true
     } catch (error: any) {
@@ -464,158 +382,10 @@ export class GeographyAirtableService {
   }
 
   /**
-   * Get total count with lazy calculation and estimation
-   * Returns cached value immediately, calculates in background if needed
-   */
-  async getTotalCount(lazy: boolean = true): Promise<number> {
-    try {
-      // Return cached count if still valid
-      if (this.totalCountCache && Date.now() - this.totalCountCache.timestamp < this.COUNT_CACHE_TTL) {
-        console.log(`📊 Using cached total count for Geography: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
-
-      // If lazy mode and no cache, return estimate and calculate in background
-      if (lazy && !this.totalCountCache) {
-        console.log(`📊 No cache available for Geography, returning estimate and calculating in background...`)
-        
-        // Return a reasonable estimate
-        const estimate = 1000 // Conservative estimate for Geography table
-        
-        // Start background calculation (don't await)
-        this.calculateTotalCountInBackground()
-        
-        return estimate
-      }
-
-      // If not lazy or cache exists but expired, calculate synchronously
-      return await this.calculateTotalCount()
-    } catch (error: any) {
-      console.error('Error getting Geography total count:', error)
-      // Return cached value if available, even if expired
-      if (this.totalCountCache) {
-        console.warn(`⚠️  Using expired cache: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
-      console.warn('⚠️  Could not get count, returning estimate')
-      return 1000 // Return estimate as fallback
-    }
-  }
-
-  /**
-   * Calculate total count in background (non-blocking)
+   * Get the exact number of Geography records, kept up to date by the record count service
    */
-  private calculateTotalCountInBackground(): void {
-    // Prevent multiple simultaneous calculations
-    if (this.countCalculationPromise) {
-      return
-    }
-
-    this.countCalculationPromise = this.calculateTotalCount()
-      .then((count) => {
-        console.log(`✅ Background count calculation complete for Geography: ${count}`)
-        this.countCalculationPromise = null
-        return count
-      })
-      .catch((error) => {
-        console.error('❌ Background count calculation failed for Geography:', error)
-        this.countCalculationPromise = null
-        throw error
-      })
-  }
-
-  /**
-   * Calculate total count (actual implementation)
-   */
-  private async calculateTotalCount(): Promise<number> {
-    console.log(`📊 Calculating total count for Geography...`)
-    let count = 0
-    
-    // Use a timeout to prevent hanging
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Count calculation timeout')), 20000) // 20 second timeout
-    })
-
-    const countPromise = new Promise<number>((resolve, reject) => {
-      this.base(this.tableName)
-        .select({
-          fields: ['Name'], // Only fetch Name field to minimize data transfer
-          pageSize: 100, // Max page size for efficiency
-        })
-        .eachPage(
-          (records, fetchNextPage) => {
-            count += records.length
-            fetchNextPage()
-          },
-          (err) => {
-            if (err) {
-              reject(err)
-            } else {
-              resolve(count)
-            }
-          }
-        )
-    })
-
-    try {
-      // Race between count calculation and timeout
-      count = await Promise.race([countPromise, timeoutPromise])
-      
-      // Cache the result
-      this.totalCountCache = {
-        count,
-        timestamp: Date.now()
-      }
-      
-      // Save to disk for persistence across restarts
-      this.saveCacheToDisk()
-      
-      console.log(`📊 Total count for Geography: ${count} (cached)`)
-      return count
-    } catch (error: any) {
-      if (error.message === 'Count calculation timeout') {
-        console.warn('⚠️  Count calculation timed out for Geography, using estimate')
-        // Return estimate if calculation times out
-        return 1000
-      }
-      throw error
-    }
-  }
-
-  /**
-   * Get count of records matching a filter formula
-   * Used for pagination when filters are applied
-   */
-  private async getFilteredCount(filterFormula: string): Promise<number> {
-    try {
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select({
-            filterByFormula: filterFormula,
-            fields: ['Name'], // Only fetch minimal data for counting
-            pageSize: 100,
-          })
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) {
-                reject(err)
-              } else {
-                resolve()
-              }
-            }
-          )
-      })
-      return count
-    } catch (error: any) {
-      console.error('Error getting filtered count for Geography:', error)
-      // Fallback: return a reasonable estimate
-      return 0
-    }
+  async getTotalCount(): Promise<number> {
+    return getRecordCountService().getCount(this.countTable)
   }
 
   /**
@@ -0,0 +1,33 @@
+/**
+ * Industry Classification Entity Service
+ * 
+ * Industry Classification table (industry_classifications) over the entity repository
+ * of the configured database (PostgreSQL, local file or in-memory).
+ * Same interface as IndustryClassificationAirtableService. Fields without a column
+ * (the table allows user-defined fields) are kept as extra fields.
+ */
+
+import { IndustryClassification, CreateIndustryClassificationDto, UpdateIndustryClassificationDto } from '../types/IndustryClassification'
+import { EntityCrudService } from '../database/entities/EntityService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+
+export class IndustryClassificationEntityService extends EntityCrudService<
+  IndustryClassification,
+  CreateIndustryClassificationDto,
+  UpdateIndustryClassificationDto
+> {
+  constructor() {
+    super(DatabaseFactory.getDatabase().getRepository(ENTITY_DESCRIPTORS.industry_classifications))
+  }
+}
+
+// Singleton instance
+let industryClassificationEntityServiceInstance: IndustryClassificationEntityService | null = null
+
+export function getIndustryClassificationEntityService(): IndustryClassificationEntityService {
+  if (!industryClassificationEntityServiceInstance) {
+    industryClassificationEntityServiceInstance = new IndustryClassificationEntityService()
+  }
+  return industryClassificationEntityServiceInstance
+}
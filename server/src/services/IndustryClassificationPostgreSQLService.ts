@@ -1,192 +0,0 @@
-/**
- * Industry Classification PostgreSQL Service
- * 
- * PostgreSQL implementation for Industry Classification table.
- * 
- * TODO: Implement when PostgreSQL is ready
- * 1. Initialize PostgreSQL connection pool
- * 2. Use the same interface as IndustryClassificationAirtableService
- * 3. Map database columns to IndustryClassification interface
- */
-
-import { IndustryClassification, CreateIndustryClassificationDto, UpdateIndustryClassificationDto } from '../types/IndustryClassification'
-
-export class IndustryClassificationPostgreSQLService {
-  constructor() {
-    // TODO: Initialize PostgreSQL connection
-    // Example:
-    // this.pool = new Pool({
-    //   host: process.env.DB_HOST,
-    //   port: parseInt(process.env.DB_PORT || '5432'),
-    //   database: process.env.DB_NAME,
-    //   user: process.env.DB_USER,
-    //   password: process.env.DB_PASSWORD,
-    // })
-    console.log('⚠️  IndustryClassificationPostgreSQLService: PostgreSQL adapter not yet implemented')
-  }
-
-  /**
-   * Get all Industry Classification records
-   */
-  async findAll(): Promise<IndustryClassification[]> {
-    throw new Error('PostgreSQL adapter not yet implemented')
-    // TODO: Implement
-    // const result = await this.pool.query('SELECT * FROM industry_classification ORDER BY name ASC')
-    // return result.rows.map(row => this.mapPostgreSQLToIndustryClassification(row))
-  }
-
-  /**
-   * Get paginated Industry Classification records with filtering and search
-   */
-  async findPaginated(
-    offset: number = 0,
-    limit: number = 50,
-    sortBy?: string,
-    sortOrder: 'asc' | 'desc' = 'asc',
-    filters?: Record<string, any>,
-    search?: string
-  ): Promise<{ records: IndustryClassification[]; total: number }> {
-    throw new Error('PostgreSQL adapter not yet implemented')
-    // TODO: Implement
-    // let query = 'SELECT * FROM industry_classification WHERE 1=1'
-    // const params: any[] = []
-    // let paramIndex = 1
-    //
-    // if (search) {
-    //   query += ` AND name ILIKE $${paramIndex}`
-    //   params.push(`%${search}%`)
-    //   paramIndex++
-    // }
-    //
-    // if (filters) {
-    //   Object.entries(filters).forEach(([key, value]) => {
-    //     if (value !== undefined && value !== null) {
-    //       query += ` AND ${key} = $${paramIndex}`
-    //       params.push(value)
-    //       paramIndex++
-    //     }
-    //   })
-    // }
-    //
-    // if (sortBy) {
-    //   query += ` ORDER BY ${sortBy} ${sortOrder.toUpperCase()}`
-    // } else {
-    //   query += ' ORDER BY name ASC'
-    // }
-    //
-    // query += ` LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`
-    // params.push(limit, offset)
-    //
-    // const result = await this.pool.query(query, params)
-    // const totalResult = await this.pool.query('SELECT COUNT(*) FROM industry_classification')
-    //
-    // return {
-    //   records: result.rows.map(row => this.mapPostgreSQLToIndustryClassification(row)),
-    //   total: parseInt(totalResult.rows[0].count),
-    // }
-  }
-
-  /**
-   * Get a single Industry Classification by ID
-   */
-  async findById(id: string): Promise<IndustryClassification | null> {
-    throw new Error('PostgreSQL adapter not yet implemented')
-    // TODO: Implement
-    // const result = await this.pool.query('SELECT * FROM industry_classification WHERE id = $1', [id])
-    // if (result.rows.length === 0) return null
-    // return this.mapPostgreSQLToIndustryClassification(result.rows[0])
-  }
-
-  /**
-   * Create a new Industry Classification
-   */
-  async create(data: CreateIndustryClassificationDto): Promise<IndustryClassification> {
-    throw new Error('PostgreSQL adapter not yet implemented')
-    // TODO: Implement
-    // const result = await this.pool.query(
-    //   'INSERT INTO industry_classification (name, description) VALUES ($1, $2) RETURNING *',
-    //   [data.Name, data.Description]
-    // )
-    // return this.mapPostgreSQLToIndustryClassification(result.rows[0])
-  }
-
-  /**
-   * Update an existing Industry Classification
-   */
-  async update(id: string, data: UpdateIndustryClassificationDto): Promise<IndustryClassification> {
-    throw new Error('PostgreSQL adapter not yet implemented')
-    // TODO: Implement
-    // const updates: string[] = []
-    // const params: any[] = []
-    // let paramIndex = 1
-    //
-    // if (data.Name !== undefined) {
-    //   updates.push(`name = $${paramIndex}`)
-    //   params.push(data.Name)
-    //   paramIndex++
-    // }
-    //
-    // if (data.Description !== undefined) {
-    //   updates.push(`description = $${paramIndex}`)
-    //   params.push(data.Description)
-    //   paramIndex++
-    // }
-    //
-    // if (updates.length === 0) {
-    //   return this.findById(id) as Promise<IndustryClassification>
-    // }
-    //
-    // params.push(id)
-    // const query = `UPDATE industry_classification SET ${updates.join(', ')}, updated_at = NOW() WHERE id = $${paramIndex} RETURNING *`
-    // const result = await this.pool.query(query, params)
-    // return this.mapPostgreSQLToIndustryClassification(result.rows[0])
-  }
-
-  /**
-   * Delete an Industry Classification
-   */
-  async delete(id: string): Promise<void> {
-    throw new Error('PostgreSQL adapter not yet implemented')
-    // TODO: Implement
-    // await this.pool.query('DELETE FROM industry_classification WHERE id = $1', [id])
-  }
-
-  /**
-   * Get distinct values for a field (for filters)
-   */
-  async getDistinctValues(field: string, limit: number = 100): Promise<string[]> {
-    throw new Error('PostgreSQL adapter not yet implemented')
-    // TODO: Implement
-    // const result = await this.pool.query(
-    //   `SELECT DISTINCT ${field} FROM industry_classification WHERE ${field} IS NOT NULL ORDER BY ${field} LIMIT $1`,
-    //   [limit]
-    // )
-    // return result.rows.map(row => row[field]).filter(Boolean)
-  }
-
-  /**
-   * Map PostgreSQL row to IndustryClassification interface
-   */
-  private mapPostgreSQLToIndustryClassification(row: any): IndustryClassification {
-    return {
-      id: row.id,
-      Name: row.name,
-      Description: row.description,
-      createdAt: row.created_at ? new Date(row.created_at).toISOString() : undefined,
-      updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : undefined,
-      createdBy: row.created_by,
-      lastModifiedBy: row.last_modified_by,
-    }
-  }
-}
-
-// Singleton instance
-let industryClassificationPostgreSQLServiceInstance: IndustryClassificationPostgreSQLService | null = null
-
-export function getIndustryClassificationPostgreSQLService(): IndustryClassificationPostgreSQLService {
-  if (!industryClassificationPostgreSQLServiceInstance) {
-    industryClassificationPostgreSQLServiceInstance = new IndustryClassificationPostgreSQLService()
-  }
-  return industryClassificationPostgreSQLServiceInstance
-}
-
@@ -5,6 +5,7 @@
  */
 
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
 
 export interface IntegrationMarketplaceProvider {
   id: string
@@ -40,8 +41,7 @@ export class IntegrationMarketplaceService {
       throw new Error('AIRTABLE_SYSTEM_CONFIG_BASE_ID or AIRTABLE_BASE_ID must be set in environment variables')
     }
 
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
   }
 
   /**
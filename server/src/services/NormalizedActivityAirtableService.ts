@@ -1,4 +1,7 @@
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, eqFilter, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
 import { NormalizedActivity, CreateNormalizedActivityDto, UpdateNormalizedActivityDto } from '../types/NormalizedActivity'
 import { RelationshipResolver } from './RelationshipResolver'
 
@@ -27,8 +30,7 @@ export class NormalizedActivityAirtableService {
                      process.env.AIRTABLE_NORMALIZED_ACTIVITY_TABLE_NAME || 
                      'Normalized Activities'
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
     this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
     
     console.log(`🌿 NormalizedActivityAirtableService initialized:`)
@@ -46,28 +48,17 @@ export class NormalizedActivityAirtableService {
     sortOrder?: 'asc' | 'desc'
     search?: string
     status?: string
+    filter?: FilterNode
   }): Promise<{ data: NormalizedActivity[]; total: number }> {
     try {
-      let formula = ''
-      const conditions: string[] = []
-
-      // Status filter
-      if (params.status) {
-        conditions.push(`{Status} = "${params.status}"`)
-      }
-
-      // Search filter
-      if (params.search) {
-        const searchTerm = params.search.trim().replace(/"/g, '\\"')
-        conditions.push(`OR(
-          FIND("${searchTerm}", LOWER({Name})) > 0,
-          FIND("${searchTerm}", LOWER({Description})) > 0
-        )`)
-      }
-
-      if (conditions.length > 0) {
-        formula = `AND(${conditions.join(', ')})`
-      }
+      const filter = allOf(
+        params.status ? eqFilter('Status', params.status) : undefined,
+        searchFilter(['Name', 'Description'], params.search),
+        params.filter
+      )
+      const formula = filter
+        ? compileAirtableFormula(filter, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : ''
 
       const selectOptions: Airtable.SelectOptions<any> = {}
       if (formula) {
@@ -3,6 +3,9 @@
  * 
  * High-level service for managing user preferences with validation,
  * caching, and TTL support. Uses adapter pattern for storage.
+ *
+ * Preferences saved with the org visibility are shared with the organization of the
+ * request that saved them (auth/TenantContext).
  */
 
 import {
@@ -16,6 +19,7 @@ import {
   PreferenceNamespace,
 } from '../types/Preferences'
 import { getPreferencesAdapter } from '../adapters/preferences/PreferencesAdapterFactory'
+import { getTenantScope } from '../auth/TenantContext'
 
 /**
  * Simple in-memory cache with TTL
@@ -82,6 +86,14 @@ export class PreferencesService {
       throw new PreferenceValidationError('key is required and must be a string', 'key')
     }
 
+    if (record.visibility && !['private', 'org', 'global'].includes(record.visibility)) {
+      throw new PreferenceValidationError('visibility must be one of: private, org, global', 'visibility')
+    }
+
+    if (record.visibility === 'org' && !record.organizationId) {
+      throw new PreferenceValidationError('visibility "org" requires a member of an organization', 'visibility')
+    }
+
     if (!record.type || !['string', 'number', 'boolean', 'json'].includes(record.type)) {
       throw new PreferenceValidationError('type must be one of: string, number, boolean, json', 'type')
     }
@@ -167,6 +179,13 @@ export class PreferencesService {
     return await this.adapter.getAll(userId, filter)
   }
 
+  /**
+   * Get the preferences shared with the request's organization (global and org preferences)
+   */
+  async getShared(filter?: PreferenceFilter): Promise<PreferenceQueryResult> {
+    return await this.adapter.getShared(getTenantScope().organizationId, filter)
+  }
+
   /**
    * Set a preference (create or update)
    */
@@ -192,6 +211,9 @@ export class PreferencesService {
       visibility: options?.visibility || 'private',
       expiresAt: options?.expiresAt,
     }
+    if (record.visibility === 'org') {
+      record.organizationId = getTenantScope().organizationId || undefined
+    }
 
     this.validate(record)
 
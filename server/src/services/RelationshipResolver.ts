@@ -3,9 +3,18 @@
  * 
  * Generic service for resolving linked record relationships between tables.
  * Handles bidirectional relationships, name resolution, and relationship metadata.
+ *
+ * Resolved names and IDs are kept in the shared response cache, tagged with the target
+ * table, so that a write to the table drops them.
  */
 
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { formulaRecordIds, formulaString } from '../database/filters/AirtableFormula'
+import { airtableCacheTag, cacheKey, getResponseCache } from '../database/cache/ResponseCache'
+
+/** Tag of every entry of the resolver, for clearCache */
+const RELATIONSHIP_CACHE_TAG = 'relationships'
 
 export interface RelationshipConfig {
   /** Source table name in Airtable */
@@ -33,14 +42,12 @@ export interface ResolvedRelationship {
 
 export class RelationshipResolver {
   private base: Airtable.Base
-  private cache: Map<string, { data: ResolvedRelationship[]; timestamp: number }> = new Map()
-  private individualCache: Map<string, { name: string; timestamp: number }> = new Map() // Individual ID → name cache
-  private readonly CACHE_TTL = 5 * 60 * 1000 // 5 minutes
-  private readonly INDIVIDUAL_CACHE_TTL = 30 * 60 * 1000 // 30 minutes for individual records
+  private readonly CACHE_TTL = 5 * 60 // 5 minutes for name → ID
+  private readonly INDIVIDUAL_CACHE_TTL = 30 * 60 // 30 minutes for ID → name
   private authorizationErrorsLogged: Set<string> = new Set() // Track which tables have logged auth errors
 
   constructor(baseId: string, apiKey: string) {
-    this.base = new Airtable({ apiKey }).base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
   }
 
   /**
@@ -56,23 +63,17 @@ export class RelationshipResolver {
     }
 
     const ids = Array.isArray(recordIds) ? recordIds : [recordIds]
-    const cacheKey = `${targetTable}:${displayField}:${ids.sort().join(',')}`
-
-    // Check batch cache first
-    const cached = this.cache.get(cacheKey)
-    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-      return cached.data as ResolvedRelationship[]
-    }
+    ids.sort()
 
-    // Check individual cache for each ID (better hit rate)
+    // Check the cache for each ID
     const cachedResults: ResolvedRelationship[] = []
     const uncachedIds: string[] = []
 
-    ids.forEach(id => {
-      const individualKey = `${targetTable}:${displayField}:${id}`
-      const individualCached = this.individualCache.get(individualKey)
-      if (individualCached && Date.now() - individualCached.timestamp < this.INDIVIDUAL_CACHE_TTL) {
-        cachedResults.push({ id, name: individualCached.name })
+    const cachedNames = await getResponseCache().getMany<string>(ids.map(id => this.nameKey(targetTable, displayField, id)))
+    ids.forEach((id, index) => {
+      const name = cachedNames[index]
+      if (name !== undefined) {
+        cachedResults.push({ id, name })
       } else {
         uncachedIds.push(id)
       }
@@ -89,7 +90,7 @@ export class RelationshipResolver {
       
       const records = await this.base(targetTable)
         .select({
-          filterByFormula: `OR(${uncachedIds.map(id => `RECORD_ID() = "${id}"`).join(', ')})`,
+          filterByFormula: formulaRecordIds(uncachedIds),
           fields: fieldsToFetch,
         })
         .all()
@@ -108,20 +109,15 @@ export class RelationshipResolver {
         }
       })
 
-      // Cache batch result
-      this.cache.set(cacheKey, {
-        data: resolved as ResolvedRelationship[],
-        timestamp: Date.now(),
-      })
-
-      // Also cache individual records for better hit rates
-      resolved.forEach(r => {
-        const individualKey = `${targetTable}:${displayField}:${r.id}`
-        this.individualCache.set(individualKey, {
-          name: r.name,
-          timestamp: Date.now(),
-        })
-      })
+      // Cache individual records, for hits across batches
+      for (const r of resolved) {
+        await getResponseCache().set(
+          this.nameKey(targetTable, displayField, r.id),
+          r.name,
+          this.cacheTags(targetTable),
+          this.INDIVIDUAL_CACHE_TTL
+        )
+      }
 
       // Combine cached and newly resolved results
       return [...cachedResults, ...resolved]
@@ -153,6 +149,60 @@ export class RelationshipResolver {
     }
   }
 
+  /**
+   * Resolve display names to record IDs (the reverse of resolveLinkedRecords)
+   * Names are matched case-insensitively. Returns lower-cased name → record ID;
+   * names matching several records resolve to the first one returned by Airtable.
+   */
+  async findRecordIdsByName(
+    names: string[],
+    targetTable: string,
+    displayField: string = 'Name'
+  ): Promise<Map<string, string>> {
+    const result = new Map<string, string>()
+    const uncached: string[] = []
+
+    const distinctNames = Array.from(new Set(names.map(name => name.trim().toLowerCase()).filter(Boolean)))
+    const cachedIds = await getResponseCache().getMany<string>(
+      distinctNames.map(name => this.idKey(targetTable, displayField, name))
+    )
+    distinctNames.forEach((name, index) => {
+      const id = cachedIds[index]
+      if (id !== undefined) {
+        result.set(name, id)
+      } else {
+        uncached.push(name)
+      }
+    })
+
+    // Keep formulas well under Airtable's URL length limit
+    for (let i = 0; i < uncached.length; i += 50) {
+      const batch = uncached.slice(i, i + 50)
+      const escapedField = displayField.replace(/[{}]/g, '')
+      const records = await this.base(targetTable)
+        .select({
+          filterByFormula: `OR(${batch.map(name => `LOWER(TRIM({${escapedField}} & "")) = ${formulaString(name)}`).join(', ')})`,
+          fields: [displayField],
+        })
+        .all()
+
+      for (const record of records) {
+        const name = String(record.fields[displayField] ?? '').trim().toLowerCase()
+        if (name && !result.has(name)) {
+          result.set(name, record.id)
+          await getResponseCache().set(
+            this.idKey(targetTable, displayField, name),
+            record.id,
+            this.cacheTags(targetTable),
+            this.CACHE_TTL
+          )
+        }
+      }
+    }
+
+    return result
+  }
+
   /**
    * Get relationship configuration from Airtable schema
    */
@@ -212,21 +262,26 @@ export class RelationshipResolver {
   /**
    * Clear cache
    */
-  clearCache(): void {
-    this.cache.clear()
+  async clearCache(): Promise<void> {
+    await getResponseCache().invalidate([RELATIONSHIP_CACHE_TAG])
   }
 
   /**
    * Clear cache for specific table
    */
-  clearCacheForTable(tableName: string): void {
-    const keysToDelete: string[] = []
-    this.cache.forEach((_, key) => {
-      if (key.startsWith(`${tableName}:`)) {
-        keysToDelete.push(key)
-      }
-    })
-    keysToDelete.forEach(key => this.cache.delete(key))
+  async clearCacheForTable(tableName: string): Promise<void> {
+    await getResponseCache().invalidate([airtableCacheTag(tableName)])
+  }
+
+  private cacheTags(targetTable: string): string[] {
+    return [airtableCacheTag(targetTable), RELATIONSHIP_CACHE_TAG]
   }
-}
 
+  private nameKey(targetTable: string, displayField: string, id: string): string {
+    return cacheKey('relationship', targetTable, displayField, 'name', id)
+  }
+
+  private idKey(targetTable: string, displayField: string, name: string): string {
+    return cacheKey('relationship', targetTable, displayField, 'id', name)
+  }
+}
@@ -1,4 +1,7 @@
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, eqFilter, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
 import { ScopeCategorisation, CreateScopeCategorisationDto, UpdateScopeCategorisationDto } from '../types/ScopeCategorisation'
 import { RelationshipResolver } from './RelationshipResolver'
 
@@ -25,8 +28,7 @@ export class ScopeCategorisationAirtableService {
                      process.env.AIRTABLE_SCOPE_CATEGORISATION_TABLE_NAME || 
                      'scope & categorisation'
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
     this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
     
     console.log(`🌿 ScopeCategorisationAirtableService initialized:`)
@@ -41,26 +43,17 @@ export class ScopeCategorisationAirtableService {
     sortOrder?: 'asc' | 'desc'
     search?: string
     status?: string
+    filter?: FilterNode
   }): Promise<{ data: ScopeCategorisation[]; total: number }> {
     try {
-      let formula = ''
-      const conditions: string[] = []
-
-      if (params.status) {
-        conditions.push(`{Status} = "${params.status}"`)
-      }
-
-      if (params.search) {
-        const searchTerm = params.search.trim().replace(/"/g, '\\"')
-        conditions.push(`OR(
-          FIND("${searchTerm}", LOWER({Name})) > 0,
-          FIND("${searchTerm}", LOWER({Description})) > 0
-        )`)
-      }
-
-      if (conditions.length > 0) {
-        formula = `AND(${conditions.join(', ')})`
-      }
+      const filter = allOf(
+        params.status ? eqFilter('Status', params.status) : undefined,
+        searchFilter(['Name', 'Description'], params.search),
+        params.filter
+      )
+      const formula = filter
+        ? compileAirtableFormula(filter, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : ''
 
       const selectOptions: Airtable.SelectOptions<any> = {
         // Explicitly include Status field to ensure it's always fetched
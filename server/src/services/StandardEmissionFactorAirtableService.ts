@@ -1,6 +1,10 @@
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, eqFilter, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula, formulaString } from '../database/filters/AirtableFormula'
 import { StandardEmissionFactor, CreateStandardEmissionFactorDto, UpdateStandardEmissionFactorDto } from '../types/StandardEmissionFactor'
 import { RelationshipResolver } from './RelationshipResolver'
+import { recalculateForCreatedEmissionFactors, recalculateForUpdatedEmissionFactors } from './ActivityDataRecalculation'
 
 /**
  * Standard Emission Factor Airtable Service
@@ -27,8 +31,7 @@ export class StandardEmissionFactorAirtableService {
                      process.env.AIRTABLE_STANDARD_EMISSION_FACTOR_TABLE_NAME || 
                      'Standard Emission factors'
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
     this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
     
     console.log(`🌿 StandardEmissionFactorAirtableService initialized:`)
@@ -46,28 +49,17 @@ export class StandardEmissionFactorAirtableService {
     sortOrder?: 'asc' | 'desc'
     search?: string
     status?: string
+    filter?: FilterNode
   }): Promise<{ data: StandardEmissionFactor[]; total: number }> {
     try {
-      let formula = ''
-      const conditions: string[] = []
-
-      // Status filter
-      if (params.status) {
-        conditions.push(`{Status} = "${params.status}"`)
-      }
-
-      // Search filter
-      if (params.search) {
-        const searchTerm = params.search.trim().replace(/"/g, '\\"')
-        conditions.push(`OR(
-          FIND("${searchTerm}", LOWER({Name})) > 0,
-          FIND("${searchTerm}", LOWER({Description})) > 0
-        )`)
-      }
-
-      if (conditions.length > 0) {
-        formula = `AND(${conditions.join(', ')})`
-      }
+      const filter = allOf(
+        params.status ? eqFilter('Status', params.status) : undefined,
+        searchFilter(['Name', 'Description'], params.search),
+        params.filter
+      )
+      const formula = filter
+        ? compileAirtableFormula(filter, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : ''
 
       const selectOptions: Airtable.SelectOptions<any> = {
         // Explicitly include all fields that exist in Airtable
@@ -83,11 +75,13 @@ export class StandardEmissionFactorAirtableService {
           'Industry Classification & Emission Factors',
           'Version',
           'Publication Date',
+          'Geography',
           'Normalized activity',
           'Ref.IC',
           'Industry Classification',
           'Source UOM',
           'Scope',
+          'Scope Categories',
           'Availability ',
           'code (from Industry Classification  🏭)',
           'Name copy',
@@ -143,75 +137,7 @@ export class StandardEmissionFactorAirtableService {
           })()
         : Promise.resolve(records.length)
 
-      // Batch resolve all linked records across all records to minimize API calls
-      // Collect all unique IDs per table first
-      const linkedRecordIdsByTable: Record<string, Set<string>> = {}
-      records.forEach(record => {
-        const fields = record.fields
-        const tableNameMap: Record<string, string> = {
-          'GHG Unit (CO2e)': 'Unit',
-          'Source UOM': 'Unit',
-          'Activity Default UOM': 'Unit',
-          'Normalized activity': 'Normalized Activities',
-        }
-        const getTableName = (fieldName: string): string => tableNameMap[fieldName] || fieldName
-        
-        // Collect IDs for each linked field
-        const linkedFields = [
-          { field: 'Emission Factors Dataset', table: getTableName('Emission Factors Dataset') },
-          { field: 'GHG Unit (CO2e)', table: getTableName('GHG Unit (CO2e)') },
-          { field: 'Industry Classification & Emission Factors', table: getTableName('Industry Classification & Emission Factors') },
-          { field: 'Version', table: getTableName('Version') },
-          { field: 'Normalized activity', table: getTableName('Normalized activity') },
-          { field: 'Industry Classification', table: getTableName('Industry Classification') },
-          { field: 'Source UOM', table: getTableName('Source UOM') },
-          { field: 'Scope', table: getTableName('Scope') },
-          { field: 'Activity Default UOM', table: getTableName('Activity Default UOM') },
-          { field: 'EF/Detailed G', table: getTableName('EF/Detailed G') },
-        ]
-        
-        linkedFields.forEach(({ field, table }) => {
-          const ids = fields[field]
-          if (ids) {
-            const idArray = Array.isArray(ids) ? ids : [ids]
-            if (!linkedRecordIdsByTable[table]) {
-              linkedRecordIdsByTable[table] = new Set()
-            }
-            idArray.forEach(id => linkedRecordIdsByTable[table].add(id))
-          }
-        })
-      })
-
-      // Batch resolve all unique IDs per table in parallel
-      const batchResolutions = await Promise.all(
-        Object.entries(linkedRecordIdsByTable).map(async ([table, ids]) => {
-          if (ids.size === 0) return { table, resolved: new Map<string, string>() }
-          try {
-            const resolved = await this.relationshipResolver.resolveLinkedRecords(
-              Array.from(ids),
-              table,
-              'Name'
-            )
-            const idToNameMap = new Map<string, string>()
-            resolved.forEach(r => idToNameMap.set(r.id, r.name))
-            return { table, resolved: idToNameMap }
-          } catch (error) {
-            console.warn(`Error batch resolving ${table}:`, error)
-            return { table, resolved: new Map<string, string>() }
-          }
-        })
-      )
-
-      // Create lookup map for fast access
-      const resolutionMap = new Map<string, Map<string, string>>()
-      batchResolutions.forEach(({ table, resolved }) => {
-        resolutionMap.set(table, resolved)
-      })
-
-      // Map records using pre-resolved names (much faster)
-      const data = await Promise.all(
-        records.map(record => this.mapAirtableToStandardEmissionFactorWithResolutions(record, resolutionMap))
-      )
+      const data = await this.mapRecordsWithResolutions(records)
 
       // Get total count
       total = await totalCountPromise
@@ -248,6 +174,7 @@ export class StandardEmissionFactorAirtableService {
       
       const records = await this.base(this.tableName).create([{ fields }])
       const record = records[0]
+      recalculateForCreatedEmissionFactors([fields])
       
       return await this.mapAirtableToStandardEmissionFactor(record)
     } catch (error: any) {
@@ -264,6 +191,7 @@ export class StandardEmissionFactorAirtableService {
       const fields = this.mapStandardEmissionFactorToAirtable(dto)
       
       const record = await this.base(this.tableName).update([{ id, fields }])
+      recalculateForUpdatedEmissionFactors([{ id, fields }])
       
       return await this.mapAirtableToStandardEmissionFactor(record[0])
     } catch (error: any) {
@@ -284,6 +212,103 @@ export class StandardEmissionFactorAirtableService {
     }
   }
 
+  /**
+   * Get all Standard Emission Factors linked to a Normalized Activity
+   * Used by the calculation engine to find candidate factors for an activity
+   */
+  async getByNormalizedActivity(normalizedActivityId: string): Promise<StandardEmissionFactor[]> {
+    try {
+      // Linked record fields evaluate to primary field names in formulas,
+      // so narrow by the activity name first and confirm the record ID afterwards
+      const [activity] = await this.relationshipResolver.resolveLinkedRecords(
+        normalizedActivityId,
+        'Normalized Activities',
+        'Name'
+      )
+      const activityName = activity?.name || normalizedActivityId
+
+      const records = await this.base(this.tableName)
+        .select({
+          filterByFormula: `FIND(${formulaString(activityName)}, ARRAYJOIN({Normalized activity}, "|")) > 0`,
+        })
+        .all()
+
+      const matching = records.filter(record => {
+        const linked = record.fields['Normalized activity']
+        const ids: string[] = Array.isArray(linked) ? linked : (linked ? [linked] : [])
+        return ids.includes(normalizedActivityId)
+      })
+
+      return await Promise.all(
+        matching.map(record => this.mapAirtableToStandardEmissionFactor(record))
+      )
+    } catch (error: any) {
+      console.error('Error fetching Standard Emission Factors by Normalized Activity:', error)
+      throw new Error(`Failed to fetch Standard Emission Factors for activity: ${error.message}`)
+    }
+  }
+
+  /**
+   * Get all Standard Emission Factors linked to an Emission Factor Version
+   */
+  async getByVersion(versionId: string, versionName?: string): Promise<StandardEmissionFactor[]> {
+    try {
+      // Same approach as getByNormalizedActivity: narrow by name, confirm by record ID
+      const name = versionName || versionId
+      const records = await this.base(this.tableName)
+        .select({
+          filterByFormula: `FIND(${formulaString(name)}, ARRAYJOIN({Version}, "|")) > 0`,
+        })
+        .all()
+
+      const matching = records.filter(record => {
+        const linked = record.fields['Version']
+        const ids: string[] = Array.isArray(linked) ? linked : (linked ? [linked] : [])
+        return ids.includes(versionId)
+      })
+
+      return await this.mapRecordsWithResolutions(matching)
+    } catch (error: any) {
+      console.error('Error fetching Standard Emission Factors by Version:', error)
+      throw new Error(`Failed to fetch Standard Emission Factors for version: ${error.message}`)
+    }
+  }
+
+  /**
+   * Update raw Airtable fields on many records, 10 per request (the Airtable batch limit)
+   */
+  async updateMany(updates: Array<{ id: string; fields: Record<string, any> }>): Promise<void> {
+    try {
+      for (let i = 0; i < updates.length; i += 10) {
+        await this.base(this.tableName).update(updates.slice(i, i + 10))
+      }
+      recalculateForUpdatedEmissionFactors(updates)
+    } catch (error: any) {
+      console.error('Error batch updating Standard Emission Factors:', error)
+      throw new Error(`Failed to update Standard Emission Factors: ${error.message}`)
+    }
+  }
+
+  /**
+   * Create many Standard Emission Factors, 10 per request (the Airtable batch limit)
+   * Returns the created record IDs in input order
+   */
+  async createMany(dtos: CreateStandardEmissionFactorDto[]): Promise<string[]> {
+    try {
+      const ids: string[] = []
+      const created = dtos.map(dto => this.mapStandardEmissionFactorToAirtable(dto))
+      for (let i = 0; i < created.length; i += 10) {
+        const records = await this.base(this.tableName).create(created.slice(i, i + 10).map(fields => ({ fields })))
+        ids.push(...records.map(record => record.id))
+      }
+      recalculateForCreatedEmissionFactors(created)
+      return ids
+    } catch (error: any) {
+      console.error('Error batch creating Standard Emission Factors:', error)
+      throw new Error(`Failed to create Standard Emission Factors: ${error.message}`)
+    }
+  }
+
   /**
    * Get distinct values for a filter field
    */
@@ -316,6 +341,83 @@ export class StandardEmissionFactorAirtableService {
     }
   }
 
+  /**
+   * Map a batch of records, resolving linked record names once per table
+   */
+  private async mapRecordsWithResolutions(records: readonly Airtable.Record<any>[]): Promise<StandardEmissionFactor[]> {
+    // Batch resolve all linked records across all records to minimize API calls
+    // Collect all unique IDs per table first
+    const linkedRecordIdsByTable: Record<string, Set<string>> = {}
+    records.forEach(record => {
+      const fields = record.fields
+      const tableNameMap: Record<string, string> = {
+        'GHG Unit (CO2e)': 'Unit',
+        'Source UOM': 'Unit',
+        'Activity Default UOM': 'Unit',
+        'Normalized activity': 'Normalized Activities',
+        'Scope Categories': 'scope & categorisation',
+        'Geography': process.env.AIRTABLE_GEOGRAPHY_TABLE_ID || 'tblErjfASiVycrsn9',
+      }
+      const getTableName = (fieldName: string): string => tableNameMap[fieldName] || fieldName
+      
+      // Collect IDs for each linked field
+      const linkedFields = [
+        { field: 'Emission Factors Dataset', table: getTableName('Emission Factors Dataset') },
+        { field: 'GHG Unit (CO2e)', table: getTableName('GHG Unit (CO2e)') },
+        { field: 'Industry Classification & Emission Factors', table: getTableName('Industry Classification & Emission Factors') },
+        { field: 'Version', table: getTableName('Version') },
+        { field: 'Geography', table: getTableName('Geography') },
+        { field: 'Normalized activity', table: getTableName('Normalized activity') },
+        { field: 'Industry Classification', table: getTableName('Industry Classification') },
+        { field: 'Source UOM', table: getTableName('Source UOM') },
+        { field: 'Scope', table: getTableName('Scope') },
+        { field: 'Scope Categories', table: getTableName('Scope Categories') },
+        { field: 'Activity Default UOM', table: getTableName('Activity Default UOM') },
+        { field: 'EF/Detailed G', table: getTableName('EF/Detailed G') },
+      ]
+      
+      linkedFields.forEach(({ field, table }) => {
+        const ids = fields[field]
+        if (ids) {
+          const idArray = Array.isArray(ids) ? ids : [ids]
+          if (!linkedRecordIdsByTable[table]) {
+            linkedRecordIdsByTable[table] = new Set()
+          }
+          idArray.forEach(id => linkedRecordIdsByTable[table].add(id))
+        }
+      })
+    })
+
+    // Batch resolve all unique IDs per table in parallel
+    const batchResolutions = await Promise.all(
+      Object.entries(linkedRecordIdsByTable).map(async ([table, ids]) => {
+        if (ids.size === 0) return { table, resolved: new Map<string, string>() }
+        try {
+          const resolved = await this.relationshipResolver.resolveLinkedRecords(
+            Array.from(ids),
+            table,
+            'Name'
+          )
+          const idToNameMap = new Map<string, string>()
+          resolved.forEach(r => idToNameMap.set(r.id, r.name))
+          return { table, resolved: idToNameMap }
+        } catch (error) {
+          console.warn(`Error batch resolving ${table}:`, error)
+          return { table, resolved: new Map<string, string>() }
+        }
+      })
+    )
+
+    // Create lookup map for fast access
+    const resolutionMap = new Map<string, Map<string, string>>()
+    batchResolutions.forEach(({ table, resolved }) => {
+      resolutionMap.set(table, resolved)
+    })
+
+    // Map records using pre-resolved names (much faster)
+    return records.map(record => this.mapAirtableToStandardEmissionFactorWithResolutions(record, resolutionMap))
+  }
+
   /**
    * Map Airtable record to StandardEmissionFactor interface with pre-resolved relationships
    * This is faster than resolving relationships one-by-one
@@ -332,6 +434,8 @@ export class StandardEmissionFactorAirtableService {
       'Source UOM': 'Unit',
       'Activity Default UOM': 'Unit',
       'Normalized activity': 'Normalized Activities',
+      'Scope Categories': 'scope & categorisation',
+      'Geography': process.env.AIRTABLE_GEOGRAPHY_TABLE_ID || 'tblErjfASiVycrsn9',
     }
     
     const getTableName = (fieldName: string): string => tableNameMap[fieldName] || fieldName
@@ -363,6 +467,8 @@ export class StandardEmissionFactorAirtableService {
       Version: fields['Version'] || undefined,
       'Version Name': resolveNames('Version', fields['Version']),
       'Publication Date': fields['Publication Date'] || undefined,
+      Geography: fields['Geography'] || undefined,
+      'Geography Name': resolveNames('Geography', fields['Geography']),
       'Normalized activity': fields['Normalized activity'] || undefined,
       'Normalized activity Name': resolveNames('Normalized activity', fields['Normalized activity']),
       'Ref.IC': Array.isArray(fields['Ref.IC']) ? fields['Ref.IC'] : (fields['Ref.IC'] ? [fields['Ref.IC']] : undefined),
@@ -372,6 +478,8 @@ export class StandardEmissionFactorAirtableService {
       'Source UOM Name': resolveNames('Source UOM', fields['Source UOM']),
       Scope: fields['Scope'] || undefined,
       'Scope Name': resolveNames('Scope', fields['Scope']),
+      'Scope Categories': fields['Scope Categories'] || undefined,
+      'Scope Categories Name': resolveNames('Scope Categories', fields['Scope Categories']),
       'Availability ': fields['Availability '] || undefined,
       'code (from Industry Classification  🏭)': Array.isArray(fields['code (from Industry Classification  🏭)']) 
         ? fields['code (from Industry Classification  🏭)'].join(', ') 
@@ -412,6 +520,8 @@ export class StandardEmissionFactorAirtableService {
       'Source UOM': 'Unit', // Links to Unit table
       'Activity Default UOM': 'Unit', // Links to Unit table
       'Normalized activity': 'Normalized Activities', // Links to Normalized Activities table (plural)
+      'Scope Categories': 'scope & categorisation', // Links to scope & categorisation table
+      'Geography': process.env.AIRTABLE_GEOGRAPHY_TABLE_ID || 'tblErjfASiVycrsn9', // Table name carries an emoji, use the ID
       // For tables that don't exist yet or have different names, we'll try the field name first
       // and let the RelationshipResolver handle the error gracefully
     }
@@ -431,8 +541,10 @@ export class StandardEmissionFactorAirtableService {
       industryClassification2Names,
       sourceUOMNames,
       scopeNames,
+      scopeCategoryNames,
       activityDefaultUOMNames,
       efDetailedGNames,
+      geographyNames,
     ] = await Promise.all([
       fields['Emission Factors Dataset']
         ? this.relationshipResolver.resolveLinkedRecords(fields['Emission Factors Dataset'], getTableName('Emission Factors Dataset'), 'Name')
@@ -458,12 +570,18 @@ export class StandardEmissionFactorAirtableService {
       fields['Scope']
         ? this.relationshipResolver.resolveLinkedRecords(fields['Scope'], getTableName('Scope'), 'Name')
         : Promise.resolve([]),
+      fields['Scope Categories']
+        ? this.relationshipResolver.resolveLinkedRecords(fields['Scope Categories'], getTableName('Scope Categories'), 'Name')
+        : Promise.resolve([]),
       fields['Activity Default UOM']
         ? this.relationshipResolver.resolveLinkedRecords(fields['Activity Default UOM'], getTableName('Activity Default UOM'), 'Name')
         : Promise.resolve([]),
       fields['EF/Detailed G']
         ? this.relationshipResolver.resolveLinkedRecords(fields['EF/Detailed G'], getTableName('EF/Detailed G'), 'Name')
         : Promise.resolve([]),
+      fields['Geography']
+        ? this.relationshipResolver.resolveLinkedRecords(fields['Geography'], getTableName('Geography'), 'Name')
+        : Promise.resolve([]),
     ])
 
     return {
@@ -483,6 +601,8 @@ export class StandardEmissionFactorAirtableService {
       Version: fields['Version'] || undefined,
       'Version Name': versionNames.map(r => r.name),
       'Publication Date': fields['Publication Date'] || undefined,
+      Geography: fields['Geography'] || undefined,
+      'Geography Name': geographyNames.map(r => r.name),
       'Normalized activity': fields['Normalized activity'] || undefined,
       'Normalized activity Name': normalizedActivityNames.map(r => r.name),
       'Ref.IC': Array.isArray(fields['Ref.IC']) ? fields['Ref.IC'] : (fields['Ref.IC'] ? [fields['Ref.IC']] : undefined),
@@ -492,6 +612,8 @@ export class StandardEmissionFactorAirtableService {
       'Source UOM Name': sourceUOMNames.map(r => r.name),
       Scope: fields['Scope'] || undefined,
       'Scope Name': scopeNames.map(r => r.name),
+      'Scope Categories': fields['Scope Categories'] || undefined,
+      'Scope Categories Name': scopeCategoryNames.map(r => r.name),
       'Availability ': fields['Availability '] || undefined,
       'code (from Industry Classification  🏭)': Array.isArray(fields['code (from Industry Classification  🏭)']) 
         ? fields['code (from Industry Classification  🏭)'].join(', ') 
@@ -559,6 +681,11 @@ export class StandardEmissionFactorAirtableService {
     if (dto['Publication Date'] !== undefined && dto['Publication Date'] !== null && String(dto['Publication Date']).trim() !== '') {
       fields['Publication Date'] = String(dto['Publication Date']).trim()
     }
+    if (dto.Geography !== undefined) {
+      fields['Geography'] = Array.isArray(dto.Geography)
+        ? dto.Geography
+        : [dto.Geography]
+    }
     if (dto['Normalized activity'] !== undefined) {
       fields['Normalized activity'] = Array.isArray(dto['Normalized activity']) 
         ? dto['Normalized activity'] 
@@ -0,0 +1,80 @@
+/**
+ * Standard Emission Factor Entity Service
+ *
+ * Standard Emission Factors table (standard_emission_factors) over the entity repository
+ * of the configured database (PostgreSQL, local file or in-memory).
+ * Same interface as StandardEmissionFactorAirtableService; linked record names and
+ * lookups (code, Dimension, Status) are resolved by the repository.
+ * Every write refreshes the Activity Data it affects (ActivityDataRecalculation).
+ */
+
+import {
+  StandardEmissionFactor,
+  CreateStandardEmissionFactorDto,
+  UpdateStandardEmissionFactorDto,
+} from '../types/StandardEmissionFactor'
+import { EntityCrudService } from '../database/entities/EntityService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+import { recalculateForCreatedEmissionFactors, recalculateForUpdatedEmissionFactors } from './ActivityDataRecalculation'
+
+export class StandardEmissionFactorEntityService extends EntityCrudService<
+  StandardEmissionFactor,
+  CreateStandardEmissionFactorDto,
+  UpdateStandardEmissionFactorDto
+> {
+  constructor() {
+    super(DatabaseFactory.getDatabase().getRepository(ENTITY_DESCRIPTORS.standard_emission_factors))
+  }
+
+  async create(dto: CreateStandardEmissionFactorDto): Promise<StandardEmissionFactor> {
+    const record = await super.create(dto)
+    recalculateForCreatedEmissionFactors([dto])
+    return record
+  }
+
+  async createMany(dtos: CreateStandardEmissionFactorDto[]): Promise<string[]> {
+    const ids = await super.createMany(dtos)
+    recalculateForCreatedEmissionFactors(dtos)
+    return ids
+  }
+
+  async update(id: string, dto: UpdateStandardEmissionFactorDto): Promise<StandardEmissionFactor> {
+    const record = await super.update(id, dto)
+    recalculateForUpdatedEmissionFactors([{ id, fields: dto }])
+    return record
+  }
+
+  /**
+   * Get all Standard Emission Factors linked to a Normalized Activity
+   */
+  async getByNormalizedActivity(normalizedActivityId: string): Promise<StandardEmissionFactor[]> {
+    return this.findAll({ 'Normalized activity': normalizedActivityId })
+  }
+
+  /**
+   * Get all Standard Emission Factors linked to an Emission Factor Version
+   * versionName is accepted for interface compatibility - links are matched by record ID
+   */
+  async getByVersion(versionId: string, _versionName?: string): Promise<StandardEmissionFactor[]> {
+    return this.findAll({ Version: versionId })
+  }
+
+  /**
+   * Update fields on many records - all or nothing
+   */
+  async updateMany(updates: Array<{ id: string; fields: Record<string, any> }>): Promise<void> {
+    await this.repository.updateMany(updates)
+    recalculateForUpdatedEmissionFactors(updates)
+  }
+}
+
+// Singleton instance
+let standardEmissionFactorEntityServiceInstance: StandardEmissionFactorEntityService | null = null
+
+export function getStandardEmissionFactorEntityService(): StandardEmissionFactorEntityService {
+  if (!standardEmissionFactorEntityServiceInstance) {
+    standardEmissionFactorEntityServiceInstance = new StandardEmissionFactorEntityService()
+  }
+  return standardEmissionFactorEntityServiceInstance
+}
@@ -0,0 +1,70 @@
+import { StandardEmissionFactorImportService } from './StandardEmissionFactorImportService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+import { StandardEmissionFactorImportValidationError } from '../types/StandardEmissionFactorImport'
+
+const repository = (table: string) => DatabaseFactory.getDatabase().getRepository<any>(ENTITY_DESCRIPTORS[table])
+
+const create = async (table: string, fields: Record<string, any>): Promise<string> =>
+  (await repository(table).create(fields)).id
+
+const csv = (lines: string[]) => ({ buffer: Buffer.from(lines.join('\n')), filename: 'factors.csv' })
+
+describe('StandardEmissionFactorImportService', () => {
+  let service: StandardEmissionFactorImportService
+  const ids: Record<string, string> = {}
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    service = new StandardEmissionFactorImportService()
+    ids.kWh = await create('units', { Name: 'kWh', Symbol: 'kWh' })
+    ids.scope2 = await create('scopes', { Name: 'Scope 2' })
+    ids.electricity = await create('normalized_activities', { Name: 'Electricity' })
+    ids.version = await create('emission_factor_versions', { Name: 'DEFRA 2024' })
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  const dataset = csv([
+    'Activity,Unit,kg CO2e,Scope,Version,Status',
+    'Electricity,kWh,0.207,Scope 2,DEFRA 2024,active',
+    'Electricity,therm,18.3,Scope 2,DEFRA 2024,Active',
+    'Heating,kWh,abc,Scope 9,DEFRA 2024,Retired',
+  ])
+
+  it('reports every row without writing on a dry run', async () => {
+    const report = await service.import(dataset)
+
+    expect(report).toMatchObject({ dryRun: true, format: 'csv', missingUnits: ['therm'], createdUnits: [] })
+    expect(report.summary).toEqual({ total: 3, valid: 1, invalid: 2, created: 0, failed: 0 })
+    expect(report.rows[0].fields).toMatchObject({
+      'Normalized activity': [ids.electricity], 'Source UOM': [ids.kWh], 'Emission Factor (CO2e)': 0.207,
+      Scope: [ids.scope2], Version: [ids.version], Status: 'Active',
+    })
+    expect(report.rows[1].errors).toEqual([{ field: 'Source UOM', message: 'Source UOM "therm" not found' }])
+    expect(report.rows[2].errors.map(error => error.field).sort()).toEqual(
+      ['Emission Factor (CO2e)', 'Normalized activity', 'Scope', 'Status']
+    )
+    expect((await repository('standard_emission_factors').list()).total).toBe(0)
+  })
+
+  it('creates the missing units and writes the valid rows', async () => {
+    const report = await service.import(dataset, { dryRun: false, createMissingUnits: true })
+
+    expect(report.summary).toEqual({ total: 3, valid: 2, invalid: 1, created: 2, failed: 0 })
+    expect(report.createdUnits.map(unit => unit.name)).toEqual(['therm'])
+    const therm = await repository('standard_emission_factors').get(report.rows[1].id!)
+    expect(therm['Source UOM']).toEqual([report.createdUnits[0].id])
+  })
+
+  it('refuses files without data rows or a column for a required field', async () => {
+    await expect(service.import(csv(['Activity,Unit,kg CO2e']))).rejects.toThrow('The file has no data rows')
+    await expect(service.import(csv(['Activity,Unit', 'Electricity,kWh'])))
+      .rejects.toMatchObject({ field: 'columnMapping', message: expect.stringContaining('Emission Factor (CO2e)') })
+    await expect(service.import(dataset, { columnMapping: { Price: 'Emission Factor (CO2e)' } }))
+      .rejects.toThrow(StandardEmissionFactorImportValidationError)
+  })
+})
@@ -0,0 +1,451 @@
+/**
+ * Standard Emission Factor Import Service
+ *
+ * Imports emission factor datasets (DEFRA/EPA-style CSV or XLSX files) into the
+ * Standard Emission factors table:
+ * 1. source columns are mapped to factor fields (explicit mapping, then known header aliases)
+ * 2. Source UOM, GHG Unit, Scope, Version, Normalized activity and Geography names
+ *    are resolved to linked record IDs
+ * 3. every row is validated and reported - nothing is written on a dry run (the default)
+ * 4. otherwise missing units are created when requested and valid rows are written
+ */
+
+import {
+  getStandardEmissionFactorService,
+  StandardEmissionFactorService,
+  getUnitService,
+  UnitService,
+  getScopeService,
+  ScopeService,
+  getNormalizedActivityService,
+  NormalizedActivityService,
+  getEmissionFactorVersionService,
+  EmissionFactorVersionService,
+  getGeographyService,
+  GeographyService,
+} from '../database/EntityServiceFactory'
+import { getUnitConversionGraphService } from './UnitConversionGraphService'
+import { getEmissionFactorResolutionService } from './EmissionFactorResolutionService'
+import { parseSpreadsheet, excelSerialToIsoDate, ParsedSpreadsheet } from '../utils/spreadsheet'
+import { CreateStandardEmissionFactorDto } from '../types/StandardEmissionFactor'
+import {
+  StandardEmissionFactorImportField,
+  StandardEmissionFactorImportOptions,
+  StandardEmissionFactorImportReport,
+  StandardEmissionFactorImportRow,
+  STANDARD_EMISSION_FACTOR_IMPORT_COLUMNS,
+  STANDARD_EMISSION_FACTOR_IMPORT_LINK_FIELDS,
+  StandardEmissionFactorImportValidationError,
+} from '../types/StandardEmissionFactorImport'
+
+/** Single select fields and their allowed options */
+const SELECT_OPTIONS: Partial<Record<StandardEmissionFactorImportField, string[]>> = {
+  'Status': ['Active', 'Inactive'],
+  'Type of EF': ['Standard', 'Specific'],
+  'Availability ': ['Latest', 'Legacy'],
+}
+
+const UNIT_FIELDS: StandardEmissionFactorImportField[] = ['Source UOM', 'GHG Unit (CO2e)']
+
+const REQUIRED_FIELDS: StandardEmissionFactorImportField[] = ['Emission Factor (CO2e)', 'Source UOM', 'Normalized activity']
+
+const RECORD_ID = /^rec[A-Za-z0-9]{14}$/
+
+/** Lower-case and drop punctuation so "kg CO2e" matches "KG_CO2E" */
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+/**
+ * Lookup of linked records by record ID and lower-cased label (name, symbol or code)
+ */
+interface LinkLookup {
+  ids: Set<string>
+  byLabel: Map<string, string>
+}
+
+type ReferenceData = Record<'units' | 'scopes' | 'versions' | 'activities' | 'geographies', LinkLookup>
+
+const LINK_REFERENCE: Record<string, keyof ReferenceData> = {
+  'Source UOM': 'units',
+  'GHG Unit (CO2e)': 'units',
+  'Scope': 'scopes',
+  'Version': 'versions',
+  'Normalized activity': 'activities',
+  'Geography': 'geographies',
+}
+
+/**
+ * Row being validated, with unit names waiting for the unit to be created
+ */
+interface PendingRow {
+  row: StandardEmissionFactorImportRow
+  pendingUnits: Array<{ field: StandardEmissionFactorImportField; name: string }>
+}
+
+export class StandardEmissionFactorImportService {
+  private factorService: StandardEmissionFactorService
+  private unitService: UnitService
+  private scopeService: ScopeService
+  private activityService: NormalizedActivityService
+  private versionService: EmissionFactorVersionService
+  private geographyService: GeographyService
+
+  constructor() {
+    this.factorService = getStandardEmissionFactorService()
+    this.unitService = getUnitService()
+    this.scopeService = getScopeService()
+    this.activityService = getNormalizedActivityService()
+    this.versionService = getEmissionFactorVersionService()
+    this.geographyService = getGeographyService()
+  }
+
+  /**
+   * Validate a dataset file and, unless this is a dry run, write its valid rows
+   */
+  async import(
+    file: { buffer: Buffer; filename?: string; mimeType?: string },
+    options: StandardEmissionFactorImportOptions = {}
+  ): Promise<StandardEmissionFactorImportReport> {
+    const dryRun = options.dryRun !== false
+
+    let parsed: ParsedSpreadsheet
+    try {
+      parsed = parseSpreadsheet(file.buffer, { filename: file.filename, mimeType: file.mimeType, sheet: options.sheet })
+    } catch (error: any) {
+      throw new StandardEmissionFactorImportValidationError(`Could not read file: ${error.message}`, 'file')
+    }
+    if (parsed.rows.length === 0) {
+      throw new StandardEmissionFactorImportValidationError('The file has no data rows', 'file')
+    }
+
+    const columnMapping = this.buildColumnMapping(parsed.headers, options.columnMapping)
+    const defaults = this.validateDefaults(options.defaults)
+    const mappedFields = new Set<string>([...Object.values(columnMapping), ...Object.keys(defaults)])
+    const unmappedRequired = REQUIRED_FIELDS.filter(field => !mappedFields.has(field))
+    if (unmappedRequired.length > 0) {
+      throw new StandardEmissionFactorImportValidationError(
+        `No column mapped to ${unmappedRequired.join(', ')}. Columns found: ${parsed.headers.join(', ')}`,
+        'columnMapping'
+      )
+    }
+
+    const reference = await this.getReferenceData()
+    const missingUnits = new Map<string, string>() // lower-cased -> name as written
+    const pending = parsed.rows.map(({ rowNumber, values }) =>
+      this.buildRow(rowNumber, values, columnMapping, defaults, reference, !!options.createMissingUnits, missingUnits)
+    )
+    this.flagDuplicates(pending)
+
+    const report: StandardEmissionFactorImportReport = {
+      dryRun,
+      format: parsed.format,
+      sheet: parsed.sheet,
+      columnMapping,
+      unmappedColumns: parsed.headers.filter(header => !columnMapping[header]),
+      summary: { total: pending.length, valid: 0, invalid: 0, created: 0, failed: 0 },
+      missingUnits: Array.from(missingUnits.values()),
+      createdUnits: [],
+      rows: pending.map(p => p.row),
+    }
+
+    if (!dryRun) {
+      await this.write(pending, missingUnits, report)
+    }
+
+    report.rows.forEach(row => {
+      if (row.status === 'invalid') report.summary.invalid++
+      else report.summary.valid++
+      if (row.status === 'created') report.summary.created++
+      if (row.status === 'failed') report.summary.failed++
+    })
+
+    return report
+  }
+
+  /**
+   * Map source columns to fields: explicit mapping first, then known header aliases
+   */
+  private buildColumnMapping(
+    headers: string[],
+    explicit: StandardEmissionFactorImportOptions['columnMapping'] = {}
+  ): Record<string, StandardEmissionFactorImportField> {
+    const fields = Object.keys(STANDARD_EMISSION_FACTOR_IMPORT_COLUMNS) as StandardEmissionFactorImportField[]
+    const mapping: Record<string, StandardEmissionFactorImportField> = {}
+    const used = new Set<StandardEmissionFactorImportField>()
+
+    for (const [column, field] of Object.entries(explicit)) {
+      if (!headers.includes(column)) {
+        throw new StandardEmissionFactorImportValidationError(`Mapped column "${column}" is not in the file`, 'columnMapping')
+      }
+      if (!field) continue // explicitly ignored
+      if (!fields.includes(field)) {
+        throw new StandardEmissionFactorImportValidationError(
+          `Unknown field "${field}" for column "${column}". Valid fields: ${fields.join(', ')}`,
+          'columnMapping'
+        )
+      }
+      if (used.has(field)) {
+        throw new StandardEmissionFactorImportValidationError(`Field "${field}" is mapped more than once`, 'columnMapping')
+      }
+      mapping[column] = field
+      used.add(field)
+    }
+
+    // Aliases are tried in order so the most specific header wins
+    // ("Emission Factor (CO2e)" before "Factor")
+    for (const field of fields) {
+      if (used.has(field)) continue
+      for (const alias of STANDARD_EMISSION_FACTOR_IMPORT_COLUMNS[field]) {
+        const column = headers.find(header =>
+          !(header in explicit) && !mapping[header] && normalizeHeader(header) === normalizeHeader(alias)
+        )
+        if (column) {
+          mapping[column] = field
+          used.add(field)
+          break
+        }
+      }
+    }
+
+    return mapping
+  }
+
+  private validateDefaults(
+    defaults: StandardEmissionFactorImportOptions['defaults'] = {}
+  ): Partial<Record<StandardEmissionFactorImportField, string>> {
+    const fields = Object.keys(STANDARD_EMISSION_FACTOR_IMPORT_COLUMNS)
+    const result: Partial<Record<StandardEmissionFactorImportField, string>> = {}
+    for (const [field, value] of Object.entries(defaults)) {
+      if (!fields.includes(field)) {
+        throw new StandardEmissionFactorImportValidationError(`Unknown default field "${field}"`, 'defaults')
+      }
+      if (value !== undefined && value !== null && String(value).trim() !== '') {
+        result[field as StandardEmissionFactorImportField] = String(value).trim()
+      }
+    }
+    return result
+  }
+
+  /**
+   * Convert one source row to factor fields, collecting errors and warnings
+   */
+  private buildRow(
+    rowNumber: number,
+    values: Record<string, string>,
+    columnMapping: Record<string, StandardEmissionFactorImportField>,
+    defaults: Partial<Record<StandardEmissionFactorImportField, string>>,
+    reference: ReferenceData,
+    createMissingUnits: boolean,
+    missingUnits: Map<string, string>
+  ): PendingRow {
+    const row: StandardEmissionFactorImportRow = { rowNumber, status: 'valid', fields: {}, errors: [], warnings: [] }
+    const pendingUnits: PendingRow['pendingUnits'] = []
+    const fields = row.fields as Record<string, any>
+
+    const raw: Partial<Record<StandardEmissionFactorImportField, string>> = { ...defaults }
+    for (const [column, field] of Object.entries(columnMapping)) {
+      if (values[column]) raw[field] = values[column]
+    }
+
+    for (const [field, value] of Object.entries(raw) as Array<[StandardEmissionFactorImportField, string]>) {
+      if (STANDARD_EMISSION_FACTOR_IMPORT_LINK_FIELDS.includes(field)) {
+        const lookup = reference[LINK_REFERENCE[field]]
+        const id = RECORD_ID.test(value) && lookup.ids.has(value) ? value : lookup.byLabel.get(value.toLowerCase())
+        if (id) {
+          fields[field] = [id]
+        } else if (UNIT_FIELDS.includes(field) && createMissingUnits) {
+          missingUnits.set(value.toLowerCase(), missingUnits.get(value.toLowerCase()) || value)
+          pendingUnits.push({ field, name: value })
+          row.warnings.push({ field, message: `Unit "${value}" does not exist and will be created` })
+        } else {
+          if (UNIT_FIELDS.includes(field)) {
+            missingUnits.set(value.toLowerCase(), missingUnits.get(value.toLowerCase()) || value)
+          }
+          row.errors.push({ field, message: `${field} "${value}" not found` })
+        }
+      } else if (field === 'Emission Factor (CO2e)') {
+        const number = this.parseNumber(value)
+        if (number === undefined) {
+          row.errors.push({ field, message: `"${value}" is not a number` })
+        } else {
+          fields[field] = number
+          if (number < 0) row.warnings.push({ field, message: 'Negative emission factor' })
+        }
+      } else if (field === 'Publication Date') {
+        const date = this.parseDate(value)
+        if (date) fields[field] = date
+        else row.errors.push({ field, message: `"${value}" is not a valid date` })
+      } else if (SELECT_OPTIONS[field]) {
+        const option = SELECT_OPTIONS[field]!.find(o => o.toLowerCase() === value.toLowerCase())
+        if (option) fields[field] = option
+        else row.errors.push({ field, message: `"${value}" is not one of ${SELECT_OPTIONS[field]!.join(', ')}` })
+      } else {
+        fields[field] = value
+      }
+    }
+
+    for (const field of REQUIRED_FIELDS) {
+      if (!raw[field]) {
+        row.errors.push({ field, message: `${field} is required` })
+      }
+    }
+
+    if (row.errors.length > 0) {
+      row.status = 'invalid'
+    }
+    return { row, pendingUnits }
+  }
+
+  /**
+   * Warn about rows describing the same factor as an earlier row of the file
+   */
+  private flagDuplicates(pending: PendingRow[]): void {
+    const seen = new Map<string, number>()
+    pending.forEach(({ row, pendingUnits }) => {
+      if (row.status === 'invalid') return
+      const fields = row.fields as Record<string, any>
+      const unit = fields['Source UOM']?.[0] || pendingUnits.find(p => p.field === 'Source UOM')?.name.toLowerCase()
+      const key = [
+        fields['Normalized activity']?.[0],
+        fields['Geography']?.[0],
+        unit,
+        fields['Version']?.[0],
+        fields['Scope']?.[0],
+      ].join('|')
+      const first = seen.get(key)
+      if (first !== undefined) {
+        row.warnings.push({ message: `Same activity, geography, unit, version and scope as row ${first}` })
+      } else {
+        seen.set(key, row.rowNumber)
+      }
+    })
+  }
+
+  /**
+   * Create missing units, then write valid rows in Airtable-sized batches.
+   * A failed batch marks its rows failed and the import continues.
+   */
+  private async write(
+    pending: PendingRow[],
+    missingUnits: Map<string, string>,
+    report: StandardEmissionFactorImportReport
+  ): Promise<void> {
+    const toWrite = pending.filter(p => p.row.status === 'valid')
+
+    const neededUnits = new Set(toWrite.flatMap(p => p.pendingUnits.map(u => u.name.toLowerCase())))
+    const createdUnitIds = new Map<string, string>()
+    for (const key of neededUnits) {
+      const name = missingUnits.get(key) || key
+      try {
+        const unit = await this.unitService.create({ Name: name, Status: 'Active' })
+        createdUnitIds.set(key, unit.id)
+        report.createdUnits.push({ id: unit.id, name })
+      } catch (error: any) {
+        console.error(`Failed to create Unit "${name}":`, error)
+      }
+    }
+
+    const ready: PendingRow[] = []
+    for (const p of toWrite) {
+      const fields = p.row.fields as Record<string, any>
+      const uncreated = p.pendingUnits.filter(u => !createdUnitIds.has(u.name.toLowerCase()))
+      if (uncreated.length > 0) {
+        p.row.status = 'failed'
+        p.row.errors.push(...uncreated.map(u => ({ field: u.field, message: `Unit "${u.name}" could not be created` })))
+        continue
+      }
+      p.pendingUnits.forEach(u => { fields[u.field] = [createdUnitIds.get(u.name.toLowerCase())] })
+      ready.push(p)
+    }
+
+    for (let i = 0; i < ready.length; i += 10) {
+      const batch = ready.slice(i, i + 10)
+      try {
+        const ids = await this.factorService.createMany(batch.map(p => p.row.fields as CreateStandardEmissionFactorDto))
+        batch.forEach((p, index) => {
+          p.row.status = 'created'
+          p.row.id = ids[index]
+        })
+      } catch (error: any) {
+        batch.forEach(p => {
+          p.row.status = 'failed'
+          p.row.errors.push({ message: error.message })
+        })
+      }
+    }
+
+    if (report.createdUnits.length > 0) {
+      getUnitConversionGraphService().clearCache()
+    }
+    if (ready.length > 0) {
+      getEmissionFactorResolutionService().clearCache()
+    }
+    console.log(`📥 Imported ${ready.filter(p => p.row.status === 'created').length}/${pending.length} Standard Emission Factors`)
+  }
+
+  /** "1,234.5" / "1 234.5" / "1.2E-3" -> number */
+  private parseNumber(value: string): number | undefined {
+    const cleaned = value.replace(/[\s,]/g, '')
+    if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return undefined
+    const number = Number(cleaned)
+    return Number.isFinite(number) ? number : undefined
+  }
+
+  /** YYYY-MM-DD, any Date.parse format, or an Excel serial day number */
+  private parseDate(value: string): string | undefined {
+    if (/^\d+(\.\d+)?$/.test(value) && Number(value) > 59 && Number(value) < 2958466) {
+      return excelSerialToIsoDate(Number(value))
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return isNaN(Date.parse(value)) ? undefined : value
+    }
+    const time = Date.parse(value)
+    if (isNaN(time)) return undefined
+    const date = new Date(time)
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+  }
+
+  /**
+   * Load linked tables once per import so names resolve against current data
+   */
+  private async getReferenceData(): Promise<ReferenceData> {
+    const [units, scopes, activities, versions, geographies] = await Promise.all([
+      this.unitService.getAll({}),
+      this.scopeService.getAll({}),
+      this.activityService.getAll({}),
+      this.versionService.findAll(),
+      this.geographyService.findAll(),
+    ])
+
+    const buildLookup = (records: any[], labelFields: string[]): LinkLookup => {
+      const lookup: LinkLookup = { ids: new Set(), byLabel: new Map() }
+      // Earlier label fields win when labels collide
+      for (const labelField of [...labelFields].reverse()) {
+        records.forEach(record => {
+          const label = record[labelField]
+          if (label) lookup.byLabel.set(String(label).trim().toLowerCase(), record.id)
+        })
+      }
+      records.forEach(record => lookup.ids.add(record.id))
+      return lookup
+    }
+
+    return {
+      units: buildLookup(units.data, ['Name', 'Symbol']),
+      scopes: buildLookup(scopes.data, ['Name']),
+      activities: buildLookup(activities.data, ['Name']),
+      versions: buildLookup(versions, ['Name']),
+      geographies: buildLookup(geographies, ['Name', 'CODE']),
+    }
+  }
+}
+
+// Lazy singleton instance
+let standardEmissionFactorImportServiceInstance: StandardEmissionFactorImportService | null = null
+
+export const getStandardEmissionFactorImportService = (): StandardEmissionFactorImportService => {
+  if (!standardEmissionFactorImportServiceInstance) {
+    standardEmissionFactorImportServiceInstance = new StandardEmissionFactorImportService()
+  }
+  return standardEmissionFactorImportServiceInstance
+}
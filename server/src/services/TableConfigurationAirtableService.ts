@@ -1,4 +1,6 @@
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { formulaEquals } from '../database/filters/AirtableFormula'
 import { TableSchema, TableField, UpdateTableSchemaDto } from '../types/TableSchema'
 
 /**
@@ -32,8 +34,7 @@ export class TableConfigurationAirtableService {
     this.configTableName = process.env.AIRTABLE_CONFIG_TABLE_NAME || 
                           'Table Configuration'
     
-    Airtable.configure({ apiKey: this.apiKey })
-    this.base = Airtable.base(this.baseId)
+    this.base = getAirtableBase(this.baseId, this.apiKey)
     
     // Log configuration for debugging
     console.log('TableConfigurationAirtableService initialized:')
@@ -257,7 +258,7 @@ export class TableConfigurationAirtableService {
       console.log(`Looking for records where Table Name = "${decodedTableName}"`)
       const records = await this.base(this.configTableName)
         .select({
-          filterByFormula: `{Table Name} = '${decodedTableName.replace(/'/g, "\\'")}'`,
+          filterByFormula: formulaEquals('Table Name', decodedTableName),
         })
         .all()
       console.log(`Found ${records.length} configuration record(s)`)
@@ -416,7 +417,7 @@ export class TableConfigurationAirtableService {
       console.log(`Table Name in record: "${decodedTableName}"`)
       const existingRecords = await this.base(this.configTableName)
         .select({
-          filterByFormula: `{Table Name} = '${decodedTableName.replace(/'/g, "\\'")}'`,
+          filterByFormula: formulaEquals('Table Name', decodedTableName),
         })
         .all()
       console.log(`Found ${existingRecords.length} existing record(s) for this table`)
@@ -346,6 +346,7 @@ export class TableCreationService {
     const tableNameVar = this.toCamelCase(options.tableName) + 'TableName'
 
     return `import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
 import { RelationshipResolver } from './RelationshipResolver'
 
 /**
@@ -371,8 +372,7 @@ export class ${className} {
     
     this.tableName = '${options.tableName}'
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
     this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
   }
 
@@ -496,9 +496,9 @@ export default router
     const routePattern = new RegExp(`app\\.use\\(['"]/api/${apiPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}['"]`, 'i')
     if (!routePattern.test(indexContent)) {
       console.log(`   📝 Adding route registration for /api/${apiPath}...`)
-      // Add route registration before developerRoutes
-      const routeLine = `app.use('/api/${apiPath}', ${routeImportName})\n`
-      const developerRouteIndex = indexContent.indexOf("app.use('/api/developer', developerRoutes)")
+      // Add route registration before developerRoutes, behind the permission check of the entity
+      const routeLine = `app.use('/api/${apiPath}', requirePermission('${apiPath}'), ${routeImportName})\n`
+      const developerRouteIndex = indexContent.indexOf("app.use('/api/developer', requirePermission('developer'), developerRoutes)")
       if (developerRouteIndex > -1) {
         indexContent = indexContent.slice(0, developerRouteIndex) + routeLine + indexContent.slice(developerRouteIndex)
       } else {
@@ -1,4 +1,6 @@
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { formulaEquals } from '../database/filters/AirtableFormula'
 import * as fs from 'fs'
 import * as path from 'path'
 import { TableSchema, TableField, CreateTableFieldDto, UpdateTableFieldDto } from '../types/TableSchema'
@@ -34,8 +36,7 @@ export class TableSchemaAirtableService {
     this.schemaTableName = process.env.AIRTABLE_SCHEMA_TABLE_NAME || 
                           'Table Schemas'
     
-    Airtable.configure({ apiKey: this.apiKey })
-    this.base = Airtable.base(this.baseId)
+    this.base = getAirtableBase(this.baseId, this.apiKey)
 
     // Initialize table mapping
     this.initializeTableMapping()
@@ -162,7 +163,7 @@ export class TableSchemaAirtableService {
     try {
       const records = await this.base(this.schemaTableName)
         .select({
-          filterByFormula: `{Table ID} = '${tableId}'`,
+          filterByFormula: formulaEquals('Table ID', tableId),
           maxRecords: 1,
         })
         .all()
@@ -263,7 +264,7 @@ export class TableSchemaAirtableService {
         // Update existing
         const records = await this.base(this.schemaTableName)
           .select({
-            filterByFormula: `{Table ID} = '${schema.tableId}'`,
+            filterByFormula: formulaEquals('Table ID', schema.tableId),
             maxRecords: 1,
           })
           .all()
@@ -1,5 +1,8 @@
 import Airtable from 'airtable'
-import { UnitConversion, CreateUnitConversionDto, UpdateUnitConversionDto } from '../types/UnitConversion'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, eqFilter, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
+import { UnitConversion, CreateUnitConversionDto, UpdateUnitConversionDto, ActivityDensity } from '../types/UnitConversion'
 import { RelationshipResolver } from './RelationshipResolver'
 
 /**
@@ -25,8 +28,7 @@ export class UnitConversionAirtableService {
                      process.env.AIRTABLE_UNIT_CONVERSION_TABLE_NAME || 
                      'Unit Conversion'
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
     this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
     
     console.log(`🌿 UnitConversionAirtableService initialized:`)
@@ -41,28 +43,17 @@ export class UnitConversionAirtableService {
     sortOrder?: 'asc' | 'desc'
     search?: string
     status?: string
+    filter?: FilterNode
   }): Promise<{ data: UnitConversion[]; total: number }> {
     try {
-      let formula = ''
-      const conditions: string[] = []
-
-      if (params.status) {
-        conditions.push(`{Status} = "${params.status}"`)
-      }
-
-      if (params.search) {
-        const searchTerm = params.search.trim().replace(/"/g, '\\"')
-        conditions.push(`OR(
-          FIND("${searchTerm}", LOWER({Name})) > 0,
-          FIND("${searchTerm}", LOWER({Description})) > 0,
-          FIND("${searchTerm}", LOWER({Unit to convert})) > 0,
-          FIND("${searchTerm}", LOWER({Normalized unit})) > 0
-        )`)
-      }
-
-      if (conditions.length > 0) {
-        formula = `AND(${conditions.join(', ')})`
-      }
+      const filter = allOf(
+        params.status ? eqFilter('Status', params.status) : undefined,
+        searchFilter(['Name', 'Description', 'Unit to convert', 'Normalized unit'], params.search),
+        params.filter
+      )
+      const formula = filter
+        ? compileAirtableFormula(filter, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : ''
 
       const selectOptions: Airtable.SelectOptions<any> = {
         // Explicitly include all fields that exist in Airtable
@@ -172,6 +163,99 @@ export class UnitConversionAirtableService {
     }
   }
 
+  /**
+   * Get every conversion that is not marked Inactive, with unit names batch-resolved
+   * Used by the calculation engine, which needs the whole table in memory
+   */
+  async getAllActive(): Promise<UnitConversion[]> {
+    try {
+      const records: readonly Airtable.Record<any>[] = await this.base(this.tableName).select({}).all()
+      const activeRecords = records.filter(record => record.fields['Status'] !== 'Inactive')
+
+      // Collect all unit IDs first so names resolve in one request per table
+      const unitIds = new Set<string>()
+      const densityIds = new Set<string>()
+      const collectIds = (ids: string | string[] | undefined, target: Set<string>) => {
+        if (!ids) return
+        const idArray = Array.isArray(ids) ? ids : [ids]
+        idArray.forEach(id => target.add(id))
+      }
+      activeRecords.forEach(record => {
+        collectIds(record.fields['Unit to convert'], unitIds)
+        collectIds(record.fields['Normalized unit'], unitIds)
+        collectIds(record.fields['Activity Density'], densityIds)
+      })
+
+      const [units, densities] = await Promise.all([
+        unitIds.size > 0
+          ? this.relationshipResolver.resolveLinkedRecords(Array.from(unitIds), 'Unit', 'Name')
+          : Promise.resolve([]),
+        densityIds.size > 0
+          ? this.relationshipResolver.resolveLinkedRecords(Array.from(densityIds), 'Activity Density', 'Name')
+          : Promise.resolve([]),
+      ])
+      const unitNames = new Map(units.map(r => [r.id, r.name]))
+      const densityNames = new Map(densities.map(r => [r.id, r.name]))
+      const resolveNames = (ids: string | string[] | undefined, names: Map<string, string>): string[] => {
+        if (!ids) return []
+        return (Array.isArray(ids) ? ids : [ids]).map(id => names.get(id) || id)
+      }
+
+      return activeRecords.map(record => {
+        const fields = record.fields
+        return {
+          id: record.id,
+          Name: fields['Name'] || '',
+          'Unit to convert': fields['Unit to convert'] || undefined,
+          'Unit to convert Name': resolveNames(fields['Unit to convert'], unitNames),
+          'Dimension (from Unit to convert)': Array.isArray(fields['Dimension (from Unit to convert)'])
+            ? fields['Dimension (from Unit to convert)'].join(', ')
+            : (fields['Dimension (from Unit to convert)'] || undefined),
+          'Normalized unit': fields['Normalized unit'] || undefined,
+          'Normalized unit Name': resolveNames(fields['Normalized unit'], unitNames),
+          'Dimension (from Normalized unit)': Array.isArray(fields['Dimension (from Normalized unit)'])
+            ? fields['Dimension (from Normalized unit)'].join(', ')
+            : (fields['Dimension (from Normalized unit)'] || undefined),
+          Value: fields['Value'] !== undefined && fields['Value'] !== null ? Number(fields['Value']) : undefined,
+          'Conversion value': fields['Conversion value'] !== undefined && fields['Conversion value'] !== null ? Number(fields['Conversion value']) : undefined,
+          Type: fields['Type'] || undefined,
+          'Activity Density': fields['Activity Density'] || undefined,
+          'Activity Density Name': resolveNames(fields['Activity Density'], densityNames),
+          Status: fields['Status'] || undefined,
+        }
+      })
+    } catch (error: any) {
+      console.error('Error fetching active Unit Conversions:', error)
+      throw new Error(`Failed to fetch active Unit Conversions: ${error.message}`)
+    }
+  }
+
+  /**
+   * Get all Activity Density records
+   * Used by the conversion graph for mass/volume conversions
+   */
+  async getActivityDensities(): Promise<ActivityDensity[]> {
+    try {
+      const tableName = process.env.AIRTABLE_ACTIVITY_DENSITY_TABLE_ID ||
+                        process.env.AIRTABLE_ACTIVITY_DENSITY_TABLE_NAME ||
+                        'Activity Density'
+      const records: readonly Airtable.Record<any>[] = await this.base(tableName).select({}).all()
+
+      return records.map(record => ({
+        id: record.id,
+        Name: record.fields['Name'] || '',
+        'Unit Conversion': record.fields['Unit Conversion'] || undefined,
+        'Conversion factor': record.fields['Conversion factor'] !== undefined && record.fields['Conversion factor'] !== null
+          ? Number(record.fields['Conversion factor'])
+          : undefined,
+        Description: record.fields['Description'] || undefined,
+      }))
+    } catch (error: any) {
+      console.error('Error fetching Activity Densities:', error)
+      throw new Error(`Failed to fetch Activity Densities: ${error.message}`)
+    }
+  }
+
   async getFilterValues(field: string, limit: number = 1000): Promise<string[]> {
     try {
       const airtableFieldName = this.mapFieldNameToAirtable(field)
@@ -0,0 +1,57 @@
+/**
+ * Unit Conversion Entity Service
+ *
+ * Unit Conversion table (unit_conversions) over the entity repository of the
+ * configured database (PostgreSQL, local file or in-memory).
+ * Same interface as UnitConversionAirtableService, including the Activity Density
+ * lookups used by the conversion graph.
+ */
+
+import { UnitConversion, CreateUnitConversionDto, UpdateUnitConversionDto, ActivityDensity } from '../types/UnitConversion'
+import { EntityCrudService } from '../database/entities/EntityService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { IEntityRepository } from '../database/interfaces/IEntityRepository'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+
+export class UnitConversionEntityService extends EntityCrudService<
+  UnitConversion,
+  CreateUnitConversionDto,
+  UpdateUnitConversionDto
+> {
+  private densityRepository: IEntityRepository<ActivityDensity>
+
+  constructor() {
+    super(DatabaseFactory.getDatabase().getRepository(ENTITY_DESCRIPTORS.unit_conversions))
+    this.densityRepository = DatabaseFactory.getDatabase().getRepository<ActivityDensity>(
+      ENTITY_DESCRIPTORS.activity_densities
+    )
+  }
+
+  /**
+   * Get every conversion that is not marked Inactive
+   * Used by the calculation engine, which needs the whole table in memory
+   */
+  async getAllActive(): Promise<UnitConversion[]> {
+    const records = await this.findAll()
+    return records.filter(record => record.Status !== 'Inactive')
+  }
+
+  /**
+   * Get all Activity Density records
+   * Used by the conversion graph for mass/volume conversions
+   */
+  async getActivityDensities(): Promise<ActivityDensity[]> {
+    const { records } = await this.densityRepository.list()
+    return records
+  }
+}
+
+// Singleton instance
+let unitConversionEntityServiceInstance: UnitConversionEntityService | null = null
+
+export function getUnitConversionEntityService(): UnitConversionEntityService {
+  if (!unitConversionEntityServiceInstance) {
+    unitConversionEntityServiceInstance = new UnitConversionEntityService()
+  }
+  return unitConversionEntityServiceInstance
+}
@@ -0,0 +1,71 @@
+import { UnitConversionGraphService, getUnitConversionGraphService } from './UnitConversionGraphService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+import { UnitDimensionMismatchError, UnitConversionValidationError } from '../types/UnitConversion'
+
+const repository = (table: string) => DatabaseFactory.getDatabase().getRepository<any>(ENTITY_DESCRIPTORS[table])
+
+const create = async (table: string, fields: Record<string, any>): Promise<string> =>
+  (await repository(table).create(fields)).id
+
+describe('UnitConversionGraphService', () => {
+  const units: Record<string, string> = {}
+  let graph: UnitConversionGraphService
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    graph = getUnitConversionGraphService()
+    for (const [name, dimension] of [['litre', 'Volume'], ['ml', 'Volume'], ['kg', 'Mass'], ['g', 'Mass']]) {
+      units[name] = await create('units', { Name: name, Dimension: dimension })
+    }
+    await create('unit_conversions', { Name: 'kg to g', 'Unit to convert': [units.kg], 'Normalized unit': [units.g], Value: 1, 'Conversion value': 1000, Status: 'Active' })
+
+    // Petrol: its conversion has its own ratio, in the kg -> litre direction
+    const petrol = await create('activity_densities', { Name: 'Petrol', 'Conversion factor': 0.74 })
+    await create('unit_conversions', {
+      Name: 'Petrol kg to litre', 'Unit to convert': [units.kg], 'Normalized unit': [units.litre],
+      Value: 1, 'Conversion value': 1.35, Status: 'Active', 'Activity Density': [petrol],
+    })
+    // Diesel: its conversion has no ratio - the density's factor stands in
+    const diesel = await create('activity_densities', { Name: 'Diesel', 'Conversion factor': 0.84 })
+    await create('unit_conversions', {
+      Name: 'Diesel litre to kg', 'Unit to convert': [units.litre], 'Normalized unit': [units.kg],
+      Status: 'Active', 'Activity Density': [diesel],
+    })
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('converts across dimensions with each density conversion in its own direction', async () => {
+    const petrol = await graph.convert({ value: 2.7, from: 'litre', to: 'g', activityDensity: 'Petrol' })
+    expect(petrol.result).toBeCloseTo(2000)
+    expect(petrol.path.map(step => [step.from.name, step.to.name, step.inverted])).toEqual([
+      ['litre', 'kg', true],
+      ['kg', 'g', false],
+    ])
+
+    const diesel = await graph.convert({ value: 10, from: 'litre', to: 'kg', activityDensity: 'diesel' })
+    expect(diesel.result).toBeCloseTo(8.4)
+    expect((await graph.convert({ value: 8.4, from: 'kg', to: 'litre', activityDensity: 'Diesel' })).result).toBeCloseTo(10)
+  })
+
+  it('refuses other dimensions without a density, and unknown units', async () => {
+    await expect(graph.convert({ value: 1, from: 'litre', to: 'kg' })).rejects.toThrow(UnitDimensionMismatchError)
+    await expect(graph.convert({ value: 1, from: 'gallon', to: 'kg' })).rejects.toMatchObject({ field: 'from' })
+    await expect(graph.convert({ value: Number.NaN, from: 'kg', to: 'g' })).rejects.toThrow(UnitConversionValidationError)
+    expect(await graph.findPath(units.litre, units.kg)).toBeNull()
+  })
+
+  it('rebuilds the graph after a write to its units or conversions', async () => {
+    await expect(graph.convert({ value: 1, from: 'litre', to: 'ml' })).rejects.toThrow('No conversion path from litre to ml')
+
+    await create('unit_conversions', { Name: 'litre to ml', 'Unit to convert': [units.litre], 'Normalized unit': [units.ml], Value: 1, 'Conversion value': 1000, Status: 'Active' })
+    expect((await graph.convert({ value: 2, from: 'litre', to: 'ml' })).result).toBe(2000)
+
+    await repository('units').update(units.ml, { Dimension: 'Mass' })
+    await expect(graph.convert({ value: 2, from: 'litre', to: 'ml' })).rejects.toThrow(UnitDimensionMismatchError)
+  })
+})
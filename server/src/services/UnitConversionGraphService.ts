@@ -0,0 +1,354 @@
+/**
+ * Unit Conversion Graph Service
+ *
+ * Builds a graph of units from every active Unit Conversion record and finds the
+ * shortest chain of conversions between two units (e.g. MMBtu → GJ → kWh).
+ *
+ * - Global conversions are usable in both directions
+ * - Conversions between units of different Dimensions are refused, unless an
+ *   Activity Density is supplied: its conversions (e.g. Diesel litre → kg) are
+ *   then added to the graph, each with its own ratio, or the density's Conversion
+ *   factor when it has none
+ *
+ * The graph is cached, and cleared by any write to the units, conversions or densities
+ * (response cache invalidations), whoever makes it.
+ */
+
+import {
+  getUnitConversionService,
+  UnitConversionService,
+  getUnitService,
+  UnitService,
+} from '../database/EntityServiceFactory'
+import { Unit } from '../types/Unit'
+import {
+  UnitConversion,
+  ActivityDensity,
+  ConvertUnitsInput,
+  ConvertUnitsResult,
+  ConvertedUnitRef,
+  UnitConversionValidationError,
+  UnitDimensionMismatchError,
+  UnitConversionPathError,
+} from '../types/UnitConversion'
+import { ConversionStep } from '../types/Calculation'
+import { airtableCacheTag, entityCacheTag, onCacheInvalidation } from '../database/cache/ResponseCache'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+import { getAirtableTableName } from '../database/repositories/AirtableEntityRepository'
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value
+
+const toArray = (value: string | string[] | undefined): string[] =>
+  Array.isArray(value) ? value : value ? [value] : []
+
+/** Tables the graph is built from */
+const GRAPH_TABLES = ['units', 'unit_conversions', 'activity_densities']
+
+const graphCacheTags = (): Set<string> => new Set(GRAPH_TABLES.flatMap(table => [
+  entityCacheTag(table),
+  airtableCacheTag(getAirtableTableName(ENTITY_DESCRIPTORS[table])),
+]))
+
+interface Edge {
+  to: string
+  step: ConversionStep
+}
+
+interface ConversionGraph {
+  units: Map<string, Unit>
+  /** Lower-cased unit name / symbol -> unit ID */
+  unitIdByLabel: Map<string, string>
+  /** Edges from global conversions, keyed by source unit ID */
+  edges: Map<string, Edge[]>
+  conversionsById: Map<string, UnitConversion>
+  densities: ActivityDensity[]
+}
+
+export class UnitConversionGraphService {
+  private conversionService: UnitConversionService
+  private unitService: UnitService
+  private graphCache: { data: ConversionGraph; timestamp: number } | null = null
+  private readonly GRAPH_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+  constructor() {
+    this.conversionService = getUnitConversionService()
+    this.unitService = getUnitService()
+
+    const tags = graphCacheTags()
+    onCacheInvalidation(invalidated => {
+      if (invalidated.some(tag => tags.has(tag))) {
+        this.clearCache()
+      }
+    })
+  }
+
+  /**
+   * Convert a value between two units
+   */
+  async convert(input: ConvertUnitsInput): Promise<ConvertUnitsResult> {
+    if (typeof input.value !== 'number' || !Number.isFinite(input.value)) {
+      throw new UnitConversionValidationError('value must be a number', 'value')
+    }
+
+    const graph = await this.getGraph()
+    const from = this.resolveUnit(graph, input.from, 'from')
+    const to = this.resolveUnit(graph, input.to, 'to')
+    const density = input.activityDensity ? this.resolveDensity(graph, input.activityDensity) : undefined
+
+    if (!density && this.dimensionsDiffer(from, to)) {
+      throw new UnitDimensionMismatchError(
+        `Cannot convert ${from.Dimension} (${from.Name}) to ${to.Dimension} (${to.Name}) without an activity density`,
+        from.Dimension,
+        to.Dimension
+      )
+    }
+
+    const path = this.search(graph, from.id, to.id, density)
+    if (!path) {
+      throw new UnitConversionPathError(
+        `No conversion path from ${from.Name || from.id} to ${to.Name || to.id}` +
+        (density ? ` using activity density ${density.Name || density.id}` : '')
+      )
+    }
+
+    const factor = path.reduce((product, step) => product * step.factor, 1)
+
+    return {
+      value: input.value,
+      from: this.toRef(from),
+      to: this.toRef(to),
+      result: input.value * factor,
+      factor,
+      activityDensity: density ? { id: density.id, name: density.Name } : undefined,
+      path,
+    }
+  }
+
+  /**
+   * Find the conversion steps between two unit IDs.
+   * Returns an empty array when the units match and null when no path exists
+   * or the units belong to different dimensions.
+   */
+  async findPath(fromUnitId: string, toUnitId: string): Promise<ConversionStep[] | null> {
+    if (fromUnitId === toUnitId) {
+      return []
+    }
+    const graph = await this.getGraph()
+    const from = graph.units.get(fromUnitId)
+    const to = graph.units.get(toUnitId)
+    if (from && to && this.dimensionsDiffer(from, to)) {
+      return null
+    }
+    return this.search(graph, fromUnitId, toUnitId)
+  }
+
+  /**
+   * Clear the cached graph - done on every write to its tables
+   */
+  clearCache(): void {
+    this.graphCache = null
+  }
+
+  /**
+   * Breadth-first search - fewest hops wins
+   */
+  private search(graph: ConversionGraph, fromId: string, toId: string, density?: ActivityDensity): ConversionStep[] | null {
+    if (fromId === toId) {
+      return []
+    }
+
+    const densityEdges = density ? this.buildDensityEdges(graph, density) : new Map<string, Edge[]>()
+    const previous = new Map<string, { from: string; step: ConversionStep }>()
+    const visited = new Set<string>([fromId])
+    const queue: string[] = [fromId]
+
+    while (queue.length > 0) {
+      const current = queue.shift() as string
+      const edges = [...(graph.edges.get(current) || []), ...(densityEdges.get(current) || [])]
+
+      for (const edge of edges) {
+        if (visited.has(edge.to)) continue
+        visited.add(edge.to)
+        previous.set(edge.to, { from: current, step: edge.step })
+
+        if (edge.to === toId) {
+          const steps: ConversionStep[] = []
+          let node = toId
+          while (node !== fromId) {
+            const link = previous.get(node)!
+            steps.unshift(link.step)
+            node = link.from
+          }
+          return steps
+        }
+        queue.push(edge.to)
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Edges contributed by an Activity Density: its linked conversions, each from its own
+   * Unit to convert to its Normalized unit with its own ratio - the density's Conversion
+   * factor stands in for the ratio of a conversion that has none
+   */
+  private buildDensityEdges(graph: ConversionGraph, density: ActivityDensity): Map<string, Edge[]> {
+    const edges = new Map<string, Edge[]>()
+    const conversionIds = new Set(toArray(density['Unit Conversion']))
+    graph.conversionsById.forEach(conversion => {
+      if (toArray(conversion['Activity Density']).includes(density.id)) {
+        conversionIds.add(conversion.id)
+      }
+    })
+
+    conversionIds.forEach(conversionId => {
+      const conversion = graph.conversionsById.get(conversionId)
+      if (!conversion) return
+      const densityFactor = typeof density['Conversion factor'] === 'number' && density['Conversion factor'] > 0
+        ? density['Conversion factor']
+        : null
+      const ratio = this.getRatio(conversion) || densityFactor
+      if (!ratio) return
+      this.addEdges(edges, graph, conversion, ratio, { id: density.id, name: density.Name })
+    })
+
+    return edges
+  }
+
+  private addEdges(
+    edges: Map<string, Edge[]>,
+    graph: ConversionGraph,
+    conversion: UnitConversion,
+    ratio: number,
+    activityDensity?: { id: string; name?: string }
+  ): void {
+    const unitToConvert = firstValue(conversion['Unit to convert']) as string
+    const normalizedUnit = firstValue(conversion['Normalized unit']) as string
+    const fromRef = { id: unitToConvert, name: firstValue(conversion['Unit to convert Name']) || graph.units.get(unitToConvert)?.Name }
+    const toRef = { id: normalizedUnit, name: firstValue(conversion['Normalized unit Name']) || graph.units.get(normalizedUnit)?.Name }
+    const base = { conversionId: conversion.id, conversionName: conversion.Name, activityDensity }
+
+    const push = (from: string, edge: Edge) => {
+      if (!edges.has(from)) {
+        edges.set(from, [])
+      }
+      edges.get(from)!.push(edge)
+    }
+    push(unitToConvert, { to: normalizedUnit, step: { ...base, from: fromRef, to: toRef, factor: ratio, inverted: false } })
+    push(normalizedUnit, { to: unitToConvert, step: { ...base, from: toRef, to: fromRef, factor: 1 / ratio, inverted: true } })
+  }
+
+  /**
+   * "Value" units of Unit to convert equal "Conversion value" units of Normalized unit
+   */
+  private getRatio(conversion: UnitConversion): number | null {
+    const conversionValue = conversion['Conversion value']
+    if (!conversionValue) return null
+    return conversionValue / (conversion.Value || 1)
+  }
+
+  private isActivitySpecific(conversion: UnitConversion): boolean {
+    return toArray(conversion['Activity Density']).length > 0 || /activity/i.test(conversion.Type || '')
+  }
+
+  private dimensionsDiffer(from: Unit, to: Unit): boolean {
+    return !!from.Dimension && !!to.Dimension && from.Dimension !== to.Dimension
+  }
+
+  private resolveUnit(graph: ConversionGraph, value: string, field: 'from' | 'to'): Unit {
+    if (!value || String(value).trim() === '') {
+      throw new UnitConversionValidationError(`${field} is required`, field)
+    }
+    const key = String(value).trim()
+    const unitId = graph.units.has(key) ? key : graph.unitIdByLabel.get(key.toLowerCase())
+    const unit = unitId ? graph.units.get(unitId) : undefined
+    if (!unit) {
+      throw new UnitConversionValidationError(`Unit not found: ${value}`, field)
+    }
+    return unit
+  }
+
+  private resolveDensity(graph: ConversionGraph, value: string): ActivityDensity {
+    const key = String(value).trim().toLowerCase()
+    const density = graph.densities.find(d => d.id.toLowerCase() === key || (d.Name || '').toLowerCase() === key)
+    if (!density) {
+      throw new UnitConversionValidationError(`Activity density not found: ${value}`, 'activityDensity')
+    }
+    return density
+  }
+
+  private toRef(unit: Unit): ConvertedUnitRef {
+    return { id: unit.id, name: unit.Name, dimension: unit.Dimension }
+  }
+
+  /**
+   * Build (or reuse) the graph of global conversions
+   */
+  private async getGraph(): Promise<ConversionGraph> {
+    const now = Date.now()
+    if (this.graphCache && now - this.graphCache.timestamp < this.GRAPH_CACHE_TTL) {
+      return this.graphCache.data
+    }
+
+    const [conversions, unitResult, densities] = await Promise.all([
+      this.conversionService.getAllActive(),
+      this.unitService.getAll({}),
+      this.conversionService.getActivityDensities().catch(error => {
+        // The density table is optional - without it only same-dimension conversions are possible
+        console.warn('Activity Density table unavailable:', error?.message || error)
+        return [] as ActivityDensity[]
+      }),
+    ])
+
+    const graph: ConversionGraph = {
+      units: new Map(),
+      unitIdByLabel: new Map(),
+      edges: new Map(),
+      conversionsById: new Map(),
+      densities,
+    }
+
+    unitResult.data.forEach(unit => {
+      graph.units.set(unit.id, unit)
+      if (unit.Name) graph.unitIdByLabel.set(unit.Name.toLowerCase(), unit.id)
+      if (unit.Symbol && !graph.unitIdByLabel.has(unit.Symbol.toLowerCase())) {
+        graph.unitIdByLabel.set(unit.Symbol.toLowerCase(), unit.id)
+      }
+    })
+
+    conversions.forEach(conversion => {
+      const unitToConvert = firstValue(conversion['Unit to convert'])
+      const normalizedUnit = firstValue(conversion['Normalized unit'])
+      if (!unitToConvert || !normalizedUnit) return
+      graph.conversionsById.set(conversion.id, conversion)
+
+      // Activity-specific conversions only apply when their density is requested
+      if (this.isActivitySpecific(conversion)) return
+      const ratio = this.getRatio(conversion)
+      if (!ratio) return
+
+      const from = graph.units.get(unitToConvert)
+      const to = graph.units.get(normalizedUnit)
+      if (from && to && this.dimensionsDiffer(from, to)) {
+        console.warn(`Skipping Unit Conversion ${conversion.Name || conversion.id}: ${from.Dimension} → ${to.Dimension} needs an activity density`)
+        return
+      }
+      this.addEdges(graph.edges, graph, conversion, ratio)
+    })
+
+    this.graphCache = { data: graph, timestamp: now }
+    return graph
+  }
+}
+
+// Lazy singleton instance
+let unitConversionGraphServiceInstance: UnitConversionGraphService | null = null
+
+export const getUnitConversionGraphService = (): UnitConversionGraphService => {
+  if (!unitConversionGraphServiceInstance) {
+    unitConversionGraphServiceInstance = new UnitConversionGraphService()
+  }
+  return unitConversionGraphServiceInstance
+}
@@ -1,4 +1,5 @@
 import Airtable from 'airtable'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
 import { RelationshipResolver } from './RelationshipResolver'
 
 /**
@@ -24,8 +25,7 @@ export class UserPreferenceAirtableService {
     
     this.tableName = 'User Preference'
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
     this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
   }
 
@@ -1,6 +1,9 @@
 import Airtable from 'airtable'
-import * as fs from 'fs'
-import * as path from 'path'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, filtersToFilterNode, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula } from '../database/filters/AirtableFormula'
+import { registerAirtableCounts } from '../database/airtable/AirtableRecordCounts'
+import { getRecordCountService } from '../database/counts/RecordCountService'
 
 /**
  * User Roles Airtable Service
@@ -12,9 +15,7 @@ import * as path from 'path'
 export class UserRolesAirtableService {
   private base: Airtable.Base
   private tableName: string
-  private readonly cacheFilePath: string
-  private totalCountCache: { count: number; timestamp: number } | null = null
-  private readonly COUNT_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+  private countTable: string
   private distinctValuesCache: Map<string, { values: string[]; timestamp: number }> = new Map()
   private readonly DISTINCT_VALUES_CACHE_TTL = 10 * 60 * 1000 // 10 minutes
 
@@ -39,53 +40,8 @@ export class UserRolesAirtableService {
     console.log(`   Table: ${this.tableName}`)
     console.log(`   API Key: ${apiKey ? apiKey.substring(0, 20) + '...' : 'NOT SET'}`)
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
-    
-    // Set cache file path
-    this.cacheFilePath = path.join(__dirname, '../../.cache', 'user-roles-total-count.json')
-    this.loadCacheFromDisk()
-  }
-
-  /**
-   * Load total count cache from disk
-   */
-  private loadCacheFromDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      
-      if (fs.existsSync(this.cacheFilePath)) {
-        const cacheData = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf8'))
-        const age = Date.now() - cacheData.timestamp
-        
-        if (age < 60 * 60 * 1000) {
-          this.totalCountCache = cacheData
-          console.log(`📊 Loaded User Roles total count from disk cache: ${cacheData.count}`)
-        }
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not load User Roles count cache from disk:', error)
-    }
-  }
-
-  /**
-   * Save total count cache to disk
-   */
-  private saveCacheToDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      if (this.totalCountCache) {
-        fs.writeFileSync(this.cacheFilePath, JSON.stringify(this.totalCountCache), 'utf-8')
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not save User Roles count cache to disk:', error)
-    }
+    this.base = getAirtableBase(baseId, apiKey)
+    this.countTable = registerAirtableCounts(baseId, this.base, this.tableName)
   }
 
   /**
@@ -146,7 +102,8 @@ export class UserRolesAirtableService {
     sortBy?: string,
     sortOrder: 'asc' | 'desc' = 'asc',
     filters?: Record<string, any>,
-    search?: string
+    search?: string,
+    filter?: FilterNode
   ): Promise<{ records: any[]; total: number }> {
     try {
       const selectOptions: Airtable.SelectOptions<any> = {
@@ -160,39 +117,10 @@ export class UserRolesAirtableService {
         selectOptions.sort = [{ field: 'Name', direction: 'asc' }]
       }
 
-      // Add search filter
-      if (search && search.trim()) {
-        const searchFormula = `SEARCH("${search.trim()}", {Name})`
-        selectOptions.filterByFormula = searchFormula
-      }
-
-      // Add other filters
-      if (filters && Object.keys(filters).length > 0) {
-        const filterFormulas: string[] = []
-        
-        Object.entries(filters).forEach(([key, value]) => {
-          if (value !== undefined && value !== null && value !== '') {
-            if (Array.isArray(value)) {
-              // Multi-select filter: OR logic
-              const orConditions = value.map((v: any) => `{${key}} = "${v}"`).join(', ')
-              filterFormulas.push(`OR(${orConditions})`)
-            } else {
-              filterFormulas.push(`{${key}} = "${value}"`)
-            }
-          }
-        })
-
-        if (filterFormulas.length > 0) {
-          const combinedFormula = filterFormulas.length > 1 
-            ? `AND(${filterFormulas.join(', ')})` 
-            : filterFormulas[0]
-          
-          if (selectOptions.filterByFormula) {
-            selectOptions.filterByFormula = `AND(${selectOptions.filterByFormula}, ${combinedFormula})`
-          } else {
-            selectOptions.filterByFormula = combinedFormula
-          }
-        }
+      // Add filters (multi-select values: OR logic) and search
+      const filterNode = allOf(filtersToFilterNode(filters), searchFilter(['Name'], search), filter)
+      if (filterNode) {
+        selectOptions.filterByFormula = compileAirtableFormula(filterNode)
       }
 
       console.log(`📥 Fetching paginated User Roles: offset=${offset}, limit=${limit}`)
@@ -284,7 +212,6 @@ export class UserRolesAirtableService {
       })
 
       const record = await this.base(this.tableName).create([{ fields }])
-      this.clearCountCache()
       return this.mapAirtableToUserRole(record[0])
     } catch (error: any) {
       console.error('Error in UserRolesAirtableService.create:', error)
@@ -307,7 +234,6 @@ export class UserRolesAirtableService {
       })
 
       const record = await this.base(this.tableName).update([{ id, fields }])
-      this.clearCountCache()
       return this.mapAirtableToUserRole(record[0])
     } catch (error: any) {
       console.error('Error in UserRolesAirtableService.update:', error)
@@ -321,7 +247,6 @@ export class UserRolesAirtableService {
   async delete(id: string): Promise<void> {
     try {
       await this.base(this.tableName).destroy([id])
-      this.clearCountCache()
     } catch (error: any) {
       console.error('Error in UserRolesAirtableService.delete:', error)
       throw error
@@ -380,82 +305,11 @@ export class UserRolesAirtableService {
   }
 
   /**
-   * Get total count of records (with caching)
+   * Get the exact number of User Roles records matching the filter formula,
+   * kept up to date by the record count service
    */
   private async getTotalCount(filterFormula?: string): Promise<number> {
-    try {
-      // Check cache if no filter
-      if (!filterFormula && this.totalCountCache) {
-        const age = Date.now() - this.totalCountCache.timestamp
-        if (age < this.COUNT_CACHE_TTL) {
-          return this.totalCountCache.count
-        }
-      }
-
-      const selectParams: Airtable.SelectOptions<any> = {
-        maxRecords: 1,
-        pageSize: 1,
-      }
-      
-      if (filterFormula) {
-        selectParams.filterByFormula = filterFormula
-      }
-
-      // Use a small page size to just get the count
-      const records = await this.base(this.tableName)
-        .select(selectParams)
-        .all()
-
-      // For accurate count, we need to fetch all (Airtable limitation)
-      // For now, use estimate based on first page
-      let total = 0
-      if (filterFormula) {
-        // With filter, we need to count manually
-        const countSelectParams: Airtable.SelectOptions<any> = {
-          filterByFormula: filterFormula,
-        }
-        const allRecords = await this.base(this.tableName)
-          .select(countSelectParams)
-          .all()
-        total = allRecords.length
-      } else {
-        // Without filter, use cache or estimate
-        if (this.totalCountCache && Date.now() - this.totalCountCache.timestamp < this.COUNT_CACHE_TTL * 2) {
-          total = this.totalCountCache.count
-        } else {
-          // Fetch all to get accurate count (cache it)
-          const allRecords = await this.base(this.tableName)
-            .select({ maxRecords: 10000 })
-            .all()
-          total = allRecords.length
-          
-          this.totalCountCache = {
-            count: total,
-            timestamp: Date.now(),
-          }
-          this.saveCacheToDisk()
-        }
-      }
-
-      return total
-    } catch (error: any) {
-      console.error('Error in UserRolesAirtableService.getTotalCount:', error)
-      return 0
-    }
-  }
-
-  /**
-   * Clear total count cache
-   */
-  private clearCountCache(): void {
-    this.totalCountCache = null
-    try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        fs.unlinkSync(this.cacheFilePath)
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not delete User Roles count cache file:', error)
-    }
+    return getRecordCountService().getCount(this.countTable, filterFormula || '')
   }
 
   /**
@@ -0,0 +1,29 @@
+/**
+ * User Roles Entity Service
+ * 
+ * User Roles table (user_roles) over the entity repository of the configured
+ * database (PostgreSQL, local file or in-memory).
+ * Same interface as UserRolesAirtableService. Fields without a column
+ * are kept as extra fields.
+ */
+
+import { UserRole, CreateUserRoleDto, UpdateUserRoleDto } from '../types/UserRole'
+import { EntityCrudService } from '../database/entities/EntityService'
+import { DatabaseFactory } from '../database/DatabaseFactory'
+import { ENTITY_DESCRIPTORS } from '../database/entities/descriptors'
+
+export class UserRolesEntityService extends EntityCrudService<UserRole, CreateUserRoleDto, UpdateUserRoleDto> {
+  constructor() {
+    super(DatabaseFactory.getDatabase().getRepository(ENTITY_DESCRIPTORS.user_roles))
+  }
+}
+
+// Singleton instance
+let userRolesEntityServiceInstance: UserRolesEntityService | null = null
+
+export function getUserRolesEntityService(): UserRolesEntityService {
+  if (!userRolesEntityServiceInstance) {
+    userRolesEntityServiceInstance = new UserRolesEntityService()
+  }
+  return userRolesEntityServiceInstance
+}
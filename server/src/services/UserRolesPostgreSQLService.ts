@@ -1,197 +0,0 @@
-/**
- * User Roles PostgreSQL Service
- * 
- * PostgreSQL implementation for User Roles table.
- * This is a stub for future implementation when PostgreSQL is ready.
- * 
- * When implementing:
- * 1. Replace this with actual PostgreSQL queries
- * 2. Use the same interface as UserRolesAirtableService
- * 3. Map database columns to UserRole interface
- * 4. Implement pagination, filtering, and search
- */
-
-import { UserRole, CreateUserRoleDto, UpdateUserRoleDto } from '../types/UserRole'
-
-export class UserRolesPostgreSQLService {
-  constructor() {
-    // TODO: Initialize PostgreSQL connection
-    // Example:
-    // this.pool = new Pool({
-    //   host: process.env.DB_HOST,
-    //   port: parseInt(process.env.DB_PORT || '5432'),
-    //   database: process.env.DB_NAME,
-    //   user: process.env.DB_USER,
-    //   password: process.env.DB_PASSWORD,
-    // })
-    console.log('⚠️  UserRolesPostgreSQLService: PostgreSQL adapter not yet implemented')
-  }
-
-  /**
-   * Get all User Roles records
-   */
-  async findAll(): Promise<UserRole[]> {
-    // TODO: Implement PostgreSQL query
-    // Example:
-    // const result = await this.pool.query('SELECT * FROM user_roles ORDER BY name ASC')
-    // return result.rows.map(row => this.mapPostgreSQLToUserRole(row))
-    throw new Error('PostgreSQL adapter not yet implemented')
-  }
-
-  /**
-   * Get paginated User Roles records with filtering and search
-   */
-  async findPaginated(
-    offset: number = 0,
-    limit: number = 50,
-    sortBy?: string,
-    sortOrder: 'asc' | 'desc' = 'asc',
-    filters?: Record<string, any>,
-    search?: string
-  ): Promise<{ records: UserRole[]; total: number }> {
-    // TODO: Implement PostgreSQL query with pagination, filtering, and search
-    // Example:
-    // let query = 'SELECT * FROM user_roles WHERE 1=1'
-    // const params: any[] = []
-    // let paramIndex = 1
-    // 
-    // if (search) {
-    //   query += ` AND name ILIKE $${paramIndex}`
-    //   params.push(`%${search}%`)
-    //   paramIndex++
-    // }
-    // 
-    // if (filters) {
-    //   Object.entries(filters).forEach(([key, value]) => {
-    //     if (value !== undefined && value !== null) {
-    //       query += ` AND ${key} = $${paramIndex}`
-    //       params.push(value)
-    //       paramIndex++
-    //     }
-    //   })
-    // }
-    // 
-    // if (sortBy) {
-    //   query += ` ORDER BY ${sortBy} ${sortOrder.toUpperCase()}`
-    // } else {
-    //   query += ' ORDER BY name ASC'
-    // }
-    // 
-    // query += ` LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`
-    // params.push(limit, offset)
-    // 
-    // const result = await this.pool.query(query, params)
-    // const totalResult = await this.pool.query('SELECT COUNT(*) FROM user_roles')
-    // 
-    // return {
-    //   records: result.rows.map(row => this.mapPostgreSQLToUserRole(row)),
-    //   total: parseInt(totalResult.rows[0].count),
-    // }
-    throw new Error('PostgreSQL adapter not yet implemented')
-  }
-
-  /**
-   * Get a single User Role by ID
-   */
-  async findById(id: string): Promise<UserRole | null> {
-    // TODO: Implement PostgreSQL query
-    // Example:
-    // const result = await this.pool.query('SELECT * FROM user_roles WHERE id = $1', [id])
-    // if (result.rows.length === 0) return null
-    // return this.mapPostgreSQLToUserRole(result.rows[0])
-    throw new Error('PostgreSQL adapter not yet implemented')
-  }
-
-  /**
-   * Create a new User Role
-   */
-  async create(data: CreateUserRoleDto): Promise<UserRole> {
-    // TODO: Implement PostgreSQL insert
-    // Example:
-    // const result = await this.pool.query(
-    //   'INSERT INTO user_roles (name, description) VALUES ($1, $2) RETURNING *',
-    //   [data.Name, data.Description]
-    // )
-    // return this.mapPostgreSQLToUserRole(result.rows[0])
-    throw new Error('PostgreSQL adapter not yet implemented')
-  }
-
-  /**
-   * Update an existing User Role
-   */
-  async update(id: string, data: UpdateUserRoleDto): Promise<UserRole> {
-    // TODO: Implement PostgreSQL update
-    // Example:
-    // const updates: string[] = []
-    // const values: any[] = []
-    // let paramIndex = 1
-    // 
-    // if (data.Name !== undefined) {
-    //   updates.push(`name = $${paramIndex}`)
-    //   values.push(data.Name)
-    //   paramIndex++
-    // }
-    // if (data.Description !== undefined) {
-    //   updates.push(`description = $${paramIndex}`)
-    //   values.push(data.Description)
-    //   paramIndex++
-    // }
-    // 
-    // values.push(id)
-    // const query = `UPDATE user_roles SET ${updates.join(', ')}, updated_at = NOW() WHERE id = $${paramIndex} RETURNING *`
-    // 
-    // const result = await this.pool.query(query, values)
-    // return this.mapPostgreSQLToUserRole(result.rows[0])
-    throw new Error('PostgreSQL adapter not yet implemented')
-  }
-
-  /**
-   * Delete a User Role
-   */
-  async delete(id: string): Promise<void> {
-    // TODO: Implement PostgreSQL delete
-    // Example:
-    // await this.pool.query('DELETE FROM user_roles WHERE id = $1', [id])
-    throw new Error('PostgreSQL adapter not yet implemented')
-  }
-
-  /**
-   * Get distinct values for a field (for filters)
-   */
-  async getDistinctValues(field: string, limit: number = 100): Promise<string[]> {
-    // TODO: Implement PostgreSQL query
-    // Example:
-    // const result = await this.pool.query(
-    //   `SELECT DISTINCT ${field} FROM user_roles WHERE ${field} IS NOT NULL ORDER BY ${field} LIMIT $1`,
-    //   [limit]
-    // )
-    // return result.rows.map(row => row[field])
-    throw new Error('PostgreSQL adapter not yet implemented')
-  }
-
-  /**
-   * Map PostgreSQL row to UserRole interface
-   */
-  private mapPostgreSQLToUserRole(row: any): UserRole {
-    return {
-      id: row.id,
-      Name: row.name,
-      Description: row.description,
-      createdAt: row.created_at ? new Date(row.created_at).toISOString() : undefined,
-      updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : undefined,
-      createdBy: row.created_by,
-      lastModifiedBy: row.last_modified_by,
-    }
-  }
-}
-
-// Singleton instance
-let userRolesPostgreSQLServiceInstance: UserRolesPostgreSQLService | null = null
-
-export function getUserRolesPostgreSQLService(): UserRolesPostgreSQLService {
-  if (!userRolesPostgreSQLServiceInstance) {
-    userRolesPostgreSQLServiceInstance = new UserRolesPostgreSQLService()
-  }
-  return userRolesPostgreSQLServiceInstance
-}
-
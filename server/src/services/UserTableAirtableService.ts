@@ -1,7 +1,11 @@
 import Airtable from 'airtable'
-import * as fs from 'fs'
-import * as path from 'path'
+import { getAirtableBase } from '../database/airtable/AirtableClient'
+import { FilterNode, allOf, filtersToFilterNode, searchFilter } from '../database/filters/FilterAst'
+import { compileAirtableFormula, formulaFieldRef, formulaRecordIds, formulaString } from '../database/filters/AirtableFormula'
+import { registerAirtableCounts } from '../database/airtable/AirtableRecordCounts'
+import { getRecordCountService } from '../database/counts/RecordCountService'
 import { RelationshipResolver } from './RelationshipResolver'
+import { getUserPasswordHashField } from '../auth/passwords'
 
 /**
  * user table Airtable Service
@@ -13,12 +17,9 @@ import { RelationshipResolver } from './RelationshipResolver'
 export class UserTableAirtableService {
   private base: Airtable.Base
   private tableName: string
-  private readonly cacheFilePath: string
-  private totalCountCache: { count: number; timestamp: number } | null = null
-  private readonly COUNT_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+  private countTable: string
   private distinctValuesCache: Map<string, { values: string[]; timestamp: number }> = new Map()
   private readonly DISTINCT_VALUES_CACHE_TTL = 10 * 60 * 1000 // 10 minutes
-  private countCalculationPromise: Promise<number> | null = null
   private relationshipResolver: RelationshipResolver | null = null
   private companyTableId: string // Store Companies table ID for direct access (supports table ID or name)
   private userRolesTableId: string | null = null // Store User Roles table ID if available (supports table ID or name)
@@ -46,8 +47,8 @@ export class UserTableAirtableService {
     console.log(`   Table: ${this.tableName}`)
     console.log(`   API Key: ${apiKey ? apiKey.substring(0, 20) + '...' : 'NOT SET'}`)
     
-    Airtable.configure({ apiKey })
-    this.base = Airtable.base(baseId)
+    this.base = getAirtableBase(baseId, apiKey)
+    this.countTable = registerAirtableCounts(baseId, this.base, this.tableName)
     
     // Initialize relationship resolver
     this.relationshipResolver = new RelationshipResolver(baseId, apiKey)
@@ -67,66 +68,6 @@ export class UserTableAirtableService {
                           process.env.AIRTABLE_MODULES_TABLE_NAME || 
                           'Application List' // Use "Application List" as the actual table name
     // Organization Scope table doesn't exist - removed from resolution
-    
-    
-    // Set cache file path
-    this.cacheFilePath = path.join(__dirname, '../../.cache', 'ghg-type-total-count.json')
-    this.loadCacheFromDisk()
-  }
-
-  /**
-   * Load total count cache from disk
-   */
-  private loadCacheFromDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      
-      if (fs.existsSync(this.cacheFilePath)) {
-        const cacheData = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf8'))
-        const age = Date.now() - cacheData.timestamp
-        
-        if (age < 60 * 60 * 1000) {
-          this.totalCountCache = cacheData
-          console.log(`📊 Loaded user table total count from disk cache: ${cacheData.count}`)
-        }
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not load user table count cache from disk:', error)
-    }
-  }
-
-  /**
-   * Save total count cache to disk
-   */
-  private saveCacheToDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath)
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true })
-      }
-      if (this.totalCountCache) {
-        fs.writeFileSync(this.cacheFilePath, JSON.stringify(this.totalCountCache), 'utf-8')
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not save user table count cache to disk:', error)
-    }
-  }
-
-  /**
-   * Clear total count cache
-   */
-  private clearCountCache(): void {
-    this.totalCountCache = null
-    try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        fs.unlinkSync(this.cacheFilePath)
-      }
-    } catch (error) {
-      console.warn('⚠️  Could not delete user table count cache file:', error)
-    }
   }
 
   /**
@@ -154,7 +95,8 @@ export class UserTableAirtableService {
       'Created Time', 'Created time', 'created_time', 'createdTime',
       'Last Modified Time', 'Last modified time', 'last_modified_time', 'lastModifiedTime',
       'Created By', 'Created by', 'created_by', 'createdBy',
-      'Last Modified By', 'Last modified by', 'last_modified_by', 'lastModifiedBy'
+      'Last Modified By', 'Last modified by', 'last_modified_by', 'lastModifiedBy',
+      getUserPasswordHashField()
     ]
     
     // Known attachment field names (case-insensitive matching)
@@ -420,7 +362,7 @@ export class UserTableAirtableService {
       // Fetch records by ID
       const records = await this.base(tableIdOrName)
         .select({
-          filterByFormula: `OR(${recordIds.map(id => `RECORD_ID() = "${id}"`).join(', ')})`,
+          filterByFormula: formulaRecordIds(recordIds),
           fields: [displayField],
           maxRecords: 100,
         })
@@ -496,7 +438,9 @@ export class UserTableAirtableService {
       'id', 'createdAt', 'updatedAt', 'createdBy', 'lastModifiedBy',
       'Created Time', 'Last Modified Time', 'Created By', 'Last Modified By',
       // Exclude resolved name fields (these are display-only, not stored in Airtable)
-      'CompanyName', 'UserRoleNames', 'ModuleNames'
+      'CompanyName', 'UserRoleNames', 'ModuleNames',
+      // Set with npm run auth:set-password only
+      getUserPasswordHashField()
       // Organization Scope removed
     ]
     
@@ -634,8 +578,13 @@ export class UserTableAirtableService {
 
   /**
    * Map field name to Airtable field name
+   * The password hash field is refused, so no filter, sort or distinct values can reveal it
    */
   private mapFieldNameToAirtable(fieldName: string): string {
+    if (fieldName.trim().toLowerCase() === getUserPasswordHashField().toLowerCase()) {
+      throw new Error(`Field "${fieldName}" cannot be filtered, sorted or listed`)
+    }
+
     const mapping: Record<string, string> = {
       'Name': 'Name',
       'Short code': 'Short code',
@@ -695,7 +644,8 @@ export class UserTableAirtableService {
     sortBy?: string, 
     sortOrder: 'asc' | 'desc' = 'asc',
     filters?: Record<string, any>,
-    search?: string
+    search?: string,
+    filter?: FilterNode
   ): Promise<{ records: any[], total: number }> {
     try {
       const startRecordIndex = offset
@@ -786,54 +736,19 @@ export class UserTableAirtableService {
         }
       }
       
-      // Build Airtable filter formula for regular filters only
-      const filterFormulas: string[] = []
-      
-      if (Object.keys(regularFilters).length > 0) {
-        Object.entries(regularFilters).forEach(([key, value]) => {
-          const airtableFieldName = this.mapFieldNameToAirtable(key)
-          
-          // Support both single value and array of values (multi-select)
-          const values = Array.isArray(value) ? value : [value]
-          const validValues = values.filter(v => v && String(v).trim() !== '')
-          
-          if (validValues.length > 0) {
-            if (validValues.length === 1) {
-              // Single value: simple equality
-              const escapedValue = String(validValues[0]).replace(/'/g, "''")
-              const formula = `{${airtableFieldName}} = '${escapedValue}'`
-              filterFormulas.push(formula)
-              console.log(`🔍 Filter: ${key} = ${validValues[0]} -> ${formula}`)
-            } else {
-              // Multiple values: use OR() with multiple equality checks
-              const equalityChecks = validValues.map(v => {
-                const escapedValue = String(v).replace(/'/g, "''")
-                return `{${airtableFieldName}} = '${escapedValue}'`
-              })
-              const formula = `OR(${equalityChecks.join(', ')})`
-              filterFormulas.push(formula)
-              console.log(`🔍 Filter: ${key} = ${validValues.join(', ')} -> ${formula}`)
-            }
-          }
-        })
-      }
-      
-      if (search && search.trim() !== '') {
+      // Build Airtable filter formula for regular filters only (single value or multi-select)
+      const filterNode = allOf(
+        filtersToFilterNode(regularFilters),
         // Search across common user fields that exist in the "user table"
-        const searchFields = [
-          'Email', 'First Name', 'Last Name', 'User Name', 'UID', 
+        searchFilter([
+          'Email', 'First Name', 'Last Name', 'User Name', 'UID',
           'Profile Name', 'Activity Scope', 'Notes'
-        ]
-        const escapedSearch = search.replace(/'/g, "''")
-        const searchFormulas = searchFields.map(field => 
-          `FIND(LOWER('${escapedSearch}'), LOWER({${field}})) > 0`
-        )
-        if (searchFormulas.length > 0) {
-          filterFormulas.push(`OR(${searchFormulas.join(', ')})`)
-        }
-      }
-      
-      const filterFormula = filterFormulas.length > 0 ? `AND(${filterFormulas.join(', ')})` : undefined
+        ], search),
+        filter
+      )
+      const filterFormula = filterNode
+        ? compileAirtableFormula(filterNode, { fieldName: field => this.mapFieldNameToAirtable(field) })
+        : undefined
       
       // Fetch only the pages we need
       await new Promise<void>((resolve, reject) => {
@@ -947,11 +862,11 @@ export class UserTableAirtableService {
           }
         } else {
           // Only regular filters - use Airtable count
-          total = await this.getFilteredCount(filterFormula!)
+          total = await getRecordCountService().getCount(this.countTable, filterFormula!)
           console.log(`   Filtered total count: ${total}`)
         }
       } else {
-        total = await this.getTotalCount(true)
+        total = await getRecordCountService().getCount(this.countTable)
       }
 
       const mapped = paginatedRecords.map(record => this.mapAirtableToUserTable(record))
@@ -1002,7 +917,6 @@ export class UserTableAirtableService {
       const airtableFields = this.mapUserTableToAirtable(fields)
       const record = await this.base(this.tableName).create(airtableFields)
       
-      this.clearCountCache()
       this.clearDistinctValuesCache()
       
       const mapped = this.mapAirtableToUserTable(record)
@@ -1042,7 +956,6 @@ export class UserTableAirtableService {
   async delete(id: string): Promise<boolean> {
     try {
       await this.base(this.tableName).destroy(id)
-      this.clearCountCache()
       this.clearDistinctValuesCache()
       return true
     } catch (error: any) {
@@ -1054,115 +967,43 @@ export class UserTableAirtableService {
   }
 
   /**
-   * Get total count with lazy calculation
+   * Raw record of the user with this email or user name (case-insensitive), password
+   * hash included - for signing in. Null when no record or several records match.
    */
-  async getTotalCount(lazy: boolean = true): Promise<number> {
-    try {
-      if (this.totalCountCache && Date.now() - this.totalCountCache.timestamp < this.COUNT_CACHE_TTL) {
-        console.log(`📊 Using cached total count for user table: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
-
-      if (lazy && !this.totalCountCache) {
-        console.log(`📊 No cache available for user table, returning estimate and calculating in background...`)
-        const estimate = 100
-        this.calculateTotalCountInBackground()
-        return estimate
-      }
-
-      return await this.calculateTotalCount()
-    } catch (error: any) {
-      console.error('Error getting user table total count:', error)
-      if (this.totalCountCache) {
-        console.warn(`⚠️  Using expired cache: ${this.totalCountCache.count}`)
-        return this.totalCountCache.count
-      }
-      return 0
-    }
-  }
-
-  /**
-   * Calculate total count in background
-   */
-  private calculateTotalCountInBackground(): void {
-    if (this.countCalculationPromise) {
-      return // Already calculating
-    }
-
-    this.countCalculationPromise = this.calculateTotalCount()
-      .then(count => {
-        this.totalCountCache = { count, timestamp: Date.now() }
-        this.saveCacheToDisk()
-        this.countCalculationPromise = null
-        return count // Return count to maintain Promise<number> type
-      })
-      .catch(error => {
-        console.error('Error calculating user table total count in background:', error)
-        this.countCalculationPromise = null
-        throw error // Re-throw to maintain Promise<number> type
+  async findAccountByLogin(login: string): Promise<Airtable.Record<any> | null> {
+    const value = formulaString(login.trim().toLowerCase())
+    const records = await this.base(this.tableName)
+      .select({
+        filterByFormula: `OR(LOWER(${formulaFieldRef('Email')}) = ${value}, LOWER(${formulaFieldRef('User Name')}) = ${value})`,
+        maxRecords: 2,
       })
+      .all()
+    if (records.length > 1) {
+      console.warn(`⚠️  Several user table records match the login "${login}" - refusing to sign in`)
+      return null
+    }
+    return records[0] || null
   }
 
   /**
-   * Calculate total count synchronously
+   * Raw record of a user, password hash included
    */
-  private async calculateTotalCount(): Promise<number> {
+  async findAccountById(id: string): Promise<Airtable.Record<any> | null> {
     try {
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select()
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) {
-                reject(err)
-              } else {
-                resolve()
-              }
-            }
-          )
-      })
-      return count
+      return await this.base(this.tableName).find(id)
     } catch (error: any) {
-      console.error('Error calculating user table total count:', error)
-      return 0
+      if (error.statusCode === 404 || error.error === 'NOT_FOUND') {
+        return null
+      }
+      throw error
     }
   }
 
   /**
-   * Get filtered count
+   * Store the password hash of a user
    */
-  private async getFilteredCount(filterFormula: string): Promise<number> {
-    try {
-      let count = 0
-      await new Promise<void>((resolve, reject) => {
-        this.base(this.tableName)
-          .select({
-            filterByFormula: filterFormula,
-          })
-          .eachPage(
-            (records, fetchNextPage) => {
-              count += records.length
-              fetchNextPage()
-            },
-            (err) => {
-              if (err) {
-                reject(err)
-              } else {
-                resolve()
-              }
-            }
-          )
-      })
-      return count
-    } catch (error: any) {
-      console.error('Error getting filtered count for user table:', error)
-      return 0
-    }
+  async setPasswordHash(id: string, passwordHash: string): Promise<void> {
+    await this.base(this.tableName).update(id, { [getUserPasswordHashField()]: passwordHash })
   }
 
   /**
@@ -1279,6 +1120,13 @@ export class UserTableAirtableService {
     }
   }
 
+  /**
+   * Get the exact number of user table records, kept up to date by the record count service
+   */
+  async getTotalCount(): Promise<number> {
+    return getRecordCountService().getCount(this.countTable)
+  }
+
   /**
    * Get unique/distinct values for a field
    */
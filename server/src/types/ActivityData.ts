@@ -0,0 +1,96 @@
+/**
+ * Activity Data Types
+ *
+ * A ledger row recording an activity quantity for a company, geography and
+ * reporting period. Computed CO2e is stored on the row and refreshed whenever
+ * the quantity, unit, activity or emission factor changes.
+ */
+
+export type CalculationStatus = 'Calculated' | 'Error' | 'Pending'
+
+export interface ActivityData {
+  id: string
+  Name?: string
+  Quantity?: number
+  Unit?: string | string[] // Record ID(s)
+  'Unit Name'?: string | string[] // Resolved name(s)
+  'Normalized activity'?: string | string[] // Record ID(s)
+  'Normalized activity Name'?: string | string[] // Resolved name(s)
+  Company?: string | string[] // Record ID(s)
+  'Company Name'?: string | string[] // Resolved name(s)
+  Geography?: string | string[] // Record ID(s)
+  'Geography Name'?: string | string[] // Resolved name(s)
+  'Period Start'?: string
+  'Period End'?: string
+  'Reporting Year'?: number
+  'Emission Factor'?: string | string[] // Record ID(s) - factor used for the stored CO2e
+  'Emission Factor Name'?: string | string[] // Resolved name(s)
+  'Computed CO2e (t)'?: number
+  'Calculation Status'?: CalculationStatus | string
+  'Calculation Error'?: string
+  'Calculation Trace'?: string // JSON-encoded EmissionCalculationTrace
+  'Calculated At'?: string
+  Status?: 'Active' | 'Inactive'
+  Notes?: string
+  'Organization ID'?: string // Organization the row belongs to (see types/Organization)
+  createdAt?: string
+  updatedAt?: string
+  createdBy?: string
+  lastModifiedBy?: string
+}
+
+export interface CreateActivityDataDto {
+  Name?: string
+  Quantity?: number
+  Unit?: string | string[]
+  'Normalized activity'?: string | string[]
+  Company?: string | string[]
+  Geography?: string | string[]
+  'Period Start'?: string
+  'Period End'?: string
+  'Reporting Year'?: number
+  'Emission Factor'?: string | string[]
+  Status?: 'Active' | 'Inactive'
+  Notes?: string
+  'Organization ID'?: string
+}
+
+export interface UpdateActivityDataDto {
+  Name?: string
+  Quantity?: number
+  Unit?: string | string[]
+  'Normalized activity'?: string | string[]
+  Company?: string | string[]
+  Geography?: string | string[]
+  'Period Start'?: string
+  'Period End'?: string
+  'Reporting Year'?: number
+  'Emission Factor'?: string | string[]
+  Status?: 'Active' | 'Inactive'
+  Notes?: string
+  'Organization ID'?: string
+}
+
+/**
+ * Fields written by the calculation engine - never accepted from clients
+ */
+export interface ActivityDataComputedFields {
+  'Emission Factor'?: string[]
+  'Computed CO2e (t)'?: number | null
+  'Calculation Status': CalculationStatus
+  'Calculation Error'?: string
+  'Calculation Trace'?: string
+  'Calculated At': string
+}
+
+/**
+ * Fields whose change requires the stored CO2e to be recomputed
+ */
+export const ACTIVITY_DATA_CALCULATION_INPUTS = [
+  'Quantity',
+  'Unit',
+  'Normalized activity',
+  'Geography',
+  'Reporting Year',
+  'Emission Factor',
+] as const
@@ -0,0 +1,67 @@
+/**
+ * Authentication Types
+ *
+ * Users sign in with the username (or email) and password of their User Table record, or
+ * through an OpenID Connect provider whose email claim matches a User Table record. Either
+ * way they get a signed session token to send as "Authorization: Bearer <token>".
+ */
+
+import { TenantScope } from './Organization'
+
+/** Signed-in user - set on req.user by the authenticate middleware */
+export interface AuthUser {
+  id: string // User Table record ID
+  name: string
+  email: string | null
+  username: string | null
+  roles: string[] // User Roles record IDs
+  organizations: string[] // Organizations record IDs
+  provider: string // 'local' or the name of the identity provider
+}
+
+/** Claims of a session token (a JWT signed with HS256) */
+export interface SessionTokenClaims {
+  sub: string // User Table record ID
+  name: string
+  email: string | null
+  username: string | null
+  roles: string[]
+  organizations: string[]
+  provider: string
+  jti: string
+  iat: number // seconds since the epoch
+  exp: number // seconds since the epoch
+}
+
+export interface AuthSession {
+  token: string
+  expiresAt: string
+  user: AuthUser
+}
+
+/** Standard claims (OpenID Connect Core, section 5.1) of the user an identity provider signed in */
+export interface IdentityClaims {
+  sub: string
+  email?: string
+  email_verified?: boolean
+  name?: string
+  preferred_username?: string
+}
+
+/** Sign-in options offered to the login page */
+export interface AuthProviderInfo {
+  name: string
+  displayName: string
+  type: 'password' | 'oidc'
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Signed-in user (authenticate middleware) - undefined for anonymous requests */
+      user?: AuthUser
+      /** Tenant records the request may access (scopeToTenant middleware) */
+      tenant?: TenantScope
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Emission Calculation Types
+ *
+ * Input, result and trace structures for the emission calculation engine.
+ * A calculation combines an activity quantity, the Unit Conversion table and
+ * a Standard Emission Factor to produce tCO2e.
+ */
+
+import { FactorResolutionRule } from './FactorResolution'
+
+export interface EmissionCalculationInput {
+  /** Activity quantity, expressed in `unit` */
+  quantity: number
+  /** Unit record ID the quantity is expressed in */
+  unit: string
+  /** Normalized Activity record ID used to find the emission factor */
+  normalizedActivity: string
+  /** Optional Standard Emission Factor record ID - skips factor matching when set */
+  emissionFactor?: string
+  /** Geography record ID or name - used to prefer geography-specific factors */
+  geography?: string
+  /** Reporting date (YYYY-MM-DD) or year - selects the Emission Factor Version in force */
+  reportingDate?: string | number
+  /** Industry Classification record ID, name or code */
+  industryClassification?: string
+}
+
+/**
+ * Reference to a record that took part in a calculation
+ */
+export interface CalculationRecordRef {
+  id: string
+  name?: string
+}
+
+/**
+ * One hop through the Unit Conversion table
+ */
+export interface ConversionStep {
+  /** Unit Conversion record ID */
+  conversionId: string
+  conversionName?: string
+  from: CalculationRecordRef
+  to: CalculationRecordRef
+  /** Multiplier applied to the quantity for this hop */
+  factor: number
+  /** Whether the conversion record was used in reverse (Normalized unit → Unit to convert) */
+  inverted: boolean
+  /** Activity Density that supplied the factor for a mass/volume hop */
+  activityDensity?: CalculationRecordRef
+}
+
+export interface EmissionCalculationTrace {
+  normalizedActivity: CalculationRecordRef
+  emissionFactor: CalculationRecordRef & {
+    /** Emission Factor (CO2e) value, per Source UOM */
+    value: number
+    /** GHG Unit (CO2e) name, e.g. kgCO2e */
+    ghgUnit?: string
+    sourceUom: CalculationRecordRef
+    version?: string
+  }
+  /** IDs of every factor considered for the activity */
+  candidateFactorIds: string[]
+  /** Why the factor was chosen - absent when the factor was given explicitly */
+  resolution?: {
+    rules: FactorResolutionRule[]
+    reportingDate: string
+    geography?: CalculationRecordRef
+    explanation: string[]
+  }
+  /** Conversion hops from the input unit to the factor's Source UOM (empty when units match) */
+  conversions: ConversionStep[]
+  /** Multiplier from the factor's GHG unit to tonnes CO2e */
+  ghgUnitToTonnes: number
+}
+
+export interface EmissionCalculationResult {
+  quantity: number
+  unit: CalculationRecordRef
+  /** Quantity expressed in the factor's Source UOM */
+  convertedQuantity: number
+  tCO2e: number
+  trace: EmissionCalculationTrace
+}
+
+/**
+ * Invalid calculation input
+ */
+export class CalculationValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'CalculationValidationError'
+  }
+}
+
+/**
+ * Input was valid but the reference data cannot produce a result
+ * (no matching factor, no conversion path, missing factor value)
+ */
+export class CalculationResolutionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CalculationResolutionError'
+  }
+}
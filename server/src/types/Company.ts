@@ -7,6 +7,7 @@ export interface Company {
   primaryActivity: string
   primaryIndustry: string
   notes?: string
+  organizationId?: string // Organization the company belongs to (see types/Organization)
   createdBy: string
   created: string
   lastModifiedBy: string
@@ -21,6 +22,7 @@ export interface CreateCompanyDto {
   primaryActivity?: string
   primaryIndustry?: string
   notes?: string
+  organizationId?: string
 }
 
 export interface UpdateCompanyDto {
@@ -31,5 +33,6 @@ export interface UpdateCompanyDto {
   primaryActivity?: string
   primaryIndustry?: string
   notes?: string
+  organizationId?: string
 }
 
@@ -7,6 +7,7 @@ export interface EFDetailedG {
   Name?: string
   Description?: string
   Status?: 'Active' | 'Inactive'
+  'Emission Factor'?: number // Gas amount per Source UOM, before GWP weighting
   'EF GWP'?: string | string[]
   'EF GWP Name'?: string | string[]
   'GHG TYPE'?: string | string[]
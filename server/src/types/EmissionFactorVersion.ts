@@ -4,6 +4,8 @@
  * Defines the structure of Emission Factor Version records from Airtable
  */
 
+import { AuditActor } from '../database/audit/IAuditStore'
+
 export interface EmissionFactorVersion {
   id: string
   Name?: string
@@ -11,6 +13,11 @@ export interface EmissionFactorVersion {
   Description?: string
   Formula?: string
   Category?: string
+  'Published Date'?: string
+  'Effective Date'?: string
+  'Expiration Date'?: string
+  'Emission Factor Set'?: string | string[] // Record ID(s)
+  'Std Emission factors'?: string | string[] // Record ID(s) - Standard Emission Factors in this version
   Status?: 'Active' | 'Inactive'
   Notes?: string
   createdAt?: string
@@ -25,6 +32,9 @@ export interface CreateEmissionFactorVersionDto {
   Description?: string
   Formula?: string
   Category?: string
+  'Published Date'?: string
+  'Effective Date'?: string
+  'Expiration Date'?: string
   Status?: 'Active' | 'Inactive'
   Notes?: string
 }
@@ -35,7 +45,96 @@ export interface UpdateEmissionFactorVersionDto {
   Description?: string
   Formula?: string
   Category?: string
+  'Published Date'?: string
+  'Effective Date'?: string
+  'Expiration Date'?: string
   Status?: 'Active' | 'Inactive'
   Notes?: string
 }
 
+
+/**
+ * Standard Emission Factor as compared between two versions
+ */
+export interface VersionDiffFactorRef {
+  id: string
+  name?: string
+  value?: number
+  ghgUnit?: string
+  status?: string
+}
+
+export interface VersionDiffChange {
+  /** Matching key: Normalized activity | Geography | Source UOM | Industry Classification */
+  key: string
+  label: string
+  previous: VersionDiffFactorRef
+  current: VersionDiffFactorRef
+  /** Absolute change in Emission Factor (CO2e) */
+  delta: number | null
+  /** Percentage change - null when the previous value is zero or missing */
+  percentChange: number | null
+  /** Fields that differ besides the value (e.g. GHG Unit (CO2e)) */
+  changedFields: string[]
+}
+
+export interface EmissionFactorVersionDiff {
+  version: { id: string; name?: string; status?: string }
+  previousVersion: { id: string; name?: string; status?: string }
+  summary: {
+    added: number
+    removed: number
+    changed: number
+    unchanged: number
+  }
+  added: Array<{ key: string; label: string; factor: VersionDiffFactorRef }>
+  removed: Array<{ key: string; label: string; factor: VersionDiffFactorRef }>
+  changed: VersionDiffChange[]
+  /** Keys that match more than one factor within a version - compared in record order */
+  ambiguousKeys: string[]
+}
+
+export interface PromoteEmissionFactorVersionOptions {
+  /** Version being replaced - defaults to the previous version of the same Emission Factor Set */
+  supersedes?: string
+  /** Return the plan without writing anything */
+  dryRun?: boolean
+  /** Who promotes the version, recorded in the audit log (default: System) */
+  actor?: AuditActor
+}
+
+export interface EmissionFactorVersionPromotionResult {
+  version: { id: string; name?: string }
+  supersededVersion?: { id: string; name?: string }
+  dryRun: boolean
+  /** Factors set to Active / Latest */
+  activated: string[]
+  /** Factors set to Inactive / Legacy */
+  deactivated: string[]
+  /** Records that already had the target status */
+  unchanged: number
+  /** True with PostgreSQL (one transaction); with Airtable the factors are written batch by batch, see notice */
+  atomic: boolean
+  /** When not atomic: what readers may see while the promotion runs, and after a failure */
+  notice?: string
+}
+
+/**
+ * Invalid diff or promotion request (unknown version, no previous version)
+ */
+export class EmissionFactorVersionValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'EmissionFactorVersionValidationError'
+  }
+}
+
+/**
+ * Promotion failed part-way; the changes already written were rolled back
+ */
+export class EmissionFactorVersionPromotionError extends Error {
+  constructor(message: string, public rolledBack: boolean) {
+    super(message)
+    this.name = 'EmissionFactorVersionPromotionError'
+  }
+}
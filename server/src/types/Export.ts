@@ -0,0 +1,60 @@
+/**
+ * Entity Export Types
+ *
+ * Streaming export of any ListDetailTemplate entity table (all pages of the
+ * filtered and sorted query) as CSV, XLSX, JSON or Parquet.
+ */
+
+import { FilterNode } from '../database/filters/FilterAst'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'parquet'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json', 'parquet']
+
+/**
+ * A cell value - linked records are exported as their names
+ */
+export type ExportValue = string | number | boolean | null | string[]
+
+export interface ExportColumn {
+  /** Airtable field name */
+  field: string
+  /** Column header */
+  label: string
+  /** Value kind, used for typed formats (XLSX, Parquet) */
+  kind: 'string' | 'number' | 'boolean'
+}
+
+export interface ExportOptions {
+  format: ExportFormat
+  /** Columns to export in order, by field key or Airtable field name (default: every field) */
+  columns?: Array<{ key: string; label?: string }>
+  /** Field key -> value(s); several values match any of them */
+  filters?: Record<string, string | string[]>
+  /** Filter tree, combined with filters and search */
+  filter?: FilterNode
+  search?: string
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+}
+
+/**
+ * Writes exported rows to an output stream in one file format
+ */
+export interface ExportWriter {
+  contentType: string
+  extension: string
+  start(): Promise<void>
+  writeRows(rows: ExportValue[][]): Promise<void>
+  end(): Promise<void>
+}
+
+/**
+ * Invalid export format, column, filter or sort
+ */
+export class ExportValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'ExportValidationError'
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Emission Factor Resolution Types
+ *
+ * Rules used to choose one Standard Emission Factor when a Normalized Activity
+ * has several candidates, and the explanation returned for every decision.
+ */
+
+import { CalculationRecordRef } from './Calculation'
+
+/**
+ * Precedence rules, applied in order until one candidate ranks above the others
+ * - geography: exact geography, then a parent geography, then a global factor
+ * - version: most recent active Emission Factor Version effective at the reporting date
+ * - industryClassification: factor for the requested classification over a generic one
+ */
+export type FactorResolutionRule = 'geography' | 'version' | 'industryClassification'
+
+export const FACTOR_RESOLUTION_RULES: FactorResolutionRule[] = ['geography', 'version', 'industryClassification']
+
+export interface FactorResolutionInput {
+  /** Normalized Activity record ID */
+  normalizedActivity: string
+  /** Geography record ID or name of the activity */
+  geography?: string
+  /** Reporting date (YYYY-MM-DD) or reporting year - defaults to today */
+  reportingDate?: string | number
+  /** Industry Classification record ID, name or code */
+  industryClassification?: string
+  /** Unit record ID of the activity quantity - candidates the unit cannot reach are rejected */
+  unit?: string
+  /** Rule order - defaults to EMISSION_FACTOR_RESOLUTION_RULES or FACTOR_RESOLUTION_RULES */
+  rules?: FactorResolutionRule[]
+}
+
+export type GeographyMatch = 'exact' | 'parent' | 'global' | 'regional' | 'mismatch'
+
+export type IndustryClassificationMatch = 'exact' | 'generic' | 'mismatch' | 'not requested'
+
+/**
+ * How a single candidate fared against each rule
+ */
+export interface FactorCandidateEvaluation {
+  factor: CalculationRecordRef & {
+    value?: number
+    status?: string
+    geography: string[]
+    version?: string
+    industryClassification: string[]
+    publicationDate?: string
+  }
+  eligible: boolean
+  /** Reasons the candidate cannot be used (empty when eligible) */
+  rejectedReasons: string[]
+  geography: {
+    match: GeographyMatch
+    /** Parent levels between the requested geography and the factor's geography */
+    distance?: number
+  }
+  version: {
+    id?: string
+    name?: string
+    status?: string
+    effectiveDate?: string
+    expirationDate?: string
+    /** Whether the version is in force at the reporting date */
+    effective: boolean
+  }
+  industryClassification: {
+    match: IndustryClassificationMatch
+  }
+  /** Conversion hops from the requested unit to the factor's Source UOM */
+  conversionHops?: number
+  /** 1-based rank among eligible candidates */
+  rank?: number
+}
+
+export interface FactorResolutionResult {
+  normalizedActivity: string
+  geography?: CalculationRecordRef
+  reportingDate: string
+  industryClassification?: string
+  rules: FactorResolutionRule[]
+  selected: FactorCandidateEvaluation | null
+  /** Every candidate, eligible ones first in rank order */
+  candidates: FactorCandidateEvaluation[]
+  /** Human readable explanation of the choice */
+  explanation: string[]
+}
+
+/**
+ * Invalid resolution input
+ */
+export class FactorResolutionValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'FactorResolutionValidationError'
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * GHG Inventory Report Types
+ *
+ * Corporate inventory (GHG Protocol) rolled up from the Activity Data ledger:
+ * totals per Scope, per Scope & Categorisation entry and per GHG type.
+ */
+
+export type GHGInventoryReportFormat = 'json' | 'csv' | 'html'
+
+export const GHG_INVENTORY_REPORT_FORMATS: GHGInventoryReportFormat[] = ['json', 'csv', 'html']
+
+export interface GHGInventoryReportParams {
+  /** Company record ID or Company Name */
+  company: string
+  /** Reporting year */
+  year: number
+}
+
+/**
+ * tCO2e per GHG type name (e.g. { CO2: 120.4, CH4: 2.1 })
+ */
+export type GHGBreakdown = Record<string, number>
+
+export interface GHGInventoryCategoryTotal {
+  category: string
+  tCO2e: number
+  byGhgType: GHGBreakdown
+  activityCount: number
+}
+
+export interface GHGInventoryScopeTotal {
+  scope: string
+  tCO2e: number
+  byGhgType: GHGBreakdown
+  activityCount: number
+  categories: GHGInventoryCategoryTotal[]
+}
+
+/**
+ * Ledger row left out of the totals, with the reason
+ */
+export interface GHGInventoryExclusion {
+  id: string
+  name?: string
+  reason: string
+}
+
+export interface GHGInventoryReport {
+  company: { id?: string; name: string }
+  year: number
+  generatedAt: string
+  totals: {
+    tCO2e: number
+    byGhgType: GHGBreakdown
+    activityCount: number
+  }
+  scopes: GHGInventoryScopeTotal[]
+  ghgTypes: string[]
+  excluded: GHGInventoryExclusion[]
+}
+
+/**
+ * Invalid report parameters
+ */
+export class ReportValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'ReportValidationError'
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * GWP Restatement Types
+ *
+ * Restates per-gas emission amounts as CO2e under different IPCC assessment
+ * reports (AR4, AR5, AR6) using the GWP values held in the EF GWP table.
+ */
+
+/**
+ * A gas-level emission amount supplied directly by the caller
+ */
+export interface GasAmountInput {
+  /** GHG Type record ID or name (e.g. "CH4") */
+  ghgType: string
+  /** Amount of the gas (mass, not CO2e) */
+  amount: number
+}
+
+export interface GWPRestatementInput {
+  /** Assessment report to restate into, e.g. "AR6" */
+  targetVersion: string
+  /** Assessment report the amounts were originally weighted with - defaults to each EF/Detailed G record's EF GWP version */
+  sourceVersion?: string
+  /** Versions shown side by side - defaults to every version present in EF GWP */
+  versions?: string[]
+  /** EF/Detailed G record IDs providing per-gas amounts */
+  efDetailedG?: string[]
+  /** Standard Emission Factor record ID - expands to its EF/Detailed G records */
+  emissionFactor?: string
+  /** Per-gas amounts supplied directly */
+  gases?: GasAmountInput[]
+  /** Multiplier applied to every amount, e.g. an activity quantity in the factor's Source UOM */
+  quantity?: number
+}
+
+export interface GWPValueRef {
+  /** EF GWP record ID - absent for the CO2 reference value */
+  id?: string
+  gwp: number
+}
+
+export interface GWPRestatementDelta {
+  absolute: number
+  /** null when the source CO2e is zero */
+  percent: number | null
+}
+
+export interface GWPRestatementGasLine {
+  ghgType: { id?: string; name: string }
+  /** EF/Detailed G record ID when the amount came from the table */
+  efDetailedG?: string
+  amount: number
+  sourceVersion?: string
+  /** GWP used per version - null when EF GWP has no value for this gas and version */
+  gwp: Record<string, GWPValueRef | null>
+  /** CO2e per version - null when the GWP is missing */
+  co2e: Record<string, number | null>
+  delta: GWPRestatementDelta | null
+}
+
+export interface GWPRestatementResult {
+  targetVersion: string
+  versions: string[]
+  gases: GWPRestatementGasLine[]
+  totals: {
+    /** Total CO2e per version (missing GWPs count as zero and are listed in warnings) */
+    co2e: Record<string, number>
+    /** CO2e under each line's source version */
+    source: number | null
+    target: number
+    delta: GWPRestatementDelta | null
+  }
+  warnings: string[]
+}
+
+/**
+ * Invalid restatement input
+ */
+export class GWPRestatementValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'GWPRestatementValidationError'
+  }
+}
+
+/**
+ * Referenced records or GWP values could not be found
+ */
+export class GWPRestatementResolutionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GWPRestatementResolutionError'
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Geo Code Types
+ */
+
+export interface GeoCode {
+  id: string
+  Name?: string
+  Notes?: string
+  Assignee?: string
+  Status?: string
+  Ref?: string
+  Region?: string
+  'Geography 🌍'?: string
+  [key: string]: any // Allow additional fields from Airtable
+}
+
+export interface CreateGeoCodeDto {
+  Name?: string
+  Notes?: string
+  Assignee?: string
+  Status?: string
+  Ref?: string
+  Region?: string
+  'Geography 🌍'?: string
+  [key: string]: any
+}
+
+export interface UpdateGeoCodeDto {
+  Name?: string
+  Notes?: string
+  Assignee?: string
+  Status?: string
+  Ref?: string
+  Region?: string
+  'Geography 🌍'?: string
+  [key: string]: any
+}
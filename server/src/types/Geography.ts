@@ -7,6 +7,8 @@ export interface Geography {
   regionName: string
   country: string
   status: 'Active' | 'Inactive'
+  Type?: 'Country' | 'Continent' | 'State' | string
+  Parent?: string | string[] // Record ID(s)
   notes?: string
   createdAt?: string
   updatedAt?: string
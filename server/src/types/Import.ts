@@ -0,0 +1,94 @@
+/**
+ * Entity Import Types
+ *
+ * Generic CSV/XLSX/JSON import into any ListDetailTemplate entity table,
+ * validated against the table's schema (TableSchema + Airtable field mapping).
+ */
+
+export interface ImportOptions {
+  /** Validate and report without writing anything (default false) */
+  dryRun?: boolean
+  /** Source column -> Airtable field name. Columns not listed are matched by field name. */
+  columnMapping?: Record<string, string>
+  /** Worksheet to read (XLSX only, defaults to the first sheet) */
+  sheet?: string
+}
+
+export interface ImportIssue {
+  /** Airtable field name */
+  field?: string
+  message: string
+}
+
+export interface ImportRowResult {
+  /** Line number in the source file (1-based index for JSON rows) */
+  rowNumber: number
+  /**
+   * valid - passes validation (dry run)
+   * invalid - rejected, see errors
+   * created / failed - outcome of the write
+   */
+  status: 'valid' | 'invalid' | 'created' | 'failed'
+  /** Fields to write, with linked records resolved to IDs */
+  fields: Record<string, any>
+  errors: ImportIssue[]
+  warnings: ImportIssue[]
+  /** Created record ID */
+  id?: string
+}
+
+export interface ImportReport {
+  entity: string
+  dryRun: boolean
+  format: 'csv' | 'xlsx' | 'json'
+  sheet?: string
+  /** Source column -> Airtable field name actually used */
+  columnMapping: Record<string, string>
+  unmappedColumns: string[]
+  summary: {
+    total: number
+    valid: number
+    invalid: number
+    created: number
+    failed: number
+  }
+  rows: ImportRowResult[]
+}
+
+/**
+ * Field definition used to validate imported values
+ */
+export interface ImportFieldDefinition {
+  /** Airtable field name (the key written to Airtable) */
+  name: string
+  /** Display name from the table schema, also accepted as a column header */
+  label: string
+  /** Airtable field type */
+  type: string
+  required: boolean
+  /** Allowed options (select fields) */
+  choices?: string[]
+  /** Linked table ID and its primary field (record link fields) */
+  linkedTableId?: string
+  linkedTablePrimaryField?: string
+}
+
+/**
+ * Entity has no registered Airtable table
+ */
+export class UnknownImportEntityError extends Error {
+  constructor(entity: string) {
+    super(`Import is not supported for "${entity}"`)
+    this.name = 'UnknownImportEntityError'
+  }
+}
+
+/**
+ * Invalid import file, rows or options
+ */
+export class ImportValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'ImportValidationError'
+  }
+}
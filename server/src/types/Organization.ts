@@ -0,0 +1,47 @@
+/**
+ * Organization Types
+ *
+ * Client groups served by one deployment. Users are members of organizations (the
+ * Organizations field of their User Table record), and records of tenant tables
+ * (companies, activity data) belong to one organization through their Organization ID
+ * field. Reference tables (factors, units, GHG types, ...) are shared by every
+ * organization.
+ */
+
+export interface Organization {
+  id: string
+  Name?: string
+  Description?: string
+  Status?: string
+  Notes?: string
+  createdAt?: string
+  updatedAt?: string
+  [key: string]: any // Allow additional fields from Airtable
+}
+
+export interface CreateOrganizationDto {
+  Name: string
+  Description?: string
+  Status?: string
+  Notes?: string
+  [key: string]: any
+}
+
+export interface UpdateOrganizationDto {
+  Name?: string
+  Description?: string
+  Status?: string
+  Notes?: string
+  [key: string]: any
+}
+
+/**
+ * Records of tenant tables a request may see and write (auth/TenantContext)
+ * - allOrganizations: every record (superusers that did not pick an organization)
+ * - otherwise the records of organizationId, or, for a user of no organization (null),
+ *   the records that belong to none
+ */
+export interface TenantScope {
+  organizationId: string | null
+  allOrganizations: boolean
+}
@@ -0,0 +1,27 @@
+/**
+ * Permission Types
+ *
+ * A User Role grants actions on entities - the API path segment an entity is served
+ * under (e.g. 'ghg-types' for /api/ghg-types). Its permission matrix is kept as JSON in
+ * the role's Permissions field, e.g. { "ghg-types": ["read", "create", "update"] }; the
+ * entity "*" grants its actions on every entity. A user may do what any of their roles
+ * grants.
+ */
+
+export type PermissionAction = 'read' | 'create' | 'update' | 'delete' | 'import' | 'export' | 'approve'
+
+/** Actions granted per entity ("*" for every entity) */
+export type PermissionMatrix = Record<string, PermissionAction[]>
+
+/** Entity that permissions are checked on */
+export interface PermissionEntity {
+  key: string // API path segment
+  label: string
+}
+
+/** What the signed-in user may do (GET /api/auth/permissions) */
+export interface EffectivePermissions {
+  superuser: boolean // has a role of AUTH_SUPERUSER_ROLES - may do everything
+  roles: string[] // names of the user's roles
+  permissions: PermissionMatrix
+}
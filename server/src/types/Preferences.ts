@@ -3,6 +3,10 @@
  * 
  * Database-agnostic types for user preferences system.
  * Supports Airtable, PostgreSQL, and in-memory storage.
+ *
+ * Visibility: private preferences are read by their user only; org preferences are
+ * shared with the members of the organization they were saved in, global ones with
+ * everyone (GET /api/preferences/shared).
  */
 
 export type PreferenceNamespace = 'ui' | 'table' | 'filters' | 'featureFlags' | 'misc' | 'ai'
@@ -22,6 +26,7 @@ export interface PreferenceRecord {
   type: PreferenceType
   value: string | number | boolean | object
   visibility?: PreferenceVisibility
+  organizationId?: string // Organization an 'org' preference is shared with
   expiresAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -82,6 +87,12 @@ export interface IPreferencesAdapter {
    */
   getAll(userId: string, filter?: PreferenceFilter): Promise<PreferenceQueryResult>
 
+  /**
+   * Get the preferences shared with the members of an organization: the global ones, and
+   * the org ones of the organization (none for null)
+   */
+  getShared(organizationId: string | null, filter?: PreferenceFilter): Promise<PreferenceQueryResult>
+
   /**
    * Set (create or update) a preference
    */
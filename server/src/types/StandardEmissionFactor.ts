@@ -19,6 +19,8 @@ export interface StandardEmissionFactor {
   Version?: string | string[] // Record ID(s)
   'Version Name'?: string | string[] // Resolved name(s)
   'Publication Date'?: string
+  Geography?: string | string[] // Record ID(s)
+  'Geography Name'?: string | string[] // Resolved name(s)
   'Normalized activity'?: string | string[] // Record ID(s)
   'Normalized activity Name'?: string | string[] // Resolved name(s)
   'Ref.IC'?: string | string[]
@@ -28,6 +30,8 @@ export interface StandardEmissionFactor {
   'Source UOM Name'?: string | string[] // Resolved name(s)
   Scope?: string | string[] // Record ID(s)
   'Scope Name'?: string | string[] // Resolved name(s)
+  'Scope Categories'?: string | string[] // Record ID(s) - scope & categorisation
+  'Scope Categories Name'?: string | string[] // Resolved name(s)
   'Availability '?: string
   'code (from Industry Classification  🏭)'?: string // Lookup field
   'Name copy'?: string
@@ -57,6 +61,7 @@ export interface CreateStandardEmissionFactorDto {
   'Industry Classification & Emission Factors'?: string | string[]
   Version?: string | string[]
   'Publication Date'?: string
+  Geography?: string | string[]
   'Normalized activity'?: string | string[]
   'Ref.IC'?: string | string[]
   'Industry Classification'?: string | string[]
@@ -82,6 +87,7 @@ export interface UpdateStandardEmissionFactorDto {
   'Industry Classification & Emission Factors'?: string | string[]
   Version?: string | string[]
   'Publication Date'?: string
+  Geography?: string | string[]
   'Normalized activity'?: string | string[]
   'Ref.IC'?: string | string[]
   'Industry Classification'?: string | string[]
@@ -0,0 +1,127 @@
+/**
+ * Standard Emission Factor Import Types
+ *
+ * Bulk import of emission factor datasets (DEFRA/EPA-style CSV or XLSX files)
+ * into the Standard Emission factors table.
+ */
+
+import { CreateStandardEmissionFactorDto } from './StandardEmissionFactor'
+
+/**
+ * Standard Emission Factor fields a source column can be mapped to
+ * (Name is a formula field in Airtable and cannot be imported)
+ */
+export type StandardEmissionFactorImportField =
+  | 'Status'
+  | 'Emission Factor (CO2e)'
+  | 'Type of EF'
+  | 'GHG Unit (CO2e)'
+  | 'Version'
+  | 'Publication Date'
+  | 'Geography'
+  | 'Normalized activity'
+  | 'Source UOM'
+  | 'Scope'
+  | 'Availability '
+  | 'Description'
+  | 'Notes'
+
+/**
+ * Source column headers recognised for each field (compared case-insensitively,
+ * ignoring punctuation), used when no explicit column mapping is given
+ */
+export const STANDARD_EMISSION_FACTOR_IMPORT_COLUMNS: Record<StandardEmissionFactorImportField, string[]> = {
+  'Status': ['Status'],
+  'Emission Factor (CO2e)': [
+    'Emission Factor (CO2e)', 'Emission Factor', 'CO2e', 'kg CO2e', 'CO2e Factor',
+    'GHG Conversion Factor', 'Conversion Factor', 'Factor', 'Value',
+  ],
+  'Type of EF': ['Type of EF', 'EF Type', 'Factor Type'],
+  'GHG Unit (CO2e)': ['GHG Unit (CO2e)', 'GHG Unit', 'CO2e Unit', 'Emission Unit'],
+  'Version': ['Version', 'Dataset Version', 'Emission Factor Version'],
+  'Publication Date': ['Publication Date', 'Published', 'Date Published'],
+  'Geography': ['Geography', 'Country', 'Region'],
+  'Normalized activity': ['Normalized activity', 'Normalized Activity Name', 'Activity'],
+  'Source UOM': ['Source UOM', 'UOM', 'Unit', 'Units', 'Activity Unit', 'Unit of Measure'],
+  'Scope': ['Scope'],
+  'Availability ': ['Availability'],
+  'Description': ['Description'],
+  'Notes': ['Notes', 'Comments'],
+}
+
+/**
+ * Linked record fields resolved from names to record IDs
+ */
+export const STANDARD_EMISSION_FACTOR_IMPORT_LINK_FIELDS: StandardEmissionFactorImportField[] = [
+  'Source UOM',
+  'GHG Unit (CO2e)',
+  'Scope',
+  'Version',
+  'Normalized activity',
+  'Geography',
+]
+
+export interface StandardEmissionFactorImportOptions {
+  /** Validate and report without writing anything (default true) */
+  dryRun?: boolean
+  /** Create Units that do not exist yet instead of rejecting the row */
+  createMissingUnits?: boolean
+  /** Source column -> field. Columns not listed are matched by STANDARD_EMISSION_FACTOR_IMPORT_COLUMNS. */
+  columnMapping?: Record<string, StandardEmissionFactorImportField | ''>
+  /** Values used when a row has no value for the field, e.g. { Version: 'DEFRA 2024' } */
+  defaults?: Partial<Record<StandardEmissionFactorImportField, string>>
+  /** Worksheet to read (XLSX only, defaults to the first sheet) */
+  sheet?: string
+}
+
+export interface StandardEmissionFactorImportIssue {
+  field?: StandardEmissionFactorImportField
+  message: string
+}
+
+export interface StandardEmissionFactorImportRow {
+  /** Line number in the source file */
+  rowNumber: number
+  /**
+   * valid - passes validation (dry run)
+   * invalid - rejected, see errors
+   * created / failed - outcome of the write
+   */
+  status: 'valid' | 'invalid' | 'created' | 'failed'
+  /** Fields to write, with linked records resolved to IDs */
+  fields: CreateStandardEmissionFactorDto
+  errors: StandardEmissionFactorImportIssue[]
+  warnings: StandardEmissionFactorImportIssue[]
+  /** Created record ID */
+  id?: string
+}
+
+export interface StandardEmissionFactorImportReport {
+  dryRun: boolean
+  format: 'csv' | 'xlsx'
+  sheet?: string
+  /** Source column -> field actually used */
+  columnMapping: Record<string, StandardEmissionFactorImportField>
+  unmappedColumns: string[]
+  summary: {
+    total: number
+    valid: number
+    invalid: number
+    created: number
+    failed: number
+  }
+  /** Unit names that do not exist - created on import when createMissingUnits is set */
+  missingUnits: string[]
+  createdUnits: Array<{ id: string; name: string }>
+  rows: StandardEmissionFactorImportRow[]
+}
+
+/**
+ * Invalid import file or options
+ */
+export class StandardEmissionFactorImportValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'StandardEmissionFactorImportValidationError'
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Thermal Criteria Types
+ */
+
+export interface ThermalCriteria {
+  id: string
+  Zone?: string
+  'Thermal Criteria'?: string
+  'Pasted field 1'?: string
+  [key: string]: any // Allow additional fields from Airtable
+}
+
+export interface CreateThermalCriteriaDto {
+  Zone?: string
+  'Thermal Criteria'?: string
+  'Pasted field 1'?: string
+  [key: string]: any
+}
+
+export interface UpdateThermalCriteriaDto {
+  Zone?: string
+  'Thermal Criteria'?: string
+  'Pasted field 1'?: string
+  [key: string]: any
+}
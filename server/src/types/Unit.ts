@@ -8,6 +8,8 @@ export interface Unit {
   Description?: string
   Status?: 'Active' | 'Inactive'
   Symbol?: string
+  Dimension?: string // Volume, Distance, Mass, Currency, Time, Energy, Quantity, Surface
+  'Unit type'?: string // Base or Derived
   Notes?: string
   createdAt?: string
   updatedAt?: string
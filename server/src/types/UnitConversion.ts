@@ -2,6 +2,8 @@
  * Unit Conversion Types
  */
 
+import { CalculationRecordRef, ConversionStep } from './Calculation'
+
 export interface UnitConversion {
   id: string
   Name?: string
@@ -55,3 +57,70 @@ export interface UpdateUnitConversionDto {
   Notes?: string
 }
 
+/**
+ * Activity Density - commodity-specific factor linking a mass unit and a volume unit
+ * (e.g. Diesel: 1 litre = 0.832 kg) through a Unit Conversion record
+ */
+export interface ActivityDensity {
+  id: string
+  Name?: string
+  'Unit Conversion'?: string | string[] // Record ID(s)
+  'Conversion factor'?: number
+  Description?: string
+}
+
+export interface ConvertUnitsInput {
+  value: number
+  /** Unit record ID, name or symbol */
+  from: string
+  /** Unit record ID, name or symbol */
+  to: string
+  /** Activity Density record ID or name - required to cross dimensions (e.g. Volume → Mass) */
+  activityDensity?: string
+}
+
+export interface ConvertedUnitRef extends CalculationRecordRef {
+  dimension?: string
+}
+
+export interface ConvertUnitsResult {
+  value: number
+  from: ConvertedUnitRef
+  to: ConvertedUnitRef
+  /** value × factor */
+  result: number
+  /** Product of every hop factor */
+  factor: number
+  activityDensity?: CalculationRecordRef
+  path: ConversionStep[]
+}
+
+/**
+ * Invalid conversion request (missing value, unknown unit)
+ */
+export class UnitConversionValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message)
+    this.name = 'UnitConversionValidationError'
+  }
+}
+
+/**
+ * Units belong to different dimensions and no Activity Density bridges them
+ */
+export class UnitDimensionMismatchError extends Error {
+  constructor(message: string, public fromDimension?: string, public toDimension?: string) {
+    super(message)
+    this.name = 'UnitDimensionMismatchError'
+  }
+}
+
+/**
+ * No chain of conversions links the two units
+ */
+export class UnitConversionPathError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnitConversionPathError'
+  }
+}
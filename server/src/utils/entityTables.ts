@@ -0,0 +1,151 @@
+/**
+ * Entity table registry
+ * Maps the API path segment of each ListDetailTemplate entity (e.g. "unit" for /api/unit)
+ * to its Airtable table, using the same environment variables and defaults as the
+ * entity's Airtable service.
+ */
+
+export interface EntityTable {
+  /** API path segment, also the TableSchema / FieldMapping table ID */
+  entity: string
+  /** Display name */
+  label: string
+  /** Airtable table ID or name */
+  airtableTable: string
+}
+
+const buildEntityTables = (): EntityTable[] => [
+  {
+    entity: 'companies',
+    label: 'Companies',
+    airtableTable: process.env.AIRTABLE_COMPANY_TABLE_ID || process.env.AIRTABLE_COMPANY_TABLE_NAME || 'tbl82H6ezrakMSkV1',
+  },
+  {
+    entity: 'geography',
+    label: 'Geography',
+    airtableTable: process.env.AIRTABLE_GEOGRAPHY_TABLE_ID || process.env.AIRTABLE_GEOGRAPHY_TABLE_NAME || 'tblErjfASiVycrsn9',
+  },
+  {
+    entity: 'emission-factors',
+    label: 'EF GWP',
+    airtableTable: process.env.AIRTABLE_EMISSION_FACTOR_TABLE_ID || process.env.AIRTABLE_EMISSION_FACTOR_TABLE_NAME || 'EF GWP',
+  },
+  {
+    entity: 'ghg-types',
+    label: 'GHG Types',
+    airtableTable: process.env.AIRTABLE_GHG_TYPE_TABLE_ID || process.env.AIRTABLE_GHG_TYPE_TABLE_NAME || 'GHG Type',
+  },
+  {
+    entity: 'emission-factor-version',
+    label: 'Emission Factor Versions',
+    airtableTable: process.env.AIRTABLE_EMISSION_FACTOR_VERSION_TABLE_ID || process.env.AIRTABLE_EMISSION_FACTOR_VERSION_TABLE_NAME || 'Emission Factor Version',
+  },
+  {
+    entity: 'application-list',
+    label: 'Application Lists',
+    airtableTable: process.env.AIRTABLE_APPLICATION_LIST_TABLE_ID || process.env.AIRTABLE_APPLICATION_LIST_TABLE_NAME || 'Application List',
+  },
+  {
+    entity: 'user-roles',
+    label: 'User Roles',
+    airtableTable: process.env.AIRTABLE_USER_ROLES_TABLE_ID || process.env.AIRTABLE_USER_ROLES_TABLE_NAME || 'User Roles',
+  },
+  {
+    entity: 'organizations',
+    label: 'Organizations',
+    airtableTable: process.env.AIRTABLE_ORGANIZATIONS_TABLE_ID || process.env.AIRTABLE_ORGANIZATIONS_TABLE_NAME || 'Organizations',
+  },
+  {
+    entity: 'industry-classification',
+    label: 'Industry Factors',
+    airtableTable: process.env.AIRTABLE_INDUSTRY_CLASSIFICATION_TABLE_ID || process.env.AIRTABLE_INDUSTRY_CLASSIFICATION_TABLE_NAME || 'Industry Classification & Emission Factors',
+  },
+  {
+    entity: 'users',
+    label: 'Users',
+    airtableTable: process.env.AIRTABLE_USER_TABLE_TABLE_ID || process.env.AIRTABLE_USER_TABLE_TABLE_NAME || 'user table',
+  },
+  {
+    entity: 'standard-emission-factors',
+    label: 'Standard Emission Factors',
+    airtableTable: process.env.AIRTABLE_STANDARD_EMISSION_FACTOR_TABLE_ID || process.env.AIRTABLE_STANDARD_EMISSION_FACTOR_TABLE_NAME || 'Standard Emission factors',
+  },
+  {
+    entity: 'normalized-activities',
+    label: 'Normalized Activities',
+    airtableTable: process.env.AIRTABLE_NORMALIZED_ACTIVITY_TABLE_ID || process.env.AIRTABLE_NORMALIZED_ACTIVITY_TABLE_NAME || 'Normalized Activities',
+  },
+  {
+    entity: 'ef-detailed-g',
+    label: 'EF/Detailed G',
+    airtableTable: process.env.AIRTABLE_EF_DETAILED_G_TABLE_ID || process.env.AIRTABLE_EF_DETAILED_G_TABLE_NAME || 'EF/Detailed G',
+  },
+  {
+    entity: 'scope',
+    label: 'Scopes',
+    airtableTable: process.env.AIRTABLE_SCOPE_TABLE_ID || process.env.AIRTABLE_SCOPE_TABLE_NAME || 'Scope',
+  },
+  {
+    entity: 'scope-categorisation',
+    label: 'Scope & Categorisations',
+    airtableTable: process.env.AIRTABLE_SCOPE_CATEGORISATION_TABLE_ID || process.env.AIRTABLE_SCOPE_CATEGORISATION_TABLE_NAME || 'scope & categorisation',
+  },
+  {
+    entity: 'unit',
+    label: 'Units',
+    airtableTable: process.env.AIRTABLE_UNIT_TABLE_ID || process.env.AIRTABLE_UNIT_TABLE_NAME || 'Unit',
+  },
+  {
+    entity: 'unit-conversion',
+    label: 'Unit Conversions',
+    airtableTable: process.env.AIRTABLE_UNIT_CONVERSION_TABLE_ID || process.env.AIRTABLE_UNIT_CONVERSION_TABLE_NAME || 'Unit Conversion',
+  },
+  {
+    entity: 'standard-ecm-catalog',
+    label: 'Standard ECM Catalogs',
+    airtableTable: process.env.AIRTABLE_STANDARD_ECM_CATALOG_TABLE_ID || process.env.AIRTABLE_STANDARD_ECM_CATALOG_TABLE_NAME || 'Standard ECM catalog',
+  },
+  {
+    entity: 'standard-ecm-classification',
+    label: 'Standard ECM Classifications',
+    airtableTable: process.env.AIRTABLE_STANDARD_ECM_CLASSIFICATION_TABLE_ID || process.env.AIRTABLE_STANDARD_ECM_CLASSIFICATION_TABLE_NAME || 'Standard ECM Classification',
+  },
+  {
+    entity: 'thermal-criteria',
+    label: 'Thermal Criteria',
+    airtableTable: 'Thermal Criteria',
+  },
+  {
+    entity: 'geo-code',
+    label: 'geo Code',
+    airtableTable: 'geo Code',
+  },
+  {
+    entity: 'activity-data',
+    label: 'Activity Data',
+    airtableTable: process.env.AIRTABLE_ACTIVITY_DATA_TABLE_ID || process.env.AIRTABLE_ACTIVITY_DATA_TABLE_NAME || 'Activity Data',
+  },
+  {
+    entity: 'ai-model-registry',
+    label: 'AI Models',
+    airtableTable: 'AI Model Registry',
+  },
+  {
+    entity: 'integration-marketplace',
+    label: 'Integrations',
+    airtableTable: 'Integration Marketplace',
+  },
+]
+
+/**
+ * Get the Airtable table of an entity by its API path segment
+ * Environment variables are read on each call so they are resolved after dotenv has loaded
+ */
+export function getEntityTable(entity: string): EntityTable | null {
+  const key = decodeURIComponent(entity).toLowerCase()
+  return buildEntityTables().find(table => table.entity === key) || null
+}
+
+export function listEntityTables(): EntityTable[] {
+  return buildEntityTables()
+}
@@ -0,0 +1,57 @@
+import { PassThrough } from 'stream'
+import { createExportWriter } from './exportWriters'
+import { readXlsx } from './spreadsheet'
+import { ExportColumn, ExportFormat, ExportValue } from '../types/Export'
+
+const columns: ExportColumn[] = [
+  { field: 'Name', label: 'Name', kind: 'string' },
+  { field: 'Value', label: 'Value', kind: 'number' },
+  { field: 'Scope', label: 'Scope', kind: 'string' },
+]
+
+/** Write the rows in a format and collect the file */
+async function exportRows(format: ExportFormat, rows: ExportValue[][]): Promise<Buffer> {
+  const out = new PassThrough()
+  const chunks: Buffer[] = []
+  out.on('data', chunk => chunks.push(Buffer.from(chunk)))
+  const ended = new Promise(resolve => out.on('end', resolve))
+  const writer = createExportWriter(format, columns, out)
+  await writer.start()
+  await writer.writeRows(rows)
+  await writer.end()
+  await ended
+  return Buffer.concat(chunks)
+}
+
+describe('export writers', () => {
+  it('quotes CSV cells and keeps text that spreadsheets would run as a formula as text', async () => {
+    const csv = (await exportRows('csv', [
+      ['Diesel, "red"', -2.5, ['Scope 1', 'Scope 3']],
+      ['=HYPERLINK("http://example.com")', null, '+1'],
+      ['-cmd', 0, '@SUM(A1)'],
+    ])).toString('utf8')
+
+    expect(csv.replace('\uFEFF', '').split('\r\n')).toEqual([
+      'Name,Value,Scope',
+      '"Diesel, ""red""",-2.5,Scope 1; Scope 3',
+      '"\'=HYPERLINK(""http://example.com"")",,\'+1',
+      '\'-cmd,0,\'@SUM(A1)',
+      '',
+    ])
+  })
+
+  it('writes JSON objects keyed by column label, and XLSX a spreadsheet can read back', async () => {
+    const rows: ExportValue[][] = [['Grid <UK>', 0.207, ['Scope 2']], ['Petrol', 2.3, null]]
+
+    expect(JSON.parse((await exportRows('json', rows)).toString('utf8'))).toEqual([
+      { Name: 'Grid <UK>', Value: 0.207, Scope: ['Scope 2'] },
+      { Name: 'Petrol', Value: 2.3, Scope: null },
+    ])
+    expect(readXlsx(await exportRows('xlsx', rows)).rows).toEqual([
+      ['Name', 'Value', 'Scope'],
+      ['Grid <UK>', '0.207', 'Scope 2'],
+      ['Petrol', '2.3'],
+    ])
+    expect((await exportRows('parquet', rows)).subarray(0, 4).toString('ascii')).toBe('PAR1')
+  })
+})
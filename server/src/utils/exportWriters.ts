@@ -0,0 +1,332 @@
+/**
+ * Streaming file writers for exports
+ * Rows are written as they arrive so large tables never have to be held in memory.
+ *
+ * XLSX workbooks are zip archives of XML parts; the worksheet is deflated chunk
+ * by chunk into a zip entry with a trailing data descriptor, since its size is
+ * unknown until the last row.
+ */
+
+import * as zlib from 'zlib'
+import { Writable } from 'stream'
+import { ExportColumn, ExportFormat, ExportValue, ExportWriter } from '../types/Export'
+import { ParquetExportWriter } from './parquetWriter'
+import { writeChunk } from './streamWrite'
+
+/** Arrays (linked records, multiple selects) become "a; b" in flat formats */
+export function flattenValue(value: ExportValue): string | number | boolean | null {
+  if (Array.isArray(value)) return value.join('; ')
+  return value
+}
+
+export function createExportWriter(format: ExportFormat, columns: ExportColumn[], out: Writable): ExportWriter {
+  switch (format) {
+    case 'csv':
+      return new CsvExportWriter(columns, out)
+    case 'json':
+      return new JsonExportWriter(columns, out)
+    case 'xlsx':
+      return new XlsxExportWriter(columns, out)
+    case 'parquet':
+      return new ParquetExportWriter(columns, out)
+  }
+}
+
+class CsvExportWriter implements ExportWriter {
+  contentType = 'text/csv; charset=utf-8'
+  extension = 'csv'
+
+  constructor(private columns: ExportColumn[], private out: Writable) {}
+
+  async start(): Promise<void> {
+    // BOM so Excel opens the file as UTF-8
+    await writeChunk(this.out, '\uFEFF' + this.columns.map(column => this.escape(column.label)).join(',') + '\r\n')
+  }
+
+  async writeRows(rows: ExportValue[][]): Promise<void> {
+    if (rows.length === 0) return
+    await writeChunk(this.out, rows.map(row => row.map(value => this.escape(flattenValue(value))).join(',')).join('\r\n') + '\r\n')
+  }
+
+  async end(): Promise<void> {
+    this.out.end()
+  }
+
+  private escape(value: string | number | boolean | null): string {
+    if (value === null || value === '') return ''
+    let text = String(value)
+    // Spreadsheets run text starting with these as a formula - a leading quote keeps it text
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+}
+
+class JsonExportWriter implements ExportWriter {
+  contentType = 'application/json; charset=utf-8'
+  extension = 'json'
+  private count = 0
+
+  constructor(private columns: ExportColumn[], private out: Writable) {}
+
+  async start(): Promise<void> {
+    await writeChunk(this.out, '[')
+  }
+
+  async writeRows(rows: ExportValue[][]): Promise<void> {
+    if (rows.length === 0) return
+    const objects = rows.map(row => {
+      const object: Record<string, ExportValue> = {}
+      this.columns.forEach((column, index) => { object[column.label] = row[index] })
+      return JSON.stringify(object)
+    })
+    await writeChunk(this.out, (this.count > 0 ? ',\n' : '\n') + objects.join(',\n'))
+    this.count += rows.length
+  }
+
+  async end(): Promise<void> {
+    this.out.end(this.count > 0 ? '\n]\n' : ']\n')
+  }
+}
+
+/** Excel rejects cells longer than this */
+const XLSX_MAX_CELL_LENGTH = 32767
+
+class XlsxExportWriter implements ExportWriter {
+  contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  extension = 'xlsx'
+  private zip: ZipStreamWriter
+  private rowNumber = 0
+
+  constructor(private columns: ExportColumn[], out: Writable) {
+    this.zip = new ZipStreamWriter(out)
+  }
+
+  async start(): Promise<void> {
+    await this.zip.addFile('[Content_Types].xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>')
+    await this.zip.addFile('_rels/.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>')
+    await this.zip.addFile('xl/workbook.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets>' +
+      '</workbook>')
+    await this.zip.addFile('xl/_rels/workbook.xml.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>')
+    // Style 1 is the bold header row
+    await this.zip.addFile('xl/styles.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>')
+
+    await this.zip.startEntry('xl/worksheets/sheet1.xml')
+    await this.zip.writeEntry(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      '<sheetData>' +
+      this.rowXml(this.columns.map(column => column.label), 1)
+    )
+  }
+
+  async writeRows(rows: ExportValue[][]): Promise<void> {
+    if (rows.length === 0) return
+    await this.zip.writeEntry(rows.map(row => this.rowXml(row.map(flattenValue))).join(''))
+  }
+
+  async end(): Promise<void> {
+    await this.zip.writeEntry('</sheetData></worksheet>')
+    await this.zip.endEntry()
+    await this.zip.finish()
+  }
+
+  private rowXml(values: Array<string | number | boolean | null>, style?: number): string {
+    this.rowNumber++
+    const cells = values.map((value, index) => {
+      if (value === null || value === '') return ''
+      const reference = `${columnLetter(index)}${this.rowNumber}`
+      const styleAttribute = style ? ` s="${style}"` : ''
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`
+      }
+      if (typeof value === 'boolean') {
+        return `<c r="${reference}"${styleAttribute} t="b"><v>${value ? 1 : 0}</v></c>`
+      }
+      const text = escapeXml(String(value).slice(0, XLSX_MAX_CELL_LENGTH))
+      return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`
+    })
+    return `<row r="${this.rowNumber}">${cells.join('')}</row>`
+  }
+}
+
+/** 0 -> A, 25 -> Z, 26 -> AA */
+function columnLetter(index: number): string {
+  let letters = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+  }
+  return letters
+}
+
+/** Escape markup and drop control characters that are not allowed in XML */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+interface ZipEntry {
+  name: Buffer
+  flags: number
+  crc: number
+  compressedSize: number
+  size: number
+  offset: number
+}
+
+/**
+ * Minimal streaming zip writer (deflate, no zip64 - entries and archive under 4 GB)
+ */
+class ZipStreamWriter {
+  private entries: ZipEntry[] = []
+  private current: ZipEntry | null = null
+  private offset = 0
+  private dosTime: number
+  private dosDate: number
+
+  constructor(private out: Writable) {
+    const now = new Date()
+    this.dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2)
+    this.dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+  }
+
+  /** Add a small entry whose content is known up front */
+  async addFile(name: string, content: string): Promise<void> {
+    const data = Buffer.from(content, 'utf8')
+    const compressed = zlib.deflateRawSync(data)
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      flags: 0x0800, // UTF-8 names
+      crc: zlib.crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+    }
+    this.entries.push(entry)
+    await this.write(this.localHeader(entry))
+    await this.write(compressed)
+  }
+
+  /** Start an entry whose content is streamed with writeEntry */
+  async startEntry(name: string): Promise<void> {
+    this.current = {
+      name: Buffer.from(name, 'utf8'),
+      flags: 0x0808, // UTF-8 names, sizes in data descriptor
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+    }
+    this.entries.push(this.current)
+    await this.write(this.localHeader(this.current))
+  }
+
+  async writeEntry(content: string): Promise<void> {
+    const entry = this.current!
+    const data = Buffer.from(content, 'utf8')
+    // Sync flush ends each chunk on a byte boundary without closing the deflate stream
+    const compressed = zlib.deflateRawSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+    entry.crc = zlib.crc32(data, entry.crc)
+    entry.size += data.length
+    entry.compressedSize += compressed.length
+    await this.write(compressed)
+  }
+
+  async endEntry(): Promise<void> {
+    const entry = this.current!
+    // Empty final block closes the deflate stream
+    const last = zlib.deflateRawSync(Buffer.alloc(0))
+    entry.compressedSize += last.length
+    await this.write(last)
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(0x08074b50, 0)
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4)
+    descriptor.writeUInt32LE(entry.compressedSize, 8)
+    descriptor.writeUInt32LE(entry.size, 12)
+    await this.write(descriptor)
+    this.current = null
+  }
+
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46)
+      header.writeUInt32LE(0x02014b50, 0)
+      header.writeUInt16LE(20, 4) // version made by
+      header.writeUInt16LE(20, 6) // version needed
+      header.writeUInt16LE(entry.flags, 8)
+      header.writeUInt16LE(8, 10) // deflate
+      header.writeUInt16LE(this.dosTime, 12)
+      header.writeUInt16LE(this.dosDate, 14)
+      header.writeUInt32LE(entry.crc >>> 0, 16)
+      header.writeUInt32LE(entry.compressedSize, 20)
+      header.writeUInt32LE(entry.size, 24)
+      header.writeUInt16LE(entry.name.length, 28)
+      header.writeUInt32LE(entry.offset, 42)
+      await this.write(Buffer.concat([header, entry.name]))
+    }
+
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054b50, 0)
+    end.writeUInt16LE(this.entries.length, 8)
+    end.writeUInt16LE(this.entries.length, 10)
+    end.writeUInt32LE(this.offset - directoryOffset, 12)
+    end.writeUInt32LE(directoryOffset, 16)
+    this.offset += end.length
+    this.out.end(end)
+  }
+
+  private localHeader(entry: ZipEntry): Buffer {
+    const streamed = (entry.flags & 0x08) !== 0
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(0x04034b50, 0)
+    header.writeUInt16LE(20, 4)
+    header.writeUInt16LE(entry.flags, 6)
+    header.writeUInt16LE(8, 8)
+    header.writeUInt16LE(this.dosTime, 10)
+    header.writeUInt16LE(this.dosDate, 12)
+    header.writeUInt32LE(streamed ? 0 : entry.crc >>> 0, 14)
+    header.writeUInt32LE(streamed ? 0 : entry.compressedSize, 18)
+    header.writeUInt32LE(streamed ? 0 : entry.size, 22)
+    header.writeUInt16LE(entry.name.length, 26)
+    return Buffer.concat([header, entry.name])
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length
+    await writeChunk(this.out, chunk)
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Minimal streaming Parquet writer for exports
+ *
+ * Writes one flat schema of optional columns (DOUBLE, BOOLEAN or UTF8 strings),
+ * buffering rows into row groups with one GZIP-compressed PLAIN data page per
+ * column. File metadata is Thrift compact-encoded in the footer, after the last
+ * row group, so rows can be streamed as they arrive.
+ */
+
+import * as zlib from 'zlib'
+import { Writable } from 'stream'
+import { ExportColumn, ExportValue, ExportWriter } from '../types/Export'
+import { writeChunk } from './streamWrite'
+
+const MAGIC = Buffer.from('PAR1', 'ascii')
+
+/** Rows buffered per row group */
+const ROW_GROUP_SIZE = 10000
+
+// parquet.thrift enums
+const PhysicalType = { BOOLEAN: 0, DOUBLE: 5, BYTE_ARRAY: 6 }
+const ConvertedType = { UTF8: 0 }
+const Repetition = { REQUIRED: 0, OPTIONAL: 1 }
+const Encoding = { PLAIN: 0, RLE: 3 }
+const Codec = { GZIP: 2 }
+const PageType = { DATA_PAGE: 0 }
+
+// Thrift compact protocol type IDs
+const CompactType = { TRUE: 1, FALSE: 2, I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 }
+
+interface ColumnChunkInfo {
+  type: number
+  numValues: number
+  uncompressedSize: number
+  compressedSize: number
+  dataPageOffset: number
+}
+
+interface RowGroupInfo {
+  numRows: number
+  totalByteSize: number
+  columns: ColumnChunkInfo[]
+}
+
+export class ParquetExportWriter implements ExportWriter {
+  contentType = 'application/vnd.apache.parquet'
+  extension = 'parquet'
+  private buffered: ExportValue[][] = []
+  private rowGroups: RowGroupInfo[] = []
+  private offset = 0
+  private numRows = 0
+
+  constructor(private columns: ExportColumn[], private out: Writable) {}
+
+  async start(): Promise<void> {
+    await this.write(MAGIC)
+  }
+
+  async writeRows(rows: ExportValue[][]): Promise<void> {
+    this.buffered.push(...rows)
+    while (this.buffered.length >= ROW_GROUP_SIZE) {
+      await this.flushRowGroup(this.buffered.splice(0, ROW_GROUP_SIZE))
+    }
+  }
+
+  async end(): Promise<void> {
+    if (this.buffered.length > 0) {
+      await this.flushRowGroup(this.buffered.splice(0))
+    }
+
+    const metadata = this.fileMetadata()
+    const length = Buffer.alloc(4)
+    length.writeUInt32LE(metadata.length, 0)
+    await this.write(metadata)
+    this.offset += length.length + MAGIC.length
+    this.out.end(Buffer.concat([length, MAGIC]))
+  }
+
+  private physicalType(column: ExportColumn): number {
+    if (column.kind === 'number') return PhysicalType.DOUBLE
+    if (column.kind === 'boolean') return PhysicalType.BOOLEAN
+    return PhysicalType.BYTE_ARRAY
+  }
+
+  private async flushRowGroup(rows: ExportValue[][]): Promise<void> {
+    const group: RowGroupInfo = { numRows: rows.length, totalByteSize: 0, columns: [] }
+
+    for (let index = 0; index < this.columns.length; index++) {
+      const type = this.physicalType(this.columns[index])
+      const values = rows.map(row => this.toPhysical(row[index], type))
+      const page = Buffer.concat([
+        encodeDefinitionLevels(values.map(value => (value === null ? 0 : 1))),
+        encodePlain(values.filter(value => value !== null) as Array<number | boolean | string>, type),
+      ])
+      const compressed = zlib.gzipSync(page)
+
+      const header = new CompactWriter()
+      header.i32(1, PageType.DATA_PAGE)
+      header.i32(2, page.length)
+      header.i32(3, compressed.length)
+      header.structBegin(5) // DataPageHeader
+      header.i32(1, rows.length)
+      header.i32(2, Encoding.PLAIN)
+      header.i32(3, Encoding.RLE)
+      header.i32(4, Encoding.RLE)
+      header.structEnd()
+      const headerBytes = header.finish()
+
+      const chunk: ColumnChunkInfo = {
+        type,
+        numValues: rows.length,
+        uncompressedSize: headerBytes.length + page.length,
+        compressedSize: headerBytes.length + compressed.length,
+        dataPageOffset: this.offset,
+      }
+      await this.write(Buffer.concat([headerBytes, compressed]))
+      group.columns.push(chunk)
+      group.totalByteSize += chunk.uncompressedSize
+    }
+
+    this.rowGroups.push(group)
+    this.numRows += rows.length
+  }
+
+  private toPhysical(value: ExportValue, type: number): number | boolean | string | null {
+    if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) return null
+    if (type === PhysicalType.DOUBLE) {
+      const number = typeof value === 'number' ? value : Number(value)
+      return Number.isFinite(number) ? number : null
+    }
+    if (type === PhysicalType.BOOLEAN) {
+      return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true'
+    }
+    return Array.isArray(value) ? value.join('; ') : String(value)
+  }
+
+  private fileMetadata(): Buffer {
+    const meta = new CompactWriter()
+    meta.i32(1, 1) // version
+    meta.list(2, CompactType.STRUCT, [null, ...this.columns], column => {
+      if (column === null) {
+        meta.binary(4, 'schema')
+        meta.i32(5, this.columns.length)
+        return
+      }
+      const type = this.physicalType(column)
+      meta.i32(1, type)
+      meta.i32(3, Repetition.OPTIONAL)
+      meta.binary(4, column.label)
+      if (type === PhysicalType.BYTE_ARRAY) meta.i32(6, ConvertedType.UTF8)
+    })
+    meta.i64(3, this.numRows)
+    meta.list(4, CompactType.STRUCT, this.rowGroups, group => {
+      meta.list(1, CompactType.STRUCT, group.columns, (chunk, index) => {
+        meta.i64(2, chunk.dataPageOffset)
+        meta.structBegin(3) // ColumnMetaData
+        meta.i32(1, chunk.type)
+        meta.list(2, CompactType.I32, [Encoding.PLAIN, Encoding.RLE], encoding => meta.rawI32(encoding))
+        meta.list(3, CompactType.BINARY, [this.columns[index].label], name => meta.rawBinary(name))
+        meta.i32(4, Codec.GZIP)
+        meta.i64(5, chunk.numValues)
+        meta.i64(6, chunk.uncompressedSize)
+        meta.i64(7, chunk.compressedSize)
+        meta.i64(9, chunk.dataPageOffset)
+        meta.structEnd()
+      })
+      meta.i64(2, group.totalByteSize)
+      meta.i64(3, group.numRows)
+    })
+    meta.binary(6, 'another-ra export')
+    return meta.finish()
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length
+    await writeChunk(this.out, chunk)
+  }
+}
+
+/**
+ * RLE/bit-packing hybrid encoding of definition levels (bit width 1),
+ * prefixed with its byte length as data page v1 requires
+ */
+function encodeDefinitionLevels(levels: number[]): Buffer {
+  const bytes: number[] = []
+  let index = 0
+  while (index < levels.length) {
+    let runEnd = index + 1
+    while (runEnd < levels.length && levels[runEnd] === levels[index]) runEnd++
+    bytes.push(...varint((runEnd - index) * 2), levels[index])
+    index = runEnd
+  }
+  const length = Buffer.alloc(4)
+  length.writeUInt32LE(bytes.length, 0)
+  return Buffer.concat([length, Buffer.from(bytes)])
+}
+
+/** PLAIN encoding of the non-null values */
+function encodePlain(values: Array<number | boolean | string>, type: number): Buffer {
+  if (type === PhysicalType.DOUBLE) {
+    const buffer = Buffer.alloc(values.length * 8)
+    values.forEach((value, index) => buffer.writeDoubleLE(value as number, index * 8))
+    return buffer
+  }
+  if (type === PhysicalType.BOOLEAN) {
+    // Bit-packed, least significant bit first
+    const buffer = Buffer.alloc(Math.ceil(values.length / 8))
+    values.forEach((value, index) => {
+      if (value) buffer[index >> 3] |= 1 << (index & 7)
+    })
+    return buffer
+  }
+  return Buffer.concat(values.map(value => {
+    const text = Buffer.from(value as string, 'utf8')
+    const length = Buffer.alloc(4)
+    length.writeUInt32LE(text.length, 0)
+    return Buffer.concat([length, text])
+  }))
+}
+
+/** Unsigned LEB128 varint (values below 2^53) */
+function varint(value: number): number[] {
+  const bytes: number[] = []
+  let remaining = value
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80)
+    remaining = Math.floor(remaining / 0x80)
+  }
+  bytes.push(remaining)
+  return bytes
+}
+
+/** Zigzag encoding of a signed integer (values within ±2^52) */
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1
+}
+
+/**
+ * Thrift compact protocol writer - just the parts Parquet metadata needs
+ */
+class CompactWriter {
+  private bytes: number[] = []
+  private lastFieldId = 0
+  private fieldIdStack: number[] = []
+
+  i32(fieldId: number, value: number): void {
+    this.fieldHeader(fieldId, CompactType.I32)
+    this.rawI32(value)
+  }
+
+  i64(fieldId: number, value: number): void {
+    this.fieldHeader(fieldId, CompactType.I64)
+    this.bytes.push(...varint(zigzag(value)))
+  }
+
+  binary(fieldId: number, value: string): void {
+    this.fieldHeader(fieldId, CompactType.BINARY)
+    this.rawBinary(value)
+  }
+
+  rawI32(value: number): void {
+    this.bytes.push(...varint(zigzag(value)))
+  }
+
+  rawBinary(value: string): void {
+    const data = Buffer.from(value, 'utf8')
+    this.bytes.push(...varint(data.length), ...data)
+  }
+
+  structBegin(fieldId: number): void {
+    this.fieldHeader(fieldId, CompactType.STRUCT)
+    this.fieldIdStack.push(this.lastFieldId)
+    this.lastFieldId = 0
+  }
+
+  structEnd(): void {
+    this.bytes.push(0)
+    this.lastFieldId = this.fieldIdStack.pop() || 0
+  }
+
+  /** List field; struct elements are opened and closed around writeItem */
+  list<T>(fieldId: number, elementType: number, items: T[], writeItem: (item: T, index: number) => void): void {
+    this.fieldHeader(fieldId, CompactType.LIST)
+    if (items.length < 15) {
+      this.bytes.push((items.length << 4) | elementType)
+    } else {
+      this.bytes.push(0xf0 | elementType, ...varint(items.length))
+    }
+    items.forEach((item, index) => {
+      if (elementType === CompactType.STRUCT) {
+        this.fieldIdStack.push(this.lastFieldId)
+        this.lastFieldId = 0
+        writeItem(item, index)
+        this.structEnd()
+      } else {
+        writeItem(item, index)
+      }
+    })
+  }
+
+  finish(): Buffer {
+    this.bytes.push(0) // end of the top-level struct
+    return Buffer.from(this.bytes)
+  }
+
+  private fieldHeader(fieldId: number, type: number): void {
+    const delta = fieldId - this.lastFieldId
+    if (delta > 0 && delta <= 15) {
+      this.bytes.push((delta << 4) | type)
+    } else {
+      this.bytes.push(type, ...varint(zigzag(fieldId)))
+    }
+    this.lastFieldId = fieldId
+  }
+}
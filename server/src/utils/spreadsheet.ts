@@ -0,0 +1,300 @@
+/**
+ * Spreadsheet parsing utilities for file imports
+ * Reads CSV text and XLSX workbooks into header-keyed rows.
+ *
+ * XLSX files are zip archives of XML parts; only the parts needed to read
+ * cell values (workbook, relationships, shared strings, one worksheet) are
+ * extracted, using zlib for deflated entries.
+ */
+
+import * as zlib from 'zlib'
+
+export type SpreadsheetFormat = 'csv' | 'xlsx'
+
+export interface ParsedSpreadsheet {
+  format: SpreadsheetFormat
+  /** Sheet the rows were read from (XLSX only) */
+  sheet?: string
+  headers: string[]
+  /** One object per data row, keyed by header. Fully empty rows are dropped. */
+  rows: Array<{ rowNumber: number; values: Record<string, string> }>
+}
+
+/**
+ * Detect the file format from its name, MIME type or zip signature
+ */
+export function detectSpreadsheetFormat(buffer: Buffer, filename?: string, mimeType?: string): SpreadsheetFormat {
+  const name = (filename || '').toLowerCase()
+  if (name.endsWith('.xlsx') || (mimeType || '').includes('spreadsheetml')) {
+    return 'xlsx'
+  }
+  if (name.endsWith('.csv') || name.endsWith('.txt') || (mimeType || '').includes('csv')) {
+    return 'csv'
+  }
+  // "PK\x03\x04" - zip archive
+  return buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50 ? 'xlsx' : 'csv'
+}
+
+/**
+ * Parse a CSV or XLSX file. The first non-empty row is used as the header row.
+ */
+export function parseSpreadsheet(
+  buffer: Buffer,
+  options: { filename?: string; mimeType?: string; sheet?: string } = {}
+): ParsedSpreadsheet {
+  const format = detectSpreadsheetFormat(buffer, options.filename, options.mimeType)
+
+  let sheet: string | undefined
+  let matrix: string[][]
+  if (format === 'xlsx') {
+    const workbook = readXlsx(buffer, options.sheet)
+    sheet = workbook.sheet
+    matrix = workbook.rows
+  } else {
+    matrix = parseCsv(buffer.toString('utf8'))
+  }
+
+  const headerIndex = matrix.findIndex(row => row.some(cell => cell.trim() !== ''))
+  if (headerIndex === -1) {
+    return { format, sheet, headers: [], rows: [] }
+  }
+
+  const headers = matrix[headerIndex].map(cell => cell.trim())
+  const rows: ParsedSpreadsheet['rows'] = []
+  for (let i = headerIndex + 1; i < matrix.length; i++) {
+    const cells = matrix[i]
+    if (!cells.some(cell => cell.trim() !== '')) continue
+
+    const values: Record<string, string> = {}
+    headers.forEach((header, column) => {
+      if (header) {
+        values[header] = (cells[column] ?? '').trim()
+      }
+    })
+    // 1-based line number as shown in a spreadsheet application
+    rows.push({ rowNumber: i + 1, values })
+  }
+
+  return { format, sheet, headers: headers.filter(Boolean), rows }
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, embedded newlines).
+ * The delimiter is detected from the first line (comma, semicolon or tab).
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const firstLine = content.slice(0, content.indexOf('\n') === -1 ? undefined : content.indexOf('\n'))
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',')
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Read the cell values of one worksheet (the first one by default)
+ */
+export function readXlsx(buffer: Buffer, sheetName?: string): { sheet: string; rows: string[][] } {
+  const entries = readZipEntries(buffer)
+  const readPart = (path: string): string | undefined => {
+    const entry = entries.get(path)
+    return entry ? entry().toString('utf8') : undefined
+  }
+
+  const workbookXml = readPart('xl/workbook.xml')
+  if (!workbookXml) {
+    throw new Error('Invalid XLSX file: xl/workbook.xml not found')
+  }
+
+  const sheets = Array.from(workbookXml.matchAll(/<sheet\b([^>]*)\/?>/g)).map(match => ({
+    name: decodeXml(getAttribute(match[1], 'name') || ''),
+    relationshipId: getAttribute(match[1], 'r:id') || '',
+  }))
+  if (sheets.length === 0) {
+    throw new Error('Invalid XLSX file: workbook has no sheets')
+  }
+
+  const sheet = sheetName
+    ? sheets.find(s => s.name.toLowerCase() === sheetName.toLowerCase())
+    : sheets[0]
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found. Available sheets: ${sheets.map(s => s.name).join(', ')}`)
+  }
+
+  const relationshipsXml = readPart('xl/_rels/workbook.xml.rels') || ''
+  const relationship = Array.from(relationshipsXml.matchAll(/<Relationship\b([^>]*)\/?>/g))
+    .map(match => match[1])
+    .find(attributes => getAttribute(attributes, 'Id') === sheet.relationshipId)
+  const target = relationship ? getAttribute(relationship, 'Target') || '' : ''
+  const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`
+
+  const sheetXml = readPart(sheetPath)
+  if (!sheetXml) {
+    throw new Error(`Invalid XLSX file: worksheet for sheet "${sheet.name}" not found`)
+  }
+
+  const sharedStrings = Array.from((readPart('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g))
+    .map(match => readText(match[1]))
+
+  const rows: string[][] = []
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = []
+    let nextColumn = 0
+    for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]
+      const body = cellMatch[2] || ''
+      const reference = getAttribute(attributes, 'r')
+      const column = reference ? columnIndex(reference) : nextColumn
+      nextColumn = column + 1
+
+      const type = getAttribute(attributes, 't')
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+      let value = ''
+      if (type === 's') {
+        value = rawValue !== undefined ? sharedStrings[Number(rawValue)] ?? '' : ''
+      } else if (type === 'inlineStr') {
+        value = readText(body)
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE'
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue)
+      }
+
+      while (cells.length < column) cells.push('')
+      cells[column] = value
+    }
+    rows.push(cells)
+  }
+
+  return { sheet: sheet.name, rows }
+}
+
+/**
+ * Convert an Excel serial day number (1900 date system) to YYYY-MM-DD
+ */
+export function excelSerialToIsoDate(serial: number): string {
+  const epoch = Date.UTC(1899, 11, 30)
+  return new Date(epoch + Math.round(serial) * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+}
+
+/**
+ * List the entries of a zip archive from its central directory.
+ * Entry contents are decompressed on demand.
+ */
+function readZipEntries(buffer: Buffer): Map<string, () => Buffer> {
+  // End of central directory record: at least 22 bytes, followed by an optional comment
+  let endOffset = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Invalid XLSX file: not a zip archive')
+  }
+
+  const entryCount = buffer.readUInt16LE(endOffset + 10)
+  let offset = buffer.readUInt32LE(endOffset + 16)
+  const entries = new Map<string, () => Buffer>()
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Invalid XLSX file: corrupt central directory')
+    }
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    entries.set(name, () => {
+      const localNameLength = buffer.readUInt16LE(localHeaderOffset + 26)
+      const localExtraLength = buffer.readUInt16LE(localHeaderOffset + 28)
+      const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength
+      const data = buffer.subarray(dataStart, dataStart + compressedSize)
+      if (method === 0) return data
+      if (method === 8) return zlib.inflateRawSync(data)
+      throw new Error(`Invalid XLSX file: unsupported compression method ${method} for ${name}`)
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return attributes.match(new RegExp(`(?:^|\\s)${escaped}="([^"]*)"`))?.[1]
+}
+
+/** Concatenate the <t> runs of a shared or inline string */
+function readText(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g))
+    .map(match => decodeXml(match[1]))
+    .join('')
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
+
+/** "C12" -> 2 */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A'
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
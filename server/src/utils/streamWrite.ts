@@ -0,0 +1,18 @@
+import { Writable } from 'stream'
+
+/**
+ * Write to a stream, waiting for it to drain when its buffer is full
+ * Resolves on close too, so a client disconnect never leaves a writer hanging
+ */
+export function writeChunk(out: Writable, chunk: Buffer | string): Promise<void> {
+  if (out.write(chunk)) return Promise.resolve()
+  return new Promise(resolve => {
+    const done = () => {
+      out.off('drain', done)
+      out.off('close', done)
+      resolve()
+    }
+    out.once('drain', done)
+    out.once('close', done)
+  })
+}
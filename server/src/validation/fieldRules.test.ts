@@ -0,0 +1,68 @@
+import { FieldRule, checkFieldValue, describeProblems, validateRecord } from './fieldRules'
+
+const RULES: FieldRule[] = [
+  { field: 'Name', type: 'text', required: true },
+  { field: 'Quantity', type: 'number' },
+  { field: 'Year', type: 'integer' },
+  { field: 'Active', type: 'boolean' },
+  { field: 'Period Start', type: 'date' },
+  { field: 'Calculated At', type: 'timestamp', readOnly: true },
+  { field: 'Unit', type: 'links', aliases: ['unit'] },
+  { field: 'Status', type: 'text', options: ['Active', 'Inactive'] },
+]
+
+describe('validateRecord', () => {
+  it('converts numbers and booleans sent as strings, and keeps other values as sent', () => {
+    const { value, problems } = validateRecord(RULES, {
+      Name: 'Diesel', Quantity: ' 12.5 ', Year: '2024', Active: 'false', 'Period Start': '2024-01-31', unit: 'recL',
+    })
+    expect(problems).toEqual([])
+    expect(value).toEqual({ Name: 'Diesel', Quantity: 12.5, Year: 2024, Active: false, 'Period Start': '2024-01-31', unit: 'recL' })
+  })
+
+  it('reports one problem per field', () => {
+    const { problems } = validateRecord(RULES, {
+      Quantity: 'lots', Year: 2024.5, 'Period Start': '31/01/2024', 'Calculated At': '2024-01-31T10:00:00Z',
+      Unit: [1], Status: 'Gone', Colour: 'red',
+    })
+    expect(problems).toEqual([
+      { field: 'Quantity', code: 'type', message: 'must be a number' },
+      { field: 'Year', code: 'type', message: 'must be a whole number' },
+      { field: 'Period Start', code: 'type', message: 'must be a date (YYYY-MM-DD)' },
+      { field: 'Calculated At', code: 'readOnly', message: 'is read-only' },
+      { field: 'Unit', code: 'type', message: 'must be a record ID or a list of record IDs' },
+      { field: 'Status', code: 'option', message: 'must be one of: Active, Inactive' },
+      { field: 'Colour', code: 'unknown', message: 'is not a field of this table' },
+      { field: 'Name', code: 'required', message: 'is required' },
+    ])
+    expect(describeProblems(problems.slice(0, 2))).toBe('Quantity must be a number; Year must be a whole number')
+  })
+
+  it('checks only the fields of an update, which cannot empty a required one', () => {
+    expect(validateRecord(RULES, { Quantity: 3 }, { partial: true }).problems).toEqual([])
+    expect(validateRecord(RULES, { Name: '' }, { partial: true }).problems).toEqual([
+      { field: 'Name', code: 'required', message: 'is required' },
+    ])
+  })
+
+  it('clears fields sent empty', () => {
+    expect(validateRecord(RULES, { Name: 'x', Quantity: '', Unit: '', Active: null }).value)
+      .toEqual({ Name: 'x', Quantity: null, Unit: [], Active: null })
+  })
+
+  it('keeps unknown fields of tables with user-defined fields, and refuses bodies that are not records', () => {
+    expect(validateRecord(RULES, { Name: 'x', Colour: 'red' }, { allowUnknown: true }))
+      .toEqual({ value: { Name: 'x', Colour: 'red' }, problems: [] })
+    expect(validateRecord(RULES, [{ Name: 'x' }]).problems).toEqual([
+      { field: '', code: 'type', message: 'The body must be an object of field values' },
+    ])
+  })
+})
+
+describe('checkFieldValue', () => {
+  it('refuses numbers that are not finite, and timestamps without a time', () => {
+    expect(checkFieldValue({ field: 'Quantity', type: 'number' }, 'Infinity')).toEqual({ code: 'type', message: 'must be a number' })
+    expect(checkFieldValue({ field: 'At', type: 'timestamp' }, '2024-01-31')).toEqual({ code: 'type', message: 'must be a date and time (ISO 8601)' })
+    expect(checkFieldValue({ field: 'At', type: 'timestamp' }, '2024-01-31T10:00:00+02:00')).toBeNull()
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * Field Rules
+ *
+ * Runtime checks of record values sent to the API. Rules are derived from the entity
+ * descriptors (validation/validateRequest) and, on the frontend, from the FieldConfig of
+ * a ListDetailTemplate - src/lib/validation.ts imports this module (the @server/* path of
+ * the frontend tsconfig), so a value the detail panel accepts is one the API accepts.
+ *
+ * This module has no imports, so it builds in both the server and the frontend.
+ */
+
+/**
+ * - text: string
+ * - number / integer: number, or a string holding one (form inputs send strings)
+ * - boolean: true / false, or 'true' / 'false'
+ * - date: YYYY-MM-DD or an ISO timestamp
+ * - timestamp: ISO date and time
+ * - textArray / links: a string or a list of strings (links: record IDs)
+ * - json: any value
+ *
+ * Only numbers and booleans sent as strings are converted; other values are kept as sent.
+ */
+export type FieldValueType =
+  | 'text'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'timestamp'
+  | 'textArray'
+  | 'links'
+  | 'json'
+
+export interface FieldRule {
+  /** API field name */
+  field: string
+  /** Other names the field is sent under (legacy aliases) */
+  aliases?: string[]
+  type: FieldValueType
+  /** Must be given (and not empty) on create, and cannot be emptied on update */
+  required?: boolean
+  /** Computed by the server - refused in writes */
+  readOnly?: boolean
+  /** Allowed values (select fields) */
+  options?: string[]
+}
+
+export interface FieldProblem {
+  field: string
+  /**
+   * required - missing or empty
+   * type - value of the wrong type
+   * option - not one of the allowed values
+   * readOnly - computed field
+   * unknown - no such field
+   */
+  code: 'required' | 'type' | 'option' | 'readOnly' | 'unknown'
+  message: string
+}
+
+export interface RecordValidation {
+  /** The record with numbers and booleans sent as strings converted */
+  value: Record<string, any>
+  problems: FieldProblem[]
+}
+
+export interface RecordValidationOptions {
+  /** Update: only the fields given are checked (default false - a create) */
+  partial?: boolean
+  /** Keep fields without a rule instead of refusing them (tables with user-defined fields) */
+  allowUnknown?: boolean
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+type Conversion = { value: any } | { error: string }
+
+const toNumber = (value: unknown, integer: boolean): Conversion => {
+  const number = typeof value === 'string' ? Number(value.trim()) : value
+  if (typeof number !== 'number' || !Number.isFinite(number) || (typeof value === 'string' && value.trim() === '')) {
+    return { error: integer ? 'must be a whole number' : 'must be a number' }
+  }
+  if (integer && !Number.isInteger(number)) {
+    return { error: 'must be a whole number' }
+  }
+  return { value: number }
+}
+
+const toStrings = (value: unknown, what: string): Conversion => {
+  const list = Array.isArray(value) ? value : [value]
+  return list.every(item => typeof item === 'string')
+    ? { value }
+    : { error: `must be ${what}` }
+}
+
+/**
+ * Value converted to the type of a rule - empty values clear the field: kept as sent for
+ * text, [] for lists sent as '', null for the other types (which refuse '')
+ */
+const convert = (rule: FieldRule, value: unknown): Conversion => {
+  if (isEmpty(value)) {
+    if (rule.type === 'text' || rule.type === 'json') return { value }
+    if (rule.type === 'textArray' || rule.type === 'links') return { value: value === '' ? [] : value }
+    return { value: null }
+  }
+
+  switch (rule.type) {
+    case 'text':
+      return typeof value === 'string' ? { value } : { error: 'must be text' }
+    case 'number':
+    case 'integer':
+      return toNumber(value, rule.type === 'integer')
+    case 'boolean':
+      if (typeof value === 'boolean') return { value }
+      if (value === 'true' || value === 'false') return { value: value === 'true' }
+      return { error: 'must be true or false' }
+    case 'date':
+      if (typeof value === 'string' && (DATE.test(value) || TIMESTAMP.test(value)) && !isNaN(Date.parse(value))) {
+        return { value }
+      }
+      return { error: 'must be a date (YYYY-MM-DD)' }
+    case 'timestamp':
+      return typeof value === 'string' && TIMESTAMP.test(value) && !isNaN(Date.parse(value))
+        ? { value }
+        : { error: 'must be a date and time (ISO 8601)' }
+    case 'textArray':
+      return toStrings(value, 'text or a list of text')
+    case 'links':
+      return toStrings(value, 'a record ID or a list of record IDs')
+    case 'json':
+      return { value }
+  }
+}
+
+/**
+ * Problem with one value of a field, or null when it is valid
+ */
+export function checkFieldValue(rule: FieldRule, value: unknown): Omit<FieldProblem, 'field'> | null {
+  if (rule.readOnly) {
+    return { code: 'readOnly', message: 'is read-only' }
+  }
+  if (isEmpty(value)) {
+    return rule.required ? { code: 'required', message: 'is required' } : null
+  }
+
+  const converted = convert(rule, value)
+  if ('error' in converted) {
+    return { code: 'type', message: converted.error }
+  }
+  if (rule.options && rule.options.length > 0) {
+    const values = Array.isArray(converted.value) ? converted.value : [converted.value]
+    const invalid = values.filter((item: unknown) => !rule.options!.includes(String(item)))
+    if (invalid.length > 0) {
+      return { code: 'option', message: `must be one of: ${rule.options.join(', ')}` }
+    }
+  }
+  return null
+}
+
+/**
+ * Message for one value of a field, or null - the shape of FieldConfig.validate
+ */
+export function validateFieldValue(rule: FieldRule, value: unknown): string | null {
+  const problem = checkFieldValue(rule, value)
+  return problem ? problem.message : null
+}
+
+/**
+ * Check a record sent to the API against the rules of its fields
+ */
+export function validateRecord(
+  rules: FieldRule[],
+  record: unknown,
+  options: RecordValidationOptions = {}
+): RecordValidation {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { value: {}, problems: [{ field: '', code: 'type', message: 'The body must be an object of field values' }] }
+  }
+
+  const byField = new Map<string, FieldRule>()
+  for (const rule of rules) {
+    for (const name of [rule.field, ...(rule.aliases || [])]) {
+      byField.set(name, rule)
+    }
+  }
+  const value: Record<string, any> = {}
+  const problems: FieldProblem[] = []
+
+  for (const [field, raw] of Object.entries(record)) {
+    const rule = byField.get(field)
+    if (!rule) {
+      if (options.allowUnknown) {
+        value[field] = raw
+      } else {
+        problems.push({ field, code: 'unknown', message: 'is not a field of this table' })
+      }
+      continue
+    }
+
+    const problem = checkFieldValue(rule, raw)
+    if (problem) {
+      problems.push({ field, ...problem })
+      continue
+    }
+    if (raw !== undefined) {
+      value[field] = (convert(rule, raw) as { value: any }).value
+    }
+  }
+
+  if (!options.partial) {
+    for (const rule of rules) {
+      const given = [rule.field, ...(rule.aliases || [])].some(name => name in record)
+      if (rule.required && !rule.readOnly && !given) {
+        problems.push({ field: rule.field, code: 'required', message: 'is required' })
+      }
+    }
+  }
+
+  return { value, problems }
+}
+
+/**
+ * One line listing every problem, e.g. "Quantity must be a number; Foo is not a field of this table"
+ */
+export const describeProblems = (problems: FieldProblem[]): string =>
+  problems.map(problem => (problem.field ? `${problem.field} ${problem.message}` : problem.message)).join('; ')
@@ -0,0 +1,90 @@
+import { FieldType } from '../types/TableSchema'
+import { FieldRule } from './fieldRules'
+import { validateFields } from './validateRequest'
+
+/**
+ * Table Schema Rules
+ *
+ * Table schemas, table configurations and field mappings are not entity records, so
+ * their bodies are checked against these rules instead of an entity descriptor:
+ *
+ *   router.put('/:tableId/schema', validateTableSchema(), ...)
+ */
+
+const FIELD_TYPES: Record<FieldType, true> = {
+  singleLineText: true,
+  longText: true,
+  attachment: true,
+  checkbox: true,
+  multipleSelects: true,
+  singleSelect: true,
+  user: true,
+  date: true,
+  phoneNumber: true,
+  email: true,
+  url: true,
+  number: true,
+  currency: true,
+  percent: true,
+  duration: true,
+  rating: true,
+  formula: true,
+  multipleRecordLinks: true,
+  singleRecordLink: true,
+  createdTime: true,
+  lastModifiedTime: true,
+  createdBy: true,
+  lastModifiedBy: true,
+}
+
+/** UpdateTableSchemaDto - the fields are checked with TABLE_FIELD_RULES */
+export const TABLE_SCHEMA_RULES: FieldRule[] = [
+  { field: 'tableName', type: 'text' },
+  { field: 'fields', type: 'json' },
+]
+
+/** A field of a table schema (TableField, CreateTableFieldDto or UpdateTableFieldDto) */
+export const TABLE_FIELD_RULES: FieldRule[] = [
+  { field: 'id', type: 'text' },
+  { field: 'name', type: 'text' },
+  { field: 'type', type: 'text', options: Object.keys(FIELD_TYPES) },
+  { field: 'format', type: 'json' },
+  { field: 'required', type: 'boolean' },
+  { field: 'unique', type: 'boolean' },
+  { field: 'description', type: 'text' },
+  { field: 'defaultValue', type: 'json' },
+  { field: 'order', type: 'integer' },
+  { field: 'airtableFieldId', type: 'text' },
+  { field: 'airtableFieldName', type: 'text' },
+  { field: 'syncedWithAirtable', type: 'boolean' },
+]
+
+/** CreateFieldMappingDto - the fields are checked with FIELD_ID_MAPPING_RULES */
+export const FIELD_MAPPING_RULES: FieldRule[] = [
+  { field: 'baseId', type: 'text' },
+  { field: 'airtableTableId', type: 'text' },
+  { field: 'fields', type: 'json', required: true },
+]
+
+/** A field of a field mapping (FieldIdMapping) */
+export const FIELD_ID_MAPPING_RULES: FieldRule[] = [
+  { field: 'fieldId', type: 'text', required: true },
+  { field: 'fieldKey', type: 'text', required: true },
+  { field: 'fieldName', type: 'text', required: true },
+  { field: 'fieldType', type: 'text' },
+  { field: 'linkedTableId', type: 'text' },
+  { field: 'linkedTablePrimaryField', type: 'text' },
+  { field: 'choices', type: 'textArray' },
+]
+
+/**
+ * Validate a table schema or table configuration update
+ */
+export const validateTableSchema = () =>
+  validateFields(TABLE_SCHEMA_RULES, { partial: true, lists: { fields: TABLE_FIELD_RULES } })
+
+/**
+ * Validate a field mapping
+ */
+export const validateFieldMapping = () =>
+  validateFields(FIELD_MAPPING_RULES, { lists: { fields: FIELD_ID_MAPPING_RULES } })
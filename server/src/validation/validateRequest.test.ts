@@ -0,0 +1,123 @@
+import { Request, Response } from 'express'
+import { getEntityFieldRules, validateCreate, validateUpdate } from './validateRequest'
+import { validateFieldMapping, validateTableSchema } from './tableSchemaRules'
+import { findEntityDescriptor } from '../database/entities/descriptors'
+
+/**
+ * Run a validation middleware on a body - the response it sent, or the body passed on
+ */
+function run(middleware: ReturnType<typeof validateCreate>, body: unknown) {
+  const req = { body } as Request
+  let status = 200
+  let json: any
+  const res = {
+    status(code: number) {
+      status = code
+      return this
+    },
+    json(payload: any) {
+      json = payload
+      return this
+    },
+  } as unknown as Response
+  const next = jest.fn()
+  middleware(req, res, next)
+  return { status, json, passed: next.mock.calls.length === 1, body: req.body }
+}
+
+describe('validateCreate / validateUpdate', () => {
+  it('refuses writes to the calculation results of activity data', () => {
+    const result = run(validateUpdate('activity-data'), { Notes: 'x', 'Computed CO2e (t)': 3, 'Calculation Status': 'Calculated' })
+    expect(result.passed).toBe(false)
+    expect(result.status).toBe(422)
+    expect(result.json.errors).toEqual([
+      { field: 'Computed CO2e (t)', code: 'readOnly', message: 'is read-only' },
+      { field: 'Calculation Status', code: 'readOnly', message: 'is read-only' },
+    ])
+  })
+
+  it('marks computed columns, record IDs and timestamps read-only', () => {
+    const rules = getEntityFieldRules(findEntityDescriptor('activity-data')!)
+    const readOnly = rules.filter(rule => rule.readOnly).map(rule => rule.field)
+    expect(readOnly).toEqual(expect.arrayContaining([
+      'id', 'createdAt', 'updatedAt',
+      'Computed CO2e (t)', 'Calculation Status', 'Calculation Error', 'Calculation Trace', 'Calculated At',
+    ]))
+    expect(readOnly).not.toContain('Quantity')
+  })
+
+  it('passes the converted body on', () => {
+    const result = run(validateCreate('activity-data'), { Name: 'Fuel', Quantity: '12.5' })
+    expect(result.passed).toBe(true)
+    expect(result.body).toEqual({ Name: 'Fuel', Quantity: 12.5 })
+  })
+
+  it('requires the required columns on create only', () => {
+    const create = run(validateCreate('companies'), { notes: 'x' })
+    expect(create.status).toBe(422)
+    expect(create.json.errors.map((problem: any) => problem.field).sort()).toEqual(['companyName', 'isinCode', 'status'])
+    expect(run(validateUpdate('companies'), { notes: 'x' }).passed).toBe(true)
+  })
+
+  it('refuses the password hash of a user, under the name AUTH_PASSWORD_FIELD gives it', () => {
+    const middleware = validateUpdate('users')
+    expect(run(middleware, { 'Password Hash': 'scrypt$x$y' }).json.errors).toEqual([
+      { field: 'Password Hash', code: 'readOnly', message: 'is read-only' },
+    ])
+    process.env.AUTH_PASSWORD_FIELD = 'Secret'
+    try {
+      expect(run(middleware, { Secret: 'scrypt$x$y' }).status).toBe(422)
+      expect(run(middleware, { 'Password Hash': 'x', Nickname: 'Al' }).passed).toBe(true)
+    } finally {
+      delete process.env.AUTH_PASSWORD_FIELD
+    }
+  })
+
+  it('checks application list and integration marketplace writes', () => {
+    expect(run(validateCreate('application-list'), { Name: 'Portal', Order: '2' }).body).toEqual({ Name: 'Portal', Order: 2 })
+    expect(run(validateUpdate('application-list'), { Colour: 'red' }).json.errors).toEqual([
+      { field: 'Colour', code: 'unknown', message: 'is not a field of this table' },
+    ])
+    const provider = run(validateCreate('integration-marketplace'), { name: 'OpenAI', enabled: 'yes' })
+    expect(provider.json.errors).toEqual([
+      { field: 'enabled', code: 'type', message: 'must be true or false' },
+      { field: 'providerId', code: 'required', message: 'is required' },
+    ])
+  })
+
+  it('throws on an entity without a descriptor', () => {
+    expect(() => validateCreate('no-such-entity')).toThrow('Unknown entity "no-such-entity"')
+  })
+})
+
+describe('validateTableSchema / validateFieldMapping', () => {
+  it('checks each field of a table schema', () => {
+    const result = run(validateTableSchema(), {
+      tableName: 'Units',
+      fields: [{ name: 'Name', type: 'singleLineText', order: '0' }, { name: 'Size', type: 'bigNumber' }, 'Notes'],
+    })
+    expect(result.status).toBe(422)
+    expect(result.json.errors.map((problem: any) => `${problem.field} ${problem.code}`)).toEqual([
+      'fields[1].type option',
+      'fields[2] type',
+    ])
+  })
+
+  it('passes a valid schema on with its fields converted', () => {
+    const result = run(validateTableSchema(), { fields: [{ name: 'Name', required: 'true', order: '1' }] })
+    expect(result.passed).toBe(true)
+    expect(result.body).toEqual({ fields: [{ name: 'Name', required: true, order: 1 }] })
+  })
+
+  it('requires the fields of a field mapping and their IDs', () => {
+    expect(run(validateFieldMapping(), { baseId: 'app1' }).json.errors).toEqual([
+      { field: 'fields', code: 'required', message: 'is required' },
+    ])
+    expect(run(validateFieldMapping(), { fields: { fieldId: 'fld1' } }).json.errors).toEqual([
+      { field: 'fields', code: 'type', message: 'must be a list' },
+    ])
+    expect(run(validateFieldMapping(), { fields: [{ fieldId: 'fld1', fieldKey: 'name' }] }).json.errors).toEqual([
+      { field: 'fields[0].fieldName', code: 'required', message: 'is required' },
+    ])
+  })
+})
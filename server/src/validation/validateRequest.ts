@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express'
+import { findEntityDescriptor } from '../database/entities/descriptors'
+import { EntityDescriptor, EntityField } from '../database/entities/types'
+import { FieldProblem, FieldRule, FieldValueType, RecordValidationOptions, describeProblems, validateRecord } from './fieldRules'
+
+/**
+ * Request Validation
+ *
+ * Checks the body of create and update requests against the entity descriptor of the
+ * table before it reaches the controller:
+ *
+ *   router.post('/', validateCreate('unit'), ...)
+ *   router.put('/:id', validateUpdate('unit'), ...)
+ *
+ * Unknown fields, computed fields and values of the wrong type are refused with 422 and
+ * one entry per field problem (tables with extraFields accept fields without a column):
+ *
+ *   { success: false, error: 'Validation failed', message: 'Quantity must be a number',
+ *     errors: [{ field: 'Quantity', code: 'type', message: 'must be a number' }] }
+ *
+ * Numbers and booleans sent as strings (form inputs) reach the controller converted.
+ * Bodies that are not entity records (e.g. table schemas) are checked against their own
+ * rules with validateFields.
+ */
+
+const VALUE_TYPES: Partial<Record<EntityField['type'], FieldValueType>> = {
+  text: 'text',
+  number: 'number',
+  integer: 'integer',
+  boolean: 'boolean',
+  date: 'date',
+  timestamp: 'timestamp',
+  json: 'json',
+  textArray: 'textArray',
+  links: 'links',
+}
+
+const readOnly = (field: string): FieldRule => ({ field, type: 'json', readOnly: true })
+
+/**
+ * Field rules of an entity table: its columns, and the fields the API computes (record
+ * ID, timestamps, linked record names, reverse links, lookups and readOnly columns) and
+ * its hidden fields as read-only
+ */
+export function getEntityFieldRules(descriptor: EntityDescriptor): FieldRule[] {
+  const rules: FieldRule[] = [readOnly('id')]
+  for (const column of descriptor.columns) {
+    const type = VALUE_TYPES[column.type]
+    rules.push(type && !column.readOnly
+      ? { field: column.field, aliases: column.aliases, type, required: column.required }
+      : readOnly(column.field))
+    if (column.nameField) rules.push(readOnly(column.nameField))
+    if (column.countField) rules.push(readOnly(column.countField))
+  }
+  for (const field of [...(descriptor.createdFields || ['createdAt']), ...(descriptor.updatedFields || ['updatedAt'])]) {
+    rules.push(readOnly(field))
+  }
+  for (const field of descriptor.hiddenFields?.() || []) {
+    rules.push(readOnly(field))
+  }
+  return rules
+}
+
+const sendProblems = (res: Response, problems: FieldProblem[]): void => {
+  res.status(422).json({
+    success: false,
+    error: 'Validation failed',
+    message: describeProblems(problems),
+    errors: problems,
+  })
+}
+
+export interface BodyValidationOptions extends RecordValidationOptions {
+  /** Rules of the items of list fields (e.g. the fields of a table schema) - problems are
+   * reported as "fields[2].type" */
+  lists?: Record<string, FieldRule[]>
+}
+
+/**
+ * Middleware checking req.body against field rules
+ */
+export function validateFields(rules: FieldRule[], options: BodyValidationOptions = {}) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { value, problems } = validateRecord(rules, req.body, options)
+    for (const [field, itemRules] of Object.entries(options.lists || {})) {
+      const items = value[field]
+      if (items === undefined || items === null) continue
+      if (!Array.isArray(items)) {
+        problems.push({ field, code: 'type', message: 'must be a list' })
+        continue
+      }
+      items.forEach((item, index) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+          problems.push({ field: `${field}[${index}]`, code: 'type', message: 'must be an object' })
+          return
+        }
+        const checked = validateRecord(itemRules, item)
+        checked.problems.forEach(problem => {
+          problems.push({ ...problem, field: `${field}[${index}].${problem.field}` })
+        })
+        items[index] = checked.value
+      })
+    }
+    if (problems.length > 0) {
+      sendProblems(res, problems)
+      return
+    }
+    req.body = value
+    next()
+  }
+}
+
+/**
+ * Middleware checking req.body against the rules of an entity (API path segment)
+ */
+function validateBody(entity: string, partial: boolean) {
+  const descriptor = findEntityDescriptor(entity)
+  if (!descriptor) {
+    throw new Error(`Unknown entity "${entity}"`)
+  }
+  const options = { partial, allowUnknown: descriptor.extraFields }
+
+  // Rules are taken on each request, once the environment naming hidden fields is loaded
+  return (req: Request, res: Response, next: NextFunction): void =>
+    validateFields(getEntityFieldRules(descriptor), options)(req, res, next)
+}
+
+/**
+ * Validate the body of a create: required fields must be given
+ */
+export const validateCreate = (entity: string) => validateBody(entity, false)
+
+/**
+ * Validate the body of an update: only the fields given are checked
+ */
+export const validateUpdate = (entity: string) => validateBody(entity, true)
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import { applicationListApi, ApplicationList } from '@/lib/api/applicationList'
+import { authApi, getAuthSession, AuthProvider, AuthSession } from '@/lib/api/auth'
 import { ChevronLeftIcon, ChevronRightIcon } from '@/components/icons'
 import WelcomeDashboard from '@/components/WelcomeDashboard'
 import { isFeatureEnabled } from '@/lib/featureFlags'
@@ -53,6 +54,9 @@ export default function Home() {
   const [spaceCards, setSpaceCards] = useState<SpaceCard[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [loginForm, setLoginForm] = useState({ username: '', password: '' })
+  const [loginError, setLoginError] = useState<string | null>(null)
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [identityProviders, setIdentityProviders] = useState<AuthProvider[]>([])
   const [homePageData, setHomePageData] = useState<{ imageUrl?: string; logoUrl?: string; description?: string } | null>(null)
   const [showLoginForm, setShowLoginForm] = useState(true)
   const [isTransitioning, setIsTransitioning] = useState(false)
@@ -234,53 +238,87 @@ export default function Home() {
     }
   }, [])
 
+  // Identity providers offered next to the password sign-in
+  useEffect(() => {
+    authApi.getProviders()
+      .then(providers => setIdentityProviders(providers.filter(provider => provider.type === 'oidc')))
+      .catch(error => console.warn('Failed to load sign-in providers:', error))
+  }, [])
+
   // Check if user is already logged in
   useEffect(() => {
-    const loggedIn = localStorage.getItem('another_ra_logged_in') === 'true'
-    const dontShowWelcome = localStorage.getItem('another_ra_dont_show_welcome') === 'true'
-    const isWelcomeDashboardEnabled = isFeatureEnabled('welcomeDashboard')
+    const restoreSession = async () => {
+      // Sign-in with an identity provider returns here with the session in the URL fragment
+      try {
+        const providerSession = await authApi.completeProviderLogin()
+        if (providerSession) {
+          localStorage.setItem('another_ra_logged_in', 'true')
+          localStorage.setItem('another_ra_username', providerSession.user.name)
+        }
+      } catch (error) {
+        setLoginError(error instanceof Error ? error.message : 'Failed to sign in')
+      }
+
+      const loggedIn = !!getAuthSession()
+      const dontShowWelcome = localStorage.getItem('another_ra_dont_show_welcome') === 'true'
+      const isWelcomeDashboardEnabled = isFeatureEnabled('welcomeDashboard')
     
-    // Debug logging
-    if (process.env.NODE_ENV === 'development') {
-      console.log('🔍 Welcome Dashboard Check:', {
-        loggedIn,
-        dontShowWelcome,
-        isWelcomeDashboardEnabled,
-        shouldShow: isWelcomeDashboardEnabled && !dontShowWelcome
-      })
-    }
+      // Debug logging
+      if (process.env.NODE_ENV === 'development') {
+        console.log('🔍 Welcome Dashboard Check:', {
+          loggedIn,
+          dontShowWelcome,
+          isWelcomeDashboardEnabled,
+          shouldShow: isWelcomeDashboardEnabled && !dontShowWelcome
+        })
+      }
     
-    if (loggedIn) {
-      setIsLoggedIn(true)
-      setShowLoginForm(false)
-      loadSpaceCards()
+      if (loggedIn) {
+        setIsLoggedIn(true)
+        setShowLoginForm(false)
+        loadSpaceCards()
       
-      // Show welcome dashboard only if feature is enabled and user hasn't disabled it
-      // Default to showing welcome dashboard if feature is enabled
-      if (isWelcomeDashboardEnabled && !dontShowWelcome) {
-        // Small delay to ensure smooth transition
-        setTimeout(() => {
-          setShowWelcomeDashboard(true)
-        }, 100)
-      } else {
-        // If disabled, go directly to space cards
-        setTimeout(() => {
-          setShowCards(true)
-        }, 100)
+        // Show welcome dashboard only if feature is enabled and user hasn't disabled it
+        // Default to showing welcome dashboard if feature is enabled
+        if (isWelcomeDashboardEnabled && !dontShowWelcome) {
+          // Small delay to ensure smooth transition
+          setTimeout(() => {
+            setShowWelcomeDashboard(true)
+          }, 100)
+        } else {
+          // If disabled, go directly to space cards
+          setTimeout(() => {
+            setShowCards(true)
+          }, 100)
+        }
       }
     }
+    restoreSession()
   }, [loadSpaceCards])
 
   const handleLogin = async () => {
-    // For now, allow login without password
-    if (!loginForm.username.trim()) {
-      alert('Please enter a username')
+    if (!loginForm.username.trim() || !loginForm.password) {
+      setLoginError('Please enter your username and password')
       return
     }
 
+    setIsSigningIn(true)
+    setLoginError(null)
+    try {
+      const session = await authApi.login(loginForm.username.trim(), loginForm.password)
+      setLoginForm({ username: '', password: '' })
+      enterApp(session)
+    } catch (error) {
+      setLoginError(error instanceof Error ? error.message : 'Failed to sign in')
+    } finally {
+      setIsSigningIn(false)
+    }
+  }
+
+  const enterApp = (session: AuthSession) => {
     // Set logged in state
     localStorage.setItem('another_ra_logged_in', 'true')
-    localStorage.setItem('another_ra_username', loginForm.username)
+    localStorage.setItem('another_ra_username', session.user.name)
     setIsLoggedIn(true)
 
     // Fade out login form smoothly
@@ -439,6 +477,7 @@ export default function Home() {
               <div className="flex-1 flex justify-end">
                 <button
                   onClick={() => {
+                    authApi.logout()
                     localStorage.removeItem('another_ra_logged_in')
                     localStorage.removeItem('another_ra_username')
                     setIsLoggedIn(false)
@@ -608,12 +647,13 @@ export default function Home() {
               <div className="space-y-4">
                 <div>
                   <label htmlFor="username" className="block text-sm font-medium text-neutral-700 mb-2">
-                    Username
+                    Username or email
                   </label>
                   <input
                     id="username"
                     type="text"
-                    placeholder="Enter your username"
+                    autoComplete="username"
+                    placeholder="Enter your username or email"
                     value={loginForm.username}
                     onChange={(e) => setLoginForm({ ...loginForm, username: e.target.value })}
                     onKeyDown={(e) => {
@@ -631,6 +671,7 @@ export default function Home() {
                   <input
                     id="password"
                     type="password"
+                    autoComplete="current-password"
                     placeholder="Enter your password"
                     value={loginForm.password}
                     onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
@@ -642,12 +683,25 @@ export default function Home() {
                     className="w-full px-4 py-2.5 border border-neutral-300 rounded-lg text-sm text-neutral-900 bg-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-all"
                   />
                 </div>
+                {loginError && (
+                  <p className="text-sm text-red-600" role="alert">{loginError}</p>
+                )}
                 <button
                   onClick={handleLogin}
-                  className="w-full px-6 py-3 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors shadow-sm"
+                  disabled={isSigningIn}
+                  className="w-full px-6 py-3 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
                 >
-                  Log In
+                  {isSigningIn ? 'Logging In...' : 'Log In'}
                 </button>
+                {identityProviders.map(provider => (
+                  <a
+                    key={provider.name}
+                    href={authApi.getProviderLoginUrl(provider.name, '/')}
+                    className="block w-full px-6 py-3 text-center text-sm font-semibold text-neutral-700 border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors"
+                  >
+                    Log in with {provider.displayName}
+                  </a>
+                ))}
               </div>
             </div>
           </div>
@@ -0,0 +1,15 @@
+'use client'
+
+export default function ActivityDataLayout({
+    children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <div style={{ margin: 0, padding: 0, position: 'relative' }}>
+        {children}
+      </div>
+    
+  )
+}
+
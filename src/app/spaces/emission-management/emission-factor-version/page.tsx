@@ -4,6 +4,7 @@ import Sidebar from '@/components/Sidebar'
 import { useSidebar } from '@/components/SidebarContext'
 import ListDetailTemplate from '@/components/templates/ListDetailTemplate'
 import { emissionFactorVersionConfig } from '@/components/templates/configs/emissionFactorVersionConfig'
+import EmissionFactorVersionDiff from '@/components/EmissionFactorVersionDiff'
 import { isFeatureEnabled } from '@/lib/featureFlags'
 
 /**
@@ -43,6 +44,7 @@ export default function EmissionFactorVersionPage() {
       {/* Main Content */}
       <div className={`flex-1 p-8 overflow-hidden flex flex-col ${isCollapsed ? 'ml-16' : 'ml-64'}`}
            style={{ transition: 'margin-left 300ms ease-in-out' }}>
+        <EmissionFactorVersionDiff />
         <ListDetailTemplate config={emissionFactorVersionConfig} />
       </div>
     </div>
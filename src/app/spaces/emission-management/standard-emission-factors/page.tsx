@@ -5,6 +5,7 @@ import Sidebar from '@/components/Sidebar'
 import { useSidebar } from '@/components/SidebarContext'
 import ListDetailTemplate from '@/components/templates/ListDetailTemplate'
 import { standardEmissionFactorConfig } from '@/components/templates/configs/standardEmissionFactorConfig'
+import EmissionFactorDatasetImport from '@/components/EmissionFactorDatasetImport'
 
 export default function StandardEmissionFactorsPage() {
   const { isCollapsed } = useSidebar()
@@ -33,6 +34,7 @@ export default function StandardEmissionFactorsPage() {
           opacity: isMounted ? 1 : 1,
         }}
       >
+        <EmissionFactorDatasetImport />
         <ListDetailTemplate config={standardEmissionFactorConfig} />
       </div>
     </div>
@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react'
 import Sidebar from '@/components/Sidebar'
 import { useSidebar } from '@/components/SidebarContext'
 import ListDetailTemplate from '@/components/templates/ListDetailTemplate'
+import UnitConverter from '@/components/UnitConverter'
 import { unitConversionConfig } from '@/components/templates/configs/unitConversionConfig'
 
 export default function UnitConversionPage() {
@@ -33,6 +34,7 @@ export default function UnitConversionPage() {
           opacity: isMounted ? 1 : 1,
         }}
       >
+        <UnitConverter />
         <ListDetailTemplate config={unitConversionConfig} />
       </div>
     </div>
@@ -5,6 +5,7 @@ import { Company, getTagColor } from '@/lib/mockData'
 import { EyeIcon, ArrowPathIcon } from './icons'
 import FilterBar from './FilterBar'
 import ImportModal from './ImportModal'
+import { ImportReport } from '@/lib/api/entityImport'
 import Notification from './Notification'
 import TableHeaderActions from './tables/TableHeaderActions'
 import ConfigureTableModal from './tables/ConfigureTableModal'
@@ -22,7 +23,8 @@ interface CompanyTableProps {
   companies: Company[]
   onCompanyClick: (company: Company) => void
   onAddCompany: () => void
-  onImport?: (companies: any[]) => Promise<void>
+  /** Enables Import; called after the import created companies (e.g. to reload) */
+  onImport?: () => Promise<void> | void
   onExportSuccess?: () => void
   // Pagination props
   currentPage?: number
@@ -419,19 +421,14 @@ export default function CompanyTable({
     }
   }, [onSortChange])
 
-  const handleImportComplete = async (companiesToImport: any[]) => {
+  const handleImportComplete = async (report: ImportReport) => {
     if (!onImport) return
-    
+
     try {
-      await onImport(companiesToImport)
-      setNotification({
-        message: `Successfully imported ${companiesToImport.length} companies`,
-        type: 'success',
-      })
-      setIsImportModalOpen(false)
+      await onImport()
     } catch (error) {
       setNotification({
-        message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        message: `Imported ${report.summary.created} companies but the list could not be refreshed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         type: 'error',
       })
     }
@@ -450,7 +447,10 @@ export default function CompanyTable({
         <ImportModal
           isOpen={isImportModalOpen}
           onClose={() => setIsImportModalOpen(false)}
-          onImport={handleImportComplete}
+          entityName="Company"
+          entityNamePlural="Companies"
+          entityPath="companies"
+          onComplete={handleImportComplete}
         />
       )}
       {isTableActionsV2Enabled && (
@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  standardEmissionFactorApi,
+  StandardEmissionFactorImportReport,
+} from '@/lib/api/standardEmissionFactor'
+
+/**
+ * Import a DEFRA/EPA-style CSV or XLSX dataset into Standard Emission Factors.
+ * The file is always validated first; rows are written only after reviewing the dry-run report.
+ */
+export default function EmissionFactorDatasetImport() {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [version, setVersion] = useState('')
+  const [sheet, setSheet] = useState('')
+  const [createMissingUnits, setCreateMissingUnits] = useState(false)
+  const [report, setReport] = useState<StandardEmissionFactorImportReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) {
+      setError('Select a CSV or XLSX file')
+      return
+    }
+    setIsLoading(true)
+    setError(null)
+    try {
+      setReport(await standardEmissionFactorApi.importFile(file, {
+        dryRun,
+        createMissingUnits,
+        defaults: version.trim() ? { Version: version.trim() } : undefined,
+        sheet: sheet.trim() || undefined,
+      }))
+    } catch (err) {
+      setReport(null)
+      setError(err instanceof Error ? err.message : 'Failed to import dataset')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const problemRows = report ? report.rows.filter(row => row.errors.length > 0 || row.warnings.length > 0) : []
+
+  return (
+    <div className="mb-6 bg-white rounded-lg border border-gray-200 flex-shrink-0 max-h-[45vh] overflow-y-auto">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-semibold text-gray-900"
+      >
+        <span>Import emission factor dataset</span>
+        <span className="text-gray-400">{isExpanded ? '−' : '+'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">File (CSV or XLSX)</label>
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null)
+                  setReport(null)
+                }}
+                className="text-sm text-gray-700"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Version (when not in file)</label>
+              <input
+                type="text"
+                value={version}
+                onChange={(e) => setVersion(e.target.value)}
+                placeholder="e.g. DEFRA 2024"
+                className="w-44 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Sheet</label>
+              <input
+                type="text"
+                value={sheet}
+                onChange={(e) => setSheet(e.target.value)}
+                placeholder="First sheet"
+                className="w-36 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={createMissingUnits}
+                onChange={(e) => setCreateMissingUnits(e.target.checked)}
+                className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+              />
+              Create missing units
+            </label>
+            <button
+              type="button"
+              onClick={() => runImport(true)}
+              disabled={isLoading || !file}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isLoading ? 'Working...' : 'Validate'}
+            </button>
+            {report?.dryRun && report.summary.valid > 0 && (
+              <button
+                type="button"
+                onClick={() => runImport(false)}
+                disabled={isLoading}
+                className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                Import {report.summary.valid} row(s)
+              </button>
+            )}
+          </div>
+
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+          {report && (
+            <div className="mt-4 text-sm">
+              <p className="text-gray-700">
+                {report.dryRun ? 'Dry run' : 'Import'} of {report.summary.total} row(s){report.sheet ? ` from "${report.sheet}"` : ''}:{' '}
+                <span className="text-green-700">{report.summary.valid} valid</span>,{' '}
+                <span className="text-red-700">{report.summary.invalid} invalid</span>
+                {!report.dryRun && (
+                  <>
+                    , {report.summary.created} created, {report.summary.failed} failed
+                  </>
+                )}
+              </p>
+              <p className="mt-1 text-xs text-gray-500">
+                Columns: {Object.entries(report.columnMapping).map(([column, field]) => `${column} → ${field}`).join(', ')}
+                {report.unmappedColumns.length > 0 && ` · ignored: ${report.unmappedColumns.join(', ')}`}
+              </p>
+              {report.missingUnits.length > 0 && (
+                <p className="mt-1 text-xs text-amber-700">
+                  Missing units: {report.missingUnits.join(', ')}
+                  {report.createdUnits.length > 0 && ` (created ${report.createdUnits.map(unit => unit.name).join(', ')})`}
+                </p>
+              )}
+
+              {problemRows.length > 0 && (
+                <table className="mt-3 w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-1 pr-2">Row</th>
+                      <th className="py-1 pr-2">Status</th>
+                      <th className="py-1">Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {problemRows.map(row => (
+                      <tr key={row.rowNumber} className="border-b border-gray-100 align-top">
+                        <td className="py-1 pr-2">{row.rowNumber}</td>
+                        <td className={`py-1 pr-2 ${row.status === 'invalid' || row.status === 'failed' ? 'text-red-700' : 'text-gray-700'}`}>
+                          {row.status}
+                        </td>
+                        <td className="py-1">
+                          {row.errors.map((issue, index) => (
+                            <div key={`e-${index}`} className="text-red-700">{issue.message}</div>
+                          ))}
+                          {row.warnings.map((issue, index) => (
+                            <div key={`w-${index}`} className="text-amber-700">{issue.message}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  emissionFactorVersionApi,
+  EmissionFactorVersion,
+  EmissionFactorVersionDiff as VersionDiff,
+  EmissionFactorVersionPromotionResult,
+} from '@/lib/api/emissionFactorVersion'
+
+const formatValue = (value?: number) =>
+  value === undefined || value === null ? '—' : value.toLocaleString(undefined, { maximumSignificantDigits: 8 })
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(2)}%`
+
+/**
+ * Compare an Emission Factor Version with the version it replaces, then promote it
+ */
+export default function EmissionFactorVersionDiff() {
+  const [versions, setVersions] = useState<EmissionFactorVersion[]>([])
+  const [versionId, setVersionId] = useState('')
+  const [againstId, setAgainstId] = useState('')
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+  const [promotion, setPromotion] = useState<EmissionFactorVersionPromotionResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  useEffect(() => {
+    if (!isExpanded || versions.length > 0) return
+    emissionFactorVersionApi
+      .getPaginated({ page: 1, limit: 500, sortBy: 'Name', sortOrder: 'asc' })
+      .then(result => setVersions(result.data))
+      .catch(err => console.error('Error loading Emission Factor Versions:', err))
+  }, [isExpanded, versions.length])
+
+  const versionName = (id?: string) => versions.find(v => v.id === id)?.Name || id
+
+  const handleCompare = async () => {
+    if (!versionId) {
+      setError('Select the new version')
+      return
+    }
+    setIsLoading(true)
+    setError(null)
+    setPromotion(null)
+    try {
+      setDiff(await emissionFactorVersionApi.diff(versionId, againstId || undefined))
+    } catch (err) {
+      setDiff(null)
+      setError(err instanceof Error ? err.message : 'Failed to compare versions')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handlePromote = async () => {
+    if (!diff) return
+    const confirmed = window.confirm(
+      `Promote ${diff.version.name || diff.version.id}? Its factors become Active and the factors of ${diff.previousVersion.name || diff.previousVersion.id} become Inactive.`
+    )
+    if (!confirmed) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      setPromotion(await emissionFactorVersionApi.promote(diff.version.id, { supersedes: diff.previousVersion.id }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to promote version')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="mb-6 bg-white rounded-lg border border-gray-200 flex-shrink-0 max-h-[45vh] overflow-y-auto">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-semibold text-gray-900"
+      >
+        <span>Compare &amp; promote versions</span>
+        <span className="text-gray-400">{isExpanded ? '−' : '+'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">New version</label>
+              <select
+                value={versionId}
+                onChange={(e) => setVersionId(e.target.value)}
+                className="w-56 px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <option value="">Select version</option>
+                {versions.map(version => (
+                  <option key={version.id} value={version.id}>{version.Name || version.id}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Compare against</label>
+              <select
+                value={againstId}
+                onChange={(e) => setAgainstId(e.target.value)}
+                className="w-56 px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <option value="">Previous version in set</option>
+                {versions.filter(version => version.id !== versionId).map(version => (
+                  <option key={version.id} value={version.id}>{version.Name || version.id}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={handleCompare}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isLoading && !diff ? 'Comparing...' : 'Compare'}
+            </button>
+            {diff && !promotion && (
+              <button
+                type="button"
+                onClick={handlePromote}
+                disabled={isLoading}
+                className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                Promote {diff.version.name || versionName(diff.version.id)}
+              </button>
+            )}
+          </div>
+
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+          {promotion && (
+            <p className="mt-3 text-sm text-green-700">
+              {promotion.version.name} promoted: {promotion.activated.length} factor(s) activated,{' '}
+              {promotion.deactivated.length} deactivated
+              {promotion.supersededVersion ? ` (${promotion.supersededVersion.name} retired)` : ''}.
+            </p>
+          )}
+
+          {diff && (
+            <div className="mt-4 text-sm">
+              <p className="text-gray-700">
+                {diff.version.name} vs {diff.previousVersion.name}:{' '}
+                <span className="text-green-700">{diff.summary.added} added</span>,{' '}
+                <span className="text-red-700">{diff.summary.removed} removed</span>,{' '}
+                <span className="text-amber-700">{diff.summary.changed} changed</span>,{' '}
+                {diff.summary.unchanged} unchanged
+              </p>
+              {diff.ambiguousKeys.length > 0 && (
+                <p className="mt-1 text-xs text-amber-700">
+                  {diff.ambiguousKeys.length} factor key(s) match several factors in one version and were paired in record order.
+                </p>
+              )}
+
+              <table className="mt-3 w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-1 pr-2">Change</th>
+                    <th className="py-1 pr-2">Factor</th>
+                    <th className="py-1 pr-2 text-right">Previous</th>
+                    <th className="py-1 pr-2 text-right">New</th>
+                    <th className="py-1 text-right">Change %</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changed.map(change => (
+                    <tr key={`changed-${change.current.id}`} className="border-b border-gray-100">
+                      <td className="py-1 pr-2 text-amber-700">Changed</td>
+                      <td className="py-1 pr-2">{change.label}</td>
+                      <td className="py-1 pr-2 text-right">{formatValue(change.previous.value)} {change.previous.ghgUnit}</td>
+                      <td className="py-1 pr-2 text-right">{formatValue(change.current.value)} {change.current.ghgUnit}</td>
+                      <td className="py-1 text-right">{formatPercent(change.percentChange)}</td>
+                    </tr>
+                  ))}
+                  {diff.added.map(entry => (
+                    <tr key={`added-${entry.factor.id}`} className="border-b border-gray-100">
+                      <td className="py-1 pr-2 text-green-700">Added</td>
+                      <td className="py-1 pr-2">{entry.label}</td>
+                      <td className="py-1 pr-2 text-right">—</td>
+                      <td className="py-1 pr-2 text-right">{formatValue(entry.factor.value)} {entry.factor.ghgUnit}</td>
+                      <td className="py-1 text-right">—</td>
+                    </tr>
+                  ))}
+                  {diff.removed.map(entry => (
+                    <tr key={`removed-${entry.factor.id}`} className="border-b border-gray-100">
+                      <td className="py-1 pr-2 text-red-700">Removed</td>
+                      <td className="py-1 pr-2">{entry.label}</td>
+                      <td className="py-1 pr-2 text-right">{formatValue(entry.factor.value)} {entry.factor.ghgUnit}</td>
+                      <td className="py-1 pr-2 text-right">—</td>
+                      <td className="py-1 text-right">—</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
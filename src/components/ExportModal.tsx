@@ -0,0 +1,163 @@
+'use client'
+
+import { useState } from 'react'
+import { entityExportApi, ExportFormat, ExportParams } from '@/lib/api/entityExport'
+import Notification from './Notification'
+
+interface ExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Entity name (plural, e.g. 'Companies') */
+  entityNamePlural: string
+  /** API path segment of the entity, e.g. 'companies' for /api/companies/export */
+  entityPath: string
+  /** Current table view - visible columns, filters, search and sort */
+  params: Omit<ExportParams, 'format'>
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'Comma-separated text, opens in any spreadsheet' },
+  { value: 'xlsx', label: 'Excel (XLSX)', description: 'Workbook with typed number and yes/no columns' },
+  { value: 'json', label: 'JSON', description: 'Array of objects keyed by column name' },
+  { value: 'parquet', label: 'Parquet', description: 'Columnar file for pandas, DuckDB or Spark' },
+]
+
+/**
+ * Server-side export of every record matching the current table view.
+ * The server streams all pages, so the file is not limited to the rows loaded in the table.
+ */
+export default function ExportModal({ isOpen, onClose, entityNamePlural, entityPath, params }: ExportModalProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [isExporting, setIsExporting] = useState(false)
+  const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null)
+
+  if (!isOpen) return null
+
+  const filterCount = Object.values(params.filters || {}).filter(value =>
+    Array.isArray(value) ? value.length > 0 : value !== ''
+  ).length
+  const sortColumn = params.sortBy
+    ? params.columns?.find(column => column.key === params.sortBy)?.label || params.sortBy
+    : null
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const result = await entityExportApi.export(entityPath, { ...params, format })
+
+      const link = document.createElement('a')
+      const url = URL.createObjectURL(result.blob)
+      link.setAttribute('href', url)
+      link.setAttribute('download', result.filename)
+      link.style.visibility = 'hidden'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      if (result.skippedColumns.length > 0) {
+        setNotification({
+          message: `Exported without ${result.skippedColumns.join(', ')} (not stored fields)`,
+          type: 'info',
+        })
+      } else {
+        onClose()
+      }
+    } catch (error) {
+      setNotification({
+        message: `Failed to export: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        type: 'error',
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <>
+      {notification && (
+        <Notification
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-neutral-200">
+          <h2 className="text-xl font-semibold text-neutral-900">Export {entityNamePlural}</h2>
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="text-neutral-400 hover:text-neutral-600 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="space-y-2">
+            {FORMATS.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                  format === option.value ? 'border-green-600 bg-green-50' : 'border-neutral-200 hover:bg-neutral-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  disabled={isExporting}
+                  className="mt-1 text-green-600 focus:ring-green-500"
+                />
+                <div>
+                  <p className="text-sm font-medium text-neutral-900">{option.label}</p>
+                  <p className="text-xs text-neutral-500">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="bg-neutral-50 p-4 rounded-lg text-sm text-neutral-700 space-y-1">
+            <p>
+              All {entityNamePlural.toLowerCase()} matching the current view
+              {params.search ? <> and the search &quot;{params.search}&quot;</> : null}
+            </p>
+            <p className="text-xs text-neutral-500">
+              {params.columns?.length || 'All'} columns
+              {filterCount > 0 && ` • ${filterCount} ${filterCount === 1 ? 'filter' : 'filters'}`}
+              {sortColumn && ` • sorted by ${sortColumn} (${params.sortOrder === 'desc' ? 'descending' : 'ascending'})`}
+            </p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t border-neutral-200">
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="px-4 py-2 text-sm font-medium text-neutral-700 bg-white border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+      </div>
+    </>
+  )
+}
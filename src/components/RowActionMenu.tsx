@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { Company } from '@/lib/mockData'
+import { usePermissions } from '@/hooks/usePermissions'
 
 interface RowActionMenuProps {
   company: Company
@@ -9,6 +10,8 @@ interface RowActionMenuProps {
   onEdit: () => void
   onDelete: () => void
   onDuplicate: () => void
+  /** API path segment of the entity - actions its permissions refuse are hidden */
+  entityPath?: string
 }
 
 export default function RowActionMenu({
@@ -17,8 +20,13 @@ export default function RowActionMenu({
   onEdit,
   onDelete,
   onDuplicate,
+  entityPath = 'companies',
 }: RowActionMenuProps) {
   const [isOpen, setIsOpen] = useState(false)
+  const { can } = usePermissions()
+  const canEdit = can(entityPath, 'update')
+  const canDuplicate = can(entityPath, 'create')
+  const canDelete = can(entityPath, 'delete')
   const menuRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -69,34 +77,42 @@ export default function RowActionMenu({
           >
             Open
           </button>
-          <button
-            onClick={(e) => {
-              e.stopPropagation()
-              handleAction(onEdit)
-            }}
-            className="w-full text-left px-4 py-2 text-sm text-neutral-700 hover:bg-neutral-50 transition-colors"
-          >
-            Edit
-          </button>
-          <button
-            onClick={(e) => {
-              e.stopPropagation()
-              handleAction(onDuplicate)
-            }}
-            className="w-full text-left px-4 py-2 text-sm text-neutral-700 hover:bg-neutral-50 transition-colors"
-          >
-            Duplicate
-          </button>
-          <div className="border-t border-neutral-200 my-1"></div>
-          <button
-            onClick={(e) => {
-              e.stopPropagation()
-              handleAction(onDelete)
-            }}
-            className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 transition-colors"
-          >
-            Delete
-          </button>
+          {canEdit && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                handleAction(onEdit)
+              }}
+              className="w-full text-left px-4 py-2 text-sm text-neutral-700 hover:bg-neutral-50 transition-colors"
+            >
+              Edit
+            </button>
+          )}
+          {canDuplicate && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                handleAction(onDuplicate)
+              }}
+              className="w-full text-left px-4 py-2 text-sm text-neutral-700 hover:bg-neutral-50 transition-colors"
+            >
+              Duplicate
+            </button>
+          )}
+          {canDelete && (
+            <>
+              <div className="border-t border-neutral-200 my-1"></div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleAction(onDelete)
+                }}
+                className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 transition-colors"
+              >
+                Delete
+              </button>
+            </>
+          )}
         </div>
       )}
     </div>
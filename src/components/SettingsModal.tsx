@@ -176,6 +176,12 @@ const FEATURE_SECTIONS: FeatureSection[] = [
     description: 'Emission factor and GHG type management features',
     defaultExpanded: false,
     flags: [
+      {
+        key: 'activityData',
+        label: 'Activity Data',
+        description: 'Enable Activity Data ledger with computed CO2e per company and period',
+        section: 'emissionManagement',
+      },
       {
         key: 'emissionFactorGwp',
         label: 'Emission Factor GWP',
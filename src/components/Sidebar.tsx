@@ -69,12 +69,14 @@ const getSystemConfigNavItems = (featureFlags: Record<string, boolean>): NavItem
     children: [
       { name: 'Users', Icon: UserIcon, path: '/spaces/user-management/users' },
       ...(featureFlags.userRoles ? [{ name: 'User Roles', Icon: UserIcon, path: '/spaces/system-config/user-roles' }] : []),
+      { name: 'Organizations', Icon: UserIcon, path: '/spaces/system-config/organizations' },
     ],
   }] : []),
   {
     name: 'Emission management',
     Icon: LeafIcon,
     children: [
+      ...(featureFlags.activityData ? [{ name: 'Activity Data', Icon: ChartIcon, path: '/spaces/emission-management/activity-data' }] : []),
       ...(featureFlags.emissionFactorGwp ? [{ name: 'Emission Factor GWP', Icon: ChartIcon, path: '/spaces/emission-management/emission-factors' }] : []),
       ...(featureFlags.emissionFactorVersion ? [{ name: 'Emission Factor Version', Icon: ChartIcon, path: '/spaces/emission-management/emission-factor-version' }] : []),
       { name: 'Standard Emission Factors', Icon: ChartIcon, path: '/spaces/emission-management/standard-emission-factors' },
@@ -267,6 +269,7 @@ export default function Sidebar() {
         unitConversion: true,
         standardECMCatalog: true,
         standardECMClassification: true,
+        activityData: true,
       }
     }
     // On client, still use defaults initially to match server
@@ -289,6 +292,7 @@ export default function Sidebar() {
       unitConversion: true,
       standardECMCatalog: true,
       standardECMClassification: true,
+      activityData: true,
     }
   })
   
@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { useState, useEffect } from 'react'
 import { UserIcon } from './icons'
+import { authApi, getAuthSession } from '@/lib/api/auth'
 
 const spaces = [
   { name: 'Home', path: '/' },
@@ -21,8 +22,7 @@ export default function SpaceNavigation() {
   // Check if user is logged in
   useEffect(() => {
     const checkLogin = () => {
-      const loggedIn = localStorage.getItem('another_ra_logged_in') === 'true'
-      setIsLoggedIn(loggedIn)
+      setIsLoggedIn(!!getAuthSession())
     }
     checkLogin()
     // Listen for storage changes (in case logout happens in another tab)
@@ -36,6 +36,7 @@ export default function SpaceNavigation() {
   }, [])
 
   const handleLogout = () => {
+    authApi.logout()
     localStorage.removeItem('another_ra_logged_in')
     localStorage.removeItem('another_ra_username')
     setIsLoggedIn(false)
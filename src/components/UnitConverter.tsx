@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { unitApi, Unit } from '@/lib/api/unit'
+import { unitConversionApi, ConvertUnitsResult } from '@/lib/api/unitConversion'
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumSignificantDigits: 10 })
+
+export default function UnitConverter() {
+  const [units, setUnits] = useState<Unit[]>([])
+  const [isLoadingUnits, setIsLoadingUnits] = useState(true)
+  const [value, setValue] = useState('1')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [activityDensity, setActivityDensity] = useState('')
+  const [result, setResult] = useState<ConvertUnitsResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isConverting, setIsConverting] = useState(false)
+
+  useEffect(() => {
+    const loadUnits = async () => {
+      try {
+        const response = await unitApi.getPaginated({ page: 1, limit: 1000, status: 'Active', sortBy: 'Name', sortOrder: 'asc' })
+        setUnits(response.data)
+      } catch (err) {
+        console.error('Error loading units:', err)
+      } finally {
+        setIsLoadingUnits(false)
+      }
+    }
+    loadUnits()
+  }, [])
+
+  const handleConvert = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setResult(null)
+
+    const numericValue = parseFloat(value)
+    if (isNaN(numericValue)) {
+      setError('Enter a numeric value')
+      return
+    }
+    if (!from || !to) {
+      setError('Select both units')
+      return
+    }
+
+    setIsConverting(true)
+    try {
+      const converted = await unitConversionApi.convert({
+        value: numericValue,
+        from,
+        to,
+        activityDensity: activityDensity.trim() || undefined,
+      })
+      setResult(converted)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Conversion failed')
+    } finally {
+      setIsConverting(false)
+    }
+  }
+
+  const unitLabel = (unit: Unit) =>
+    `${unit.Name || unit.id}${unit.Symbol && unit.Symbol !== unit.Name ? ` (${unit.Symbol})` : ''}${unit.Dimension ? ` · ${unit.Dimension}` : ''}`
+
+  return (
+    <div className="mb-6 bg-white rounded-lg border border-gray-200 p-4 flex-shrink-0">
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">Unit converter</h2>
+      <form onSubmit={handleConvert} className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Value</label>
+          <input
+            type="number"
+            step="any"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+          <select
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            disabled={isLoadingUnits}
+            className="w-56 px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            <option value="">{isLoadingUnits ? 'Loading units...' : 'Select unit'}</option>
+            {units.map((unit) => (
+              <option key={unit.id} value={unit.id}>{unitLabel(unit)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+          <select
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            disabled={isLoadingUnits}
+            className="w-56 px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            <option value="">{isLoadingUnits ? 'Loading units...' : 'Select unit'}</option>
+            {units.map((unit) => (
+              <option key={unit.id} value={unit.id}>{unitLabel(unit)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Activity density (optional)</label>
+          <input
+            type="text"
+            value={activityDensity}
+            onChange={(e) => setActivityDensity(e.target.value)}
+            placeholder="e.g. Diesel"
+            className="w-44 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isConverting}
+          className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          {isConverting ? 'Converting...' : 'Convert'}
+        </button>
+      </form>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600">{error}</p>
+      )}
+
+      {result && (
+        <div className="mt-3 text-sm text-gray-700">
+          <p className="font-medium text-gray-900">
+            {formatNumber(result.value)} {result.from.name} = {formatNumber(result.result)} {result.to.name}
+          </p>
+          {result.path.length > 0 && (
+            <ol className="mt-1 text-xs text-gray-500 list-decimal list-inside">
+              {result.path.map((step, index) => (
+                <li key={`${step.conversionId}-${index}`}>
+                  {step.from.name || step.from.id} → {step.to.name || step.to.id} × {formatNumber(step.factor)}
+                  {step.conversionName ? ` (${step.conversionName}${step.inverted ? ', reversed' : ''})` : ''}
+                  {step.activityDensity ? ` via ${step.activityDensity.name || step.activityDensity.id}` : ''}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
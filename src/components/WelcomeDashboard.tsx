@@ -6,6 +6,7 @@ import { isFeatureEnabled } from '@/lib/featureFlags'
 import { getAllIntegrations } from '@/lib/integrations/storage'
 import { AIIntegration } from '@/lib/integrations/types'
 import { aiClient } from '@/lib/ai/client'
+import { authApi } from '@/lib/api/auth'
 import ChatbotModal from './ChatbotModal'
 
 interface BlurOverlayProps {
@@ -477,19 +478,7 @@ Please provide 2-3 concise, professional sentences. Be specific and actionable.
         // Get the default model for this integration
         const defaultModel = activeIntegration.model || 'gpt-4'
         
-        // Get userId for AI Agent Profile injection
-        // Try to get from localStorage, or use 'default-user' as fallback
-        const userId = typeof window !== 'undefined' 
-          ? localStorage.getItem('userId') || sessionStorage.getItem('userId') || 'default-user'
-          : 'default-user'
-        
-        // Ensure userId is stored for future use
-        if (typeof window !== 'undefined' && !localStorage.getItem('userId')) {
-          localStorage.setItem('userId', userId)
-        }
-        
-        console.log(`🔍 [WelcomeDashboard] Making AI call with userId: ${userId}`)
-        
+        // The AI Agent Profile of the signed-in user is applied by the API
         const response = await aiClient.chat(
           {
             providerId: activeIntegration.providerId,
@@ -508,7 +497,6 @@ Please provide 2-3 concise, professional sentences. Be specific and actionable.
             ],
             maxTokens: 250, // Reduced for faster response and less API load
             temperature: 0.7,
-            userId, // Explicitly pass userId for AI Agent Profile injection
           },
           activeIntegration.id
         )
@@ -915,7 +903,8 @@ Please provide 2-3 concise, professional sentences. Be specific and actionable.
         </div>
         <div className="flex-1 flex justify-end">
           <button
-            onClick={() => {
+            onClick={async () => {
+              await authApi.logout()
               localStorage.removeItem('another_ra_logged_in')
               localStorage.removeItem('another_ra_username')
               window.location.href = '/'
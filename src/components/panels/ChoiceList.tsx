@@ -15,6 +15,7 @@ interface ChoiceListProps {
   onSearch?: (query: string) => void // Callback for search-based fetching
   isLoading?: boolean // Show loading state during search
   onToggle?: (isOpen: boolean) => void // Callback when dropdown opens/closes
+  readOnly?: boolean // Show the selection without changing it
 }
 
 export default function ChoiceList({
@@ -30,6 +31,7 @@ export default function ChoiceList({
   onSearch, // Callback for search-based fetching
   isLoading = false, // Loading state
   onToggle, // Callback when dropdown opens/closes
+  readOnly = false,
 }: ChoiceListProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [isExpanded, setIsExpanded] = useState(false)
@@ -89,6 +91,7 @@ export default function ChoiceList({
   
   // Handle selection change
   const handleOptionClick = (optionValue: string) => {
+    if (readOnly) return
     if (multiple) {
       // Toggle selection for multiple mode
       const newValue = valueArray.includes(optionValue)
@@ -121,7 +124,7 @@ export default function ChoiceList({
                     className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-green-100 text-green-700 border border-green-200"
                   >
                     {opt.label}
-                    {multiple && (
+                    {multiple && !readOnly && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation()
@@ -134,13 +137,17 @@ export default function ChoiceList({
                     )}
                   </span>
                 ))}
-                <button
-                  onClick={() => setIsExpanded(!isExpanded)}
-                  className="px-3 py-1.5 text-xs text-green-600 hover:text-green-700 hover:bg-green-50 rounded-lg transition-colors"
-                >
-                  {isExpanded ? 'Hide options' : multiple ? 'Add/Remove' : 'Change'}
-                </button>
+                {!readOnly && (
+                  <button
+                    onClick={() => setIsExpanded(!isExpanded)}
+                    className="px-3 py-1.5 text-xs text-green-600 hover:text-green-700 hover:bg-green-50 rounded-lg transition-colors"
+                  >
+                    {isExpanded ? 'Hide options' : multiple ? 'Add/Remove' : 'Change'}
+                  </button>
+                )}
               </div>
+            ) : readOnly ? (
+              <span className="text-sm text-neutral-400">—</span>
             ) : (
               <button
                 onClick={() => setIsExpanded(!isExpanded)}
@@ -279,6 +286,7 @@ export default function ChoiceList({
               <button
                 key={option.value}
                 onClick={() => handleOptionClick(option.value)}
+                disabled={readOnly}
                 className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-all mb-1 ${
                   isSelected
                     ? 'bg-green-50 text-green-700 border border-green-200 font-medium'
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import { getAuthHeaders } from '@/lib/api/auth'
 
 interface PanelFieldProps {
   label: string
@@ -72,6 +73,7 @@ export default function PanelField({
             const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
             const response = await fetch(`${API_BASE_URL}/industry-classification/upload`, {
               method: 'POST',
+              headers: getAuthHeaders(),
               body: formData,
             })
             
@@ -0,0 +1,145 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { auditApi, AuditAction, AuditEntry } from '@/lib/api/audit'
+
+interface PanelHistoryProps {
+  /** API path segment of the entity (e.g. 'standard-emission-factors') */
+  entityPath: string
+  recordId: string
+  /** Display label of a field key (defaults to the key) */
+  getFieldLabel?: (field: string) => string
+  className?: string
+}
+
+const PAGE_SIZE = 20
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+}
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: 'bg-green-50 text-green-700',
+  update: 'bg-blue-50 text-blue-700',
+  delete: 'bg-red-50 text-red-700',
+}
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined) return '—'
+  if (Array.isArray(value)) return value.map(formatValue).join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Field-level history of a record from the audit log, newest first
+ */
+export default function PanelHistory({
+  entityPath,
+  recordId,
+  getFieldLabel = field => field,
+  className = '',
+}: PanelHistoryProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const loadPage = useCallback(async (offset: number) => {
+    abortControllerRef.current?.abort()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const page = await auditApi.getRecordHistory(entityPath, recordId, PAGE_SIZE, offset, abortController.signal)
+      setEntries(prev => (offset === 0 ? page.entries : [...prev, ...page.entries]))
+      setHasMore(page.hasMore)
+    } catch (err: any) {
+      if (err.name === 'AbortError') return
+      console.error(`Error loading history of ${entityPath}/${recordId}:`, err)
+      setError(err.message || 'Failed to load history')
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        setIsLoading(false)
+        abortControllerRef.current = null
+      }
+    }
+  }, [entityPath, recordId])
+
+  useEffect(() => {
+    setEntries([])
+    loadPage(0)
+    return () => abortControllerRef.current?.abort()
+  }, [loadPage])
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-neutral-200 p-4 md:p-7 ${className}`}>
+      <h3 className="text-sm font-semibold text-neutral-900 mb-3 md:mb-4">History</h3>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+      )}
+
+      {!isLoading && !error && entries.length === 0 && (
+        <p className="text-sm text-neutral-500">No changes recorded yet</p>
+      )}
+
+      <ol className="space-y-4">
+        {entries.map(entry => (
+          <li key={entry.id} className="border-b border-neutral-100 pb-4 last:border-b-0 last:pb-0">
+            <div className="flex items-start justify-between gap-3 mb-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_COLORS[entry.action]}`}>
+                  {ACTION_LABELS[entry.action]}
+                </span>
+                <span className="font-medium text-neutral-900" title={entry.actor}>{entry.actorName}</span>
+              </div>
+              <time dateTime={entry.timestamp} className="text-xs text-neutral-500 whitespace-nowrap">
+                {new Date(entry.timestamp).toLocaleString()}
+              </time>
+            </div>
+            {entry.action !== 'delete' && entry.changes.length > 0 && (
+              <dl className="space-y-1 text-sm">
+                {entry.changes.map(change => (
+                  <div key={change.field} className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-2">
+                    <dt className="text-neutral-600 truncate" title={getFieldLabel(change.field)}>
+                      {getFieldLabel(change.field)}
+                    </dt>
+                    <dd className="text-neutral-900 break-words">
+                      {entry.action === 'update' && (
+                        <>
+                          <span className="text-neutral-500 line-through">{formatValue(change.before)}</span>
+                          <span className="text-neutral-400 mx-1">→</span>
+                        </>
+                      )}
+                      <span>{formatValue(change.after)}</span>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {isLoading && (
+        <p className="text-sm text-neutral-400 mt-3">Loading history...</p>
+      )}
+
+      {hasMore && !isLoading && (
+        <button
+          type="button"
+          onClick={() => loadPage(entries.length)}
+          className="mt-4 text-sm font-medium text-green-600 hover:text-green-700"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  )
+}
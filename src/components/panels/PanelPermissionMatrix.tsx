@@ -0,0 +1,163 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { authApi, PermissionAction, PermissionMatrix } from '@/lib/api/auth'
+
+interface PanelPermissionMatrixProps {
+  label: string
+  /** Permission matrix of the role - JSON text as stored in its Permissions field */
+  value: string | PermissionMatrix | undefined
+  /** Called with the JSON text of the edited matrix */
+  onChange?: (value: string) => void
+  readOnly?: boolean
+}
+
+const ALL_ENTITIES = '*'
+
+const ACTION_LABELS: Record<PermissionAction, string> = {
+  read: 'Read',
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+  import: 'Import',
+  export: 'Export',
+  approve: 'Approve',
+}
+
+const DEFAULT_ACTIONS = Object.keys(ACTION_LABELS) as PermissionAction[]
+
+const parseMatrix = (value: PanelPermissionMatrixProps['value']): { matrix: PermissionMatrix; invalid: boolean } => {
+  if (!value) return { matrix: {}, invalid: false }
+  if (typeof value !== 'string') return { matrix: value, invalid: false }
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? { matrix: parsed, invalid: false }
+      : { matrix: {}, invalid: true }
+  } catch {
+    return { matrix: {}, invalid: true }
+  }
+}
+
+/**
+ * Editor of a User Role's permission matrix: the actions it grants per entity, and on
+ * every entity ("All entities")
+ */
+export default function PanelPermissionMatrix({
+  label,
+  value,
+  onChange,
+  readOnly = false,
+}: PanelPermissionMatrixProps) {
+  const [entities, setEntities] = useState<Array<{ key: string; label: string }>>([])
+  const [actions, setActions] = useState<PermissionAction[]>(DEFAULT_ACTIONS)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    authApi.getPermissions()
+      .then(result => {
+        if (cancelled) return
+        setEntities(result.entities)
+        setActions(result.actions)
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load entities')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const { matrix, invalid } = useMemo(() => parseMatrix(value), [value])
+
+  // Entities of the API, then any others the matrix already grants actions on
+  const rows = useMemo(() => {
+    const known = new Set(entities.map(entity => entity.key))
+    const others = Object.keys(matrix)
+      .filter(key => key !== ALL_ENTITIES && !known.has(key))
+      .map(key => ({ key, label: key }))
+    return [{ key: ALL_ENTITIES, label: 'All entities' }, ...entities, ...others]
+  }, [entities, matrix])
+
+  const isGranted = (entity: string, action: PermissionAction) =>
+    Array.isArray(matrix[entity]) && matrix[entity].includes(action)
+
+  const update = (entity: string, granted: PermissionAction[]) => {
+    if (readOnly || !onChange) return
+    const next: PermissionMatrix = { ...matrix, [entity]: actions.filter(action => granted.includes(action)) }
+    if (next[entity].length === 0) delete next[entity]
+    onChange(JSON.stringify(next))
+  }
+
+  const toggle = (entity: string, action: PermissionAction) => {
+    const current = matrix[entity] || []
+    update(entity, isGranted(entity, action) ? current.filter(a => a !== action) : [...current, action])
+  }
+
+  const toggleRow = (entity: string) => {
+    update(entity, actions.every(action => isGranted(entity, action)) ? [] : actions)
+  }
+
+  return (
+    <div className="py-3 border-b border-neutral-100 last:border-b-0">
+      <label className="block text-sm font-semibold text-neutral-700 mb-2">
+        {label}
+      </label>
+      {invalid && (
+        <p className="text-xs text-red-600 mb-2">
+          The stored permissions are not valid JSON - they grant nothing until saved again.
+        </p>
+      )}
+      {loadError && (
+        <p className="text-xs text-neutral-500 mb-2">Could not load the list of entities: {loadError}</p>
+      )}
+      <div className="overflow-x-auto border border-neutral-200 rounded-lg">
+        <table className="min-w-full text-xs">
+          <thead className="bg-neutral-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold text-neutral-700">Entity</th>
+              {actions.map(action => (
+                <th key={action} className="px-2 py-2 text-center font-semibold text-neutral-700">
+                  {ACTION_LABELS[action] || action}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-t border-neutral-100 hover:bg-neutral-50">
+                <td className="px-3 py-1.5 text-neutral-900 whitespace-nowrap">
+                  {readOnly ? (
+                    <span className={row.key === ALL_ENTITIES ? 'font-medium' : ''}>{row.label}</span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => toggleRow(row.key)}
+                      className={`text-left hover:text-green-600 transition-colors ${row.key === ALL_ENTITIES ? 'font-medium' : ''}`}
+                      title="Grant or revoke every action"
+                    >
+                      {row.label}
+                    </button>
+                  )}
+                </td>
+                {actions.map(action => (
+                  <td key={action} className="px-2 py-1.5 text-center">
+                    <input
+                      type="checkbox"
+                      checked={isGranted(row.key, action)}
+                      onChange={() => toggle(row.key, action)}
+                      disabled={readOnly}
+                      aria-label={`${ACTION_LABELS[action] || action} ${row.label}`}
+                      className="h-4 w-4 rounded border-neutral-300 text-green-600 focus:ring-green-500 disabled:opacity-50"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
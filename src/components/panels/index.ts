@@ -11,6 +11,8 @@ export { default as PanelSection } from './PanelSection'
 export { default as PanelField } from './PanelField'
 export { default as PanelTags } from './PanelTags'
 export { default as PanelActivity } from './PanelActivity'
+export { default as PanelHistory } from './PanelHistory'
+export { default as PanelPermissionMatrix } from './PanelPermissionMatrix'
 export { default as PanelComments } from './PanelComments'
 export { default as ChoiceList } from './ChoiceList'
 
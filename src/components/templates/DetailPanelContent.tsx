@@ -5,6 +5,9 @@ import { FieldConfig } from './types'
 import PanelSection from '../panels/PanelSection'
 import PanelField from '../panels/PanelField'
 import ChoiceList from '../panels/ChoiceList'
+import PanelHistory from '../panels/PanelHistory'
+import PanelPermissionMatrix from '../panels/PanelPermissionMatrix'
+import { getFieldValidator } from '@/lib/validation'
 import React from 'react'
 
 interface DetailPanelContentProps<T = any> {
@@ -12,6 +15,10 @@ interface DetailPanelContentProps<T = any> {
   fields: FieldConfig[]
   sections: Array<{ id: string; title: string; fields: string[] }>
   onUpdate: (id: string, data: Partial<T>) => Promise<void>
+  /** API path segment of the entity - shows the History tab (audit log) of saved items */
+  entityPath?: string
+  /** Whether the user may read the audit log (default: true) */
+  canViewHistory?: boolean
 }
 
 export default function DetailPanelContent<T extends { id: string }>({
@@ -19,9 +26,14 @@ export default function DetailPanelContent<T extends { id: string }>({
   fields,
   sections,
   onUpdate,
+  entityPath,
+  canViewHistory = true,
 }: DetailPanelContentProps<T>) {
   // Local optimistic state - immediately updated when user types
   const [localItem, setLocalItem] = useState<T>(item)
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details')
+  // Messages of typed values that are not saved because they fail validation
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
   
   // Track the last known good value for Company field to prevent it from disappearing
   const getInitialCompanyValue = () => {
@@ -143,6 +155,31 @@ export default function DetailPanelContent<T extends { id: string }>({
   // Check if this is a new item (no id)
   const isNewItem = !localItem || !(localItem as any).id
   const itemId = (localItem as any)?.id || ''
+  const showHistory = !!entityPath && !isNewItem && canViewHistory
+
+  // Open each item on its details
+  useEffect(() => {
+    setActiveTab('details')
+    setFieldErrors({})
+  }, [item?.id])
+
+  // Check a typed value against the field's validator - only valid values are saved
+  const checkField = useCallback((field: FieldConfig, value: any): boolean => {
+    const error = getFieldValidator(field)?.(value) || null
+    setFieldErrors(prev => {
+      if ((prev[field.key] || null) === error) return prev
+      const next = { ...prev }
+      if (error) {
+        next[field.key] = error
+      } else {
+        delete next[field.key]
+      }
+      return next
+    })
+    return !error
+  }, [])
+
+  const getFieldLabel = useCallback((key: string) => fields.find(f => f.key === key)?.label || key, [fields])
 
   // Debounced update function with immediate optimistic UI update
   const debouncedUpdate = useCallback((id: string, fieldKey: string, value: any) => {
@@ -329,6 +366,26 @@ export default function DetailPanelContent<T extends { id: string }>({
       )
     }
 
+    // Permission matrix editor
+    if (field.type === 'permissions') {
+      return (
+        <PanelPermissionMatrix
+          key={field.key}
+          label={field.label}
+          value={value}
+          readOnly={!field.editable}
+          onChange={(newValue) => {
+            if (isNewItem) {
+              setLocalItem(prev => ({ ...prev, [field.key]: newValue } as T))
+              onUpdate('', { [field.key]: newValue } as Partial<T>)
+            } else {
+              debouncedUpdate((localItem as any).id, field.key, newValue)
+            }
+          }}
+        />
+      )
+    }
+
     // Special rendering for attachments
     if (fieldType === 'attachment') {
       return (
@@ -409,29 +466,61 @@ export default function DetailPanelContent<T extends { id: string }>({
     }
 
     return (
-      <PanelField
-        key={field.key}
-        label={field.label}
-        value={value}
-        type={field.type === 'readonly' ? 'readonly' : field.type === 'textarea' ? 'textarea' : 'text'}
-        readOnly={!field.editable || (isNewItem && field.type === 'readonly')}
-        onChange={(newValue) => {
-          if (isNewItem) {
-            // For new items, update immediately (no debounce)
-            setLocalItem(prev => ({ ...prev, [field.key]: newValue } as T))
-            onUpdate('', { [field.key]: newValue } as Partial<T>)
-          } else {
-            // For existing items, use debounced update with immediate UI feedback
-            debouncedUpdate((localItem as any).id, field.key, newValue)
-          }
-        }}
-      />
+      <div key={field.key}>
+        <PanelField
+          label={field.label}
+          value={value}
+          type={field.type === 'readonly' ? 'readonly' : field.type === 'textarea' ? 'textarea' : 'text'}
+          readOnly={!field.editable || (isNewItem && field.type === 'readonly')}
+          onChange={(newValue) => {
+            if (!checkField(field, newValue)) {
+              // Show what was typed, but keep it from the API until it is valid
+              setLocalItem(prev => ({ ...prev, [field.key]: newValue } as T))
+              return
+            }
+            if (isNewItem) {
+              // For new items, update immediately (no debounce)
+              setLocalItem(prev => ({ ...prev, [field.key]: newValue } as T))
+              onUpdate('', { [field.key]: newValue } as Partial<T>)
+            } else {
+              // For existing items, use debounced update with immediate UI feedback
+              debouncedUpdate((localItem as any).id, field.key, newValue)
+            }
+          }}
+        />
+        {fieldErrors[field.key] && (
+          <p className="text-xs text-red-600 -mt-2 mb-2">{field.label} {fieldErrors[field.key]}</p>
+        )}
+      </div>
     )
-  }, [localItem, onUpdate, isNewItem, debouncedUpdate, detectFieldType])
+  }, [localItem, onUpdate, isNewItem, debouncedUpdate, detectFieldType, checkField, fieldErrors])
 
   return (
     <>
-      {sections.map(section => {
+      {showHistory && (
+        <div className="flex border-b border-neutral-200 mb-4">
+          {(['details', 'history'] as const).map(tab => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setActiveTab(tab)}
+              className={`flex-1 px-6 py-3 text-sm font-medium transition-colors ${
+                activeTab === tab
+                  ? 'text-green-600 border-b-2 border-green-600 bg-green-50'
+                  : 'text-neutral-600 hover:text-neutral-900 hover:bg-neutral-50'
+              }`}
+            >
+              {tab === 'details' ? 'Details' : 'History'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showHistory && activeTab === 'history' && (
+        <PanelHistory entityPath={entityPath!} recordId={itemId} getFieldLabel={getFieldLabel} />
+      )}
+
+      {(!showHistory || activeTab === 'details') && sections.map(section => {
         const sectionFields = section.fields
           .map(key => getFieldConfig(key))
           .filter(Boolean) as FieldConfig[]
@@ -814,6 +903,7 @@ function AsyncChoiceList({ field, value, item, onUpdate }: { field: FieldConfig;
       onSearch={isSearchable ? setSearchQuery : undefined}
       isLoading={isLoading}
       onToggle={handleDropdownToggle}
+      readOnly={field.editable === false}
     />
   )
 }
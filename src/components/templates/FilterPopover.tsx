@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useRef, useEffect, useMemo } from 'react'
+import { FilterMatchMode, getRangeValue } from '@/lib/filters'
 
 interface FilterPopoverProps {
   label: string
@@ -12,6 +13,9 @@ interface FilterPopoverProps {
   onToggle: (isOpen: boolean) => void
   placeholder?: string
   fieldKey?: string // Field key to determine color scheme
+  type?: 'select' | 'multiselect' | 'numberRange' | 'dateRange' // Ranges take a [min, max] value
+  matchMode?: FilterMatchMode // How several selected options combine
+  onMatchModeChange?: (matchMode: FilterMatchMode) => void
 }
 
 export default function FilterPopover({
@@ -24,6 +28,9 @@ export default function FilterPopover({
   onToggle,
   placeholder = 'Find an option',
   fieldKey,
+  type,
+  matchMode = 'any',
+  onMatchModeChange,
 }: FilterPopoverProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const containerRef = useRef<HTMLDivElement>(null)
@@ -51,13 +58,19 @@ export default function FilterPopover({
     )
   }, [parsedOptions, searchQuery])
 
+  const isRange = type === 'numberRange' || type === 'dateRange'
+  const [rangeMin, rangeMax] = getRangeValue(isRange ? value : undefined)
+
   // Get selected values as array
   const selectedValues = useMemo(() => {
+    if (isRange) {
+      return [rangeMin, rangeMax].filter(v => v !== '')
+    }
     if (multiple) {
       return Array.isArray(value) ? value : (value ? [value] : [])
     }
     return value ? [value] : []
-  }, [value, multiple])
+  }, [value, multiple, isRange, rangeMin, rangeMax])
 
   // Close on outside click
   useEffect(() => {
@@ -70,7 +83,7 @@ export default function FilterPopover({
 
     if (isOpen) {
       document.addEventListener('mousedown', handleClickOutside)
-      // Focus search input when opened
+      // Focus search input (or the range minimum) when opened
       setTimeout(() => inputRef.current?.focus(), 0)
     }
 
@@ -79,6 +92,12 @@ export default function FilterPopover({
     }
   }, [isOpen, onToggle])
 
+  // Handle a range bound change - an empty input leaves that end open
+  const handleRangeChange = (bound: 'min' | 'max', boundValue: string) => {
+    const next = bound === 'min' ? [boundValue, rangeMax] : [rangeMin, boundValue]
+    onChange(next.some(v => v !== '') ? next : [])
+  }
+
   // Handle checkbox toggle
   const handleToggle = (optionValue: string) => {
     if (multiple) {
@@ -134,7 +153,7 @@ export default function FilterPopover({
         }`}
       >
         {label}
-        {isActive && (
+        {isActive && !isRange && (
           <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">
             {selectedValues.length}
           </span>
@@ -144,6 +163,25 @@ export default function FilterPopover({
       {/* Popover Overlay */}
       {isOpen && (
         <div className="absolute top-full left-0 mt-1 z-50 w-80 bg-white border border-neutral-200 rounded-lg shadow-lg">
+          {isRange ? (
+            /* Range Inputs */
+            <div className="p-3 space-y-2">
+              {(['min', 'max'] as const).map((bound) => (
+                <label key={bound} className="flex items-center gap-3 text-xs text-neutral-600">
+                  <span className="w-8">{bound === 'min' ? 'From' : 'To'}</span>
+                  <input
+                    ref={bound === 'min' ? inputRef : undefined}
+                    type={type === 'dateRange' ? 'date' : 'number'}
+                    step={type === 'numberRange' ? 'any' : undefined}
+                    value={bound === 'min' ? rangeMin : rangeMax}
+                    onChange={(e) => handleRangeChange(bound, e.target.value)}
+                    className="flex-1 px-3 py-2 text-sm border border-neutral-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  />
+                </label>
+              ))}
+            </div>
+          ) : (
+          <>
           {/* Search Input */}
           <div className="p-3 border-b border-neutral-200">
             <input
@@ -188,18 +226,23 @@ export default function FilterPopover({
           </div>
 
           {/* Filter Logic Indicator */}
-          <div className="px-4 py-2 border-t border-neutral-200 bg-neutral-50">
-            <div className="flex items-center justify-between text-xs text-neutral-600">
-              <span>{label} is</span>
-              <select
-                className="text-neutral-700 bg-white border border-neutral-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-green-500"
-                defaultValue="any"
-              >
-                <option value="any">any of</option>
-                <option value="all">all of</option>
-              </select>
+          {multiple && (
+            <div className="px-4 py-2 border-t border-neutral-200 bg-neutral-50">
+              <div className="flex items-center justify-between text-xs text-neutral-600">
+                <span>{label} is</span>
+                <select
+                  className="text-neutral-700 bg-white border border-neutral-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-green-500"
+                  value={matchMode}
+                  onChange={(e) => onMatchModeChange?.(e.target.value as FilterMatchMode)}
+                >
+                  <option value="any">any of</option>
+                  <option value="all">all of</option>
+                </select>
+              </div>
             </div>
-          </div>
+          )}
+          </>
+          )}
         </div>
       )}
     </div>
@@ -12,6 +12,8 @@ import { UpdateTableSchemaDto } from '@/lib/api/tableConfiguration'
 import { tableConfigurationApi } from '@/lib/api/tableConfiguration'
 import TableHeaderActions, { TableHeaderAction } from '../tables/TableHeaderActions'
 import ConfigureTableModal from '../tables/ConfigureTableModal'
+import ImportModal from '../ImportModal'
+import ExportModal from '../ExportModal'
 import { isFeatureEnabled } from '@/lib/featureFlags'
 import { getTablePreferences, saveTablePreferences, TablePreferences, getColumnWidths, updateColumnWidths, updateColumnWidthsForMode, getListMode, setListMode, ListMode, getPageSize, updatePageSize } from '@/lib/tablePreferences'
 import { trackEvent } from '@/lib/telemetry'
@@ -19,6 +21,8 @@ import { useResizableColumns } from '@/hooks/useResizableColumns'
 import { useResizableColumnsV2, ColumnInfo, calculateAutoWidth } from '@/hooks/useResizableColumnsV2'
 import ColumnResizer from '../tables/ColumnResizer'
 import { useUserPreferences } from '@/hooks/useUserPreferences'
+import { usePermissions } from '@/hooks/usePermissions'
+import { PermissionAction } from '@/lib/api/auth'
 import { OptimizedTableCell } from '../tables/OptimizedTableCell'
 import { TableSkeleton } from '../tables/TableSkeleton'
 // FixedSizeList import removed - not currently used
@@ -26,6 +30,7 @@ import { useTableDataCache } from '@/hooks/useTableDataCache'
 import { enhanceWithCachedRelationships } from '@/lib/utils/enhanceWithCachedRelationships'
 import { fetchFieldMapping, getFieldMapping } from '@/lib/fieldIdMapping'
 import FilterPopover from './FilterPopover'
+import { buildFilterQuery, FilterMatchMode, getRangeValue, isRangeFilter } from '@/lib/filters'
 import TableDescription from './TableDescription'
 
 interface ListDetailTemplateProps<T = any> {
@@ -51,6 +56,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
   const {
     entityName = 'Item',
     entityNamePlural = 'Items',
+    entityPath,
     description,
     columns = [],
     fields = [],
@@ -66,6 +72,14 @@ export default function ListDetailTemplate<T extends { id: string }>({
     loadingMessage = `Loading items...`,
   } = safeConfig
   
+  // Actions the user's roles allow on the entity - the others are hidden, as the API
+  // refuses them (without an API path no permission can be checked, so none is offered)
+  const { can } = usePermissions()
+  const canDo = useCallback(
+    (action: PermissionAction) => !!entityPath && can(entityPath, action),
+    [can, entityPath]
+  )
+
   // Data state - ALL hooks must be called unconditionally
   // Use consistent initial state to prevent hydration mismatches
   const [items, setItems] = useState<T[]>([])
@@ -367,6 +381,9 @@ export default function ListDetailTemplate<T extends { id: string }>({
   
   // Track which filter popover is open
   const [openFilterKey, setOpenFilterKey] = useState<string | null>(null)
+
+  // "any of" / "all of" per multiselect filter
+  const [filterMatchModes, setFilterMatchModes] = useState<Record<string, FilterMatchMode>>({})
   
   // Count active filters
   const activeFilterCount = useMemo(() => {
@@ -995,6 +1012,12 @@ export default function ListDetailTemplate<T extends { id: string }>({
     })
   }, [fields, tableConfiguration])
 
+  // Fields of the detail panel when the user may not save the item
+  const readOnlyFields = useMemo(
+    () => configuredFields.map(field => ({ ...field, editable: false })),
+    [configuredFields]
+  )
+
 
   // Debounced search (300ms as per optimization spec)
   const [debouncedSearch, setDebouncedSearch] = useState('')
@@ -1038,6 +1061,12 @@ export default function ListDetailTemplate<T extends { id: string }>({
     }, 200)
     return () => clearTimeout(timer)
   }, [activeFilters, isPrefetchingEnabled])
+
+  // Filters of the API requests: the filters map, plus a filter tree for ranges and "all of" selections
+  const filterQuery = useMemo(
+    () => buildFilterQuery(debouncedFilters, filters, filterMatchModes),
+    [debouncedFilters, filters, filterMatchModes]
+  )
   
   // Clear prefetch cache when search changes
   useEffect(() => {
@@ -1064,7 +1093,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
           if (typeof filter.options === 'function') {
             options[filter.key] = await filter.options()
           } else {
-            options[filter.key] = filter.options
+            options[filter.key] = filter.options || []
           }
         }
         
@@ -1098,7 +1127,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
         search: debouncedSearch || undefined,
         sortBy: sortBy || undefined,
         sortOrder: sortOrder || undefined,
-        filters: Object.keys(debouncedFilters).length > 0 ? debouncedFilters : undefined,
+        ...filterQuery,
       })
       
       // Update pagination info (side effect)
@@ -1113,11 +1142,11 @@ export default function ListDetailTemplate<T extends { id: string }>({
       setError(err instanceof Error ? err.message : 'Failed to load items')
       return []
     }
-  }, [currentPage, pageSize, debouncedSearch, sortBy, sortOrder, debouncedFilters, apiClient])
+  }, [currentPage, pageSize, debouncedSearch, sortBy, sortOrder, filterQuery, apiClient])
   
   // Use data caching hook if enabled (stale-while-revalidate pattern)
   // ALWAYS call the hook, even if apiClient is missing (pass safe fallback function)
-  const cacheKey = `${entityNamePlural}-page-${currentPage}-${debouncedSearch}-${JSON.stringify(debouncedFilters)}-${sortBy}-${sortOrder}`
+  const cacheKey = `${entityNamePlural}-page-${currentPage}-${debouncedSearch}-${JSON.stringify(filterQuery)}-${sortBy}-${sortOrder}`
   const safeFetchFn = apiClient ? fetchItemsData : async () => []
   const { 
     data: cachedItemsData, 
@@ -1193,7 +1222,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
           search: debouncedSearch || undefined,
           sortBy: sortBy || undefined,
           sortOrder: sortOrder || undefined,
-          filters: Object.keys(debouncedFilters).length > 0 ? debouncedFilters : undefined,
+          ...filterQuery,
         })
           .then(result => {
             setTotalCount(result.pagination.total)
@@ -1216,7 +1245,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
         search: debouncedSearch || undefined,
         sortBy: sortBy || undefined,
         sortOrder: sortOrder || undefined,
-        filters: Object.keys(debouncedFilters).length > 0 ? debouncedFilters : undefined,
+        ...filterQuery,
       })
 
       // Enhance with cached relationship names for better performance
@@ -1246,7 +1275,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
     } finally {
       setIsLoading(false)
     }
-  }, [currentPage, pageSize, debouncedSearch, sortBy, sortOrder, debouncedFilters, apiClient, columns, panel.titleKey, entityNamePlural, isPrefetchingEnabled])
+  }, [currentPage, pageSize, debouncedSearch, sortBy, sortOrder, filterQuery, apiClient, columns, panel.titleKey, entityNamePlural, isPrefetchingEnabled])
 
   // Load items when dependencies change
   useEffect(() => {
@@ -1260,7 +1289,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
     }
     
     const nextPage = currentPage + 1
-    const cacheKey = `${entityNamePlural}-page-${nextPage}-${debouncedSearch}-${JSON.stringify(debouncedFilters)}-${sortBy}-${sortOrder}`
+    const cacheKey = `${entityNamePlural}-page-${nextPage}-${debouncedSearch}-${JSON.stringify(filterQuery)}-${sortBy}-${sortOrder}`
     
     // Only prefetch if not already cached
     if (!prefetchCacheRef.current.has(cacheKey)) {
@@ -1271,7 +1300,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
         search: debouncedSearch || undefined,
         sortBy: sortBy || undefined,
         sortOrder: sortOrder || undefined,
-        filters: Object.keys(debouncedFilters).length > 0 ? debouncedFilters : undefined,
+        ...filterQuery,
       })
         .then(result => {
           // Cache the prefetched data
@@ -1282,7 +1311,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
           console.debug('Prefetch failed (non-critical):', error)
         })
     }
-  }, [currentPage, hasMore, totalCount, pageSize, isPrefetchingEnabled, isLoading, debouncedSearch, debouncedFilters, sortBy, sortOrder, apiClient, entityNamePlural])
+  }, [currentPage, hasMore, totalCount, pageSize, isPrefetchingEnabled, isLoading, debouncedSearch, filterQuery, sortBy, sortOrder, apiClient, entityNamePlural])
 
   // Handle item click with telemetry
   const handleItemClick = useCallback(async (item: T, event?: React.MouseEvent) => {
@@ -1658,6 +1687,9 @@ export default function ListDetailTemplate<T extends { id: string }>({
   // Import modal state
   const [isImportModalOpen, setIsImportModalOpen] = useState(false)
 
+  // Export modal state
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false)
+
   // Configuration panel state
   const [isConfigPanelOpen, setIsConfigPanelOpen] = useState(false)
 
@@ -1758,23 +1790,13 @@ export default function ListDetailTemplate<T extends { id: string }>({
   // Handle import button click (opens modal)
   const handleImportClick = useCallback(() => {
     trackEvent({ type: 'table.import_clicked', tableId: entityNamePlural })
-    if (!apiClient.bulkImport) {
-      alert('Bulk import is not supported for this entity')
-      return
-    }
     setIsImportModalOpen(true)
-  }, [apiClient, entityNamePlural])
+  }, [entityNamePlural])
 
-  // Handle import completion (called from modal)
-  const handleImportComplete = useCallback(async (itemsToImport: Partial<T>[]) => {
-    if (!apiClient.bulkImport) {
-      throw new Error('Bulk import is not supported for this entity')
-    }
-    const result = await apiClient.bulkImport(itemsToImport)
+  // Reload items once the modal has created records
+  const handleImportComplete = useCallback(() => {
     loadItems()
-    setIsImportModalOpen(false)
-    return result
-  }, [apiClient, loadItems])
+  }, [loadItems])
 
 
   // Extract exportable text value from item data
@@ -1842,9 +1864,14 @@ export default function ListDetailTemplate<T extends { id: string }>({
     return String(value)
   }, [configuredColumns])
 
-  // Handle export
+  // Handle export - server-side export of the whole filtered view when the entity has an API path
   const handleExport = useCallback(() => {
     trackEvent({ type: 'table.export_clicked', tableId: entityNamePlural })
+    if (entityPath) {
+      setIsExportModalOpen(true)
+      return
+    }
+    // Fallback: CSV of the loaded rows
     try {
       // Create CSV content
       const escapeCSV = (value: any): string => {
@@ -1882,7 +1909,16 @@ export default function ListDetailTemplate<T extends { id: string }>({
       console.error('Export error:', error)
       alert(`Failed to export: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
-  }, [items, configuredColumns, entityNamePlural, getExportValue])
+  }, [items, configuredColumns, entityNamePlural, entityPath, getExportValue])
+
+  // Current view for the export modal - visible columns, filters, search and sort
+  const exportParams = useMemo(() => ({
+    columns: configuredColumns.map(column => ({ key: column.key, label: column.label })),
+    ...filterQuery,
+    search: debouncedSearch || undefined,
+    sortBy: sortBy || undefined,
+    sortOrder,
+  }), [configuredColumns, filterQuery, debouncedSearch, sortBy, sortOrder])
 
 
   // Render cell content
@@ -2046,7 +2082,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
             <TableHeaderActions
               tableId={entityNamePlural}
               actions={[
-                ...(showImportExport && apiClient.bulkImport ? [{
+                ...(showImportExport && entityPath && canDo('import') ? [{
                   id: 'import',
                   label: 'Import',
                   onClick: handleImportClick,
@@ -2057,7 +2093,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
                     </svg>
                   ),
                 }] : []),
-                ...(showImportExport ? [{
+                ...(showImportExport && canDo('export') ? [{
                   id: 'export',
                   label: 'Export',
                   onClick: handleExport,
@@ -2126,7 +2162,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
               </button>
               {showImportExport && (
                 <>
-                  {apiClient.bulkImport && (
+                  {entityPath && canDo('import') && (
                     <button
                       onClick={handleImportClick}
                       className="px-3 py-2 border border-neutral-300 rounded-lg text-sm text-neutral-700 bg-white hover:bg-neutral-50 transition-colors flex items-center space-x-2"
@@ -2138,16 +2174,18 @@ export default function ListDetailTemplate<T extends { id: string }>({
                       <span>Import</span>
                     </button>
                   )}
-                  <button
-                    onClick={handleExport}
-                    className="px-3 py-2 border border-neutral-300 rounded-lg text-sm text-neutral-700 bg-white hover:bg-neutral-50 transition-colors flex items-center space-x-2"
-                    aria-label="Export"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
-                    </svg>
-                    <span>Export</span>
-                  </button>
+                  {canDo('export') && (
+                    <button
+                      onClick={handleExport}
+                      className="px-3 py-2 border border-neutral-300 rounded-lg text-sm text-neutral-700 bg-white hover:bg-neutral-50 transition-colors flex items-center space-x-2"
+                      aria-label="Export"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
+                      </svg>
+                      <span>Export</span>
+                    </button>
+                  )}
                 </>
               )}
               <button
@@ -2177,6 +2215,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
               </button>
             </>
           )}
+          {canDo('create') && (
           <button
             onClick={() => {
               // Open panel with empty item for creation
@@ -2191,6 +2230,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
             </svg>
             <span>Add {entityName.toLowerCase()}</span>
           </button>
+          )}
         </div>
         </div>
         {/* Table Description */}
@@ -2349,6 +2389,12 @@ export default function ListDetailTemplate<T extends { id: string }>({
                         }}
                         placeholder="Find an option"
                         fieldKey={filter.key}
+                        type={filter.type}
+                        matchMode={filterMatchModes[filter.key]}
+                        onMatchModeChange={(mode) => {
+                          setFilterMatchModes(prev => ({ ...prev, [filter.key]: mode }))
+                          setCurrentPage(1)
+                        }}
                       />
                     </div>
                   )
@@ -2365,6 +2411,27 @@ export default function ListDetailTemplate<T extends { id: string }>({
                       .map(filter => {
                         const selectedValue = activeFilters[filter.key]
                         const isMultiSelect = filter.type === 'multiselect'
+                        if (isRangeFilter(filter)) {
+                          const [min, max] = getRangeValue(selectedValue)
+                          return (
+                            <span
+                              key={filter.key}
+                              className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700 border border-green-200"
+                            >
+                              <span className="font-semibold">{filter.label}:</span>
+                              <span>{min && max ? `${min} – ${max}` : min ? `≥ ${min}` : `≤ ${max}`}</span>
+                              <button
+                                onClick={() => handleFilterChange(filter.key, '')}
+                                className="ml-0.5 hover:text-green-900 focus:outline-none"
+                                aria-label={`Clear ${filter.label} filter`}
+                              >
+                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                              </button>
+                            </span>
+                          )
+                        }
                         const selectedValues = isMultiSelect && Array.isArray(selectedValue) 
                           ? selectedValue 
                           : (selectedValue ? [selectedValue] : [])
@@ -2968,7 +3035,7 @@ export default function ListDetailTemplate<T extends { id: string }>({
               title={(selectedItem as any)?.[panel.titleKey] || (selectedItem && !(selectedItem as any).id ? `New ${entityName}` : `${entityName} Details`)}
               onClose={handleClosePanel}
               actions={
-                panel.actions?.delete && selectedItem && (selectedItem as any).id && (
+                panel.actions?.delete && selectedItem && (selectedItem as any).id && canDo('delete') && (
                   <button
                     onClick={() => handleDelete((selectedItem as any).id)}
                     className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded"
@@ -2989,13 +3056,38 @@ export default function ListDetailTemplate<T extends { id: string }>({
 
           <DetailPanelContent
             item={selectedItem}
-            fields={configuredFields}
+            fields={canDo((selectedItem as any).id ? 'update' : 'create') ? configuredFields : readOnlyFields}
             sections={panel.sections}
             onUpdate={handleUpdate}
+            entityPath={entityPath}
+            canViewHistory={can('audit', 'read')}
           />
         </DetailPanel>
       )}
 
+      {/* Import Modal */}
+      {entityPath && (
+        <ImportModal
+          isOpen={isImportModalOpen}
+          onClose={() => setIsImportModalOpen(false)}
+          entityName={entityName}
+          entityNamePlural={entityNamePlural}
+          entityPath={entityPath}
+          onComplete={handleImportComplete}
+        />
+      )}
+
+      {/* Export Modal */}
+      {entityPath && (
+        <ExportModal
+          isOpen={isExportModalOpen}
+          onClose={() => setIsExportModalOpen(false)}
+          entityNamePlural={entityNamePlural}
+          entityPath={entityPath}
+          params={exportParams}
+        />
+      )}
+
       {/* Configure Table Modal (V2) */}
       {isTableActionsV2Enabled && (
         <ConfigureTableModal
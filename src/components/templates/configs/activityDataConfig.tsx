@@ -0,0 +1,427 @@
+/**
+ * Activity Data Table Configuration
+ */
+
+import { ListDetailTemplateConfig } from '../types'
+import { FilterNode } from '@/lib/filters'
+import { activityDataApi, ActivityData } from '@/lib/api/activityData'
+import { getAuthHeaders } from '@/lib/api/auth'
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
+
+const activityDataApiClient = {
+  getPaginated: async (params: {
+    page?: number
+    limit?: number
+    search?: string
+    sortBy?: string
+    sortOrder?: 'asc' | 'desc'
+    filters?: Record<string, any>
+    filter?: FilterNode
+  }) => {
+    const result = await activityDataApi.getPaginated({
+      page: params.page || 1,
+      limit: params.limit || 25,
+      search: params.search,
+      sortBy: params.sortBy,
+      sortOrder: params.sortOrder,
+      filters: params.filters,
+      filter: params.filter,
+    })
+    return {
+      data: result.data,
+      pagination: {
+        ...result.pagination,
+        page: params.page || 1,
+      },
+    }
+  },
+  getById: async (id: string) => {
+    return await activityDataApi.getById(id)
+  },
+  create: async (data: Partial<ActivityData>) => {
+    return await activityDataApi.create(data as any)
+  },
+  update: async (id: string, data: Partial<ActivityData>) => {
+    return await activityDataApi.update(id, data as any)
+  },
+  delete: async (id: string) => {
+    await activityDataApi.delete(id)
+  },
+  getFilterValues: async (field: string, limit?: number) => {
+    return await activityDataApi.getFilterValues(field, limit)
+  },
+}
+
+/**
+ * Fetch linked record options as "name|id" strings for choiceList fields
+ */
+const fetchLinkedOptions = (path: string, nameField: string, label: string) =>
+  async (searchQuery?: string, signal?: AbortSignal): Promise<string[]> => {
+    try {
+      const queryParams = new URLSearchParams()
+      queryParams.append('paginated', 'true')
+
+      if (searchQuery && searchQuery.trim()) {
+        queryParams.append('search', searchQuery.trim())
+        queryParams.append('limit', '100')
+      } else {
+        queryParams.append('limit', '50')
+        queryParams.append('page', '1')
+      }
+
+      const abortSignal = signal || AbortSignal.timeout(10000)
+
+      const response = await fetch(`${API_BASE_URL}/${path}?${queryParams.toString()}`, {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        signal: abortSignal,
+      })
+
+      if (response.ok) {
+        const result = await response.json()
+        if (result.success && result.data) {
+          return result.data.map((item: any) => `${item[nameField] || item.Name || item.id}|${item.id}`)
+        }
+      }
+    } catch (err: any) {
+      if (err.name === 'AbortError' || err.name === 'TimeoutError') {
+        throw err
+      }
+      console.error(`Error fetching ${label} records:`, err)
+    }
+    return []
+  }
+
+/**
+ * Render resolved linked record names - never show record IDs
+ */
+const renderNames = (value: string | string[] | undefined) => {
+  const namesArray = (Array.isArray(value) ? value : value ? [value] : [])
+    .filter((n: string) => n && !n.startsWith('rec'))
+
+  if (namesArray.length === 0) {
+    return <span className="text-sm text-neutral-400">—</span>
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {namesArray.map((name, idx) => (
+        <span
+          key={idx}
+          className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 border border-green-200"
+        >
+          {name}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+export const activityDataConfig: ListDetailTemplateConfig<ActivityData> = {
+  entityName: 'Activity Data',
+  entityNamePlural: 'Activity Data',
+  entityPath: 'activity-data',
+  description: 'Record activity quantities per company, geography and reporting period. CO2e is computed from the matching emission factor and refreshed whenever the quantity, unit or factor changes.',
+  defaultSort: {
+    field: 'Name',
+    order: 'asc',
+  },
+  pageSizeOptions: [10, 25, 50, 100],
+  showImportExport: true,
+
+  columns: [
+    {
+      key: 'Name',
+      label: 'Name',
+      sortable: true,
+      align: 'left',
+      render: (value: string) => (
+        <span className="text-sm font-medium text-neutral-900">
+          {value || '—'}
+        </span>
+      ),
+    },
+    {
+      key: 'Company Name',
+      label: 'Company',
+      sortable: false,
+      align: 'left',
+      width: 'w-40',
+      render: (value: string | string[] | undefined) => renderNames(value),
+    },
+    {
+      key: 'Normalized activity Name',
+      label: 'Activity',
+      sortable: false,
+      align: 'left',
+      width: 'w-48',
+      render: (value: string | string[] | undefined) => renderNames(value),
+    },
+    {
+      key: 'Quantity',
+      label: 'Quantity',
+      sortable: true,
+      align: 'right',
+      width: 'w-28',
+      render: (value: number) => (
+        <span className="text-sm text-neutral-700">
+          {value !== undefined && value !== null ? value.toLocaleString() : '—'}
+        </span>
+      ),
+    },
+    {
+      key: 'Unit Name',
+      label: 'Unit',
+      sortable: false,
+      align: 'left',
+      width: 'w-24',
+      render: (value: string | string[] | undefined) => renderNames(value),
+    },
+    {
+      key: 'Reporting Year',
+      label: 'Year',
+      sortable: true,
+      filterable: true,
+      align: 'center',
+      width: 'w-20',
+      render: (value: number) => (
+        <span className="text-sm text-neutral-700">
+          {value || '—'}
+        </span>
+      ),
+    },
+    {
+      key: 'Computed CO2e (t)',
+      label: 'CO2e (t)',
+      sortable: true,
+      align: 'right',
+      width: 'w-28',
+      render: (value: number) => (
+        <span className="text-sm font-medium text-neutral-900">
+          {value !== undefined && value !== null ? value.toFixed(4) : '—'}
+        </span>
+      ),
+    },
+    {
+      key: 'Calculation Status',
+      label: 'Calculation',
+      sortable: true,
+      filterable: true,
+      align: 'center',
+      width: 'w-28',
+      render: (value: string) => (
+        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+          value === 'Calculated'
+            ? 'bg-green-100 text-green-800'
+            : value === 'Error'
+              ? 'bg-red-100 text-red-800'
+              : 'bg-neutral-100 text-neutral-800'
+        }`}>
+          {value || '—'}
+        </span>
+      ),
+    },
+  ],
+
+  filters: [
+    {
+      key: 'Company',
+      label: 'Company',
+      type: 'select',
+      options: async () => {
+        return await activityDataApi.getFilterValues('Company', 1000)
+      },
+      placeholder: 'All Companies',
+    },
+    {
+      key: 'Reporting Year',
+      label: 'Reporting Year',
+      type: 'select',
+      options: async () => {
+        return await activityDataApi.getFilterValues('Reporting Year', 1000)
+      },
+      placeholder: 'All Years',
+    },
+    {
+      key: 'Calculation Status',
+      label: 'Calculation Status',
+      type: 'select',
+      options: ['Calculated', 'Error', 'Pending'],
+      placeholder: 'All Statuses',
+    },
+  ],
+
+  fields: [
+    {
+      key: 'Name',
+      label: 'Name',
+      type: 'text',
+      required: true,
+      editable: true,
+      section: 'general',
+    },
+    {
+      key: 'Company',
+      label: 'Company',
+      type: 'choiceList',
+      required: true,
+      editable: true,
+      options: fetchLinkedOptions('companies', 'companyName', 'Company'),
+      searchable: true,
+      section: 'general',
+    },
+    {
+      key: 'Geography',
+      label: 'Geography',
+      type: 'choiceList',
+      editable: true,
+      options: fetchLinkedOptions('geography', 'Name', 'Geography'),
+      searchable: true,
+      section: 'general',
+    },
+    {
+      key: 'Period Start',
+      label: 'Period Start',
+      type: 'date',
+      editable: true,
+      section: 'general',
+    },
+    {
+      key: 'Period End',
+      label: 'Period End',
+      type: 'date',
+      editable: true,
+      section: 'general',
+    },
+    {
+      key: 'Reporting Year',
+      label: 'Reporting Year',
+      type: 'number',
+      required: true,
+      editable: true,
+      placeholder: 'e.g. 2025',
+      section: 'general',
+    },
+    {
+      key: 'Status',
+      label: 'Status',
+      type: 'select',
+      editable: true,
+      options: ['Active', 'Inactive'],
+      section: 'general',
+    },
+    {
+      key: 'Normalized activity',
+      label: 'Normalized Activity',
+      type: 'choiceList',
+      required: true,
+      editable: true,
+      options: fetchLinkedOptions('normalized-activities', 'Name', 'Normalized Activity'),
+      searchable: true,
+      section: 'activity',
+    },
+    {
+      key: 'Quantity',
+      label: 'Quantity',
+      type: 'number',
+      required: true,
+      editable: true,
+      placeholder: 'Enter quantity...',
+      section: 'activity',
+    },
+    {
+      key: 'Unit',
+      label: 'Unit',
+      type: 'choiceList',
+      required: true,
+      editable: true,
+      options: fetchLinkedOptions('unit', 'Name', 'Unit'),
+      searchable: true,
+      section: 'activity',
+    },
+    {
+      key: 'Emission Factor',
+      label: 'Emission Factor',
+      type: 'choiceList',
+      editable: true,
+      options: fetchLinkedOptions('standard-emission-factors', 'Name', 'Standard Emission Factor'),
+      searchable: true,
+      section: 'activity',
+    },
+    {
+      key: 'Computed CO2e (t)',
+      label: 'Computed CO2e (t)',
+      type: 'readonly',
+      editable: false,
+      section: 'calculation',
+    },
+    {
+      key: 'Calculation Status',
+      label: 'Calculation Status',
+      type: 'readonly',
+      editable: false,
+      section: 'calculation',
+    },
+    {
+      key: 'Calculation Error',
+      label: 'Calculation Error',
+      type: 'readonly',
+      editable: false,
+      section: 'calculation',
+    },
+    {
+      key: 'Calculated At',
+      label: 'Calculated At',
+      type: 'readonly',
+      editable: false,
+      section: 'calculation',
+    },
+    {
+      key: 'Notes',
+      label: 'Notes & Comments',
+      type: 'textarea',
+      editable: true,
+      placeholder: 'Add notes or comments...',
+      section: 'notes',
+    },
+  ],
+
+  panel: {
+    titleKey: 'Name',
+    sections: [
+      {
+        id: 'general',
+        title: 'General Information',
+        fields: ['Name', 'Company', 'Geography', 'Period Start', 'Period End', 'Reporting Year', 'Status'],
+        collapsible: false,
+      },
+      {
+        id: 'activity',
+        title: 'Activity',
+        fields: ['Normalized activity', 'Quantity', 'Unit', 'Emission Factor'],
+        collapsible: false,
+      },
+      {
+        id: 'calculation',
+        title: 'Calculation',
+        fields: ['Computed CO2e (t)', 'Calculation Status', 'Calculation Error', 'Calculated At'],
+        collapsible: true,
+      },
+      {
+        id: 'notes',
+        title: 'Notes & Comments',
+        fields: ['Notes'],
+        collapsible: false,
+      },
+    ],
+    actions: {
+      delete: {
+        label: 'Delete',
+        confirmMessage: 'Are you sure you want to delete this Activity Data record?',
+      },
+    },
+  },
+
+  apiClient: activityDataApiClient,
+}
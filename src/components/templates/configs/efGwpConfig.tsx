@@ -8,6 +8,7 @@
 import { ListDetailTemplateConfig } from '../types'
 import { efGwpApi, EFGWP } from '@/lib/api/efGwp'
 import { ghgTypeApi } from '@/lib/api/ghgType'
+import { getAuthHeaders } from '@/lib/api/auth'
 
 // Create API client adapter
 const efGwpApiClient = {
@@ -53,6 +54,7 @@ const efGwpApiClient = {
 export const efGwpConfig: ListDetailTemplateConfig<EFGWP> = {
   entityName: 'EF GWP',
   entityNamePlural: 'EF GWP',
+  entityPath: 'emission-factors',
   description: 'Manage emission factors and Global Warming Potential (GWP) values. Track emission factors with their associated GWP multipliers for converting different greenhouse gases to CO2 equivalent.',
   defaultSort: {
     field: 'factor_name',
@@ -287,7 +289,7 @@ export const efGwpConfig: ListDetailTemplateConfig<EFGWP> = {
           const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
           const response = await fetch(`${API_BASE_URL}/protocols?limit=1000&paginated=true`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
           })
           if (response.ok) {
             const result = await response.json()
@@ -316,7 +318,7 @@ export const efGwpConfig: ListDetailTemplateConfig<EFGWP> = {
           const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
           const response = await fetch(`${API_BASE_URL}/ef-detailed-g?limit=1000&paginated=true`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
           })
           if (response.ok) {
             const result = await response.json()
@@ -55,6 +55,7 @@ const emissionFactorVersionApiClient = {
 export const emissionFactorVersionConfig: ListDetailTemplateConfig<EmissionFactorVersion> = {
   entityName: 'Emission Factor Version',
   entityNamePlural: 'Emission Factor Versions',
+  entityPath: 'emission-factor-version',
   description: 'Manage different versions of emission factors used for calculating greenhouse gas emissions. Track version history, status, and categorization of emission factor data.',
   defaultSort: {
     field: 'Name',
@@ -197,6 +198,27 @@ export const emissionFactorVersionConfig: ListDetailTemplateConfig<EmissionFacto
       },
       section: 'details',
     },
+    {
+      key: 'Published Date',
+      label: 'Published Date',
+      type: 'date',
+      editable: true,
+      section: 'details',
+    },
+    {
+      key: 'Effective Date',
+      label: 'Effective Date',
+      type: 'date',
+      editable: true,
+      section: 'details',
+    },
+    {
+      key: 'Expiration Date',
+      label: 'Expiration Date',
+      type: 'date',
+      editable: true,
+      section: 'details',
+    },
     // Notes Section
     {
       key: 'Notes',
@@ -8,6 +8,7 @@
  */
 
 import { ListDetailTemplateConfig } from '../types'
+import { FilterNode } from '@/lib/filters'
 import { industryClassificationApi } from '@/lib/api/industryClassification'
 import type { IndustryClassification } from '@/lib/api/industryClassification'
 import { autoGenerateFilters, mergeFilters } from '@/lib/autoGenerateFilters'
@@ -22,6 +23,7 @@ const industryClassificationApiClient = {
     sortBy?: string
     sortOrder?: 'asc' | 'desc'
     filters?: Record<string, any>
+    filter?: FilterNode
   }) => {
     const result = await industryClassificationApi.getPaginated({
       page: params.page || 1,
@@ -30,6 +32,7 @@ const industryClassificationApiClient = {
       sortBy: params.sortBy,
       sortOrder: params.sortOrder,
       filters: params.filters,
+      filter: params.filter,
     })
     return {
       data: result.data || [],
@@ -163,6 +166,7 @@ const industryClassificationColumns = [
 export const industryClassificationConfig: ListDetailTemplateConfig<IndustryClassification> = generateTableConfig({
   entityName: 'Industry Factor',
   entityNamePlural: 'Industry Factors',
+  entityPath: 'industry-classification',
   description: 'Manage industry classification factors and categories. Define industry-specific emission factors and classification schemes for sector-based emission calculations.',
   fields: industryClassificationFields,
   columns: industryClassificationColumns,
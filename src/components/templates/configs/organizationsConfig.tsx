@@ -0,0 +1,166 @@
+/**
+ * Organizations Table Configuration
+ * 
+ * This configuration defines how the Organizations entity should be displayed
+ * and edited using the ListDetailTemplate.
+ * 
+ * Based on Airtable "Organizations" table in System Configuration base.
+ */
+
+import { ListDetailTemplateConfig } from '../types'
+import { FilterNode } from '@/lib/filters'
+import { organizationsApi } from '@/lib/api/organizations'
+import type { Organization } from '@/lib/api/organizations'
+import { autoGenerateFilters, mergeFilters } from '@/lib/autoGenerateFilters'
+import { generateTableConfig, generateStatusColumn } from '@/lib/templateGenerator'
+
+// Create API client adapter
+const organizationsApiClient = {
+  getPaginated: async (params: {
+    page?: number
+    limit?: number
+    search?: string
+    sortBy?: string
+    sortOrder?: 'asc' | 'desc'
+    filters?: Record<string, any>
+    filter?: FilterNode
+  }) => {
+    const result = await organizationsApi.getPaginated({
+      page: params.page || 1,
+      limit: params.limit || 25,
+      search: params.search,
+      sortBy: params.sortBy,
+      sortOrder: params.sortOrder,
+      filters: params.filters,
+      filter: params.filter,
+    })
+    return {
+      data: result.data || [],
+      pagination: {
+        total: result.pagination?.total || 0,
+        page: params.page || 1,
+        limit: result.pagination?.limit || params.limit || 25,
+        hasMore: result.pagination?.hasMore || false,
+      },
+    }
+  },
+  getById: async (id: string) => {
+    return await organizationsApi.getById(id)
+  },
+  create: async (data: Partial<Organization>) => {
+    return await organizationsApi.create(data as any)
+  },
+  update: async (id: string, data: Partial<Organization>) => {
+    return await organizationsApi.update(id, data as any)
+  },
+  delete: async (id: string) => {
+    await organizationsApi.delete(id)
+  },
+  getFilterValues: async (field: string, limit?: number) => {
+    return await organizationsApi.getFilterValues(field, limit)
+  },
+}
+
+// Define fields
+const organizationsFields = [
+  {
+    key: 'Name',
+    label: 'Name',
+    type: 'text' as const,
+    required: true,
+    editable: true,
+    section: 'general',
+  },
+  {
+    key: 'Description',
+    label: 'Description',
+    type: 'textarea' as const,
+    editable: true,
+    section: 'general',
+  },
+  {
+    key: 'Status',
+    label: 'Status',
+    type: 'select' as const,
+    editable: true,
+    options: ['Active', 'Inactive'],
+    section: 'general',
+  },
+  {
+    key: 'Notes',
+    label: 'Notes',
+    type: 'textarea' as const,
+    editable: true,
+    section: 'general',
+  },
+]
+
+// Manual filters (can be overridden or extended)
+const manualFilters: any[] = []
+
+// Auto-generate filters for non-text fields
+const autoGeneratedFilters = autoGenerateFilters(organizationsFields, organizationsApiClient, manualFilters)
+
+// Merge manual and auto-generated filters
+const allFilters = mergeFilters(manualFilters, autoGeneratedFilters)
+
+// Define columns
+const organizationsColumns = [
+  {
+    key: 'Name',
+    label: 'Name',
+    sortable: true,
+    align: 'left' as const,
+    render: (value: string) => (
+      <span className="text-sm font-medium text-neutral-900">
+        {value || '—'}
+      </span>
+    ),
+  },
+  {
+    key: 'Description',
+    label: 'Description',
+    sortable: false,
+    align: 'left' as const,
+    render: (value: string) => (
+      <span className="text-sm text-neutral-600 line-clamp-2">
+        {value || '—'}
+      </span>
+    ),
+  },
+  generateStatusColumn({
+    key: 'Status',
+    label: 'Status',
+    statusColors: {
+      'Active': { bg: 'bg-green-100', text: 'text-green-800' },
+      'Inactive': { bg: 'bg-neutral-100', text: 'text-neutral-800' },
+    },
+  }),
+]
+
+// Generate configuration using template generator
+export const organizationsConfig: ListDetailTemplateConfig<Organization> = generateTableConfig({
+  entityName: 'Organization',
+  entityNamePlural: 'Organizations',
+  entityPath: 'organizations',
+  description: 'Manage the organizations served by this deployment. Users see the companies and activity data of the organizations they are members of.',
+  fields: organizationsFields,
+  columns: organizationsColumns,
+  apiClient: organizationsApiClient,
+  defaultSortField: 'Name',
+  defaultSortOrder: 'asc',
+  pageSizeOptions: [10, 25, 50, 100],
+  showImportExport: true,
+  panelTitleKey: 'Name',
+  panelSections: [
+    {
+      id: 'general',
+      title: 'General Information',
+      fields: ['Name', 'Description', 'Status', 'Notes'],
+      collapsible: false,
+    },
+  ],
+  manualFilters: allFilters,
+  deleteConfirmMessage: 'Are you sure you want to delete this organization?',
+})
+
@@ -4,6 +4,7 @@
 
 import { ListDetailTemplateConfig } from '../types'
 import { scopeCategorisationApi, ScopeCategorisation } from '@/lib/api/scopeCategorisation'
+import { getAuthHeaders } from '@/lib/api/auth'
 
 const scopeCategorisationApiClient = {
   getPaginated: async (params: {
@@ -50,6 +51,7 @@ const scopeCategorisationApiClient = {
 export const scopeCategorisationConfig: ListDetailTemplateConfig<ScopeCategorisation> = {
   entityName: 'Scope & Categorisation',
   entityNamePlural: 'Scope & Categorisations',
+  entityPath: 'scope-categorisation',
   description: 'Manage scope categorizations that combine emission scopes with activity categories for detailed emission tracking and reporting.',
   defaultSort: {
     field: 'Name',
@@ -239,7 +241,7 @@ export const scopeCategorisationConfig: ListDetailTemplateConfig<ScopeCategorisa
           
           const response = await fetch(`${API_BASE_URL}/scope?${queryParams.toString()}`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             signal: abortSignal, // Use the abort signal for cancellation
           })
           
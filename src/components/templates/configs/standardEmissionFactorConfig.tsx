@@ -6,11 +6,13 @@
  */
 
 import { ListDetailTemplateConfig } from '../types'
+import { FilterNode } from '@/lib/filters'
 import { standardEmissionFactorApi, StandardEmissionFactor } from '@/lib/api/standardEmissionFactor'
 import { unitApi } from '@/lib/api/unit'
 import { scopeApi } from '@/lib/api/scope'
 import { normalizedActivityApi } from '@/lib/api/normalizedActivity'
 import { efDetailedGApi } from '@/lib/api/efDetailedG'
+import { getAuthHeaders } from '@/lib/api/auth'
 
 // Create API client adapter
 const standardEmissionFactorApiClient = {
@@ -21,6 +23,7 @@ const standardEmissionFactorApiClient = {
     sortBy?: string
     sortOrder?: 'asc' | 'desc'
     filters?: Record<string, any>
+    filter?: FilterNode
   }) => {
     const result = await standardEmissionFactorApi.getPaginated({
       page: params.page || 1,
@@ -29,6 +32,7 @@ const standardEmissionFactorApiClient = {
       sortBy: params.sortBy,
       sortOrder: params.sortOrder,
       status: params.filters?.status,
+      filter: params.filter,
     })
     return {
       data: result.data,
@@ -59,6 +63,7 @@ export const standardEmissionFactorConfig: ListDetailTemplateConfig<StandardEmis
   entityName: 'Standard Emission Factor',
   description: 'Manage standard emission factors used for calculating greenhouse gas emissions. These factors represent the standard values for converting activity data into CO2 equivalent emissions.',
   entityNamePlural: 'Standard Emission Factors',
+  entityPath: 'standard-emission-factors',
   defaultSort: {
     field: 'Name',
     order: 'asc',
@@ -233,6 +238,16 @@ export const standardEmissionFactorConfig: ListDetailTemplateConfig<StandardEmis
       },
       placeholder: 'All Status',
     },
+    {
+      key: 'Emission Factor (CO2e)',
+      label: 'Emission Factor (CO2e)',
+      type: 'numberRange',
+    },
+    {
+      key: 'Publication Date',
+      label: 'Publication Date',
+      type: 'dateRange',
+    },
   ],
 
   fields: [
@@ -341,7 +356,7 @@ export const standardEmissionFactorConfig: ListDetailTemplateConfig<StandardEmis
           
           const response = await fetch(`${API_BASE_URL}/scope?${queryParams.toString()}`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             signal: abortSignal,
           })
           
@@ -391,7 +406,7 @@ export const standardEmissionFactorConfig: ListDetailTemplateConfig<StandardEmis
           
           const response = await fetch(`${API_BASE_URL}/normalized-activities?${queryParams.toString()}`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             signal: abortSignal,
           })
           
@@ -441,7 +456,7 @@ export const standardEmissionFactorConfig: ListDetailTemplateConfig<StandardEmis
           
           const response = await fetch(`${API_BASE_URL}/unit?${queryParams.toString()}`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             signal: abortSignal,
           })
           
@@ -491,7 +506,7 @@ export const standardEmissionFactorConfig: ListDetailTemplateConfig<StandardEmis
           
           const response = await fetch(`${API_BASE_URL}/unit?${queryParams.toString()}`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             signal: abortSignal,
           })
           
@@ -541,7 +556,7 @@ export const standardEmissionFactorConfig: ListDetailTemplateConfig<StandardEmis
           
           const response = await fetch(`${API_BASE_URL}/unit?${queryParams.toString()}`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             signal: abortSignal,
           })
           
@@ -591,7 +606,7 @@ export const standardEmissionFactorConfig: ListDetailTemplateConfig<StandardEmis
           
           const response = await fetch(`${API_BASE_URL}/ef-detailed-g?${queryParams.toString()}`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             signal: abortSignal,
           })
           
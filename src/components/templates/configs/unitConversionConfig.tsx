@@ -4,6 +4,7 @@
 
 import { ListDetailTemplateConfig } from '../types'
 import { unitConversionApi, UnitConversion } from '@/lib/api/unitConversion'
+import { getAuthHeaders } from '@/lib/api/auth'
 
 const unitConversionApiClient = {
   getPaginated: async (params: {
@@ -50,6 +51,7 @@ const unitConversionApiClient = {
 export const unitConversionConfig: ListDetailTemplateConfig<UnitConversion> = {
   entityName: 'Unit Conversion',
   entityNamePlural: 'Unit Conversions',
+  entityPath: 'unit-conversion',
   description: 'Manage unit conversion factors and formulas. Define conversion rates between different measurement units to standardize data across various unit systems.',
   defaultSort: {
     field: 'Name',
@@ -291,7 +293,7 @@ export const unitConversionConfig: ListDetailTemplateConfig<UnitConversion> = {
           
           const response = await fetch(`${API_BASE_URL}/unit?${queryParams.toString()}`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             signal: abortSignal,
           })
           
@@ -342,7 +344,7 @@ export const unitConversionConfig: ListDetailTemplateConfig<UnitConversion> = {
           
           const response = await fetch(`${API_BASE_URL}/unit?${queryParams.toString()}`, {
             method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
             signal: abortSignal,
           })
           
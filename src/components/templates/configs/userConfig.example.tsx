@@ -51,6 +51,7 @@ const userApiClient = {
 export const userConfig: ListDetailTemplateConfig<User> = {
   entityName: 'User',
   entityNamePlural: 'Users',
+  entityPath: 'users',
   defaultSort: {
     field: 'lastName',
     order: 'asc',
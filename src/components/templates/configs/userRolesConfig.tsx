@@ -8,6 +8,7 @@
  */
 
 import { ListDetailTemplateConfig } from '../types'
+import { FilterNode } from '@/lib/filters'
 import { userRolesApi } from '@/lib/api/userRoles'
 import type { UserRole } from '@/lib/api/userRoles'
 import { autoGenerateFilters, mergeFilters } from '@/lib/autoGenerateFilters'
@@ -22,6 +23,7 @@ const userRolesApiClient = {
     sortBy?: string
     sortOrder?: 'asc' | 'desc'
     filters?: Record<string, any>
+    filter?: FilterNode
   }) => {
     const result = await userRolesApi.getPaginated({
       page: params.page || 1,
@@ -30,6 +32,7 @@ const userRolesApiClient = {
       sortBy: params.sortBy,
       sortOrder: params.sortOrder,
       filters: params.filters,
+      filter: params.filter,
     })
     return {
       data: result.data || [],
@@ -75,6 +78,13 @@ const userRolesFields = [
     editable: true,
     section: 'general',
   },
+  {
+    key: 'Permissions',
+    label: 'Permissions',
+    type: 'permissions' as const,
+    editable: true,
+    section: 'permissions',
+  },
 ]
 
 // Manual filters (can be overridden or extended)
@@ -116,6 +126,7 @@ const userRolesColumns = [
 export const userRolesConfig: ListDetailTemplateConfig<UserRole> = generateTableConfig({
   entityName: 'User Role',
   entityNamePlural: 'User Roles',
+  entityPath: 'user-roles',
   description: 'Manage user roles and permissions. Define role-based access control (RBAC) settings, permissions, and access levels for different user types.',
   fields: userRolesFields,
   columns: userRolesColumns,
@@ -132,6 +143,12 @@ export const userRolesConfig: ListDetailTemplateConfig<UserRole> = generateTable
       fields: ['Name', 'Description'],
       collapsible: false,
     },
+    {
+      id: 'permissions',
+      title: 'Permissions',
+      fields: ['Permissions'],
+      collapsible: false,
+    },
   ],
   manualFilters: allFilters,
   deleteConfirmMessage: 'Are you sure you want to delete this user role?',
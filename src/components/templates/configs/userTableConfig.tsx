@@ -14,9 +14,11 @@
  */
 
 import { ListDetailTemplateConfig } from '../types'
+import { FilterNode } from '@/lib/filters'
 import { userTableApi } from '@/lib/api/userTable'
 import type { UserTable } from '@/lib/api/userTable'
 import { autoGenerateFilters, mergeFilters } from '@/lib/autoGenerateFilters'
+import { getAuthHeaders } from '@/lib/api/auth'
 
 // Create API client adapter
 const userTableApiClient = {
@@ -27,6 +29,7 @@ const userTableApiClient = {
     sortBy?: string
     sortOrder?: 'asc' | 'desc'
     filters?: Record<string, any>
+    filter?: FilterNode
   }) => {
     const result = await userTableApi.getPaginated({
       page: params.page || 1,
@@ -35,6 +38,7 @@ const userTableApiClient = {
       sortBy: params.sortBy,
       sortOrder: params.sortOrder,
       filters: params.filters, // Pass all filters
+      filter: params.filter,
     })
     return {
       data: result.data,
@@ -171,7 +175,7 @@ const userTableFields = [
         
         const response = await fetch(`${API_BASE_URL}/companies?${queryParams.toString()}`, {
           method: 'GET',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
           signal: abortSignal, // Use the abort signal for cancellation
         })
         
@@ -208,7 +212,7 @@ const userTableFields = [
         const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
         const response = await fetch(`${API_BASE_URL}/user-roles?limit=1000&paginated=true`, {
           method: 'GET',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
         })
         if (response.ok) {
           const result = await response.json()
@@ -243,7 +247,7 @@ const userTableFields = [
         const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
         const response = await fetch(`${API_BASE_URL}/application-list?limit=1000&paginated=true`, {
           method: 'GET',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
         })
         if (response.ok) {
           const result = await response.json()
@@ -297,6 +301,7 @@ const allFilters = mergeFilters(manualFilters, autoGeneratedFilters)
 export const userTableConfig: ListDetailTemplateConfig<UserTable> = {
   entityName: 'User',
   entityNamePlural: 'Users',
+  entityPath: 'users',
   description: 'Manage user accounts and profiles. Create, update, and manage user information, roles, company associations, and access permissions.',
   // Sort by Email by default (most reliable identifier)
   defaultSort: {
@@ -5,6 +5,8 @@
  * to work with any entity type (Companies, Users, Projects, etc.)
  */
 
+import { FilterNode } from '@/lib/filters'
+
 export type FieldType = 
   | 'text' 
   | 'textarea' 
@@ -14,6 +16,7 @@ export type FieldType =
   | 'date' 
   | 'number'
   | 'attachment'
+  | 'permissions' // Permission matrix of a User Role (JSON text)
 
 export type SortDirection = 'asc' | 'desc'
 
@@ -74,10 +77,13 @@ export interface FilterConfig {
   key: string
   /** Display label */
   label: string
-  /** Filter type: 'select' (single) or 'multiselect' (multiple) */
-  type: 'select' | 'multiselect'
-  /** Options for the filter (can be async function) */
-  options: string[] | (() => Promise<string[]>)
+  /**
+   * Filter type: 'select' (single), 'multiselect' (multiple), or a min/max range of
+   * numbers ('numberRange') or dates ('dateRange')
+   */
+  type: 'select' | 'multiselect' | 'numberRange' | 'dateRange'
+  /** Options for the filter (can be async function) - not used by ranges */
+  options?: string[] | (() => Promise<string[]>)
   /** Placeholder text */
   placeholder?: string
 }
@@ -121,6 +127,8 @@ export interface ApiClient<T = any> {
     sortBy?: string
     sortOrder?: SortDirection
     filters?: Record<string, any>
+    /** Filter tree for ranges and "all of" selections (see lib/filters) */
+    filter?: FilterNode
   }) => Promise<{
     data: T[]
     pagination: {
@@ -146,10 +154,16 @@ export interface ApiClient<T = any> {
   /** Get distinct values for a filter field */
   getFilterValues?: (field: string, limit?: number) => Promise<string[]>
   
-  /** Bulk import items */
+  /**
+   * Bulk import items
+   * @deprecated The Import button uses the generic POST /api/:entity/import endpoint (see ListDetailTemplateConfig.entityPath)
+   */
   bulkImport?: (items: Partial<T>[]) => Promise<{ success: number; failed: number; errors: string[] }>
   
-  /** Export items */
+  /**
+   * Export items
+   * @deprecated The Export button uses the generic GET /api/:entity/export endpoint (see ListDetailTemplateConfig.entityPath)
+   */
   export?: (params?: { filters?: Record<string, any>; sortBy?: string; sortOrder?: SortDirection }) => Promise<Blob>
 }
 
@@ -158,6 +172,9 @@ export interface ListDetailTemplateConfig<T = any> {
   entityName: string
   /** Entity name (plural, e.g., 'Companies', 'Users') */
   entityNamePlural: string
+  /** API path segment of the entity (e.g., 'companies' for /api/companies) - enables Import and server-side Export,
+   * and is the entity the user's permissions are checked on: without it, no create/update/delete/import/export action is offered */
+  entityPath?: string
   /** Table description - shown below the title with expand/collapse functionality */
   description?: string
   /** Table columns configuration */
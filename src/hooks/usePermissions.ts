@@ -0,0 +1,55 @@
+/**
+ * React Hook for Permissions
+ *
+ * What the signed-in user's roles allow, to hide the actions the API would refuse
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { authApi, hasPermission, PermissionAction, UserPermissions } from '@/lib/api/auth'
+
+/**
+ * Hook to get the permissions of the signed-in user
+ * Nothing is allowed until they are loaded, or when they cannot be
+ */
+export function usePermissions() {
+  const [permissions, setPermissions] = useState<UserPermissions | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    authApi.getPermissions()
+      .then(result => {
+        if (!cancelled) setPermissions(result)
+      })
+      .catch(err => {
+        console.warn('Failed to load permissions:', err)
+        if (!cancelled) setPermissions(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const can = useCallback(
+    (entity: string | undefined, action: PermissionAction) => !!entity && hasPermission(permissions, entity, action),
+    [permissions]
+  )
+
+  const refresh = useCallback(async () => {
+    const result = await authApi.getPermissions(true)
+    setPermissions(result)
+    return result
+  }, [])
+
+  return {
+    permissions,
+    loading,
+    can,
+    refresh,
+  }
+}
@@ -4,6 +4,8 @@
  * Frontend client for making AI requests through the backend API
  */
 
+import { getAuthHeaders } from '@/lib/api/auth'
+
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system'
   content: string
@@ -17,7 +19,8 @@ export interface ChatCompletionOptions {
   messages: ChatMessage[]
   maxTokens?: number
   temperature?: number
-  userId?: string // Optional user ID for AI Agent Profile injection
+  /** @deprecated Ignored - the AI Agent Profile of the signed-in user is applied */
+  userId?: string
 }
 
 export interface ChatCompletionResponse {
@@ -72,30 +75,14 @@ class AIClient {
    */
   async chat(options: ChatCompletionOptions, integrationId?: string): Promise<ChatCompletionResponse> {
     try {
-      // Get userId from localStorage if not provided
-      let userId = options.userId
-      if (!userId && typeof window !== 'undefined') {
-        userId = localStorage.getItem('userId') || sessionStorage.getItem('userId') || undefined
-      }
-
-      // Log for debugging
-      if (userId) {
-        console.log(`🔍 [AIClient] Making AI call with userId: ${userId}`)
-      } else {
-        console.warn(`⚠️  [AIClient] No userId found - AI Agent Profile will not be applied`)
-        console.log(`   localStorage.userId: ${localStorage.getItem('userId')}`)
-        console.log(`   sessionStorage.userId: ${sessionStorage.getItem('userId')}`)
-      }
-
+      // The session token identifies the user whose AI Agent Profile is applied
       const response = await fetch(`${this.baseUrl}/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
-        body: JSON.stringify({
-          ...options,
-          userId, // Include userId for AI Agent Profile injection
-        }),
+        body: JSON.stringify(options),
       })
 
       if (!response.ok) {
@@ -145,6 +132,7 @@ class AIClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -172,6 +160,7 @@ class AIClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(options),
       })
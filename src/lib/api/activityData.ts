@@ -0,0 +1,311 @@
+/**
+ * API Client for Activity Data
+ * Handles all HTTP requests to the Activity Data ledger API
+ */
+
+import { appendFilterParam, FilterNode } from '../filters'
+import { getAuthHeaders } from './auth'
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
+
+export interface ApiResponse<T> {
+  success: boolean
+  data?: T
+  error?: string
+  message?: string
+  pagination?: {
+    total: number
+    limit: number
+    offset: number
+    hasMore: boolean
+  }
+}
+
+export interface PaginationParams {
+  page?: number
+  limit?: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+  search?: string
+  filters?: Record<string, any>
+  filter?: FilterNode // Filter tree for ranges and "all of" selections
+}
+
+export type CalculationStatus = 'Calculated' | 'Error' | 'Pending'
+
+export interface ActivityData {
+  id: string
+  Name?: string
+  Quantity?: number
+  Unit?: string | string[]
+  'Unit Name'?: string | string[]
+  'Normalized activity'?: string | string[]
+  'Normalized activity Name'?: string | string[]
+  Company?: string | string[]
+  'Company Name'?: string | string[]
+  Geography?: string | string[]
+  'Geography Name'?: string | string[]
+  'Period Start'?: string
+  'Period End'?: string
+  'Reporting Year'?: number
+  'Emission Factor'?: string | string[]
+  'Emission Factor Name'?: string | string[]
+  'Computed CO2e (t)'?: number
+  'Calculation Status'?: CalculationStatus | string
+  'Calculation Error'?: string
+  'Calculation Trace'?: string
+  'Calculated At'?: string
+  Status?: 'Active' | 'Inactive'
+  Notes?: string
+  createdAt?: string
+  updatedAt?: string
+  createdBy?: string
+  lastModifiedBy?: string
+}
+
+export interface CreateActivityDataDto {
+  Name?: string
+  Quantity?: number
+  Unit?: string | string[]
+  'Normalized activity'?: string | string[]
+  Company?: string | string[]
+  Geography?: string | string[]
+  'Period Start'?: string
+  'Period End'?: string
+  'Reporting Year'?: number
+  'Emission Factor'?: string | string[]
+  Status?: 'Active' | 'Inactive'
+  Notes?: string
+}
+
+export type UpdateActivityDataDto = Partial<CreateActivityDataDto>
+
+/**
+ * API Client for Activity Data
+ */
+class ActivityDataApiClient {
+  private baseUrl: string
+
+  constructor() {
+    this.baseUrl = `${API_BASE_URL}/activity-data`
+  }
+
+  async getPaginated(params: PaginationParams): Promise<{
+    data: ActivityData[];
+    pagination: { total: number; limit: number; offset: number; hasMore: boolean }
+  }> {
+    const maxRetries = 3
+    let lastError: Error | null = null
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        const queryParams = new URLSearchParams()
+        queryParams.append('paginated', 'true')
+
+        if (params.page) queryParams.append('page', String(params.page))
+        if (params.limit) queryParams.append('limit', String(params.limit))
+        if (params.sortBy) queryParams.append('sortBy', params.sortBy)
+        if (params.sortOrder) queryParams.append('sortOrder', params.sortOrder)
+        if (params.search) queryParams.append('search', params.search)
+        appendFilterParam(queryParams, params.filter)
+
+        // Add filters as query parameters
+        if (params.filters) {
+          Object.entries(params.filters).forEach(([key, value]) => {
+            if (value !== undefined && value !== null && value !== '') {
+              if (Array.isArray(value)) {
+                value.forEach(v => queryParams.append(key, String(v)))
+              } else {
+                queryParams.append(key, String(value))
+              }
+            }
+          })
+        }
+
+        const response = await fetch(`${this.baseUrl}?${queryParams.toString()}`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+            ...getAuthHeaders(),
+          },
+        })
+
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+
+        const result: ApiResponse<ActivityData[]> = await response.json()
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to fetch Activity Data records')
+        }
+
+        return {
+          data: result.data,
+          pagination: result.pagination || {
+            total: result.data.length,
+            limit: params.limit || 25,
+            offset: (params.page ? (params.page - 1) * (params.limit || 25) : 0),
+            hasMore: false,
+          },
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error('Unknown error')
+        if (attempt < maxRetries) {
+          const delay = Math.pow(2, attempt) * 1000
+          await new Promise(resolve => setTimeout(resolve, delay))
+        }
+      }
+    }
+
+    throw lastError || new Error('Failed to fetch Activity Data records after retries')
+  }
+
+  async getById(id: string): Promise<ActivityData> {
+    const response = await fetch(`${this.baseUrl}/${id}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Activity Data record: ${response.statusText}`)
+    }
+
+    const result: ApiResponse<ActivityData> = await response.json()
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to fetch Activity Data record')
+    }
+
+    return result.data
+  }
+
+  async create(data: CreateActivityDataDto): Promise<ActivityData> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify(data),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.message || errorData.error || `Failed to create Activity Data record: ${response.statusText}`)
+    }
+
+    const result: ApiResponse<ActivityData> = await response.json()
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to create Activity Data record')
+    }
+
+    return result.data
+  }
+
+  async update(id: string, data: UpdateActivityDataDto): Promise<ActivityData> {
+    try {
+      const response = await fetch(`${this.baseUrl}/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify(data),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || errorData.error || `Failed to update Activity Data record: ${response.statusText}`)
+      }
+
+      const result: ApiResponse<ActivityData> = await response.json()
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || result.message || 'Failed to update Activity Data record')
+      }
+
+      return result.data
+    } catch (error) {
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw new Error('Unable to connect to the server. Please check if the API server is running on http://localhost:3001')
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Recompute the stored CO2e of a record from its current inputs
+   */
+  async recalculate(id: string): Promise<ActivityData> {
+    const response = await fetch(`${this.baseUrl}/${id}/recalculate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.message || errorData.error || `Failed to recalculate Activity Data record: ${response.statusText}`)
+    }
+
+    const result: ApiResponse<ActivityData> = await response.json()
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to recalculate Activity Data record')
+    }
+
+    return result.data
+  }
+
+  async delete(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/${id}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.message || errorData.error || `Failed to delete Activity Data record: ${response.statusText}`)
+    }
+  }
+
+  async getFilterValues(field: string, limit: number = 1000): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/filters/values?field=${encodeURIComponent(field)}&limit=${limit}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      const result: ApiResponse<string[]> = await response.json()
+
+      if (!result.success || !result.data) {
+        return []
+      }
+
+      return result.data
+    } catch (error) {
+      console.error(`Error fetching filter values for ${field}:`, error)
+      return []
+    }
+  }
+}
+
+// Export singleton instance
+export const activityDataApi = new ActivityDataApiClient()
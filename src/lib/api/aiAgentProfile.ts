@@ -4,6 +4,8 @@
  * Frontend API client for managing user AI Agent Profiles
  */
 
+import { getAuthHeaders, getAuthSession } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -37,16 +39,10 @@ export interface AIAgentProfile {
 }
 
 /**
- * Get current user ID from auth context
+ * ID of the signed-in user - the API only serves their own data
  */
 function getUserId(): string {
-  if (typeof window !== 'undefined') {
-    const storedUserId = localStorage.getItem('userId') || sessionStorage.getItem('userId')
-    if (storedUserId) {
-      return storedUserId
-    }
-  }
-  return 'default-user'
+  return getAuthSession()?.user.id || 'default-user'
 }
 
 /**
@@ -68,6 +64,7 @@ class AIAgentProfileApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -96,6 +93,7 @@ class AIAgentProfileApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(profile),
     })
@@ -115,6 +113,7 @@ class AIAgentProfileApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -4,6 +4,8 @@
  * Client-side API for fetching and managing AI models from the registry
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
 
 interface ApiResponse<T> {
@@ -54,6 +56,7 @@ class AIModelRegistryApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -88,6 +91,7 @@ class AIModelRegistryApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -119,6 +123,7 @@ class AIModelRegistryApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
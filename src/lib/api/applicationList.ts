@@ -3,6 +3,8 @@
  * Handles all HTTP requests to the Application List API
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -107,6 +109,7 @@ class ApplicationListApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
         })
 
@@ -149,6 +152,7 @@ class ApplicationListApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -173,6 +177,7 @@ class ApplicationListApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -200,6 +205,7 @@ class ApplicationListApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(data),
       })
@@ -232,6 +238,7 @@ class ApplicationListApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -250,6 +257,7 @@ class ApplicationListApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -279,7 +287,7 @@ class ApplicationListApiClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': 'System',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({ applicationLists }),
       })
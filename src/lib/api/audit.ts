@@ -0,0 +1,108 @@
+/**
+ * API Client for the audit log
+ * Field-level history of the creates, updates and deletes of every entity (GET /api/audit)
+ */
+
+import { getAuthHeaders } from './auth'
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
+
+export interface ApiResponse<T> {
+  success: boolean
+  data?: T
+  error?: string
+  message?: string
+  pagination?: {
+    total: number
+    limit: number
+    offset: number
+    hasMore: boolean
+  }
+}
+
+export type AuditAction = 'create' | 'update' | 'delete'
+
+export interface AuditFieldChange {
+  field: string
+  before: any
+  after: any
+}
+
+export interface AuditEntry {
+  id: string
+  timestamp: string
+  /** User ID of the author */
+  actor: string
+  /** Name of the author at the time of the write */
+  actorName: string
+  /** Organization the write was made in */
+  organizationId: string | null
+  /** API path segment of the entity (e.g. "standard-emission-factors") */
+  entity: string
+  recordId: string
+  action: AuditAction
+  changes: AuditFieldChange[]
+}
+
+export interface AuditQuery {
+  entity?: string
+  recordId?: string
+  /** User ID */
+  actor?: string
+  limit?: number
+  offset?: number
+}
+
+export interface AuditPage {
+  entries: AuditEntry[]
+  total: number
+  hasMore: boolean
+}
+
+/**
+ * API Client for the audit log
+ */
+class AuditApiClient {
+  private baseUrl: string
+
+  constructor() {
+    this.baseUrl = API_BASE_URL
+  }
+
+  /**
+   * Audit entries, newest first
+   */
+  async getEntries(query: AuditQuery = {}, signal?: AbortSignal): Promise<AuditPage> {
+    const queryParams = new URLSearchParams()
+    if (query.entity) queryParams.append('entity', query.entity)
+    if (query.recordId) queryParams.append('recordId', query.recordId)
+    if (query.actor) queryParams.append('actor', query.actor)
+    if (query.limit !== undefined) queryParams.append('limit', query.limit.toString())
+    if (query.offset !== undefined) queryParams.append('offset', query.offset.toString())
+
+    const response = await fetch(`${this.baseUrl}/audit?${queryParams.toString()}`, { signal, headers: getAuthHeaders() })
+
+    const result: ApiResponse<AuditEntry[]> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || `Failed to fetch audit entries: ${response.statusText}`)
+    }
+
+    return {
+      entries: result.data,
+      total: result.pagination?.total ?? result.data.length,
+      hasMore: result.pagination?.hasMore ?? false,
+    }
+  }
+
+  /**
+   * History of one record, newest first
+   * @param entity - API path segment of the entity (e.g. "unit", "companies")
+   */
+  async getRecordHistory(entity: string, recordId: string, limit: number = 50, offset: number = 0, signal?: AbortSignal): Promise<AuditPage> {
+    return this.getEntries({ entity, recordId, limit, offset }, signal)
+  }
+}
+
+// Export singleton instance
+export const auditApi = new AuditApiClient()
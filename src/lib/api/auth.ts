@@ -0,0 +1,240 @@
+/**
+ * API Client for authentication
+ * Signs in against the User Table (password or identity provider) and keeps the session
+ * token, which the other API clients send with getAuthHeaders(); tells what the user's
+ * roles allow (see usePermissions)
+ */
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
+
+const SESSION_STORAGE_KEY = 'another_ra_session'
+// Read by the AI chat and MCP clients for the page context
+const USER_ID_STORAGE_KEY = 'userId'
+
+export interface ApiResponse<T> {
+  success: boolean
+  data?: T
+  error?: string
+  message?: string
+}
+
+export interface AuthUser {
+  id: string // User Table record ID
+  name: string
+  email: string | null
+  username: string | null
+  roles: string[] // User Roles record IDs
+  provider: string // 'local' or the name of the identity provider
+}
+
+export interface AuthSession {
+  token: string
+  expiresAt: string
+  user: AuthUser
+}
+
+export type PermissionAction = 'read' | 'create' | 'update' | 'delete' | 'import' | 'export' | 'approve'
+
+/** Actions granted per entity (API path segment, or "*" for every entity) */
+export type PermissionMatrix = Record<string, PermissionAction[]>
+
+export interface UserPermissions {
+  superuser: boolean // may do everything
+  roles: string[] // names of the user's roles
+  permissions: PermissionMatrix
+  actions: PermissionAction[] // all actions of a matrix
+  entities: Array<{ key: string; label: string }> // all entities permissions are checked on
+}
+
+export interface AuthProvider {
+  name: string
+  displayName: string
+  type: 'password' | 'oidc'
+}
+
+/**
+ * Current session, if signed in and not expired
+ */
+export function getAuthSession(): AuthSession | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY)
+    const session: AuthSession | null = stored ? JSON.parse(stored) : null
+    if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+      return session
+    }
+  } catch {
+    // Corrupted session - sign in again
+  }
+  return null
+}
+
+/**
+ * Authorization header of the current session (none when signed out)
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const session = getAuthSession()
+  return session ? { Authorization: `Bearer ${session.token}` } : {}
+}
+
+/**
+ * Whether permissions allow an action on an entity
+ */
+export function hasPermission(permissions: UserPermissions | null, entity: string, action: PermissionAction): boolean {
+  if (!permissions) return false
+  return permissions.superuser ||
+    !!permissions.permissions[entity]?.includes(action) ||
+    !!permissions.permissions['*']?.includes(action)
+}
+
+// Permissions of the current session - asked again after a minute, as roles are edited
+const PERMISSIONS_TTL_MS = 60 * 1000
+let permissionsRequest: { token: string; expiresAt: number; promise: Promise<UserPermissions> } | null = null
+
+const storeSession = (session: AuthSession) => {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session))
+  localStorage.setItem(USER_ID_STORAGE_KEY, session.user.id)
+  permissionsRequest = null
+}
+
+const clearSession = () => {
+  localStorage.removeItem(SESSION_STORAGE_KEY)
+  localStorage.removeItem(USER_ID_STORAGE_KEY)
+  permissionsRequest = null
+}
+
+/**
+ * API Client for authentication
+ */
+class AuthApiClient {
+  private baseUrl: string
+
+  constructor() {
+    this.baseUrl = `${API_BASE_URL}/auth`
+  }
+
+  /**
+   * Ways to sign in
+   */
+  async getProviders(): Promise<AuthProvider[]> {
+    const response = await fetch(`${this.baseUrl}/providers`)
+    const result: ApiResponse<AuthProvider[]> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || `Failed to fetch sign-in providers: ${response.statusText}`)
+    }
+
+    return result.data
+  }
+
+  /**
+   * Sign in with a username (or email) and password
+   */
+  async login(username: string, password: string): Promise<AuthSession> {
+    const response = await fetch(`${this.baseUrl}/login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ username, password }),
+    })
+    const result: ApiResponse<AuthSession> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || `Failed to sign in: ${response.statusText}`)
+    }
+
+    storeSession(result.data)
+    return result.data
+  }
+
+  /**
+   * URL signing in with an identity provider, which returns to returnTo
+   */
+  getProviderLoginUrl(provider: string, returnTo: string = '/'): string {
+    const queryParams = new URLSearchParams({ provider, returnTo })
+    return `${this.baseUrl}/oidc/login?${queryParams.toString()}`
+  }
+
+  /**
+   * Keep the session an identity provider sign-in returned with (in the URL fragment)
+   * Returns the session, or throws the sign-in error; null when the URL has neither
+   */
+  async completeProviderLogin(): Promise<AuthSession | null> {
+    if (typeof window === 'undefined' || !window.location.hash) return null
+
+    const params = new URLSearchParams(window.location.hash.slice(1))
+    const token = params.get('auth_token')
+    const error = params.get('auth_error')
+    if (!token && !error) return null
+
+    // Keep the token out of the browser history
+    window.history.replaceState(null, '', window.location.pathname + window.location.search)
+    if (error) {
+      throw new Error(error)
+    }
+
+    const response = await fetch(`${this.baseUrl}/me`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    const result: ApiResponse<AuthUser> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || `Failed to sign in: ${response.statusText}`)
+    }
+
+    const session: AuthSession = {
+      token: token!,
+      expiresAt: params.get('expires_at') || new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      user: result.data,
+    }
+    storeSession(session)
+    return session
+  }
+
+  /**
+   * What the signed-in user may do (cached for a minute - pass refresh after editing roles)
+   */
+  async getPermissions(refresh: boolean = false): Promise<UserPermissions> {
+    const session = getAuthSession()
+    if (!session) {
+      throw new Error('Not signed in')
+    }
+
+    if (refresh || !permissionsRequest || permissionsRequest.token !== session.token || permissionsRequest.expiresAt < Date.now()) {
+      const promise = (async () => {
+        const response = await fetch(`${this.baseUrl}/permissions`, { headers: getAuthHeaders() })
+        const result: ApiResponse<UserPermissions> = await response.json().catch(() => ({ success: false }))
+
+        if (!response.ok || !result.success || !result.data) {
+          throw new Error(result.error || `Failed to fetch permissions: ${response.statusText}`)
+        }
+        return result.data
+      })()
+      permissionsRequest = { token: session.token, expiresAt: Date.now() + PERMISSIONS_TTL_MS, promise }
+      // Ask again next time rather than keep a failure
+      promise.catch(() => {
+        if (permissionsRequest?.promise === promise) permissionsRequest = null
+      })
+    }
+
+    return permissionsRequest.promise
+  }
+
+  /**
+   * End the current session
+   */
+  async logout(): Promise<void> {
+    const headers = getAuthHeaders()
+    clearSession()
+    if (!headers.Authorization) return
+
+    await fetch(`${this.baseUrl}/logout`, { method: 'POST', headers }).catch(error => {
+      // Signed out locally anyway - the token expires on its own
+      console.warn('Failed to end the session on the server:', error)
+    })
+  }
+}
+
+// Export singleton instance
+export const authApi = new AuthApiClient()
@@ -1,4 +1,5 @@
 import { Company } from '../mockData'
+import { getAuthHeaders } from './auth'
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
@@ -115,6 +116,7 @@ class CompaniesApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
             signal: abortController.signal,
         })
@@ -180,7 +182,7 @@ class CompaniesApiClient {
    */
   async getById(id: string): Promise<Company> {
     try {
-      const response = await fetch(`${this.baseUrl}/${id}`)
+      const response = await fetch(`${this.baseUrl}/${id}`, { headers: getAuthHeaders() })
       const result: ApiResponse<Company> = await response.json()
 
       if (!result.success || !result.data) {
@@ -203,7 +205,7 @@ class CompaniesApiClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': 'Julian THARSIS', // In real app, get from auth context
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(dto),
       })
@@ -230,7 +232,7 @@ class CompaniesApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': 'Julian THARSIS', // In real app, get from auth context
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(dto),
       })
@@ -255,6 +257,7 @@ class CompaniesApiClient {
     try {
       const response = await fetch(`${this.baseUrl}/${id}`, {
         method: 'DELETE',
+        headers: getAuthHeaders(),
       })
 
       const result: ApiResponse<void> = await response.json()
@@ -283,6 +286,7 @@ class CompaniesApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
           signal: AbortSignal.timeout(15000), // 15 second timeout
         })
@@ -324,7 +328,7 @@ class CompaniesApiClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': 'Julian THARSIS',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({ companies }),
       })
@@ -4,6 +4,8 @@
  * Handles API calls for developer tools, including table creation workflow
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface AirtableBase {
@@ -63,7 +65,7 @@ class DeveloperApiClient {
    * List all accessible Airtable bases/apps
    */
   async listBases(): Promise<AirtableBase[]> {
-    const response = await fetch(`${this.baseUrl}/tables/bases`)
+    const response = await fetch(`${this.baseUrl}/tables/bases`, { headers: getAuthHeaders() })
     if (!response.ok) {
       throw new Error(`Failed to fetch bases: ${response.statusText}`)
     }
@@ -75,7 +77,7 @@ class DeveloperApiClient {
    * List all tables in a specific Airtable base/app
    */
   async listTables(baseId: string): Promise<AirtableTable[]> {
-    const response = await fetch(`${this.baseUrl}/tables/bases/${baseId}/tables`)
+    const response = await fetch(`${this.baseUrl}/tables/bases/${baseId}/tables`, { headers: getAuthHeaders() })
     if (!response.ok) {
       throw new Error(`Failed to fetch tables: ${response.statusText}`)
     }
@@ -87,7 +89,7 @@ class DeveloperApiClient {
    * Get table schema from Airtable
    */
   async getTableSchema(baseId: string, tableId: string): Promise<TableSchema> {
-    const response = await fetch(`${this.baseUrl}/tables/bases/${baseId}/tables/${tableId}/schema`)
+    const response = await fetch(`${this.baseUrl}/tables/bases/${baseId}/tables/${tableId}/schema`, { headers: getAuthHeaders() })
     if (!response.ok) {
       throw new Error(`Failed to fetch table schema: ${response.statusText}`)
     }
@@ -102,6 +104,7 @@ class DeveloperApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(request),
     })
@@ -135,7 +138,7 @@ class DeveloperApiClient {
       config: string
     }
   }> {
-    const response = await fetch(`${this.baseUrl}/tables/verify/${encodeURIComponent(tableName)}`)
+    const response = await fetch(`${this.baseUrl}/tables/verify/${encodeURIComponent(tableName)}`, { headers: getAuthHeaders() })
     if (!response.ok) {
       throw new Error(`Failed to verify table files: ${response.statusText}`)
     }
@@ -143,7 +146,7 @@ class DeveloperApiClient {
   }
 
   async getJobStatus(jobId: string): Promise<TableCreationJob> {
-    const response = await fetch(`${this.baseUrl}/tables/jobs/${jobId}`)
+    const response = await fetch(`${this.baseUrl}/tables/jobs/${jobId}`, { headers: getAuthHeaders() })
     if (!response.ok) {
       if (response.status === 404) {
         // Job not found - might have been cleaned up or server restarted
@@ -3,6 +3,8 @@
  * Handles all HTTP requests to the EF/Detailed G API
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -109,6 +111,7 @@ class EFDetailedGApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
         })
 
@@ -148,6 +151,7 @@ class EFDetailedGApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -169,6 +173,7 @@ class EFDetailedGApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -193,6 +198,7 @@ class EFDetailedGApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(data),
       })
@@ -222,6 +228,7 @@ class EFDetailedGApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -237,6 +244,7 @@ class EFDetailedGApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -3,6 +3,8 @@
  * Handles all HTTP requests to the EF GWP API
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -135,6 +137,7 @@ class EFGWPApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
         })
 
@@ -177,6 +180,7 @@ class EFGWPApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -201,6 +205,7 @@ class EFGWPApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -228,6 +233,7 @@ class EFGWPApiClient {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(data),
       })
@@ -260,6 +266,7 @@ class EFGWPApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -278,6 +285,7 @@ class EFGWPApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -3,6 +3,8 @@
  * Handles all HTTP requests to the Emission Factor Version API
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -35,6 +37,9 @@ export interface EmissionFactorVersion {
   Description?: string
   Formula?: string
   Category?: string
+  'Published Date'?: string
+  'Effective Date'?: string
+  'Expiration Date'?: string
   Status?: 'Active' | 'Inactive'
   Notes?: string
   createdAt?: string
@@ -49,6 +54,9 @@ export interface CreateEmissionFactorVersionDto {
   Description?: string
   Formula?: string
   Category?: string
+  'Published Date'?: string
+  'Effective Date'?: string
+  'Expiration Date'?: string
   Status?: 'Active' | 'Inactive'
   Notes?: string
 }
@@ -59,10 +67,50 @@ export interface UpdateEmissionFactorVersionDto {
   Description?: string
   Formula?: string
   Category?: string
+  'Published Date'?: string
+  'Effective Date'?: string
+  'Expiration Date'?: string
   Status?: 'Active' | 'Inactive'
   Notes?: string
 }
 
+export interface VersionDiffFactorRef {
+  id: string
+  name?: string
+  value?: number
+  ghgUnit?: string
+  status?: string
+}
+
+export interface EmissionFactorVersionDiff {
+  version: { id: string; name?: string; status?: string }
+  previousVersion: { id: string; name?: string; status?: string }
+  summary: { added: number; removed: number; changed: number; unchanged: number }
+  added: Array<{ key: string; label: string; factor: VersionDiffFactorRef }>
+  removed: Array<{ key: string; label: string; factor: VersionDiffFactorRef }>
+  changed: Array<{
+    key: string
+    label: string
+    previous: VersionDiffFactorRef
+    current: VersionDiffFactorRef
+    delta: number | null
+    percentChange: number | null
+    changedFields: string[]
+  }>
+  ambiguousKeys: string[]
+}
+
+export interface EmissionFactorVersionPromotionResult {
+  version: { id: string; name?: string }
+  supersededVersion?: { id: string; name?: string }
+  dryRun: boolean
+  activated: string[]
+  deactivated: string[]
+  unchanged: number
+  atomic: boolean
+  notice?: string
+}
+
 /**
  * API Client for Emission Factor Version
  */
@@ -114,6 +162,7 @@ class EmissionFactorVersionApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
         })
 
@@ -156,6 +205,7 @@ class EmissionFactorVersionApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -180,6 +230,7 @@ class EmissionFactorVersionApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -207,6 +258,7 @@ class EmissionFactorVersionApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(data),
       })
@@ -239,6 +291,7 @@ class EmissionFactorVersionApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -257,6 +310,7 @@ class EmissionFactorVersionApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -286,7 +340,7 @@ class EmissionFactorVersionApiClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': 'System',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({ emissionFactorVersions }),
       })
@@ -308,6 +362,50 @@ class EmissionFactorVersionApiClient {
       throw error
     }
   }
+
+  /**
+   * Compare a version's factors with another version (default: the previous one in its set)
+   */
+  async diff(id: string, against?: string): Promise<EmissionFactorVersionDiff> {
+    const query = against ? `?against=${encodeURIComponent(against)}` : ''
+    const response = await fetch(`${this.baseUrl}/${id}/diff${query}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    })
+
+    const result: ApiResponse<EmissionFactorVersionDiff> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.message || result.error || `Failed to compare Emission Factor Versions: ${response.statusText}`)
+    }
+
+    return result.data
+  }
+
+  /**
+   * Activate a version's factors and retire the factors of the version it supersedes
+   */
+  async promote(id: string, options: { supersedes?: string; dryRun?: boolean } = {}): Promise<EmissionFactorVersionPromotionResult> {
+    const response = await fetch(`${this.baseUrl}/${id}/promote`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify(options),
+    })
+
+    const result: ApiResponse<EmissionFactorVersionPromotionResult> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.message || result.error || `Failed to promote Emission Factor Version: ${response.statusText}`)
+    }
+
+    return result.data
+  }
 }
 
 // Export singleton instance
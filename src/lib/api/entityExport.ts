@@ -0,0 +1,89 @@
+/**
+ * API Client for generic entity export
+ * Downloads every record of the filtered and sorted table view (GET /api/:entity/export)
+ */
+
+import { appendFilterParam, FilterNode } from '../filters'
+import { getAuthHeaders } from './auth'
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'parquet'
+
+export interface ExportColumn {
+  /** Column key (Airtable field name or resolved-name key such as "CompanyName") */
+  key: string
+  /** Column header in the file */
+  label?: string
+}
+
+export interface ExportParams {
+  format?: ExportFormat
+  /** Columns in order (default: every field) */
+  columns?: ExportColumn[]
+  filters?: Record<string, string | string[]>
+  /** Filter tree for ranges and "all of" selections (see lib/filters) */
+  filter?: FilterNode
+  search?: string
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+}
+
+export interface ExportResult {
+  blob: Blob
+  filename: string
+  /** Requested columns the server could not match to a field */
+  skippedColumns: string[]
+}
+
+/**
+ * API Client for entity export
+ */
+class EntityExportApiClient {
+  private baseUrl: string
+
+  constructor() {
+    this.baseUrl = API_BASE_URL
+  }
+
+  /**
+   * Build the export URL for an entity
+   * @param entity - API path segment of the entity (e.g. "unit", "companies")
+   */
+  getExportUrl(entity: string, params: ExportParams = {}): string {
+    const queryParams = new URLSearchParams()
+    queryParams.append('format', params.format || 'csv')
+    if (params.columns && params.columns.length > 0) queryParams.append('columns', JSON.stringify(params.columns))
+    if (params.filters && Object.keys(params.filters).length > 0) queryParams.append('filters', JSON.stringify(params.filters))
+    appendFilterParam(queryParams, params.filter)
+    if (params.search) queryParams.append('search', params.search)
+    if (params.sortBy) queryParams.append('sortBy', params.sortBy)
+    if (params.sortOrder) queryParams.append('sortOrder', params.sortOrder)
+
+    return `${this.baseUrl}/${entity}/export?${queryParams.toString()}`
+  }
+
+  /**
+   * Export all matching records of an entity as a file
+   */
+  async export(entity: string, params: ExportParams = {}): Promise<ExportResult> {
+    const response = await fetch(this.getExportUrl(entity, params), { headers: getAuthHeaders() })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw new Error(result.error || `Failed to export: ${response.statusText}`)
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || ''
+    const skipped = response.headers.get('X-Export-Skipped-Columns')
+
+    return {
+      blob: await response.blob(),
+      filename: disposition.match(/filename="([^"]+)"/)?.[1] || `${entity}.${params.format || 'csv'}`,
+      skippedColumns: skipped ? decodeURIComponent(skipped).split(',') : [],
+    }
+  }
+}
+
+// Export singleton instance
+export const entityExportApi = new EntityExportApiClient()
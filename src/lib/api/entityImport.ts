@@ -0,0 +1,119 @@
+/**
+ * API Client for generic entity import
+ * Handles CSV/XLSX imports into any ListDetailTemplate entity (POST /api/:entity/import)
+ */
+
+import { getAuthHeaders } from './auth'
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
+
+export interface ApiResponse<T> {
+  success: boolean
+  data?: T
+  error?: string
+  message?: string
+}
+
+export interface ImportIssue {
+  field?: string
+  message: string
+}
+
+export interface ImportRowResult {
+  rowNumber: number
+  status: 'valid' | 'invalid' | 'created' | 'failed'
+  fields: Record<string, any>
+  errors: ImportIssue[]
+  warnings: ImportIssue[]
+  id?: string
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  format: 'csv' | 'xlsx' | 'json'
+  sheet?: string
+  columnMapping: Record<string, string>
+  unmappedColumns: string[]
+  summary: {
+    total: number
+    valid: number
+    invalid: number
+    created: number
+    failed: number
+  }
+  rows: ImportRowResult[]
+}
+
+export interface ImportFieldDefinition {
+  name: string
+  label: string
+  type: string
+  required: boolean
+  choices?: string[]
+  linkedTableId?: string
+  linkedTablePrimaryField?: string
+}
+
+export interface ImportOptions {
+  /** Validate only, nothing is written */
+  dryRun?: boolean
+  /** Source column -> Airtable field name */
+  columnMapping?: Record<string, string>
+  /** Worksheet to read (XLSX only) */
+  sheet?: string
+}
+
+/**
+ * API Client for entity import
+ */
+class EntityImportApiClient {
+  private baseUrl: string
+
+  constructor() {
+    this.baseUrl = API_BASE_URL
+  }
+
+  /**
+   * Import a CSV or XLSX file into an entity table
+   * @param entity - API path segment of the entity (e.g. "unit", "companies")
+   */
+  async importFile(entity: string, file: File, options: ImportOptions = {}): Promise<ImportReport> {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('dryRun', String(!!options.dryRun))
+    if (options.columnMapping) formData.append('columnMapping', JSON.stringify(options.columnMapping))
+    if (options.sheet) formData.append('sheet', options.sheet)
+
+    const response = await fetch(`${this.baseUrl}/${entity}/import`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: formData,
+    })
+
+    const result: ApiResponse<ImportReport> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || `Failed to import: ${response.statusText}`)
+    }
+
+    return result.data
+  }
+
+  /**
+   * Get the importable fields of an entity with their types and required flags
+   */
+  async getFields(entity: string): Promise<ImportFieldDefinition[]> {
+    const response = await fetch(`${this.baseUrl}/${entity}/import/fields`, { headers: getAuthHeaders() })
+
+    const result: ApiResponse<ImportFieldDefinition[]> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || `Failed to fetch import fields: ${response.statusText}`)
+    }
+
+    return result.data
+  }
+}
+
+// Export singleton instance
+export const entityImportApi = new EntityImportApiClient()
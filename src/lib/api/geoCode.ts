@@ -3,6 +3,8 @@
  * Handles all HTTP requests to the geo Code API
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface GeoCode {
@@ -74,7 +76,7 @@ class GeoCodeApiClient {
     }
 
     const url = `${this.baseUrl}?${queryParams.toString()}`
-    const response = await fetch(url)
+    const response = await fetch(url, { headers: getAuthHeaders() })
     if (!response.ok) {
       throw new Error(`Failed to fetch geo Code: ${response.statusText}`)
     }
@@ -90,7 +92,7 @@ class GeoCodeApiClient {
   }
 
   async getById(id: string): Promise<GeoCode> {
-    const response = await fetch(`${this.baseUrl}/${id}`)
+    const response = await fetch(`${this.baseUrl}/${id}`, { headers: getAuthHeaders() })
     if (!response.ok) {
       throw new Error(`Failed to fetch geo Code: ${response.statusText}`)
     }
@@ -101,7 +103,7 @@ class GeoCodeApiClient {
   async create(data: CreateGeoCodeDto): Promise<GeoCode> {
     const response = await fetch(this.baseUrl, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(data),
     })
     if (!response.ok) {
@@ -114,7 +116,7 @@ class GeoCodeApiClient {
   async update(id: string, data: UpdateGeoCodeDto): Promise<GeoCode> {
     const response = await fetch(`${this.baseUrl}/${id}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(data),
     })
     if (!response.ok) {
@@ -127,6 +129,7 @@ class GeoCodeApiClient {
   async delete(id: string): Promise<{ success: boolean }> {
     const response = await fetch(`${this.baseUrl}/${id}`, {
       method: 'DELETE',
+      headers: getAuthHeaders(),
     })
     if (!response.ok) {
       throw new Error(`Failed to delete geo Code: ${response.statusText}`)
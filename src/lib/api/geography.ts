@@ -3,6 +3,8 @@
  * Handles all HTTP requests to the geography API
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -120,6 +122,7 @@ class GeographyApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
         })
 
@@ -162,6 +165,7 @@ class GeographyApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -186,6 +190,7 @@ class GeographyApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -212,6 +217,7 @@ class GeographyApiClient {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -238,6 +244,7 @@ class GeographyApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -256,6 +263,7 @@ class GeographyApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -285,7 +293,7 @@ class GeographyApiClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': 'Julian THARSIS',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({ geographies }),
       })
@@ -3,6 +3,9 @@
  * Handles all HTTP requests to the Industry Classification API
  */
 
+import { appendFilterParam, FilterNode } from '../filters'
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -26,6 +29,7 @@ export interface PaginationParams {
   sortOrder?: 'asc' | 'desc'
   search?: string
   filters?: Record<string, any>
+  filter?: FilterNode // Filter tree for ranges and "all of" selections
 }
 
 export interface IndustryClassification {
@@ -62,6 +66,7 @@ export async function getPaginatedIndustryClassification(params: PaginationParam
     if (params.page) queryParams.append('page', String(params.page))
     if (params.limit) queryParams.append('limit', String(params.limit))
     if (params.search) queryParams.append('search', params.search)
+    appendFilterParam(queryParams, params.filter)
     if (params.sortBy) queryParams.append('sortBy', params.sortBy)
     if (params.sortOrder) queryParams.append('sortOrder', params.sortOrder)
     
@@ -81,7 +86,7 @@ export async function getPaginatedIndustryClassification(params: PaginationParam
 
     const response = await fetch(`${API_BASE_URL}/industry-classification?${queryParams.toString()}`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
     })
 
     if (!response.ok) {
@@ -103,7 +108,7 @@ export async function getIndustryClassificationById(id: string): Promise<Industr
   try {
     const response = await fetch(`${API_BASE_URL}/industry-classification/${id}`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
     })
 
     if (!response.ok) {
@@ -126,7 +131,7 @@ export async function createIndustryClassification(data: CreateIndustryClassific
   try {
     const response = await fetch(`${API_BASE_URL}/industry-classification`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(data),
     })
 
@@ -150,7 +155,7 @@ export async function updateIndustryClassification(id: string, data: UpdateIndus
   try {
     const response = await fetch(`${API_BASE_URL}/industry-classification/${id}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(data),
     })
 
@@ -174,7 +179,7 @@ export async function deleteIndustryClassification(id: string): Promise<void> {
   try {
     const response = await fetch(`${API_BASE_URL}/industry-classification/${id}`, {
       method: 'DELETE',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
     })
 
     if (!response.ok) {
@@ -194,7 +199,7 @@ export async function getFilterValues(field: string, limit: number = 100): Promi
   try {
     const response = await fetch(`${API_BASE_URL}/industry-classification/filters/values?field=${field}&limit=${limit}`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
     })
 
     if (!response.ok) {
@@ -4,6 +4,8 @@
  * Fetches AI provider configurations from Airtable
  */
 
+import { getAuthHeaders } from './auth'
+
 export interface IntegrationMarketplaceProvider {
   id: string
   name: string
@@ -47,6 +49,7 @@ class IntegrationMarketplaceApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -85,6 +88,7 @@ class IntegrationMarketplaceApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -121,6 +125,7 @@ class IntegrationMarketplaceApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -150,6 +155,7 @@ class IntegrationMarketplaceApiClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(provider),
       })
@@ -180,6 +186,7 @@ class IntegrationMarketplaceApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(updates),
       })
@@ -210,6 +217,7 @@ class IntegrationMarketplaceApiClient {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
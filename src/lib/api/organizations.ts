@@ -0,0 +1,235 @@
+/**
+ * API Client for Organizations
+ * Handles all HTTP requests to the Organizations API
+ */
+
+import { appendFilterParam, FilterNode } from '../filters'
+import { getAuthHeaders } from './auth'
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
+
+export interface ApiResponse<T> {
+  success: boolean
+  data?: T
+  error?: string
+  message?: string
+  pagination?: {
+    total: number
+    page: number
+    limit: number
+    offset: number
+    hasMore: boolean
+  }
+}
+
+export interface PaginationParams {
+  page?: number
+  limit?: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+  search?: string
+  filters?: Record<string, any>
+  filter?: FilterNode // Filter tree for ranges and "all of" selections
+}
+
+export interface Organization {
+  id: string
+  Name?: string
+  Description?: string
+  Status?: string
+  Notes?: string
+  createdAt?: string
+  updatedAt?: string
+  createdBy?: string
+  lastModifiedBy?: string
+  [key: string]: any
+}
+
+export interface CreateOrganizationDto {
+  Name: string
+  Description?: string
+  Status?: string
+  Notes?: string
+  [key: string]: any
+}
+
+export interface UpdateOrganizationDto {
+  Name?: string
+  Description?: string
+  Status?: string
+  Notes?: string
+  [key: string]: any
+}
+
+/**
+ * Get paginated Organizations
+ */
+export async function getPaginatedOrganizations(params: PaginationParams = {}): Promise<ApiResponse<Organization[]>> {
+  try {
+    const queryParams = new URLSearchParams()
+    queryParams.append('paginated', 'true')
+    
+    if (params.page) queryParams.append('page', String(params.page))
+    if (params.limit) queryParams.append('limit', String(params.limit))
+    if (params.search) queryParams.append('search', params.search)
+    appendFilterParam(queryParams, params.filter)
+    if (params.sortBy) queryParams.append('sortBy', params.sortBy)
+    if (params.sortOrder) queryParams.append('sortOrder', params.sortOrder)
+    
+    // Add filters as query parameters
+    if (params.filters) {
+      Object.entries(params.filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          if (Array.isArray(value)) {
+            // Send array values as multiple query parameters
+            value.forEach(v => queryParams.append(key, String(v)))
+          } else {
+            queryParams.append(key, String(value))
+          }
+        }
+      })
+    }
+
+    const response = await fetch(`${API_BASE_URL}/organizations?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.message || `HTTP error! status: ${response.status}`)
+    }
+
+    return await response.json()
+  } catch (error) {
+    console.error('Error fetching paginated Organizations:', error)
+    throw error
+  }
+}
+
+/**
+ * Get a single Organization by ID
+ */
+export async function getOrganizationById(id: string): Promise<Organization> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/organizations/${id}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.message || `HTTP error! status: ${response.status}`)
+    }
+
+    const result = await response.json()
+    return result.data
+  } catch (error) {
+    console.error('Error fetching Organization by ID:', error)
+    throw error
+  }
+}
+
+/**
+ * Create a new Organization
+ */
+export async function createOrganization(data: CreateOrganizationDto): Promise<Organization> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/organizations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+      body: JSON.stringify(data),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.message || `HTTP error! status: ${response.status}`)
+    }
+
+    const result = await response.json()
+    return result.data
+  } catch (error) {
+    console.error('Error creating Organization:', error)
+    throw error
+  }
+}
+
+/**
+ * Update an existing Organization
+ */
+export async function updateOrganization(id: string, data: UpdateOrganizationDto): Promise<Organization> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/organizations/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+      body: JSON.stringify(data),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.message || `HTTP error! status: ${response.status}`)
+    }
+
+    const result = await response.json()
+    return result.data
+  } catch (error) {
+    console.error('Error updating Organization:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a Organization
+ */
+export async function deleteOrganization(id: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/organizations/${id}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.message || `HTTP error! status: ${response.status}`)
+    }
+  } catch (error) {
+    console.error('Error deleting Organization:', error)
+    throw error
+  }
+}
+
+/**
+ * Get distinct values for a filter field
+ */
+export async function getFilterValues(field: string, limit: number = 100): Promise<string[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/organizations/filters/values?field=${field}&limit=${limit}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.message || `HTTP error! status: ${response.status}`)
+    }
+
+    const result = await response.json()
+    return result.data || []
+  } catch (error) {
+    console.error(`Error fetching filter values for field ${field}:`, error)
+    return []
+  }
+}
+
+/**
+ * Organizations API client object (for use with ListDetailTemplate)
+ */
+export const organizationsApi = {
+  getPaginated: getPaginatedOrganizations,
+  getById: getOrganizationById,
+  create: createOrganization,
+  update: updateOrganization,
+  delete: deleteOrganization,
+  getFilterValues,
+}
+
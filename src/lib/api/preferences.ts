@@ -4,6 +4,8 @@
  * Frontend API client for user preferences
  */
 
+import { getAuthHeaders, getAuthSession } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export type PreferenceNamespace = 'ui' | 'table' | 'filters' | 'featureFlags' | 'misc'
@@ -50,16 +52,10 @@ export interface ApiResponse<T> {
 }
 
 /**
- * Get current user ID from auth context
+ * ID of the signed-in user - the API only serves their own data
  */
 function getUserId(): string {
-  if (typeof window !== 'undefined') {
-    const storedUserId = localStorage.getItem('userId') || sessionStorage.getItem('userId')
-    if (storedUserId) {
-      return storedUserId
-    }
-  }
-  return 'default-user'
+  return getAuthSession()?.user.id || 'default-user'
 }
 
 /**
@@ -102,7 +98,7 @@ class PreferencesApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
-        'X-User-Id': targetUserId,
+        ...getAuthHeaders(),
       },
     })
 
@@ -138,7 +134,7 @@ class PreferencesApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
-        'X-User-Id': targetUserId,
+        ...getAuthHeaders(),
       },
     })
 
@@ -195,7 +191,7 @@ class PreferencesApiClient {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
-        'X-User-Id': targetUserId,
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(body),
     })
@@ -207,7 +203,7 @@ class PreferencesApiClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': targetUserId,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(body),
       })
@@ -246,7 +242,7 @@ class PreferencesApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
-        'X-User-Id': targetUserId,
+        ...getAuthHeaders(),
       },
     })
 
@@ -283,7 +279,7 @@ class PreferencesApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
-        'X-User-Id': targetUserId,
+        ...getAuthHeaders(),
       },
     })
 
@@ -3,6 +3,9 @@
  * Handles all HTTP requests to the Standard Emission Factor API
  */
 
+import { appendFilterParam, FilterNode } from '../filters'
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -25,6 +28,7 @@ export interface PaginationParams {
   sortOrder?: 'asc' | 'desc'
   search?: string
   status?: string
+  filter?: FilterNode // Filter tree for ranges and "all of" selections
 }
 
 export interface StandardEmissionFactor {
@@ -122,6 +126,49 @@ export interface UpdateStandardEmissionFactorDto {
   Notes?: string
 }
 
+export interface StandardEmissionFactorImportOptions {
+  /** Validate and report without writing anything (default true) */
+  dryRun?: boolean
+  /** Create Units that do not exist yet instead of rejecting the row */
+  createMissingUnits?: boolean
+  /** Source column -> field ('' to ignore the column) */
+  columnMapping?: Record<string, string>
+  /** Values used when a row has no value for the field */
+  defaults?: Record<string, string>
+  /** Worksheet to read (XLSX only) */
+  sheet?: string
+}
+
+export interface StandardEmissionFactorImportIssue {
+  field?: string
+  message: string
+}
+
+export interface StandardEmissionFactorImportReport {
+  dryRun: boolean
+  format: 'csv' | 'xlsx'
+  sheet?: string
+  columnMapping: Record<string, string>
+  unmappedColumns: string[]
+  summary: {
+    total: number
+    valid: number
+    invalid: number
+    created: number
+    failed: number
+  }
+  missingUnits: string[]
+  createdUnits: Array<{ id: string; name: string }>
+  rows: Array<{
+    rowNumber: number
+    status: 'valid' | 'invalid' | 'created' | 'failed'
+    fields: CreateStandardEmissionFactorDto
+    errors: StandardEmissionFactorImportIssue[]
+    warnings: StandardEmissionFactorImportIssue[]
+    id?: string
+  }>
+}
+
 /**
  * API Client for Standard Emission Factor
  */
@@ -161,6 +208,7 @@ class StandardEmissionFactorApiClient {
         if (params.search) {
           queryParams.append('search', params.search)
         }
+        appendFilterParam(queryParams, params.filter)
         if (params.status) {
           queryParams.append('status', params.status)
         }
@@ -169,6 +217,7 @@ class StandardEmissionFactorApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
         })
 
@@ -211,6 +260,7 @@ class StandardEmissionFactorApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -235,6 +285,7 @@ class StandardEmissionFactorApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -262,6 +313,7 @@ class StandardEmissionFactorApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(data),
       })
@@ -294,6 +346,7 @@ class StandardEmissionFactorApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -303,6 +356,34 @@ class StandardEmissionFactorApiClient {
     }
   }
 
+  /**
+   * Import a CSV or XLSX emission factor dataset
+   * Runs as a dry run unless dryRun is false
+   */
+  async importFile(file: File, options: StandardEmissionFactorImportOptions = {}): Promise<StandardEmissionFactorImportReport> {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('dryRun', String(options.dryRun !== false))
+    formData.append('createMissingUnits', String(!!options.createMissingUnits))
+    if (options.columnMapping) formData.append('columnMapping', JSON.stringify(options.columnMapping))
+    if (options.defaults) formData.append('defaults', JSON.stringify(options.defaults))
+    if (options.sheet) formData.append('sheet', options.sheet)
+
+    const response = await fetch(`${this.baseUrl}/import`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: formData,
+    })
+
+    const result: ApiResponse<StandardEmissionFactorImportReport> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || `Failed to import Standard Emission Factors: ${response.statusText}`)
+    }
+
+    return result.data
+  }
+
   /**
    * Get distinct values for a filter field
    */
@@ -312,6 +393,7 @@ class StandardEmissionFactorApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
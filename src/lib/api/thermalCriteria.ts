@@ -3,6 +3,8 @@
  * Handles all HTTP requests to the Thermal Criteria API
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ThermalCriteria {
@@ -62,7 +64,7 @@ class ThermalCriteriaApiClient {
     }
 
     const url = `${this.baseUrl}?${queryParams.toString()}`
-    const response = await fetch(url)
+    const response = await fetch(url, { headers: getAuthHeaders() })
     if (!response.ok) {
       throw new Error(`Failed to fetch Thermal Criteria: ${response.statusText}`)
     }
@@ -78,7 +80,7 @@ class ThermalCriteriaApiClient {
   }
 
   async getById(id: string): Promise<ThermalCriteria> {
-    const response = await fetch(`${this.baseUrl}/${id}`)
+    const response = await fetch(`${this.baseUrl}/${id}`, { headers: getAuthHeaders() })
     if (!response.ok) {
       throw new Error(`Failed to fetch Thermal Criteria: ${response.statusText}`)
     }
@@ -89,7 +91,7 @@ class ThermalCriteriaApiClient {
   async create(data: CreateThermalCriteriaDto): Promise<ThermalCriteria> {
     const response = await fetch(this.baseUrl, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(data),
     })
     if (!response.ok) {
@@ -102,7 +104,7 @@ class ThermalCriteriaApiClient {
   async update(id: string, data: UpdateThermalCriteriaDto): Promise<ThermalCriteria> {
     const response = await fetch(`${this.baseUrl}/${id}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(data),
     })
     if (!response.ok) {
@@ -115,6 +117,7 @@ class ThermalCriteriaApiClient {
   async delete(id: string): Promise<{ success: boolean }> {
     const response = await fetch(`${this.baseUrl}/${id}`, {
       method: 'DELETE',
+      headers: getAuthHeaders(),
     })
     if (!response.ok) {
       throw new Error(`Failed to delete Thermal Criteria: ${response.statusText}`)
@@ -3,6 +3,8 @@
  * Handles all HTTP requests to the Unit API
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -33,6 +35,8 @@ export interface Unit {
   Description?: string
   Status?: 'Active' | 'Inactive'
   Symbol?: string
+  Dimension?: string
+  'Unit type'?: string
   Notes?: string
   createdAt?: string
   updatedAt?: string
@@ -100,6 +104,7 @@ class UnitApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
         })
 
@@ -139,6 +144,7 @@ class UnitApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -160,6 +166,7 @@ class UnitApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -184,6 +191,7 @@ class UnitApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(data),
       })
@@ -213,6 +221,7 @@ class UnitApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -228,6 +237,7 @@ class UnitApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
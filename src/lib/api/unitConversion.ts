@@ -3,6 +3,8 @@
  * Handles all HTTP requests to the Unit Conversion API
  */
 
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -76,6 +78,35 @@ export interface UpdateUnitConversionDto {
   Notes?: string
 }
 
+export interface ConvertUnitsParams {
+  value: number
+  /** Unit record ID, name or symbol */
+  from: string
+  to: string
+  /** Activity Density record ID or name - required between dimensions (e.g. litres to kg) */
+  activityDensity?: string
+}
+
+export interface ConversionStep {
+  conversionId: string
+  conversionName?: string
+  from: { id: string; name?: string }
+  to: { id: string; name?: string }
+  factor: number
+  inverted: boolean
+  activityDensity?: { id: string; name?: string }
+}
+
+export interface ConvertUnitsResult {
+  value: number
+  from: { id: string; name?: string; dimension?: string }
+  to: { id: string; name?: string; dimension?: string }
+  result: number
+  factor: number
+  activityDensity?: { id: string; name?: string }
+  path: ConversionStep[]
+}
+
 /**
  * API Client for Unit Conversion
  */
@@ -120,6 +151,7 @@ class UnitConversionApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
         })
 
@@ -159,6 +191,7 @@ class UnitConversionApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -180,6 +213,7 @@ class UnitConversionApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -204,6 +238,7 @@ class UnitConversionApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(data),
       })
@@ -233,6 +268,7 @@ class UnitConversionApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -248,6 +284,7 @@ class UnitConversionApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -267,6 +304,33 @@ class UnitConversionApiClient {
       return []
     }
   }
+
+  async convert(params: ConvertUnitsParams): Promise<ConvertUnitsResult> {
+    const queryParams = new URLSearchParams({
+      value: params.value.toString(),
+      from: params.from,
+      to: params.to,
+    })
+    if (params.activityDensity) {
+      queryParams.append('activityDensity', params.activityDensity)
+    }
+
+    const response = await fetch(`${this.baseUrl}/convert?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    })
+
+    const result: ApiResponse<ConvertUnitsResult> = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success || !result.data) {
+      throw new Error(result.error || `Failed to convert units: ${response.statusText}`)
+    }
+
+    return result.data
+  }
 }
 
 // Export singleton instance
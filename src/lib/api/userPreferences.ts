@@ -1,3 +1,5 @@
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface UserPreferences {
@@ -43,22 +45,6 @@ export interface ApiResponse<T> {
   warning?: string
 }
 
-/**
- * Get current user ID from auth context
- * For now, returns a default user ID. In production, get from auth context.
- */
-function getUserId(): string {
-  // TODO: Get from auth context when authentication is implemented
-  if (typeof window !== 'undefined') {
-    // Try to get from localStorage or sessionStorage
-    const storedUserId = localStorage.getItem('userId') || sessionStorage.getItem('userId')
-    if (storedUserId) {
-      return storedUserId
-    }
-  }
-  return 'default-user'
-}
-
 /**
  * API Client for User Preferences
  */
@@ -70,26 +56,24 @@ class UserPreferencesApiClient {
   }
 
   /**
-   * Get user preferences
+   * Get the preferences of the signed-in user
    */
-  async getPreferences(userId?: string): Promise<UserPreferences> {
+  async getPreferences(): Promise<UserPreferences> {
     try {
-      const targetUserId = userId || getUserId()
-      
       // Get browser locale and timezone for default preferences
       const locale = typeof navigator !== 'undefined' ? navigator.language : 'en-US'
       const timeZone = typeof Intl !== 'undefined' 
         ? Intl.DateTimeFormat().resolvedOptions().timeZone 
         : 'UTC'
       
-      const url = `${this.baseUrl}/preferences?userId=${encodeURIComponent(targetUserId)}`
+      const url = `${this.baseUrl}/preferences`
       console.log('🔍 Fetching user preferences from:', url)
       
       const response = await fetch(url, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': targetUserId,
+          ...getAuthHeaders(),
           'Accept-Language': locale,
           'X-Timezone': timeZone,
         },
@@ -132,19 +116,15 @@ class UserPreferencesApiClient {
   }
 
   /**
-   * Update user preferences
+   * Update the preferences of the signed-in user
    */
-  async updatePreferences(
-    preferences: UpdateUserPreferencesDto,
-    userId?: string
-  ): Promise<UserPreferences> {
+  async updatePreferences(preferences: UpdateUserPreferencesDto): Promise<UserPreferences> {
     try {
-      const targetUserId = userId || getUserId()
       const response = await fetch(`${this.baseUrl}/preferences`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': targetUserId,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(preferences),
       })
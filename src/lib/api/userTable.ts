@@ -3,6 +3,9 @@
  * Handles all HTTP requests to the user table API
  */
 
+import { appendFilterParam, FilterNode } from '../filters'
+import { getAuthHeaders } from './auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface ApiResponse<T> {
@@ -27,6 +30,7 @@ export interface PaginationParams {
   filters?: Record<string, any> // All filters as key-value pairs
   status?: string // Legacy support
   category?: string // Legacy support
+  filter?: FilterNode // Filter tree for ranges and "all of" selections
 }
 
 export interface UserTable {
@@ -114,6 +118,7 @@ class UserTableApiClient {
         if (params.search) {
           queryParams.append('search', params.search)
         }
+        appendFilterParam(queryParams, params.filter)
         
         // Add all filters from params.filters object
         if (params.filters) {
@@ -145,6 +150,7 @@ class UserTableApiClient {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
         })
 
@@ -187,6 +193,7 @@ class UserTableApiClient {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -211,6 +218,7 @@ class UserTableApiClient {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(data),
     })
@@ -238,6 +246,7 @@ class UserTableApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(data),
       })
@@ -270,6 +279,7 @@ class UserTableApiClient {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -288,6 +298,7 @@ class UserTableApiClient {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       })
 
@@ -317,7 +328,7 @@ class UserTableApiClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': 'System',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({ userTables }),
       })
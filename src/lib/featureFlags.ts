@@ -40,6 +40,7 @@ type FeatureFlag =
   | 'unitConversion'
   | 'standardECMCatalog'
   | 'standardECMClassification'
+  | 'activityData'
 
 const featureFlags: Record<FeatureFlag, boolean> = {
   tableActionsV2: process.env.NEXT_PUBLIC_FEATURE_TABLE_ACTIONS_V2 === 'true' || true, // Default to true for development
@@ -77,6 +78,7 @@ const featureFlags: Record<FeatureFlag, boolean> = {
   unitConversion: process.env.NEXT_PUBLIC_FEATURE_UNIT_CONVERSION === 'true' || true, // Default to true
   standardECMCatalog: process.env.NEXT_PUBLIC_FEATURE_STANDARD_ECM_CATALOG === 'true' || true, // Default to true
   standardECMClassification: process.env.NEXT_PUBLIC_FEATURE_STANDARD_ECM_CLASSIFICATION === 'true' || true, // Default to true
+  activityData: process.env.NEXT_PUBLIC_FEATURE_ACTIVITY_DATA === 'true' || true, // Default to true
 }
 
 /**
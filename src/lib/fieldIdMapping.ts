@@ -8,6 +8,8 @@
  * Field IDs are fetched from Airtable Metadata API and cached locally.
  */
 
+import { getAuthHeaders } from '@/lib/api/auth'
+
 export interface FieldIdMapping {
   /** Airtable Field ID (immutable) */
   fieldId: string
@@ -90,6 +92,7 @@ export async function fetchFieldMapping(
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     })
 
@@ -0,0 +1,119 @@
+/**
+ * Filter Trees
+ *
+ * Typed filters sent to the API in the `filter` query parameter as JSON. The server
+ * validates the tree and compiles it for its database (an escaped Airtable formula, a
+ * parameterised SQL WHERE clause or an in-memory predicate) - see
+ * server/src/database/filters/FilterAst.ts, which these types mirror.
+ *
+ * Option lists picked "any of" keep going in the `filters` map, which each entity maps
+ * to its own fields (linked record IDs, names); the conditions the map cannot express -
+ * ranges and "all of" selections - go in the filter tree.
+ */
+
+import { FilterConfig } from '@/components/templates/types'
+
+export type FilterValue = string | number | boolean
+
+export type RangeBound = number | string
+
+export type FilterNode =
+  | { op: 'eq'; field: string; value: FilterValue }
+  | { op: 'in'; field: string; values: FilterValue[] }
+  | { op: 'contains'; field: string; value: string }
+  | { op: 'range'; field: string; min?: RangeBound; max?: RangeBound }
+  | { op: 'isEmpty'; field: string }
+  | { op: 'and'; filters: FilterNode[] }
+  | { op: 'or'; filters: FilterNode[] }
+  | { op: 'not'; filter: FilterNode }
+
+/** How the selected options of a multiselect filter combine */
+export type FilterMatchMode = 'any' | 'all'
+
+export type ActiveFilterValue = string | string[]
+
+/**
+ * Filters all matching, leaving out the missing ones (undefined when none is left)
+ */
+export function allOf(...filters: Array<FilterNode | null | undefined>): FilterNode | undefined {
+  const present = filters.filter((filter): filter is FilterNode => !!filter)
+  return present.length <= 1 ? present[0] : { op: 'and', filters: present }
+}
+
+export const isRangeFilter = (config: FilterConfig): boolean =>
+  config.type === 'numberRange' || config.type === 'dateRange'
+
+/**
+ * [min, max] of a range filter value ('' for an open end)
+ */
+export function getRangeValue(value: ActiveFilterValue | undefined): [string, string] {
+  const [min = '', max = ''] = Array.isArray(value) ? value : []
+  return [min, max]
+}
+
+const toBound = (config: FilterConfig, value: string): RangeBound | undefined => {
+  const trimmed = value.trim()
+  if (!trimmed) return undefined
+  if (config.type === 'numberRange') {
+    const number = Number(trimmed)
+    return Number.isFinite(number) ? number : undefined
+  }
+  return trimmed
+}
+
+/**
+ * Filter tree of one filter, or undefined when it is not set or the map covers it
+ */
+export function buildFieldFilter(
+  config: FilterConfig,
+  value: ActiveFilterValue | undefined,
+  matchMode: FilterMatchMode = 'any'
+): FilterNode | undefined {
+  if (isRangeFilter(config)) {
+    const [min, max] = getRangeValue(value).map(bound => toBound(config, bound))
+    if (min === undefined && max === undefined) return undefined
+    return {
+      op: 'range',
+      field: config.key,
+      ...(min !== undefined ? { min } : {}),
+      ...(max !== undefined ? { max } : {}),
+    }
+  }
+  const values = (Array.isArray(value) ? value : value ? [value] : []).filter(v => v !== '')
+  if (matchMode !== 'all' || values.length < 2) return undefined
+  return allOf(...values.map(v => ({ op: 'eq' as const, field: config.key, value: v })))
+}
+
+/**
+ * Split the active filters of a table view into the `filters` map and the filter tree
+ */
+export function buildFilterQuery(
+  activeFilters: Record<string, ActiveFilterValue>,
+  configs: FilterConfig[],
+  matchModes: Record<string, FilterMatchMode> = {}
+): { filters?: Record<string, ActiveFilterValue>; filter?: FilterNode } {
+  const filters: Record<string, ActiveFilterValue> = {}
+  const nodes: FilterNode[] = []
+  Object.entries(activeFilters).forEach(([key, value]) => {
+    const config = configs.find(c => c.key === key)
+    const node = config ? buildFieldFilter(config, value, matchModes[key]) : undefined
+    if (node) {
+      nodes.push(node)
+    } else if (!config || !isRangeFilter(config)) {
+      filters[key] = value
+    }
+  })
+  return {
+    filters: Object.keys(filters).length > 0 ? filters : undefined,
+    filter: allOf(...nodes),
+  }
+}
+
+/**
+ * Add the filter tree to request query parameters
+ */
+export function appendFilterParam(queryParams: URLSearchParams, filter?: FilterNode): void {
+  if (filter) {
+    queryParams.append('filter', JSON.stringify(filter))
+  }
+}
@@ -5,6 +5,8 @@
  * This bridges your Gemini integration with the MCP server
  */
 
+import { getAuthHeaders } from '@/lib/api/auth'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
 
 export interface MCPToolCall {
@@ -28,6 +30,7 @@ export async function callMCPTool(tool: MCPToolCall): Promise<MCPToolResult> {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify({
         name: tool.name,
@@ -59,7 +62,7 @@ export async function callMCPTool(tool: MCPToolCall): Promise<MCPToolResult> {
  */
 export async function listMCPTools(): Promise<Array<{ name: string; description: string }>> {
   try {
-    const response = await fetch(`${API_BASE_URL}/mcp/tools/list`)
+    const response = await fetch(`${API_BASE_URL}/mcp/tools/list`, { headers: getAuthHeaders() })
     
     if (!response.ok) {
       return []
@@ -8,6 +8,7 @@
 import React from 'react'
 import { ListDetailTemplateConfig, ColumnConfig, FieldConfig, FilterConfig, PanelConfig, ApiClient } from '@/components/templates/types'
 import { autoGenerateFilters, mergeFilters } from './autoGenerateFilters'
+import { getAuthHeaders } from '@/lib/api/auth'
 
 /**
  * Generate a basic table configuration following the blueprint pattern
@@ -15,6 +16,8 @@ import { autoGenerateFilters, mergeFilters } from './autoGenerateFilters'
 export function generateTableConfig<T extends { id: string }>(params: {
   entityName: string
   entityNamePlural: string
+  /** API path segment of the entity (ListDetailTemplateConfig.entityPath) */
+  entityPath?: string
   description?: string
   fields: FieldConfig[]
   columns: ColumnConfig[]
@@ -31,6 +34,7 @@ export function generateTableConfig<T extends { id: string }>(params: {
   const {
     entityName,
     entityNamePlural,
+    entityPath,
     description,
     fields,
     columns,
@@ -83,6 +87,7 @@ export function generateTableConfig<T extends { id: string }>(params: {
   const config: ListDetailTemplateConfig<T> = {
     entityName,
     entityNamePlural,
+    entityPath,
     description,
     columns,
     fields,
@@ -164,7 +169,7 @@ export function generateLinkedRecordField(params: {
         
         const response = await fetch(`${API_BASE_URL}/${apiEndpoint}?${queryParams.toString()}`, {
           method: 'GET',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
           signal: abortSignal,
         })
         
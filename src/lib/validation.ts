@@ -0,0 +1,47 @@
+/**
+ * Field Validation
+ *
+ * Checks of record values before they are sent to the API - the rules and checks are
+ * those of server/src/validation/fieldRules.ts, which the API applies to every create and
+ * update (refusing bad values with 422), so a value the detail panel accepts is one the
+ * API accepts. getFieldValidator() gives the FieldConfig.validate of a field that has none.
+ */
+
+import { FieldConfig } from '@/components/templates/types'
+import { FieldRule, validateFieldValue } from '@server/validation/fieldRules'
+
+export * from '@server/validation/fieldRules'
+
+/**
+ * Rule of a ListDetailTemplate field - null for fields the panel does not write as values
+ */
+export function getFieldRule(field: FieldConfig): FieldRule | null {
+  const base = { field: field.key, required: field.required }
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+      return { ...base, type: 'text' }
+    case 'number':
+      return { ...base, type: 'number' }
+    case 'date':
+      return { ...base, type: 'date' }
+    case 'select':
+      return { ...base, type: 'text', options: Array.isArray(field.options) ? field.options : undefined }
+    case 'choiceList':
+      return { ...base, type: 'links' }
+    default:
+      return null
+  }
+}
+
+/**
+ * FieldConfig.validate of a field, derived from its type, required flag and options
+ * when the config does not set one
+ */
+export function getFieldValidator(field: FieldConfig): ((value: any) => string | null) | undefined {
+  if (field.validate) {
+    return field.validate
+  }
+  const rule = getFieldRule(field)
+  return rule ? (value: any) => validateFieldValue(rule, value) : undefined
+}